@@ -20,11 +20,13 @@ import {
     PaymentInitializeOptions,
     PaymentIntegrationService,
     PaymentInvalidFormError,
+    PaymentLifecyclePhase,
     PaymentMethodCancelledError,
     RequestError,
 } from '@bigcommerce/checkout-sdk/payment-integration-api';
 import {
     getCreditCardInstrument,
+    getOrder,
     PaymentIntegrationServiceMock,
 } from '@bigcommerce/checkout-sdk/payment-integrations-test-utils';
 
@@ -607,6 +609,57 @@ describe('AdyenV2PaymentStrategy', () => {
                 expect(adyenCheckout.createFromAction).toHaveBeenCalledTimes(1);
             });
 
+            it('reports redirecting phase before shopper is redirected to complete payment', async () => {
+                const redirectShopperError = getAdditionalActionError(ResultCode.ChallengeShopper);
+
+                redirectShopperError.body.provider_data.action = JSON.stringify({
+                    paymentMethodType: 'scheme',
+                    type: 'redirect',
+                    url: 'https://adyen/redirect',
+                });
+
+                jest.spyOn(paymentIntegrationService, 'submitPayment')
+                    .mockReturnValueOnce(Promise.reject(redirectShopperError))
+                    .mockImplementationOnce(jest.fn());
+
+                await strategy.initialize(options);
+                await strategy.execute(getOrderRequestBody());
+
+                expect(paymentIntegrationService.reportPaymentPhase).toHaveBeenCalledWith(
+                    PaymentLifecyclePhase.Redirecting,
+                    { methodId: options.methodId, gatewayId: options.gatewayId },
+                );
+            });
+
+            it('reports challenge phase if shopper is challenged in place', async () => {
+                jest.spyOn(paymentIntegrationService, 'submitPayment')
+                    .mockReturnValueOnce(Promise.reject(challengeShopperError))
+                    .mockImplementationOnce(jest.fn());
+
+                await strategy.initialize(options);
+                await strategy.execute(getOrderRequestBody());
+
+                expect(paymentIntegrationService.reportPaymentPhase).toHaveBeenCalledWith(
+                    PaymentLifecyclePhase.Challenge,
+                    { methodId: options.methodId, gatewayId: options.gatewayId },
+                );
+                expect(paymentIntegrationService.reportPaymentPhase).not.toHaveBeenCalledWith(
+                    PaymentLifecyclePhase.Redirecting,
+                    expect.any(Object),
+                );
+            });
+
+            it('does not report payment phase if shopper is only identified', async () => {
+                jest.spyOn(paymentIntegrationService, 'submitPayment')
+                    .mockReturnValueOnce(Promise.reject(identifyShopperError))
+                    .mockImplementationOnce(jest.fn());
+
+                await strategy.initialize(options);
+                await strategy.execute(getOrderRequestBody());
+
+                expect(paymentIntegrationService.reportPaymentPhase).not.toHaveBeenCalled();
+            });
+
             it('calls submit payment with SEPA component', async () => {
                 jest.spyOn(
                     paymentIntegrationService.getState(),
@@ -901,6 +954,33 @@ describe('AdyenV2PaymentStrategy', () => {
         });
     });
 
+    describe('#resume()', () => {
+        const pendingPayment = { methodId: 'scheme', gatewayId: 'adyenv2', createdAt: Date.now() };
+
+        beforeEach(() => {
+            jest.spyOn(paymentIntegrationService, 'loadCurrentOrder').mockResolvedValue(
+                paymentIntegrationService.getState(),
+            );
+        });
+
+        it('reloads current order to find out outcome of redirected payment', async () => {
+            await strategy.resume(pendingPayment);
+
+            expect(paymentIntegrationService.loadCurrentOrder).toHaveBeenCalled();
+        });
+
+        it('throws cancellation error if order is not completed after returning from redirect', async () => {
+            jest.spyOn(paymentIntegrationService.getState(), 'getOrder').mockReturnValue({
+                ...getOrder(),
+                isComplete: false,
+            });
+
+            await expect(strategy.resume(pendingPayment)).rejects.toBeInstanceOf(
+                PaymentMethodCancelledError,
+            );
+        });
+    });
+
     describe('#deinitialize', () => {
         beforeEach(() => {
             jest.spyOn(
@@ -18,6 +18,7 @@ import {
     CardStateErrors,
     isAccountState,
     isCardState,
+    ResultCode,
     WithAdyenV2PaymentInitializeOptions,
 } from '@bigcommerce/checkout-sdk/adyen-utils';
 import {
@@ -38,10 +39,12 @@ import {
     PaymentIntegrationService,
     PaymentInvalidFormError,
     PaymentInvalidFormErrorDetails,
+    PaymentLifecyclePhase,
     PaymentMethod,
     PaymentMethodCancelledError,
     PaymentRequestOptions,
     PaymentStrategy,
+    PendingPayment,
 } from '@bigcommerce/checkout-sdk/payment-integration-api';
 
 export default class AdyenV2PaymentStrategy implements PaymentStrategy {
@@ -50,6 +53,7 @@ export default class AdyenV2PaymentStrategy implements PaymentStrategy {
     private _componentState?: AdyenComponentEventState;
     private _paymentComponent?: AdyenComponent;
     private _paymentInitializeOptions?: AdyenV2PaymentInitializeOptions;
+    private _paymentRequestOptions?: PaymentRequestOptions;
 
     constructor(
         private _paymentIntegrationService: PaymentIntegrationService,
@@ -68,6 +72,7 @@ export default class AdyenV2PaymentStrategy implements PaymentStrategy {
         }
 
         this._paymentInitializeOptions = adyenv2;
+        this._paymentRequestOptions = { methodId: options.methodId, gatewayId: options.gatewayId };
 
         const paymentMethod = this._paymentIntegrationService
             .getState()
@@ -217,8 +222,18 @@ export default class AdyenV2PaymentStrategy implements PaymentStrategy {
         return Promise.reject(new OrderFinalizationNotRequiredError());
     }
 
+    async resume(_pendingPayment: PendingPayment): Promise<void> {
+        const state = await this._paymentIntegrationService.loadCurrentOrder();
+        const order = state.getOrder();
+
+        if (!order || !order.isComplete) {
+            throw new PaymentMethodCancelledError();
+        }
+    }
+
     deinitialize(): Promise<void> {
         this._componentState = undefined;
+        this._paymentRequestOptions = undefined;
 
         if (this._paymentComponent) {
             this._paymentComponent.unmount();
@@ -466,7 +481,11 @@ export default class AdyenV2PaymentStrategy implements PaymentStrategy {
             throw error;
         }
 
-        const payment = await this._handleAction(error.body.provider_data);
+        const additionalAction: AdyenAdditionalAction = error.body.provider_data;
+
+        await this._reportAdditionalActionPhase(additionalAction);
+
+        const payment = await this._handleAction(additionalAction);
 
         try {
             await this._paymentIntegrationService.submitPayment({
@@ -486,6 +505,28 @@ export default class AdyenV2PaymentStrategy implements PaymentStrategy {
         }
     }
 
+    private async _reportAdditionalActionPhase(
+        additionalAction: AdyenAdditionalAction,
+    ): Promise<void> {
+        const adyenAction: AdyenAction = JSON.parse(additionalAction.action);
+
+        if (!this._paymentRequestOptions) {
+            return;
+        }
+
+        if (adyenAction.type === AdyenV2ActionType.Redirect) {
+            await this._paymentIntegrationService.reportPaymentPhase(
+                PaymentLifecyclePhase.Redirecting,
+                this._paymentRequestOptions,
+            );
+        } else if (additionalAction.resultCode === ResultCode.ChallengeShopper) {
+            await this._paymentIntegrationService.reportPaymentPhase(
+                PaymentLifecyclePhase.Challenge,
+                this._paymentRequestOptions,
+            );
+        }
+    }
+
     private _updateComponentState(componentState: AdyenComponentEventState) {
         this._componentState = componentState;
     }
@@ -22,11 +22,13 @@ import {
     PaymentInitializeOptions,
     PaymentIntegrationService,
     PaymentInvalidFormError,
+    PaymentLifecyclePhase,
     PaymentMethodCancelledError,
     RequestError,
 } from '@bigcommerce/checkout-sdk/payment-integration-api';
 import {
     getCreditCardInstrument,
+    getOrder,
     PaymentIntegrationServiceMock,
 } from '@bigcommerce/checkout-sdk/payment-integrations-test-utils';
 
@@ -297,6 +299,57 @@ describe('AdyenV3PaymentStrategy', () => {
                 );
             });
 
+            it('reports redirecting phase before shopper is redirected to complete payment', async () => {
+                const redirectShopperError = getAdditionalActionError(ResultCode.ChallengeShopper);
+
+                redirectShopperError.body.provider_data.action = JSON.stringify({
+                    paymentMethodType: 'scheme',
+                    type: 'redirect',
+                    url: 'https://adyen/redirect',
+                });
+
+                jest.spyOn(paymentIntegrationService, 'submitPayment')
+                    .mockReturnValueOnce(Promise.reject(redirectShopperError))
+                    .mockImplementationOnce(jest.fn());
+
+                await strategy.initialize(options);
+                await strategy.execute(getOrderRequestBody());
+
+                expect(paymentIntegrationService.reportPaymentPhase).toHaveBeenCalledWith(
+                    PaymentLifecyclePhase.Redirecting,
+                    { methodId: options.methodId, gatewayId: options.gatewayId },
+                );
+            });
+
+            it('reports challenge phase if shopper is challenged in place', async () => {
+                jest.spyOn(paymentIntegrationService, 'submitPayment')
+                    .mockReturnValueOnce(Promise.reject(challengeShopperError))
+                    .mockImplementationOnce(jest.fn());
+
+                await strategy.initialize(options);
+                await strategy.execute(getOrderRequestBody());
+
+                expect(paymentIntegrationService.reportPaymentPhase).toHaveBeenCalledWith(
+                    PaymentLifecyclePhase.Challenge,
+                    { methodId: options.methodId, gatewayId: options.gatewayId },
+                );
+                expect(paymentIntegrationService.reportPaymentPhase).not.toHaveBeenCalledWith(
+                    PaymentLifecyclePhase.Redirecting,
+                    expect.any(Object),
+                );
+            });
+
+            it('does not report payment phase if shopper is only identified', async () => {
+                jest.spyOn(paymentIntegrationService, 'submitPayment')
+                    .mockReturnValueOnce(Promise.reject(identifyShopperError))
+                    .mockImplementationOnce(jest.fn());
+
+                await strategy.initialize(options);
+                await strategy.execute(getOrderRequestBody());
+
+                expect(paymentIntegrationService.reportPaymentPhase).not.toHaveBeenCalled();
+            });
+
             it('throws an error when card fields invalid', async () => {
                 const adyenInvalidPaymentComponent = {
                     mount: jest.fn(),
@@ -998,6 +1051,33 @@ describe('AdyenV3PaymentStrategy', () => {
         });
     });
 
+    describe('#resume()', () => {
+        const pendingPayment = { methodId: 'scheme', gatewayId: 'adyenv3', createdAt: Date.now() };
+
+        beforeEach(() => {
+            jest.spyOn(paymentIntegrationService, 'loadCurrentOrder').mockResolvedValue(
+                paymentIntegrationService.getState(),
+            );
+        });
+
+        it('reloads current order to find out outcome of redirected payment', async () => {
+            await strategy.resume(pendingPayment);
+
+            expect(paymentIntegrationService.loadCurrentOrder).toHaveBeenCalled();
+        });
+
+        it('throws cancellation error if order is not completed after returning from redirect', async () => {
+            jest.spyOn(paymentIntegrationService.getState(), 'getOrder').mockReturnValue({
+                ...getOrder(),
+                isComplete: false,
+            });
+
+            await expect(strategy.resume(pendingPayment)).rejects.toBeInstanceOf(
+                PaymentMethodCancelledError,
+            );
+        });
+    });
+
     describe('#deinitialize', () => {
         beforeEach(() => {
             jest.spyOn(
@@ -18,6 +18,7 @@ import {
     CardStateErrors,
     isBoletoState,
     isCardState,
+    ResultCode,
     WithAdyenV3PaymentInitializeOptions,
 } from '@bigcommerce/checkout-sdk/adyen-utils';
 import {
@@ -38,10 +39,12 @@ import {
     PaymentIntegrationService,
     PaymentInvalidFormError,
     PaymentInvalidFormErrorDetails,
+    PaymentLifecyclePhase,
     PaymentMethod,
     PaymentMethodCancelledError,
     PaymentRequestOptions,
     PaymentStrategy,
+    PendingPayment,
 } from '@bigcommerce/checkout-sdk/payment-integration-api';
 
 export default class Adyenv3PaymentStrategy implements PaymentStrategy {
@@ -53,6 +56,7 @@ export default class Adyenv3PaymentStrategy implements PaymentStrategy {
     private componentState?: AdyenComponentEventState;
     private paymentComponent?: AdyenComponent;
     private paymentInitializeOptions?: AdyenV3PaymentInitializeOptions;
+    private paymentRequestOptions?: PaymentRequestOptions;
 
     constructor(
         private paymentIntegrationService: PaymentIntegrationService,
@@ -71,6 +75,7 @@ export default class Adyenv3PaymentStrategy implements PaymentStrategy {
         }
 
         this.paymentInitializeOptions = adyenv3;
+        this.paymentRequestOptions = { methodId: options.methodId, gatewayId: options.gatewayId };
 
         const paymentMethod = this.paymentIntegrationService
             .getState()
@@ -258,8 +263,18 @@ export default class Adyenv3PaymentStrategy implements PaymentStrategy {
         return Promise.reject(new OrderFinalizationNotRequiredError());
     }
 
+    async resume(_pendingPayment: PendingPayment): Promise<void> {
+        const state = await this.paymentIntegrationService.loadCurrentOrder();
+        const order = state.getOrder();
+
+        if (!order || !order.isComplete) {
+            throw new PaymentMethodCancelledError();
+        }
+    }
+
     deinitialize(): Promise<void> {
         this.componentState = undefined;
+        this.paymentRequestOptions = undefined;
 
         if (this.paymentComponent) {
             this.paymentComponent.unmount();
@@ -485,7 +500,11 @@ export default class Adyenv3PaymentStrategy implements PaymentStrategy {
             throw error;
         }
 
-        const payment = await this._handleAction(error.body.provider_data);
+        const additionalAction: AdyenAdditionalAction = error.body.provider_data;
+
+        await this._reportAdditionalActionPhase(additionalAction);
+
+        const payment = await this._handleAction(additionalAction);
 
         try {
             const basePaymentData = {
@@ -525,6 +544,28 @@ export default class Adyenv3PaymentStrategy implements PaymentStrategy {
         }
     }
 
+    private async _reportAdditionalActionPhase(
+        additionalAction: AdyenAdditionalAction,
+    ): Promise<void> {
+        const adyenAction: AdyenAction = JSON.parse(additionalAction.action);
+
+        if (!this.paymentRequestOptions) {
+            return;
+        }
+
+        if (adyenAction.type === AdyenV3ActionType.Redirect) {
+            await this.paymentIntegrationService.reportPaymentPhase(
+                PaymentLifecyclePhase.Redirecting,
+                this.paymentRequestOptions,
+            );
+        } else if (additionalAction.resultCode === ResultCode.ChallengeShopper) {
+            await this.paymentIntegrationService.reportPaymentPhase(
+                PaymentLifecyclePhase.Challenge,
+                this.paymentRequestOptions,
+            );
+        }
+    }
+
     private _validateCardData(): void {
         const adyenv3 = this._getPaymentInitializeOptions();
         const cardComponent = adyenv3.hasVaultedInstruments
@@ -0,0 +1,37 @@
+import { CheckoutStoreState } from '../checkout';
+
+/**
+ * A serializable record of the actions dispatched to the checkout store
+ * during a session. Card and address details are redacted.
+ */
+export default interface ActionLog {
+    version: number;
+    startedAt: number;
+    initialState: Partial<CheckoutStoreState>;
+    entries: ActionLogEntry[];
+}
+
+export interface ActionLogEntry {
+    type: string;
+    payload?: unknown;
+    meta?: unknown;
+    error?: boolean;
+    /**
+     * The number of milliseconds between the start of the recording and the
+     * moment the action was reduced.
+     */
+    timestamp: number;
+    /**
+     * The number of milliseconds it took to reduce the action.
+     */
+    duration: number;
+    changes: StateChange[];
+}
+
+export interface StateChange {
+    path: string;
+    previous: unknown;
+    current: unknown;
+}
+
+export const ACTION_LOG_VERSION = 1;
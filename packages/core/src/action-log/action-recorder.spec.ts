@@ -0,0 +1,117 @@
+import { createAction, createErrorAction } from '@bigcommerce/data-store';
+
+import { BillingAddressActionType } from '../billing/billing-address-actions';
+import { getBillingAddress } from '../billing/billing-addresses.mock';
+import { CheckoutStore, createCheckoutStore } from '../checkout';
+import { getCheckoutStoreState } from '../checkout/checkouts.mock';
+import { RequestError } from '../common/error/errors';
+import { CouponActionType } from '../coupon';
+
+import { ACTION_LOG_VERSION } from './action-log';
+import ActionRecorder from './action-recorder';
+import { REDACTED_VALUE } from './sanitize-action-log-value';
+
+describe('ActionRecorder', () => {
+    let recorder: ActionRecorder;
+    let store: CheckoutStore;
+
+    beforeEach(() => {
+        recorder = new ActionRecorder();
+        store = createCheckoutStore(getCheckoutStoreState(), { actionRecorder: recorder });
+    });
+
+    it('records actions dispatched to store', async () => {
+        await store.dispatch(createAction(CouponActionType.ApplyCouponRequested));
+
+        expect(recorder.getLog()).toEqual({
+            version: ACTION_LOG_VERSION,
+            startedAt: expect.any(Number),
+            initialState: expect.any(Object),
+            entries: [
+                expect.objectContaining({ type: 'INIT' }),
+                {
+                    type: CouponActionType.ApplyCouponRequested,
+                    payload: undefined,
+                    meta: undefined,
+                    error: undefined,
+                    timestamp: expect.any(Number),
+                    duration: expect.any(Number),
+                    changes: [
+                        {
+                            path: 'coupons.statuses.isApplyingCoupon',
+                            previous: undefined,
+                            current: true,
+                        },
+                    ],
+                },
+            ],
+        });
+    });
+
+    it('redacts sensitive details from recorded actions', async () => {
+        await store.dispatch(
+            createAction(BillingAddressActionType.UpdateBillingAddressSucceeded, {
+                ...getCheckoutStoreState().checkout.data,
+                billingAddress: getBillingAddress(),
+            }),
+        );
+
+        const entry = recorder.getLog().entries[1];
+
+        expect(entry.payload).toEqual(
+            expect.objectContaining({
+                billingAddress: expect.objectContaining({
+                    firstName: REDACTED_VALUE,
+                    address1: REDACTED_VALUE,
+                }),
+            }),
+        );
+        expect(JSON.stringify(entry)).not.toContain(getBillingAddress().address1);
+    });
+
+    it('records error actions', async () => {
+        await expect(
+            store.dispatch(
+                createErrorAction(CouponActionType.ApplyCouponFailed, new RequestError()),
+            ),
+        ).rejects.toBeInstanceOf(RequestError);
+
+        expect(recorder.getLog().entries[1]).toEqual(
+            expect.objectContaining({
+                type: CouponActionType.ApplyCouponFailed,
+                error: true,
+                payload: expect.objectContaining({ name: 'RequestError' }),
+            }),
+        );
+    });
+
+    it('keeps only latest entries if limit is reached', async () => {
+        recorder = new ActionRecorder({ maxEntries: 2 });
+        store = createCheckoutStore(getCheckoutStoreState(), { actionRecorder: recorder });
+
+        await store.dispatch(createAction(CouponActionType.ApplyCouponRequested));
+        await store.dispatch(createAction(CouponActionType.RemoveCouponRequested));
+
+        expect(recorder.getLog().entries.map(({ type }) => type)).toEqual([
+            CouponActionType.ApplyCouponRequested,
+            CouponActionType.RemoveCouponRequested,
+        ]);
+        expect(recorder.getLog().initialState.coupons?.statuses).toEqual({});
+    });
+
+    it('exports log as JSON', async () => {
+        await store.dispatch(createAction(CouponActionType.ApplyCouponRequested));
+
+        expect(JSON.parse(recorder.exportLog())).toEqual(
+            JSON.parse(JSON.stringify(recorder.getLog())),
+        );
+    });
+
+    it('clears recorded entries', async () => {
+        await store.dispatch(createAction(CouponActionType.ApplyCouponRequested));
+
+        recorder.clear();
+
+        expect(recorder.getLog().entries).toEqual([]);
+    });
+});
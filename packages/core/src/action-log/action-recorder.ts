@@ -0,0 +1,103 @@
+import { Action, Reducer } from '@bigcommerce/data-store';
+
+import { CheckoutStoreState } from '../checkout';
+
+import ActionLog, { ACTION_LOG_VERSION } from './action-log';
+import diffState from './diff-state';
+import sanitizeActionLogValue from './sanitize-action-log-value';
+
+const DEFAULT_MAX_ENTRIES = 1000;
+
+export interface ActionRecorderOptions {
+    maxEntries?: number;
+}
+
+interface ActionRecord {
+    action: Action;
+    previousState?: Partial<CheckoutStoreState>;
+    nextState: Partial<CheckoutStoreState>;
+    timestamp: number;
+    duration: number;
+}
+
+/**
+ * Records the actions dispatched to the checkout store, along with the state
+ * changes they cause, so a session can be exported and replayed later on.
+ *
+ * States are immutable, so the recorder only keeps references to them. They
+ * only get sanitized and compared when a log is requested.
+ */
+export default class ActionRecorder {
+    private _records: ActionRecord[] = [];
+    private _startedAt = Date.now();
+
+    constructor(private _options: ActionRecorderOptions = {}) {}
+
+    /**
+     * Decorates a reducer so every action it receives gets recorded.
+     */
+    decorateReducer<TState extends Partial<CheckoutStoreState>>(
+        reducer: Reducer<TState, Action>,
+    ): Reducer<TState, Action> {
+        return (state, action) => {
+            const startTime = Date.now();
+            const nextState = reducer(state, action);
+
+            this.record(action, state, nextState, Date.now() - startTime);
+
+            return nextState;
+        };
+    }
+
+    record(
+        action: Action,
+        previousState: Partial<CheckoutStoreState> | undefined,
+        nextState: Partial<CheckoutStoreState>,
+        duration = 0,
+    ): void {
+        this._records.push({
+            action,
+            previousState,
+            nextState,
+            timestamp: Date.now() - this._startedAt,
+            duration,
+        });
+
+        const maxEntries = this._options.maxEntries ?? DEFAULT_MAX_ENTRIES;
+
+        if (this._records.length > maxEntries) {
+            this._records.splice(0, this._records.length - maxEntries);
+        }
+    }
+
+    getLog(): ActionLog {
+        const initialState = this._records.length ? this._records[0].previousState : undefined;
+
+        return {
+            version: ACTION_LOG_VERSION,
+            startedAt: this._startedAt,
+            initialState: (sanitizeActionLogValue(initialState) ||
+                {}) as Partial<CheckoutStoreState>,
+            entries: this._records.map(
+                ({ action, previousState, nextState, timestamp, duration }) => ({
+                    type: action.type,
+                    payload: sanitizeActionLogValue(action.payload),
+                    meta: sanitizeActionLogValue(action.meta),
+                    error: action.error,
+                    timestamp,
+                    duration,
+                    changes: diffState(previousState, nextState),
+                }),
+            ),
+        };
+    }
+
+    exportLog(): string {
+        return JSON.stringify(this.getLog());
+    }
+
+    clear(): void {
+        this._records = [];
+        this._startedAt = Date.now();
+    }
+}
@@ -0,0 +1,43 @@
+import diffState from './diff-state';
+import { REDACTED_VALUE } from './sanitize-action-log-value';
+
+describe('diffState()', () => {
+    it('returns empty list if states are same', () => {
+        const state = { cart: { data: { id: '123' } } };
+
+        expect(diffState(state, state)).toEqual([]);
+    });
+
+    it('returns changed paths', () => {
+        const unchanged = { data: { id: 'abc' } };
+        const previous = { cart: { data: { id: '123', amount: 10 } }, checkout: unchanged };
+        const current = { cart: { data: { id: '123', amount: 20 } }, checkout: unchanged };
+
+        expect(diffState(previous, current)).toEqual([
+            { path: 'cart.data.amount', previous: 10, current: 20 },
+        ]);
+    });
+
+    it('returns added and removed paths', () => {
+        const previous = { statuses: { isLoading: true } };
+        const current = { statuses: {}, errors: { loadError: 'error' } };
+
+        expect(diffState(previous, current)).toEqual([
+            { path: 'statuses.isLoading', previous: true, current: undefined },
+            { path: 'errors', previous: undefined, current: { loadError: 'error' } },
+        ]);
+    });
+
+    it('redacts sensitive values in changes', () => {
+        const previous = { billingAddress: { data: { firstName: 'Foo' } } };
+        const current = { billingAddress: { data: { firstName: 'Bar' } } };
+
+        expect(diffState(previous, current)).toEqual([
+            {
+                path: 'billingAddress.data.firstName',
+                previous: REDACTED_VALUE,
+                current: REDACTED_VALUE,
+            },
+        ]);
+    });
+});
@@ -0,0 +1,47 @@
+import { isPlainObject } from 'lodash';
+
+import { StateChange } from './action-log';
+import sanitizeActionLogValue from './sanitize-action-log-value';
+
+/**
+ * Compares two states and returns the paths that have changed. Reducers return
+ * the same reference for a branch that has not changed, therefore only the
+ * branches with different references are traversed.
+ */
+export default function diffState(
+    previous: unknown,
+    current: unknown,
+    path = '',
+    key?: string,
+): StateChange[] {
+    if (previous === current) {
+        return [];
+    }
+
+    if (!isPlainObject(previous) || !isPlainObject(current)) {
+        return [
+            {
+                path,
+                previous: sanitizeActionLogValue(previous, key),
+                current: sanitizeActionLogValue(current, key),
+            },
+        ];
+    }
+
+    const previousObject = previous as { [key: string]: unknown };
+    const currentObject = current as { [key: string]: unknown };
+    const keys = Object.keys({ ...previousObject, ...currentObject });
+
+    return keys.reduce<StateChange[]>(
+        (changes, childKey) => [
+            ...changes,
+            ...diffState(
+                previousObject[childKey],
+                currentObject[childKey],
+                path ? `${path}.${childKey}` : childKey,
+                childKey,
+            ),
+        ],
+        [],
+    );
+}
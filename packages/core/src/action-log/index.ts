@@ -0,0 +1,10 @@
+export {
+    default as ActionLog,
+    ActionLogEntry,
+    ACTION_LOG_VERSION,
+    StateChange,
+} from './action-log';
+export { default as ActionRecorder, ActionRecorderOptions } from './action-recorder';
+export { default as diffState } from './diff-state';
+export { default as replayActionLog } from './replay-action-log';
+export { default as sanitizeActionLogValue } from './sanitize-action-log-value';
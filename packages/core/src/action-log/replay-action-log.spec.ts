@@ -0,0 +1,55 @@
+import { createAction, createErrorAction } from '@bigcommerce/data-store';
+
+import { CheckoutStore, createCheckoutStore } from '../checkout';
+import { getCheckoutStoreState } from '../checkout/checkouts.mock';
+import { RequestError } from '../common/error/errors';
+import { CouponActionType } from '../coupon';
+import { getCoupon } from '../coupon/coupons.mock';
+
+import ActionRecorder from './action-recorder';
+import replayActionLog from './replay-action-log';
+
+describe('replayActionLog()', () => {
+    let recorder: ActionRecorder;
+    let store: CheckoutStore;
+
+    beforeEach(() => {
+        recorder = new ActionRecorder();
+        store = createCheckoutStore(getCheckoutStoreState(), { actionRecorder: recorder });
+    });
+
+    it('reproduces recorded session against fresh store', async () => {
+        await store.dispatch(createAction(CouponActionType.ApplyCouponRequested));
+        await store.dispatch(
+            createAction(CouponActionType.ApplyCouponSucceeded, {
+                ...getCheckoutStoreState().checkout.data,
+                coupons: [getCoupon()],
+            }),
+        );
+        await store.dispatch(createAction(CouponActionType.RemoveCouponRequested));
+        await store
+            .dispatch(createErrorAction(CouponActionType.RemoveCouponFailed, new RequestError()))
+            .catch(() => {});
+
+        const log = JSON.parse(recorder.exportLog());
+        const replayedStore = await replayActionLog(log);
+
+        expect(replayedStore.getState().coupons.getCoupons()).toEqual(
+            store.getState().coupons.getCoupons(),
+        );
+        expect(replayedStore.getState().coupons.isApplying()).toBe(false);
+        expect(replayedStore.getState().coupons.isRemoving()).toBe(false);
+        expect(replayedStore.getState().coupons.getRemoveError()).toEqual(
+            expect.objectContaining({ name: 'RequestError' }),
+        );
+    });
+
+    it('replays log against provided store', async () => {
+        await store.dispatch(createAction(CouponActionType.ApplyCouponRequested));
+
+        const targetStore = createCheckoutStore();
+
+        expect(await replayActionLog(recorder.getLog(), targetStore)).toBe(targetStore);
+        expect(targetStore.getState().coupons.isApplying()).toBe(true);
+    });
+});
@@ -0,0 +1,23 @@
+import { Action } from '@bigcommerce/data-store';
+import { noop } from 'lodash';
+
+import { CheckoutStore, createCheckoutStore } from '../checkout';
+
+import ActionLog from './action-log';
+
+/**
+ * Dispatches the actions of a recorded session, in the order they were
+ * recorded, to a fresh checkout store so the session can be reproduced.
+ */
+export default function replayActionLog(
+    log: ActionLog,
+    store: CheckoutStore = createCheckoutStore(log.initialState, { shouldWarnMutation: false }),
+): Promise<CheckoutStore> {
+    return log.entries
+        .reduce<Promise<unknown>>((promise, { type, payload, meta, error }) => {
+            const action: Action = { type, payload, meta, error };
+
+            return promise.then(() => store.dispatch(action).catch(noop));
+        }, Promise.resolve())
+        .then(() => store);
+}
@@ -0,0 +1,104 @@
+import { getBillingAddress } from '../billing/billing-addresses.mock';
+import { RequestError } from '../common/error/errors';
+import { InstrumentActionType } from '../payment/instrument/instrument-actions';
+import { getInstrumentsMeta } from '../payment/instrument/instrument.mock';
+
+import sanitizeActionLogValue, { REDACTED_VALUE } from './sanitize-action-log-value';
+
+describe('sanitizeActionLogValue()', () => {
+    it('redacts address details', () => {
+        expect(sanitizeActionLogValue(getBillingAddress())).toEqual(
+            expect.objectContaining({
+                id: getBillingAddress().id,
+                firstName: REDACTED_VALUE,
+                lastName: REDACTED_VALUE,
+                address1: REDACTED_VALUE,
+                email: REDACTED_VALUE,
+                phone: REDACTED_VALUE,
+                postalCode: REDACTED_VALUE,
+                countryCode: getBillingAddress().countryCode,
+            }),
+        );
+    });
+
+    it('redacts card details in nested objects and arrays', () => {
+        const payload = {
+            payment: {
+                methodId: 'authorizenet',
+                paymentData: {
+                    ccNumber: '4111111111111111',
+                    ccCvv: '123',
+                    ccExpiry: { month: '10', year: '2030' },
+                },
+            },
+            instruments: [{ bigpayToken: '123', last4: '1111' }],
+        };
+
+        expect(sanitizeActionLogValue(payload)).toEqual({
+            payment: {
+                methodId: 'authorizenet',
+                paymentData: {
+                    ccNumber: REDACTED_VALUE,
+                    ccCvv: REDACTED_VALUE,
+                    ccExpiry: REDACTED_VALUE,
+                },
+            },
+            instruments: [{ bigpayToken: REDACTED_VALUE, last4: REDACTED_VALUE }],
+        });
+    });
+
+    it('redacts credentials', () => {
+        const action = {
+            type: InstrumentActionType.LoadInstrumentsSucceeded,
+            meta: getInstrumentsMeta(),
+        };
+
+        expect(sanitizeActionLogValue(action)).toEqual({
+            type: InstrumentActionType.LoadInstrumentsSucceeded,
+            meta: {
+                vaultAccessToken: REDACTED_VALUE,
+                vaultAccessExpiry: getInstrumentsMeta().vaultAccessExpiry,
+            },
+        });
+        expect(
+            sanitizeActionLogValue({
+                authToken: 'auth-token',
+                checkoutToken: 'checkout-token',
+                password: 'password1',
+                token: 'token',
+            }),
+        ).toEqual({
+            authToken: REDACTED_VALUE,
+            checkoutToken: REDACTED_VALUE,
+            password: REDACTED_VALUE,
+            token: REDACTED_VALUE,
+        });
+    });
+
+    it('converts errors to plain objects', () => {
+        const error = new RequestError();
+
+        expect(sanitizeActionLogValue(error)).toEqual(
+            expect.objectContaining({
+                name: 'RequestError',
+                message: error.message,
+                type: 'request',
+                status: 0,
+            }),
+        );
+    });
+
+    it('does not redact empty values', () => {
+        expect(sanitizeActionLogValue({ email: undefined, phone: null })).toEqual({
+            email: undefined,
+            phone: null,
+        });
+    });
+
+    it('removes functions', () => {
+        expect(sanitizeActionLogValue({ callback: () => {}, id: '123' })).toEqual({
+            callback: undefined,
+            id: '123',
+        });
+    });
+});
@@ -0,0 +1,87 @@
+import { isPlainObject } from 'lodash';
+
+export const REDACTED_VALUE = '[REDACTED]';
+
+const REDACTED_KEYS = [
+    // Card details
+    'accountNumber',
+    'ccCvv',
+    'ccExpiry',
+    'ccName',
+    'ccNumber',
+    'cardNumber',
+    'credit_card_number',
+    'creditCardNumber',
+    'cvv',
+    'expiryMonth',
+    'expiryYear',
+    'iin',
+    'last4',
+    'nonce',
+    'verificationValue',
+    // Address details
+    'address1',
+    'address2',
+    'city',
+    'company',
+    'email',
+    'firstName',
+    'lastName',
+    'phone',
+    'postalCode',
+];
+
+// Credentials are named inconsistently across the responses of different APIs,
+// i.e.: `vaultAccessToken`, `bigpayToken` and `authToken`, so they are matched
+// by pattern instead. Only their values are redacted, not the objects that
+// happen to match, i.e.: the `b2bToken` state.
+const REDACTED_KEY_PATTERN = /token|password|secret|authorization/i;
+
+/**
+ * Returns a copy of a value that can be safely included in an action log, with
+ * card details, address details and credentials redacted and errors converted
+ * to plain objects.
+ */
+export default function sanitizeActionLogValue(value: unknown, key?: string): unknown {
+    if (key && isRedactedKey(key, value) && value !== undefined && value !== null) {
+        return REDACTED_VALUE;
+    }
+
+    if (Array.isArray(value)) {
+        return value.map((item) => sanitizeActionLogValue(item));
+    }
+
+    if (value instanceof Error) {
+        return {
+            name: value.name,
+            message: value.message,
+            ...sanitizeObject(value as unknown as { [key: string]: unknown }),
+        };
+    }
+
+    if (isPlainObject(value)) {
+        return sanitizeObject(value as { [key: string]: unknown });
+    }
+
+    if (typeof value === 'function' || typeof value === 'symbol') {
+        return undefined;
+    }
+
+    return value;
+}
+
+function isRedactedKey(key: string, value: unknown): boolean {
+    if (REDACTED_KEYS.indexOf(key) !== -1) {
+        return true;
+    }
+
+    return REDACTED_KEY_PATTERN.test(key) && !isPlainObject(value) && !Array.isArray(value);
+}
+
+function sanitizeObject(object: { [key: string]: unknown }): { [key: string]: unknown } {
+    return Object.keys(object).reduce<{ [key: string]: unknown }>((result, key) => {
+        result[key] = sanitizeActionLogValue(object[key], key);
+
+        return result;
+    }, {});
+}
@@ -0,0 +1,26 @@
+import { CheckoutParams } from '../checkout';
+import { RequestOptions } from '../common/http-request';
+
+export interface AddressLookupOptions {
+    /**
+     * The identifier of the provider used to look up addresses.
+     */
+    providerId: string;
+
+    /**
+     * The code of the country the suggestions should be limited to.
+     */
+    countryCode?: string;
+}
+
+export interface AddressSuggestionApplyOptions extends RequestOptions<CheckoutParams> {
+    /**
+     * The identifier of the provider that returned the suggestion.
+     */
+    providerId: string;
+
+    /**
+     * The address the resolved suggestion should be applied to.
+     */
+    target: 'billing' | 'shipping';
+}
@@ -0,0 +1,17 @@
+import { AddressRequestBody } from '../address';
+
+/**
+ * A service that suggests addresses matching a partial query entered by a
+ * customer, i.e.: an address autocomplete service, and resolves a selected
+ * suggestion to an address that can be submitted to the checkout.
+ */
+export default interface AddressLookupProvider {
+    suggest(query: string, countryCode?: string): Promise<AddressSuggestion[]>;
+    resolve(suggestionId: string): Promise<Partial<AddressRequestBody>>;
+}
+
+export interface AddressSuggestion {
+    id: string;
+    label: string;
+    description?: string;
+}
@@ -0,0 +1,7 @@
+import { Registry } from '../common/registry';
+
+import AddressLookupProvider from './address-lookup-provider';
+
+export default function createAddressLookupProviderRegistry(): Registry<AddressLookupProvider> {
+    return new Registry<AddressLookupProvider>({ useFallback: false });
+}
@@ -0,0 +1,77 @@
+import { InvalidArgumentError } from '../common/error/errors';
+import { getShippingAddress } from '../shipping/shipping-addresses.mock';
+
+import InMemoryAddressLookupProvider, {
+    InMemoryAddressLookupEntry,
+} from './in-memory-address-lookup-provider';
+
+describe('InMemoryAddressLookupProvider', () => {
+    let entries: InMemoryAddressLookupEntry[];
+    let provider: InMemoryAddressLookupProvider;
+
+    beforeEach(() => {
+        entries = [
+            {
+                id: 'address-1',
+                label: '12345 Testing Way, Some City',
+                description: 'California, United States',
+                address: getShippingAddress(),
+            },
+            {
+                id: 'address-2',
+                label: '1 Testing Street, Sydney',
+                address: {
+                    address1: ' 1 Testing Street ',
+                    city: 'Sydney',
+                    countryCode: 'au',
+                    postalCode: '2000',
+                },
+            },
+        ];
+
+        provider = new InMemoryAddressLookupProvider(entries);
+    });
+
+    describe('#suggest()', () => {
+        it('returns entries matching all terms of query', async () => {
+            expect(await provider.suggest('testing  CITY')).toEqual([
+                {
+                    id: 'address-1',
+                    label: '12345 Testing Way, Some City',
+                    description: 'California, United States',
+                },
+            ]);
+        });
+
+        it('returns entries of country', async () => {
+            const suggestions = await provider.suggest('testing', 'AU');
+
+            expect(suggestions.map(({ id }) => id)).toEqual(['address-2']);
+        });
+
+        it('returns no entries if query is empty', async () => {
+            expect(await provider.suggest('  ')).toEqual([]);
+        });
+
+        it('limits number of suggestions', async () => {
+            provider = new InMemoryAddressLookupProvider(entries, { maxSuggestions: 1 });
+
+            expect(await provider.suggest('testing')).toHaveLength(1);
+        });
+    });
+
+    describe('#resolve()', () => {
+        it('returns normalized address of entry', async () => {
+            expect(await provider.resolve('address-2')).toEqual({
+                address1: '1 Testing Street',
+                city: 'Sydney',
+                countryCode: 'AU',
+                postalCode: '2000',
+            });
+        });
+
+        it('throws error if entry is not found', async () => {
+            await expect(provider.resolve('foobar')).rejects.toBeInstanceOf(InvalidArgumentError);
+        });
+    });
+});
@@ -0,0 +1,55 @@
+import { AddressRequestBody, normalizeAddress } from '../address';
+import { InvalidArgumentError } from '../common/error/errors';
+
+import AddressLookupProvider, { AddressSuggestion } from './address-lookup-provider';
+
+export interface InMemoryAddressLookupEntry extends AddressSuggestion {
+    address: Partial<AddressRequestBody>;
+}
+
+export interface InMemoryAddressLookupProviderOptions {
+    maxSuggestions?: number;
+}
+
+/**
+ * Looks up addresses from a fixed list of entries. It can be used in tests, or
+ * to suggest addresses that are already known, i.e.: the addresses saved by a
+ * customer.
+ */
+export default class InMemoryAddressLookupProvider implements AddressLookupProvider {
+    constructor(
+        private _entries: InMemoryAddressLookupEntry[],
+        private _options: InMemoryAddressLookupProviderOptions = {},
+    ) {}
+
+    async suggest(query: string, countryCode?: string): Promise<AddressSuggestion[]> {
+        const { maxSuggestions = 5 } = this._options;
+        const terms = query.trim().toLowerCase().split(/\s+/).filter(Boolean);
+
+        if (!terms.length) {
+            return [];
+        }
+
+        return this._entries
+            .filter(
+                ({ address, label }) =>
+                    (!countryCode ||
+                        address.countryCode?.toUpperCase() === countryCode.toUpperCase()) &&
+                    terms.every((term) => label.toLowerCase().includes(term)),
+            )
+            .slice(0, maxSuggestions)
+            .map(({ id, label, description }) => ({ id, label, description }));
+    }
+
+    async resolve(suggestionId: string): Promise<Partial<AddressRequestBody>> {
+        const entry = this._entries.find(({ id }) => id === suggestionId);
+
+        if (!entry) {
+            throw new InvalidArgumentError(
+                `Unable to resolve address suggestion "${suggestionId}".`,
+            );
+        }
+
+        return normalizeAddress(entry.address);
+    }
+}
@@ -0,0 +1,9 @@
+export { default as AddressLookupProvider, AddressSuggestion } from './address-lookup-provider';
+export { AddressLookupOptions, AddressSuggestionApplyOptions } from './address-lookup-options';
+export { default as createAddressLookupProviderRegistry } from './create-address-lookup-provider-registry';
+export {
+    default as InMemoryAddressLookupProvider,
+    InMemoryAddressLookupEntry,
+    InMemoryAddressLookupProviderOptions,
+} from './in-memory-address-lookup-provider';
+export { default as mergeAddressSuggestion } from './merge-address-suggestion';
@@ -0,0 +1,41 @@
+import { pick } from 'lodash';
+
+import { AddressRequestBody } from '../address';
+import { BillingAddressRequestBody } from '../billing';
+
+const CONTACT_FIELDS: Array<keyof BillingAddressRequestBody> = [
+    'firstName',
+    'lastName',
+    'phone',
+    'email',
+    'customFields',
+    'extraFields',
+];
+
+const EMPTY_ADDRESS_PARTS: Partial<AddressRequestBody> = {
+    company: '',
+    address1: '',
+    address2: '',
+    city: '',
+    stateOrProvince: '',
+    stateOrProvinceCode: '',
+    countryCode: '',
+    postalCode: '',
+};
+
+/**
+ * Merges an address resolved from a suggestion into the current address of
+ * the checkout. Only the contact details of the current address are kept, so
+ * the parts of the previous address that are not provided by the suggestion,
+ * i.e.: its second line, are cleared instead of being sent with the new one.
+ */
+export default function mergeAddressSuggestion(
+    currentAddress: Partial<BillingAddressRequestBody> | undefined,
+    resolvedAddress: Partial<AddressRequestBody>,
+): Partial<BillingAddressRequestBody> {
+    return {
+        ...(currentAddress && pick(currentAddress, CONTACT_FIELDS)),
+        ...EMPTY_ADDRESS_PARTS,
+        ...resolvedAddress,
+    };
+}
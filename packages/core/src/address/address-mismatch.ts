@@ -0,0 +1,12 @@
+export type AddressMismatchCode = 'invalid_postal_code' | 'unknown_region';
+
+/**
+ * Describes a value of an address that does not match the data of its
+ * country, i.e.: a postal code in the wrong format or a state that does not
+ * belong to the country.
+ */
+export default interface AddressMismatch {
+    field: 'postalCode' | 'stateOrProvince';
+    code: AddressMismatchCode;
+    countryCode: string;
+}
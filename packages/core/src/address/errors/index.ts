@@ -0,0 +1 @@
+export { default as InvalidAddressError } from './invalid-address-error';
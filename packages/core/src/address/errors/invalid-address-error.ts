@@ -0,0 +1,19 @@
+import { StandardError } from '../../common/error/errors';
+import AddressMismatch from '../address-mismatch';
+
+/**
+ * This error is thrown when an address is not sent because some of its values
+ * do not match the data of its country.
+ */
+export default class InvalidAddressError extends StandardError {
+    constructor(public mismatches: AddressMismatch[]) {
+        super(
+            `Unable to proceed because the following address fields do not match the selected country: ${mismatches
+                .map(({ field }) => field)
+                .join(', ')}.`,
+        );
+
+        this.name = 'InvalidAddressError';
+        this.type = 'invalid_address';
+    }
+}
@@ -0,0 +1,47 @@
+import formatAddress from './format-address';
+
+describe('formatAddress()', () => {
+    it('formats address using default format if country has no specific format', () => {
+        expect(
+            formatAddress({
+                firstName: 'Foo',
+                lastName: 'Bar',
+                address1: '1 Main Street',
+                city: 'Singapore',
+                postalCode: '018956',
+                country: 'Singapore',
+                countryCode: 'SG',
+            }),
+        ).toEqual(['Foo Bar', '1 Main Street', 'Singapore 018956', 'Singapore']);
+    });
+
+    it('formats address following conventions of its country', () => {
+        expect(
+            formatAddress({
+                firstName: 'Taro',
+                lastName: 'Yamada',
+                address1: '1-1 Chiyoda',
+                city: 'Chiyoda-ku',
+                stateOrProvince: 'Tokyo',
+                postalCode: '100-0001',
+                country: 'Japan',
+                countryCode: 'JP',
+            }),
+        ).toEqual(['〒100-0001', 'TokyoChiyoda-ku', '1-1 Chiyoda', 'Yamada Taro', 'Japan']);
+    });
+
+    it('omits lines that only contain empty fields', () => {
+        expect(
+            formatAddress({
+                firstName: 'Foo',
+                lastName: 'Bar',
+                company: ' ',
+                address1: '1 George Street',
+                city: 'Sydney',
+                stateOrProvinceCode: 'NSW',
+                postalCode: '2000',
+                countryCode: 'AU',
+            }),
+        ).toEqual(['Foo Bar', '1 George Street', 'Sydney NSW 2000']);
+    });
+});
@@ -0,0 +1,77 @@
+import Address from './address';
+
+type FormattableAddress = Partial<Omit<Address, 'customFields' | 'extraFields'>>;
+
+const NAME = '{firstName} {lastName}';
+const STREET = ['{company}', '{address1}', '{address2}'];
+
+/**
+ * The line templates used to display the addresses of countries that do not
+ * follow the default format. Placeholders refer to the fields of `Address`.
+ */
+const ADDRESS_FORMATS: { [countryCode: string]: string[] } = {
+    AU: [NAME, ...STREET, '{city} {stateOrProvinceCode} {postalCode}', '{country}'],
+    BR: [NAME, ...STREET, '{city} - {stateOrProvinceCode}', '{postalCode}', '{country}'],
+    CA: [NAME, ...STREET, '{city} {stateOrProvinceCode} {postalCode}', '{country}'],
+    DE: [NAME, ...STREET, '{postalCode} {city}', '{country}'],
+    ES: [NAME, ...STREET, '{postalCode} {city} {stateOrProvince}', '{country}'],
+    FR: [NAME, ...STREET, '{postalCode} {city}', '{country}'],
+    GB: [NAME, ...STREET, '{city}', '{postalCode}', '{country}'],
+    IE: [NAME, ...STREET, '{city}', '{stateOrProvince}', '{postalCode}', '{country}'],
+    IT: [NAME, ...STREET, '{postalCode} {city} {stateOrProvinceCode}', '{country}'],
+    JP: [
+        '〒{postalCode}',
+        '{stateOrProvince}{city}',
+        '{address1}',
+        '{address2}',
+        '{company}',
+        '{lastName} {firstName}',
+        '{country}',
+    ],
+    NL: [NAME, ...STREET, '{postalCode} {city}', '{country}'],
+    NZ: [NAME, ...STREET, '{city} {postalCode}', '{country}'],
+    SE: [NAME, ...STREET, '{postalCode} {city}', '{country}'],
+    US: [NAME, ...STREET, '{city}, {stateOrProvinceCode} {postalCode}', '{country}'],
+};
+
+const DEFAULT_ADDRESS_FORMAT = [
+    NAME,
+    ...STREET,
+    '{city} {stateOrProvince} {postalCode}',
+    '{country}',
+];
+
+/**
+ * Formats an address into lines for display, following the conventions of its
+ * country. Lines that only contain empty fields are omitted.
+ */
+export default function formatAddress(address: FormattableAddress): string[] {
+    const format = ADDRESS_FORMATS[address.countryCode || ''] || DEFAULT_ADDRESS_FORMAT;
+
+    return format
+        .map((template) => formatLine(template, address))
+        .filter((line): line is string => !!line);
+}
+
+function formatLine(template: string, address: FormattableAddress): string | undefined {
+    let hasValue = false;
+
+    const line = template.replace(/\{(\w+)\}/g, (_, key: keyof FormattableAddress) => {
+        const value = address[key];
+
+        if (typeof value !== 'string' || !value.trim()) {
+            return '';
+        }
+
+        hasValue = true;
+
+        return value.trim();
+    });
+
+    if (!hasValue) {
+        return;
+    }
+
+    // Remove separators left behind by empty fields, i.e.: ", NSW 2000"
+    return line.replace(/\s+/g, ' ').replace(/^[\s,-]+|[\s,-]+$/g, '');
+}
@@ -0,0 +1,41 @@
+import { getCountries } from '../geography/countries.mock';
+import { getShippingAddress } from '../shipping/shipping-addresses.mock';
+
+import getAddressMismatches from './get-address-mismatches';
+
+describe('getAddressMismatches()', () => {
+    it('returns no mismatches if address matches its country', () => {
+        expect(getAddressMismatches(getShippingAddress(), getCountries())).toEqual([]);
+    });
+
+    it('returns mismatch if postal code does not match format of country', () => {
+        expect(
+            getAddressMismatches({ ...getShippingAddress(), postalCode: '9555' }, getCountries()),
+        ).toEqual([{ field: 'postalCode', code: 'invalid_postal_code', countryCode: 'US' }]);
+    });
+
+    it('returns mismatch if state does not belong to country', () => {
+        expect(
+            getAddressMismatches(
+                { ...getShippingAddress(), stateOrProvince: 'Ontario', stateOrProvinceCode: 'ON' },
+                getCountries(),
+            ),
+        ).toEqual([{ field: 'stateOrProvince', code: 'unknown_region', countryCode: 'US' }]);
+    });
+
+    it('does not check values that are not provided', () => {
+        expect(getAddressMismatches({ countryCode: 'US' }, getCountries())).toEqual([]);
+    });
+
+    it('does not check address if country is not found', () => {
+        expect(
+            getAddressMismatches({ countryCode: 'NZ', postalCode: 'foo' }, getCountries()),
+        ).toEqual([]);
+    });
+
+    it('does not check postal code if country does not have postal codes', () => {
+        expect(
+            getAddressMismatches({ countryCode: 'JP', postalCode: 'foo' }, getCountries()),
+        ).toEqual([]);
+    });
+});
@@ -0,0 +1,38 @@
+import { Country } from '../geography';
+
+import { AddressRequestBody } from './address';
+import AddressMismatch from './address-mismatch';
+import { findRegion } from './normalize-address';
+import isValidPostalCode from './postal-code-patterns';
+
+/**
+ * Returns the values of a normalized address that do not match the data of
+ * its country. Only the values that are provided are checked, and the address
+ * is not checked at all if its country is not in the list of countries.
+ */
+export default function getAddressMismatches(
+    address: Partial<AddressRequestBody>,
+    countries: Country[] = [],
+): AddressMismatch[] {
+    const { countryCode = '', postalCode, stateOrProvince, stateOrProvinceCode } = address;
+    const country = countries.find(({ code }) => code === countryCode);
+    const mismatches: AddressMismatch[] = [];
+
+    if (!country) {
+        return mismatches;
+    }
+
+    if (country.hasPostalCodes && postalCode && !isValidPostalCode(postalCode, countryCode)) {
+        mismatches.push({ field: 'postalCode', code: 'invalid_postal_code', countryCode });
+    }
+
+    if (
+        country.subdivisions.length &&
+        (stateOrProvince || stateOrProvinceCode) &&
+        !findRegion(country, address)
+    ) {
+        mismatches.push({ field: 'stateOrProvince', code: 'unknown_region', countryCode });
+    }
+
+    return mismatches;
+}
@@ -1,8 +1,14 @@
 export { default as Address, AddressKey, AddressRequestBody } from './address';
 export { default as InternalAddress } from './internal-address';
+export { default as AddressMismatch, AddressMismatchCode } from './address-mismatch';
+export * from './errors';
 
 export { default as isAddressEqual } from './is-address-equal';
 export { default as isInternalAddressEqual } from './is-internal-address-equal';
 
+export { default as getAddressMismatches } from './get-address-mismatches';
+export { default as normalizeAddress } from './normalize-address';
+
 export { default as mapFromInternalAddress } from './map-from-internal-address';
 export { default as mapToInternalAddress } from './map-to-internal-address';
+export { default as formatAddress } from './format-address';
@@ -30,4 +30,14 @@ describe('isInternalAddressEqual', () => {
             }),
         ).toBe(true);
     });
+
+    it('returns true if addresses are equal once normalized', () => {
+        expect(
+            isAddressEqual(getShippingAddress(), {
+                ...getShippingAddress(),
+                address1: ' 12345  Testing Way ',
+                countryCode: 'us',
+            }),
+        ).toBe(true);
+    });
 });
@@ -1,12 +1,13 @@
 import { identity, isEqual, pickBy } from 'lodash';
 
 import Address from './address';
+import normalizeAddress from './normalize-address';
 
 export default function isAddressEqual(
     addressA: Partial<Address>,
     addressB: Partial<Address>,
 ): boolean {
-    return isEqual(normalize(addressA), normalize(addressB));
+    return isEqual(normalize(normalizeAddress(addressA)), normalize(normalizeAddress(addressB)));
 }
 
 function normalize(address: Partial<Address>): Partial<Address> {
@@ -0,0 +1,60 @@
+import { getCountries } from '../geography/countries.mock';
+import { getShippingAddress } from '../shipping/shipping-addresses.mock';
+
+import normalizeAddress from './normalize-address';
+
+describe('normalizeAddress()', () => {
+    it('trims text values and collapses their whitespace', () => {
+        expect(
+            normalizeAddress({
+                ...getShippingAddress(),
+                firstName: ' Test ',
+                address1: '12345   Testing Way',
+            }),
+        ).toEqual(getShippingAddress());
+    });
+
+    it('uppercases codes', () => {
+        expect(
+            normalizeAddress({
+                countryCode: 'gb',
+                postalCode: 'sw1a 1aa',
+                stateOrProvinceCode: 'ldn',
+            }),
+        ).toEqual({
+            countryCode: 'GB',
+            postalCode: 'SW1A 1AA',
+            stateOrProvinceCode: 'LDN',
+        });
+    });
+
+    it('resolves state name to region of country', () => {
+        expect(
+            normalizeAddress(
+                { countryCode: 'US', stateOrProvince: 'texas', stateOrProvinceCode: '' },
+                getCountries(),
+            ),
+        ).toEqual({ countryCode: 'US', stateOrProvince: 'Texas', stateOrProvinceCode: 'TX' });
+    });
+
+    it('resolves state code to region of country', () => {
+        expect(
+            normalizeAddress(
+                { countryCode: 'AU', stateOrProvince: '', stateOrProvinceCode: 'vic' },
+                getCountries(),
+            ),
+        ).toEqual({ countryCode: 'AU', stateOrProvince: 'Victoria', stateOrProvinceCode: 'VIC' });
+    });
+
+    it('does not resolve state if country is not found', () => {
+        expect(
+            normalizeAddress({ countryCode: 'NZ', stateOrProvince: 'Auckland' }, getCountries()),
+        ).toEqual({ countryCode: 'NZ', stateOrProvince: 'Auckland' });
+    });
+
+    it('does not modify non-text values', () => {
+        const customFields = [{ fieldId: 'field_25', fieldValue: ['1'] }];
+
+        expect(normalizeAddress({ customFields }).customFields).toBe(customFields);
+    });
+});
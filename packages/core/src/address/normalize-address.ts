@@ -0,0 +1,63 @@
+import { mapValues } from 'lodash';
+
+import { Country, Region } from '../geography';
+
+import { AddressRequestBody } from './address';
+
+/**
+ * Normalizes the values of an address so they can be compared and sent to the
+ * server in a consistent format. Text values are trimmed and their whitespace
+ * collapsed, codes are uppercased and, if the country of the address is found
+ * in the list of countries provided, the name or code of its state is
+ * resolved to the matching region of the country.
+ */
+export default function normalizeAddress<T extends Partial<AddressRequestBody>>(
+    address: T,
+    countries: Country[] = [],
+): T {
+    const normalizedAddress: T = mapValues(address, (value) =>
+        typeof value === 'string' ? value.trim().replace(/\s+/g, ' ') : value,
+    ) as T;
+
+    if (normalizedAddress.countryCode) {
+        normalizedAddress.countryCode = normalizedAddress.countryCode.toUpperCase();
+    }
+
+    if (normalizedAddress.postalCode) {
+        normalizedAddress.postalCode = normalizedAddress.postalCode.toUpperCase();
+    }
+
+    if (normalizedAddress.stateOrProvinceCode) {
+        normalizedAddress.stateOrProvinceCode = normalizedAddress.stateOrProvinceCode.toUpperCase();
+    }
+
+    const country = countries.find(({ code }) => code === normalizedAddress.countryCode);
+    const region = country && findRegion(country, normalizedAddress);
+
+    if (!region) {
+        return normalizedAddress;
+    }
+
+    return {
+        ...normalizedAddress,
+        stateOrProvince: region.name,
+        stateOrProvinceCode: region.code,
+    };
+}
+
+export function findRegion(
+    country: Country,
+    { stateOrProvince, stateOrProvinceCode }: Partial<AddressRequestBody>,
+): Region | undefined {
+    const code = stateOrProvinceCode?.toUpperCase();
+    const name = stateOrProvince?.toLowerCase();
+
+    return (
+        country.subdivisions.find((region) => !!code && region.code.toUpperCase() === code) ||
+        country.subdivisions.find(
+            (region) =>
+                !!name &&
+                (region.name.toLowerCase() === name || region.code.toLowerCase() === name),
+        )
+    );
+}
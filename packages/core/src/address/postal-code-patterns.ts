@@ -0,0 +1,29 @@
+/**
+ * The formats of the postal codes of the countries that have a well defined
+ * format. The patterns expect postal codes that have been normalized, that is,
+ * trimmed, uppercased and with single spaces between their parts.
+ */
+const POSTAL_CODE_PATTERNS: { [countryCode: string]: RegExp } = {
+    AU: /^\d{4}$/,
+    BR: /^\d{5}-?\d{3}$/,
+    CA: /^[A-Z]\d[A-Z] ?\d[A-Z]\d$/,
+    DE: /^\d{5}$/,
+    ES: /^\d{5}$/,
+    FR: /^\d{5}$/,
+    GB: /^[A-Z]{1,2}\d[A-Z\d]? ?\d[A-Z]{2}$/,
+    IE: /^[A-Z\d]{3} ?[A-Z\d]{4}$/,
+    IN: /^\d{6}$/,
+    IT: /^\d{5}$/,
+    JP: /^\d{3}-?\d{4}$/,
+    MX: /^\d{5}$/,
+    NL: /^\d{4} ?[A-Z]{2}$/,
+    NZ: /^\d{4}$/,
+    SE: /^\d{3} ?\d{2}$/,
+    US: /^\d{5}(-\d{4})?$/,
+};
+
+export default function isValidPostalCode(postalCode: string, countryCode: string): boolean {
+    const pattern = POSTAL_CODE_PATTERNS[countryCode];
+
+    return pattern ? pattern.test(postalCode) : true;
+}
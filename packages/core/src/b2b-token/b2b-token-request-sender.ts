@@ -1,6 +1,6 @@
-import { RequestSender, Response } from '@bigcommerce/request-sender';
+import { Response } from '@bigcommerce/request-sender';
 
-import { RequestOptions, SDK_VERSION_HEADERS } from '../common/http-request';
+import { HttpRequestSender, RequestOptions, SDK_VERSION_HEADERS } from '../common/http-request';
 
 export interface B2BTokenResponseBody {
     code: number;
@@ -10,7 +10,7 @@ export interface B2BTokenResponseBody {
 }
 
 export default class B2BTokenRequestSender {
-    constructor(private _requestSender: RequestSender) {}
+    constructor(private _requestSender: HttpRequestSender) {}
 
     async getB2BToken(
         appClientId: string,
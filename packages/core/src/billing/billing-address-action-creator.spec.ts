@@ -10,6 +10,7 @@ import { getCheckout, getCheckoutStoreState } from '../checkout/checkouts.mock';
 import { MissingDataError, StandardError } from '../common/error/errors';
 import { getErrorResponse, getResponse } from '../common/http-request/responses.mock';
 import { getConfigState } from '../config/configs.mock';
+import { InvalidFormFieldsError } from '../form';
 import {
     Subscriptions,
     SubscriptionsActionCreator,
@@ -595,6 +596,35 @@ describe('BillingAddressActionCreator', () => {
                     {},
                 );
             });
+
+            it('throws error without sending request if fields are invalid and validation is requested', async () => {
+                const errorHandler = jest.fn((action) => of(action));
+
+                actions = await from(
+                    billingAddressActionCreator.updateAddress(
+                        { ...address, firstName: '' },
+                        { shouldValidateFields: true },
+                    )(store),
+                )
+                    .pipe(catchError(errorHandler), toArray())
+                    .toPromise();
+
+                expect(errorHandler.mock.calls[0][0]).toBeInstanceOf(InvalidFormFieldsError);
+                expect(errorHandler.mock.calls[0][0].errors).toEqual([
+                    expect.objectContaining({ fieldName: 'firstName', code: 'required' }),
+                ]);
+                expect(billingAddressRequestSender.updateAddress).not.toHaveBeenCalled();
+            });
+
+            it('sends request if fields are valid and validation is requested', async () => {
+                await from(
+                    billingAddressActionCreator.updateAddress(address, {
+                        shouldValidateFields: true,
+                    })(store),
+                ).toPromise();
+
+                expect(billingAddressRequestSender.updateAddress).toHaveBeenCalled();
+            });
         });
 
         describe('when store has checkout and billing address data from an incomplete order', () => {
@@ -9,6 +9,7 @@ import { throwErrorAction } from '../common/error';
 import { MissingDataError, MissingDataErrorType } from '../common/error/errors';
 import { RequestOptions } from '../common/http-request';
 import { GuestCredentials } from '../customer';
+import { InvalidFormFieldsError } from '../form';
 import { SubscriptionsActionCreator, UpdateSubscriptionsAction } from '../subscription';
 
 import { BillingAddressUpdateRequestBody } from './billing-address';
@@ -17,6 +18,7 @@ import {
     ContinueAsGuestAction,
     UpdateBillingAddressAction,
 } from './billing-address-actions';
+import BillingAddressRequestOptions from './billing-address-request-options';
 import { UnableToContinueAsGuestError } from './errors';
 
 import { BillingAddressRequestSender } from '.';
@@ -90,7 +92,7 @@ export default class BillingAddressActionCreator {
 
     updateAddress(
         address: Partial<BillingAddressUpdateRequestBody>,
-        options?: RequestOptions,
+        options?: BillingAddressRequestOptions,
     ): ThunkAction<UpdateBillingAddressAction, InternalCheckoutSelectors> {
         return (store) =>
             Observable.create((observer: Observer<UpdateBillingAddressAction>) => {
@@ -101,6 +103,16 @@ export default class BillingAddressActionCreator {
                     throw new MissingDataError(MissingDataErrorType.MissingCheckout);
                 }
 
+                if (options?.shouldValidateFields) {
+                    const errors = state.form
+                        .getFormValidator()
+                        .validateBillingAddress(address, state.countries.getCountries());
+
+                    if (errors.length) {
+                        throw new InvalidFormFieldsError(errors);
+                    }
+                }
+
                 observer.next(createAction(BillingAddressActionType.UpdateBillingAddressRequested));
 
                 const billingAddress = state.billingAddress.getBillingAddress();
@@ -0,0 +1,13 @@
+import { RequestOptions } from '../common/http-request';
+
+/**
+ * A set of options for updating the billing address of the current checkout.
+ */
+export default interface BillingAddressRequestOptions extends RequestOptions {
+    /**
+     * Validates the address against the billing address form fields of the
+     * store before sending it. If the address is invalid, it is not sent and
+     * the request is rejected with an `InvalidFormFieldsError`.
+     */
+    shouldValidateFields?: boolean;
+}
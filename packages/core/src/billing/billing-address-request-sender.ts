@@ -1,9 +1,14 @@
-import { RequestSender, Response } from '@bigcommerce/request-sender';
+import { Response } from '@bigcommerce/request-sender';
 
 import { AddressRequestBody } from '../address';
 import { EmptyCartError } from '../cart/errors';
 import { Checkout } from '../checkout';
-import { ContentType, RequestOptions, SDK_VERSION_HEADERS } from '../common/http-request';
+import {
+    ContentType,
+    HttpRequestSender,
+    RequestOptions,
+    SDK_VERSION_HEADERS,
+} from '../common/http-request';
 
 import { BillingAddressUpdateRequestBody } from './billing-address';
 
@@ -19,7 +24,7 @@ const DEFAULT_PARAMS = {
 };
 
 export default class BillingAddressRequestSender {
-    constructor(private _requestSender: RequestSender) {}
+    constructor(private _requestSender: HttpRequestSender) {}
 
     createAddress(
         checkoutId: string,
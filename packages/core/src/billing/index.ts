@@ -11,6 +11,7 @@ export {
     createBillingAddressSelectorFactory,
 } from './billing-address-selector';
 export { default as BillingAddressActionCreator } from './billing-address-action-creator';
+export { default as BillingAddressRequestOptions } from './billing-address-request-options';
 export { default as BillingAddressState } from './billing-address-state';
 export { default as BillingAddressRequestSender } from './billing-address-request-sender';
 export { default as billingAddressReducer } from './billing-address-reducer';
@@ -1,7 +1,11 @@
 export { createTimeout } from '@bigcommerce/request-sender';
 
+export { PaymentLifecyclePhase } from '@bigcommerce/checkout-sdk/payment-integration-api';
+
 export { B2B_EXTRA_FIELD_PREFIX, isExtraField } from '../form/map-extra-field-to-form-field';
 export { createCheckoutService } from '../checkout';
+export { InMemoryAddressLookupProvider } from '../address-lookup';
+export { createBeaconLogTransport, createHttpLogTransport } from '../common/log';
 export { createCheckoutButtonInitializer } from '../checkout-buttons';
 export { embedCheckout } from '../embedded-checkout';
 export { createEmbeddedCheckoutMessenger } from '../embedded-checkout/iframe-content';
@@ -13,5 +17,6 @@ export {
     createPayPalCommerceAnalyticTracker,
 } from '../analytics';
 export { createStoredCardHostedFormService } from '../hosted-form';
+export { InstrumentExpiryStatus } from '../payment/instrument';
 export { createBodlService } from '../bodl';
 export { ExtensionCommandType, ExtensionQueryType, ExtensionQueryMap } from '../extension';
@@ -1,11 +1,16 @@
-import { RequestSender, Response } from '@bigcommerce/request-sender';
+import { Response } from '@bigcommerce/request-sender';
 
 import { BuyNowCartRequestBody, Cart } from '@bigcommerce/checkout-sdk/payment-integration-api';
 
-import { ContentType, RequestOptions, SDK_VERSION_HEADERS } from '../common/http-request';
+import {
+    ContentType,
+    HttpRequestSender,
+    RequestOptions,
+    SDK_VERSION_HEADERS,
+} from '../common/http-request';
 
 export default class CartRequestSender {
-    constructor(private _requestSender: RequestSender) {}
+    constructor(private _requestSender: HttpRequestSender) {}
 
     createBuyNowCart(
         body: BuyNowCartRequestBody,
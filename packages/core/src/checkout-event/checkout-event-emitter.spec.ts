@@ -0,0 +1,137 @@
+import { createAction } from '@bigcommerce/data-store';
+import { createRequestSender } from '@bigcommerce/request-sender';
+
+import { CheckoutStore, createCheckoutStore } from '../checkout';
+import {
+    getCheckout,
+    getCheckoutStoreState,
+    getCheckoutWithCoupons,
+} from '../checkout/checkouts.mock';
+import { getResponse } from '../common/http-request/responses.mock';
+import { Logger, NoopLogger } from '../common/log';
+import { CouponActionCreator, CouponActionType, CouponRequestSender } from '../coupon';
+import { getCoupon } from '../coupon/coupons.mock';
+
+import CheckoutEventEmitter from './checkout-event-emitter';
+
+describe('CheckoutEventEmitter', () => {
+    let emitter: CheckoutEventEmitter;
+    let logger: Logger;
+    let store: CheckoutStore;
+
+    beforeEach(() => {
+        const state = getCheckoutStoreState();
+
+        logger = new NoopLogger();
+        emitter = new CheckoutEventEmitter(logger);
+        store = createCheckoutStore(
+            { ...state, coupons: { ...state.coupons, data: [getCoupon()] } },
+            { checkoutEventEmitter: emitter },
+        );
+    });
+
+    it('notifies listeners of events derived from dispatched actions', async () => {
+        const listener = jest.fn();
+
+        emitter.on('couponApplied', listener);
+
+        await store.dispatch(
+            createAction(CouponActionType.ApplyCouponSucceeded, getCheckoutWithCoupons()),
+        );
+
+        expect(listener).toHaveBeenCalledWith({
+            type: 'couponApplied',
+            coupon: getCheckoutWithCoupons().coupons[1],
+            previous: [getCoupon()],
+            next: getCheckoutWithCoupons().coupons,
+        });
+    });
+
+    it('notifies listeners of coupon applied optimistically', async () => {
+        const listener = jest.fn();
+        const requestSender = new CouponRequestSender(createRequestSender());
+        const couponActionCreator = new CouponActionCreator(requestSender, true);
+        const { coupons } = getCheckoutWithCoupons();
+
+        jest.spyOn(requestSender, 'applyCoupon').mockResolvedValue(
+            getResponse(getCheckoutWithCoupons()),
+        );
+
+        emitter.on('couponApplied', listener);
+
+        await store.dispatch(couponActionCreator.applyCoupon(coupons[1].code));
+
+        expect(listener).toHaveBeenCalledTimes(1);
+        expect(listener).toHaveBeenCalledWith(
+            expect.objectContaining({
+                type: 'couponApplied',
+                coupon: coupons[1],
+                next: coupons,
+            }),
+        );
+    });
+
+    it('notifies listeners after state is updated', async () => {
+        const listener = jest.fn(() => store.getState().coupons.getCoupons());
+
+        emitter.on('couponApplied', listener);
+
+        await store.dispatch(
+            createAction(CouponActionType.ApplyCouponSucceeded, getCheckoutWithCoupons()),
+        );
+
+        expect(listener).toHaveReturnedWith(getCheckoutWithCoupons().coupons);
+    });
+
+    it('does not notify listeners of other events', async () => {
+        const listener = jest.fn();
+
+        emitter.on('couponRemoved', listener);
+
+        await store.dispatch(
+            createAction(CouponActionType.ApplyCouponSucceeded, getCheckoutWithCoupons()),
+        );
+
+        expect(listener).not.toHaveBeenCalled();
+    });
+
+    it('stops notifying listener once it is removed', async () => {
+        const listener = jest.fn();
+        const removeListener = emitter.on('couponApplied', listener);
+
+        removeListener();
+
+        await store.dispatch(
+            createAction(CouponActionType.ApplyCouponSucceeded, getCheckoutWithCoupons()),
+        );
+
+        expect(listener).not.toHaveBeenCalled();
+    });
+
+    it('keeps notifying listeners of later events if a listener throws', async () => {
+        const faultyListener = jest.fn(() => {
+            throw new Error('Listener failed');
+        });
+        const listener = jest.fn();
+        const laterListener = jest.fn();
+
+        jest.spyOn(logger, 'error');
+
+        emitter.on('couponApplied', faultyListener);
+        emitter.on('couponApplied', listener);
+        emitter.on('couponRemoved', laterListener);
+
+        await store.dispatch(
+            createAction(CouponActionType.ApplyCouponSucceeded, getCheckoutWithCoupons()),
+        );
+        await store.dispatch(createAction(CouponActionType.RemoveCouponSucceeded, getCheckout()));
+
+        expect(faultyListener).toHaveBeenCalledTimes(1);
+        expect(listener).toHaveBeenCalledTimes(1);
+        expect(laterListener).toHaveBeenCalledTimes(1);
+        expect(logger.error).toHaveBeenCalledWith(
+            'Unable to notify listener of checkout event',
+            expect.objectContaining({ type: 'couponApplied' }),
+        );
+    });
+});
@@ -0,0 +1,115 @@
+import { Action, Reducer } from '@bigcommerce/data-store';
+
+import {
+    CheckoutStoreState,
+    createInternalCheckoutSelectorsFactory,
+    ReadableCheckoutStore,
+} from '../checkout';
+import { getDefaultLogger, Logger } from '../common/log';
+
+import { CheckoutEventListener, CheckoutEventMap, CheckoutEventType } from './checkout-event';
+import mapToCheckoutEvents from './map-to-checkout-events';
+
+interface ReducedAction {
+    action: Action;
+    previousState: CheckoutStoreState;
+    nextState: CheckoutStoreState;
+}
+
+type Listeners = {
+    [TType in CheckoutEventType]?: Array<CheckoutEventListener<TType>>;
+};
+
+/**
+ * Emits domain events derived from the actions dispatched to the checkout
+ * store.
+ *
+ * The actions are collected while they are reduced, but the events are only
+ * emitted once the store has published the resulting state. This way, the
+ * listeners always observe a state that is consistent with the events.
+ */
+export default class CheckoutEventEmitter {
+    private _listeners: Listeners = {};
+    private _reducedActions: ReducedAction[] = [];
+    private _createPreviousSelectors = createInternalCheckoutSelectorsFactory();
+    private _createNextSelectors = createInternalCheckoutSelectorsFactory();
+
+    constructor(private _logger: Logger = getDefaultLogger()) {}
+
+    decorateReducer(
+        reducer: Reducer<CheckoutStoreState, Action>,
+    ): Reducer<CheckoutStoreState, Action> {
+        return (previousState, action) => {
+            const nextState = reducer(previousState, action);
+
+            if (previousState && this._hasListeners()) {
+                this._reducedActions.push({ action, previousState, nextState });
+            }
+
+            return nextState;
+        };
+    }
+
+    observe(store: ReadableCheckoutStore): () => void {
+        return store.subscribe(() => this._emitEvents());
+    }
+
+    on<TType extends CheckoutEventType>(
+        type: TType,
+        listener: CheckoutEventListener<TType>,
+    ): () => void {
+        const listeners: Array<CheckoutEventListener<TType>> = this._listeners[type] || [];
+
+        this._listeners = { ...this._listeners, [type]: [...listeners, listener] };
+
+        return () => {
+            const currentListeners: Array<CheckoutEventListener<TType>> =
+                this._listeners[type] || [];
+
+            this._listeners = {
+                ...this._listeners,
+                [type]: currentListeners.filter((item) => item !== listener),
+            };
+        };
+    }
+
+    private _emitEvents(): void {
+        const reducedActions = this._reducedActions;
+
+        this._reducedActions = [];
+
+        reducedActions.forEach(({ action, previousState, nextState }) => {
+            const events = mapToCheckoutEvents(
+                action,
+                this._createPreviousSelectors(previousState),
+                this._createNextSelectors(nextState),
+            );
+
+            events.forEach((event) => this._emit(event));
+        });
+    }
+
+    private _emit<TType extends CheckoutEventType>(event: CheckoutEventMap[TType]): void {
+        const listeners: Array<CheckoutEventListener<TType>> =
+            this._listeners[event.type as TType] || [];
+
+        // A listener that throws would otherwise end the subscription to the
+        // store, and no further events would be emitted to any listener.
+        listeners.forEach((listener) => {
+            try {
+                listener(event);
+            } catch (error) {
+                this._logger.error('Unable to notify listener of checkout event', {
+                    type: event.type,
+                    error,
+                });
+            }
+        });
+    }
+
+    private _hasListeners(): boolean {
+        return Object.keys(this._listeners).some(
+            (type) => !!this._listeners[type as CheckoutEventType]?.length,
+        );
+    }
+}
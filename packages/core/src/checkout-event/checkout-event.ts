@@ -0,0 +1,84 @@
+import { BillingAddress } from '../billing';
+import { Checkout } from '../checkout';
+import { Coupon } from '../coupon';
+import { Customer } from '../customer';
+import { Order } from '../order';
+import { PaymentMethod } from '../payment';
+import { ShippingOption } from '../shipping';
+
+/**
+ * A domain event derived from an action dispatched to the checkout store. It
+ * contains the value affected by the action before and after it is reduced.
+ */
+export interface CheckoutEvent<TType extends string, TPrevious, TNext = TPrevious> {
+    type: TType;
+    previous: TPrevious;
+    next: TNext;
+}
+
+export type BillingAddressUpdatedEvent = CheckoutEvent<
+    'billingAddressUpdated',
+    BillingAddress | undefined
+>;
+
+export interface CouponAppliedEvent extends CheckoutEvent<'couponApplied', Coupon[] | undefined> {
+    /**
+     * The coupon that has been applied.
+     */
+    coupon?: Coupon;
+}
+
+export interface CouponRemovedEvent extends CheckoutEvent<'couponRemoved', Coupon[] | undefined> {
+    /**
+     * The coupon that has been removed.
+     */
+    coupon?: Coupon;
+}
+
+export type CustomerSignedInEvent = CheckoutEvent<'customerSignedIn', Customer | undefined>;
+
+export type CustomerSignedOutEvent = CheckoutEvent<'customerSignedOut', Customer | undefined>;
+
+/**
+ * The previous value is the checkout that has been submitted, and the next
+ * value is the order that has been created from it.
+ */
+export interface OrderSubmittedEvent
+    extends CheckoutEvent<'orderSubmitted', Checkout | undefined, Order | undefined> {
+    orderId: number;
+}
+
+/**
+ * The previous and next values indicate whether the payment method is
+ * initialized before and after the action.
+ */
+export interface PaymentMethodInitializedEvent
+    extends CheckoutEvent<'paymentMethodInitialized', boolean> {
+    methodId: string;
+    gatewayId?: string;
+    paymentMethod?: PaymentMethod;
+}
+
+export interface ShippingOptionChangedEvent
+    extends CheckoutEvent<'shippingOptionChanged', ShippingOption | undefined> {
+    consignmentId: string;
+}
+
+export interface CheckoutEventMap {
+    billingAddressUpdated: BillingAddressUpdatedEvent;
+    couponApplied: CouponAppliedEvent;
+    couponRemoved: CouponRemovedEvent;
+    customerSignedIn: CustomerSignedInEvent;
+    customerSignedOut: CustomerSignedOutEvent;
+    orderSubmitted: OrderSubmittedEvent;
+    paymentMethodInitialized: PaymentMethodInitializedEvent;
+    shippingOptionChanged: ShippingOptionChangedEvent;
+}
+
+export type CheckoutEventType = keyof CheckoutEventMap;
+
+export type AnyCheckoutEvent = CheckoutEventMap[CheckoutEventType];
+
+export type CheckoutEventListener<TType extends CheckoutEventType> = (
+    event: CheckoutEventMap[TType],
+) => void;
@@ -0,0 +1,4 @@
+export * from './checkout-event';
+
+export { default as CheckoutEventEmitter } from './checkout-event-emitter';
+export { default as mapToCheckoutEvents } from './map-to-checkout-events';
@@ -0,0 +1,261 @@
+import { createAction } from '@bigcommerce/data-store';
+
+import { BillingAddressActionType } from '../billing';
+import { getBillingAddress } from '../billing/billing-addresses.mock';
+import { CheckoutStoreState, createInternalCheckoutSelectors } from '../checkout';
+import { getCheckout, getCheckoutStoreState } from '../checkout/checkouts.mock';
+import { CouponActionType } from '../coupon';
+import { getCoupon, getShippingCoupon } from '../coupon/coupons.mock';
+import { getCustomer, getGuestCustomer } from '../customer/customers.mock';
+import { OrderActionType } from '../order';
+import { getCompleteOrderResponseBody } from '../order/internal-orders.mock';
+import { PaymentStrategyActionType } from '../payment/payment-strategy-actions';
+import { ConsignmentActionType } from '../shipping';
+import { getConsignment } from '../shipping/consignments.mock';
+import { getShippingOption } from '../shipping/shipping-options.mock';
+
+import mapToCheckoutEvents from './map-to-checkout-events';
+
+describe('mapToCheckoutEvents()', () => {
+    let state: CheckoutStoreState;
+
+    beforeEach(() => {
+        state = getCheckoutStoreState();
+    });
+
+    function mapToEvents(
+        action: ReturnType<typeof createAction>,
+        previousState: CheckoutStoreState,
+        nextState: CheckoutStoreState,
+    ) {
+        return mapToCheckoutEvents(
+            action,
+            createInternalCheckoutSelectors(previousState),
+            createInternalCheckoutSelectors(nextState),
+        );
+    }
+
+    it('returns event when coupon is applied', () => {
+        const previousState = { ...state, coupons: { ...state.coupons, data: [getCoupon()] } };
+
+        expect(
+            mapToEvents(
+                createAction(CouponActionType.ApplyCouponSucceeded, getCheckout()),
+                previousState,
+                state,
+            ),
+        ).toEqual([
+            {
+                type: 'couponApplied',
+                coupon: getShippingCoupon(),
+                previous: [getCoupon()],
+                next: [getCoupon(), getShippingCoupon()],
+            },
+        ]);
+    });
+
+    it('returns event when coupon is applied optimistically', () => {
+        const previousState = {
+            ...state,
+            coupons: {
+                ...state.coupons,
+                data: [getCoupon()],
+                pendingCodes: [getShippingCoupon().code],
+            },
+        };
+
+        expect(
+            mapToEvents(
+                createAction(CouponActionType.ApplyCouponSucceeded, getCheckout(), {
+                    optimisticUpdate: { code: getShippingCoupon().code },
+                }),
+                previousState,
+                state,
+            ),
+        ).toEqual([
+            expect.objectContaining({
+                type: 'couponApplied',
+                coupon: getShippingCoupon(),
+                next: [getCoupon(), getShippingCoupon()],
+            }),
+        ]);
+    });
+
+    it('returns event when coupon is removed', () => {
+        const nextState = { ...state, coupons: { ...state.coupons, data: [getCoupon()] } };
+
+        expect(
+            mapToEvents(
+                createAction(CouponActionType.RemoveCouponSucceeded, getCheckout()),
+                state,
+                nextState,
+            ),
+        ).toEqual([
+            {
+                type: 'couponRemoved',
+                coupon: getShippingCoupon(),
+                previous: [getCoupon(), getShippingCoupon()],
+                next: [getCoupon()],
+            },
+        ]);
+    });
+
+    it('returns event when billing address is updated', () => {
+        const previousState = {
+            ...state,
+            billingAddress: { ...state.billingAddress, data: undefined },
+        };
+
+        expect(
+            mapToEvents(
+                createAction(BillingAddressActionType.UpdateBillingAddressSucceeded, getCheckout()),
+                previousState,
+                state,
+            ),
+        ).toEqual([
+            {
+                type: 'billingAddressUpdated',
+                previous: undefined,
+                next: getBillingAddress(),
+            },
+        ]);
+    });
+
+    it('returns event when shipping option is changed', () => {
+        const shippingOption = { ...getShippingOption(), id: 'bar' };
+        const nextState = {
+            ...state,
+            consignments: {
+                ...state.consignments,
+                data: [{ ...getConsignment(), selectedShippingOption: shippingOption }],
+            },
+        };
+
+        expect(
+            mapToEvents(
+                createAction(ConsignmentActionType.UpdateShippingOptionSucceeded, getCheckout(), {
+                    id: getConsignment().id,
+                }),
+                state,
+                nextState,
+            ),
+        ).toEqual([
+            {
+                type: 'shippingOptionChanged',
+                consignmentId: getConsignment().id,
+                previous: getShippingOption(),
+                next: shippingOption,
+            },
+        ]);
+    });
+
+    it('returns shipping option selected before optimistic update as previous value', () => {
+        const shippingOption = { ...getShippingOption(), id: 'bar' };
+        const predictedState = {
+            ...state,
+            consignments: {
+                ...state.consignments,
+                data: [{ ...getConsignment(), selectedShippingOption: shippingOption }],
+            },
+        };
+
+        expect(
+            mapToEvents(
+                createAction(ConsignmentActionType.UpdateShippingOptionSucceeded, getCheckout(), {
+                    id: getConsignment().id,
+                    optimisticUpdate: {
+                        shippingOptionId: 'bar',
+                        previousShippingOption: getShippingOption(),
+                    },
+                }),
+                predictedState,
+                predictedState,
+            ),
+        ).toEqual([
+            expect.objectContaining({ previous: getShippingOption(), next: shippingOption }),
+        ]);
+    });
+
+    it('returns event when order is submitted', () => {
+        const response = getCompleteOrderResponseBody();
+
+        expect(
+            mapToEvents(
+                createAction(OrderActionType.SubmitOrderSucceeded, response.data),
+                state,
+                state,
+            ),
+        ).toEqual([
+            {
+                type: 'orderSubmitted',
+                orderId: response.data.order.orderId,
+                previous: createInternalCheckoutSelectors(state).checkout.getCheckout(),
+                next: createInternalCheckoutSelectors(state).order.getOrder(),
+            },
+        ]);
+    });
+
+    it('does not return event when order is submitted without response body', () => {
+        expect(
+            mapToEvents(createAction(OrderActionType.SubmitOrderSucceeded), state, state),
+        ).toEqual([]);
+    });
+
+    it('returns event when payment method is initialized', () => {
+        const nextState = {
+            ...state,
+            paymentStrategies: {
+                ...state.paymentStrategies,
+                data: { braintree: { isInitialized: true } },
+            },
+        };
+
+        expect(
+            mapToEvents(
+                createAction(PaymentStrategyActionType.InitializeSucceeded, undefined, {
+                    methodId: 'braintree',
+                }),
+                state,
+                nextState,
+            ),
+        ).toEqual([
+            expect.objectContaining({
+                type: 'paymentMethodInitialized',
+                methodId: 'braintree',
+                previous: false,
+                next: true,
+            }),
+        ]);
+    });
+
+    it('returns event when customer signs in', () => {
+        const previousState = {
+            ...state,
+            customer: { ...state.customer, data: getGuestCustomer() },
+        };
+        const nextState = { ...state, customer: { ...state.customer, data: getCustomer() } };
+
+        expect(mapToEvents(createAction('ANY_ACTION'), previousState, nextState)).toEqual([
+            { type: 'customerSignedIn', previous: getGuestCustomer(), next: getCustomer() },
+        ]);
+    });
+
+    it('returns event when customer signs out', () => {
+        const previousState = { ...state, customer: { ...state.customer, data: getCustomer() } };
+        const nextState = { ...state, customer: { ...state.customer, data: getGuestCustomer() } };
+
+        expect(mapToEvents(createAction('ANY_ACTION'), previousState, nextState)).toEqual([
+            { type: 'customerSignedOut', previous: getCustomer(), next: getGuestCustomer() },
+        ]);
+    });
+
+    it('returns no event when customer is loaded for first time', () => {
+        const previousState = { ...state, customer: { ...state.customer, data: undefined } };
+
+        expect(mapToEvents(createAction('ANY_ACTION'), previousState, state)).toEqual([]);
+    });
+
+    it('returns no event for other actions', () => {
+        expect(mapToEvents(createAction('ANY_ACTION'), state, state)).toEqual([]);
+    });
+});
@@ -0,0 +1,154 @@
+import { Action } from '@bigcommerce/data-store';
+
+import { BillingAddressActionType } from '../billing';
+import { InternalCheckoutSelectors } from '../checkout';
+import { Coupon, CouponActionType } from '../coupon';
+import { OrderActionType } from '../order';
+import { PaymentStrategyActionType } from '../payment/payment-strategy-actions';
+import { ConsignmentActionType, ConsignmentShippingOptionMeta } from '../shipping';
+
+import { AnyCheckoutEvent } from './checkout-event';
+
+/**
+ * Derives the domain events of an action from the state of the checkout store
+ * before and after the action is reduced.
+ */
+export default function mapToCheckoutEvents(
+    action: Action,
+    previous: InternalCheckoutSelectors,
+    next: InternalCheckoutSelectors,
+): AnyCheckoutEvent[] {
+    return [...mapActionToEvents(action, previous, next), ...mapCustomerToEvents(previous, next)];
+}
+
+function mapActionToEvents(
+    action: Action,
+    previous: InternalCheckoutSelectors,
+    next: InternalCheckoutSelectors,
+): AnyCheckoutEvent[] {
+    switch (action.type) {
+        case BillingAddressActionType.UpdateBillingAddressSucceeded:
+            return [
+                {
+                    type: 'billingAddressUpdated',
+                    previous: previous.billingAddress.getBillingAddress(),
+                    next: next.billingAddress.getBillingAddress(),
+                },
+            ];
+
+        case CouponActionType.ApplyCouponSucceeded:
+            return [
+                {
+                    type: 'couponApplied',
+                    coupon: findMissingCoupon(
+                        next.coupons.getCoupons(),
+                        previous.coupons.getCoupons(),
+                    ),
+                    previous: previous.coupons.getCoupons(),
+                    next: next.coupons.getCoupons(),
+                },
+            ];
+
+        case CouponActionType.RemoveCouponSucceeded:
+            return [
+                {
+                    type: 'couponRemoved',
+                    coupon: findMissingCoupon(
+                        previous.coupons.getCoupons(),
+                        next.coupons.getCoupons(),
+                    ),
+                    previous: previous.coupons.getCoupons(),
+                    next: next.coupons.getCoupons(),
+                },
+            ];
+
+        case ConsignmentActionType.UpdateShippingOptionSucceeded: {
+            const meta: ConsignmentShippingOptionMeta | undefined = action.meta;
+
+            if (!meta) {
+                return [];
+            }
+
+            // If the shipping option has been selected optimistically, the
+            // previous state already contains the predicted option.
+            const previousShippingOption = meta.optimisticUpdate
+                ? meta.optimisticUpdate.previousShippingOption
+                : previous.consignments.getConsignmentById(meta.id)?.selectedShippingOption;
+
+            return [
+                {
+                    type: 'shippingOptionChanged',
+                    consignmentId: meta.id,
+                    previous: previousShippingOption,
+                    next: next.consignments.getConsignmentById(meta.id)?.selectedShippingOption,
+                },
+            ];
+        }
+
+        case OrderActionType.SubmitOrderSucceeded: {
+            if (!action.payload || !action.payload.order) {
+                return [];
+            }
+
+            return [
+                {
+                    type: 'orderSubmitted',
+                    orderId: action.payload.order.orderId,
+                    previous: previous.checkout.getCheckout(),
+                    next: next.order.getOrder(),
+                },
+            ];
+        }
+
+        case PaymentStrategyActionType.InitializeSucceeded: {
+            if (!action.meta) {
+                return [];
+            }
+
+            const { methodId, gatewayId } = action.meta;
+
+            return [
+                {
+                    type: 'paymentMethodInitialized',
+                    methodId,
+                    gatewayId,
+                    paymentMethod: next.paymentMethods.getPaymentMethod(methodId, gatewayId),
+                    previous: previous.paymentStrategies.isInitialized({ methodId, gatewayId }),
+                    next: next.paymentStrategies.isInitialized({ methodId, gatewayId }),
+                },
+            ];
+        }
+
+        default:
+            return [];
+    }
+}
+
+/**
+ * The customer is signed in and out by different strategies, which reload the
+ * checkout afterwards. Therefore, the events are derived from the change of
+ * the customer instead of specific actions.
+ */
+function mapCustomerToEvents(
+    previous: InternalCheckoutSelectors,
+    next: InternalCheckoutSelectors,
+): AnyCheckoutEvent[] {
+    const previousCustomer = previous.customer.getCustomer();
+    const nextCustomer = next.customer.getCustomer();
+
+    if (!previousCustomer || !nextCustomer || previousCustomer.isGuest === nextCustomer.isGuest) {
+        return [];
+    }
+
+    return [
+        {
+            type: nextCustomer.isGuest ? 'customerSignedOut' : 'customerSignedIn',
+            previous: previousCustomer,
+            next: nextCustomer,
+        },
+    ];
+}
+
+function findMissingCoupon(coupons: Coupon[] = [], others: Coupon[] = []): Coupon | undefined {
+    return coupons.find((coupon) => !others.some((other) => other.code === coupon.code));
+}
@@ -0,0 +1,259 @@
+import { getBillingAddress } from '../billing/billing-addresses.mock';
+import { getCart } from '../cart/carts.mock';
+import { getPhysicalItem } from '../cart/line-items.mock';
+import { getCheckout } from '../checkout/checkouts.mock';
+import { Consignment } from '../shipping';
+import { getConsignment } from '../shipping/consignments.mock';
+import { getShippingAddress } from '../shipping/shipping-addresses.mock';
+import { CHECKOUT_STATE_SNAPSHOT_VERSION, CheckoutStateSnapshot } from '../state-snapshot';
+
+import { CheckoutTransactionTarget } from './checkout-transaction';
+import CheckoutTransactionRunner from './checkout-transaction-runner';
+import { CheckoutTransactionError } from './errors';
+
+describe('CheckoutTransactionRunner', () => {
+    let runner: CheckoutTransactionRunner;
+    let snapshot: CheckoutStateSnapshot;
+    let target: CheckoutTransactionTarget;
+    let getConsignments: jest.Mock<Consignment[] | undefined, []>;
+
+    beforeEach(() => {
+        target = {
+            updateShippingAddress: jest.fn(() => Promise.resolve()),
+            selectShippingOption: jest.fn(() => Promise.resolve()),
+            selectConsignmentShippingOption: jest.fn(() => Promise.resolve()),
+            updateBillingAddress: jest.fn(() => Promise.resolve()),
+            applyStoreCredit: jest.fn(() => Promise.resolve()),
+            createConsignments: jest.fn(() => Promise.resolve()),
+            deleteConsignment: jest.fn(() => Promise.resolve()),
+            updateConsignment: jest.fn(() => Promise.resolve()),
+        };
+
+        snapshot = {
+            version: CHECKOUT_STATE_SNAPSHOT_VERSION,
+            createdAt: Date.now(),
+            state: {
+                billingAddress: { data: getBillingAddress() },
+                checkout: { data: { ...getCheckout(), isStoreCreditApplied: true } },
+                consignments: { data: [getConsignment()] },
+            },
+        };
+
+        getConsignments = jest.fn(() => snapshot.state.consignments?.data);
+        runner = new CheckoutTransactionRunner(target, getConsignments);
+    });
+
+    it('performs operations of transaction', async () => {
+        await runner.run(snapshot, async (transaction) => {
+            await transaction.updateShippingAddress(getShippingAddress());
+            await transaction.selectShippingOption('option-id-1');
+            await transaction.updateBillingAddress(getBillingAddress());
+        });
+
+        expect(target.updateShippingAddress).toHaveBeenCalledWith(getShippingAddress(), undefined);
+        expect(target.selectShippingOption).toHaveBeenCalledWith('option-id-1', undefined);
+        expect(target.updateBillingAddress).toHaveBeenCalledWith(getBillingAddress(), undefined);
+    });
+
+    it('does not perform compensating operations if transaction succeeds', async () => {
+        await runner.run(snapshot, async (transaction) => {
+            await transaction.applyStoreCredit(false);
+        });
+
+        expect(target.applyStoreCredit).toHaveBeenCalledTimes(1);
+    });
+
+    it('restores previous shipping address and shipping option if transaction fails', async () => {
+        const error = new Error('Unable to update billing address');
+
+        jest.spyOn(target, 'updateBillingAddress').mockRejectedValueOnce(error);
+
+        await expect(
+            runner.run(snapshot, async (transaction) => {
+                await transaction.updateShippingAddress({ city: 'Sydney' });
+                await transaction.updateBillingAddress({ city: 'Sydney' });
+            }),
+        ).rejects.toBeInstanceOf(CheckoutTransactionError);
+
+        expect(target.updateShippingAddress).toHaveBeenLastCalledWith(
+            getConsignment().shippingAddress,
+        );
+        expect(target.selectConsignmentShippingOption).toHaveBeenCalledWith(
+            getConsignment().id,
+            getConsignment().selectedShippingOption?.id,
+        );
+        expect(target.updateBillingAddress).toHaveBeenLastCalledWith(getBillingAddress());
+    });
+
+    it('restores address of every consignment if transaction fails', async () => {
+        const consignments = [
+            getConsignment(),
+            {
+                ...getConsignment(),
+                id: 'consignment-2',
+                shippingAddress: { ...getShippingAddress(), id: 'address-2', city: 'Sydney' },
+            },
+        ];
+
+        snapshot.state.consignments = { data: consignments };
+
+        await expect(
+            runner.run(snapshot, async (transaction) => {
+                await transaction.updateShippingAddress(getShippingAddress());
+
+                throw new Error('Unable to update shipping address');
+            }),
+        ).rejects.toBeInstanceOf(CheckoutTransactionError);
+
+        expect(target.updateShippingAddress).toHaveBeenCalledTimes(1);
+        expect(target.updateConsignment).toHaveBeenCalledWith({
+            id: consignments[0].id,
+            address: consignments[0].shippingAddress,
+        });
+        expect(target.updateConsignment).toHaveBeenCalledWith({
+            id: consignments[1].id,
+            address: consignments[1].shippingAddress,
+        });
+    });
+
+    it('deletes consignment created by transaction if there was no consignment before', async () => {
+        snapshot.state.consignments = { data: [] };
+        getConsignments.mockReturnValue([{ ...getConsignment(), id: 'created-consignment' }]);
+
+        await expect(
+            runner.run(snapshot, async (transaction) => {
+                await transaction.updateShippingAddress(getShippingAddress());
+
+                throw new Error('Unable to select shipping option');
+            }),
+        ).rejects.toBeInstanceOf(CheckoutTransactionError);
+
+        expect(target.deleteConsignment).toHaveBeenCalledWith('created-consignment');
+        expect(target.updateShippingAddress).toHaveBeenCalledTimes(1);
+        expect(target.createConsignments).not.toHaveBeenCalled();
+    });
+
+    it('creates consignments merged by transaction again with their line items', async () => {
+        const consignments = [
+            getConsignment(),
+            {
+                ...getConsignment(),
+                id: 'consignment-2',
+                lineItemIds: ['777'],
+                shippingAddress: { ...getShippingAddress(), id: 'address-2', city: 'Sydney' },
+            },
+        ];
+
+        snapshot.state.consignments = { data: consignments };
+        snapshot.state.cart = {
+            data: {
+                ...getCart(),
+                lineItems: {
+                    ...getCart().lineItems,
+                    physicalItems: [
+                        { ...getPhysicalItem(), id: consignments[0].lineItemIds[0], quantity: 1 },
+                        { ...getPhysicalItem(), id: '777', quantity: 2 },
+                    ],
+                },
+            },
+        };
+        getConsignments.mockReturnValue([
+            { ...consignments[0], lineItemIds: [consignments[0].lineItemIds[0], '777'] },
+        ]);
+
+        await expect(
+            runner.run(snapshot, async (transaction) => {
+                await transaction.updateShippingAddress(getShippingAddress());
+
+                throw new Error('Unable to select shipping option');
+            }),
+        ).rejects.toBeInstanceOf(CheckoutTransactionError);
+
+        expect(target.deleteConsignment).not.toHaveBeenCalled();
+        expect(target.updateConsignment).toHaveBeenCalledWith({
+            id: consignments[0].id,
+            address: consignments[0].shippingAddress,
+            lineItems: [{ itemId: consignments[0].lineItemIds[0], quantity: 1 }],
+        });
+        expect(target.createConsignments).toHaveBeenCalledWith([
+            {
+                address: consignments[1].shippingAddress,
+                lineItems: [{ itemId: '777', quantity: 2 }],
+            },
+        ]);
+        expect(target.selectConsignmentShippingOption).toHaveBeenCalledTimes(1);
+        expect(target.selectConsignmentShippingOption).toHaveBeenCalledWith(
+            consignments[0].id,
+            consignments[0].selectedShippingOption?.id,
+        );
+    });
+
+    it('restores previous store credit if transaction fails', async () => {
+        await expect(
+            runner.run(snapshot, async (transaction) => {
+                await transaction.applyStoreCredit(false);
+
+                throw new Error('Unexpected error');
+            }),
+        ).rejects.toBeInstanceOf(CheckoutTransactionError);
+
+        expect(target.applyStoreCredit).toHaveBeenLastCalledWith(true);
+        expect(target.updateShippingAddress).not.toHaveBeenCalled();
+        expect(target.updateBillingAddress).not.toHaveBeenCalled();
+    });
+
+    it('restores shipping option after shipping address', async () => {
+        const calls: string[] = [];
+
+        jest.spyOn(target, 'updateShippingAddress').mockImplementation(() => {
+            calls.push('updateShippingAddress');
+
+            return Promise.resolve();
+        });
+        jest.spyOn(target, 'selectConsignmentShippingOption').mockImplementation(() => {
+            calls.push('selectConsignmentShippingOption');
+
+            return Promise.resolve();
+        });
+
+        await expect(
+            runner.run(snapshot, async (transaction) => {
+                await transaction.selectShippingOption('option-id-1');
+                await transaction.updateShippingAddress({ city: 'Sydney' });
+
+                throw new Error('Unexpected error');
+            }),
+        ).rejects.toBeInstanceOf(CheckoutTransactionError);
+
+        expect(calls).toEqual([
+            'updateShippingAddress',
+            'updateShippingAddress',
+            'selectConsignmentShippingOption',
+        ]);
+    });
+
+    it('rejects with original error and errors of failed compensating operations', async () => {
+        const error = new Error('Unable to apply store credit');
+        const compensationError = new Error('Unable to restore billing address');
+
+        expect.assertions(4);
+
+        jest.spyOn(target, 'applyStoreCredit').mockRejectedValueOnce(error);
+        jest.spyOn(target, 'updateBillingAddress')
+            .mockResolvedValueOnce(undefined)
+            .mockRejectedValueOnce(compensationError);
+
+        try {
+            await runner.run(snapshot, async (transaction) => {
+                await transaction.updateBillingAddress({ city: 'Sydney' });
+                await transaction.applyStoreCredit(false);
+            });
+        } catch (thrown) {
+            expect(thrown).toBeInstanceOf(CheckoutTransactionError);
+            expect(thrown).toHaveProperty('originalError', error);
+            expect(thrown).toHaveProperty('compensationErrors', [compensationError]);
+        }
+
+        expect(target.applyStoreCredit).toHaveBeenLastCalledWith(true);
+    });
+});
@@ -0,0 +1,214 @@
+import { Cart } from '../cart';
+import { Consignment, ConsignmentLineItem } from '../shipping';
+import { CheckoutStateSnapshot } from '../state-snapshot';
+
+import CheckoutTransaction, {
+    CheckoutTransactionCallback,
+    CheckoutTransactionTarget,
+} from './checkout-transaction';
+import { CheckoutTransactionError } from './errors';
+
+type CheckoutTransactionOperation =
+    | 'billingAddress'
+    | 'shippingAddress'
+    | 'shippingOption'
+    | 'storeCredit';
+
+type Compensation = () => Promise<unknown>;
+
+/**
+ * Runs the operations of a checkout transaction against a target. If any of
+ * the operations fails, the changes made by the transaction are reverted to
+ * the snapshot taken before it started, on a best effort basis.
+ */
+export default class CheckoutTransactionRunner {
+    constructor(
+        private _target: CheckoutTransactionTarget,
+        private _getConsignments: () => Consignment[] | undefined,
+    ) {}
+
+    async run(
+        snapshot: CheckoutStateSnapshot,
+        callback: CheckoutTransactionCallback,
+    ): Promise<void> {
+        const operations = new Set<CheckoutTransactionOperation>();
+
+        try {
+            await callback(this._createTransaction(operations));
+        } catch (error) {
+            const compensationErrors = await this._compensate(
+                this._getCompensations(snapshot, operations),
+            );
+
+            throw new CheckoutTransactionError(error, compensationErrors);
+        }
+    }
+
+    private _createTransaction(operations: Set<CheckoutTransactionOperation>): CheckoutTransaction {
+        const perform = async (
+            operation: CheckoutTransactionOperation,
+            method: () => Promise<unknown>,
+        ): Promise<void> => {
+            operations.add(operation);
+
+            await method();
+        };
+
+        return {
+            updateShippingAddress: (address, options) =>
+                perform('shippingAddress', () =>
+                    this._target.updateShippingAddress(address, options),
+                ),
+            selectShippingOption: (shippingOptionId, options) =>
+                perform('shippingOption', () =>
+                    this._target.selectShippingOption(shippingOptionId, options),
+                ),
+            selectConsignmentShippingOption: (consignmentId, shippingOptionId, options) =>
+                perform('shippingOption', () =>
+                    this._target.selectConsignmentShippingOption(
+                        consignmentId,
+                        shippingOptionId,
+                        options,
+                    ),
+                ),
+            updateBillingAddress: (address, options) =>
+                perform('billingAddress', () =>
+                    this._target.updateBillingAddress(address, options),
+                ),
+            applyStoreCredit: (useStoreCredit, options) =>
+                perform('storeCredit', () =>
+                    this._target.applyStoreCredit(useStoreCredit, options),
+                ),
+        };
+    }
+
+    private _getCompensations(
+        { state }: CheckoutStateSnapshot,
+        operations: Set<CheckoutTransactionOperation>,
+    ): Compensation[] {
+        const compensations: Compensation[] = [];
+        const consignments = state.consignments?.data || [];
+        const billingAddress = state.billingAddress?.data;
+        const checkout = state.checkout?.data;
+
+        // The shipping options have to be restored after the addresses because
+        // updating the addresses can deselect them.
+        if (operations.has('shippingAddress')) {
+            compensations.push(
+                ...this._getConsignmentCompensations(consignments, state.cart?.data),
+            );
+        }
+
+        if (operations.has('shippingAddress') || operations.has('shippingOption')) {
+            const currentIds = (this._getConsignments() || []).map(({ id }) => id);
+
+            consignments.forEach(({ id, selectedShippingOption }) => {
+                if (selectedShippingOption && currentIds.indexOf(id) !== -1) {
+                    compensations.push(() =>
+                        this._target.selectConsignmentShippingOption(id, selectedShippingOption.id),
+                    );
+                }
+            });
+        }
+
+        if (operations.has('billingAddress') && billingAddress) {
+            compensations.push(() => this._target.updateBillingAddress(billingAddress));
+        }
+
+        if (operations.has('storeCredit') && checkout) {
+            compensations.push(() => this._target.applyStoreCredit(checkout.isStoreCreditApplied));
+        }
+
+        return compensations;
+    }
+
+    /**
+     * Deletes the consignments created by the transaction, restores the
+     * addresses of the consignments that still exist, and creates again the
+     * ones that have been removed, i.e.: merged into another consignment. The
+     * line items are released before they are assigned to the consignments
+     * created again.
+     */
+    private _getConsignmentCompensations(
+        previousConsignments: Consignment[],
+        cart?: Cart,
+    ): Compensation[] {
+        const currentConsignments = this._getConsignments() || [];
+        const previousIds = previousConsignments.map(({ id }) => id);
+        const currentIds = currentConsignments.map(({ id }) => id);
+        const createdConsignments = currentConsignments.filter(
+            ({ id }) => previousIds.indexOf(id) === -1,
+        );
+        const removedConsignments = previousConsignments.filter(
+            ({ id }) => currentIds.indexOf(id) === -1,
+        );
+        const remainingConsignments = previousConsignments.filter(
+            ({ id }) => currentIds.indexOf(id) !== -1,
+        );
+        const compensations: Compensation[] = [];
+
+        createdConsignments.forEach(({ id }) => {
+            compensations.push(() => this._target.deleteConsignment(id));
+        });
+
+        if (remainingConsignments.length === 1 && previousConsignments.length === 1) {
+            compensations.push(() =>
+                this._target.updateShippingAddress(remainingConsignments[0].shippingAddress),
+            );
+        } else {
+            remainingConsignments.forEach(({ id, shippingAddress, lineItemIds }) => {
+                compensations.push(() =>
+                    this._target.updateConsignment({
+                        id,
+                        address: shippingAddress,
+                        ...(removedConsignments.length > 0 && {
+                            lineItems: getLineItems(lineItemIds, cart),
+                        }),
+                    }),
+                );
+            });
+        }
+
+        if (removedConsignments.length > 0) {
+            compensations.push(() =>
+                this._target.createConsignments(
+                    removedConsignments.map(({ shippingAddress, lineItemIds }) => ({
+                        address: shippingAddress,
+                        lineItems: getLineItems(lineItemIds, cart),
+                    })),
+                ),
+            );
+        }
+
+        return compensations;
+    }
+
+    private _compensate(compensations: Compensation[]): Promise<unknown[]> {
+        const errors: unknown[] = [];
+
+        return compensations
+            .reduce<Promise<void>>(
+                (promise, compensate) =>
+                    promise.then(() =>
+                        compensate().then(
+                            () => undefined,
+                            (error) => {
+                                errors.push(error);
+                            },
+                        ),
+                    ),
+                Promise.resolve(),
+            )
+            .then(() => errors);
+    }
+}
+
+function getLineItems(lineItemIds: string[], cart?: Cart): ConsignmentLineItem[] {
+    const physicalItems = cart?.lineItems.physicalItems || [];
+
+    return lineItemIds.reduce<ConsignmentLineItem[]>((lineItems, itemId) => {
+        const item = physicalItems.find(({ id }) => id === itemId);
+
+        return item ? [...lineItems, { itemId, quantity: item.quantity }] : lineItems;
+    }, []);
+}
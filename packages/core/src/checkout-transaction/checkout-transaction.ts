@@ -0,0 +1,57 @@
+import { AddressRequestBody } from '../address';
+import { BillingAddressRequestBody, BillingAddressRequestOptions } from '../billing';
+import { CheckoutParams } from '../checkout';
+import { RequestOptions } from '../common/http-request';
+import {
+    ConsignmentsRequestBody,
+    ConsignmentUpdateRequestBody,
+    ShippingAddressRequestOptions,
+    ShippingRequestOptions,
+} from '../shipping';
+
+/**
+ * The operations that can be performed as part of a checkout transaction.
+ * Unlike the equivalent methods of `CheckoutService`, they do not resolve with
+ * the checkout state because subscribers are only notified of the changes
+ * once the transaction completes.
+ */
+export default interface CheckoutTransaction {
+    updateShippingAddress(
+        address: Partial<AddressRequestBody>,
+        options?: ShippingAddressRequestOptions<CheckoutParams>,
+    ): Promise<void>;
+
+    selectShippingOption(shippingOptionId: string, options?: ShippingRequestOptions): Promise<void>;
+
+    selectConsignmentShippingOption(
+        consignmentId: string,
+        shippingOptionId: string,
+        options?: ShippingRequestOptions,
+    ): Promise<void>;
+
+    updateBillingAddress(
+        address: Partial<BillingAddressRequestBody>,
+        options?: BillingAddressRequestOptions,
+    ): Promise<void>;
+
+    applyStoreCredit(useStoreCredit: boolean, options?: RequestOptions): Promise<void>;
+}
+
+/**
+ * The object that performs the operations of a checkout transaction, and the
+ * compensating operations if the transaction fails. The consignments are
+ * updated individually to restore their addresses when the checkout ships to
+ * multiple addresses, and they are created or deleted to restore the
+ * consignments that existed before the transaction.
+ */
+export type CheckoutTransactionTarget = {
+    [Key in keyof CheckoutTransaction]: (
+        ...args: Parameters<CheckoutTransaction[Key]>
+    ) => Promise<unknown>;
+} & {
+    createConsignments(consignments: ConsignmentsRequestBody): Promise<unknown>;
+    deleteConsignment(consignmentId: string): Promise<unknown>;
+    updateConsignment(consignment: ConsignmentUpdateRequestBody): Promise<unknown>;
+};
+
+export type CheckoutTransactionCallback = (transaction: CheckoutTransaction) => Promise<void>;
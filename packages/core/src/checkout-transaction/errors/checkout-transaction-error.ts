@@ -0,0 +1,16 @@
+import { StandardError } from '../../common/error/errors';
+
+/**
+ * This error is thrown when one of the operations of a checkout transaction
+ * fails. By the time the error is thrown, the changes made by the preceding
+ * operations have been reverted, unless they are listed in
+ * `compensationErrors`.
+ */
+export default class CheckoutTransactionError extends StandardError {
+    constructor(public originalError: unknown, public compensationErrors: unknown[] = []) {
+        super(originalError instanceof Error ? originalError.message : undefined);
+
+        this.name = 'CheckoutTransactionError';
+        this.type = 'checkout_transaction';
+    }
+}
@@ -0,0 +1 @@
+export { default as CheckoutTransactionError } from './checkout-transaction-error';
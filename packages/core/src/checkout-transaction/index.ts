@@ -0,0 +1,8 @@
+export * from './errors';
+
+export {
+    default as CheckoutTransaction,
+    CheckoutTransactionCallback,
+    CheckoutTransactionTarget,
+} from './checkout-transaction';
+export { default as CheckoutTransactionRunner } from './checkout-transaction-runner';
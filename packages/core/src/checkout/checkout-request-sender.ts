@@ -1,8 +1,9 @@
-import { RequestSender, Response } from '@bigcommerce/request-sender';
+import { Response } from '@bigcommerce/request-sender';
 
 import { EmptyCartError } from '../cart/errors';
 import {
     ContentType,
+    HttpRequestSender,
     joinOrMergeIncludes,
     RequestOptions,
     SDK_VERSION_HEADERS,
@@ -14,7 +15,7 @@ import CheckoutParams from './checkout-params';
 import { CheckoutNotAvailableError } from './errors';
 
 export default class CheckoutRequestSender {
-    constructor(private _requestSender: RequestSender) {}
+    constructor(private _requestSender: HttpRequestSender) {}
 
     loadCheckout(
         id: string,
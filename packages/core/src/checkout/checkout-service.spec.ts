@@ -11,6 +11,11 @@ import {
     PaymentStrategy as PaymentStrategyV2,
 } from '@bigcommerce/checkout-sdk/payment-integration-api';
 
+import {
+    AddressLookupProvider,
+    createAddressLookupProviderRegistry,
+    InMemoryAddressLookupProvider,
+} from '../address-lookup';
 import { B2BTokenActionCreator, B2BTokenRequestSender } from '../b2b-token';
 import {
     BillingAddressActionCreator,
@@ -18,12 +23,17 @@ import {
     BillingAddressRequestSender,
 } from '../billing';
 import { getBillingAddress } from '../billing/billing-addresses.mock';
+import { getCart } from '../cart/carts.mock';
+import { CheckoutEventEmitter } from '../checkout-event';
+import { CheckoutTransactionError } from '../checkout-transaction';
 import { createDataStoreProjection, DataStoreProjection } from '../common/data-store';
-import { ErrorActionCreator } from '../common/error';
-import { getResponse } from '../common/http-request/responses.mock';
-import { ResolveIdRegistry } from '../common/registry';
+import { ErrorActionCreator, ErrorLogger } from '../common/error';
+import { InvalidArgumentError, NotInitializedError } from '../common/error/errors';
+import { CoalescingRequestSender } from '../common/http-request';
+import { getErrorResponse, getResponse } from '../common/http-request/responses.mock';
+import { Registry, ResolveIdRegistry } from '../common/registry';
 import { ConfigActionCreator, ConfigRequestSender } from '../config';
-import { getConfig } from '../config/configs.mock';
+import { getConfig, getConfigState } from '../config/configs.mock';
 import {
     CouponActionCreator,
     CouponRequestSender,
@@ -46,6 +56,7 @@ import {
     ExtensionActionType,
     ExtensionCommandType,
     ExtensionEventBroadcaster,
+    ExtensionMessage,
     ExtensionMessageType,
     ExtensionMessenger,
     ExtensionQueryType,
@@ -54,11 +65,14 @@ import {
     getExtensions,
     WorkerExtensionMessenger,
 } from '../extension';
+import { ExtensionPermissionDeniedErrorType } from '../extension/errors';
 import { FormFieldsActionCreator, FormFieldsRequestSender } from '../form';
 import { getAddressFormFields, getFormFields } from '../form/form.mock';
 import { CountryActionCreator, CountryRequestSender } from '../geography';
 import { getCountriesResponseBody } from '../geography/countries.mock';
+import StoredCardHostedFormService from '../hosted-form/stored-card-hosted-form-service';
 import { OrderActionCreator, OrderRequestSender } from '../order';
+import { OrderFinalizationNotRequiredError } from '../order/errors';
 import { getCompleteOrderResponseBody, getOrderRequestBody } from '../order/internal-orders.mock';
 import { getOrder } from '../order/orders.mock';
 import {
@@ -87,7 +101,9 @@ import {
     getPaymentMethods,
 } from '../payment/payment-methods.mock';
 import { PaymentStrategyActionType } from '../payment/payment-strategy-actions';
+import PendingPaymentStorage from '../payment/pending-payment-storage';
 import { createPaymentIntegrationService } from '../payment-integration';
+import { ConnectivityQueue, RequestRetrier } from '../request-retry';
 import {
     ConsignmentActionCreator,
     ConsignmentActionType,
@@ -99,8 +115,9 @@ import {
     ShippingCountryRequestSender,
     ShippingStrategyActionCreator,
 } from '../shipping';
+import { getConsignment } from '../shipping/consignments.mock';
 import { getShippingAddress } from '../shipping/shipping-addresses.mock';
-import { getShippingOptions } from '../shipping/shipping-options.mock';
+import { getShippingOption, getShippingOptions } from '../shipping/shipping-options.mock';
 import { ShippingStrategyActionType } from '../shipping/shipping-strategy-actions';
 import { SignInEmailActionCreator, SignInEmailRequestSender } from '../signin-email';
 import {
@@ -110,6 +127,12 @@ import {
     SpamProtectionOptions,
     SpamProtectionRequestSender,
 } from '../spam-protection';
+import {
+    CheckoutStateSnapshot,
+    StateSnapshotActionCreator,
+    StateSnapshotMigrator,
+    StateSnapshotter,
+} from '../state-snapshot';
 import { StoreCreditActionCreator, StoreCreditRequestSender } from '../store-credit';
 import { SubscriptionsActionCreator, SubscriptionsRequestSender } from '../subscription';
 
@@ -134,6 +157,11 @@ describe('CheckoutService', () => {
     let b2bPaymentsRefreshRequestSender: B2BPaymentsRefreshRequestSender;
     let b2bPostOrderActionCreator: B2BPostOrderActionCreator;
     let b2bPostOrderRequestSender: B2BPostOrderRequestSender;
+    let requestRetrier: RequestRetrier;
+    let stateSnapshotter: StateSnapshotter;
+    let checkoutEventEmitter: CheckoutEventEmitter;
+    let coalescingRequestSender: CoalescingRequestSender;
+    let addressLookupProviderRegistry: Registry<AddressLookupProvider>;
     let billingAddressActionCreator: BillingAddressActionCreator;
     let billingAddressRequestSender: BillingAddressRequestSender;
     let checkoutActionCreator: CheckoutActionCreator;
@@ -144,6 +172,7 @@ describe('CheckoutService', () => {
     let consignmentActionCreator: ConsignmentActionCreator;
     let checkoutRequestSender: CheckoutRequestSender;
     let checkoutService: CheckoutService;
+    let errorLogger: ErrorLogger;
     let checkoutValidator: CheckoutValidator;
     let configActionCreator: ConfigActionCreator;
     let configRequestSender: ConfigRequestSender;
@@ -180,7 +209,12 @@ describe('CheckoutService', () => {
     let extensionEventBroadcaster: ExtensionEventBroadcaster;
 
     beforeEach(() => {
-        store = createCheckoutStore(getCheckoutStoreState());
+        stateSnapshotter = new StateSnapshotter();
+        checkoutEventEmitter = new CheckoutEventEmitter();
+        store = createCheckoutStore(getCheckoutStoreState(), {
+            stateSnapshotter,
+            checkoutEventEmitter,
+        });
         storeProjection = createDataStoreProjection(store, createCheckoutSelectorsFactory());
 
         workerExtensionMessenger = new WorkerExtensionMessenger();
@@ -190,6 +224,9 @@ describe('CheckoutService', () => {
         const requestSender = createRequestSender();
         const paymentClient = createPaymentClient(store);
 
+        coalescingRequestSender = new CoalescingRequestSender(requestSender);
+        addressLookupProviderRegistry = createAddressLookupProviderRegistry();
+
         instrumentRequestSender = new InstrumentRequestSender(paymentClient, requestSender);
 
         jest.spyOn(instrumentRequestSender, 'getVaultAccessToken').mockResolvedValue(
@@ -423,6 +460,8 @@ describe('CheckoutService', () => {
 
         b2bPostOrderActionCreator = new B2BPostOrderActionCreator(b2bPostOrderRequestSender);
 
+        requestRetrier = new RequestRetrier(new ConnectivityQueue());
+
         paymentStrategyActionCreator = new PaymentStrategyActionCreator(
             paymentStrategyRegistry,
             paymentStrategyRegistryV2,
@@ -437,6 +476,8 @@ describe('CheckoutService', () => {
 
         errorActionCreator = new ErrorActionCreator();
 
+        errorLogger = { log: jest.fn() };
+
         extensionEventBroadcaster = createExtensionEventBroadcaster(
             storeProjection,
             extensionMessenger,
@@ -481,6 +522,14 @@ describe('CheckoutService', () => {
             workerExtensionMessenger,
             b2bPaymentsRefreshActionCreator,
             b2bPostOrderActionCreator,
+            requestRetrier,
+            stateSnapshotter,
+            new StateSnapshotActionCreator(new StateSnapshotMigrator()),
+            checkoutEventEmitter,
+            coalescingRequestSender,
+            addressLookupProviderRegistry,
+            undefined,
+            errorLogger,
         );
     });
 
@@ -614,6 +663,14 @@ describe('CheckoutService', () => {
 
             expect(state.data.getCheckout()).toEqual(store.getState().checkout.getCheckout());
         });
+
+        it('logs error if unable to load checkout', async () => {
+            jest.spyOn(checkoutRequestSender, 'loadCheckout').mockRejectedValue(getErrorResponse());
+
+            await expect(checkoutService.loadCheckout(id)).rejects.toBeInstanceOf(Error);
+
+            expect(errorLogger.log).toHaveBeenCalledWith(expect.any(Error));
+        });
     });
 
     describe('#sendSignInEmail()', () => {
@@ -910,6 +967,36 @@ describe('CheckoutService', () => {
         });
     });
 
+    describe('#resumePayment()', () => {
+        afterEach(() => {
+            new PendingPaymentStorage().removePendingPayment();
+        });
+
+        it('resumes pending payment using its payment strategy', async () => {
+            new PendingPaymentStorage().setPendingPayment({
+                methodId: getAuthorizenet().id,
+                createdAt: Date.now(),
+            });
+
+            await checkoutService.loadCheckout();
+            await checkoutService.loadPaymentMethods();
+            await checkoutService.resumePayment();
+
+            expect(paymentStrategy.finalize).toHaveBeenCalledWith({
+                methodId: getAuthorizenet().id,
+            });
+        });
+
+        it('throws error if there is no pending payment', async () => {
+            await checkoutService.loadCheckout();
+            await checkoutService.loadPaymentMethods();
+
+            await expect(checkoutService.resumePayment()).rejects.toBeInstanceOf(
+                OrderFinalizationNotRequiredError,
+            );
+        });
+    });
+
     describe('#loadPaymentMethods()', () => {
         it('loads payment methods', async () => {
             const options = {
@@ -1329,6 +1416,32 @@ describe('CheckoutService', () => {
         });
     });
 
+    describe('#planConsignments()', () => {
+        it('dispatches action to plan consignments', async () => {
+            const options = { timeout: createTimeout(), onProgress: jest.fn() };
+            const allocations = [
+                { address: getShippingAddress(), lineItems: [{ itemId: 'item-foo', quantity: 2 }] },
+            ];
+            const action = () =>
+                of(createAction(ConsignmentActionType.CreateConsignmentsRequested));
+
+            jest.spyOn(consignmentActionCreator, 'planConsignments').mockReturnValue(action);
+
+            jest.spyOn(store, 'dispatch');
+
+            await checkoutService.planConsignments(allocations, options);
+
+            expect(consignmentActionCreator.planConsignments).toHaveBeenCalledWith(
+                allocations,
+                options,
+            );
+
+            expect(store.dispatch).toHaveBeenCalledWith(action, {
+                queueId: 'shippingStrategy',
+            });
+        });
+    });
+
     describe('#createConsignments()', () => {
         it('dispatches action to create consignments', async () => {
             const consignments = [
@@ -1379,6 +1492,63 @@ describe('CheckoutService', () => {
                 queueId: 'shippingStrategy',
             });
         });
+
+        describe('when shipping option policy is provided', () => {
+            const express = {
+                ...getShippingOption(),
+                id: 'express',
+                isRecommended: false,
+                costAfterDiscount: 20,
+                transitTime: '1 day',
+            };
+
+            beforeEach(() => {
+                jest.spyOn(checkoutService, 'selectConsignmentShippingOption').mockResolvedValue(
+                    checkoutService.getState(),
+                );
+            });
+
+            it('selects option matching policy if available options change', async () => {
+                jest.spyOn(shippingStrategyActionCreator, 'updateAddress').mockReturnValue(
+                    async () => {
+                        await store.dispatch(
+                            createAction(ConsignmentActionType.UpdateConsignmentSucceeded, {
+                                ...getCheckout(),
+                                consignments: [
+                                    {
+                                        ...getConsignment(),
+                                        availableShippingOptions: [getShippingOption(), express],
+                                    },
+                                ],
+                            }),
+                        );
+
+                        return createAction(ShippingStrategyActionType.UpdateAddressSucceeded);
+                    },
+                );
+
+                await checkoutService.updateShippingAddress(getShippingAddress(), {
+                    shippingOptionPolicy: 'fastest',
+                });
+
+                expect(checkoutService.selectConsignmentShippingOption).toHaveBeenCalledWith(
+                    getConsignment().id,
+                    'express',
+                );
+            });
+
+            it('does not select option if available options do not change', async () => {
+                jest.spyOn(shippingStrategyActionCreator, 'updateAddress').mockReturnValue(() =>
+                    of(createAction(ShippingStrategyActionType.UpdateAddressRequested)),
+                );
+
+                await checkoutService.updateShippingAddress(getShippingAddress(), {
+                    shippingOptionPolicy: 'fastest',
+                });
+
+                expect(checkoutService.selectConsignmentShippingOption).not.toHaveBeenCalled();
+            });
+        });
     });
 
     describe('#selectShippingOption()', () => {
@@ -1416,6 +1586,141 @@ describe('CheckoutService', () => {
                 options,
             );
         });
+
+        it('wraps the update with the request retrier', async () => {
+            const options = { timeout: createTimeout() };
+
+            jest.spyOn(requestRetrier, 'retry');
+
+            await checkoutService.updateBillingAddress(getBillingAddress(), options);
+
+            expect(requestRetrier.retry).toHaveBeenCalledWith(
+                'updateBillingAddress',
+                expect.any(Function),
+                options.timeout,
+            );
+        });
+    });
+
+    describe('#getAddressSuggestions()', () => {
+        beforeEach(() => {
+            checkoutService.registerAddressLookupProvider(
+                'in-memory',
+                () =>
+                    new InMemoryAddressLookupProvider([
+                        {
+                            id: 'address-1',
+                            label: '12345 Testing Way, Some City',
+                            address: getShippingAddress(),
+                        },
+                    ]),
+            );
+        });
+
+        it('returns suggestions from provider', async () => {
+            expect(
+                await checkoutService.getAddressSuggestions('testing', {
+                    providerId: 'in-memory',
+                    countryCode: 'US',
+                }),
+            ).toEqual([
+                { id: 'address-1', label: '12345 Testing Way, Some City', description: undefined },
+            ]);
+        });
+
+        it('rejects if provider is not registered', async () => {
+            await expect(
+                checkoutService.getAddressSuggestions('testing', { providerId: 'foobar' }),
+            ).rejects.toBeInstanceOf(InvalidArgumentError);
+        });
+    });
+
+    describe('#applyAddressSuggestion()', () => {
+        const address = {
+            address1: '1 New Street',
+            city: 'New City',
+            postalCode: '12345',
+        };
+
+        beforeEach(() => {
+            checkoutService.registerAddressLookupProvider(
+                'in-memory',
+                () =>
+                    new InMemoryAddressLookupProvider([
+                        { id: 'address-1', label: '12345 Testing Way', address },
+                    ]),
+            );
+
+            jest.spyOn(checkoutService, 'updateShippingAddress').mockResolvedValue(
+                checkoutService.getState(),
+            );
+            jest.spyOn(checkoutService, 'updateBillingAddress').mockResolvedValue(
+                checkoutService.getState(),
+            );
+        });
+
+        it('applies resolved address to shipping address', async () => {
+            await checkoutService.applyAddressSuggestion('address-1', {
+                providerId: 'in-memory',
+                target: 'shipping',
+            });
+
+            expect(checkoutService.updateShippingAddress).toHaveBeenCalledWith(
+                expect.objectContaining(address),
+                {},
+            );
+            expect(checkoutService.updateBillingAddress).not.toHaveBeenCalled();
+        });
+
+        it('keeps contact details and clears other parts of current address', async () => {
+            await checkoutService.applyAddressSuggestion('address-1', {
+                providerId: 'in-memory',
+                target: 'shipping',
+            });
+
+            expect(checkoutService.updateShippingAddress).toHaveBeenCalledWith(
+                {
+                    firstName: getShippingAddress().firstName,
+                    lastName: getShippingAddress().lastName,
+                    phone: getShippingAddress().phone,
+                    customFields: getShippingAddress().customFields,
+                    company: '',
+                    address1: '1 New Street',
+                    address2: '',
+                    city: 'New City',
+                    stateOrProvince: '',
+                    stateOrProvinceCode: '',
+                    countryCode: '',
+                    postalCode: '12345',
+                },
+                {},
+            );
+        });
+
+        it('applies resolved address to billing address', async () => {
+            const options = { timeout: createTimeout() };
+
+            await checkoutService.applyAddressSuggestion('address-1', {
+                ...options,
+                providerId: 'in-memory',
+                target: 'billing',
+            });
+
+            expect(checkoutService.updateBillingAddress).toHaveBeenCalledWith(
+                expect.objectContaining({ ...address, email: getBillingAddress().email }),
+                options,
+            );
+            expect(checkoutService.updateShippingAddress).not.toHaveBeenCalled();
+        });
+
+        it('rejects if suggestion cannot be resolved', async () => {
+            await expect(
+                checkoutService.applyAddressSuggestion('foobar', {
+                    providerId: 'in-memory',
+                    target: 'shipping',
+                }),
+            ).rejects.toBeInstanceOf(InvalidArgumentError);
+        });
     });
 
     describe('#applyStoreCredit()', () => {
@@ -1457,6 +1762,34 @@ describe('CheckoutService', () => {
         });
     });
 
+    describe('#on()', () => {
+        it('notifies listener when coupon is applied', async () => {
+            const listener = jest.fn();
+
+            checkoutService.on('couponApplied', listener);
+
+            const state = await checkoutService.applyCoupon('myCoupon1234');
+
+            expect(listener).toHaveBeenCalledWith(
+                expect.objectContaining({
+                    type: 'couponApplied',
+                    next: state.data.getCoupons(),
+                }),
+            );
+        });
+
+        it('stops notifying listener once it is removed', async () => {
+            const listener = jest.fn();
+            const removeListener = checkoutService.on('couponApplied', listener);
+
+            removeListener();
+
+            await checkoutService.applyCoupon('myCoupon1234');
+
+            expect(listener).not.toHaveBeenCalled();
+        });
+    });
+
     describe('#removeCoupon()', () => {
         it('removes a coupon', async () => {
             const code = 'myCoupon1234';
@@ -1544,6 +1877,122 @@ describe('CheckoutService', () => {
         });
     });
 
+    describe('#setDefaultInstrument()', () => {
+        it('sets an instrument as default', async () => {
+            const instrumentId = '456';
+            const updateAction = () =>
+                of(
+                    createAction(InstrumentActionType.UpdateInstrumentRequested, undefined, {
+                        instrumentId,
+                    }),
+                );
+
+            jest.spyOn(instrumentActionCreator, 'updateInstrument').mockReturnValue(updateAction);
+            jest.spyOn(instrumentActionCreator, 'loadInstruments').mockReturnValue(() =>
+                of(createAction(InstrumentActionType.LoadInstrumentsRequested)),
+            );
+            jest.spyOn(store, 'dispatch');
+
+            await checkoutService.setDefaultInstrument(instrumentId);
+
+            expect(instrumentActionCreator.updateInstrument).toHaveBeenCalledWith(instrumentId, {
+                defaultInstrument: true,
+            });
+            expect(store.dispatch).toHaveBeenCalledWith(updateAction, undefined);
+            expect(instrumentActionCreator.loadInstruments).toHaveBeenCalled();
+        });
+    });
+
+    describe('#renameInstrument()', () => {
+        it('changes nickname of an instrument', async () => {
+            const instrumentId = '456';
+            const updateAction = () =>
+                of(
+                    createAction(InstrumentActionType.UpdateInstrumentRequested, undefined, {
+                        instrumentId,
+                    }),
+                );
+
+            jest.spyOn(instrumentActionCreator, 'updateInstrument').mockReturnValue(updateAction);
+            jest.spyOn(instrumentActionCreator, 'loadInstruments').mockReturnValue(() =>
+                of(createAction(InstrumentActionType.LoadInstrumentsRequested)),
+            );
+            jest.spyOn(store, 'dispatch');
+
+            await checkoutService.renameInstrument(instrumentId, 'Work card');
+
+            expect(instrumentActionCreator.updateInstrument).toHaveBeenCalledWith(instrumentId, {
+                nickname: 'Work card',
+            });
+            expect(store.dispatch).toHaveBeenCalledWith(updateAction, undefined);
+            expect(instrumentActionCreator.loadInstruments).toHaveBeenCalled();
+        });
+    });
+
+    describe('#vaultInstrument()', () => {
+        it('vaults an instrument', async () => {
+            const hostedFormService = {} as StoredCardHostedFormService;
+            const fields = {
+                address1: '12345 Testing Way',
+                city: 'Some City',
+                postalCode: '95555',
+                countryCode: 'US',
+                firstName: 'Test',
+                lastName: 'Tester',
+                email: 'test@bigcommerce.com',
+                defaultInstrument: false,
+            };
+            const vaultAction = () =>
+                of(createAction(InstrumentActionType.VaultInstrumentRequested));
+
+            jest.spyOn(instrumentActionCreator, 'vaultInstrument').mockReturnValue(vaultAction);
+            jest.spyOn(instrumentActionCreator, 'loadInstruments').mockReturnValue(() =>
+                of(createAction(InstrumentActionType.LoadInstrumentsRequested)),
+            );
+            jest.spyOn(store, 'dispatch');
+
+            await checkoutService.vaultInstrument(hostedFormService, 'braintree', fields);
+
+            expect(instrumentActionCreator.vaultInstrument).toHaveBeenCalledWith(
+                hostedFormService,
+                'braintree',
+                fields,
+            );
+            expect(store.dispatch).toHaveBeenCalledWith(vaultAction, undefined);
+            expect(instrumentActionCreator.loadInstruments).toHaveBeenCalled();
+        });
+    });
+
+    describe('#updateInstrumentExpiry()', () => {
+        it('updates expiry date of an instrument', async () => {
+            const hostedFormService = {} as StoredCardHostedFormService;
+            const instrumentId = '456';
+            const updateAction = () =>
+                of(
+                    createAction(InstrumentActionType.UpdateInstrumentRequested, undefined, {
+                        instrumentId,
+                    }),
+                );
+
+            jest.spyOn(instrumentActionCreator, 'updateInstrumentExpiry').mockReturnValue(
+                updateAction,
+            );
+            jest.spyOn(instrumentActionCreator, 'loadInstruments').mockReturnValue(() =>
+                of(createAction(InstrumentActionType.LoadInstrumentsRequested)),
+            );
+            jest.spyOn(store, 'dispatch');
+
+            await checkoutService.updateInstrumentExpiry(hostedFormService, instrumentId);
+
+            expect(instrumentActionCreator.updateInstrumentExpiry).toHaveBeenCalledWith(
+                hostedFormService,
+                instrumentId,
+            );
+            expect(store.dispatch).toHaveBeenCalledWith(updateAction, undefined);
+            expect(instrumentActionCreator.loadInstruments).toHaveBeenCalled();
+        });
+    });
+
     describe('#clearError()', () => {
         it('dispatches "clear error" action', () => {
             jest.spyOn(errorActionCreator, 'clearError');
@@ -1556,6 +2005,114 @@ describe('CheckoutService', () => {
         });
     });
 
+    describe('#exportActionLog()', () => {
+        it('throws error if action recording is not enabled', () => {
+            expect(() => checkoutService.exportActionLog()).toThrow(NotInitializedError);
+        });
+    });
+
+    describe('#invalidateRequestCache()', () => {
+        it('invalidates cached requests matching URL', () => {
+            jest.spyOn(coalescingRequestSender, 'invalidate');
+
+            checkoutService.invalidateRequestCache('/api/storefront/payments');
+
+            expect(coalescingRequestSender.invalidate).toHaveBeenCalledWith(
+                '/api/storefront/payments',
+            );
+        });
+    });
+
+    describe('#transaction()', () => {
+        it('performs operations and notifies subscribers once', async () => {
+            const subscriber = jest.fn();
+            const address = { ...getBillingAddress(), city: 'Sydney' };
+
+            checkoutService.subscribe(subscriber);
+            subscriber.mockReset();
+
+            await checkoutService.transaction(async (tx) => {
+                await tx.updateBillingAddress(address);
+                await tx.applyStoreCredit(true);
+            });
+
+            expect(billingAddressRequestSender.updateAddress).toHaveBeenCalledWith(
+                getCheckout().id,
+                address,
+                {},
+            );
+            expect(storeCreditRequestSender.applyStoreCredit).toHaveBeenCalled();
+            expect(subscriber).toHaveBeenCalledTimes(1);
+        });
+
+        it('restores previous billing address if operation fails', async () => {
+            const address = { ...getBillingAddress(), city: 'Sydney' };
+
+            jest.spyOn(storeCreditRequestSender, 'applyStoreCredit').mockRejectedValueOnce(
+                getErrorResponse(),
+            );
+
+            await expect(
+                checkoutService.transaction(async (tx) => {
+                    await tx.updateBillingAddress(address);
+                    await tx.applyStoreCredit(true);
+                }),
+            ).rejects.toBeInstanceOf(CheckoutTransactionError);
+
+            expect(billingAddressRequestSender.updateAddress).toHaveBeenLastCalledWith(
+                getCheckout().id,
+                getBillingAddress(),
+                {},
+            );
+        });
+
+        it('resumes notifications if operation fails', async () => {
+            const subscriber = jest.fn();
+
+            checkoutService.subscribe(subscriber);
+            subscriber.mockReset();
+
+            await expect(
+                checkoutService.transaction(() => Promise.reject(new Error('Unexpected error'))),
+            ).rejects.toBeInstanceOf(CheckoutTransactionError);
+
+            await checkoutService.updateBillingAddress({ ...getBillingAddress(), city: 'Sydney' });
+
+            expect(subscriber).toHaveBeenCalled();
+        });
+    });
+
+    describe('#exportState()', () => {
+        it('returns snapshot of current checkout state', () => {
+            const snapshot = checkoutService.exportState();
+
+            expect(snapshot.state.cart).toEqual({ data: getCart() });
+            expect(snapshot.state.config).toEqual({
+                data: getConfig(),
+                meta: getConfigState().meta,
+            });
+        });
+    });
+
+    describe('#importState()', () => {
+        it('replaces data of current checkout state with snapshot', async () => {
+            const snapshot = checkoutService.exportState();
+
+            await checkoutService.importState({
+                ...snapshot,
+                state: { ...snapshot.state, cart: { data: { ...getCart(), id: 'foobar' } } },
+            });
+
+            expect(checkoutService.getState().data.getCart()?.id).toBe('foobar');
+        });
+
+        it('throws error if snapshot is malformed', async () => {
+            await expect(
+                checkoutService.importState({ version: 1 } as CheckoutStateSnapshot),
+            ).rejects.toThrow(InvalidArgumentError);
+        });
+    });
+
     describe('#initializeSpamProtection()', () => {
         let options: SpamProtectionOptions;
 
@@ -1658,10 +2215,26 @@ describe('CheckoutService', () => {
             expect(extensionMessenger.clearCacheByRegion).toHaveBeenCalledWith(region);
         });
 
+        it('returns audit log of rejected extension messages', () => {
+            const entries = [
+                {
+                    extensionId: 'xxx',
+                    messageType: ExtensionCommandType.ReloadCheckout,
+                    reason: ExtensionPermissionDeniedErrorType.CommandNotAllowed,
+                    message: 'Not allowed',
+                    timestamp: Date.now(),
+                },
+            ];
+
+            jest.spyOn(extensionMessenger, 'getAuditLogEntries').mockReturnValue(entries);
+
+            expect(checkoutService.getExtensionAuditLog()).toEqual(entries);
+        });
+
         it('posts a message to an extension', async () => {
             jest.spyOn(extensionMessenger, 'post').mockImplementation(() => Promise.resolve());
 
-            const message = {
+            const message: ExtensionMessage = {
                 type: ExtensionMessageType.GetConsignments,
                 payload: {
                     consignments: [],
@@ -1,18 +1,36 @@
 import { Action, ThunkAction } from '@bigcommerce/data-store';
+import { isEqual } from 'lodash';
 import { Observable } from 'rxjs';
 
 import { bindDecorator as bind } from '@bigcommerce/checkout-sdk/utility';
 
+import { ActionLog, ActionRecorder } from '../action-log';
 import { AddressRequestBody } from '../address';
+import {
+    AddressLookupOptions,
+    AddressLookupProvider,
+    AddressSuggestion,
+    AddressSuggestionApplyOptions,
+    mergeAddressSuggestion,
+} from '../address-lookup';
 import { B2BTokenActionCreator } from '../b2b-token';
-import { BillingAddressActionCreator, BillingAddressRequestBody } from '../billing';
+import {
+    BillingAddressActionCreator,
+    BillingAddressRequestBody,
+    BillingAddressRequestOptions,
+} from '../billing';
+import { CheckoutEventEmitter, CheckoutEventListener, CheckoutEventType } from '../checkout-event';
+import { CheckoutTransactionCallback, CheckoutTransactionRunner } from '../checkout-transaction';
 import { DataStoreProjection } from '../common/data-store';
-import { ErrorActionCreator, ErrorMessageTransformer } from '../common/error';
-import { RequestOptions } from '../common/http-request';
+import { ErrorActionCreator, ErrorLogger, ErrorMessageTransformer } from '../common/error';
+import { NotInitializedError, NotInitializedErrorType } from '../common/error/errors';
+import { CoalescingRequestSender, RequestOptions } from '../common/http-request';
+import { Factory, Registry } from '../common/registry';
 import { ConfigActionCreator } from '../config';
 import { CouponActionCreator, GiftCertificateActionCreator } from '../coupon';
 import {
     CustomerAccountRequestBody,
+    CustomerAccountRequestOptions,
     CustomerActionCreator,
     CustomerAddressRequestBody,
     CustomerCredentials,
@@ -24,6 +42,7 @@ import {
 } from '../customer';
 import {
     ExtensionActionCreator,
+    ExtensionAuditLogEntry,
     ExtensionCommandMap,
     ExtensionEventBroadcaster,
     ExtensionMessage,
@@ -34,6 +53,8 @@ import {
 } from '../extension';
 import { FormFieldsActionCreator } from '../form';
 import { CountryActionCreator } from '../geography';
+import StoredCardHostedFormService from '../hosted-form/stored-card-hosted-form-service';
+import { StoredCardHostedFormInstrumentFields } from '../hosted-form/stored-card-hosted-form-type';
 import { OrderActionCreator, OrderRequestBody } from '../order';
 import {
     B2BPaymentsRefreshActionCreator,
@@ -46,20 +67,32 @@ import {
 } from '../payment';
 import { PersistB2BMetadataOptions } from '../payment/b2b-post-order-actions';
 import { InstrumentActionCreator } from '../payment/instrument';
+import { RequestRetrier } from '../request-retry';
 import {
+    Consignment,
     ConsignmentActionCreator,
+    ConsignmentAllocation,
     ConsignmentAssignmentRequestBody,
+    ConsignmentPlanOptions,
     ConsignmentsRequestBody,
+    ConsignmentsRequestOptions,
     ConsignmentUpdateRequestBody,
     PickupOptionActionCreator,
     PickupOptionRequestBody,
+    ShippingAddressRequestOptions,
     ShippingCountryActionCreator,
     ShippingInitializeOptions,
+    ShippingOptionPolicy,
     ShippingRequestOptions,
     ShippingStrategyActionCreator,
 } from '../shipping';
 import { SignInEmailActionCreator, SignInEmailRequestBody } from '../signin-email';
 import { SpamProtectionActionCreator, SpamProtectionOptions } from '../spam-protection';
+import {
+    CheckoutStateSnapshot,
+    StateSnapshotActionCreator,
+    StateSnapshotter,
+} from '../state-snapshot';
 import { StoreCreditActionCreator } from '../store-credit';
 import { Subscriptions, SubscriptionsActionCreator } from '../subscription';
 
@@ -117,6 +150,14 @@ export default class CheckoutService {
         private _workerExtensionMessenger: WorkerExtensionMessenger,
         private _b2bPaymentsRefreshActionCreator: B2BPaymentsRefreshActionCreator,
         private _b2bPostOrderActionCreator: B2BPostOrderActionCreator,
+        private _requestRetrier: RequestRetrier,
+        private _stateSnapshotter: StateSnapshotter,
+        private _stateSnapshotActionCreator: StateSnapshotActionCreator,
+        private _checkoutEventEmitter: CheckoutEventEmitter,
+        private _coalescingRequestSender: CoalescingRequestSender,
+        private _addressLookupProviderRegistry: Registry<AddressLookupProvider>,
+        private _actionRecorder?: ActionRecorder,
+        private _errorLogger?: ErrorLogger,
     ) {
         this._errorTransformer = createCheckoutServiceErrorTransformer();
     }
@@ -189,6 +230,40 @@ export default class CheckoutService {
         return this._storeProjection.subscribe(subscriber, ...filters);
     }
 
+    /**
+     * Listens to a domain event of the checkout.
+     *
+     * Unlike `CheckoutService#subscribe`, which notifies subscribers of any
+     * changes to the checkout state, the method notifies listeners of specific
+     * events, such as when a coupon is applied or an order is submitted. Each
+     * event contains the value affected by it before and after the change.
+     *
+     * ```js
+     * service.on('couponApplied', event => {
+     *     console.log(event.coupon, event.previous, event.next);
+     * });
+     *
+     * service.on('shippingOptionChanged', event => {
+     *     console.log(event.consignmentId, event.previous?.id, event.next?.id);
+     * });
+     * ```
+     *
+     * The listener is called after the checkout state has been updated,
+     * therefore the state returned by `CheckoutService#getState` is consistent
+     * with the event.
+     *
+     * @alpha
+     * @param type - The type of the event to listen to.
+     * @param listener - The function to call when the event occurs.
+     * @returns A function, if called, will remove the listener.
+     */
+    on<TType extends CheckoutEventType>(
+        type: TType,
+        listener: CheckoutEventListener<TType>,
+    ): () => void {
+        return this._checkoutEventEmitter.on(type, listener);
+    }
+
     /**
      * Hydrates the checkout service with an initial state.
      *
@@ -213,6 +288,128 @@ export default class CheckoutService {
         return this._dispatch(this._checkoutActionCreator.hydrateInitialState(state));
     }
 
+    /**
+     * Exports a serializable snapshot of the current checkout state.
+     *
+     * Unlike `CheckoutService#hydrateInitialState`, which only accepts a
+     * subset of the state, the snapshot contains all the data that has been
+     * loaded, such as consignments, payment methods, instruments, countries
+     * and pickup options. It can be rendered on the server or persisted
+     * before the page reloads, and then imported using
+     * `CheckoutService#importState`. Errors and statuses are not included.
+     * Neither are credentials, such as the vault access token of instruments
+     * or the session of payment methods; they are requested again when they
+     * are needed after the snapshot is imported.
+     *
+     * ```js
+     * const snapshot = service.exportState();
+     *
+     * sessionStorage.setItem('checkoutState', JSON.stringify(snapshot));
+     * ```
+     *
+     * @alpha
+     * @returns A serializable snapshot of the current checkout state.
+     */
+    exportState(): CheckoutStateSnapshot {
+        return this._stateSnapshotter.createSnapshot();
+    }
+
+    /**
+     * Imports a snapshot of the checkout state previously exported using
+     * `CheckoutService#exportState`.
+     *
+     * Snapshots created by an older version of the SDK are migrated to the
+     * current version of the schema before they are imported. The method
+     * rejects with an `InvalidArgumentError` if the snapshot is malformed or
+     * has been created by a newer version of the SDK.
+     *
+     * ```js
+     * const snapshot = JSON.parse(sessionStorage.getItem('checkoutState'));
+     * const state = await service.importState(snapshot);
+     *
+     * console.log(state.data.getConsignments());
+     * ```
+     *
+     * @alpha
+     * @param snapshot - The snapshot to import.
+     * @returns A promise that resolves to the current state.
+     */
+    importState(snapshot: CheckoutStateSnapshot): Promise<CheckoutSelectors> {
+        return this._dispatch(this._stateSnapshotActionCreator.importSnapshot(snapshot));
+    }
+
+    /**
+     * Invalidates the responses of GET requests that have been cached.
+     *
+     * GET requests sent with the same parameters at the same time are
+     * coalesced into one request. If the `requestCache.ttl` option is
+     * provided when the service is created, their responses are also reused
+     * for the given period of time. Any mutation automatically invalidates the
+     * cache, but the method can be used if the data is changed outside of the
+     * checkout, for example, by another browser tab.
+     *
+     * ```js
+     * service.invalidateRequestCache('/api/storefront/payments');
+     *
+     * await service.loadPaymentMethods();
+     * ```
+     *
+     * @alpha
+     * @param url - The URL, or the beginning of the URLs, of the requests to
+     * invalidate. All requests are invalidated if it is not provided.
+     */
+    invalidateRequestCache(url?: string): void {
+        this._coalescingRequestSender.invalidate(url);
+    }
+
+    /**
+     * Performs multiple updates to the current checkout as one unit.
+     *
+     * The operations of the transaction are performed in the order they are
+     * called. Subscribers are notified only once, when the transaction
+     * completes, therefore they never see a partially updated checkout. If any
+     * of the operations fails, the shipping address, shipping options, billing
+     * address and store credit changed by the transaction are restored to the
+     * values they had before the transaction started, and the promise is
+     * rejected with a `CheckoutTransactionError`. To restore the shipping
+     * address, the consignments created by the transaction are deleted, and
+     * the consignments it removed are created again with their line items.
+     * The shipping options of the consignments created again are not
+     * restored.
+     *
+     * ```js
+     * const state = await service.transaction(async tx => {
+     *     await tx.updateShippingAddress(address);
+     *     await tx.selectShippingOption(optionId);
+     *     await tx.updateBillingAddress(address);
+     * });
+     *
+     * console.log(state.data.getCheckout());
+     * ```
+     *
+     * The state returned by `CheckoutService#getState` is only updated once
+     * the transaction completes.
+     *
+     * @alpha
+     * @param callback - The function that performs the operations of the
+     * transaction.
+     * @returns A promise that resolves to the current state.
+     */
+    async transaction(callback: CheckoutTransactionCallback): Promise<CheckoutSelectors> {
+        const snapshot = this._stateSnapshotter.createSnapshot();
+        const resumeNotifications = this._storeProjection.suspendNotifications();
+
+        try {
+            await new CheckoutTransactionRunner(this, () =>
+                this._store.getState().consignments.getConsignments(),
+            ).run(snapshot, callback);
+        } finally {
+            resumeNotifications();
+        }
+
+        return this.getState();
+    }
+
     /**
      * Loads the current checkout.
      *
@@ -261,7 +458,9 @@ export default class CheckoutService {
     ): Promise<CheckoutSelectors> {
         const action = this._checkoutActionCreator.updateCheckout(payload, options);
 
-        return this._dispatch(action);
+        return this._dispatch(
+            this._requestRetrier.retry('updateCheckout', action, options?.timeout),
+        );
     }
 
     /**
@@ -391,6 +590,45 @@ export default class CheckoutService {
         return this._dispatch(action, { queueId: 'paymentStrategy' });
     }
 
+    /**
+     * Resumes a payment once the customer has been redirected back to checkout
+     * from the website of its payment provider, i.e.: after completing a 3DS
+     * challenge or paying using an alternative payment method.
+     *
+     * A pending payment is recorded before the customer is redirected. The
+     * payment is not resumed automatically when checkout is loaded again, so
+     * this method should be called once the payment methods of the checkout
+     * are loaded. It detects the record and completes the payment using the
+     * payment method that initiated the redirect. The record is kept if the
+     * payment fails to resume, so that it can be retried.
+     *
+     * ```js
+     * try {
+     *     await service.resumePayment();
+     *
+     *     window.location.assign('/order-confirmation');
+     * } catch (error) {
+     *     if (error.type === 'payment_cancelled') {
+     *         // The customer has returned without completing the payment
+     *     } else if (error.type !== 'order_finalization_not_required') {
+     *         throw error;
+     *     }
+     * }
+     * ```
+     *
+     * @param options - Options for resuming the payment.
+     * @returns A promise that resolves to the current state.
+     * @throws `OrderFinalizationNotRequiredError` error if there is no payment
+     * to resume.
+     * @throws `PaymentMethodCancelledError` error if the customer has returned
+     * without completing the payment.
+     */
+    resumePayment(options?: OrderFinalizeOptions): Promise<CheckoutSelectors> {
+        const action = this._paymentStrategyActionCreator.resume(options);
+
+        return this._dispatch(action, { queueId: 'paymentStrategy' });
+    }
+
     /**
      * Loads a list of payment methods available for checkout.
      *
@@ -787,6 +1025,10 @@ export default class CheckoutService {
      * of development. Therefore the API is unstable and not ready for public
      * consumption.
      *
+     * If the `shouldValidateFields` option is provided, the account is
+     * validated against the customer account form fields and the promise is
+     * rejected with an `InvalidFormFieldsError` if it is invalid.
+     *
      * @alpha
      * @param customerAccount - The customer account data.
      * @param options - Options for creating customer account.
@@ -794,7 +1036,7 @@ export default class CheckoutService {
      */
     createCustomerAccount(
         customerAccount: CustomerAccountRequestBody,
-        options?: RequestOptions,
+        options?: CustomerAccountRequestOptions,
     ): Promise<CheckoutSelectors> {
         const action = this._customerActionCreator.createCustomer(customerAccount, options);
 
@@ -847,7 +1089,10 @@ export default class CheckoutService {
     ): Promise<CheckoutSelectors> {
         const action = this._subscriptionsActionCreator.updateSubscriptions(subscriptions, options);
 
-        return this._dispatch(action, { queueId: 'subscriptions' });
+        return this._dispatch(
+            this._requestRetrier.retry('updateSubscriptions', action, options?.timeout),
+            { queueId: 'subscriptions' },
+        );
     }
 
     /**
@@ -1057,7 +1302,10 @@ export default class CheckoutService {
     ): Promise<CheckoutSelectors> {
         const action = this._shippingStrategyActionCreator.selectOption(shippingOptionId, options);
 
-        return this._dispatch(action, { queueId: 'shippingStrategy' });
+        return this._dispatch(
+            this._requestRetrier.retry('selectShippingOption', action, options?.timeout),
+            { queueId: 'shippingStrategy' },
+        );
     }
 
     /**
@@ -1073,25 +1321,53 @@ export default class CheckoutService {
      * deselected.
      *
      * You can submit an address that is partially complete. The address does
-     * not get validated until you submit the order.
+     * not get validated until you submit the order, unless the
+     * `shouldValidateFields` option is provided. In that case, the address is
+     * validated against the shipping address form fields and the promise is
+     * rejected with an `InvalidFormFieldsError` if it is invalid.
+     *
+     * If the `shouldValidateAddress` option is provided, the values of the
+     * address are trimmed and its state is resolved to a region of its country
+     * before it is sent, and the promise is rejected with an
+     * `InvalidAddressError` if its postal code or state does not match the
+     * data of its country. Otherwise, the address is sent as provided.
+     *
+     * If the `shippingOptionPolicy` option is provided, the shipping option
+     * matching the policy is selected for every consignment whose list of
+     * available shipping options changes as a result of the update.
      *
      * ```js
-     * const state = await service.updateShippingAddress(address);
+     * const state = await service.updateShippingAddress(address, {
+     *     shippingOptionPolicy: 'cheapest',
+     * });
      *
      * console.log(state.data.getShippingAddress());
+     * console.log(state.data.getSelectedShippingOption());
      * ```
      *
      * @param address - The address to be used for shipping.
      * @param options - Options for updating the shipping address.
      * @returns A promise that resolves to the current state.
      */
-    updateShippingAddress(
+    async updateShippingAddress(
         address: Partial<AddressRequestBody>,
-        options?: ShippingRequestOptions<CheckoutParams>,
+        options?: ShippingAddressRequestOptions<CheckoutParams>,
     ): Promise<CheckoutSelectors> {
+        const previousConsignments = this._store.getState().consignments.getConsignments() || [];
         const action = this._shippingStrategyActionCreator.updateAddress(address, options);
+        const state = await this._dispatch(
+            this._requestRetrier.retry('updateShippingAddress', action, options?.timeout),
+            { queueId: 'shippingStrategy' },
+        );
 
-        return this._dispatch(action, { queueId: 'shippingStrategy' });
+        if (!options?.shippingOptionPolicy) {
+            return state;
+        }
+
+        return this._selectShippingOptionsByPolicy(
+            options.shippingOptionPolicy,
+            previousConsignments,
+        );
     }
 
     /**
@@ -1111,7 +1387,11 @@ export default class CheckoutService {
      * include at least one valid line item.
      *
      * You can submit an address that is partially complete. The address does
-     * not get validated until you submit the order.
+     * not get validated until you submit the order, unless the
+     * `shouldValidateAddress` option is provided. In that case, the addresses
+     * are normalized before they are sent, and the promise is rejected with an
+     * `InvalidAddressError` if the postal code or state of an address does not
+     * match the data of its country.
      *
      * ```js
      * const state = await service.createConsignments(consignments);
@@ -1125,11 +1405,14 @@ export default class CheckoutService {
      */
     createConsignments(
         consignments: ConsignmentsRequestBody,
-        options?: RequestOptions,
+        options?: ConsignmentsRequestOptions,
     ): Promise<CheckoutSelectors> {
         const action = this._consignmentActionCreator.createConsignments(consignments, options);
 
-        return this._dispatch(action, { queueId: 'shippingStrategy' });
+        return this._dispatch(
+            this._requestRetrier.retry('createConsignments', action, options?.timeout),
+            { queueId: 'shippingStrategy' },
+        );
     }
 
     /**
@@ -1148,7 +1431,10 @@ export default class CheckoutService {
     deleteConsignment(consignmentId: string, options?: RequestOptions): Promise<CheckoutSelectors> {
         const action = this._consignmentActionCreator.deleteConsignment(consignmentId, options);
 
-        return this._dispatch(action, { queueId: 'shippingStrategy' });
+        return this._dispatch(
+            this._requestRetrier.retry('deleteConsignment', action, options?.timeout),
+            { queueId: 'shippingStrategy' },
+        );
     }
 
     /**
@@ -1190,7 +1476,10 @@ export default class CheckoutService {
     ): Promise<CheckoutSelectors> {
         const action = this._consignmentActionCreator.updateConsignment(consignment, options);
 
-        return this._dispatch(action, { queueId: 'shippingStrategy' });
+        return this._dispatch(
+            this._requestRetrier.retry('updateConsignment', action, options?.timeout),
+            { queueId: 'shippingStrategy' },
+        );
     }
 
     /**
@@ -1210,7 +1499,10 @@ export default class CheckoutService {
     ): Promise<CheckoutSelectors> {
         const action = this._consignmentActionCreator.assignItemsByAddress(consignment, options);
 
-        return this._dispatch(action, { queueId: 'shippingStrategy' });
+        return this._dispatch(
+            this._requestRetrier.retry('assignItemsToAddress', action, options?.timeout),
+            { queueId: 'shippingStrategy' },
+        );
     }
 
     /**
@@ -1230,7 +1522,55 @@ export default class CheckoutService {
     ): Promise<CheckoutSelectors> {
         const action = this._consignmentActionCreator.unassignItemsByAddress(consignment, options);
 
-        return this._dispatch(action, { queueId: 'shippingStrategy' });
+        return this._dispatch(
+            this._requestRetrier.retry('unassignItemsToAddress', action, options?.timeout),
+            { queueId: 'shippingStrategy' },
+        );
+    }
+
+    /**
+     * Allocates the line items of the cart to multiple shipping addresses.
+     *
+     * Instead of assigning and unassigning items one address at a time, you
+     * can describe the quantities of the line items that should be shipped to
+     * each address. The method compares the allocation with the current
+     * consignments and only creates, updates or deletes the consignments
+     * required to match it. Line items that are not allocated remain
+     * unassigned.
+     *
+     * The promise is rejected with an `InvalidArgumentError` without sending
+     * any request if the allocation contains line items that are not in the
+     * cart, or more items than there are in the cart.
+     *
+     * ```js
+     * const state = await service.planConsignments(
+     *     [
+     *         { address: homeAddress, lineItems: [{ itemId: 'item-1', quantity: 2 }] },
+     *         { address: officeAddress, lineItems: [{ itemId: 'item-2', quantity: 1 }] },
+     *     ],
+     *     {
+     *         onProgress: ({ completed, total }) => console.log(`${completed} of ${total}`),
+     *     },
+     * );
+     *
+     * console.log(state.data.getConsignments());
+     * ```
+     *
+     * @alpha
+     * @param allocations - The line items that should be shipped to each address.
+     * @param options - Options for the consignment requests.
+     * @returns A promise that resolves to the current state.
+     */
+    planConsignments(
+        allocations: ConsignmentAllocation[],
+        options?: ConsignmentPlanOptions,
+    ): Promise<CheckoutSelectors> {
+        const action = this._consignmentActionCreator.planConsignments(allocations, options);
+
+        return this._dispatch(
+            this._requestRetrier.retry('planConsignments', action, options?.timeout),
+            { queueId: 'shippingStrategy' },
+        );
     }
 
     /**
@@ -1242,6 +1582,11 @@ export default class CheckoutService {
      * If a shipping option has an additional cost, the quote for the current
      * order will be adjusted once the option is selected.
      *
+     * If optimistic updates are enabled, the shipping option is selected in the
+     * state before the server responds. The previous selection is restored,
+     * and the promise is rejected with an `OptimisticUpdateRejectedError`, if
+     * the server rejects the change.
+     *
      * ```js
      * const state = await service.selectConsignmentShippingOption(consignmentId, optionId);
      *
@@ -1267,7 +1612,10 @@ export default class CheckoutService {
             options,
         );
 
-        return this._dispatch(action, { queueId: 'shippingStrategy' });
+        return this._dispatch(
+            this._requestRetrier.retry('selectConsignmentShippingOption', action, options?.timeout),
+            { queueId: 'shippingStrategy' },
+        );
     }
 
     /**
@@ -1277,7 +1625,10 @@ export default class CheckoutService {
      * pay for their order.
      *
      * You can submit an address that is partially complete. The address does
-     * not get validated until you submit the order.
+     * not get validated until you submit the order, unless the
+     * `shouldValidateFields` option is provided. In that case, the address is
+     * validated against the billing address form fields and the promise is
+     * rejected with an `InvalidFormFieldsError` if it is invalid.
      *
      * ```js
      * const state = await service.updateBillingAddress(address);
@@ -1291,11 +1642,103 @@ export default class CheckoutService {
      */
     updateBillingAddress(
         address: Partial<BillingAddressRequestBody>,
-        options: RequestOptions = {},
+        options: BillingAddressRequestOptions = {},
     ): Promise<CheckoutSelectors> {
         const action = this._billingAddressActionCreator.updateAddress(address, options);
 
-        return this._dispatch(action);
+        return this._dispatch(
+            this._requestRetrier.retry('updateBillingAddress', action, options?.timeout),
+        );
+    }
+
+    /**
+     * Registers a provider that can be used to look up addresses, i.e.: an
+     * address autocomplete service.
+     *
+     * ```js
+     * service.registerAddressLookupProvider('acme', () => new AcmeAddressLookupProvider());
+     * ```
+     *
+     * @alpha
+     * @param providerId - The identifier of the provider.
+     * @param factory - A function that returns an instance of the provider.
+     */
+    registerAddressLookupProvider(
+        providerId: string,
+        factory: Factory<AddressLookupProvider>,
+    ): void {
+        this._addressLookupProviderRegistry.register(providerId, factory);
+    }
+
+    /**
+     * Returns the addresses suggested by an address lookup provider for a
+     * partial address entered by the customer.
+     *
+     * ```js
+     * const suggestions = await service.getAddressSuggestions('12 Testing', {
+     *     providerId: 'acme',
+     *     countryCode: 'US',
+     * });
+     *
+     * console.log(suggestions.map(({ label }) => label));
+     * ```
+     *
+     * @alpha
+     * @param query - The partial address entered by the customer.
+     * @param options - Options for looking up addresses.
+     * @returns A promise that resolves to the list of suggestions, or rejects
+     * if the provider is not registered.
+     */
+    getAddressSuggestions(
+        query: string,
+        options: AddressLookupOptions,
+    ): Promise<AddressSuggestion[]> {
+        return Promise.resolve().then(() =>
+            this._addressLookupProviderRegistry
+                .get(options.providerId)
+                .suggest(query, options.countryCode),
+        );
+    }
+
+    /**
+     * Resolves an address suggestion and applies the resulting address to the
+     * shipping or billing address of the current checkout. Only the contact
+     * details of the current address, i.e.: the name and phone number of the
+     * customer, are kept. The other parts of the current address are replaced
+     * by the resolved address, or cleared if it does not provide them.
+     *
+     * ```js
+     * const state = await service.applyAddressSuggestion(suggestion.id, {
+     *     providerId: 'acme',
+     *     target: 'shipping',
+     * });
+     *
+     * console.log(state.data.getShippingAddress());
+     * ```
+     *
+     * @alpha
+     * @param suggestionId - The identifier of the suggestion to apply.
+     * @param options - Options for applying the suggestion.
+     * @returns A promise that resolves to the current state.
+     */
+    async applyAddressSuggestion(
+        suggestionId: string,
+        { providerId, target, ...options }: AddressSuggestionApplyOptions,
+    ): Promise<CheckoutSelectors> {
+        const address = await this._addressLookupProviderRegistry
+            .get(providerId)
+            .resolve(suggestionId);
+        const state = this._store.getState();
+
+        return target === 'billing'
+            ? this.updateBillingAddress(
+                  mergeAddressSuggestion(state.billingAddress.getBillingAddress(), address),
+                  options,
+              )
+            : this.updateShippingAddress(
+                  mergeAddressSuggestion(state.shippingAddress.getShippingAddress(), address),
+                  options,
+              );
     }
 
     /**
@@ -1318,7 +1761,9 @@ export default class CheckoutService {
     ): Promise<CheckoutSelectors> {
         const action = this._storeCreditActionCreator.applyStoreCredit(useStoreCredit, options);
 
-        return this._dispatch(action);
+        return this._dispatch(
+            this._requestRetrier.retry('applyStoreCredit', action, options?.timeout),
+        );
     }
 
     /**
@@ -1328,6 +1773,13 @@ export default class CheckoutService {
      * be adjusted accordingly. The same coupon code cannot be applied more than
      * once.
      *
+     * If optimistic updates are enabled, the coupon code is added to the list
+     * of pending coupon codes, which can be retrieved by calling
+     * `CheckoutStoreSelector#getPendingCouponCodes`, before the server
+     * responds. It is removed from the list once the server responds, and the
+     * promise is rejected with an `OptimisticUpdateRejectedError` if the server
+     * rejects the coupon code.
+     *
      * ```js
      * await service.applyCoupon('COUPON');
      * ```
@@ -1339,7 +1791,7 @@ export default class CheckoutService {
     applyCoupon(code: string, options?: RequestOptions): Promise<CheckoutSelectors> {
         const action = this._couponActionCreator.applyCoupon(code, options);
 
-        return this._dispatch(action);
+        return this._dispatch(this._requestRetrier.retry('applyCoupon', action, options?.timeout));
     }
 
     /**
@@ -1359,7 +1811,7 @@ export default class CheckoutService {
     removeCoupon(code: string, options?: RequestOptions): Promise<CheckoutSelectors> {
         const action = this._couponActionCreator.removeCoupon(code, options);
 
-        return this._dispatch(action);
+        return this._dispatch(this._requestRetrier.retry('removeCoupon', action, options?.timeout));
     }
 
     /**
@@ -1379,7 +1831,9 @@ export default class CheckoutService {
     applyGiftCertificate(code: string, options?: RequestOptions): Promise<CheckoutSelectors> {
         const action = this._giftCertificateActionCreator.applyGiftCertificate(code, options);
 
-        return this._dispatch(action);
+        return this._dispatch(
+            this._requestRetrier.retry('applyGiftCertificate', action, options?.timeout),
+        );
     }
 
     /**
@@ -1399,7 +1853,9 @@ export default class CheckoutService {
     removeGiftCertificate(code: string, options?: RequestOptions): Promise<CheckoutSelectors> {
         const action = this._giftCertificateActionCreator.removeGiftCertificate(code, options);
 
-        return this._dispatch(action);
+        return this._dispatch(
+            this._requestRetrier.retry('removeGiftCertificate', action, options?.timeout),
+        );
     }
 
     /**
@@ -1445,6 +1901,137 @@ export default class CheckoutService {
         return this._dispatch(action).then(() => this.loadInstruments());
     }
 
+    /**
+     * Sets a payment instrument as the default instrument of the customer.
+     *
+     * Once the method has been called successfully, the instrument will be
+     * marked as `defaultInstrument` when retrieved using
+     * `CheckoutStoreSelector#getInstruments`.
+     *
+     * ```js
+     * const state = await service.setDefaultInstrument('123');
+     *
+     * console.log(state.data.getInstruments());
+     * ```
+     *
+     * @param instrumentId - The identifier of the payment instrument to set as default.
+     * @returns A promise that resolves to the current state.
+     */
+    setDefaultInstrument(instrumentId: string): Promise<CheckoutSelectors> {
+        const action = this._instrumentActionCreator.updateInstrument(instrumentId, {
+            defaultInstrument: true,
+        });
+
+        return this._dispatch(action).then(() => this.loadInstruments());
+    }
+
+    /**
+     * Gives a payment instrument a nickname so that it can be recognized by
+     * the customer more easily.
+     *
+     * ```js
+     * const state = await service.renameInstrument('123', 'Work card');
+     *
+     * console.log(state.data.getInstruments());
+     * ```
+     *
+     * @param instrumentId - The identifier of the payment instrument to rename.
+     * @param nickname - The nickname of the payment instrument.
+     * @returns A promise that resolves to the current state.
+     */
+    renameInstrument(instrumentId: string, nickname: string): Promise<CheckoutSelectors> {
+        const action = this._instrumentActionCreator.updateInstrument(instrumentId, {
+            nickname,
+        });
+
+        return this._dispatch(action).then(() => this.loadInstruments());
+    }
+
+    /**
+     * Vaults a card as a payment instrument of the customer without placing
+     * an order.
+     *
+     * The card details are collected using hosted fields, therefore the
+     * hosted form service has to be initialized before calling this method.
+     * The service is owned by the caller: it is not deinitialized by this
+     * method, so it can be reused to retry if vaulting fails, and has to be
+     * deinitialized by the caller once it is no longer needed.
+     *
+     * Only signed-in customers can vault instruments. The method rejects with
+     * `MissingDataError` if the shopper is a guest.
+     *
+     * ```js
+     * const hostedFormService = createStoredCardHostedFormService(host);
+     *
+     * await hostedFormService.initialize(options);
+     *
+     * const state = await service.vaultInstrument(hostedFormService, 'braintree', {
+     *     ...billingAddress,
+     *     defaultInstrument: true,
+     * });
+     *
+     * console.log(state.data.getInstruments());
+     *
+     * hostedFormService.deinitialize();
+     * ```
+     *
+     * @param storedCardHostedFormService - The initialized hosted form service.
+     * @param providerId - The identifier of the payment provider to vault the card with.
+     * @param fields - The billing address and other details of the instrument.
+     * @returns A promise that resolves to the current state.
+     */
+    vaultInstrument(
+        storedCardHostedFormService: StoredCardHostedFormService,
+        providerId: string,
+        fields: StoredCardHostedFormInstrumentFields,
+    ): Promise<CheckoutSelectors> {
+        const action = this._instrumentActionCreator.vaultInstrument(
+            storedCardHostedFormService,
+            providerId,
+            fields,
+        );
+
+        return this._dispatch(action).then(() => this.loadInstruments());
+    }
+
+    /**
+     * Updates the expiry date of a stored card, i.e.: when the card has
+     * expired or is about to expire.
+     *
+     * The new expiry date is collected using hosted fields, therefore the
+     * hosted form service has to be initialized with the card expiry field
+     * before calling this method.
+     *
+     * ```js
+     * const hostedFormService = createStoredCardHostedFormService(host);
+     *
+     * await hostedFormService.initialize({
+     *     fields: {
+     *         cardExpiry: { containerId: 'card-expiry' },
+     *     },
+     * });
+     *
+     * const state = await service.updateInstrumentExpiry(hostedFormService, '123');
+     *
+     * console.log(state.data.getCardInstruments());
+     * ```
+     *
+     * @param storedCardHostedFormService - The initialized hosted form service.
+     * @param instrumentId - The identifier of the card instrument to update.
+     * @returns A promise that resolves to the current state.
+     */
+    updateInstrumentExpiry(
+        storedCardHostedFormService: StoredCardHostedFormService,
+        instrumentId: string,
+    ): Promise<CheckoutSelectors> {
+        const action = this._instrumentActionCreator.updateInstrumentExpiry(
+            storedCardHostedFormService,
+            instrumentId,
+        );
+
+        return this._dispatch(action).then(() => this.loadInstruments());
+    }
+
     /**
      * Clear errors that have been collected from previous calls.
      *
@@ -1582,6 +2169,18 @@ export default class CheckoutService {
     /**
      * Manages the command handler for an extension.
      *
+     * The payload of the command is typed according to its type, for example,
+     * the handler of `ExtensionCommandType.ShowNotification` receives the
+     * message and the severity of the notification.
+     *
+     * ```js
+     * service.handleExtensionCommand(
+     *     extensionId,
+     *     ExtensionCommandType.ShowNotification,
+     *     ({ payload }) => showToast(payload.message, payload.severity),
+     * );
+     * ```
+     *
      * @alpha
      * @param extensionId - The ID of the extension sending the command.
      * @param command - The command to be handled.
@@ -1596,6 +2195,24 @@ export default class CheckoutService {
         return this._extensionMessenger.listenForCommand(extensionId, command, handler);
     }
 
+    /**
+     * Returns the commands, queries and events of checkout extensions that
+     * have been rejected because they are not allowed by the permissions
+     * manifest of the extensions.
+     *
+     * ```js
+     * service.getExtensionAuditLog().forEach(entry => {
+     *     console.warn(entry.extensionId, entry.reason, entry.message);
+     * });
+     * ```
+     *
+     * @alpha
+     * @returns The list of rejections, starting with the oldest.
+     */
+    getExtensionAuditLog(): ExtensionAuditLogEntry[] {
+        return this._extensionMessenger.getAuditLogEntries();
+    }
+
     /**
      * Manages the query handler for an extension.
      *
@@ -1613,6 +2230,69 @@ export default class CheckoutService {
         return this._extensionMessenger.listenForQuery(extensionId, query, handler);
     }
 
+    /**
+     * Exports the actions dispatched during the current session, along with
+     * the state changes they caused.
+     *
+     * Card and address details are redacted from the log. The log can be
+     * replayed against a fresh checkout store using `replayActionLog` in order
+     * to reproduce an issue. Action recording is only available in
+     * development builds and if `shouldRecordActions` is enabled when creating
+     * the checkout service.
+     *
+     * ```js
+     * const service = createCheckoutService({ shouldRecordActions: true });
+     *
+     * console.log(JSON.stringify(service.exportActionLog()));
+     * ```
+     *
+     * @alpha
+     * @returns The log of the actions dispatched during the current session.
+     */
+    exportActionLog(): ActionLog {
+        if (!this._actionRecorder) {
+            throw new NotInitializedError(NotInitializedErrorType.ActionRecorderNotInitialized);
+        }
+
+        return this._actionRecorder.getLog();
+    }
+
+    /**
+     * Selects the shipping option matching a policy for the consignments whose
+     * available shipping options differ from the ones they had previously.
+     * Consignments that already have the matching option selected are left
+     * untouched.
+     */
+    private async _selectShippingOptionsByPolicy(
+        policy: ShippingOptionPolicy,
+        previousConsignments: Consignment[],
+    ): Promise<CheckoutSelectors> {
+        const { consignments } = this._store.getState();
+        const getOptionIds = (consignment?: Consignment) =>
+            (consignment?.availableShippingOptions || []).map(({ id }) => id);
+
+        await (consignments.getConsignments() || []).reduce(async (previous, consignment) => {
+            await previous;
+
+            const previousConsignment = previousConsignments.find(
+                ({ id }) => id === consignment.id,
+            );
+            const option = consignments.getShippingOptionByPolicy(consignment.id, policy);
+
+            if (
+                !option ||
+                option.id === consignment.selectedShippingOption?.id ||
+                isEqual(getOptionIds(previousConsignment), getOptionIds(consignment))
+            ) {
+                return;
+            }
+
+            await this.selectConsignmentShippingOption(consignment.id, option.id);
+        }, Promise.resolve());
+
+        return this.getState();
+    }
+
     /**
      * Dispatches an action through the data store and returns the current state
      * once the action is dispatched.
@@ -1628,7 +2308,11 @@ export default class CheckoutService {
             .dispatch(action, options)
             .then(() => this.getState())
             .catch((error) => {
-                throw this._errorTransformer.transform(error);
+                const transformedError = this._errorTransformer.transform(error);
+
+                this._errorLogger?.log(transformedError);
+
+                throw transformedError;
             });
     }
 }
@@ -62,6 +62,15 @@ export default interface CheckoutStoreErrorSelector {
      */
     getFinalizeOrderError(): Error | undefined;
 
+    /**
+     * Returns an error if unable to resume a payment after the shopper has
+     * returned from the website of its payment provider.
+     *
+     * @param methodId - The identifier of the payment method to filter.
+     * @returns The error object if unable to resume, otherwise undefined.
+     */
+    getResumePaymentError(methodId?: string): Error | undefined;
+
     /**
      * Returns an error if unable to load the current order.
      *
@@ -281,6 +290,21 @@ export default interface CheckoutStoreErrorSelector {
      */
     getDeleteInstrumentError(instrumentId?: string): Error | undefined;
 
+    /**
+     * Returns an error if unable to update a payment instrument.
+     *
+     * @param instrumentId - The identifier of the payment instrument to update.
+     * @returns The error object if unable to update, otherwise undefined.
+     */
+    getUpdateInstrumentError(instrumentId?: string): Error | undefined;
+
+    /**
+     * Returns an error if unable to vault a payment instrument.
+     *
+     * @returns The error object if unable to vault, otherwise undefined.
+     */
+    getVaultInstrumentError(): Error | undefined;
+
     /**
      * Returns an error if unable to load the checkout configuration of a store.
      *
@@ -375,6 +399,7 @@ export function createCheckoutStoreErrorSelectorFactory(): CheckoutStoreErrorSel
             getDeleteCheckoutError: state.checkout.getDeleteError,
             getSubmitOrderError: state.paymentStrategies.getExecuteError,
             getFinalizeOrderError: state.paymentStrategies.getFinalizeError,
+            getResumePaymentError: state.paymentStrategies.getResumeError,
             getLoadOrderError: state.order.getLoadError,
             getLoadCartError: state.cart.getLoadError,
             getLoadBillingCountriesError: state.countries.getLoadError,
@@ -402,6 +427,8 @@ export function createCheckoutStoreErrorSelectorFactory(): CheckoutStoreErrorSel
             getRemoveGiftCertificateError: state.giftCertificates.getRemoveError,
             getLoadInstrumentsError: state.instruments.getLoadError,
             getDeleteInstrumentError: state.instruments.getDeleteError,
+            getUpdateInstrumentError: state.instruments.getUpdateError,
+            getVaultInstrumentError: state.instruments.getVaultError,
             getLoadConfigError: state.config.getLoadError,
             getSignInEmailError: state.signInEmail.getSendError,
             getLoadB2BTokenError: state.b2bToken.getLoadError,
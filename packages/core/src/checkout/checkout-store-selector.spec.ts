@@ -60,6 +60,18 @@ describe('CheckoutStoreSelector', () => {
         );
     });
 
+    it('returns shipping option recommendations of consignment', () => {
+        expect(selector.getShippingOptionRecommendations('55c96cda6f04c')).toEqual(
+            internalSelectors.consignments.getShippingOptionRecommendations('55c96cda6f04c'),
+        );
+    });
+
+    it('returns shipping cost totals', () => {
+        expect(selector.getShippingCostTotals()).toEqual(
+            internalSelectors.consignments.getShippingCostTotals(),
+        );
+    });
+
     it('returns shipping countries', () => {
         expect(selector.getShippingCountries()).toEqual(
             internalSelectors.shippingCountries.getShippingCountries(),
@@ -82,6 +94,12 @@ describe('CheckoutStoreSelector', () => {
         );
     });
 
+    it('returns payment phase', () => {
+        expect(selector.getPaymentPhase('braintree')).toEqual(
+            internalSelectors.paymentStrategies.getPhase('braintree'),
+        );
+    });
+
     it('returns cart', () => {
         expect(selector.getCart()).toEqual(internalSelectors.cart.getCart());
     });
@@ -246,6 +264,12 @@ describe('CheckoutStoreSelector', () => {
         );
     });
 
+    it('returns card instruments', () => {
+        expect(selector.getCardInstruments()).toEqual(
+            internalSelectors.instruments.getCardInstruments(),
+        );
+    });
+
     it('returns flag indicating if payment is submitted', () => {
         expect(selector.isPaymentDataSubmitted('braintree')).toBe(true);
     });
@@ -1,6 +1,8 @@
 import { memoizeOne } from '@bigcommerce/memoize';
 import { omit, values } from 'lodash';
 
+import { PaymentLifecyclePhase } from '@bigcommerce/checkout-sdk/payment-integration-api';
+
 import { Address } from '../address';
 import { BillingAddress } from '../billing';
 import { Cart } from '../cart';
@@ -14,9 +16,16 @@ import { FormField } from '../form';
 import { Country } from '../geography';
 import { Order } from '../order';
 import { PaymentMethod } from '../payment';
-import { CardInstrument, PaymentInstrument } from '../payment/instrument';
+import { CardInstrument, CardInstrumentFilter, PaymentInstrument } from '../payment/instrument';
 import { PaymentProviderCustomer } from '../payment-provider-customer';
-import { Consignment, PickupOptionResult, SearchArea, ShippingOption } from '../shipping';
+import {
+    Consignment,
+    ConsignmentShippingCostTotals,
+    PickupOptionResult,
+    SearchArea,
+    ShippingOption,
+    ShippingOptionRecommendations,
+} from '../shipping';
 import { SignInEmail } from '../signin-email';
 
 import Checkout from './checkout';
@@ -112,6 +121,34 @@ export default interface CheckoutStoreSelector {
      */
     getSelectedShippingOption(): ShippingOption | undefined;
 
+    /**
+     * Gets the cheapest, fastest and recommended shipping options of a
+     * consignment.
+     *
+     * The fastest option is determined by the transit time of the options. If
+     * none of the options is marked as recommended by the store, the cheapest
+     * option is recommended.
+     *
+     * @alpha
+     * @param consignmentId - The identifier of the consignment.
+     * @returns The recommended shipping options if the consignment is found,
+     * otherwise undefined.
+     */
+    getShippingOptionRecommendations(
+        consignmentId: string,
+    ): ShippingOptionRecommendations | undefined;
+
+    /**
+     * Gets the shipping costs of the current checkout, added up across all of
+     * its consignments, including the cost of shipping every consignment with
+     * its cheapest option.
+     *
+     * @alpha
+     * @returns The shipping cost totals if there are consignments, otherwise
+     * undefined.
+     */
+    getShippingCostTotals(): ConsignmentShippingCostTotals | undefined;
+
     /**
      * Gets a list of countries available for shipping.
      *
@@ -163,6 +200,26 @@ export default interface CheckoutStoreSelector {
      */
     getSelectedPaymentMethod(): PaymentMethod | undefined;
 
+    /**
+     * Gets the current phase of the payment lifecycle of a payment method,
+     * i.e.: whether the payment is being submitted, or whether it is waiting
+     * for the shopper to complete a 3DS challenge.
+     *
+     * ```js
+     * service.subscribe(
+     *     state => console.log(state.data.getPaymentPhase('braintree')),
+     *     state => state.data.getPaymentPhase('braintree'),
+     * );
+     * ```
+     *
+     * @param methodId - The identifier of the payment method.
+     * @param gatewayId - The identifier of a payment provider providing the
+     * payment method.
+     * @returns The phase of the payment, or `idle` if the payment strategy of
+     * the payment method is not initialized.
+     */
+    getPaymentPhase(methodId: string, gatewayId?: string): PaymentLifecyclePhase;
+
     /**
      * Gets the available flash messages.
      *
@@ -188,6 +245,15 @@ export default interface CheckoutStoreSelector {
      */
     getCoupons(): Coupon[] | undefined;
 
+    /**
+     * Gets the codes of the coupons that are applied optimistically and are
+     * still waiting to be confirmed by the server. They are not included in
+     * the list of applied coupons until they are confirmed.
+     *
+     * @returns The list of pending coupon codes.
+     */
+    getPendingCouponCodes(): string[];
+
     /**
      * Gets a list of gift certificates that are applied to the current checkout.
      *
@@ -244,6 +310,24 @@ export default interface CheckoutStoreSelector {
     getInstruments(): Instrument[] | undefined;
     getInstruments(paymentMethod: PaymentMethod): PaymentInstrument[] | undefined;
 
+    /**
+     * Gets a list of card instruments associated with the current customer.
+     *
+     * The list can be filtered by the expiry status of the cards, i.e.: to
+     * exclude expired cards or to prompt the customer to update cards that
+     * are expiring soon.
+     *
+     * ```js
+     * const cards = state.data.getCardInstruments({
+     *     expiryStatus: [InstrumentExpiryStatus.Valid, InstrumentExpiryStatus.ExpiringSoon],
+     * });
+     * ```
+     *
+     * @param filter - The criteria to filter the card instruments by.
+     * @returns The list of card instruments if it is loaded, otherwise undefined.
+     */
+    getCardInstruments(filter?: CardInstrumentFilter): CardInstrument[] | undefined;
+
     /**
      * Gets a set of form fields that should be presented in order to create a customer.
      *
@@ -418,6 +502,17 @@ export function createCheckoutStoreSelectorFactory(): CheckoutStoreSelectorFacto
             }),
     );
 
+    const getShippingOptionRecommendations = createSelector(
+        ({ consignments }: InternalCheckoutSelectors) =>
+            consignments.getShippingOptionRecommendations,
+        (getShippingOptionRecommendations) => clone(getShippingOptionRecommendations),
+    );
+
+    const getShippingCostTotals = createSelector(
+        ({ consignments }: InternalCheckoutSelectors) => consignments.getShippingCostTotals,
+        (getShippingCostTotals) => clone(getShippingCostTotals),
+    );
+
     const getShippingCountries = createSelector(
         ({ shippingCountries }: InternalCheckoutSelectors) =>
             shippingCountries.getShippingCountries,
@@ -491,6 +586,11 @@ export function createCheckoutStoreSelectorFactory(): CheckoutStoreSelectorFacto
             }),
     );
 
+    const getPaymentPhase = createSelector(
+        ({ paymentStrategies }: InternalCheckoutSelectors) => paymentStrategies.getPhase,
+        (getPaymentPhase) => clone(getPaymentPhase),
+    );
+
     const getCart = createSelector(
         ({ cart }: InternalCheckoutSelectors) => cart.getCart,
         (getCart) => clone(getCart),
@@ -501,6 +601,11 @@ export function createCheckoutStoreSelectorFactory(): CheckoutStoreSelectorFacto
         (getCoupons) => clone(getCoupons),
     );
 
+    const getPendingCouponCodes = createSelector(
+        ({ coupons }: InternalCheckoutSelectors) => coupons.getPendingCouponCodes,
+        (getPendingCouponCodes) => clone(getPendingCouponCodes),
+    );
+
     const getGiftCertificates = createSelector(
         ({ giftCertificates }: InternalCheckoutSelectors) => giftCertificates.getGiftCertificates,
         (getGiftCertificates) => clone(getGiftCertificates),
@@ -561,6 +666,11 @@ export function createCheckoutStoreSelectorFactory(): CheckoutStoreSelectorFacto
         },
     );
 
+    const getCardInstruments = createSelector(
+        ({ instruments }: InternalCheckoutSelectors) => instruments.getCardInstruments,
+        (getCardInstruments) => clone(getCardInstruments),
+    );
+
     const getCustomerAccountFields = createSelector(
         ({ form }: InternalCheckoutSelectors) => form.getCustomerAccountFields,
         (getCustomerAccountFields) => clone(getCustomerAccountFields),
@@ -647,14 +757,18 @@ export function createCheckoutStoreSelectorFactory(): CheckoutStoreSelectorFacto
             getShippingOptions: getShippingOptions(state),
             getConsignments: getConsignments(state),
             getSelectedShippingOption: getSelectedShippingOption(state),
+            getShippingOptionRecommendations: getShippingOptionRecommendations(state),
+            getShippingCostTotals: getShippingCostTotals(state),
             getShippingCountries: getShippingCountries(state),
             getBillingAddress: getBillingAddress(state),
             getBillingCountries: getBillingCountries(state),
             getPaymentMethods: getPaymentMethods(state),
             getPaymentMethod: getPaymentMethod(state),
             getSelectedPaymentMethod: getSelectedPaymentMethod(state),
+            getPaymentPhase: getPaymentPhase(state),
             getCart: getCart(state),
             getCoupons: getCoupons(state),
+            getPendingCouponCodes: getPendingCouponCodes(state),
             getGiftCertificates: getGiftCertificates(state),
             getCustomer: getCustomer(state),
             isPaymentDataRequired: isPaymentDataRequired(state),
@@ -663,6 +777,7 @@ export function createCheckoutStoreSelectorFactory(): CheckoutStoreSelectorFacto
             getB2BToken: getB2BToken(state),
             getB2BReceiptId: getB2BReceiptId(state),
             getInstruments: getInstruments(state),
+            getCardInstruments: getCardInstruments(state),
             getCustomerAccountFields: getCustomerAccountFields(state),
             getBillingAddressFields: getBillingAddressFields(state),
             getShippingAddressFields: getShippingAddressFields(state),
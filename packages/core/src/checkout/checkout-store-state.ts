@@ -19,6 +19,7 @@ import {
 import { InstrumentState } from '../payment/instrument';
 import { PaymentProviderCustomerState } from '../payment-provider-customer';
 import { RemoteCheckoutState } from '../remote-checkout';
+import { RequestRetryState } from '../request-retry';
 import {
     ConsignmentState,
     PickupOptionState,
@@ -56,6 +57,7 @@ export default interface CheckoutStoreState {
     paymentStrategies: PaymentStrategyState;
     pickupOptions: PickupOptionState;
     remoteCheckout: RemoteCheckoutState;
+    requestRetry: RequestRetryState;
     shippingCountries: ShippingCountryState;
     shippingStrategies: ShippingStrategyState;
     signInEmail: SignInEmailState;
@@ -1016,4 +1016,24 @@ describe('CheckoutStoreStatusSelector', () => {
             expect(selectors.shippingStrategies.isSelectingOption).toHaveBeenCalled();
         });
     });
+
+    describe('#isRetrying()', () => {
+        it('returns true if retrying mutation', () => {
+            jest.spyOn(selectors.requestRetry, 'isRetrying').mockReturnValue(true);
+
+            const statuses = createCheckoutStoreStatusSelector(selectors);
+
+            expect(statuses.isRetrying('updateBillingAddress')).toBe(true);
+            expect(selectors.requestRetry.isRetrying).toHaveBeenCalledWith('updateBillingAddress');
+        });
+
+        it('returns false if not retrying mutation', () => {
+            jest.spyOn(selectors.requestRetry, 'isRetrying').mockReturnValue(false);
+
+            const statuses = createCheckoutStoreStatusSelector(selectors);
+
+            expect(statuses.isRetrying()).toBe(false);
+            expect(selectors.requestRetry.isRetrying).toHaveBeenCalled();
+        });
+    });
 });
@@ -2,6 +2,7 @@ import { memoizeOne } from '@bigcommerce/memoize';
 
 import { createSelector, createShallowEqualSelector } from '../common/selector';
 import { Omit } from '../common/types';
+import { RetryableMethod } from '../request-retry';
 
 import InternalCheckoutSelectors from './internal-checkout-selectors';
 
@@ -63,6 +64,15 @@ export default interface CheckoutStoreStatusSelector {
      */
     isFinalizingOrder(): boolean;
 
+    /**
+     * Checks whether a payment is being resumed after the shopper has
+     * returned from the website of its payment provider.
+     *
+     * @param methodId - The identifier of the payment method to check.
+     * @returns True if a payment is being resumed, otherwise false.
+     */
+    isResumingPayment(methodId?: string): boolean;
+
     /**
      * Checks whether the current order is loading.
      *
@@ -330,6 +340,21 @@ export default interface CheckoutStoreStatusSelector {
      */
     isDeletingInstrument(instrumentId?: string): boolean;
 
+    /**
+     * Checks whether the current customer is updating a payment instrument,
+     * i.e.: setting it as default or changing its nickname.
+     *
+     * @returns True if updating a payment instrument, otherwise false.
+     */
+    isUpdatingInstrument(instrumentId?: string): boolean;
+
+    /**
+     * Checks whether the current customer is vaulting a payment instrument.
+     *
+     * @returns True if vaulting a payment instrument, otherwise false.
+     */
+    isVaultingInstrument(): boolean;
+
     /**
      * Checks whether the checkout configuration of a store is loading.
      *
@@ -397,6 +422,19 @@ export default interface CheckoutStoreStatusSelector {
      * @returns True if pickup options are loading, otherwise false.
      */
     isLoadingPickupOptions(): boolean;
+
+    /**
+     * Checks whether a specific or any checkout mutation is waiting to be
+     * retried after failing because of a network issue.
+     *
+     * A mutation that is waiting to be retried is not reported as updating
+     * until the next attempt is sent. The method returns true if no method
+     * name is provided and at least one mutation is waiting to be retried.
+     *
+     * @param method - The name of the `CheckoutService` method to check.
+     * @returns True if the mutation is waiting to be retried, otherwise false.
+     */
+    isRetrying(method?: RetryableMethod): boolean;
 }
 
 export type CheckoutStoreStatusSelectorFactory = (
@@ -468,15 +506,18 @@ export function createCheckoutStoreStatusSelectorFactory(): CheckoutStoreStatusS
         ({ paymentStrategies }: InternalCheckoutSelectors) => paymentStrategies.isInitializing,
         ({ paymentStrategies }: InternalCheckoutSelectors) => paymentStrategies.isExecuting,
         ({ paymentStrategies }: InternalCheckoutSelectors) => paymentStrategies.isFinalizing,
+        ({ paymentStrategies }: InternalCheckoutSelectors) => paymentStrategies.isResuming,
         ({ paymentStrategies }: InternalCheckoutSelectors) => paymentStrategies.isWidgetInteracting,
-        (isInitializing, isExecuting, isFinalizing, isWidgetInteracting) => (methodId?: string) => {
-            return (
-                isInitializing(methodId) ||
-                isExecuting(methodId) ||
-                isFinalizing(methodId) ||
-                isWidgetInteracting(methodId)
-            );
-        },
+        (isInitializing, isExecuting, isFinalizing, isResuming, isWidgetInteracting) =>
+            (methodId?: string) => {
+                return (
+                    isInitializing(methodId) ||
+                    isExecuting(methodId) ||
+                    isFinalizing(methodId) ||
+                    isResuming(methodId) ||
+                    isWidgetInteracting(methodId)
+                );
+            },
     );
 
     const isSubmittingOrder = createSelector(
@@ -495,6 +536,7 @@ export function createCheckoutStoreStatusSelectorFactory(): CheckoutStoreStatusS
             isExecutingSpamCheck: state.checkout.isExecutingSpamCheck,
             isSubmittingOrder: isSubmittingOrder(state),
             isFinalizingOrder: state.paymentStrategies.isFinalizing,
+            isResumingPayment: state.paymentStrategies.isResuming,
             isLoadingOrder: state.order.isLoading,
             isLoadingCart: state.cart.isLoading,
             isLoadingBillingCountries: state.countries.isLoading,
@@ -527,6 +569,8 @@ export function createCheckoutStoreStatusSelectorFactory(): CheckoutStoreStatusS
             isRemovingGiftCertificate: state.giftCertificates.isRemoving,
             isLoadingInstruments: state.instruments.isLoading,
             isDeletingInstrument: state.instruments.isDeleting,
+            isUpdatingInstrument: state.instruments.isUpdating,
+            isVaultingInstrument: state.instruments.isVaulting,
             isLoadingConfig: state.config.isLoading,
             isSendingSignInEmail: state.signInEmail.isSending,
             isLoadingB2BToken: state.b2bToken.isLoading,
@@ -535,6 +579,7 @@ export function createCheckoutStoreStatusSelectorFactory(): CheckoutStoreStatusS
             isShippingStepPending: isShippingStepPending(state),
             isPaymentStepPending: isPaymentStepPending(state),
             isLoadingPickupOptions: state.pickupOptions.isLoading,
+            isRetrying: state.requestRetry.isRetrying,
         };
 
         return {
@@ -1,5 +1,9 @@
 import { Action, DataStore, ReadableDataStore } from '@bigcommerce/data-store';
 
+import { ActionRecorder } from '../action-log';
+import { CheckoutEventEmitter } from '../checkout-event';
+import { StateSnapshotter } from '../state-snapshot';
+
 import CheckoutStoreState from './checkout-store-state';
 import InternalCheckoutSelectors from './internal-checkout-selectors';
 
@@ -11,4 +15,7 @@ export type ReadableCheckoutStore = ReadableDataStore<InternalCheckoutSelectors>
 
 export interface CheckoutStoreOptions {
     shouldWarnMutation?: boolean;
+    actionRecorder?: ActionRecorder;
+    stateSnapshotter?: StateSnapshotter;
+    checkoutEventEmitter?: CheckoutEventEmitter;
 }
@@ -140,9 +140,10 @@ export function getCheckoutStoreState(): CheckoutStoreState {
         payment: getPaymentState(),
         paymentMethods: getPaymentMethodsState(),
         paymentProviderCustomer: { data: {} },
-        paymentStrategies: { data: {}, errors: {}, statuses: {} },
+        paymentStrategies: { data: {}, errors: {}, phases: {}, statuses: {} },
         pickupOptions: getPickupOptionsState(),
         remoteCheckout: getRemoteCheckoutState(),
+        requestRetry: { data: {}, statuses: {} },
         shippingCountries: getShippingCountriesState(),
         shippingStrategies: { data: {}, errors: {}, statuses: {} },
         subscriptions: { errors: {}, statuses: {} },
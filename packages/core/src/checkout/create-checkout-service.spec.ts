@@ -1,5 +1,6 @@
 import { createRequestSender } from '@bigcommerce/request-sender';
 
+import { NotInitializedError } from '../common/error/errors';
 import { getDefaultLogger, Logger } from '../common/log';
 
 import CheckoutService from './checkout-service';
@@ -36,6 +37,24 @@ describe('createCheckoutService()', () => {
         expect(createRequestSender).toHaveBeenCalledWith({ host });
     });
 
+    it('records actions if enabled in development build', () => {
+        process.env.NODE_ENV = 'development';
+
+        const checkoutService = createCheckoutService({ shouldRecordActions: true });
+
+        expect(checkoutService.exportActionLog().entries).toEqual(
+            expect.arrayContaining([expect.objectContaining({ type: 'INIT' })]),
+        );
+    });
+
+    it('does not record actions in production build', () => {
+        process.env.NODE_ENV = 'production';
+
+        const checkoutService = createCheckoutService({ shouldRecordActions: true });
+
+        expect(() => checkoutService.exportActionLog()).toThrow(NotInitializedError);
+    });
+
     it('throws if production and protocol is not https', () => {
         process.env.NODE_ENV = 'production';
 
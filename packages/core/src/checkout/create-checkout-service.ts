@@ -1,12 +1,19 @@
-import { createRequestSender, RequestSender } from '@bigcommerce/request-sender';
+import { createRequestSender } from '@bigcommerce/request-sender';
 import { createScriptLoader } from '@bigcommerce/script-loader';
 
+import { ActionRecorder } from '../action-log';
+import { createAddressLookupProviderRegistry } from '../address-lookup';
 import { B2BTokenActionCreator, B2BTokenRequestSender } from '../b2b-token';
 import { BillingAddressActionCreator, BillingAddressRequestSender } from '../billing';
+import { CheckoutEventEmitter } from '../checkout-event';
 import { createDataStoreProjection } from '../common/data-store';
 import { ErrorActionCreator, ErrorLogger } from '../common/error';
-import { ExperimentAwareRequestSender } from '../common/http-request';
-import { getDefaultLogger } from '../common/log';
+import {
+    CoalescingRequestSender,
+    ExperimentAwareRequestSender,
+    RequestCacheOptions,
+} from '../common/http-request';
+import { createStructuredLogger, getDefaultLogger, StructuredLoggingOptions } from '../common/log';
 import { getEnvironment } from '../common/utility';
 import { ConfigActionCreator, ConfigRequestSender, ConfigState, ConfigWindow } from '../config';
 import {
@@ -25,6 +32,7 @@ import {
 import {
     createExtensionEventBroadcaster,
     ExtensionActionCreator,
+    ExtensionAuditLog,
     ExtensionMessenger,
     ExtensionRequestSender,
     WorkerExtensionMessenger,
@@ -49,6 +57,7 @@ import {
 } from '../payment';
 import { InstrumentActionCreator, InstrumentRequestSender } from '../payment/instrument';
 import { createPaymentIntegrationService } from '../payment-integration';
+import { ConnectivityQueue, RequestRetrier, RequestRetryOptions } from '../request-retry';
 import {
     ConsignmentActionCreator,
     ConsignmentRequestSender,
@@ -65,6 +74,11 @@ import {
     SpamProtectionActionCreator,
     SpamProtectionRequestSender,
 } from '../spam-protection';
+import {
+    StateSnapshotActionCreator,
+    StateSnapshotMigrator,
+    StateSnapshotter,
+} from '../state-snapshot';
 import { StoreCreditActionCreator, StoreCreditRequestSender } from '../store-credit';
 import { SubscriptionsActionCreator, SubscriptionsRequestSender } from '../subscription';
 
@@ -115,14 +129,36 @@ export default function createCheckoutService(options?: CheckoutServiceOptions):
         errors: {},
         statuses: {},
     };
-    const { locale = '', shouldWarnMutation = true } = options || {};
-    const requestSender = createRequestSender({ host: options && options.host });
-    const store = createCheckoutStore({ config }, { shouldWarnMutation });
+    const {
+        locale = '',
+        shouldWarnMutation = true,
+        shouldRecordActions = false,
+        shouldUseOptimisticUpdates = false,
+    } = options || {};
+    const actionRecorder =
+        shouldRecordActions && getEnvironment() !== 'production' ? new ActionRecorder() : undefined;
+    const stateSnapshotter = new StateSnapshotter();
+    const logger = createStructuredLogger(options?.logging);
+    const checkoutEventEmitter = new CheckoutEventEmitter(logger);
+    const requestSender = new CoalescingRequestSender(
+        createRequestSender({ host: options && options.host }),
+        options?.requestCache,
+    );
+    const store = createCheckoutStore(
+        { config },
+        { shouldWarnMutation, actionRecorder, stateSnapshotter, checkoutEventEmitter },
+    );
+
+    store.subscribe(
+        ({ checkout }) => logger.setContext({ checkoutId: checkout.getCheckout()?.id }),
+        ({ checkout }) => checkout.getCheckout()?.id,
+    );
+
     const experimentRequestSender = new ExperimentAwareRequestSender(requestSender, {
         getBasePath: () => store.getState().config.getStoreConfig()?.links.baseUrl ?? undefined,
         getFeatures: () =>
             store.getState().config.getStoreConfig()?.checkoutSettings?.features ?? {},
-    }) as unknown as RequestSender;
+    });
     const paymentClient = createPaymentClient(store);
     const orderRequestSender = new OrderRequestSender(experimentRequestSender);
     const checkoutRequestSender = new CheckoutRequestSender(experimentRequestSender);
@@ -151,6 +187,7 @@ export default function createCheckoutService(options?: CheckoutServiceOptions):
     const paymentIntegrationService = createPaymentIntegrationService(
         store,
         experimentRequestSender,
+        logger.child('payment-integration'),
     );
 
     // NO_PAYMENT_DATA_REQUIRED must always be available regardless of build mode — it handles
@@ -170,8 +207,16 @@ export default function createCheckoutService(options?: CheckoutServiceOptions):
     const extensionActionCreator = new ExtensionActionCreator(
         new ExtensionRequestSender(experimentRequestSender),
     );
-    const workerExtensionMessenger = new WorkerExtensionMessenger();
-    const extensionMessenger = new ExtensionMessenger(store, workerExtensionMessenger);
+    const extensionAuditLog = new ExtensionAuditLog();
+    const workerExtensionMessenger = new WorkerExtensionMessenger({}, {}, {}, extensionAuditLog);
+    const extensionMessenger = new ExtensionMessenger(
+        store,
+        workerExtensionMessenger,
+        {},
+        {},
+        {},
+        extensionAuditLog,
+    );
     const storeProjection = createDataStoreProjection(store, createCheckoutSelectorsFactory());
 
     return new CheckoutService(
@@ -194,9 +239,13 @@ export default function createCheckoutService(options?: CheckoutServiceOptions):
         new ConsignmentActionCreator(
             new ConsignmentRequestSender(experimentRequestSender),
             checkoutRequestSender,
+            shouldUseOptimisticUpdates,
         ),
         new CountryActionCreator(new CountryRequestSender(experimentRequestSender, { locale })),
-        new CouponActionCreator(new CouponRequestSender(experimentRequestSender)),
+        new CouponActionCreator(
+            new CouponRequestSender(experimentRequestSender),
+            shouldUseOptimisticUpdates,
+        ),
         new CustomerStrategyActionCreator(
             createCustomerStrategyRegistry(store, experimentRequestSender),
             customerRegistryV2,
@@ -218,6 +267,7 @@ export default function createCheckoutService(options?: CheckoutServiceOptions):
             orderActionCreator,
             spamProtectionActionCreator,
             paymentIntegrationService,
+            logger.child('payment'),
         ),
         new PickupOptionActionCreator(new PickupOptionRequestSender(experimentRequestSender)),
         new ShippingCountryActionCreator(
@@ -236,6 +286,14 @@ export default function createCheckoutService(options?: CheckoutServiceOptions):
         workerExtensionMessenger,
         new B2BPaymentsRefreshActionCreator(new B2BPaymentsRefreshRequestSender(requestSender)),
         new B2BPostOrderActionCreator(new B2BPostOrderRequestSender(requestSender)),
+        new RequestRetrier(new ConnectivityQueue(), options?.retry),
+        stateSnapshotter,
+        new StateSnapshotActionCreator(new StateSnapshotMigrator()),
+        checkoutEventEmitter,
+        requestSender,
+        createAddressLookupProviderRegistry(),
+        actionRecorder,
+        options?.errorLogger,
     );
 }
 
@@ -244,5 +302,14 @@ export interface CheckoutServiceOptions {
     host?: string;
     shouldWarnMutation?: boolean;
     externalSource?: string;
+    /**
+     * The logger of the errors thrown by the methods of `CheckoutService`. If
+     * it is not provided, the errors are not logged.
+     */
     errorLogger?: ErrorLogger;
+    logging?: StructuredLoggingOptions;
+    retry?: RequestRetryOptions;
+    shouldRecordActions?: boolean;
+    shouldUseOptimisticUpdates?: boolean;
+    requestCache?: RequestCacheOptions;
 }
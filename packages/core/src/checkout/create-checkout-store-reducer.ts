@@ -1,4 +1,4 @@
-import { Action, combineReducers, Reducer } from '@bigcommerce/data-store';
+import { Action, combineReducers, composeReducers, Reducer } from '@bigcommerce/data-store';
 
 import { b2bTokenReducer } from '../b2b-token';
 import { billingAddressReducer } from '../billing';
@@ -21,6 +21,7 @@ import {
 import { instrumentReducer } from '../payment/instrument';
 import { paymentProviderCustomerReducer } from '../payment-provider-customer';
 import { remoteCheckoutReducer } from '../remote-checkout';
+import { requestRetryReducer } from '../request-retry';
 import {
     consignmentReducer,
     pickupOptionReducer,
@@ -28,6 +29,7 @@ import {
     shippingStrategyReducer,
 } from '../shipping';
 import { signInEmailReducer } from '../signin-email';
+import { stateSnapshotReducer } from '../state-snapshot';
 import { storeCreditReducer } from '../store-credit';
 import { subscriptionsReducer } from '../subscription';
 
@@ -35,7 +37,7 @@ import checkoutReducer from './checkout-reducer';
 import CheckoutStoreState from './checkout-store-state';
 
 export default function createCheckoutStoreReducer(): Reducer<CheckoutStoreState, Action> {
-    return combineReducers({
+    const reducer = combineReducers<CheckoutStoreState, Action>({
         b2bPostOrder: b2bPostOrderReducer,
         b2bToken: b2bTokenReducer,
         billingAddress: billingAddressReducer,
@@ -60,10 +62,13 @@ export default function createCheckoutStoreReducer(): Reducer<CheckoutStoreState
         pickupOptions: pickupOptionReducer,
         paymentProviderCustomer: paymentProviderCustomerReducer,
         remoteCheckout: remoteCheckoutReducer,
+        requestRetry: requestRetryReducer,
         shippingCountries: shippingCountryReducer,
         shippingStrategies: shippingStrategyReducer,
         signInEmail: signInEmailReducer,
         subscriptions: subscriptionsReducer,
         storeCredit: storeCreditReducer,
     });
+
+    return composeReducers(stateSnapshotReducer, reducer);
 }
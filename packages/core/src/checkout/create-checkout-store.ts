@@ -12,14 +12,24 @@ export default function createCheckoutStore(
     initialStoreState: Partial<CheckoutStoreState> = {},
     options?: CheckoutStoreOptions,
 ): CheckoutStore {
+    const { actionRecorder, stateSnapshotter, checkoutEventEmitter, ...storeOptions } =
+        options || {};
     const actionTransformer = createActionTransformer(createRequestErrorFactory());
     const createInternalCheckoutSelectors = createInternalCheckoutSelectorsFactory();
     const stateTransformer = (state: CheckoutStoreState) => createInternalCheckoutSelectors(state);
-    const reducer = createCheckoutStoreReducer();
-
-    return createDataStore(reducer, initialStoreState, {
+    const reducer = [stateSnapshotter, checkoutEventEmitter, actionRecorder].reduce(
+        (result, decorator) => (decorator ? decorator.decorateReducer(result) : result),
+        createCheckoutStoreReducer(),
+    );
+    const store = createDataStore(reducer, initialStoreState, {
         actionTransformer,
         stateTransformer,
-        ...options,
+        ...storeOptions,
     });
+
+    if (checkoutEventEmitter) {
+        checkoutEventEmitter.observe(store);
+    }
+
+    return store;
 }
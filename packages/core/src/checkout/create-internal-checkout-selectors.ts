@@ -20,6 +20,7 @@ import {
 import { createInstrumentSelectorFactory } from '../payment/instrument';
 import { createPaymentProviderCustomerSelectorFactory } from '../payment-provider-customer';
 import { createRemoteCheckoutSelectorFactory } from '../remote-checkout';
+import { createRequestRetrySelectorFactory } from '../request-retry';
 import {
     createConsignmentSelectorFactory,
     createPickupOptionSelectorFactory,
@@ -60,6 +61,7 @@ export function createInternalCheckoutSelectorsFactory(): InternalCheckoutSelect
     const createPickupOptionSelector = createPickupOptionSelectorFactory();
     const createPaymentProviderCustomerSelector = createPaymentProviderCustomerSelectorFactory();
     const createRemoteCheckoutSelector = createRemoteCheckoutSelectorFactory();
+    const createRequestRetrySelector = createRequestRetrySelectorFactory();
     const createShippingAddressSelector = createShippingAddressSelectorFactory();
     const createShippingCountrySelector = createShippingCountrySelectorFactory();
     const createShippingStrategySelector = createShippingStrategySelectorFactory();
@@ -95,6 +97,7 @@ export function createInternalCheckoutSelectorsFactory(): InternalCheckoutSelect
         const paymentStrategies = createPaymentStrategySelector(state.paymentStrategies);
         const pickupOptions = createPickupOptionSelector(state.pickupOptions);
         const remoteCheckout = createRemoteCheckoutSelector(state.remoteCheckout);
+        const requestRetry = createRequestRetrySelector(state.requestRetry);
         const shippingAddress = createShippingAddressSelector(state.consignments);
         const shippingCountries = createShippingCountrySelector(state.shippingCountries);
         const shippingStrategies = createShippingStrategySelector(state.shippingStrategies);
@@ -142,6 +145,7 @@ export function createInternalCheckoutSelectorsFactory(): InternalCheckoutSelect
             paymentStrategies,
             pickupOptions,
             remoteCheckout,
+            requestRetry,
             shippingAddress,
             shippingCountries,
             shippingStrategies,
@@ -19,6 +19,7 @@ import {
 import { InstrumentSelector } from '../payment/instrument';
 import { PaymentProviderCustomerSelector } from '../payment-provider-customer';
 import { RemoteCheckoutSelector } from '../remote-checkout';
+import { RequestRetrySelector } from '../request-retry';
 import {
     ConsignmentSelector,
     PickupOptionSelector,
@@ -57,6 +58,7 @@ export default interface InternalCheckoutSelectors {
     paymentProviderCustomer: PaymentProviderCustomerSelector;
     pickupOptions: PickupOptionSelector;
     remoteCheckout: RemoteCheckoutSelector;
+    requestRetry: RequestRetrySelector;
     shippingAddress: ShippingAddressSelector;
     shippingCountries: ShippingCountrySelector;
     shippingStrategies: ShippingStrategySelector;
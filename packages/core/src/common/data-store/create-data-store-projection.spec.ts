@@ -102,4 +102,46 @@ describe('DataStoreProjection', () => {
 
         expect(subscriber).toHaveBeenCalledTimes(1);
     });
+
+    it('notifies subscriber once with latest state after suspended notifications resume', () => {
+        const projection = createDataStoreProjection(store, transformer);
+        const subscriber = jest.fn();
+
+        projection.subscribe(subscriber);
+        subscriber.mockReset();
+
+        const resume = projection.suspendNotifications();
+
+        store.dispatch({ type: 'MESSAGE', payload: 'first message' });
+        store.dispatch({ type: 'MESSAGE', payload: 'second message' });
+
+        expect(subscriber).not.toHaveBeenCalled();
+        expect(projection.getState()).toEqual({ transformedMessage: 'foobar!' });
+
+        resume();
+        resume();
+
+        expect(subscriber).toHaveBeenCalledTimes(1);
+        expect(subscriber).toHaveBeenCalledWith({ transformedMessage: 'second message!' });
+    });
+
+    it('does not notify subscriber until all suspensions are resumed', () => {
+        const projection = createDataStoreProjection(store, transformer);
+        const subscriber = jest.fn();
+
+        projection.subscribe(subscriber);
+        subscriber.mockReset();
+
+        const resumeOuter = projection.suspendNotifications();
+        const resumeInner = projection.suspendNotifications();
+
+        store.dispatch({ type: 'MESSAGE', payload: 'new message' });
+        resumeInner();
+
+        expect(subscriber).not.toHaveBeenCalled();
+
+        resumeOuter();
+
+        expect(subscriber).toHaveBeenCalledTimes(1);
+    });
 });
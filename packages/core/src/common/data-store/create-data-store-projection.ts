@@ -12,6 +12,13 @@ interface SynchronizeAction<TState> extends Action<TState> {
 export interface DataStoreProjection<TTransformedState>
     extends ReadableDataStore<TTransformedState> {
     notifyState(): void;
+
+    /**
+     * Stops notifying subscribers of changes until the returned function is
+     * called. If the state has changed in the meantime, subscribers are
+     * notified once with the latest state when notifications resume.
+     */
+    suspendNotifications(): () => void;
 }
 
 export default function createDataStoreProjection<TState, TTransformedState = TState>(
@@ -29,14 +36,47 @@ export default function createDataStoreProjection<TState, TTransformedState = TS
         { stateTransformer },
     );
 
+    let suspensionCount = 0;
+    let hasPendingState = false;
+
+    const synchronize = (state: TState) => {
+        projection.dispatch(
+            createAction(ProjectionActionType.Synchronize, state) as SynchronizeAction<TState>,
+        );
+    };
+
     store.subscribe(
         (state) => {
-            projection.dispatch(
-                createAction(ProjectionActionType.Synchronize, state) as SynchronizeAction<TState>,
-            );
+            if (suspensionCount > 0) {
+                hasPendingState = true;
+
+                return;
+            }
+
+            synchronize(state);
         },
         { initial: false },
     );
 
-    return projection;
+    return Object.assign(projection, {
+        suspendNotifications() {
+            let isResumed = false;
+
+            suspensionCount += 1;
+
+            return () => {
+                if (isResumed) {
+                    return;
+                }
+
+                isResumed = true;
+                suspensionCount -= 1;
+
+                if (suspensionCount === 0 && hasPendingState) {
+                    hasPendingState = false;
+                    synchronize(store.getState());
+                }
+            };
+        },
+    });
 }
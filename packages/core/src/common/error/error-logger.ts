@@ -1,10 +1,13 @@
+import { getDefaultLogger, Logger } from '../log';
+
 export interface ErrorLogger {
     log(error: Error): void;
 }
 
 export class DefaultErrorLogger implements ErrorLogger {
+    constructor(private _logger: Logger = getDefaultLogger()) {}
+
     log(error: Error): void {
-        // eslint-disable-next-line no-console
-        console.error(error);
+        this._logger.error(error);
     }
 }
@@ -4,6 +4,7 @@ export { default as InternalRequestError } from './map-from-internal-error-respo
 export { default as MissingDataError, MissingDataErrorType } from './missing-data-error';
 export { default as NotImplementedError } from './not-implemented-error';
 export { default as NotInitializedError, NotInitializedErrorType } from './not-initialized-error';
+export { default as OptimisticUpdateRejectedError } from './optimistic-update-rejected-error';
 export { default as PaymentRequestError } from './map-from-payment-error-response';
 export { default as RequestError } from './request-error';
 export { default as StandardError } from './standard-error';
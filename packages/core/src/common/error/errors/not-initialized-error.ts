@@ -6,6 +6,8 @@ export enum NotInitializedErrorType {
     PaymentNotInitialized,
     ShippingNotInitialized,
     SpamProtectionNotInitialized,
+    ActionRecorderNotInitialized,
+    EmbeddedCheckoutNotAttached,
 }
 
 /**
@@ -36,6 +38,12 @@ function getErrorMessage(type: NotInitializedErrorType): string {
         case NotInitializedErrorType.SpamProtectionNotInitialized:
             return 'Unable to proceed because the checkout spam protection has not been initialized.';
 
+        case NotInitializedErrorType.ActionRecorderNotInitialized:
+            return 'Unable to export the action log because action recording has not been enabled.';
+
+        case NotInitializedErrorType.EmbeddedCheckoutNotAttached:
+            return 'Unable to send the command because the embedded checkout form has not been attached.';
+
         default:
             return 'Unable to proceed because the required component has not been initialized.';
     }
@@ -0,0 +1,20 @@
+import { getResponse } from '../../http-request/responses.mock';
+
+import OptimisticUpdateRejectedError from './optimistic-update-rejected-error';
+
+describe('OptimisticUpdateRejectedError', () => {
+    it('returns error name', () => {
+        const error = new OptimisticUpdateRejectedError();
+
+        expect(error.name).toBe('OptimisticUpdateRejectedError');
+    });
+
+    it('returns error detail of response as message', () => {
+        const error = new OptimisticUpdateRejectedError(
+            getResponse({ detail: 'Coupon has expired.' }, {}, 400),
+        );
+
+        expect(error.message).toBe('Coupon has expired.');
+        expect(error.status).toBe(400);
+    });
+});
@@ -0,0 +1,29 @@
+import { Response } from '@bigcommerce/request-sender';
+
+import RequestError from './request-error';
+
+/**
+ * Throw this error if the server rejects a change that has already been
+ * applied to the checkout state optimistically. By the time the error is
+ * thrown, the predicted state has been rolled back.
+ */
+export default class OptimisticUpdateRejectedError<T = any> extends RequestError<T> {
+    constructor(response?: Response<T>) {
+        super(response, {
+            message:
+                getErrorDetail(response) ||
+                'The change has been reverted because it was rejected by the server.',
+        });
+
+        this.name = 'OptimisticUpdateRejectedError';
+        this.type = 'optimistic_update_rejected';
+    }
+}
+
+function getErrorDetail(response?: Response<unknown>): string | undefined {
+    const body: any = response && response.body;
+
+    if (body && typeof body === 'object' && typeof body.detail === 'string') {
+        return body.detail;
+    }
+}
@@ -0,0 +1,156 @@
+import { createRequestSender, createTimeout, RequestSender } from '@bigcommerce/request-sender';
+
+import CoalescingRequestSender from './coalescing-request-sender';
+import { getErrorResponse, getResponse } from './responses.mock';
+
+describe('CoalescingRequestSender', () => {
+    const url = '/api/storefront/payments';
+    const response = getResponse({});
+
+    let requestSender: RequestSender;
+    let sender: CoalescingRequestSender;
+
+    beforeEach(() => {
+        requestSender = createRequestSender();
+
+        jest.spyOn(requestSender, 'sendRequest').mockResolvedValue(response);
+        jest.spyOn(requestSender, 'get').mockResolvedValue(response);
+        jest.spyOn(requestSender, 'post').mockResolvedValue(response);
+        jest.spyOn(requestSender, 'put').mockResolvedValue(response);
+        jest.spyOn(requestSender, 'patch').mockResolvedValue(response);
+        jest.spyOn(requestSender, 'delete').mockResolvedValue(response);
+
+        sender = new CoalescingRequestSender(requestSender);
+    });
+
+    afterEach(() => {
+        jest.useRealTimers();
+    });
+
+    it('coalesces GET requests that are in flight at same time', async () => {
+        const options = { params: { include: 'cart' } };
+        const responses = await Promise.all([
+            sender.get(url, options),
+            sender.get(url, { params: { include: 'cart' } }),
+        ]);
+
+        expect(requestSender.get).toHaveBeenCalledTimes(1);
+        expect(responses).toEqual([response, response]);
+    });
+
+    it('does not coalesce GET requests with different parameters', async () => {
+        await Promise.all([
+            sender.get(url, { params: { include: 'cart' } }),
+            sender.get(url, { params: { include: 'consignments' } }),
+        ]);
+
+        expect(requestSender.get).toHaveBeenCalledTimes(2);
+    });
+
+    it('does not coalesce GET requests with different headers', async () => {
+        await Promise.all([
+            sender.get(url, { headers: { 'Accept-Language': 'en' } }),
+            sender.get(url, { headers: { 'Accept-Language': 'fr' } }),
+        ]);
+
+        expect(requestSender.get).toHaveBeenCalledTimes(2);
+    });
+
+    it('does not coalesce GET requests sent with timeout', async () => {
+        const timeout = createTimeout();
+
+        await Promise.all([sender.get(url), sender.get(url, { timeout })]);
+
+        expect(requestSender.get).toHaveBeenCalledTimes(2);
+        expect(requestSender.get).toHaveBeenLastCalledWith(url, { timeout });
+    });
+
+    it('does not share GET request sent with timeout with other callers', async () => {
+        const timeout = createTimeout();
+
+        await Promise.all([sender.get(url, { timeout }), sender.get(url)]);
+
+        expect(requestSender.get).toHaveBeenCalledTimes(2);
+    });
+
+    it('sends request again once previous request is completed if there is no TTL', async () => {
+        await sender.get(url);
+        await sender.get(url);
+
+        expect(requestSender.get).toHaveBeenCalledTimes(2);
+    });
+
+    it('sends request again if previous request has failed', async () => {
+        jest.spyOn(requestSender, 'get').mockRejectedValueOnce(getErrorResponse());
+
+        sender = new CoalescingRequestSender(requestSender, { ttl: 1000 });
+
+        await expect(sender.get(url)).rejects.toEqual(getErrorResponse());
+        await expect(sender.get(url)).resolves.toEqual(response);
+
+        expect(requestSender.get).toHaveBeenCalledTimes(2);
+    });
+
+    it('reuses response until TTL expires', async () => {
+        jest.useFakeTimers();
+
+        sender = new CoalescingRequestSender(requestSender, { ttl: 1000 });
+
+        await sender.get(url);
+        await sender.get(url);
+
+        expect(requestSender.get).toHaveBeenCalledTimes(1);
+
+        jest.advanceTimersByTime(1001);
+
+        await sender.get(url);
+
+        expect(requestSender.get).toHaveBeenCalledTimes(2);
+    });
+
+    it('invalidates cached responses when other request is sent', async () => {
+        sender = new CoalescingRequestSender(requestSender, { ttl: 1000 });
+
+        await sender.get(url);
+        await sender.post(url);
+        await sender.get(url);
+
+        expect(requestSender.get).toHaveBeenCalledTimes(2);
+    });
+
+    it('invalidates cached responses matching URL', async () => {
+        sender = new CoalescingRequestSender(requestSender, { ttl: 1000 });
+
+        await sender.get(url);
+        await sender.get('/internalapi/v1/store/countries');
+
+        sender.invalidate('/api/storefront');
+
+        await sender.get(url);
+        await sender.get('/internalapi/v1/store/countries');
+
+        expect(requestSender.get).toHaveBeenCalledTimes(3);
+    });
+
+    it('discards least recently used responses once maximum size is reached', async () => {
+        sender = new CoalescingRequestSender(requestSender, { ttl: 1000, maxSize: 1 });
+
+        await sender.get(url);
+        await sender.get('/internalapi/v1/store/countries');
+        await sender.get(url);
+
+        expect(requestSender.get).toHaveBeenCalledTimes(3);
+    });
+
+    it('coalesces GET requests sent using generic method', async () => {
+        await Promise.all([sender.sendRequest(url), sender.sendRequest(url, { method: 'GET' })]);
+
+        expect(requestSender.get).toHaveBeenCalledTimes(1);
+    });
+
+    it('forwards other requests sent using generic method', async () => {
+        await sender.sendRequest(url, { method: 'POST' });
+
+        expect(requestSender.sendRequest).toHaveBeenCalledWith(url, { method: 'POST' });
+    });
+});
@@ -0,0 +1,158 @@
+import { RequestOptions, RequestSender, Response } from '@bigcommerce/request-sender';
+import { isEqual } from 'lodash';
+
+import { CacheKeyResolver } from '../utility';
+
+import HttpRequestSender from './http-request-sender';
+
+export interface RequestCacheOptions {
+    /**
+     * The time, in milliseconds, for which the response of a GET request is
+     * reused. The responses are not cached by default, in which case only the
+     * requests that are in flight at the same time are coalesced.
+     */
+    ttl?: number;
+
+    /**
+     * The maximum number of GET requests to keep track of. The least recently
+     * used ones are discarded once the limit is reached.
+     */
+    maxSize?: number;
+}
+
+interface RequestCacheEntry {
+    url: string;
+    request: Promise<Response<any>>;
+    expiresAt?: number;
+}
+
+const DEFAULT_MAX_SIZE = 50;
+
+/**
+ * Coalesces GET requests that are sent with the same URL, parameters and
+ * headers while one of them is still in flight, so that only one request is
+ * sent to the server. Optionally, their responses can be reused for a period
+ * of time as well. Requests that are sent with a timeout are never coalesced.
+ *
+ * Any other type of request invalidates the cache because it could change the
+ * data returned by the server.
+ */
+export default class CoalescingRequestSender implements HttpRequestSender {
+    private _entries: { [key: string]: RequestCacheEntry | undefined } = {};
+    private _cacheKeyResolver: CacheKeyResolver;
+
+    constructor(private _requestSender: RequestSender, private _options: RequestCacheOptions = {}) {
+        this._cacheKeyResolver = new CacheKeyResolver({
+            maxSize: this._options.maxSize ?? DEFAULT_MAX_SIZE,
+            isEqual,
+            onExpire: (key) => {
+                delete this._entries[key];
+            },
+        });
+    }
+
+    sendRequest<T>(url: string, options?: RequestOptions): Promise<Response<T>> {
+        if (!options || !options.method || options.method.toUpperCase() === 'GET') {
+            return this.get(url, options);
+        }
+
+        this.invalidate();
+
+        return this._requestSender.sendRequest(url, options);
+    }
+
+    get<T>(url: string, options?: RequestOptions): Promise<Response<T>> {
+        // A request with a timeout can be aborted by its caller, therefore it
+        // is not shared with other callers.
+        if (options?.timeout) {
+            return this._requestSender.get<T>(url, options);
+        }
+
+        const key = this._cacheKeyResolver.getKey(url, options?.params, options?.headers);
+        const cachedEntry = this._entries[key];
+
+        if (
+            cachedEntry &&
+            (cachedEntry.expiresAt === undefined || cachedEntry.expiresAt > Date.now())
+        ) {
+            return cachedEntry.request;
+        }
+
+        const entry: RequestCacheEntry = {
+            url,
+            request: this._requestSender.get<T>(url, options).then(
+                (response) => {
+                    this._settle(key, entry, true);
+
+                    return response;
+                },
+                (error) => {
+                    this._settle(key, entry, false);
+
+                    throw error;
+                },
+            ),
+        };
+
+        this._entries[key] = entry;
+
+        return entry.request;
+    }
+
+    post<T>(url: string, options?: RequestOptions): Promise<Response<T>> {
+        this.invalidate();
+
+        return this._requestSender.post(url, options);
+    }
+
+    put<T>(url: string, options?: RequestOptions): Promise<Response<T>> {
+        this.invalidate();
+
+        return this._requestSender.put(url, options);
+    }
+
+    patch<T>(url: string, options?: RequestOptions): Promise<Response<T>> {
+        this.invalidate();
+
+        return this._requestSender.patch(url, options);
+    }
+
+    delete<T>(url: string, options?: RequestOptions): Promise<Response<T>> {
+        this.invalidate();
+
+        return this._requestSender.delete(url, options);
+    }
+
+    /**
+     * Discards the cached and in-flight GET requests, so the next request is
+     * sent to the server again. If a URL is provided, only the requests whose
+     * URL starts with it are discarded.
+     */
+    invalidate(url?: string): void {
+        Object.keys(this._entries).forEach((key) => {
+            const entry = this._entries[key];
+
+            if (entry && (!url || entry.url.indexOf(url) === 0)) {
+                delete this._entries[key];
+            }
+        });
+    }
+
+    private _settle(key: string, entry: RequestCacheEntry, isSuccessful: boolean): void {
+        // The entry could have been invalidated, or replaced by a newer
+        // request, while the request was in flight.
+        if (this._entries[key] !== entry) {
+            return;
+        }
+
+        const { ttl = 0 } = this._options;
+
+        if (!isSuccessful || ttl <= 0) {
+            delete this._entries[key];
+
+            return;
+        }
+
+        entry.expiresAt = Date.now() + ttl;
+    }
+}
@@ -1,14 +1,16 @@
-import { RequestOptions, RequestSender, Response } from '@bigcommerce/request-sender';
+import { RequestOptions, Response } from '@bigcommerce/request-sender';
 
 import { StoreConfig } from '../../config';
 
+import HttpRequestSender from './http-request-sender';
+
 export interface ExperimentConfig {
     getBasePath: () => string | undefined;
     getFeatures: () => StoreConfig['checkoutSettings']['features'];
 }
 
-export default class ExperimentAwareRequestSender {
-    constructor(private _requestSender: RequestSender, private _config: ExperimentConfig) {}
+export default class ExperimentAwareRequestSender implements HttpRequestSender {
+    constructor(private _requestSender: HttpRequestSender, private _config: ExperimentConfig) {}
 
     sendRequest<T>(url: string, options?: RequestOptions): Promise<Response<T>> {
         return this._requestSender.sendRequest(url, options);
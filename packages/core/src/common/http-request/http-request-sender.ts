@@ -0,0 +1,11 @@
+import { RequestSender } from '@bigcommerce/request-sender';
+
+/**
+ * The public methods of `RequestSender`. As the class declares private
+ * members, the senders decorating it, i.e.: `CoalescingRequestSender`, are not
+ * assignable to it. Therefore, the consumers that can be given a decorated
+ * sender should depend on this type instead.
+ */
+type HttpRequestSender = Pick<RequestSender, keyof RequestSender>;
+
+export default HttpRequestSender;
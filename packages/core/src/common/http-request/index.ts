@@ -1,6 +1,9 @@
 export * from './internal-api-headers';
 export * from './sdk-version-headers';
 
+export type { default as HttpRequestSender } from './http-request-sender';
+export { default as CoalescingRequestSender } from './coalescing-request-sender';
+export type { RequestCacheOptions } from './coalescing-request-sender';
 export { default as ExperimentAwareRequestSender } from './experiment-aware-request-sender';
 export type { ExperimentConfig } from './experiment-aware-request-sender';
 
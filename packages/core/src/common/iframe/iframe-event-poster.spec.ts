@@ -1,4 +1,5 @@
 import { EventEmitter } from 'events';
+import { TimeoutError } from 'rxjs';
 
 import IframeEvent from './iframe-event';
 import IframeEventPoster from './iframe-event-poster';
@@ -134,4 +135,43 @@ describe('IframeEventPoster', () => {
             expect(event).toEqual({ type: 'FOOBAR_ERROR', payload: 'Unexpected error' });
         }
     });
+
+    it('rejects promise if response is not received within timeout', async () => {
+        const targetWindow = Object.create(window);
+        const poster = new IframeEventPoster<IframeEvent>(origin, targetWindow);
+
+        jest.spyOn(targetWindow, 'postMessage').mockImplementation(jest.fn());
+
+        await expect(
+            poster.post(
+                { type: 'FOOBAR_REQUEST' },
+                { errorType: 'FOOBAR_ERROR', successType: 'FOOBAR_SUCCESS', timeout: 10 },
+            ),
+        ).rejects.toBeInstanceOf(TimeoutError);
+    });
+
+    it('only resolves promise with response matching request id if provided', async () => {
+        const targetWindow = Object.create(window);
+        const poster = new IframeEventPoster<IframeEvent>(origin, targetWindow);
+
+        jest.spyOn(targetWindow, 'postMessage').mockImplementation((message) => {
+            if (isIframeEvent(message, 'FOOBAR_REQUEST')) {
+                eventEmitter.emit('message', {
+                    origin,
+                    data: { type: 'FOOBAR_SUCCESS', requestId: 'other', payload: '456' },
+                });
+                eventEmitter.emit('message', {
+                    origin,
+                    data: { type: 'FOOBAR_SUCCESS', requestId: 'foo', payload: '123' },
+                });
+            }
+        });
+
+        expect(
+            await poster.post(
+                { type: 'FOOBAR_REQUEST' },
+                { errorType: 'FOOBAR_ERROR', successType: 'FOOBAR_SUCCESS', requestId: 'foo' },
+            ),
+        ).toEqual({ type: 'FOOBAR_SUCCESS', requestId: 'foo', payload: '123' });
+    });
 });
@@ -1,5 +1,5 @@
-import { fromEvent } from 'rxjs';
-import { filter, map, take } from 'rxjs/operators';
+import { fromEvent, identity } from 'rxjs';
+import { filter, map, take, timeout } from 'rxjs/operators';
 
 import { parseUrl } from '../url';
 
@@ -12,6 +12,12 @@ export interface IframeEventPostOptions<
 > {
     errorType?: TErrorEvent['type'];
     successType?: TSuccessEvent['type'];
+    requestId?: string;
+    /**
+     * The time in milliseconds to wait for a response before rejecting with
+     * `TimeoutError` of RxJS. Wait indefinitely if it is not provided.
+     */
+    timeout?: number;
 }
 
 export default class IframeEventPoster<TEvent, TContext = undefined> {
@@ -57,6 +63,9 @@ export default class IframeEventPoster<TEvent, TContext = undefined> {
                             [options.successType, options.errorType].indexOf(event.data.type) !==
                                 -1,
                     ),
+                    filter(
+                        (event) => !options.requestId || event.data.requestId === options.requestId,
+                    ),
                     map((event) => {
                         if (options.errorType === event.data.type) {
                             throw event.data;
@@ -65,6 +74,7 @@ export default class IframeEventPoster<TEvent, TContext = undefined> {
                         return event.data;
                     }),
                     take(1),
+                    options.timeout ? timeout(options.timeout) : identity,
                 )
                 .toPromise();
 
@@ -0,0 +1,51 @@
+import BatchedLogTransport from './batched-log-transport';
+import LogRecord from './log-record';
+
+describe('BatchedLogTransport', () => {
+    let send: jest.Mock;
+    let record: LogRecord;
+    let transport: BatchedLogTransport;
+
+    beforeEach(() => {
+        jest.useFakeTimers();
+
+        send = jest.fn();
+        record = { level: 'error', message: 'foo', timestamp: '2020-01-01T00:00:00.000Z' };
+        transport = new BatchedLogTransport(send, { batchSize: 3, flushInterval: 1000 });
+    });
+
+    afterEach(() => {
+        jest.useRealTimers();
+    });
+
+    it('sends records once batch is full', () => {
+        transport.write(record);
+        transport.write(record);
+
+        expect(send).not.toHaveBeenCalled();
+
+        transport.write(record);
+
+        expect(send).toHaveBeenCalledWith([record, record, record]);
+    });
+
+    it('sends pending records after flush interval', () => {
+        transport.write(record);
+
+        jest.advanceTimersByTime(1000);
+
+        expect(send).toHaveBeenCalledWith([record]);
+    });
+
+    it('sends pending records when flushed', () => {
+        transport.write(record);
+        transport.flush();
+        transport.flush();
+
+        expect(send).toHaveBeenCalledTimes(1);
+
+        jest.advanceTimersByTime(1000);
+
+        expect(send).toHaveBeenCalledTimes(1);
+    });
+});
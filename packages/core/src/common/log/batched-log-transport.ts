@@ -0,0 +1,60 @@
+import { bindDecorator as bind } from '@bigcommerce/checkout-sdk/utility';
+
+import LogRecord from './log-record';
+import LogTransport from './log-transport';
+
+export interface BatchedLogTransportOptions {
+    /**
+     * The number of records that triggers an immediate flush. Defaults to 20.
+     */
+    batchSize?: number;
+
+    /**
+     * The maximum time in milliseconds a record is buffered for. Defaults to
+     * 5 seconds.
+     */
+    flushInterval?: number;
+}
+
+const DEFAULT_BATCH_SIZE = 20;
+const DEFAULT_FLUSH_INTERVAL = 5000;
+
+@bind
+export default class BatchedLogTransport implements LogTransport {
+    private _records: LogRecord[] = [];
+    private _timeout?: number;
+
+    constructor(
+        private _send: (records: LogRecord[]) => void,
+        private _options: BatchedLogTransportOptions = {},
+    ) {}
+
+    write(record: LogRecord): void {
+        const { batchSize = DEFAULT_BATCH_SIZE, flushInterval = DEFAULT_FLUSH_INTERVAL } =
+            this._options;
+
+        this._records.push(record);
+
+        if (this._records.length >= batchSize) {
+            return this.flush();
+        }
+
+        if (this._timeout === undefined) {
+            this._timeout = window.setTimeout(this.flush, flushInterval);
+        }
+    }
+
+    flush(): void {
+        window.clearTimeout(this._timeout);
+        this._timeout = undefined;
+
+        if (!this._records.length) {
+            return;
+        }
+
+        const records = this._records;
+
+        this._records = [];
+        this._send(records);
+    }
+}
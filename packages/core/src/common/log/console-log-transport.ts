@@ -0,0 +1,20 @@
+import LogRecord from './log-record';
+import LogTransport from './log-transport';
+
+export default class ConsoleLogTransport implements LogTransport {
+    constructor(private _console?: Console) {}
+
+    write({ level, module, message, data, error }: LogRecord): void {
+        if (!this._console || !this._console[level]) {
+            return;
+        }
+
+        const details = [data, error].filter((detail) => detail !== undefined);
+
+        this._console[level].call(
+            this._console,
+            module ? `[${module}] ${message}` : message,
+            ...details,
+        );
+    }
+}
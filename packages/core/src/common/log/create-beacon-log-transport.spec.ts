@@ -0,0 +1,40 @@
+import createBeaconLogTransport from './create-beacon-log-transport';
+import LogRecord from './log-record';
+
+describe('createBeaconLogTransport()', () => {
+    let record: LogRecord;
+
+    beforeEach(() => {
+        record = { level: 'error', message: 'foo', timestamp: '2020-01-01T00:00:00.000Z' };
+
+        Object.defineProperty(navigator, 'sendBeacon', {
+            configurable: true,
+            value: jest.fn(() => true),
+        });
+    });
+
+    afterEach(() => {
+        delete (navigator as Partial<Navigator>).sendBeacon;
+    });
+
+    it('sends batch of records as beacon', () => {
+        const transport = createBeaconLogTransport('https://logs.bigcommerce.com');
+
+        transport.write(record);
+        transport.flush?.();
+
+        expect(navigator.sendBeacon).toHaveBeenCalledWith(
+            'https://logs.bigcommerce.com',
+            JSON.stringify({ records: [record] }),
+        );
+    });
+
+    it('sends pending records when page is hidden', () => {
+        const transport = createBeaconLogTransport('https://logs.bigcommerce.com');
+
+        transport.write(record);
+        window.dispatchEvent(new Event('pagehide'));
+
+        expect(navigator.sendBeacon).toHaveBeenCalled();
+    });
+});
@@ -0,0 +1,32 @@
+import BatchedLogTransport, { BatchedLogTransportOptions } from './batched-log-transport';
+import LogRecord from './log-record';
+import LogTransport from './log-transport';
+
+/**
+ * Creates a transport that sends batches of log records to a remote endpoint
+ * using `navigator.sendBeacon`, so pending records are still delivered when
+ * the shopper navigates away from the page, i.e.: when redirected to a payment
+ * provider. It falls back to a `keepalive` request if beacons are unavailable.
+ */
+export default function createBeaconLogTransport(
+    url: string,
+    options?: BatchedLogTransportOptions,
+): LogTransport {
+    const transport = new BatchedLogTransport((records) => sendBeacon(url, records), options);
+
+    window.addEventListener('pagehide', transport.flush);
+
+    return transport;
+}
+
+function sendBeacon(url: string, records: LogRecord[]): void {
+    const body = JSON.stringify({ records });
+
+    if (typeof navigator.sendBeacon === 'function' && navigator.sendBeacon(url, body)) {
+        return;
+    }
+
+    if (typeof fetch === 'function') {
+        fetch(url, { method: 'POST', body, keepalive: true }).catch(() => {});
+    }
+}
@@ -0,0 +1,27 @@
+import { createRequestSender, RequestSender } from '@bigcommerce/request-sender';
+
+import createHttpLogTransport from './create-http-log-transport';
+import LogRecord from './log-record';
+
+describe('createHttpLogTransport()', () => {
+    let requestSender: RequestSender;
+    let record: LogRecord;
+
+    beforeEach(() => {
+        requestSender = createRequestSender();
+        record = { level: 'error', message: 'foo', timestamp: '2020-01-01T00:00:00.000Z' };
+
+        jest.spyOn(requestSender, 'post').mockRejectedValue(new Error());
+    });
+
+    it('posts batch of records to endpoint', () => {
+        const transport = createHttpLogTransport('http://localhost:8080/logs', requestSender);
+
+        transport.write(record);
+        transport.flush?.();
+
+        expect(requestSender.post).toHaveBeenCalledWith('http://localhost:8080/logs', {
+            body: { records: [record] },
+        });
+    });
+});
@@ -0,0 +1,21 @@
+import { createRequestSender, RequestSender } from '@bigcommerce/request-sender';
+
+import BatchedLogTransport, { BatchedLogTransportOptions } from './batched-log-transport';
+import LogTransport from './log-transport';
+
+/**
+ * Creates a transport that posts batches of log records as regular HTTP
+ * requests. It is a stand-in for the beacon transport in environments where
+ * the requests need to be observed, i.e.: when logging to a local server in
+ * tests.
+ */
+export default function createHttpLogTransport(
+    url: string,
+    requestSender: RequestSender = createRequestSender(),
+    options?: BatchedLogTransportOptions,
+): LogTransport {
+    return new BatchedLogTransport((records) => {
+        // Logging failures are not reported to avoid affecting the checkout.
+        requestSender.post(url, { body: { records } }).catch(() => {});
+    }, options);
+}
@@ -0,0 +1,48 @@
+import createStructuredLogger from './create-structured-logger';
+import LogTransport from './log-transport';
+
+describe('createStructuredLogger()', () => {
+    let savedEnvironment: string | undefined;
+    let transport: LogTransport;
+    let consoleError: jest.SpyInstance;
+
+    beforeEach(() => {
+        savedEnvironment = process.env.NODE_ENV;
+        transport = { write: jest.fn() };
+
+        consoleError = jest.spyOn(console, 'error').mockImplementation();
+    });
+
+    afterEach(() => {
+        process.env.NODE_ENV = savedEnvironment;
+
+        jest.restoreAllMocks();
+    });
+
+    it('writes records to console in production if no transport is provided', () => {
+        process.env.NODE_ENV = 'production';
+
+        createStructuredLogger().error('Unable to resolve payment strategy');
+
+        expect(consoleError).toHaveBeenCalledWith('Unable to resolve payment strategy');
+    });
+
+    it('only writes records to provided transports in production', () => {
+        process.env.NODE_ENV = 'production';
+
+        createStructuredLogger({ transports: [transport] }).error(
+            'Unable to resolve payment strategy',
+        );
+
+        expect(transport.write).toHaveBeenCalled();
+        expect(consoleError).not.toHaveBeenCalled();
+    });
+
+    it('does not write records to console in tests', () => {
+        process.env.NODE_ENV = 'test';
+
+        createStructuredLogger().error('Unable to resolve payment strategy');
+
+        expect(consoleError).not.toHaveBeenCalled();
+    });
+});
@@ -0,0 +1,41 @@
+import { getEnvironment } from '../utility';
+
+import ConsoleLogTransport from './console-log-transport';
+import { LogContext } from './log-record';
+import LogTransport from './log-transport';
+import StructuredLogger, { StructuredLoggerOptions } from './structured-logger';
+
+export interface StructuredLoggingOptions extends StructuredLoggerOptions, LogContext {
+    /**
+     * Additional destinations for log records, i.e.: a beacon transport
+     * pointing to a remote logging endpoint. Records are also written to the
+     * console in development builds, and in any build outside of tests if no
+     * transport is provided.
+     */
+    transports?: LogTransport[];
+}
+
+export default function createStructuredLogger(
+    options: StructuredLoggingOptions = {},
+): StructuredLogger {
+    const {
+        transports = [],
+        checkoutId,
+        correlationId = createCorrelationId(),
+        ...loggerOptions
+    } = options;
+
+    const environment = getEnvironment();
+    const shouldWriteToConsole =
+        environment === 'development' || (environment !== 'test' && !transports.length);
+
+    return new StructuredLogger(
+        shouldWriteToConsole ? [new ConsoleLogTransport(console), ...transports] : transports,
+        loggerOptions,
+        { checkoutId, correlationId },
+    );
+}
+
+function createCorrelationId(): string {
+    return `${Date.now().toString(36)}-${Math.random().toString(36).slice(2, 10)}`;
+}
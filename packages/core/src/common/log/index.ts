@@ -3,3 +3,20 @@ export { default as getDefaultLogger } from './get-default-logger';
 
 export { default as Logger } from './logger';
 export { default as NoopLogger } from './noop-logger';
+
+export { default as LogLevel } from './log-level';
+export { default as LogRecord, LogContext, LogRecordError } from './log-record';
+export { default as LogTransport } from './log-transport';
+export { default as StructuredLogger, StructuredLoggerOptions } from './structured-logger';
+export {
+    default as BatchedLogTransport,
+    BatchedLogTransportOptions,
+} from './batched-log-transport';
+export { default as ConsoleLogTransport } from './console-log-transport';
+export { default as createBeaconLogTransport } from './create-beacon-log-transport';
+export { default as createHttpLogTransport } from './create-http-log-transport';
+export {
+    default as createStructuredLogger,
+    StructuredLoggingOptions,
+} from './create-structured-logger';
+export { default as scrubLogData } from './scrub-log-data';
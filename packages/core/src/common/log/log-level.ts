@@ -0,0 +1,10 @@
+type LogLevel = 'debug' | 'info' | 'warn' | 'error';
+
+export default LogLevel;
+
+export const LOG_LEVEL_PRIORITY: { [key in LogLevel]: number } = {
+    debug: 0,
+    info: 1,
+    warn: 2,
+    error: 3,
+};
@@ -0,0 +1,23 @@
+import LogLevel from './log-level';
+
+export default interface LogRecord extends LogContext {
+    level: LogLevel;
+    message: string;
+    timestamp: string;
+    module?: string;
+    data?: { [key: string]: unknown };
+    error?: LogRecordError;
+}
+
+export interface LogContext {
+    checkoutId?: string;
+    correlationId?: string;
+}
+
+export interface LogRecordError {
+    name: string;
+    message: string;
+    type?: string;
+    subtype?: string;
+    stack?: string;
+}
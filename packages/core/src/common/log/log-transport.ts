@@ -0,0 +1,12 @@
+import LogRecord from './log-record';
+
+/**
+ * A destination for structured log records, i.e.: the browser console or a
+ * remote logging endpoint. Transports are free to buffer records, in which case
+ * `flush` should send any pending records immediately.
+ */
+export default interface LogTransport {
+    write(record: LogRecord): void;
+
+    flush?(): void;
+}
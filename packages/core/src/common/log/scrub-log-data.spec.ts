@@ -0,0 +1,32 @@
+import scrubLogData from './scrub-log-data';
+
+describe('scrubLogData()', () => {
+    it('redacts values of personally identifiable fields', () => {
+        expect(
+            scrubLogData({
+                methodId: 'braintree',
+                billingAddress: { firstName: 'Foo', lastName: 'Bar', countryCode: 'US' },
+                paymentData: { ccNumber: '4111111111111111', ccCvv: '123' },
+            }),
+        ).toEqual({
+            methodId: 'braintree',
+            billingAddress: { firstName: '[REDACTED]', lastName: '[REDACTED]', countryCode: 'US' },
+            paymentData: { ccNumber: '[REDACTED]', ccCvv: '[REDACTED]' },
+        });
+    });
+
+    it('masks email addresses and card numbers in strings', () => {
+        expect(
+            scrubLogData([
+                'Customer test@bigcommerce.com is invalid',
+                'Card 4111 1111 1111 1111 was declined',
+            ]),
+        ).toEqual(['Customer [REDACTED] is invalid', 'Card [REDACTED] was declined']);
+    });
+
+    it('does not mask numbers that are not card numbers', () => {
+        expect(scrubLogData('Timestamp 1577836800000, order 1234567890123')).toBe(
+            'Timestamp 1577836800000, order 1234567890123',
+        );
+    });
+});
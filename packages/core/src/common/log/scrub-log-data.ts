@@ -0,0 +1,63 @@
+import { isPlainObject } from 'lodash';
+
+const REDACTED = '[REDACTED]';
+const PII_KEY_PATTERN =
+    /^(number|company)$|email|phone|firstname|lastname|fullname|address[12]|street|postalcode|zip|cardnumber|ccnumber|cvv|cvc|securitycode|password|token|nonce|authorization/i;
+const EMAIL_PATTERN = /[^\s@"'<>]+@[^\s@"'<>]+\.[a-z]{2,}/gi;
+const CARD_NUMBER_PATTERN = /\b\d(?:[ -]?\d){12,18}\b/g;
+
+/**
+ * Removes personally identifiable information from log data before it leaves
+ * the browser. Values of well-known PII fields are redacted entirely, while
+ * email addresses and card numbers are masked wherever they appear in strings.
+ */
+export default function scrubLogData<T>(value: T): T {
+    if (typeof value === 'string') {
+        return scrubString(value) as unknown as T;
+    }
+
+    if (Array.isArray(value)) {
+        return value.map(scrubLogData) as unknown as T;
+    }
+
+    if (isPlainObject(value)) {
+        const object = value as unknown as { [key: string]: unknown };
+
+        return Object.keys(object).reduce<{ [key: string]: unknown }>((result, key) => {
+            result[key] =
+                PII_KEY_PATTERN.test(key) && object[key] !== undefined
+                    ? REDACTED
+                    : scrubLogData(object[key]);
+
+            return result;
+        }, {}) as unknown as T;
+    }
+
+    return value;
+}
+
+function scrubString(value: string): string {
+    return value
+        .replace(EMAIL_PATTERN, REDACTED)
+        .replace(CARD_NUMBER_PATTERN, (match) => (isLuhnValid(match) ? REDACTED : match));
+}
+
+// Only digit sequences that pass the Luhn check are treated as card numbers so
+// that timestamps and identifiers of a similar length are left intact.
+function isLuhnValid(value: string): boolean {
+    const digits = value.replace(/\D/g, '');
+    let sum = 0;
+
+    for (let index = 0; index < digits.length; index++) {
+        let digit = Number(digits[digits.length - 1 - index]);
+
+        if (index % 2 === 1) {
+            digit *= 2;
+            digit = digit > 9 ? digit - 9 : digit;
+        }
+
+        sum += digit;
+    }
+
+    return sum % 10 === 0;
+}
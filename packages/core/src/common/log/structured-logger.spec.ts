@@ -0,0 +1,124 @@
+import { MissingDataError, MissingDataErrorType } from '../error/errors';
+
+import LogTransport from './log-transport';
+import StructuredLogger from './structured-logger';
+
+describe('StructuredLogger', () => {
+    let transport: LogTransport;
+    let logger: StructuredLogger;
+
+    beforeEach(() => {
+        transport = {
+            write: jest.fn(),
+            flush: jest.fn(),
+        };
+
+        logger = new StructuredLogger(
+            [transport],
+            { module: 'checkout' },
+            { checkoutId: 'checkout-123', correlationId: 'abc' },
+        );
+    });
+
+    it('writes structured record to transports', () => {
+        logger.info('Loaded checkout', { duration: 120 });
+
+        expect(transport.write).toHaveBeenCalledWith({
+            level: 'info',
+            message: 'Loaded checkout',
+            timestamp: expect.any(String),
+            module: 'checkout',
+            checkoutId: 'checkout-123',
+            correlationId: 'abc',
+            data: { duration: 120 },
+            error: undefined,
+        });
+    });
+
+    it('serializes errors passed to logger', () => {
+        const error = new MissingDataError(MissingDataErrorType.MissingPaymentMethod);
+
+        logger.error(error);
+
+        expect(transport.write).toHaveBeenCalledWith(
+            expect.objectContaining({
+                level: 'error',
+                message: error.message,
+                error: {
+                    name: 'MissingDataError',
+                    message: error.message,
+                    type: 'missing_data',
+                    subtype: MissingDataErrorType.MissingPaymentMethod,
+                    stack: error.stack,
+                },
+            }),
+        );
+    });
+
+    it('does not write records below minimum level', () => {
+        logger = new StructuredLogger([transport], { level: 'warn' });
+
+        logger.debug('foo');
+        logger.info('bar');
+        logger.warn('baz');
+
+        expect(transport.write).toHaveBeenCalledTimes(1);
+    });
+
+    it('only writes errors if session is not sampled', () => {
+        jest.spyOn(Math, 'random').mockReturnValue(0.8);
+
+        logger = new StructuredLogger([transport], { sampleRate: 0.5 });
+
+        logger.warn('foo');
+        logger.error('bar');
+
+        expect(transport.write).toHaveBeenCalledTimes(1);
+        expect(transport.write).toHaveBeenCalledWith(expect.objectContaining({ level: 'error' }));
+
+        (Math.random as jest.Mock).mockRestore();
+    });
+
+    it('scrubs personally identifiable information from record', () => {
+        logger.warn('Unable to sign in test@bigcommerce.com', {
+            email: 'test@bigcommerce.com',
+            methodId: 'braintree',
+        });
+
+        expect(transport.write).toHaveBeenCalledWith(
+            expect.objectContaining({
+                message: 'Unable to sign in [REDACTED]',
+                data: { email: '[REDACTED]', methodId: 'braintree' },
+            }),
+        );
+    });
+
+    it('creates child logger sharing context with parent', () => {
+        const child = logger.child('payment');
+
+        logger.setContext({ checkoutId: 'checkout-456' });
+        child.error('Unable to execute payment');
+
+        expect(transport.write).toHaveBeenCalledWith(
+            expect.objectContaining({
+                module: 'payment',
+                checkoutId: 'checkout-456',
+                correlationId: 'abc',
+            }),
+        );
+    });
+
+    it('does not throw if transport fails to write record', () => {
+        jest.spyOn(transport, 'write').mockImplementation(() => {
+            throw new Error();
+        });
+
+        expect(() => logger.error('foo')).not.toThrow();
+    });
+
+    it('flushes transports', () => {
+        logger.flush();
+
+        expect(transport.flush).toHaveBeenCalled();
+    });
+});
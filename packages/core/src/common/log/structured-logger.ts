@@ -0,0 +1,147 @@
+import { isCustomError } from '../error/errors';
+
+import LogLevel, { LOG_LEVEL_PRIORITY } from './log-level';
+import LogRecord, { LogContext, LogRecordError } from './log-record';
+import LogTransport from './log-transport';
+import Logger from './logger';
+import scrubLogData from './scrub-log-data';
+
+export interface StructuredLoggerOptions {
+    /**
+     * The minimum level of records to write. Defaults to `info`.
+     */
+    level?: LogLevel;
+
+    /**
+     * The fraction of sessions, between 0 and 1, that write records below the
+     * `error` level. Errors are always written. Defaults to 1.
+     */
+    sampleRate?: number;
+
+    module?: string;
+}
+
+interface LogSession {
+    context: LogContext;
+    isSampled: boolean;
+}
+
+/**
+ * A logger that writes structured records to a set of transports. Messages,
+ * data objects and errors passed to its methods are collected into a single
+ * record, which is scrubbed of personally identifiable information and tagged
+ * with the module, checkout ID and correlation ID of the session.
+ */
+export default class StructuredLogger implements Logger {
+    private _session: LogSession;
+
+    constructor(
+        private _transports: LogTransport[],
+        private _options: StructuredLoggerOptions = {},
+        context: LogContext = {},
+        session?: LogSession,
+    ) {
+        const { sampleRate = 1 } = this._options;
+
+        this._session = session || {
+            context,
+            isSampled: sampleRate >= 1 || Math.random() < sampleRate,
+        };
+    }
+
+    /**
+     * Creates a logger for a specific module. The logger shares its transports,
+     * context and sampling decision with its parent.
+     */
+    child(module: string): StructuredLogger {
+        return new StructuredLogger(
+            this._transports,
+            { ...this._options, module },
+            undefined,
+            this._session,
+        );
+    }
+
+    setContext(context: LogContext): void {
+        this._session.context = { ...this._session.context, ...context };
+    }
+
+    getContext(): LogContext {
+        return this._session.context;
+    }
+
+    log(...messages: unknown[]): void {
+        this._write('info', messages);
+    }
+
+    info(...messages: unknown[]): void {
+        this._write('info', messages);
+    }
+
+    warn(...messages: unknown[]): void {
+        this._write('warn', messages);
+    }
+
+    error(...messages: unknown[]): void {
+        this._write('error', messages);
+    }
+
+    debug(...messages: unknown[]): void {
+        this._write('debug', messages);
+    }
+
+    flush(): void {
+        this._transports.forEach((transport) => transport.flush && transport.flush());
+    }
+
+    private _write(level: LogLevel, messages: unknown[]): void {
+        const { level: minLevel = 'info', module } = this._options;
+
+        if (LOG_LEVEL_PRIORITY[level] < LOG_LEVEL_PRIORITY[minLevel]) {
+            return;
+        }
+
+        if (level !== 'error' && !this._session.isSampled) {
+            return;
+        }
+
+        const error = messages.find((message): message is Error => message instanceof Error);
+        const data = messages
+            .filter((message) => message !== error && message && typeof message === 'object')
+            .reduce<{ [key: string]: unknown }>(
+                (result, message) => ({ ...result, ...(message as object) }),
+                {},
+            );
+        const text = messages
+            .filter((message) => typeof message === 'string' || typeof message === 'number')
+            .join(' ');
+
+        const record: LogRecord = scrubLogData({
+            level,
+            message: text || (error ? error.message : ''),
+            timestamp: new Date().toISOString(),
+            module,
+            ...this._session.context,
+            data: Object.keys(data).length ? data : undefined,
+            error: error && this._serializeError(error),
+        });
+
+        this._transports.forEach((transport) => {
+            try {
+                transport.write(record);
+            } catch {
+                // Logging should never interrupt the checkout flow.
+            }
+        });
+    }
+
+    private _serializeError(error: Error): LogRecordError {
+        return {
+            name: error.name,
+            message: error.message,
+            type: isCustomError(error) ? error.type : undefined,
+            subtype: isCustomError(error) ? error.subtype : undefined,
+            stack: error.stack,
+        };
+    }
+}
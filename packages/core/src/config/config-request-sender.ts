@@ -1,8 +1,9 @@
-import { RequestSender, Response } from '@bigcommerce/request-sender';
+import { Response } from '@bigcommerce/request-sender';
 
 import { CheckoutNotAvailableError } from '../checkout/errors';
 import {
     ContentType,
+    HttpRequestSender,
     INTERNAL_USE_ONLY,
     RequestOptions,
     SDK_VERSION_HEADERS,
@@ -11,7 +12,7 @@ import {
 import Config from './config';
 
 export default class ConfigRequestSender {
-    constructor(private _requestSender: RequestSender) {}
+    constructor(private _requestSender: HttpRequestSender) {}
 
     loadConfig({ timeout, params }: RequestOptions = {}): Promise<Response<Config>> {
         const url = '/api/storefront/checkout-settings';
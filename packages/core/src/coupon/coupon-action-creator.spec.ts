@@ -4,6 +4,7 @@ import { catchError, toArray } from 'rxjs/operators';
 
 import { Checkout, CheckoutStore, CheckoutStoreState, createCheckoutStore } from '../checkout';
 import { getCheckoutStoreState, getCheckoutWithCoupons } from '../checkout/checkouts.mock';
+import { OptimisticUpdateRejectedError } from '../common/error/errors';
 import { getErrorResponse, getResponse } from '../common/http-request/responses.mock';
 
 import CouponActionCreator from './coupon-action-creator';
@@ -74,6 +75,46 @@ describe('CouponActionCreator', () => {
         });
     });
 
+    describe('#applyCoupon() with optimistic updates', () => {
+        beforeEach(() => {
+            couponActionCreator = new CouponActionCreator(requestSender, true);
+        });
+
+        it('emits actions with optimistic update meta', async () => {
+            const actions = await from(couponActionCreator.applyCoupon('myCouponCode1234')(store))
+                .pipe(toArray())
+                .toPromise();
+
+            expect(actions).toEqual([
+                {
+                    type: CouponActionType.ApplyCouponRequested,
+                    meta: { optimisticUpdate: { code: 'myCouponCode1234' } },
+                },
+                {
+                    type: CouponActionType.ApplyCouponSucceeded,
+                    payload: getCheckoutWithCoupons(),
+                    meta: { optimisticUpdate: { code: 'myCouponCode1234' } },
+                },
+            ]);
+        });
+
+        it('emits dedicated error if server rejects optimistic update', async () => {
+            jest.spyOn(requestSender, 'applyCoupon').mockReturnValue(Promise.reject(errorResponse));
+
+            const errorHandler = jest.fn((action) => of(action));
+            const actions = await from(couponActionCreator.applyCoupon('myCouponCode1234')(store))
+                .pipe(catchError(errorHandler), toArray())
+                .toPromise();
+
+            expect(actions[1]).toEqual({
+                type: CouponActionType.ApplyCouponFailed,
+                payload: expect.any(OptimisticUpdateRejectedError),
+                meta: { optimisticUpdate: { code: 'myCouponCode1234' } },
+                error: true,
+            });
+        });
+    });
+
     describe('#removeCoupon()', () => {
         beforeEach(() => {
             jest.spyOn(store, 'dispatch');
@@ -2,7 +2,11 @@ import { createAction, createErrorAction, ThunkAction } from '@bigcommerce/data-
 import { Observable, Observer } from 'rxjs';
 
 import { InternalCheckoutSelectors } from '../checkout';
-import { MissingDataError, MissingDataErrorType } from '../common/error/errors';
+import {
+    MissingDataError,
+    MissingDataErrorType,
+    OptimisticUpdateRejectedError,
+} from '../common/error/errors';
 import { RequestOptions } from '../common/http-request';
 
 import {
@@ -14,7 +18,10 @@ import {
 import CouponRequestSender from './coupon-request-sender';
 
 export default class CouponActionCreator {
-    constructor(private _couponRequestSender: CouponRequestSender) {}
+    constructor(
+        private _couponRequestSender: CouponRequestSender,
+        private _shouldUseOptimisticUpdates = false,
+    ) {}
 
     applyCoupon(
         code: string,
@@ -29,17 +36,27 @@ export default class CouponActionCreator {
                     throw new MissingDataError(MissingDataErrorType.MissingCheckout);
                 }
 
-                observer.next(createAction(CouponActionType.ApplyCouponRequested));
+                const meta = this._shouldUseOptimisticUpdates
+                    ? { optimisticUpdate: { code } }
+                    : undefined;
+
+                observer.next(createAction(CouponActionType.ApplyCouponRequested, undefined, meta));
 
                 this._couponRequestSender
                     .applyCoupon(checkout.id, code, options)
                     .then(({ body }) => {
-                        observer.next(createAction(CouponActionType.ApplyCouponSucceeded, body));
+                        observer.next(
+                            createAction(CouponActionType.ApplyCouponSucceeded, body, meta),
+                        );
                         observer.complete();
                     })
                     .catch((response) => {
                         observer.error(
-                            createErrorAction(CouponActionType.ApplyCouponFailed, response),
+                            createErrorAction(
+                                CouponActionType.ApplyCouponFailed,
+                                meta ? new OptimisticUpdateRejectedError(response) : response,
+                                meta,
+                            ),
                         );
                     });
             });
@@ -5,6 +5,8 @@ import { StorefrontErrorResponseBody } from '@bigcommerce/checkout-sdk/payment-i
 import { Checkout } from '../checkout';
 import { RequestError } from '../common/error/errors';
 
+import { ApplyCouponMeta } from './coupon';
+
 export enum CouponActionType {
     ApplyCouponRequested = 'APPLY_COUPON_REQUESTED',
     ApplyCouponSucceeded = 'APPLY_COUPON_SUCCEEDED',
@@ -27,15 +29,16 @@ export type RemoveCouponAction =
     | RemoveCouponSucceededAction
     | RemoveCouponFailedAction;
 
-export interface ApplyCouponRequestedAction extends Action {
+export interface ApplyCouponRequestedAction extends Action<undefined, ApplyCouponMeta> {
     type: CouponActionType.ApplyCouponRequested;
 }
 
-export interface ApplyCouponSucceededAction extends Action<Checkout> {
+export interface ApplyCouponSucceededAction extends Action<Checkout, ApplyCouponMeta> {
     type: CouponActionType.ApplyCouponSucceeded;
 }
 
-export interface ApplyCouponFailedAction extends Action<RequestError<StorefrontErrorResponseBody>> {
+export interface ApplyCouponFailedAction
+    extends Action<RequestError<StorefrontErrorResponseBody>, ApplyCouponMeta> {
     type: CouponActionType.ApplyCouponFailed;
 }
 
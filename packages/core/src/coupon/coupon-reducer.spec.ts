@@ -4,7 +4,7 @@ import { StorefrontErrorResponseBody } from '@bigcommerce/checkout-sdk/payment-i
 
 import { CheckoutActionType } from '../checkout';
 import { getCheckout, getCheckoutWithCoupons } from '../checkout/checkouts.mock';
-import { RequestError } from '../common/error/errors';
+import { OptimisticUpdateRejectedError, RequestError } from '../common/error/errors';
 import { getErrorResponse } from '../common/http-request/responses.mock';
 import { OrderActionType } from '../order';
 import { getOrder } from '../order/orders.mock';
@@ -30,6 +30,52 @@ describe('couponReducer()', () => {
         );
     });
 
+    it('adds pending coupon code without changing coupons when coupon is applied optimistically', () => {
+        const action = createAction(CouponActionType.ApplyCouponRequested, undefined, {
+            optimisticUpdate: { code: 'savebig2015' },
+        });
+        const state = couponReducer(initialState, action);
+
+        expect(state.pendingCodes).toEqual(['savebig2015']);
+        expect(state.data).toBe(initialState.data);
+    });
+
+    it('removes pending coupon code when server confirms optimistic update', () => {
+        const meta = { optimisticUpdate: { code: 'savebig2015' } };
+        const state = couponReducer(
+            initialState,
+            createAction(CouponActionType.ApplyCouponRequested, undefined, meta),
+        );
+        const action = createAction(
+            CouponActionType.ApplyCouponSucceeded,
+            getCheckoutWithCoupons(),
+            meta,
+        );
+
+        expect(couponReducer(state, action)).toEqual(
+            expect.objectContaining({
+                data: action.payload && action.payload.coupons,
+                pendingCodes: [],
+            }),
+        );
+    });
+
+    it('rolls back pending coupon code if server rejects optimistic update', () => {
+        const state = couponReducer(
+            initialState,
+            createAction(CouponActionType.ApplyCouponRequested, undefined, {
+                optimisticUpdate: { code: 'foobar' },
+            }),
+        );
+        const action = createErrorAction(
+            CouponActionType.ApplyCouponFailed,
+            new OptimisticUpdateRejectedError(getErrorResponse()),
+            { optimisticUpdate: { code: 'foobar' } },
+        );
+
+        expect(couponReducer(state, action).pendingCodes).toEqual([]);
+    });
+
     it('returns new state when coupon gets removed', () => {
         const action = createAction(CouponActionType.RemoveCouponSucceeded, getCheckout());
 
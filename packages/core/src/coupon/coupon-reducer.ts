@@ -21,6 +21,7 @@ export default function couponReducer(
 ): CouponState {
     const reducer = combineReducers<CouponState>({
         data: dataReducer,
+        pendingCodes: pendingCodesReducer,
         errors: composeReducers(errorsReducer, clearErrorReducer),
         statuses: statusesReducer,
     });
@@ -48,6 +49,39 @@ function dataReducer(
     }
 }
 
+function pendingCodesReducer(
+    codes: string[] | undefined,
+    action: CouponAction,
+): string[] | undefined {
+    switch (action.type) {
+        case CouponActionType.ApplyCouponRequested:
+            if (
+                action.meta?.optimisticUpdate &&
+                !codes?.includes(action.meta.optimisticUpdate.code)
+            ) {
+                return [...(codes || []), action.meta.optimisticUpdate.code];
+            }
+
+            return codes;
+
+        case CouponActionType.ApplyCouponSucceeded:
+        case CouponActionType.ApplyCouponFailed:
+            if (
+                action.meta?.optimisticUpdate &&
+                codes?.includes(action.meta.optimisticUpdate.code)
+            ) {
+                const { code } = action.meta.optimisticUpdate;
+
+                return codes.filter((pendingCode) => pendingCode !== code);
+            }
+
+            return codes;
+
+        default:
+            return codes;
+    }
+}
+
 function errorsReducer(errors: CouponErrorsState = {}, action: CouponAction): CouponErrorsState {
     switch (action.type) {
         case CouponActionType.ApplyCouponRequested:
@@ -1,16 +1,17 @@
-import { RequestSender, Response } from '@bigcommerce/request-sender';
+import { Response } from '@bigcommerce/request-sender';
 
 import { EmptyCartError } from '../cart/errors';
 import { Checkout, CHECKOUT_DEFAULT_INCLUDES, CheckoutIncludes } from '../checkout';
 import {
     ContentType,
+    HttpRequestSender,
     joinIncludes,
     RequestOptions,
     SDK_VERSION_HEADERS,
 } from '../common/http-request';
 
 export default class CouponRequestSender {
-    constructor(private _requestSender: RequestSender) {}
+    constructor(private _requestSender: HttpRequestSender) {}
 
     applyCoupon(
         checkoutId: string,
@@ -19,6 +19,23 @@ describe('CouponSelector', () => {
         };
     });
 
+    describe('#getPendingCouponCodes()', () => {
+        it('returns codes of coupons waiting to be confirmed', () => {
+            couponSelector = createCouponSelector({
+                ...state,
+                pendingCodes: ['savebig2015'],
+            });
+
+            expect(couponSelector.getPendingCouponCodes()).toEqual(['savebig2015']);
+        });
+
+        it('returns empty list if there are no pending coupons', () => {
+            couponSelector = createCouponSelector(state);
+
+            expect(couponSelector.getPendingCouponCodes()).toEqual([]);
+        });
+    });
+
     describe('#getApplyError()', () => {
         it('returns error if unable to apply', () => {
             const applyCouponError = new RequestError();
@@ -8,6 +8,7 @@ import CouponState, { DEFAULT_STATE } from './coupon-state';
 
 export default interface CouponSelector {
     getCoupons(): Coupon[] | undefined;
+    getPendingCouponCodes(): string[];
     getRemoveError(): RequestError | undefined;
     getApplyError(): RequestError | undefined;
     isApplying(): boolean;
@@ -22,6 +23,13 @@ export function createCouponSelectorFactory(): CouponSelectorFactory {
         (data) => () => data,
     );
 
+    const getPendingCouponCodes = createSelector(
+        (state: CouponState) => state.pendingCodes,
+        (pendingCodes = []) =>
+            () =>
+                pendingCodes,
+    );
+
     const getRemoveError = createSelector(
         (state: CouponState) => state.errors.removeCouponError,
         (error) => () => error,
@@ -45,6 +53,7 @@ export function createCouponSelectorFactory(): CouponSelectorFactory {
     return memoizeOne((state: CouponState = DEFAULT_STATE): CouponSelector => {
         return {
             getCoupons: getCoupons(state),
+            getPendingCouponCodes: getPendingCouponCodes(state),
             getRemoveError: getRemoveError(state),
             getApplyError: getApplyError(state),
             isApplying: isApplying(state),
@@ -6,6 +6,7 @@ import Coupon from './coupon';
 
 export default interface CouponState {
     data?: Coupon[];
+    pendingCodes?: string[];
     errors: CouponErrorsState;
     statuses: CouponStatusesState;
 }
@@ -6,3 +6,9 @@ export default interface Coupon {
     discountedAmount: number;
     hasMaxLimitReached?: boolean;
 }
+
+export interface ApplyCouponMeta {
+    optimisticUpdate?: {
+        code: string;
+    };
+}
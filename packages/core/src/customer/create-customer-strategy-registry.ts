@@ -1,7 +1,7 @@
-import { RequestSender } from '@bigcommerce/request-sender';
 import { getScriptLoader } from '@bigcommerce/script-loader';
 
 import { CheckoutActionCreator, CheckoutRequestSender, CheckoutStore } from '../checkout';
+import { HttpRequestSender } from '../common/http-request';
 import { Registry } from '../common/registry';
 import { ConfigActionCreator, ConfigRequestSender } from '../config';
 import { FormFieldsActionCreator, FormFieldsRequestSender } from '../form';
@@ -18,7 +18,7 @@ import { DefaultCustomerStrategy } from './strategies/default';
 
 export default function createCustomerStrategyRegistry(
     store: CheckoutStore,
-    requestSender: RequestSender,
+    requestSender: HttpRequestSender,
 ): Registry<CustomerStrategy> {
     const registry = new Registry<CustomerStrategy>();
     const scriptLoader = getScriptLoader();
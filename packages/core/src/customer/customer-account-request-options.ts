@@ -0,0 +1,13 @@
+import { RequestOptions } from '../common/http-request';
+
+/**
+ * A set of options for creating a customer account.
+ */
+export default interface CustomerAccountRequestOptions extends RequestOptions {
+    /**
+     * Validates the account against the customer account form fields of the
+     * store before sending it. If the account is invalid, it is not sent and
+     * the request is rejected with an `InvalidFormFieldsError`.
+     */
+    shouldValidateFields?: boolean;
+}
@@ -19,7 +19,7 @@ import { MutationObserverFactory } from '../common/dom';
 import { getErrorResponse, getResponse } from '../common/http-request/responses.mock';
 import { ConfigActionCreator, ConfigRequestSender } from '../config';
 import { getConfig } from '../config/configs.mock';
-import { FormFieldsActionCreator, FormFieldsRequestSender } from '../form';
+import { FormFieldsActionCreator, FormFieldsRequestSender, InvalidFormFieldsError } from '../form';
 import { getShippingAddress } from '../shipping/shipping-addresses.mock';
 import {
     GoogleRecaptcha,
@@ -171,6 +171,29 @@ describe('CustomerActionCreator', () => {
             ]);
         });
 
+        it('emits error action without sending request if account is invalid and validation is requested', async () => {
+            jest.spyOn(customerRequestSender, 'createAccount');
+
+            const errorHandler = jest.fn((action) => of(action));
+
+            await from(
+                customerActionCreator.createCustomer(
+                    { email: 'foo@bar.com', password: 'foobar', firstName: 'first', lastName: '' },
+                    { shouldValidateFields: true },
+                )(store),
+            )
+                .pipe(catchError(errorHandler), toArray())
+                .toPromise();
+
+            expect(errorHandler.mock.calls[0][0]).toEqual(
+                expect.objectContaining({
+                    type: CustomerActionType.CreateCustomerFailed,
+                    payload: expect.any(InvalidFormFieldsError),
+                }),
+            );
+            expect(customerRequestSender.createAccount).not.toHaveBeenCalled();
+        });
+
         it('does not execute spam protection if disabled', async () => {
             jest.spyOn(store.getState().config, 'getStoreConfigOrThrow').mockReturnValue(
                 merge(getConfig().storeConfig, {
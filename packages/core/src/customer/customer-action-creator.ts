@@ -7,12 +7,14 @@ import { CartSource } from '@bigcommerce/checkout-sdk/payment-integration-api';
 import { CheckoutActionCreator, InternalCheckoutSelectors } from '../checkout';
 import { throwErrorAction } from '../common/error';
 import { RequestOptions } from '../common/http-request';
+import { InvalidFormFieldsError } from '../form';
 import {
     isSpamProtectionExecuteSucceededAction,
     SpamProtectionActionCreator,
 } from '../spam-protection';
 
 import CustomerAccountRequestBody, { CustomerAddressRequestBody } from './customer-account';
+import CustomerAccountRequestOptions from './customer-account-request-options';
 import {
     CreateCustomerAction,
     CreateCustomerAddressAction,
@@ -32,13 +34,26 @@ export default class CustomerActionCreator {
 
     createCustomer(
         customerAccount: CustomerAccountRequestBody,
-        options?: RequestOptions,
+        options?: CustomerAccountRequestOptions,
     ): ThunkAction<CreateCustomerAction, InternalCheckoutSelectors> {
         return (store) => {
             const state = store.getState();
             const config = state.config.getStoreConfigOrThrow();
             const { isStorefrontSpamProtectionEnabled } = config.checkoutSettings;
 
+            if (options?.shouldValidateFields) {
+                const errors = state.form
+                    .getFormValidator()
+                    .validateCustomerAccount(customerAccount);
+
+                if (errors.length) {
+                    return throwErrorAction(
+                        CustomerActionType.CreateCustomerFailed,
+                        new InvalidFormFieldsError(errors),
+                    );
+                }
+            }
+
             const createCustomer = (token?: string) =>
                 from(
                     this._customerRequestSender.createAccount(
@@ -1,6 +1,6 @@
-import { RequestSender, Response } from '@bigcommerce/request-sender';
+import { Response } from '@bigcommerce/request-sender';
 
-import { RequestOptions, SDK_VERSION_HEADERS } from '../common/http-request';
+import { HttpRequestSender, RequestOptions, SDK_VERSION_HEADERS } from '../common/http-request';
 
 import Customer from './customer';
 import { CustomerAccountInternalRequestBody, CustomerAddressRequestBody } from './customer-account';
@@ -8,7 +8,7 @@ import CustomerCredentials from './customer-credentials';
 import { InternalCustomerResponseBody } from './internal-customer-responses';
 
 export default class CustomerRequestSender {
-    constructor(private _requestSender: RequestSender) {}
+    constructor(private _requestSender: HttpRequestSender) {}
 
     createAccount(
         customerAccount: CustomerAccountInternalRequestBody,
@@ -16,6 +16,7 @@ export {
     default as CustomerAccountRequestBody,
     CustomerAddressRequestBody,
 } from './customer-account';
+export { default as CustomerAccountRequestOptions } from './customer-account-request-options';
 export { default as CustomerActionCreator } from './customer-action-creator';
 export { default as CustomerCredentials } from './customer-credentials';
 export { default as CustomerRequestSender } from './customer-request-sender';
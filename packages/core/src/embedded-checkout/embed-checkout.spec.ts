@@ -8,6 +8,7 @@ import { BrowserStorage } from '../common/storage';
 import embedCheckout from './embed-checkout';
 import EmbeddedCheckout from './embedded-checkout';
 import EmbeddedCheckoutOptions from './embedded-checkout-options';
+import { InvalidEmbeddedCheckoutThemeError } from './errors';
 import ResizableIframeCreator from './resizable-iframe-creator';
 
 jest.mock('./embedded-checkout', () => {
@@ -53,4 +54,14 @@ describe('embedCheckout()', () => {
             options,
         );
     });
+
+    it('rejects without embedding checkout if theme is invalid', async () => {
+        (EmbeddedCheckout as jest.Mock).mockClear();
+
+        await expect(
+            embedCheckout({ ...options, theme: { colors: { primary: 'red; color: blue' } } }),
+        ).rejects.toBeInstanceOf(InvalidEmbeddedCheckoutThemeError);
+
+        expect(EmbeddedCheckout).not.toHaveBeenCalled();
+    });
 });
@@ -9,8 +9,10 @@ import { parseUrl } from '../common/url';
 import EmbeddedCheckout from './embedded-checkout';
 import { EmbeddedCheckoutEventMap } from './embedded-checkout-events';
 import EmbeddedCheckoutOptions from './embedded-checkout-options';
+import { InvalidEmbeddedCheckoutThemeError } from './errors';
 import { EmbeddedContentEvent } from './iframe-content';
 import ResizableIframeCreator from './resizable-iframe-creator';
+import validateEmbeddedCheckoutTheme from './validate-embedded-checkout-theme';
 
 const STORAGE_PREFIX = 'BigCommerce.EmbeddedCheckout';
 
@@ -29,10 +31,30 @@ const STORAGE_PREFIX = 'BigCommerce.EmbeddedCheckout';
  * });
  * ```
  *
+ * Once attached, the parent window can also send commands to the checkout
+ * form, i.e.: to apply a coupon code or to find out the current step.
+ *
+ * ```js
+ * const embeddedCheckout = await embedCheckout(options);
+ *
+ * await embeddedCheckout.applyCoupon('SAVE10');
+ * ```
+ *
+ * The appearance of the checkout form can be customized using either `styles`
+ * or a set of design tokens passed as `theme`. The tokens are validated before
+ * the form is embedded; the returned promise is rejected with
+ * `InvalidEmbeddedCheckoutThemeError` if any of them is invalid.
+ *
  * @param options - Options for embedding the checkout form.
  * @returns A promise that resolves to an instance of `EmbeddedCheckout`.
  */
 export default function embedCheckout(options: EmbeddedCheckoutOptions): Promise<EmbeddedCheckout> {
+    const themeErrors = options.theme ? validateEmbeddedCheckoutTheme(options.theme) : [];
+
+    if (themeErrors.length) {
+        return Promise.reject(new InvalidEmbeddedCheckoutThemeError(themeErrors));
+    }
+
     const origin = parseUrl(options.url).origin;
     const embeddedCheckout = new EmbeddedCheckout(
         new ResizableIframeCreator(),
@@ -2,30 +2,47 @@ import EmbeddedCheckoutError from './embedded-checkout-error';
 import { EmbeddedContentOptions } from './iframe-content';
 
 export enum EmbeddedCheckoutEventType {
+    CartUpdated = 'CART_UPDATED',
     CheckoutComplete = 'CHECKOUT_COMPLETE',
     CheckoutError = 'CHECKOUT_ERROR',
     CheckoutLoaded = 'CHECKOUT_LOADED',
+    CommandFailed = 'COMMAND_FAILED',
+    CommandSucceeded = 'COMMAND_SUCCEEDED',
     FrameError = 'FRAME_ERROR',
     FrameLoaded = 'FRAME_LOADED',
+    ShippingOptionSelected = 'SHIPPING_OPTION_SELECTED',
     SignedOut = 'SIGNED_OUT',
+    StepChanged = 'STEP_CHANGED',
 }
 
+export type EmbeddedCheckoutStep = 'customer' | 'shipping' | 'billing' | 'payment';
+
 export interface EmbeddedCheckoutEventMap {
+    [EmbeddedCheckoutEventType.CartUpdated]: EmbeddedCheckoutCartUpdatedEvent;
     [EmbeddedCheckoutEventType.CheckoutComplete]: EmbeddedCheckoutCompleteEvent;
     [EmbeddedCheckoutEventType.CheckoutError]: EmbeddedCheckoutErrorEvent;
     [EmbeddedCheckoutEventType.CheckoutLoaded]: EmbeddedCheckoutLoadedEvent;
+    [EmbeddedCheckoutEventType.CommandFailed]: EmbeddedCheckoutCommandFailedEvent;
+    [EmbeddedCheckoutEventType.CommandSucceeded]: EmbeddedCheckoutCommandSucceededEvent;
     [EmbeddedCheckoutEventType.FrameError]: EmbeddedCheckoutFrameErrorEvent;
     [EmbeddedCheckoutEventType.FrameLoaded]: EmbeddedCheckoutFrameLoadedEvent;
+    [EmbeddedCheckoutEventType.ShippingOptionSelected]: EmbeddedCheckoutShippingOptionSelectedEvent;
     [EmbeddedCheckoutEventType.SignedOut]: EmbeddedCheckoutSignedOutEvent;
+    [EmbeddedCheckoutEventType.StepChanged]: EmbeddedCheckoutStepChangedEvent;
 }
 
 export type EmbeddedCheckoutEvent =
+    | EmbeddedCheckoutCartUpdatedEvent
     | EmbeddedCheckoutCompleteEvent
+    | EmbeddedCheckoutCommandFailedEvent
+    | EmbeddedCheckoutCommandSucceededEvent
     | EmbeddedCheckoutErrorEvent
     | EmbeddedCheckoutFrameErrorEvent
     | EmbeddedCheckoutFrameLoadedEvent
     | EmbeddedCheckoutLoadedEvent
-    | EmbeddedCheckoutSignedOutEvent;
+    | EmbeddedCheckoutShippingOptionSelectedEvent
+    | EmbeddedCheckoutSignedOutEvent
+    | EmbeddedCheckoutStepChangedEvent;
 
 export interface EmbeddedCheckoutCompleteEvent {
     type: EmbeddedCheckoutEventType.CheckoutComplete;
@@ -53,3 +70,46 @@ export interface EmbeddedCheckoutFrameLoadedEvent {
 export interface EmbeddedCheckoutSignedOutEvent {
     type: EmbeddedCheckoutEventType.SignedOut;
 }
+
+export interface EmbeddedCheckoutStepChangedEvent {
+    type: EmbeddedCheckoutEventType.StepChanged;
+    payload: {
+        step: EmbeddedCheckoutStep;
+    };
+}
+
+export interface EmbeddedCheckoutCartUpdatedEvent {
+    type: EmbeddedCheckoutEventType.CartUpdated;
+    payload: {
+        cartId: string;
+        cartAmount: number;
+        currencyCode: string;
+        itemCount: number;
+    };
+}
+
+export interface EmbeddedCheckoutShippingOptionSelectedEvent {
+    type: EmbeddedCheckoutEventType.ShippingOptionSelected;
+    payload: {
+        consignmentId: string;
+        shippingOptionId: string;
+        description: string;
+        cost: number;
+    };
+}
+
+/**
+ * Posted by the checkout form in response to a command sent by the parent
+ * window. `requestId` matches the identifier of the command it responds to.
+ */
+export interface EmbeddedCheckoutCommandSucceededEvent {
+    type: EmbeddedCheckoutEventType.CommandSucceeded;
+    requestId: string;
+    payload?: unknown;
+}
+
+export interface EmbeddedCheckoutCommandFailedEvent {
+    type: EmbeddedCheckoutEventType.CommandFailed;
+    requestId: string;
+    payload: EmbeddedCheckoutError;
+}
@@ -1,21 +1,29 @@
 import {
+    EmbeddedCheckoutCartUpdatedEvent,
     EmbeddedCheckoutCompleteEvent,
     EmbeddedCheckoutErrorEvent,
     EmbeddedCheckoutFrameErrorEvent,
     EmbeddedCheckoutFrameLoadedEvent,
     EmbeddedCheckoutLoadedEvent,
+    EmbeddedCheckoutShippingOptionSelectedEvent,
     EmbeddedCheckoutSignedOutEvent,
+    EmbeddedCheckoutStepChangedEvent,
 } from './embedded-checkout-events';
 import EmbeddedCheckoutStyles from './embedded-checkout-styles';
+import EmbeddedCheckoutTheme from './embedded-checkout-theme';
 
 export default interface EmbeddedCheckoutOptions {
     containerId: string;
     url: string;
     styles?: EmbeddedCheckoutStyles;
+    theme?: EmbeddedCheckoutTheme;
     onComplete?(event: EmbeddedCheckoutCompleteEvent): void;
     onError?(event: EmbeddedCheckoutErrorEvent): void;
     onFrameError?(event: EmbeddedCheckoutFrameErrorEvent): void;
     onFrameLoad?(event: EmbeddedCheckoutFrameLoadedEvent): void;
     onLoad?(event: EmbeddedCheckoutLoadedEvent): void;
     onSignOut?(event: EmbeddedCheckoutSignedOutEvent): void;
+    onStepChange?(event: EmbeddedCheckoutStepChangedEvent): void;
+    onCartUpdate?(event: EmbeddedCheckoutCartUpdatedEvent): void;
+    onShippingOptionSelect?(event: EmbeddedCheckoutShippingOptionSelectedEvent): void;
 }
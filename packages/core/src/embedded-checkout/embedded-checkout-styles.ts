@@ -25,6 +25,9 @@ export default interface EmbeddedCheckoutStyles {
     loadingIndicator?: LoadingIndicatorStyles;
     orderSummary?: BlockElementStyles;
     step?: StepStyles;
+
+    // Fonts
+    fontUrls?: string[];
 }
 
 export interface InlineElementStyles {
@@ -39,7 +42,9 @@ export interface BlockElementStyles extends InlineElementStyles {
     backgroundColor?: string;
     boxShadow?: string;
     borderColor?: string;
+    borderRadius?: string;
     borderWidth?: string;
+    padding?: string;
 }
 
 export interface BodyStyles {
@@ -0,0 +1,55 @@
+/**
+ * A set of design tokens that are expanded into `EmbeddedCheckoutStyles`.
+ * Tokens are validated before they are applied. Styles passed explicitly via
+ * `EmbeddedCheckoutOptions.styles` take precedence over the expanded values.
+ */
+export default interface EmbeddedCheckoutTheme {
+    /**
+     * The color scheme to render. If set to `auto` (default), `darkColors` are
+     * applied when the shopper's device prefers a dark color scheme.
+     */
+    colorScheme?: EmbeddedCheckoutColorScheme | 'auto';
+    colors?: EmbeddedCheckoutColorTokens;
+    darkColors?: EmbeddedCheckoutColorTokens;
+    spacing?: EmbeddedCheckoutSpacingTokens;
+    radius?: string;
+    font?: EmbeddedCheckoutFontTokens;
+}
+
+export type EmbeddedCheckoutColorScheme = 'light' | 'dark';
+
+export interface EmbeddedCheckoutColorTokens {
+    primary?: string;
+    onPrimary?: string;
+    background?: string;
+    surface?: string;
+    text?: string;
+    mutedText?: string;
+    border?: string;
+    error?: string;
+}
+
+export interface EmbeddedCheckoutSpacingTokens {
+    small?: string;
+    medium?: string;
+    large?: string;
+}
+
+export interface EmbeddedCheckoutFontTokens {
+    /**
+     * A list of font families in order of preference, i.e.: `['Open Sans',
+     * 'sans-serif']`.
+     */
+    family?: string[];
+
+    /**
+     * A list of HTTPS URLs of stylesheets declaring the web fonts used by
+     * `family`.
+     */
+    urls?: string[];
+}
+
+export interface EmbeddedCheckoutThemeTokenError {
+    token: string;
+    message: string;
+}
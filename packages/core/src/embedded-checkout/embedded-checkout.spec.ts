@@ -1,7 +1,9 @@
 import { createRequestSender, RequestSender } from '@bigcommerce/request-sender';
+import { TimeoutError } from 'rxjs';
 
 import { LoadingIndicator } from '@bigcommerce/checkout-sdk/ui';
 
+import { NotInitializedError } from '../common/error/errors';
 import { getErrorResponse, getResponse } from '../common/http-request/responses.mock';
 import {
     IFrameComponent,
@@ -13,13 +15,20 @@ import { BrowserStorage } from '../common/storage';
 
 import EmbeddedCheckout, {
     ALLOW_COOKIE_ATTEMPT_INTERVAL,
+    COMMAND_TIMEOUT,
     IS_COOKIE_ALLOWED_KEY,
     LAST_ALLOW_COOKIE_ATTEMPT_KEY,
 } from './embedded-checkout';
 import { EmbeddedCheckoutEventMap, EmbeddedCheckoutEventType } from './embedded-checkout-events';
 import EmbeddedCheckoutOptions from './embedded-checkout-options';
 import EmbeddedCheckoutStyles from './embedded-checkout-styles';
-import { InvalidLoginTokenError, NotEmbeddableError, NotEmbeddableErrorType } from './errors';
+import {
+    EmbeddedCheckoutCommandError,
+    InvalidEmbeddedCheckoutThemeError,
+    InvalidLoginTokenError,
+    NotEmbeddableError,
+    NotEmbeddableErrorType,
+} from './errors';
 import { EmbeddedContentEvent, EmbeddedContentEventType } from './iframe-content';
 import ResizableIframeCreator from './resizable-iframe-creator';
 
@@ -181,6 +190,9 @@ describe('EmbeddedCheckout', () => {
             onFrameLoad: jest.fn(),
             onLoad: jest.fn(),
             onSignOut: jest.fn(),
+            onStepChange: jest.fn(),
+            onCartUpdate: jest.fn(),
+            onShippingOptionSelect: jest.fn(),
         };
 
         embeddedCheckout = new EmbeddedCheckout(
@@ -218,6 +230,21 @@ describe('EmbeddedCheckout', () => {
             EmbeddedCheckoutEventType.SignedOut,
             options.onSignOut,
         );
+
+        expect(messageListener.addListener).toHaveBeenCalledWith(
+            EmbeddedCheckoutEventType.StepChanged,
+            options.onStepChange,
+        );
+
+        expect(messageListener.addListener).toHaveBeenCalledWith(
+            EmbeddedCheckoutEventType.CartUpdated,
+            options.onCartUpdate,
+        );
+
+        expect(messageListener.addListener).toHaveBeenCalledWith(
+            EmbeddedCheckoutEventType.ShippingOptionSelected,
+            options.onShippingOptionSelect,
+        );
     });
 
     it('configures styles when iframe is loaded', async () => {
@@ -359,6 +386,225 @@ describe('EmbeddedCheckout', () => {
         expect(() => attach()).not.toThrow(TypeError);
     });
 
+    describe('if theme is passed', () => {
+        let colorSchemeQuery: {
+            matches: boolean;
+            addListener: jest.Mock;
+            removeListener: jest.Mock;
+        };
+
+        beforeEach(() => {
+            colorSchemeQuery = {
+                matches: false,
+                addListener: jest.fn(),
+                removeListener: jest.fn(),
+            };
+
+            window.matchMedia = jest.fn(() => colorSchemeQuery as unknown as MediaQueryList);
+
+            options = {
+                ...options,
+                styles: { button: { color: '#000' } },
+                theme: {
+                    colors: { primary: '#0a6cff', onPrimary: '#fff', background: '#fff' },
+                    darkColors: { background: '#111' },
+                },
+            };
+
+            embeddedCheckout = new EmbeddedCheckout(
+                iframeCreator,
+                messageListener,
+                messagePoster,
+                loadingIndicator,
+                requestSender,
+                storage,
+                location,
+                options,
+            );
+
+            jest.spyOn(messagePoster, 'post');
+        });
+
+        afterEach(() => {
+            delete (window as Partial<Window>).matchMedia;
+        });
+
+        it('configures styles expanded from theme with explicit styles taking precedence', async () => {
+            await embeddedCheckout.attach();
+
+            expect(messagePoster.post).toHaveBeenCalledWith({
+                type: EmbeddedContentEventType.StyleConfigured,
+                payload: expect.objectContaining({
+                    body: { backgroundColor: '#fff' },
+                    button: { backgroundColor: '#0a6cff', borderColor: '#0a6cff', color: '#000' },
+                }),
+            });
+        });
+
+        it('configures dark styles if shopper prefers dark color scheme', async () => {
+            colorSchemeQuery.matches = true;
+
+            await embeddedCheckout.attach();
+
+            expect(messagePoster.post).toHaveBeenCalledWith({
+                type: EmbeddedContentEventType.StyleConfigured,
+                payload: expect.objectContaining({ body: { backgroundColor: '#111' } }),
+            });
+        });
+
+        it('reconfigures styles when preferred color scheme changes', async () => {
+            await embeddedCheckout.attach();
+
+            colorSchemeQuery.matches = true;
+            colorSchemeQuery.addListener.mock.calls[0][0]();
+
+            expect(messagePoster.post).toHaveBeenLastCalledWith({
+                type: EmbeddedContentEventType.StyleConfigured,
+                payload: expect.objectContaining({ body: { backgroundColor: '#111' } }),
+            });
+
+            embeddedCheckout.detach();
+
+            expect(colorSchemeQuery.removeListener).toHaveBeenCalledWith(
+                colorSchemeQuery.addListener.mock.calls[0][0],
+            );
+        });
+
+        it('rejects if updated theme is invalid', async () => {
+            await embeddedCheckout.attach();
+
+            await expect(
+                embeddedCheckout.updateTheme({ colors: { primary: 'url(foo)' } }),
+            ).rejects.toBeInstanceOf(InvalidEmbeddedCheckoutThemeError);
+        });
+    });
+
+    describe('when sending commands to checkout form', () => {
+        beforeEach(() => {
+            jest.spyOn(messagePoster, 'post').mockImplementation((command) =>
+                Promise.resolve({
+                    type: EmbeddedCheckoutEventType.CommandSucceeded,
+                    payload:
+                        (command as { type: string }).type === EmbeddedContentEventType.GetStep
+                            ? 'shipping'
+                            : undefined,
+                }),
+            );
+        });
+
+        it('rejects if checkout form is not attached', async () => {
+            await expect(embeddedCheckout.applyCoupon('SAVE10')).rejects.toBeInstanceOf(
+                NotInitializedError,
+            );
+        });
+
+        it('posts command with request id and waits for matching response', async () => {
+            await embeddedCheckout.attach();
+            await embeddedCheckout.applyCoupon('SAVE10');
+
+            expect(messagePoster.post).toHaveBeenCalledWith(
+                {
+                    type: EmbeddedContentEventType.ApplyCoupon,
+                    requestId: expect.any(String),
+                    payload: { code: 'SAVE10' },
+                },
+                {
+                    successType: EmbeddedCheckoutEventType.CommandSucceeded,
+                    errorType: EmbeddedCheckoutEventType.CommandFailed,
+                    requestId: expect.any(String),
+                    timeout: COMMAND_TIMEOUT,
+                },
+            );
+        });
+
+        it('uses different request id for each command', async () => {
+            await embeddedCheckout.attach();
+            await embeddedCheckout.prefillEmail('test@bigcommerce.com');
+            await embeddedCheckout.changeLocale('fr');
+
+            const [[first], [second]] = (messagePoster.post as jest.Mock).mock.calls;
+
+            expect(first).toEqual(
+                expect.objectContaining({
+                    type: EmbeddedContentEventType.PrefillEmail,
+                    payload: { email: 'test@bigcommerce.com' },
+                }),
+            );
+            expect(second).toEqual(
+                expect.objectContaining({
+                    type: EmbeddedContentEventType.ChangeLocale,
+                    payload: { locale: 'fr' },
+                }),
+            );
+            expect(first.requestId).not.toEqual(second.requestId);
+        });
+
+        it('posts styles expanded from updated theme', async () => {
+            await embeddedCheckout.attach();
+            await embeddedCheckout.updateTheme({ colors: { background: '#fafafa' } });
+
+            expect(messagePoster.post).toHaveBeenCalledWith(
+                expect.objectContaining({
+                    type: EmbeddedContentEventType.UpdateStyles,
+                    payload: { body: { backgroundColor: '#fafafa' } },
+                }),
+                expect.any(Object),
+            );
+        });
+
+        it('resolves with current step', async () => {
+            await embeddedCheckout.attach();
+
+            expect(await embeddedCheckout.getCurrentStep()).toBe('shipping');
+        });
+
+        it('reapplies updated styles when iframe is reloaded', async () => {
+            await embeddedCheckout.attach();
+            await embeddedCheckout.updateStyles(styles);
+
+            messageListener.trigger({ type: EmbeddedCheckoutEventType.FrameLoaded });
+
+            expect(messagePoster.post).toHaveBeenCalledWith(
+                expect.objectContaining({
+                    type: EmbeddedContentEventType.UpdateStyles,
+                    payload: styles,
+                }),
+                expect.any(Object),
+            );
+            expect(messagePoster.post).toHaveBeenLastCalledWith({
+                type: EmbeddedContentEventType.StyleConfigured,
+                payload: styles,
+            });
+        });
+
+        it('rejects with error if checkout form fails to carry out command', async () => {
+            jest.spyOn(messagePoster, 'post').mockRejectedValue({
+                type: EmbeddedCheckoutEventType.CommandFailed,
+                requestId: '1',
+                payload: { message: 'Invalid coupon code', type: 'invalid_coupon' },
+            });
+
+            await embeddedCheckout.attach();
+
+            const error = await embeddedCheckout.applyCoupon('FOO').catch((error) => error);
+
+            expect(error).toBeInstanceOf(EmbeddedCheckoutCommandError);
+            expect(error.message).toBe('Invalid coupon code');
+            expect(error.subtype).toBe('invalid_coupon');
+        });
+
+        it('rejects with error if checkout form does not respond to command in time', async () => {
+            jest.spyOn(messagePoster, 'post').mockRejectedValue(new TimeoutError());
+
+            await embeddedCheckout.attach();
+
+            const error = await embeddedCheckout.applyCoupon('FOO').catch((error) => error);
+
+            expect(error).toBeInstanceOf(EmbeddedCheckoutCommandError);
+            expect(error.subtype).toBe('timeout');
+        });
+    });
+
     describe('if login URL is passed', () => {
         beforeEach(() => {
             options = {
@@ -1,27 +1,52 @@
 import { RequestSender } from '@bigcommerce/request-sender';
+import { merge, uniqueId } from 'lodash';
+import { TimeoutError } from 'rxjs';
 
 import { LoadingIndicator } from '@bigcommerce/checkout-sdk/ui';
 import { bindDecorator as bind } from '@bigcommerce/checkout-sdk/utility';
 
+import { NotInitializedError, NotInitializedErrorType } from '../common/error/errors';
 import { IFrameComponent, IframeEventListener, IframeEventPoster } from '../common/iframe';
 import { BrowserStorage } from '../common/storage';
 import { parseUrl } from '../common/url';
 
 import EmbeddedCheckoutError from './embedded-checkout-error';
-import { EmbeddedCheckoutEventMap, EmbeddedCheckoutEventType } from './embedded-checkout-events';
+import {
+    EmbeddedCheckoutCommandFailedEvent,
+    EmbeddedCheckoutCommandSucceededEvent,
+    EmbeddedCheckoutEventMap,
+    EmbeddedCheckoutEventType,
+    EmbeddedCheckoutStep,
+} from './embedded-checkout-events';
 import EmbeddedCheckoutOptions from './embedded-checkout-options';
-import { InvalidLoginTokenError, NotEmbeddableError, NotEmbeddableErrorType } from './errors';
-import { EmbeddedContentEvent, EmbeddedContentEventType } from './iframe-content';
+import EmbeddedCheckoutStyles from './embedded-checkout-styles';
+import EmbeddedCheckoutTheme, { EmbeddedCheckoutColorScheme } from './embedded-checkout-theme';
+import {
+    EmbeddedCheckoutCommandError,
+    InvalidEmbeddedCheckoutThemeError,
+    InvalidLoginTokenError,
+    NotEmbeddableError,
+    NotEmbeddableErrorType,
+} from './errors';
+import expandEmbeddedCheckoutTheme from './expand-embedded-checkout-theme';
+import {
+    EmbeddedContentCommandEvent,
+    EmbeddedContentEvent,
+    EmbeddedContentEventType,
+} from './iframe-content';
 import ResizableIframeCreator from './resizable-iframe-creator';
+import validateEmbeddedCheckoutTheme from './validate-embedded-checkout-theme';
 
 export const ALLOW_COOKIE_ATTEMPT_INTERVAL = 10 * 60 * 1000;
 export const IS_COOKIE_ALLOWED_KEY = 'isCookieAllowed';
 export const LAST_ALLOW_COOKIE_ATTEMPT_KEY = 'lastAllowCookieAttempt';
+export const COMMAND_TIMEOUT = 30 * 1000;
 
 @bind
 export default class EmbeddedCheckout {
     private _iframe?: IFrameComponent;
     private _isAttached: boolean;
+    private _colorSchemeQuery?: MediaQueryList;
 
     /**
      * @internal
@@ -38,6 +63,10 @@ export default class EmbeddedCheckout {
     ) {
         this._isAttached = false;
 
+        if (typeof window.matchMedia === 'function') {
+            this._colorSchemeQuery = window.matchMedia('(prefers-color-scheme: dark)');
+        }
+
         if (this._options.onComplete) {
             this._messageListener.addListener(
                 EmbeddedCheckoutEventType.CheckoutComplete,
@@ -73,6 +102,27 @@ export default class EmbeddedCheckout {
             );
         }
 
+        if (this._options.onStepChange) {
+            this._messageListener.addListener(
+                EmbeddedCheckoutEventType.StepChanged,
+                this._options.onStepChange,
+            );
+        }
+
+        if (this._options.onCartUpdate) {
+            this._messageListener.addListener(
+                EmbeddedCheckoutEventType.CartUpdated,
+                this._options.onCartUpdate,
+            );
+        }
+
+        if (this._options.onShippingOptionSelect) {
+            this._messageListener.addListener(
+                EmbeddedCheckoutEventType.ShippingOptionSelected,
+                this._options.onShippingOptionSelect,
+            );
+        }
+
         this._messageListener.addListener(EmbeddedCheckoutEventType.FrameLoaded, () =>
             this._configureStyles(),
         );
@@ -87,6 +137,10 @@ export default class EmbeddedCheckout {
         this._messageListener.listen();
         this._loadingIndicator.show(this._options.containerId);
 
+        if (this._colorSchemeQuery) {
+            this._colorSchemeQuery.addListener(this._handleColorSchemeChange);
+        }
+
         return this._allowCookie()
             .then(() => this._attemptLogin())
             .then((url) => this._iframeCreator.createFrame(url, this._options.containerId))
@@ -121,14 +175,191 @@ export default class EmbeddedCheckout {
         this._isAttached = false;
         this._messageListener.stopListen();
 
+        if (this._colorSchemeQuery) {
+            this._colorSchemeQuery.removeListener(this._handleColorSchemeChange);
+        }
+
         if (this._iframe && this._iframe.parentNode) {
             this._iframe.parentNode.removeChild(this._iframe);
             this._iframe.iFrameResizer.close();
         }
     }
 
+    /**
+     * Updates the styles of the checkout form after it has been attached. The
+     * new styles are also applied whenever the form is reloaded.
+     *
+     * @param styles - The styles to apply to the checkout form.
+     * @returns A promise that resolves once the styles are applied.
+     */
+    updateStyles(styles: EmbeddedCheckoutStyles): Promise<void> {
+        this._options = { ...this._options, styles };
+
+        return this._postStyles();
+    }
+
+    /**
+     * Updates the design tokens of the checkout form after it has been
+     * attached. Styles passed via `updateStyles` continue to take precedence
+     * over the styles expanded from the tokens.
+     *
+     * @param theme - The design tokens to apply to the checkout form.
+     * @returns A promise that resolves once the theme is applied, or rejects
+     * with `InvalidEmbeddedCheckoutThemeError` if the tokens are invalid.
+     */
+    updateTheme(theme: EmbeddedCheckoutTheme): Promise<void> {
+        try {
+            this._assertValidTheme(theme);
+        } catch (error) {
+            return Promise.reject(error);
+        }
+
+        this._options = { ...this._options, theme };
+
+        return this._postStyles();
+    }
+
+    /**
+     * Applies a coupon or gift certificate code to the checkout.
+     *
+     * @param code - The code to apply.
+     * @returns A promise that resolves once the code is applied, or rejects if
+     * the checkout form is unable to apply it.
+     */
+    applyCoupon(code: string): Promise<void> {
+        return this._sendCommand({
+            type: EmbeddedContentEventType.ApplyCoupon,
+            requestId: this._createRequestId(),
+            payload: { code },
+        }).then(() => undefined);
+    }
+
+    /**
+     * Prefills the email field of the customer step.
+     *
+     * @param email - The email address of the shopper.
+     * @returns A promise that resolves once the field is filled.
+     */
+    prefillEmail(email: string): Promise<void> {
+        return this._sendCommand({
+            type: EmbeddedContentEventType.PrefillEmail,
+            requestId: this._createRequestId(),
+            payload: { email },
+        }).then(() => undefined);
+    }
+
+    /**
+     * Changes the language used by the checkout form.
+     *
+     * @param locale - The locale to switch to, i.e.: `fr-CA`.
+     * @returns A promise that resolves once the locale is changed.
+     */
+    changeLocale(locale: string): Promise<void> {
+        return this._sendCommand({
+            type: EmbeddedContentEventType.ChangeLocale,
+            requestId: this._createRequestId(),
+            payload: { locale },
+        }).then(() => undefined);
+    }
+
+    /**
+     * Requests the step the shopper is currently on.
+     *
+     * @returns A promise that resolves to the current checkout step.
+     */
+    getCurrentStep(): Promise<EmbeddedCheckoutStep> {
+        return this._sendCommand({
+            type: EmbeddedContentEventType.GetStep,
+            requestId: this._createRequestId(),
+        }).then(({ payload }) => payload as EmbeddedCheckoutStep);
+    }
+
+    private _sendCommand(
+        command: EmbeddedContentCommandEvent,
+    ): Promise<EmbeddedCheckoutCommandSucceededEvent> {
+        if (!this._iframe || !this._iframe.contentWindow) {
+            return Promise.reject(
+                new NotInitializedError(NotInitializedErrorType.EmbeddedCheckoutNotAttached),
+            );
+        }
+
+        this._messagePoster.setTarget(this._iframe.contentWindow);
+
+        return this._messagePoster
+            .post<EmbeddedCheckoutCommandSucceededEvent, EmbeddedCheckoutCommandFailedEvent>(
+                command,
+                {
+                    successType: EmbeddedCheckoutEventType.CommandSucceeded,
+                    errorType: EmbeddedCheckoutEventType.CommandFailed,
+                    requestId: command.requestId,
+                    timeout: COMMAND_TIMEOUT,
+                },
+            )
+            .catch((event: EmbeddedCheckoutCommandFailedEvent | TimeoutError) => {
+                if (event instanceof TimeoutError) {
+                    throw new EmbeddedCheckoutCommandError({
+                        type: 'timeout',
+                        message:
+                            'The checkout form has not responded to the requested action in time.',
+                    });
+                }
+
+                throw new EmbeddedCheckoutCommandError(event.payload);
+            });
+    }
+
+    private _postStyles(): Promise<void> {
+        return this._sendCommand({
+            type: EmbeddedContentEventType.UpdateStyles,
+            requestId: this._createRequestId(),
+            payload: this._getStyles() || {},
+        }).then(() => undefined);
+    }
+
+    private _getStyles(): EmbeddedCheckoutStyles | undefined {
+        const { styles, theme } = this._options;
+
+        if (!theme) {
+            return styles;
+        }
+
+        return merge({}, expandEmbeddedCheckoutTheme(theme, this._getColorScheme(theme)), styles);
+    }
+
+    private _getColorScheme(theme: EmbeddedCheckoutTheme): EmbeddedCheckoutColorScheme {
+        if (theme.colorScheme === 'light' || theme.colorScheme === 'dark') {
+            return theme.colorScheme;
+        }
+
+        return this._colorSchemeQuery && this._colorSchemeQuery.matches ? 'dark' : 'light';
+    }
+
+    private _handleColorSchemeChange(): void {
+        const { theme } = this._options;
+
+        if (!theme || !theme.darkColors || (theme.colorScheme && theme.colorScheme !== 'auto')) {
+            return;
+        }
+
+        this._configureStyles();
+    }
+
+    private _assertValidTheme(theme?: EmbeddedCheckoutTheme): void {
+        const errors = theme ? validateEmbeddedCheckoutTheme(theme) : [];
+
+        if (errors.length) {
+            throw new InvalidEmbeddedCheckoutThemeError(errors);
+        }
+    }
+
+    private _createRequestId(): string {
+        return uniqueId('embedded-checkout-command-');
+    }
+
     private _configureStyles(): void {
-        if (!this._iframe || !this._iframe.contentWindow || !this._options.styles) {
+        const styles = this._getStyles();
+
+        if (!this._iframe || !this._iframe.contentWindow || !styles) {
             return;
         }
 
@@ -136,7 +367,7 @@ export default class EmbeddedCheckout {
 
         this._messagePoster.post({
             type: EmbeddedContentEventType.StyleConfigured,
-            payload: this._options.styles,
+            payload: styles,
         });
     }
 
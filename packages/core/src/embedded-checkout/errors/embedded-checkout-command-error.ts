@@ -0,0 +1,20 @@
+import { StandardError } from '../../common/error/errors';
+import EmbeddedCheckoutError from '../embedded-checkout-error';
+
+/**
+ * Throw this error if the checkout form inside the iframe is unable to carry
+ * out a command sent by the parent window, i.e.: the coupon code it is asked
+ * to apply is invalid. Its subtype is `timeout` if the checkout form does not
+ * respond to the command in time.
+ */
+export default class EmbeddedCheckoutCommandError extends StandardError {
+    subtype?: string;
+
+    constructor(error: EmbeddedCheckoutError) {
+        super(error.message || 'Unable to complete the requested action in the checkout form.');
+
+        this.name = 'EmbeddedCheckoutCommandError';
+        this.type = 'embedded_checkout_command';
+        this.subtype = error.type;
+    }
+}
@@ -1,2 +1,4 @@
 export { default as NotEmbeddableError, NotEmbeddableErrorType } from './not-embeddable-error';
 export { default as InvalidLoginTokenError } from './invalid-login-token-error';
+export { default as EmbeddedCheckoutCommandError } from './embedded-checkout-command-error';
+export { default as InvalidEmbeddedCheckoutThemeError } from './invalid-embedded-checkout-theme-error';
@@ -0,0 +1,19 @@
+import InvalidEmbeddedCheckoutThemeError from './invalid-embedded-checkout-theme-error';
+
+describe('InvalidEmbeddedCheckoutThemeError', () => {
+    it('returns error name', () => {
+        const error = new InvalidEmbeddedCheckoutThemeError([]);
+
+        expect(error.name).toBe('InvalidEmbeddedCheckoutThemeError');
+    });
+
+    it('includes description of each invalid token in message', () => {
+        const error = new InvalidEmbeddedCheckoutThemeError([
+            { token: 'radius', message: '`radius` must be a length in px, rem or em: "10%".' },
+        ]);
+
+        expect(error.message).toBe(
+            'Unable to apply the theme to the checkout form. `radius` must be a length in px, rem or em: "10%".',
+        );
+    });
+});
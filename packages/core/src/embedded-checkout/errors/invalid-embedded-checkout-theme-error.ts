@@ -0,0 +1,19 @@
+import { StandardError } from '../../common/error/errors';
+import { EmbeddedCheckoutThemeTokenError } from '../embedded-checkout-theme';
+
+/**
+ * Throw this error if the theme passed to embedded checkout contains unknown
+ * tokens or values that are not allowed.
+ */
+export default class InvalidEmbeddedCheckoutThemeError extends StandardError {
+    constructor(public errors: EmbeddedCheckoutThemeTokenError[]) {
+        super(
+            `Unable to apply the theme to the checkout form. ${errors
+                .map(({ message }) => message)
+                .join(' ')}`,
+        );
+
+        this.name = 'InvalidEmbeddedCheckoutThemeError';
+        this.type = 'invalid_embedded_checkout_theme';
+    }
+}
@@ -0,0 +1,68 @@
+import EmbeddedCheckoutTheme from './embedded-checkout-theme';
+import expandEmbeddedCheckoutTheme from './expand-embedded-checkout-theme';
+
+describe('expandEmbeddedCheckoutTheme()', () => {
+    let theme: EmbeddedCheckoutTheme;
+
+    beforeEach(() => {
+        theme = {
+            colors: {
+                primary: '#0a6cff',
+                onPrimary: '#fff',
+                background: '#fff',
+                text: '#222',
+            },
+            darkColors: {
+                background: '#111',
+                text: '#eee',
+            },
+            spacing: { small: '4px', medium: '8px', large: '16px' },
+            radius: '4px',
+            font: {
+                family: ['Open Sans', 'sans-serif'],
+                urls: ['https://fonts.googleapis.com/css2?family=Open+Sans'],
+            },
+        };
+    });
+
+    it('expands tokens into element styles', () => {
+        const styles = expandEmbeddedCheckoutTheme(theme);
+
+        expect(styles.body).toEqual({ backgroundColor: '#fff' });
+        expect(styles.text).toEqual({ color: '#222', fontFamily: '"Open Sans", sans-serif' });
+        expect(styles.button).toEqual({
+            backgroundColor: '#0a6cff',
+            borderColor: '#0a6cff',
+            borderRadius: '4px',
+            color: '#fff',
+            fontFamily: '"Open Sans", sans-serif',
+            padding: '8px',
+        });
+        expect(styles.input).toEqual(
+            expect.objectContaining({ borderRadius: '4px', padding: '4px', color: '#222' }),
+        );
+        expect(styles.step).toEqual({
+            padding: '16px',
+            icon: { backgroundColor: '#0a6cff', color: '#fff' },
+        });
+        expect(styles.fontUrls).toEqual(['https://fonts.googleapis.com/css2?family=Open+Sans']);
+    });
+
+    it('applies dark colors if dark color scheme is requested', () => {
+        const styles = expandEmbeddedCheckoutTheme(theme, 'dark');
+
+        expect(styles.body).toEqual({ backgroundColor: '#111' });
+        expect(styles.text).toEqual(expect.objectContaining({ color: '#eee' }));
+        expect(styles.link).toEqual(expect.objectContaining({ color: '#0a6cff' }));
+    });
+
+    it('omits styles for tokens that are not provided', () => {
+        expect(expandEmbeddedCheckoutTheme({ colors: { error: '#f00' } })).toEqual({
+            input: { error: { borderColor: '#f00' } },
+            select: { error: { borderColor: '#f00' } },
+            radio: { error: { borderColor: '#f00' } },
+            checkbox: { error: { borderColor: '#f00' } },
+            label: { error: { color: '#f00' } },
+        });
+    });
+});
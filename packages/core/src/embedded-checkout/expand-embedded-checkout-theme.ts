@@ -0,0 +1,117 @@
+import { isPlainObject, omitBy } from 'lodash';
+
+import EmbeddedCheckoutStyles from './embedded-checkout-styles';
+import EmbeddedCheckoutTheme, { EmbeddedCheckoutColorScheme } from './embedded-checkout-theme';
+
+/**
+ * Expands the design tokens of a theme into the element styles understood by
+ * the checkout form. Tokens that are not provided do not produce any style, so
+ * the default styles of the checkout form continue to apply to them.
+ *
+ * The theme is expected to be validated before it is expanded.
+ */
+export default function expandEmbeddedCheckoutTheme(
+    theme: EmbeddedCheckoutTheme,
+    colorScheme: EmbeddedCheckoutColorScheme = 'light',
+): EmbeddedCheckoutStyles {
+    const colors = {
+        ...theme.colors,
+        ...(colorScheme === 'dark' ? theme.darkColors : {}),
+    };
+    const { small, medium, large } = theme.spacing || {};
+    const { radius } = theme;
+    const fontFamily = theme.font?.family && formatFontFamily(theme.font.family);
+
+    const text = { color: colors.text, fontFamily };
+    const mutedText = { color: colors.mutedText, fontFamily };
+    const input = {
+        backgroundColor: colors.surface,
+        borderColor: colors.border,
+        borderRadius: radius,
+        color: colors.text,
+        fontFamily,
+        padding: small,
+        error: { borderColor: colors.error },
+        focus: { borderColor: colors.primary },
+    };
+    const checkableInput = {
+        borderColor: colors.border,
+        checked: { backgroundColor: colors.primary, borderColor: colors.primary },
+        error: { borderColor: colors.error },
+    };
+
+    return removeEmptyStyles({
+        body: { backgroundColor: colors.background },
+        text,
+        heading: text,
+        secondaryHeading: mutedText,
+        secondaryText: mutedText,
+        link: { color: colors.primary, fontFamily },
+        button: {
+            backgroundColor: colors.primary,
+            borderColor: colors.primary,
+            borderRadius: radius,
+            color: colors.onPrimary,
+            fontFamily,
+            padding: medium,
+        },
+        secondaryButton: {
+            backgroundColor: colors.surface,
+            borderColor: colors.border,
+            borderRadius: radius,
+            color: colors.text,
+            fontFamily,
+            padding: medium,
+        },
+        input,
+        select: input,
+        radio: checkableInput,
+        checkbox: checkableInput,
+        label: { ...text, error: { color: colors.error } },
+        checklist: {
+            backgroundColor: colors.surface,
+            borderColor: colors.border,
+            borderRadius: radius,
+            padding: medium,
+            checked: { borderColor: colors.primary },
+        },
+        discountBanner: { backgroundColor: colors.surface, color: colors.text },
+        loadingBanner: { backgroundColor: colors.surface, color: colors.text },
+        loadingIndicator: { color: colors.primary },
+        orderSummary: {
+            backgroundColor: colors.surface,
+            borderColor: colors.border,
+            borderRadius: radius,
+            padding: large,
+        },
+        step: {
+            backgroundColor: colors.surface,
+            borderColor: colors.border,
+            padding: large,
+            icon: { backgroundColor: colors.primary, color: colors.onPrimary },
+        },
+        fontUrls: theme.font?.urls,
+    });
+}
+
+function formatFontFamily(family: string[]): string {
+    return family.map((name) => (name.indexOf(' ') === -1 ? name : `"${name}"`)).join(', ');
+}
+
+function removeEmptyStyles<T extends object>(styles: T): T {
+    const result = omitBy(styles, (value) => value === undefined) as { [key: string]: unknown };
+
+    Object.keys(result).forEach((key) => {
+        if (!isPlainObject(result[key])) {
+            return;
+        }
+
+        result[key] = removeEmptyStyles(result[key] as object);
+
+        if (Object.keys(result[key] as object).length === 0) {
+            delete result[key];
+        }
+    });
+
+    return result as T;
+}
@@ -1,4 +1,7 @@
+import { Cart } from '../../cart';
 import { CustomError } from '../../common/error/errors';
+import { Consignment } from '../../shipping';
+import { EmbeddedCheckoutStep } from '../embedded-checkout-events';
 import EmbeddedCheckoutStyles from '../embedded-checkout-styles';
 
 import EmbeddedContentOptions from './embedded-content-options';
@@ -10,5 +13,12 @@ export default interface EmbeddedCheckoutMessenger {
     postFrameLoaded(payload?: EmbeddedContentOptions): void;
     postLoaded(): void;
     postSignedOut(): void;
+    postStepChanged(step: EmbeddedCheckoutStep): void;
+    postCartUpdated(cart: Cart): void;
+    postShippingOptionSelected(consignment: Consignment): void;
     receiveStyles(handler: (styles: EmbeddedCheckoutStyles) => void): void;
+    receiveCoupon(handler: (code: string) => Promise<void> | void): void;
+    receiveEmail(handler: (email: string) => Promise<void> | void): void;
+    receiveLocale(handler: (locale: string) => Promise<void> | void): void;
+    receiveStepRequest(handler: () => Promise<EmbeddedCheckoutStep> | EmbeddedCheckoutStep): void;
 }
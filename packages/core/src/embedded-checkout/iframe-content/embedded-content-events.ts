@@ -1,16 +1,75 @@
 import EmbeddedCheckoutStyles from '../embedded-checkout-styles';
 
 export enum EmbeddedContentEventType {
+    ApplyCoupon = 'APPLY_COUPON',
+    ChangeLocale = 'CHANGE_LOCALE',
+    GetStep = 'GET_STEP',
+    PrefillEmail = 'PREFILL_EMAIL',
     StyleConfigured = 'STYLE_CONFIGURED',
+    UpdateStyles = 'UPDATE_STYLES',
 }
 
 export interface EmbeddedContentEventMap {
+    [EmbeddedContentEventType.ApplyCoupon]: EmbeddedContentApplyCouponEvent;
+    [EmbeddedContentEventType.ChangeLocale]: EmbeddedContentChangeLocaleEvent;
+    [EmbeddedContentEventType.GetStep]: EmbeddedContentGetStepEvent;
+    [EmbeddedContentEventType.PrefillEmail]: EmbeddedContentPrefillEmailEvent;
     [EmbeddedContentEventType.StyleConfigured]: EmbeddedContentStyleConfiguredEvent;
+    [EmbeddedContentEventType.UpdateStyles]: EmbeddedContentUpdateStylesEvent;
 }
 
-export type EmbeddedContentEvent = EmbeddedContentStyleConfiguredEvent;
+export type EmbeddedContentEvent =
+    | EmbeddedContentStyleConfiguredEvent
+    | EmbeddedContentCommandEvent;
+
+/**
+ * Commands are sent by the parent window and expect the checkout form to
+ * respond with either `COMMAND_SUCCEEDED` or `COMMAND_FAILED` carrying the same
+ * `requestId`.
+ */
+export type EmbeddedContentCommandEvent =
+    | EmbeddedContentApplyCouponEvent
+    | EmbeddedContentChangeLocaleEvent
+    | EmbeddedContentGetStepEvent
+    | EmbeddedContentPrefillEmailEvent
+    | EmbeddedContentUpdateStylesEvent;
 
 export interface EmbeddedContentStyleConfiguredEvent {
     type: EmbeddedContentEventType.StyleConfigured;
     payload: EmbeddedCheckoutStyles;
 }
+
+export interface EmbeddedContentUpdateStylesEvent {
+    type: EmbeddedContentEventType.UpdateStyles;
+    requestId: string;
+    payload: EmbeddedCheckoutStyles;
+}
+
+export interface EmbeddedContentApplyCouponEvent {
+    type: EmbeddedContentEventType.ApplyCoupon;
+    requestId: string;
+    payload: {
+        code: string;
+    };
+}
+
+export interface EmbeddedContentPrefillEmailEvent {
+    type: EmbeddedContentEventType.PrefillEmail;
+    requestId: string;
+    payload: {
+        email: string;
+    };
+}
+
+export interface EmbeddedContentChangeLocaleEvent {
+    type: EmbeddedContentEventType.ChangeLocale;
+    requestId: string;
+    payload: {
+        locale: string;
+    };
+}
+
+export interface EmbeddedContentGetStepEvent {
+    type: EmbeddedContentEventType.GetStep;
+    requestId: string;
+}
@@ -1,6 +1,8 @@
+import { getCart } from '../../cart/carts.mock';
 import { CartChangedError } from '../../cart/errors';
 import { getCheckout } from '../../checkout/checkouts.mock';
 import { IframeEventListener, IframeEventPoster } from '../../common/iframe';
+import { getConsignment } from '../../shipping/consignments.mock';
 import { EmbeddedCheckoutEvent, EmbeddedCheckoutEventType } from '../embedded-checkout-events';
 
 import { EmbeddedContentEventMap, EmbeddedContentEventType } from './embedded-content-events';
@@ -109,6 +111,138 @@ describe('EmbeddedCheckoutMessenger', () => {
         expect(handler).toHaveBeenCalledWith(styles);
     });
 
+    it('posts `step_changed` event to parent window', () => {
+        messenger.postStepChanged('payment');
+
+        expect(messagePoster.post).toHaveBeenCalledWith({
+            type: EmbeddedCheckoutEventType.StepChanged,
+            payload: { step: 'payment' },
+        });
+    });
+
+    it('posts `cart_updated` event with cart summary to parent window', () => {
+        const cart = getCart();
+
+        messenger.postCartUpdated(cart);
+
+        expect(messagePoster.post).toHaveBeenCalledWith({
+            type: EmbeddedCheckoutEventType.CartUpdated,
+            payload: {
+                cartId: cart.id,
+                cartAmount: cart.cartAmount,
+                currencyCode: cart.currency.code,
+                itemCount: 3,
+            },
+        });
+    });
+
+    it('posts `shipping_option_selected` event to parent window', () => {
+        const consignment = getConsignment();
+
+        messenger.postShippingOptionSelected(consignment);
+
+        expect(messagePoster.post).toHaveBeenCalledWith({
+            type: EmbeddedCheckoutEventType.ShippingOptionSelected,
+            payload: {
+                consignmentId: consignment.id,
+                shippingOptionId: consignment.selectedShippingOption?.id,
+                description: consignment.selectedShippingOption?.description,
+                cost: consignment.selectedShippingOption?.cost,
+            },
+        });
+    });
+
+    it('does not post `shipping_option_selected` event if no option is selected', () => {
+        messenger.postShippingOptionSelected({
+            ...getConsignment(),
+            selectedShippingOption: undefined,
+        });
+
+        expect(messagePoster.post).not.toHaveBeenCalled();
+    });
+
+    it('responds to `update_styles` command from parent window', async () => {
+        const handler = jest.fn();
+        const styles = { body: { backgroundColor: '#00ff00' } };
+
+        messenger.receiveStyles(handler);
+        messageListener.trigger({
+            type: EmbeddedContentEventType.UpdateStyles,
+            requestId: '1',
+            payload: styles,
+        });
+
+        await new Promise((resolve) => process.nextTick(resolve));
+
+        expect(handler).toHaveBeenCalledWith(styles);
+        expect(messagePoster.post).toHaveBeenCalledWith({
+            type: EmbeddedCheckoutEventType.CommandSucceeded,
+            requestId: '1',
+            payload: undefined,
+        });
+    });
+
+    it('responds to `apply_coupon` command with error if handler fails', async () => {
+        const error = new CartChangedError(getCheckout(), getCheckout());
+
+        messenger.receiveCoupon(() => Promise.reject(error));
+        messageListener.trigger({
+            type: EmbeddedContentEventType.ApplyCoupon,
+            requestId: '2',
+            payload: { code: 'SAVE10' },
+        });
+
+        await new Promise((resolve) => process.nextTick(resolve));
+
+        expect(messagePoster.post).toHaveBeenCalledWith({
+            type: EmbeddedCheckoutEventType.CommandFailed,
+            requestId: '2',
+            payload: {
+                message: error.message,
+                type: error.type,
+            },
+        });
+    });
+
+    it('passes command payload to handlers', async () => {
+        const emailHandler = jest.fn();
+        const localeHandler = jest.fn();
+
+        messenger.receiveEmail(emailHandler);
+        messenger.receiveLocale(localeHandler);
+        messageListener.trigger({
+            type: EmbeddedContentEventType.PrefillEmail,
+            requestId: '3',
+            payload: { email: 'test@bigcommerce.com' },
+        });
+        messageListener.trigger({
+            type: EmbeddedContentEventType.ChangeLocale,
+            requestId: '4',
+            payload: { locale: 'fr' },
+        });
+
+        await new Promise((resolve) => process.nextTick(resolve));
+
+        expect(emailHandler).toHaveBeenCalledWith('test@bigcommerce.com');
+        expect(localeHandler).toHaveBeenCalledWith('fr');
+    });
+
+    it('responds to `get_step` command with current step', async () => {
+        messenger.receiveStepRequest(() => 'billing');
+        messageListener.trigger({
+            type: EmbeddedContentEventType.GetStep,
+            requestId: '5',
+        });
+
+        await new Promise((resolve) => process.nextTick(resolve));
+
+        expect(messagePoster.post).toHaveBeenCalledWith({
+            type: EmbeddedCheckoutEventType.CommandSucceeded,
+            requestId: '5',
+            payload: 'billing',
+        });
+    });
+
     it('invokes message callbacks if registered', () => {
         const handler = jest.fn();
 
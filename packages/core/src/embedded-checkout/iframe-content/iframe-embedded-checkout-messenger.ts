@@ -1,9 +1,14 @@
 import { bindDecorator as bind } from '@bigcommerce/checkout-sdk/utility';
 
+import { Cart } from '../../cart';
 import { CustomError, isCustomError } from '../../common/error/errors';
 import { IframeEventListener, IframeEventPoster } from '../../common/iframe';
+import { Consignment } from '../../shipping';
 import EmbeddedCheckoutError from '../embedded-checkout-error';
 import {
+    EmbeddedCheckoutCartUpdatedEvent,
+    EmbeddedCheckoutCommandFailedEvent,
+    EmbeddedCheckoutCommandSucceededEvent,
     EmbeddedCheckoutCompleteEvent,
     EmbeddedCheckoutErrorEvent,
     EmbeddedCheckoutEvent,
@@ -12,7 +17,10 @@ import {
     EmbeddedCheckoutFrameErrorEvent,
     EmbeddedCheckoutFrameLoadedEvent,
     EmbeddedCheckoutLoadedEvent,
+    EmbeddedCheckoutShippingOptionSelectedEvent,
     EmbeddedCheckoutSignedOutEvent,
+    EmbeddedCheckoutStep,
+    EmbeddedCheckoutStepChangedEvent,
 } from '../embedded-checkout-events';
 import EmbeddedCheckoutStyles from '../embedded-checkout-styles';
 
@@ -91,6 +99,54 @@ export default class IframeEmbeddedCheckoutMessenger implements EmbeddedCheckout
         this._postMessage(message);
     }
 
+    postStepChanged(step: EmbeddedCheckoutStep): void {
+        const message: EmbeddedCheckoutStepChangedEvent = {
+            type: EmbeddedCheckoutEventType.StepChanged,
+            payload: { step },
+        };
+
+        this._postMessage(message);
+    }
+
+    postCartUpdated(cart: Cart): void {
+        const { physicalItems, digitalItems, customItems = [], giftCertificates } = cart.lineItems;
+        const message: EmbeddedCheckoutCartUpdatedEvent = {
+            type: EmbeddedCheckoutEventType.CartUpdated,
+            payload: {
+                cartId: cart.id,
+                cartAmount: cart.cartAmount,
+                currencyCode: cart.currency.code,
+                itemCount:
+                    [...physicalItems, ...digitalItems, ...customItems].reduce(
+                        (count, { quantity }) => count + quantity,
+                        0,
+                    ) + giftCertificates.length,
+            },
+        };
+
+        this._postMessage(message);
+    }
+
+    postShippingOptionSelected(consignment: Consignment): void {
+        const { selectedShippingOption } = consignment;
+
+        if (!selectedShippingOption) {
+            return;
+        }
+
+        const message: EmbeddedCheckoutShippingOptionSelectedEvent = {
+            type: EmbeddedCheckoutEventType.ShippingOptionSelected,
+            payload: {
+                consignmentId: consignment.id,
+                shippingOptionId: selectedShippingOption.id,
+                description: selectedShippingOption.description,
+                cost: selectedShippingOption.cost,
+            },
+        };
+
+        this._postMessage(message);
+    }
+
     receiveStyles(handler: (styles: EmbeddedCheckoutStyles) => void): void {
         this._messageListener.addListener(
             EmbeddedContentEventType.StyleConfigured,
@@ -98,6 +154,63 @@ export default class IframeEmbeddedCheckoutMessenger implements EmbeddedCheckout
                 handler(payload);
             },
         );
+
+        this._messageListener.addListener(
+            EmbeddedContentEventType.UpdateStyles,
+            ({ requestId, payload }) => this._respond(requestId, () => handler(payload)),
+        );
+    }
+
+    receiveCoupon(handler: (code: string) => Promise<void> | void): void {
+        this._messageListener.addListener(
+            EmbeddedContentEventType.ApplyCoupon,
+            ({ requestId, payload }) => this._respond(requestId, () => handler(payload.code)),
+        );
+    }
+
+    receiveEmail(handler: (email: string) => Promise<void> | void): void {
+        this._messageListener.addListener(
+            EmbeddedContentEventType.PrefillEmail,
+            ({ requestId, payload }) => this._respond(requestId, () => handler(payload.email)),
+        );
+    }
+
+    receiveLocale(handler: (locale: string) => Promise<void> | void): void {
+        this._messageListener.addListener(
+            EmbeddedContentEventType.ChangeLocale,
+            ({ requestId, payload }) => this._respond(requestId, () => handler(payload.locale)),
+        );
+    }
+
+    receiveStepRequest(handler: () => Promise<EmbeddedCheckoutStep> | EmbeddedCheckoutStep): void {
+        this._messageListener.addListener(EmbeddedContentEventType.GetStep, ({ requestId }) =>
+            this._respond(requestId, handler),
+        );
+    }
+
+    private _respond(requestId: string, handler: () => unknown): Promise<void> {
+        return Promise.resolve()
+            .then(handler)
+            .then(
+                (payload) => {
+                    const message: EmbeddedCheckoutCommandSucceededEvent = {
+                        type: EmbeddedCheckoutEventType.CommandSucceeded,
+                        requestId,
+                        payload,
+                    };
+
+                    this._postMessage(message);
+                },
+                (error) => {
+                    const message: EmbeddedCheckoutCommandFailedEvent = {
+                        type: EmbeddedCheckoutEventType.CommandFailed,
+                        requestId,
+                        payload: this._transformError(error),
+                    };
+
+                    this._postMessage(message);
+                },
+            );
     }
 
     private _postMessage(message: EmbeddedCheckoutEvent, options?: { untargeted?: boolean }): void {
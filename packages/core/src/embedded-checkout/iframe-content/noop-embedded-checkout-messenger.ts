@@ -16,5 +16,19 @@ export default class NoopEmbeddedCheckoutMessenger implements EmbeddedCheckoutMe
 
     postSignedOut(): void {}
 
+    postStepChanged(): void {}
+
+    postCartUpdated(): void {}
+
+    postShippingOptionSelected(): void {}
+
     receiveStyles(): void {}
+
+    receiveCoupon(): void {}
+
+    receiveEmail(): void {}
+
+    receiveLocale(): void {}
+
+    receiveStepRequest(): void {}
 }
@@ -0,0 +1,112 @@
+import EmbeddedCheckoutTheme from './embedded-checkout-theme';
+import validateEmbeddedCheckoutTheme from './validate-embedded-checkout-theme';
+
+describe('validateEmbeddedCheckoutTheme()', () => {
+    let theme: EmbeddedCheckoutTheme;
+
+    beforeEach(() => {
+        theme = {
+            colorScheme: 'auto',
+            colors: {
+                primary: '#0a6cff',
+                onPrimary: 'white',
+                text: 'rgb(20, 20, 20)',
+                border: 'hsla(0, 0%, 80%, 0.5)',
+            },
+            darkColors: {
+                background: '#111',
+            },
+            spacing: { small: '4px', medium: '0.5rem', large: '1.5em' },
+            radius: '0',
+            font: {
+                family: ['Open Sans', 'sans-serif'],
+                urls: ['https://fonts.googleapis.com/css2?family=Open+Sans&display=swap'],
+            },
+        };
+    });
+
+    it('returns no errors if theme is valid', () => {
+        expect(validateEmbeddedCheckoutTheme(theme)).toEqual([]);
+    });
+
+    it('returns error for unknown tokens', () => {
+        expect(
+            validateEmbeddedCheckoutTheme({
+                ...theme,
+                colors: { ...theme.colors, accent: '#fff' },
+                shadow: 'none',
+            } as EmbeddedCheckoutTheme),
+        ).toEqual([
+            { token: 'shadow', message: '`shadow` is not a known theme token.' },
+            { token: 'colors.accent', message: '`colors.accent` is not a known theme token.' },
+        ]);
+    });
+
+    it('returns error for invalid color scheme', () => {
+        expect(
+            validateEmbeddedCheckoutTheme({
+                colorScheme: 'sepia',
+            } as unknown as EmbeddedCheckoutTheme),
+        ).toEqual([expect.objectContaining({ token: 'colorScheme' })]);
+    });
+
+    it('returns error for invalid values', () => {
+        expect(
+            validateEmbeddedCheckoutTheme({
+                colors: { primary: '#12345' },
+                spacing: { small: '4' },
+                radius: '10%',
+                font: { family: ['Open_Sans!'], urls: ['http://fonts.com/font.css'] },
+            }),
+        ).toEqual([
+            {
+                token: 'colors.primary',
+                message: '`colors.primary` must be a hex, rgb(a), hsl(a) or named color: "#12345".',
+            },
+            {
+                token: 'spacing.small',
+                message: '`spacing.small` must be a length in px, rem or em: "4".',
+            },
+            { token: 'radius', message: '`radius` must be a length in px, rem or em: "10%".' },
+            expect.objectContaining({ token: 'font.family.0' }),
+            {
+                token: 'font.urls.0',
+                message: '`font.urls.0` must be an HTTPS URL: "http://fonts.com/font.css".',
+            },
+        ]);
+    });
+
+    it('returns error for unsafe values', () => {
+        expect(
+            validateEmbeddedCheckoutTheme({
+                colors: {
+                    primary: 'red; background: url(https://evil.com)',
+                    background: 'expression(alert(1))',
+                },
+                font: { urls: ['https://fonts.com/a.css"><script>'] },
+            }),
+        ).toEqual([
+            {
+                token: 'colors.primary',
+                message:
+                    '`colors.primary` contains characters or functions that are not allowed: "red; background: url(https://evil.com)".',
+            },
+            expect.objectContaining({ token: 'colors.background' }),
+            expect.objectContaining({ token: 'font.urls.0' }),
+        ]);
+    });
+
+    it('returns error if values are not of expected type', () => {
+        expect(
+            validateEmbeddedCheckoutTheme({
+                colors: { primary: 123 },
+                spacing: 'large',
+                font: { family: 'Arial' },
+            } as unknown as EmbeddedCheckoutTheme),
+        ).toEqual([
+            { token: 'colors.primary', message: '`colors.primary` must be a string.' },
+            { token: 'spacing', message: '`spacing` must be an object.' },
+            { token: 'font.family', message: '`font.family` must be a list.' },
+        ]);
+    });
+});
@@ -0,0 +1,189 @@
+import { isPlainObject } from 'lodash';
+
+import EmbeddedCheckoutTheme, {
+    EmbeddedCheckoutColorTokens,
+    EmbeddedCheckoutThemeTokenError,
+} from './embedded-checkout-theme';
+
+const THEME_TOKENS = ['colorScheme', 'colors', 'darkColors', 'spacing', 'radius', 'font'];
+const COLOR_SCHEMES = ['light', 'dark', 'auto'];
+const COLOR_TOKENS = [
+    'primary',
+    'onPrimary',
+    'background',
+    'surface',
+    'text',
+    'mutedText',
+    'border',
+    'error',
+];
+const SPACING_TOKENS = ['small', 'medium', 'large'];
+const FONT_TOKENS = ['family', 'urls'];
+
+// Values are inserted into the stylesheet of the checkout form, therefore
+// anything that could end a declaration or load an external resource is
+// rejected regardless of the token.
+const UNSAFE_VALUE_PATTERN = /[;{}<>\\"'`]|\/\*|url\(|expression\(|javascript:|@import/i;
+const COLOR_PATTERN =
+    /^(#([0-9a-f]{3,4}|[0-9a-f]{6}|[0-9a-f]{8})|(rgb|hsl)a?\([\d\s.,%/]+\)|[a-z]+)$/i;
+const LENGTH_PATTERN = /^(0|\d+(\.\d+)?(px|rem|em))$/;
+const FONT_FAMILY_PATTERN = /^[a-z0-9][a-z0-9 -]*$/i;
+const FONT_URL_PATTERN = /^https:\/\/[^\s()]+$/;
+
+/**
+ * Validates the design tokens of an embedded checkout theme and returns a list
+ * of errors describing the tokens that are unknown or have values that are not
+ * allowed. An empty list is returned if the theme is valid.
+ */
+export default function validateEmbeddedCheckoutTheme(
+    theme: EmbeddedCheckoutTheme,
+): EmbeddedCheckoutThemeTokenError[] {
+    const errors: EmbeddedCheckoutThemeTokenError[] = [];
+
+    validateKeys(theme, THEME_TOKENS, '', errors);
+
+    if (theme.colorScheme !== undefined && COLOR_SCHEMES.indexOf(theme.colorScheme) === -1) {
+        errors.push({
+            token: 'colorScheme',
+            message: `\`colorScheme\` must be one of ${COLOR_SCHEMES.join(', ')}.`,
+        });
+    }
+
+    const colorGroups: { [key: string]: EmbeddedCheckoutColorTokens | undefined } = {
+        colors: theme.colors,
+        darkColors: theme.darkColors,
+    };
+
+    Object.keys(colorGroups).forEach((group) => {
+        const colors = colorGroups[group];
+
+        if (validateGroup(colors, group, COLOR_TOKENS, errors)) {
+            Object.keys(colors).forEach((key) =>
+                validateValue(
+                    colors[key],
+                    `${group}.${key}`,
+                    COLOR_PATTERN,
+                    'a hex, rgb(a), hsl(a) or named color',
+                    errors,
+                ),
+            );
+        }
+    });
+
+    if (validateGroup(theme.spacing, 'spacing', SPACING_TOKENS, errors)) {
+        const spacing = theme.spacing;
+
+        Object.keys(spacing).forEach((key) =>
+            validateValue(
+                spacing[key],
+                `spacing.${key}`,
+                LENGTH_PATTERN,
+                'a length in px, rem or em',
+                errors,
+            ),
+        );
+    }
+
+    if (theme.radius !== undefined) {
+        validateValue(theme.radius, 'radius', LENGTH_PATTERN, 'a length in px, rem or em', errors);
+    }
+
+    if (validateGroup(theme.font, 'font', FONT_TOKENS, errors)) {
+        validateList(
+            theme.font.family,
+            'font.family',
+            FONT_FAMILY_PATTERN,
+            'a font family name containing only letters, numbers, spaces and hyphens',
+            errors,
+        );
+        validateList(theme.font.urls, 'font.urls', FONT_URL_PATTERN, 'an HTTPS URL', errors);
+    }
+
+    return errors;
+}
+
+function validateGroup(
+    group: unknown,
+    token: string,
+    allowedKeys: string[],
+    errors: EmbeddedCheckoutThemeTokenError[],
+): group is { [key: string]: unknown } {
+    if (group === undefined) {
+        return false;
+    }
+
+    if (!isPlainObject(group)) {
+        errors.push({ token, message: `\`${token}\` must be an object.` });
+
+        return false;
+    }
+
+    return validateKeys(group as object, allowedKeys, `${token}.`, errors);
+}
+
+function validateKeys(
+    object: object,
+    allowedKeys: string[],
+    prefix: string,
+    errors: EmbeddedCheckoutThemeTokenError[],
+): boolean {
+    const unknownKeys = Object.keys(object).filter((key) => allowedKeys.indexOf(key) === -1);
+
+    unknownKeys.forEach((key) =>
+        errors.push({
+            token: `${prefix}${key}`,
+            message: `\`${prefix}${key}\` is not a known theme token.`,
+        }),
+    );
+
+    return unknownKeys.length === 0;
+}
+
+function validateList(
+    values: unknown,
+    token: string,
+    pattern: RegExp,
+    description: string,
+    errors: EmbeddedCheckoutThemeTokenError[],
+): void {
+    if (values === undefined) {
+        return;
+    }
+
+    if (!Array.isArray(values)) {
+        errors.push({ token, message: `\`${token}\` must be a list.` });
+
+        return;
+    }
+
+    values.forEach((value, index) =>
+        validateValue(value, `${token}.${index}`, pattern, description, errors),
+    );
+}
+
+function validateValue(
+    value: unknown,
+    token: string,
+    pattern: RegExp,
+    description: string,
+    errors: EmbeddedCheckoutThemeTokenError[],
+): void {
+    if (typeof value !== 'string') {
+        errors.push({ token, message: `\`${token}\` must be a string.` });
+
+        return;
+    }
+
+    if (UNSAFE_VALUE_PATTERN.test(value)) {
+        errors.push({
+            token,
+            message: `\`${token}\` contains characters or functions that are not allowed: "${value}".`,
+        });
+
+        return;
+    }
+
+    if (!pattern.test(value)) {
+        errors.push({ token, message: `\`${token}\` must be ${description}: "${value}".` });
+    }
+}
@@ -4,7 +4,14 @@ import { DataStoreProjection } from '../common/data-store';
 import { ExtensionEventBroadcaster } from './extension-event-broadcaster';
 import { ExtensionEventType } from './extension-events';
 import { ExtensionMessenger } from './extension-messenger';
-import { subscribeConsignmentsChange } from './subscribers';
+import {
+    subscribeBillingAddressChange,
+    subscribeCartChange,
+    subscribeConsignmentsChange,
+    subscribeCouponsChange,
+    subscribeOrderPlacement,
+    subscribePaymentMethodSelection,
+} from './subscribers';
 
 export function createExtensionEventBroadcaster(
     store: DataStoreProjection<CheckoutSelectors>,
@@ -12,6 +19,11 @@ export function createExtensionEventBroadcaster(
 ): ExtensionEventBroadcaster {
     const subscribers = {
         [ExtensionEventType.ConsignmentsChanged]: subscribeConsignmentsChange,
+        [ExtensionEventType.CartChanged]: subscribeCartChange,
+        [ExtensionEventType.CouponsChanged]: subscribeCouponsChange,
+        [ExtensionEventType.BillingAddressChanged]: subscribeBillingAddressChange,
+        [ExtensionEventType.PaymentMethodSelected]: subscribePaymentMethodSelection,
+        [ExtensionEventType.OrderPlaced]: subscribeOrderPlacement,
     };
 
     return new ExtensionEventBroadcaster(store, messenger, subscribers);
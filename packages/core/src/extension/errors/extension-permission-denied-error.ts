@@ -0,0 +1,54 @@
+import { StandardError } from '../../common/error/errors';
+
+export enum ExtensionPermissionDeniedErrorType {
+    CommandNotAllowed = 'command_not_allowed',
+    DataCategoryNotAllowed = 'data_category_not_allowed',
+    EventNotAllowed = 'event_not_allowed',
+    IframeStylePropertyNotAllowed = 'iframe_style_property_not_allowed',
+    QueryNotAllowed = 'query_not_allowed',
+}
+
+/**
+ * This error is created when an extension sends a command or a query, or is
+ * about to receive an event, that is not allowed by its permissions manifest
+ * or by the data categories it has declared.
+ */
+export class ExtensionPermissionDeniedError extends StandardError {
+    constructor(
+        public subtype: ExtensionPermissionDeniedErrorType,
+        public extensionId: string,
+        public messageType: string,
+        public properties?: string[],
+    ) {
+        super(getErrorMessage(subtype, extensionId, messageType, properties));
+
+        this.name = 'ExtensionPermissionDeniedError';
+        this.type = 'extension_permission_denied';
+    }
+}
+
+function getErrorMessage(
+    subtype: ExtensionPermissionDeniedErrorType,
+    extensionId: string,
+    messageType: string,
+    properties: string[] = [],
+): string {
+    switch (subtype) {
+        case ExtensionPermissionDeniedErrorType.CommandNotAllowed:
+            return `Extension(${extensionId}) is not allowed to send the command: ${messageType}.`;
+
+        case ExtensionPermissionDeniedErrorType.QueryNotAllowed:
+            return `Extension(${extensionId}) is not allowed to send the query: ${messageType}.`;
+
+        case ExtensionPermissionDeniedErrorType.DataCategoryNotAllowed:
+            return `Extension(${extensionId}) has not declared the data category required by: ${messageType}.`;
+
+        case ExtensionPermissionDeniedErrorType.EventNotAllowed:
+            return `Extension(${extensionId}) is not allowed to receive the event: ${messageType}.`;
+
+        case ExtensionPermissionDeniedErrorType.IframeStylePropertyNotAllowed:
+            return `Extension(${extensionId}) is not allowed to set the iframe style properties: ${properties.join(
+                ', ',
+            )}.`;
+    }
+}
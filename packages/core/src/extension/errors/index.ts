@@ -2,3 +2,7 @@ export { ExtensionNotFoundError } from './extension-not-found-error';
 export { ExtensionNotLoadedError } from './extension-not-loaded-error';
 export { UnsupportedExtensionCommandError } from './unsupported-extension-command-error';
 export { UnsupportedExtensionQueryError } from './unsupported-extension-query-error';
+export {
+    ExtensionPermissionDeniedError,
+    ExtensionPermissionDeniedErrorType,
+} from './extension-permission-denied-error';
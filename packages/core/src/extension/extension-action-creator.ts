@@ -68,7 +68,7 @@ export class ExtensionActionCreator {
                     if (extension.type === ExtensionType.Worker) {
                         const worker = createExtensionWebWorker(extension.url);
 
-                        workerExtensionMessenger.add(extension.id, worker);
+                        workerExtensionMessenger.add(extension.id, worker, extension.permissions);
                     } else {
                         const iframe = new ExtensionIframe(container, extension, {
                             cartId,
@@ -0,0 +1,40 @@
+import { ExtensionPermissionDeniedError, ExtensionPermissionDeniedErrorType } from './errors';
+import { ExtensionAuditLog } from './extension-audit-log';
+import { ExtensionCommandType } from './extension-commands';
+
+describe('ExtensionAuditLog', () => {
+    function createError(extensionId = '123'): ExtensionPermissionDeniedError {
+        return new ExtensionPermissionDeniedError(
+            ExtensionPermissionDeniedErrorType.CommandNotAllowed,
+            extensionId,
+            ExtensionCommandType.ReloadCheckout,
+        );
+    }
+
+    it('records rejected messages', () => {
+        const auditLog = new ExtensionAuditLog();
+        const error = createError();
+
+        auditLog.record(error);
+
+        expect(auditLog.getEntries()).toEqual([
+            {
+                extensionId: '123',
+                messageType: ExtensionCommandType.ReloadCheckout,
+                reason: ExtensionPermissionDeniedErrorType.CommandNotAllowed,
+                message: error.message,
+                timestamp: expect.any(Number),
+            },
+        ]);
+    });
+
+    it('discards oldest entries when limit is reached', () => {
+        const auditLog = new ExtensionAuditLog({ maxEntries: 2 });
+
+        auditLog.record(createError('1'));
+        auditLog.record(createError('2'));
+        auditLog.record(createError('3'));
+
+        expect(auditLog.getEntries().map(({ extensionId }) => extensionId)).toEqual(['2', '3']);
+    });
+});
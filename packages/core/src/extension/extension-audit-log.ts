@@ -0,0 +1,48 @@
+import { ExtensionPermissionDeniedError, ExtensionPermissionDeniedErrorType } from './errors';
+
+export interface ExtensionAuditLogEntry {
+    extensionId: string;
+    messageType: string;
+    reason: ExtensionPermissionDeniedErrorType;
+    message: string;
+    timestamp: number;
+}
+
+export interface ExtensionAuditLogOptions {
+    /**
+     * The maximum number of entries to keep. The oldest entries are discarded
+     * once the limit is reached.
+     */
+    maxEntries?: number;
+}
+
+const DEFAULT_MAX_ENTRIES = 100;
+
+/**
+ * Records the messages of extensions that have been rejected because they are
+ * not allowed by their permissions manifest.
+ */
+export class ExtensionAuditLog {
+    private _entries: ExtensionAuditLogEntry[] = [];
+
+    constructor(private _options: ExtensionAuditLogOptions = {}) {}
+
+    record(error: ExtensionPermissionDeniedError): void {
+        const { maxEntries = DEFAULT_MAX_ENTRIES } = this._options;
+
+        this._entries = [
+            ...this._entries,
+            {
+                extensionId: error.extensionId,
+                messageType: error.messageType,
+                reason: error.subtype,
+                message: error.message,
+                timestamp: Date.now(),
+            },
+        ].slice(-maxEntries);
+    }
+
+    getEntries(): ExtensionAuditLogEntry[] {
+        return this._entries;
+    }
+}
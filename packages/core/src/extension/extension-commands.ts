@@ -3,7 +3,11 @@ export type ExtensionCommand =
     | ShowLoadingIndicatorCommand
     | SetIframeStyleCommand
     | ReRenderShippingForm
-    | ReRenderShippingStep;
+    | ReRenderShippingStep
+    | ShowNotificationCommand
+    | NavigateToStepCommand
+    | SetFormFieldValueCommand
+    | BlockOrderSubmissionCommand;
 
 export enum ExtensionCommandType {
     ReloadCheckout = 'EXTENSION:RELOAD_CHECKOUT',
@@ -11,8 +15,16 @@ export enum ExtensionCommandType {
     SetIframeStyle = 'EXTENSION:SET_IFRAME_STYLE',
     ReRenderShippingForm = 'EXTENSION:RE_RENDER_SHIPPING_FORM',
     ReRenderShippingStep = 'EXTENSION:RE_RENDER_SHIPPING_STEP',
+    ShowNotification = 'EXTENSION:SHOW_NOTIFICATION',
+    NavigateToStep = 'EXTENSION:NAVIGATE_TO_STEP',
+    SetFormFieldValue = 'EXTENSION:SET_FORM_FIELD_VALUE',
+    BlockOrderSubmission = 'EXTENSION:BLOCK_ORDER_SUBMISSION',
 }
 
+export type ExtensionNotificationSeverity = 'info' | 'success' | 'warning' | 'error';
+
+export type ExtensionCheckoutStep = 'customer' | 'shipping' | 'billing' | 'payment';
+
 export interface ReloadCheckoutCommand {
     type: ExtensionCommandType.ReloadCheckout;
 }
@@ -40,10 +52,56 @@ export interface ReRenderShippingForm {
 export interface ReRenderShippingStep {
     type: ExtensionCommandType.ReRenderShippingStep;
 }
+
+export interface ShowNotificationCommand {
+    type: ExtensionCommandType.ShowNotification;
+    payload: {
+        message: string;
+        severity: ExtensionNotificationSeverity;
+        /**
+         * The number of milliseconds after which the notification is
+         * dismissed. The notification stays until the shopper dismisses it if
+         * it is not provided.
+         */
+        duration?: number;
+    };
+}
+
+export interface NavigateToStepCommand {
+    type: ExtensionCommandType.NavigateToStep;
+    payload: {
+        step: ExtensionCheckoutStep;
+    };
+}
+
+export interface SetFormFieldValueCommand {
+    type: ExtensionCommandType.SetFormFieldValue;
+    payload: {
+        fieldId: string;
+        value: string | number | string[];
+    };
+}
+
+export interface BlockOrderSubmissionCommand {
+    type: ExtensionCommandType.BlockOrderSubmission;
+    payload: {
+        block: boolean;
+        /**
+         * The reason why the order cannot be submitted, which can be
+         * displayed to the shopper.
+         */
+        reason?: string;
+    };
+}
+
 export interface ExtensionCommandMap {
     [ExtensionCommandType.ReloadCheckout]: ReloadCheckoutCommand;
     [ExtensionCommandType.ShowLoadingIndicator]: ShowLoadingIndicatorCommand;
     [ExtensionCommandType.SetIframeStyle]: SetIframeStyleCommand;
     [ExtensionCommandType.ReRenderShippingForm]: ReRenderShippingForm;
     [ExtensionCommandType.ReRenderShippingStep]: ReRenderShippingStep;
+    [ExtensionCommandType.ShowNotification]: ShowNotificationCommand;
+    [ExtensionCommandType.NavigateToStep]: NavigateToStepCommand;
+    [ExtensionCommandType.SetFormFieldValue]: SetFormFieldValueCommand;
+    [ExtensionCommandType.BlockOrderSubmission]: BlockOrderSubmissionCommand;
 }
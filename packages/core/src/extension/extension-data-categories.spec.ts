@@ -0,0 +1,76 @@
+import { ExtensionPermissionDeniedError, ExtensionPermissionDeniedErrorType } from './errors';
+import { ExtensionDataCategory } from './extension';
+import {
+    canExtensionAccessData,
+    getDataCategoryPermissionError,
+    getExtensionDataCategory,
+} from './extension-data-categories';
+import { ExtensionEventType } from './extension-events';
+import { ExtensionMessageType } from './extension-message';
+import { ExtensionQueryType } from './extension-queries';
+import { getExtensions } from './extension.mock';
+
+describe('getExtensionDataCategory()', () => {
+    it('returns data category of event', () => {
+        expect(getExtensionDataCategory(ExtensionEventType.CartChanged)).toBe(
+            ExtensionDataCategory.Cart,
+        );
+    });
+
+    it('returns data category of query and its response', () => {
+        expect(getExtensionDataCategory(ExtensionQueryType.GetSelectedPaymentMethod)).toBe(
+            ExtensionDataCategory.Payment,
+        );
+        expect(getExtensionDataCategory(ExtensionMessageType.GetSelectedPaymentMethod)).toBe(
+            ExtensionDataCategory.Payment,
+        );
+    });
+});
+
+describe('canExtensionAccessData()', () => {
+    it('allows extension to access data of declared categories', () => {
+        const extension = {
+            ...getExtensions()[0],
+            dataCategories: [ExtensionDataCategory.Cart],
+        };
+
+        expect(canExtensionAccessData(extension, ExtensionEventType.CartChanged)).toBe(true);
+        expect(canExtensionAccessData(extension, ExtensionQueryType.GetCart)).toBe(true);
+        expect(canExtensionAccessData(extension, ExtensionQueryType.GetCheckout)).toBe(false);
+        expect(canExtensionAccessData(extension, ExtensionEventType.ConsignmentsChanged)).toBe(
+            false,
+        );
+    });
+
+    it('only allows extension to access consignments if it does not declare categories', () => {
+        const extension = getExtensions()[0];
+
+        expect(canExtensionAccessData(extension, ExtensionEventType.ConsignmentsChanged)).toBe(
+            true,
+        );
+        expect(canExtensionAccessData(extension, ExtensionQueryType.GetConsignments)).toBe(true);
+        expect(canExtensionAccessData(extension, ExtensionEventType.OrderPlaced)).toBe(false);
+    });
+});
+
+describe('getDataCategoryPermissionError()', () => {
+    it('returns error if extension has not declared data category', () => {
+        const extension = getExtensions()[0];
+        const error = getDataCategoryPermissionError(extension, ExtensionQueryType.GetCart);
+
+        expect(error).toBeInstanceOf(ExtensionPermissionDeniedError);
+        expect(error).toEqual(
+            expect.objectContaining({
+                subtype: ExtensionPermissionDeniedErrorType.DataCategoryNotAllowed,
+                extensionId: extension.id,
+                messageType: ExtensionQueryType.GetCart,
+            }),
+        );
+    });
+
+    it('returns nothing if extension has declared data category', () => {
+        expect(
+            getDataCategoryPermissionError(getExtensions()[0], ExtensionQueryType.GetConsignments),
+        ).toBeUndefined();
+    });
+});
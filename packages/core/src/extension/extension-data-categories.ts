@@ -0,0 +1,60 @@
+import { ExtensionPermissionDeniedError, ExtensionPermissionDeniedErrorType } from './errors';
+import { Extension, ExtensionDataCategory } from './extension';
+import { ExtensionEventType } from './extension-events';
+import { ExtensionMessageType } from './extension-message';
+import { ExtensionQueryType } from './extension-queries';
+
+// Consignments were the only data available to extensions before data
+// categories were introduced, so extensions that have not declared any
+// categories keep access to them and nothing else. Any other category has to
+// be declared explicitly.
+export const DEFAULT_EXTENSION_DATA_CATEGORIES = [ExtensionDataCategory.Consignments];
+
+const EXTENSION_EVENT_DATA_CATEGORIES: Record<ExtensionEventType, ExtensionDataCategory> = {
+    [ExtensionEventType.ConsignmentsChanged]: ExtensionDataCategory.Consignments,
+    [ExtensionEventType.CartChanged]: ExtensionDataCategory.Cart,
+    [ExtensionEventType.CouponsChanged]: ExtensionDataCategory.Coupons,
+    [ExtensionEventType.BillingAddressChanged]: ExtensionDataCategory.BillingAddress,
+    [ExtensionEventType.PaymentMethodSelected]: ExtensionDataCategory.Payment,
+    [ExtensionEventType.OrderPlaced]: ExtensionDataCategory.Order,
+};
+
+// The responses to queries share the same type as the queries themselves.
+const EXTENSION_QUERY_DATA_CATEGORIES: Record<ExtensionQueryType, ExtensionDataCategory> = {
+    [ExtensionQueryType.GetConsignments]: ExtensionDataCategory.Consignments,
+    [ExtensionQueryType.GetCart]: ExtensionDataCategory.Cart,
+    [ExtensionQueryType.GetBillingAddress]: ExtensionDataCategory.BillingAddress,
+    [ExtensionQueryType.GetCheckout]: ExtensionDataCategory.Checkout,
+    [ExtensionQueryType.GetSelectedPaymentMethod]: ExtensionDataCategory.Payment,
+};
+
+export function getExtensionDataCategory(
+    type: ExtensionEventType | ExtensionMessageType | ExtensionQueryType,
+): ExtensionDataCategory | undefined {
+    return (
+        EXTENSION_EVENT_DATA_CATEGORIES[type as ExtensionEventType] ??
+        EXTENSION_QUERY_DATA_CATEGORIES[type as ExtensionQueryType]
+    );
+}
+
+export function canExtensionAccessData(
+    { dataCategories = DEFAULT_EXTENSION_DATA_CATEGORIES }: Extension,
+    type: ExtensionEventType | ExtensionMessageType | ExtensionQueryType,
+): boolean {
+    const category = getExtensionDataCategory(type);
+
+    return !category || dataCategories.includes(category);
+}
+
+export function getDataCategoryPermissionError(
+    extension: Extension,
+    type: ExtensionEventType | ExtensionMessageType | ExtensionQueryType,
+): ExtensionPermissionDeniedError | undefined {
+    if (!canExtensionAccessData(extension, type)) {
+        return new ExtensionPermissionDeniedError(
+            ExtensionPermissionDeniedErrorType.DataCategoryNotAllowed,
+            extension.id,
+            type,
+        );
+    }
+}
@@ -5,7 +5,7 @@ import { DataStoreProjection } from '../common/data-store';
 import { getConsignments } from '../shipping/consignments.mock';
 
 import { ExtensionEventBroadcaster } from './extension-event-broadcaster';
-import { ExtensionEventType } from './extension-events';
+import { ExtensionEvent, ExtensionEventType } from './extension-events';
 import { ExtensionInternalCommandType } from './extension-internal-commands';
 import { ExtensionMessenger } from './extension-messenger';
 import { getExtensions } from './extension.mock';
@@ -37,6 +37,11 @@ describe('ExtensionEventBroadcaster', () => {
             messenger as ExtensionMessenger,
             {
                 [ExtensionEventType.ConsignmentsChanged]: subscriber,
+                [ExtensionEventType.CartChanged]: jest.fn(),
+                [ExtensionEventType.CouponsChanged]: jest.fn(),
+                [ExtensionEventType.BillingAddressChanged]: jest.fn(),
+                [ExtensionEventType.PaymentMethodSelected]: jest.fn(),
+                [ExtensionEventType.OrderPlaced]: jest.fn(),
             },
         );
 
@@ -94,7 +99,7 @@ describe('ExtensionEventBroadcaster', () => {
             },
         });
 
-        const event = {
+        const event: ExtensionEvent = {
             type: ExtensionEventType.ConsignmentsChanged,
             payload: {
                 consignments: getConsignments(),
@@ -107,6 +112,35 @@ describe('ExtensionEventBroadcaster', () => {
         expect(messenger.post).toHaveBeenCalledWith(extensions[0].id, event);
     });
 
+    it('broadcasts event only to extensions subscribed to its type', () => {
+        const extensions = getExtensions();
+
+        subject.listen();
+
+        eventEmitter.emit('message', {
+            origin: new URL(extensions[0].url).origin,
+            data: {
+                type: ExtensionInternalCommandType.Subscribe,
+                payload: {
+                    eventType: ExtensionEventType.CartChanged,
+                    extensionId: extensions[0].id,
+                },
+            },
+        });
+
+        const event: ExtensionEvent = {
+            type: ExtensionEventType.ConsignmentsChanged,
+            payload: {
+                consignments: getConsignments(),
+                previousConsignments: [],
+            },
+        };
+
+        subject.broadcast(event);
+
+        expect(messenger.post).not.toHaveBeenCalled();
+    });
+
     it('listens to unsubscribe command', () => {
         const extensions = getExtensions();
 
@@ -134,7 +168,7 @@ describe('ExtensionEventBroadcaster', () => {
             },
         });
 
-        const event = {
+        const event: ExtensionEvent = {
             type: ExtensionEventType.ConsignmentsChanged,
             payload: {
                 consignments: getConsignments(),
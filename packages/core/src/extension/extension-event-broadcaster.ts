@@ -13,7 +13,7 @@ import { ExtensionMessenger } from './extension-messenger';
 import { ExtensionChangeSubscriber, ExtensionChangeUnsubscriber } from './subscribers';
 
 export class ExtensionEventBroadcaster {
-    private _subscribed: { [id: string]: boolean } = {};
+    private _subscribed: { [type: string]: { [id: string]: boolean } } = {};
     private _unsubscribers: { [type: string]: ExtensionChangeUnsubscriber } = {};
     private _listeners: { [id: string]: IframeEventListener<ExtensionInternalCommandMap> } = {};
 
@@ -59,7 +59,7 @@ export class ExtensionEventBroadcaster {
         } = this._store.getState();
 
         getExtensions()?.forEach((extension) => {
-            if (!this._subscribed[extension.id]) {
+            if (!this._subscribed[event.type]?.[extension.id]) {
                 return;
             }
 
@@ -70,7 +70,7 @@ export class ExtensionEventBroadcaster {
     private _handleSubscribe({
         payload: { eventType, extensionId },
     }: ExtensionSubscribeCommand): void {
-        this._subscribed[extensionId] = true;
+        this._subscribed[eventType] = { ...this._subscribed[eventType], [extensionId]: true };
 
         if (this._unsubscribers[eventType]) {
             return;
@@ -82,9 +82,9 @@ export class ExtensionEventBroadcaster {
     private _handleUnsubscribe({
         payload: { eventType, extensionId },
     }: ExtensionUnsubscribeCommand): void {
-        delete this._subscribed[extensionId];
+        delete this._subscribed[eventType]?.[extensionId];
 
-        if (Object.keys(this._subscribed).length) {
+        if (Object.keys(this._subscribed[eventType] ?? {}).length) {
             return;
         }
 
@@ -1,7 +1,17 @@
+import { BillingAddress } from '../billing';
+import { Cart } from '../cart';
+import { Coupon } from '../coupon';
+import { Order } from '../order';
+import { PaymentMethod } from '../payment';
 import { Consignment } from '../shipping';
 
 export enum ExtensionEventType {
     ConsignmentsChanged = 'EXTENSION:CONSIGNMENTS_CHANGED',
+    CartChanged = 'EXTENSION:CART_CHANGED',
+    CouponsChanged = 'EXTENSION:COUPONS_CHANGED',
+    BillingAddressChanged = 'EXTENSION:BILLING_ADDRESS_CHANGED',
+    PaymentMethodSelected = 'EXTENSION:PAYMENT_METHOD_SELECTED',
+    OrderPlaced = 'EXTENSION:ORDER_PLACED',
 }
 
 export interface ConsignmentsChangedEvent {
@@ -12,8 +22,58 @@ export interface ConsignmentsChangedEvent {
     };
 }
 
-export type ExtensionEvent = ConsignmentsChangedEvent;
+export interface CartChangedEvent {
+    type: ExtensionEventType.CartChanged;
+    payload: {
+        cart?: Cart;
+        previousCart?: Cart;
+    };
+}
+
+export interface CouponsChangedEvent {
+    type: ExtensionEventType.CouponsChanged;
+    payload: {
+        coupons: Coupon[];
+        previousCoupons: Coupon[];
+    };
+}
+
+export interface BillingAddressChangedEvent {
+    type: ExtensionEventType.BillingAddressChanged;
+    payload: {
+        billingAddress?: BillingAddress;
+        previousBillingAddress?: BillingAddress;
+    };
+}
+
+export interface PaymentMethodSelectedEvent {
+    type: ExtensionEventType.PaymentMethodSelected;
+    payload: {
+        paymentMethod?: PaymentMethod;
+        previousPaymentMethod?: PaymentMethod;
+    };
+}
+
+export interface OrderPlacedEvent {
+    type: ExtensionEventType.OrderPlaced;
+    payload: {
+        order: Order;
+    };
+}
+
+export type ExtensionEvent =
+    | ConsignmentsChangedEvent
+    | CartChangedEvent
+    | CouponsChangedEvent
+    | BillingAddressChangedEvent
+    | PaymentMethodSelectedEvent
+    | OrderPlacedEvent;
 
 export interface ExtensionEventMap {
     [ExtensionEventType.ConsignmentsChanged]: ConsignmentsChangedEvent;
+    [ExtensionEventType.CartChanged]: CartChangedEvent;
+    [ExtensionEventType.CouponsChanged]: CouponsChangedEvent;
+    [ExtensionEventType.BillingAddressChanged]: BillingAddressChangedEvent;
+    [ExtensionEventType.PaymentMethodSelected]: PaymentMethodSelectedEvent;
+    [ExtensionEventType.OrderPlaced]: OrderPlacedEvent;
 }
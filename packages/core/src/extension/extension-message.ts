@@ -1,11 +1,19 @@
+import { BillingAddress } from '../billing';
+import { Cart } from '../cart';
+import { Checkout } from '../checkout';
+import { PaymentMethod } from '../payment';
 import { Consignment } from '../shipping';
 
-import { ExtensionCommand } from './extension-commands';
+import { ExtensionCommand, ExtensionCommandType } from './extension-commands';
 import { ExtensionEvent } from './extension-events';
-import { ExtensionQuery } from './extension-queries';
+import { ExtensionQuery, ExtensionQueryType } from './extension-queries';
 
 export const enum ExtensionMessageType {
     GetConsignments = 'EXTENSION:GET_CONSIGNMENTS',
+    GetCart = 'EXTENSION:GET_CART',
+    GetBillingAddress = 'EXTENSION:GET_BILLING_ADDRESS',
+    GetCheckout = 'EXTENSION:GET_CHECKOUT',
+    GetSelectedPaymentMethod = 'EXTENSION:GET_SELECTED_PAYMENT_METHOD',
 }
 
 export interface GetConsignmentsMessage {
@@ -15,10 +23,70 @@ export interface GetConsignmentsMessage {
     };
 }
 
-export type ExtensionMessage = ExtensionEvent | GetConsignmentsMessage;
+export interface GetCartMessage {
+    type: ExtensionMessageType.GetCart;
+    payload: {
+        cart?: Cart;
+    };
+}
+
+export interface GetBillingAddressMessage {
+    type: ExtensionMessageType.GetBillingAddress;
+    payload: {
+        billingAddress?: BillingAddress;
+    };
+}
+
+export interface GetCheckoutMessage {
+    type: ExtensionMessageType.GetCheckout;
+    payload: {
+        checkout?: Checkout;
+    };
+}
+
+export interface GetSelectedPaymentMethodMessage {
+    type: ExtensionMessageType.GetSelectedPaymentMethod;
+    payload: {
+        paymentMethod?: PaymentMethod;
+    };
+}
+
+/**
+ * The response to a command or a query that is rejected by the permissions
+ * manifest of an extension. It shares the same type as the rejected command
+ * or query so the extension can settle the request awaiting it.
+ */
+export interface ExtensionPermissionDeniedMessage<
+    TType extends ExtensionCommandType | ExtensionQueryType =
+        | ExtensionCommandType
+        | ExtensionQueryType,
+> {
+    type: TType;
+    error: {
+        type: string;
+        subtype: string;
+        message: string;
+    };
+}
+
+export type ExtensionMessage =
+    | ExtensionEvent
+    | GetConsignmentsMessage
+    | GetCartMessage
+    | GetBillingAddressMessage
+    | GetCheckoutMessage
+    | GetSelectedPaymentMethodMessage;
+
+export type ExtensionCommandDeniedMessageMap = {
+    [key in ExtensionCommandType]: ExtensionPermissionDeniedMessage<key>;
+};
 
-export interface ExtensionMessageMap {
+export interface ExtensionMessageMap extends ExtensionCommandDeniedMessageMap {
     [ExtensionMessageType.GetConsignments]: GetConsignmentsMessage;
+    [ExtensionMessageType.GetCart]: GetCartMessage;
+    [ExtensionMessageType.GetBillingAddress]: GetBillingAddressMessage;
+    [ExtensionMessageType.GetCheckout]: GetCheckoutMessage;
+    [ExtensionMessageType.GetSelectedPaymentMethod]: GetSelectedPaymentMethodMessage;
 }
 
 export interface ExtensionCommandOrQueryContext {
@@ -1,17 +1,20 @@
 import EventEmitter from 'events';
 
+import { getCart } from '../cart/carts.mock';
 import { createCheckoutStore, ReadableCheckoutStore } from '../checkout';
 import { getCheckoutStoreState } from '../checkout/checkouts.mock';
 import { IframeEventListener, IframeEventPoster } from '../common/iframe';
 
 import {
     ExtensionNotFoundError,
+    ExtensionPermissionDeniedErrorType,
     UnsupportedExtensionCommandError,
     UnsupportedExtensionQueryError,
 } from './errors';
 import { Extension } from './extension';
+import { ExtensionAuditLog } from './extension-audit-log';
 import { ExtensionCommandMap, ExtensionCommandType } from './extension-commands';
-import { ExtensionEvent } from './extension-events';
+import { ExtensionEvent, ExtensionEventType } from './extension-events';
 import { ExtensionMessenger } from './extension-messenger';
 import { ExtensionQueryMap, ExtensionQueryType } from './extension-queries';
 import { getExtensionEvent, getExtensions } from './extension.mock';
@@ -104,6 +107,95 @@ describe('ExtensionMessenger', () => {
             );
         });
 
+        it('should pass payload of command to handler', () => {
+            const eventEmitter = new EventEmitter();
+            const command = {
+                type: ExtensionCommandType.ShowNotification,
+                payload: { message: 'Free shipping applied', severity: 'success' },
+            };
+
+            jest.spyOn(listener, 'addListener').mockImplementation((type, listener) => {
+                eventEmitter.addListener(type, ({ data, context }) => listener(data, context));
+            });
+
+            extensionMessenger.listenForCommand(
+                extension.id,
+                ExtensionCommandType.ShowNotification,
+                extensionCommandHandler,
+            );
+
+            eventEmitter.emit(ExtensionCommandType.ShowNotification, {
+                data: command,
+                context: { extensionId: extension.id },
+            });
+
+            expect(extensionCommandHandler).toHaveBeenCalledWith(command, {
+                extensionId: extension.id,
+            });
+        });
+
+        it('should reject commands not allowed by permissions manifest', () => {
+            const eventEmitter = new EventEmitter();
+            const auditLog = new ExtensionAuditLog();
+
+            jest.spyOn(store, 'getState').mockReturnValue({
+                ...store.getState(),
+                extensions: {
+                    ...store.getState().extensions,
+                    getExtensions: () => [
+                        {
+                            ...extension,
+                            permissions: { commands: [ExtensionCommandType.ReloadCheckout] },
+                        },
+                    ],
+                },
+            });
+            jest.spyOn(listener, 'addListener').mockImplementation((type, listener) => {
+                eventEmitter.addListener(type, ({ data, context }) => listener(data, context));
+            });
+
+            const poster = new IframeEventPoster(extension.url, window);
+
+            jest.spyOn(poster, 'post').mockImplementation(jest.fn());
+
+            extensionMessenger = new ExtensionMessenger(
+                store,
+                workerExtensionMessenger,
+                { [extension.id]: listener },
+                {},
+                { [extension.id]: poster },
+                auditLog,
+            );
+
+            extensionMessenger.listenForCommand(
+                extension.id,
+                ExtensionCommandType.ShowLoadingIndicator,
+                extensionCommandHandler,
+            );
+
+            eventEmitter.emit(ExtensionCommandType.ShowLoadingIndicator, {
+                data: { type: ExtensionCommandType.ShowLoadingIndicator, payload: { show: true } },
+                context: { extensionId: extension.id },
+            });
+
+            expect(extensionCommandHandler).not.toHaveBeenCalled();
+            expect(poster.post).toHaveBeenCalledWith({
+                type: ExtensionCommandType.ShowLoadingIndicator,
+                error: {
+                    type: 'extension_permission_denied',
+                    subtype: ExtensionPermissionDeniedErrorType.CommandNotAllowed,
+                    message: expect.any(String),
+                },
+            });
+            expect(extensionMessenger.getAuditLogEntries()).toEqual([
+                expect.objectContaining({
+                    extensionId: extension.id,
+                    messageType: ExtensionCommandType.ShowLoadingIndicator,
+                    reason: ExtensionPermissionDeniedErrorType.CommandNotAllowed,
+                }),
+            ]);
+        });
+
         it('should listen to commands emitted by same extension', () => {
             const eventEmitter = new EventEmitter();
 
@@ -244,6 +336,66 @@ describe('ExtensionMessenger', () => {
             );
         });
 
+        it('should reject queries not allowed by permissions manifest', () => {
+            const eventEmitter = new EventEmitter();
+            const auditLog = new ExtensionAuditLog();
+            const poster = new IframeEventPoster(extension.url, window);
+
+            jest.spyOn(store, 'getState').mockReturnValue({
+                ...store.getState(),
+                extensions: {
+                    ...store.getState().extensions,
+                    getExtensions: () => [
+                        {
+                            ...extension,
+                            permissions: { queries: [ExtensionQueryType.GetCart] },
+                        },
+                    ],
+                },
+            });
+            jest.spyOn(listener, 'addListener').mockImplementation((type, listener) => {
+                eventEmitter.addListener(type, ({ data, context }) => listener(data, context));
+            });
+            jest.spyOn(poster, 'post').mockImplementation(jest.fn());
+
+            extensionMessenger = new ExtensionMessenger(
+                store,
+                workerExtensionMessenger,
+                {},
+                { [extension.id]: listener },
+                { [extension.id]: poster },
+                auditLog,
+            );
+
+            extensionMessenger.listenForQuery(
+                extension.id,
+                ExtensionQueryType.GetConsignments,
+                extensionQueryHandler,
+            );
+
+            eventEmitter.emit(ExtensionQueryType.GetConsignments, {
+                data: { type: ExtensionQueryType.GetConsignments },
+                context: { extensionId: extension.id },
+            });
+
+            expect(extensionQueryHandler).not.toHaveBeenCalled();
+            expect(poster.post).toHaveBeenCalledWith({
+                type: ExtensionQueryType.GetConsignments,
+                error: {
+                    type: 'extension_permission_denied',
+                    subtype: ExtensionPermissionDeniedErrorType.QueryNotAllowed,
+                    message: expect.any(String),
+                },
+            });
+            expect(extensionMessenger.getAuditLogEntries()).toEqual([
+                expect.objectContaining({
+                    extensionId: extension.id,
+                    messageType: ExtensionQueryType.GetConsignments,
+                    reason: ExtensionPermissionDeniedErrorType.QueryNotAllowed,
+                }),
+            ]);
+        });
+
         it('should listen to commands emitted by same extension', () => {
             const eventEmitter = new EventEmitter();
 
@@ -302,6 +454,49 @@ describe('ExtensionMessenger', () => {
             expect(extensionQueryHandler).not.toHaveBeenCalled();
         });
 
+        it('should reject query for data the extension has not declared', () => {
+            const eventEmitter = new EventEmitter();
+            const poster = new IframeEventPoster(extension.url, window);
+
+            jest.spyOn(listener, 'addListener').mockImplementation((type, listener) => {
+                eventEmitter.addListener(type, ({ context }) => listener({ type }, context));
+            });
+            jest.spyOn(poster, 'post').mockImplementation(jest.fn());
+
+            extensionMessenger = new ExtensionMessenger(
+                store,
+                workerExtensionMessenger,
+                {},
+                { [extension.id]: listener },
+                { [extension.id]: poster },
+            );
+
+            extensionMessenger.listenForQuery(
+                extension.id,
+                ExtensionQueryType.GetCart,
+                extensionQueryHandler,
+            );
+
+            eventEmitter.emit(ExtensionQueryType.GetCart, {
+                context: { extensionId: extension.id },
+            });
+
+            expect(extensionQueryHandler).not.toHaveBeenCalled();
+            expect(poster.post).toHaveBeenCalledWith({
+                type: ExtensionQueryType.GetCart,
+                error: expect.objectContaining({
+                    subtype: ExtensionPermissionDeniedErrorType.DataCategoryNotAllowed,
+                }),
+            });
+            expect(extensionMessenger.getAuditLogEntries()).toEqual([
+                expect.objectContaining({
+                    extensionId: extension.id,
+                    messageType: ExtensionQueryType.GetCart,
+                    reason: ExtensionPermissionDeniedErrorType.DataCategoryNotAllowed,
+                }),
+            ]);
+        });
+
         it('should stop listening', () => {
             jest.spyOn(listener, 'stopListen');
 
@@ -368,5 +563,33 @@ describe('ExtensionMessenger', () => {
 
             expect(poster.post).toHaveBeenCalledWith(event.data);
         });
+
+        it('should not post message for data the extension has not declared', () => {
+            const poster = new IframeEventPoster(extension.url, window);
+
+            extensionMessenger = new ExtensionMessenger(
+                store,
+                workerExtensionMessenger,
+                {},
+                {},
+                { [extension.id]: poster },
+            );
+
+            jest.spyOn(poster, 'post');
+
+            extensionMessenger.post(extension.id, {
+                type: ExtensionEventType.CartChanged,
+                payload: { cart: getCart() },
+            });
+
+            expect(poster.post).not.toHaveBeenCalled();
+            expect(extensionMessenger.getAuditLogEntries()).toEqual([
+                expect.objectContaining({
+                    extensionId: extension.id,
+                    messageType: ExtensionEventType.CartChanged,
+                    reason: ExtensionPermissionDeniedErrorType.DataCategoryNotAllowed,
+                }),
+            ]);
+        });
     });
 });
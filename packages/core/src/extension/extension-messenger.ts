@@ -4,12 +4,25 @@ import { IframeEventListener, IframeEventPoster } from '../common/iframe';
 import { createExtensionEventPoster } from './create-extension-event-poster';
 import {
     ExtensionNotFoundError,
+    ExtensionPermissionDeniedError,
     UnsupportedExtensionCommandError,
     UnsupportedExtensionQueryError,
 } from './errors';
 import { Extension, ExtensionType } from './extension';
+import { ExtensionAuditLog, ExtensionAuditLogEntry } from './extension-audit-log';
 import { ExtensionCommandMap, ExtensionCommandType } from './extension-commands';
-import { ExtensionCommandOrQueryContext, ExtensionMessage } from './extension-message';
+import { getDataCategoryPermissionError } from './extension-data-categories';
+import {
+    ExtensionCommandOrQueryContext,
+    ExtensionMessage,
+    ExtensionPermissionDeniedMessage,
+} from './extension-message';
+import {
+    createPermissionDeniedMessage,
+    getCommandPermissionError,
+    getMessagePermissionError,
+    getQueryPermissionError,
+} from './extension-permissions';
 import { ExtensionQueryMap, ExtensionQueryType } from './extension-queries';
 import { WorkerExtensionMessenger } from './worker-extension-messenger';
 
@@ -25,9 +38,18 @@ export class ExtensionMessenger {
         private _queryListeners: {
             [extensionId: string]: IframeEventListener<ExtensionQueryMap>;
         } = {},
-        private _posters: { [extensionId: string]: IframeEventPoster<ExtensionMessage> } = {},
+        private _posters: {
+            [extensionId: string]: IframeEventPoster<
+                ExtensionMessage | ExtensionPermissionDeniedMessage
+            >;
+        } = {},
+        private _auditLog: ExtensionAuditLog = new ExtensionAuditLog(),
     ) {}
 
+    getAuditLogEntries(): ExtensionAuditLogEntry[] {
+        return this._auditLog.getEntries();
+    }
+
     clearCacheByRegion(region: string): void {
         const extension = this._getExtensionByRegion(region);
 
@@ -94,9 +116,19 @@ export class ExtensionMessenger {
             command: ExtensionCommandMap[T],
             context?: ExtensionCommandOrQueryContext,
         ) => {
-            if (context?.extensionId === extensionId) {
-                commandHandler(command, context);
+            if (context?.extensionId !== extensionId) {
+                return;
             }
+
+            const error = getCommandPermissionError(extensionId, extension.permissions, command);
+
+            if (error) {
+                this._rejectCommandOrQuery(extension, command.type, error);
+
+                return;
+            }
+
+            commandHandler(command, context);
         };
 
         listener.addListener(validCommandType, commandHandlerProxy);
@@ -115,9 +147,27 @@ export class ExtensionMessenger {
         ) => Promise<void> | void,
     ): () => void {
         const extension = this._getExtensionById(extensionId);
+        const scopedQueryHandler = (
+            query: ExtensionQueryMap[T],
+            context?: ExtensionCommandOrQueryContext,
+        ) => {
+            const error = getDataCategoryPermissionError(extension, query.type);
+
+            if (error) {
+                this._rejectCommandOrQuery(extension, query.type, error);
+
+                return;
+            }
+
+            return queryHandler(query, context);
+        };
 
         if (extension.type === ExtensionType.Worker) {
-            return this._workerExtensionMessenger.listenForQuery(extensionId, query, queryHandler);
+            return this._workerExtensionMessenger.listenForQuery(
+                extensionId,
+                query,
+                scopedQueryHandler,
+            );
         }
 
         if (!this._queryListeners[extensionId]) {
@@ -134,9 +184,19 @@ export class ExtensionMessenger {
             query: ExtensionQueryMap[T],
             context?: ExtensionCommandOrQueryContext,
         ) => {
-            if (context?.extensionId === extensionId) {
-                queryHandler(query, context);
+            if (context?.extensionId !== extensionId) {
+                return;
             }
+
+            const error = getQueryPermissionError(extensionId, extension.permissions, query);
+
+            if (error) {
+                this._rejectCommandOrQuery(extension, query.type, error);
+
+                return;
+            }
+
+            scopedQueryHandler(query, context);
         };
 
         listener.addListener(validQueryType, queryHandlerProxy);
@@ -168,18 +228,29 @@ export class ExtensionMessenger {
         try {
             const extension = this._getExtensionById(extensionId);
 
+            const categoryError = getDataCategoryPermissionError(extension, message.type);
+
+            if (categoryError) {
+                this._auditLog.record(categoryError);
+
+                return;
+            }
+
             if (extension.type === ExtensionType.Worker) {
                 this._workerExtensionMessenger.post(extensionId, message);
 
                 return;
             }
 
-            if (!this._posters[extensionId]) {
-                this._posters[extensionId] =
-                    createExtensionEventPoster<ExtensionMessage>(extension);
+            const error = getMessagePermissionError(extensionId, extension.permissions, message);
+
+            if (error) {
+                this._auditLog.record(error);
+
+                return;
             }
 
-            this._posters[extensionId].post(message);
+            this._getPoster(extension).post(message);
         } catch (error) {
             this.clearCacheById(extensionId);
             // eslint-disable-next-line no-console
@@ -190,6 +261,36 @@ export class ExtensionMessenger {
         }
     }
 
+    private _getPoster(
+        extension: Extension,
+    ): IframeEventPoster<ExtensionMessage | ExtensionPermissionDeniedMessage> {
+        if (!this._posters[extension.id]) {
+            this._posters[extension.id] = createExtensionEventPoster(extension);
+        }
+
+        return this._posters[extension.id];
+    }
+
+    private _rejectCommandOrQuery(
+        extension: Extension,
+        type: ExtensionCommandType | ExtensionQueryType,
+        error: ExtensionPermissionDeniedError,
+    ): void {
+        if (extension.type === ExtensionType.Worker) {
+            this._workerExtensionMessenger.rejectCommandOrQuery(extension.id, type, error);
+
+            return;
+        }
+
+        try {
+            this._getPoster(extension).post(createPermissionDeniedMessage(type, error));
+        } catch {
+            this.clearCacheById(extension.id);
+        } finally {
+            this._auditLog.record(error);
+        }
+    }
+
     private _getExtensionById(extensionId: string): Extension {
         this._getExtensions();
 
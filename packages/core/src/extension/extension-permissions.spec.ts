@@ -0,0 +1,131 @@
+import { ExtensionPermissionDeniedError, ExtensionPermissionDeniedErrorType } from './errors';
+import { ExtensionCommandType } from './extension-commands';
+import { ExtensionEventType } from './extension-events';
+import { ExtensionMessageType } from './extension-message';
+import {
+    ExtensionPermissions,
+    getCommandPermissionError,
+    getMessagePermissionError,
+    getQueryPermissionError,
+} from './extension-permissions';
+import { ExtensionQueryType } from './extension-queries';
+
+describe('extension permissions', () => {
+    const extensionId = '123';
+    let permissions: ExtensionPermissions;
+
+    beforeEach(() => {
+        permissions = {
+            commands: [ExtensionCommandType.ReloadCheckout, ExtensionCommandType.SetIframeStyle],
+            queries: [ExtensionQueryType.GetConsignments],
+            events: [ExtensionEventType.ConsignmentsChanged],
+            iframeStyleProperties: ['height'],
+        };
+    });
+
+    describe('getCommandPermissionError()', () => {
+        it('returns nothing if command is allowed', () => {
+            expect(
+                getCommandPermissionError(extensionId, permissions, {
+                    type: ExtensionCommandType.ReloadCheckout,
+                }),
+            ).toBeUndefined();
+        });
+
+        it('returns nothing if extension has no manifest', () => {
+            expect(
+                getCommandPermissionError(extensionId, undefined, {
+                    type: ExtensionCommandType.ShowLoadingIndicator,
+                    payload: { show: true },
+                }),
+            ).toBeUndefined();
+        });
+
+        it('returns error if command is not allowed', () => {
+            const error = getCommandPermissionError(extensionId, permissions, {
+                type: ExtensionCommandType.ShowLoadingIndicator,
+                payload: { show: true },
+            });
+
+            expect(error).toBeInstanceOf(ExtensionPermissionDeniedError);
+            expect(error).toEqual(
+                expect.objectContaining({
+                    subtype: ExtensionPermissionDeniedErrorType.CommandNotAllowed,
+                    extensionId,
+                    messageType: ExtensionCommandType.ShowLoadingIndicator,
+                }),
+            );
+        });
+
+        it('returns error if iframe style properties are not allowed', () => {
+            const error = getCommandPermissionError(extensionId, permissions, {
+                type: ExtensionCommandType.SetIframeStyle,
+                payload: { style: { height: '100px', position: 'fixed', zIndex: 1000 } },
+            });
+
+            expect(error).toEqual(
+                expect.objectContaining({
+                    subtype: ExtensionPermissionDeniedErrorType.IframeStylePropertyNotAllowed,
+                    properties: ['position', 'zIndex'],
+                }),
+            );
+        });
+
+        it('returns nothing if iframe style properties are allowed', () => {
+            expect(
+                getCommandPermissionError(extensionId, permissions, {
+                    type: ExtensionCommandType.SetIframeStyle,
+                    payload: { style: { height: '100px' } },
+                }),
+            ).toBeUndefined();
+        });
+    });
+
+    describe('getQueryPermissionError()', () => {
+        it('returns error if query is not allowed', () => {
+            expect(
+                getQueryPermissionError(extensionId, permissions, {
+                    type: ExtensionQueryType.GetCart,
+                }),
+            ).toEqual(
+                expect.objectContaining({
+                    subtype: ExtensionPermissionDeniedErrorType.QueryNotAllowed,
+                    messageType: ExtensionQueryType.GetCart,
+                }),
+            );
+        });
+
+        it('returns nothing if query is allowed', () => {
+            expect(
+                getQueryPermissionError(extensionId, permissions, {
+                    type: ExtensionQueryType.GetConsignments,
+                }),
+            ).toBeUndefined();
+        });
+    });
+
+    describe('getMessagePermissionError()', () => {
+        it('returns error if event is not allowed', () => {
+            expect(
+                getMessagePermissionError(extensionId, permissions, {
+                    type: ExtensionEventType.CouponsChanged,
+                    payload: { coupons: [], previousCoupons: [] },
+                }),
+            ).toEqual(
+                expect.objectContaining({
+                    subtype: ExtensionPermissionDeniedErrorType.EventNotAllowed,
+                    messageType: ExtensionEventType.CouponsChanged,
+                }),
+            );
+        });
+
+        it('returns nothing for responses to queries', () => {
+            expect(
+                getMessagePermissionError(extensionId, permissions, {
+                    type: ExtensionMessageType.GetCart,
+                    payload: {},
+                }),
+            ).toBeUndefined();
+        });
+    });
+});
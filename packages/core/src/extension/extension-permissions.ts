@@ -0,0 +1,98 @@
+import { ExtensionPermissionDeniedError, ExtensionPermissionDeniedErrorType } from './errors';
+import { ExtensionCommand, ExtensionCommandType } from './extension-commands';
+import { ExtensionEventType } from './extension-events';
+import { ExtensionMessage, ExtensionPermissionDeniedMessage } from './extension-message';
+import { ExtensionQuery, ExtensionQueryType } from './extension-queries';
+
+/**
+ * The manifest of the capabilities granted to an extension. Each list is
+ * optional; if a list is not provided, the extension is not restricted in
+ * that regard.
+ */
+export interface ExtensionPermissions {
+    commands?: ExtensionCommandType[];
+    queries?: ExtensionQueryType[];
+    events?: ExtensionEventType[];
+    iframeStyleProperties?: string[];
+}
+
+export function getCommandPermissionError(
+    extensionId: string,
+    permissions: ExtensionPermissions | undefined,
+    command: ExtensionCommand,
+): ExtensionPermissionDeniedError | undefined {
+    if (permissions?.commands && !permissions.commands.includes(command.type)) {
+        return new ExtensionPermissionDeniedError(
+            ExtensionPermissionDeniedErrorType.CommandNotAllowed,
+            extensionId,
+            command.type,
+        );
+    }
+
+    if (
+        command.type === ExtensionCommandType.SetIframeStyle &&
+        permissions?.iframeStyleProperties
+    ) {
+        const allowedProperties = permissions.iframeStyleProperties;
+        const properties = Object.keys(command.payload.style).filter(
+            (property) => !allowedProperties.includes(property),
+        );
+
+        if (properties.length) {
+            return new ExtensionPermissionDeniedError(
+                ExtensionPermissionDeniedErrorType.IframeStylePropertyNotAllowed,
+                extensionId,
+                command.type,
+                properties,
+            );
+        }
+    }
+}
+
+export function getQueryPermissionError(
+    extensionId: string,
+    permissions: ExtensionPermissions | undefined,
+    query: ExtensionQuery,
+): ExtensionPermissionDeniedError | undefined {
+    if (permissions?.queries && !permissions.queries.includes(query.type)) {
+        return new ExtensionPermissionDeniedError(
+            ExtensionPermissionDeniedErrorType.QueryNotAllowed,
+            extensionId,
+            query.type,
+        );
+    }
+}
+
+export function getMessagePermissionError(
+    extensionId: string,
+    permissions: ExtensionPermissions | undefined,
+    message: ExtensionMessage,
+): ExtensionPermissionDeniedError | undefined {
+    if (!isExtensionEventType(message.type)) {
+        // The responses to queries share the same type as the queries
+        // themselves, and they are only sent if the queries are allowed.
+        return;
+    }
+
+    if (permissions?.events && !permissions.events.includes(message.type)) {
+        return new ExtensionPermissionDeniedError(
+            ExtensionPermissionDeniedErrorType.EventNotAllowed,
+            extensionId,
+            message.type,
+        );
+    }
+}
+
+export function createPermissionDeniedMessage(
+    type: ExtensionCommandType | ExtensionQueryType,
+    { type: errorType, subtype, message }: ExtensionPermissionDeniedError,
+): ExtensionPermissionDeniedMessage {
+    return {
+        type,
+        error: { type: errorType, subtype, message },
+    };
+}
+
+function isExtensionEventType(type: string): type is ExtensionEventType {
+    return Object.values(ExtensionEventType).includes(type as ExtensionEventType);
+}
@@ -1,7 +1,16 @@
-export type ExtensionQuery = GetConsignmentsQuery;
+export type ExtensionQuery =
+    | GetConsignmentsQuery
+    | GetCartQuery
+    | GetBillingAddressQuery
+    | GetCheckoutQuery
+    | GetSelectedPaymentMethodQuery;
 
 export enum ExtensionQueryType {
     GetConsignments = 'EXTENSION:GET_CONSIGNMENTS',
+    GetCart = 'EXTENSION:GET_CART',
+    GetBillingAddress = 'EXTENSION:GET_BILLING_ADDRESS',
+    GetCheckout = 'EXTENSION:GET_CHECKOUT',
+    GetSelectedPaymentMethod = 'EXTENSION:GET_SELECTED_PAYMENT_METHOD',
 }
 
 export interface GetConsignmentsQuery {
@@ -11,6 +20,26 @@ export interface GetConsignmentsQuery {
     };
 }
 
+export interface GetCartQuery {
+    type: ExtensionQueryType.GetCart;
+}
+
+export interface GetBillingAddressQuery {
+    type: ExtensionQueryType.GetBillingAddress;
+}
+
+export interface GetCheckoutQuery {
+    type: ExtensionQueryType.GetCheckout;
+}
+
+export interface GetSelectedPaymentMethodQuery {
+    type: ExtensionQueryType.GetSelectedPaymentMethod;
+}
+
 export interface ExtensionQueryMap {
     [ExtensionQueryType.GetConsignments]: GetConsignmentsQuery;
+    [ExtensionQueryType.GetCart]: GetCartQuery;
+    [ExtensionQueryType.GetBillingAddress]: GetBillingAddressQuery;
+    [ExtensionQueryType.GetCheckout]: GetCheckoutQuery;
+    [ExtensionQueryType.GetSelectedPaymentMethod]: GetSelectedPaymentMethodQuery;
 }
@@ -1,13 +1,18 @@
-import { RequestSender, Response } from '@bigcommerce/request-sender';
+import { Response } from '@bigcommerce/request-sender';
 
-import { ContentType, RequestOptions, SDK_VERSION_HEADERS } from '../common/http-request';
+import {
+    ContentType,
+    HttpRequestSender,
+    RequestOptions,
+    SDK_VERSION_HEADERS,
+} from '../common/http-request';
 
 import { Extension } from './extension';
 
 export const EXTENSIONS_API_URL = '/api/storefront/checkout-extensions';
 
 export class ExtensionRequestSender {
-    constructor(private _requestSender: RequestSender) {}
+    constructor(private _requestSender: HttpRequestSender) {}
 
     loadExtensions({ timeout, params }: RequestOptions = {}): Promise<Response<Extension[]>> {
         return this._requestSender.get(EXTENSIONS_API_URL, {
@@ -1,9 +1,14 @@
 import EventEmitter from 'events';
 import { noop } from 'lodash';
 
+import { getBillingAddress } from '../billing/billing-addresses.mock';
+import { getCart } from '../cart/carts.mock';
+import { getCheckout } from '../checkout/checkouts.mock';
 import { IframeEventListener, IframeEventPoster } from '../common/iframe';
+import { getBraintree } from '../payment/payment-methods.mock';
 
-import { ExtensionCommand } from './extension-commands';
+import { ExtensionPermissionDeniedError, ExtensionPermissionDeniedErrorType } from './errors';
+import { ExtensionCommand, ExtensionCommandType } from './extension-commands';
 import { ExtensionEventMap, ExtensionEventType } from './extension-events';
 import {
     ExtensionInternalCommand,
@@ -17,6 +22,7 @@ import {
     ExtensionMessageType,
     GetConsignmentsMessage,
 } from './extension-message';
+import { ExtensionQueryType } from './extension-queries';
 import ExtensionService from './extension-service';
 
 describe('ExtensionService', () => {
@@ -164,4 +170,163 @@ describe('ExtensionService', () => {
         });
         expect(messageListener.removeListener).toHaveBeenCalled();
     });
+
+    it.each([
+        ['getCart', ExtensionMessageType.GetCart, { cart: getCart() }],
+        [
+            'getBillingAddress',
+            ExtensionMessageType.GetBillingAddress,
+            { billingAddress: getBillingAddress() },
+        ],
+        ['getCheckout', ExtensionMessageType.GetCheckout, { checkout: getCheckout() }],
+        [
+            'getSelectedPaymentMethod',
+            ExtensionMessageType.GetSelectedPaymentMethod,
+            { paymentMethod: getBraintree() },
+        ],
+    ] as const)('%s() queries host and resolves with data', async (method, type, payload) => {
+        const eventEmitter = new EventEmitter();
+        const replyMessage = { type, payload };
+
+        jest.spyOn(window, 'addEventListener').mockImplementation((type, eventListener) => {
+            const listener =
+                typeof eventListener === 'function' ? eventListener : () => eventListener;
+
+            return eventEmitter.addListener(type, listener);
+        });
+        jest.spyOn(eventPoster, 'post').mockImplementation(() => {
+            eventEmitter.emit('message', {
+                origin: 'https://mybigcommerce.com',
+                data: replyMessage,
+            });
+
+            return Promise.resolve(replyMessage);
+        });
+
+        void extensionService.initialize('test');
+
+        expect(await extensionService[method]()).toEqual(Object.values(payload)[0]);
+        expect(eventPoster.post).toHaveBeenCalledWith({ type });
+    });
+
+    it('rejects query with permission error if host denies query', async () => {
+        const eventEmitter = new EventEmitter();
+        const replyMessage = {
+            type: ExtensionQueryType.GetCart,
+            error: {
+                type: 'extension_permission_denied',
+                subtype: ExtensionPermissionDeniedErrorType.QueryNotAllowed,
+                message: 'Extension(test) is not allowed to send the query: EXTENSION:GET_CART.',
+            },
+        };
+
+        jest.spyOn(window, 'addEventListener').mockImplementation((type, eventListener) => {
+            const listener =
+                typeof eventListener === 'function' ? eventListener : () => eventListener;
+
+            return eventEmitter.addListener(type, listener);
+        });
+        jest.spyOn(eventPoster, 'post').mockImplementation(() => {
+            eventEmitter.emit('message', {
+                origin: 'https://mybigcommerce.com',
+                data: replyMessage,
+            });
+
+            return Promise.resolve(replyMessage);
+        });
+
+        void extensionService.initialize('test');
+
+        const error = await extensionService.getCart().catch((error) => error);
+
+        expect(error).toBeInstanceOf(ExtensionPermissionDeniedError);
+        expect(error).toEqual(
+            expect.objectContaining({
+                subtype: ExtensionPermissionDeniedErrorType.QueryNotAllowed,
+                message: replyMessage.error.message,
+                messageType: ExtensionQueryType.GetCart,
+            }),
+        );
+    });
+
+    it('notifies permission denied listeners if host denies command', () => {
+        const listener = jest.fn();
+        const deniedMessage = {
+            type: ExtensionCommandType.ShowNotification,
+            error: {
+                type: 'extension_permission_denied',
+                subtype: ExtensionPermissionDeniedErrorType.CommandNotAllowed,
+                message:
+                    'Extension(test) is not allowed to send the command: EXTENSION:SHOW_NOTIFICATION.',
+            },
+        };
+
+        const removeListener = extensionService.addPermissionDeniedListener(listener);
+
+        messageListener.trigger(deniedMessage);
+
+        expect(listener).toHaveBeenCalledWith(expect.any(ExtensionPermissionDeniedError));
+        expect(listener).toHaveBeenCalledWith(
+            expect.objectContaining({
+                subtype: ExtensionPermissionDeniedErrorType.CommandNotAllowed,
+                message: deniedMessage.error.message,
+            }),
+        );
+
+        removeListener();
+        messageListener.trigger(deniedMessage);
+
+        expect(listener).toHaveBeenCalledTimes(1);
+    });
+
+    it('#showNotification posts command to show notification', () => {
+        void extensionService.initialize('test');
+
+        extensionService.showNotification('Free shipping applied', 'success', 3000);
+
+        expect(eventPoster.post).toHaveBeenCalledWith({
+            type: ExtensionCommandType.ShowNotification,
+            payload: { message: 'Free shipping applied', severity: 'success', duration: 3000 },
+        });
+    });
+
+    it('#navigateToStep posts command to navigate to step', () => {
+        void extensionService.initialize('test');
+
+        extensionService.navigateToStep('payment');
+
+        expect(eventPoster.post).toHaveBeenCalledWith({
+            type: ExtensionCommandType.NavigateToStep,
+            payload: { step: 'payment' },
+        });
+    });
+
+    it('#setFormFieldValue posts command to set value of form field', () => {
+        void extensionService.initialize('test');
+
+        extensionService.setFormFieldValue('field_25', 'Leave at the door');
+
+        expect(eventPoster.post).toHaveBeenCalledWith({
+            type: ExtensionCommandType.SetFormFieldValue,
+            payload: { fieldId: 'field_25', value: 'Leave at the door' },
+        });
+    });
+
+    it('#blockOrderSubmission posts commands to block and unblock order submission', () => {
+        void extensionService.initialize('test');
+
+        const unblock = extensionService.blockOrderSubmission('Please accept the terms.');
+
+        expect(eventPoster.post).toHaveBeenCalledWith({
+            type: ExtensionCommandType.BlockOrderSubmission,
+            payload: { block: true, reason: 'Please accept the terms.' },
+        });
+
+        unblock();
+
+        expect(eventPoster.post).toHaveBeenLastCalledWith({
+            type: ExtensionCommandType.BlockOrderSubmission,
+            payload: { block: false },
+        });
+    });
 });
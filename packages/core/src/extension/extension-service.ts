@@ -1,10 +1,21 @@
 import { noop } from 'lodash';
 
-import { Consignment } from '@bigcommerce/checkout-sdk/payment-integration-api';
+import {
+    BillingAddress,
+    Cart,
+    Checkout,
+    Consignment,
+    PaymentMethod,
+} from '@bigcommerce/checkout-sdk/payment-integration-api';
 
 import { IframeEventListener, IframeEventPoster } from '../common/iframe';
 
-import { ExtensionCommandType } from './extension-commands';
+import { ExtensionPermissionDeniedError, ExtensionPermissionDeniedErrorType } from './errors';
+import {
+    ExtensionCheckoutStep,
+    ExtensionCommandType,
+    ExtensionNotificationSeverity,
+} from './extension-commands';
 import { ExtensionEventMap, ExtensionEventType } from './extension-events';
 import {
     ExtensionInternalCommand,
@@ -16,9 +27,9 @@ import {
     ExtensionCommandOrQueryContext,
     ExtensionMessageMap,
     ExtensionMessageType,
-    GetConsignmentsMessage,
+    ExtensionPermissionDeniedMessage,
 } from './extension-message';
-import { ExtensionQueryType } from './extension-queries';
+import { ExtensionQuery, ExtensionQueryType } from './extension-queries';
 
 export default class ExtensionService {
     private _extensionId?: string;
@@ -103,23 +114,135 @@ export default class ExtensionService {
         };
     }
 
+    addPermissionDeniedListener(
+        callback: (error: ExtensionPermissionDeniedError) => void,
+    ): () => void {
+        const listener = (message: ExtensionPermissionDeniedMessage) =>
+            callback(this._createPermissionDeniedError(message));
+
+        Object.values(ExtensionCommandType).forEach((type) =>
+            this._messageListener.addListener(type, listener),
+        );
+
+        return () => {
+            Object.values(ExtensionCommandType).forEach((type) =>
+                this._messageListener.removeListener(type, listener),
+            );
+        };
+    }
+
     async getConsignments(useCache = true): Promise<Consignment[]> {
-        return new Promise((resolve) => {
-            const callback = (event: GetConsignmentsMessage) => {
-                this._messageListener.removeListener(
-                    ExtensionMessageType.GetConsignments,
-                    callback,
-                );
+        const { payload } = await this._query(ExtensionMessageType.GetConsignments, {
+            type: ExtensionQueryType.GetConsignments,
+            payload: { useCache },
+        });
+
+        return payload.consignments;
+    }
+
+    async getCart(): Promise<Cart | undefined> {
+        const { payload } = await this._query(ExtensionMessageType.GetCart, {
+            type: ExtensionQueryType.GetCart,
+        });
+
+        return payload.cart;
+    }
+
+    async getBillingAddress(): Promise<BillingAddress | undefined> {
+        const { payload } = await this._query(ExtensionMessageType.GetBillingAddress, {
+            type: ExtensionQueryType.GetBillingAddress,
+        });
+
+        return payload.billingAddress;
+    }
+
+    async getCheckout(): Promise<Checkout | undefined> {
+        const { payload } = await this._query(ExtensionMessageType.GetCheckout, {
+            type: ExtensionQueryType.GetCheckout,
+        });
+
+        return payload.checkout;
+    }
 
-                resolve(event.payload.consignments);
+    async getSelectedPaymentMethod(): Promise<PaymentMethod | undefined> {
+        const { payload } = await this._query(ExtensionMessageType.GetSelectedPaymentMethod, {
+            type: ExtensionQueryType.GetSelectedPaymentMethod,
+        });
+
+        return payload.paymentMethod;
+    }
+
+    showNotification(
+        message: string,
+        severity: ExtensionNotificationSeverity = 'info',
+        duration?: number,
+    ): void {
+        this.post({
+            type: ExtensionCommandType.ShowNotification,
+            payload: { message, severity, duration },
+        });
+    }
+
+    navigateToStep(step: ExtensionCheckoutStep): void {
+        this.post({ type: ExtensionCommandType.NavigateToStep, payload: { step } });
+    }
+
+    setFormFieldValue(fieldId: string, value: string | number | string[]): void {
+        this.post({ type: ExtensionCommandType.SetFormFieldValue, payload: { fieldId, value } });
+    }
+
+    blockOrderSubmission(reason: string): () => void {
+        this.post({
+            type: ExtensionCommandType.BlockOrderSubmission,
+            payload: { block: true, reason },
+        });
+
+        return () => {
+            this.post({
+                type: ExtensionCommandType.BlockOrderSubmission,
+                payload: { block: false },
+            });
+        };
+    }
+
+    private _query<T extends keyof ExtensionMessageMap>(
+        messageType: T,
+        query: ExtensionQuery,
+    ): Promise<ExtensionMessageMap[T]> {
+        return new Promise((resolve, reject) => {
+            const callback = (
+                message: ExtensionMessageMap[T] | ExtensionPermissionDeniedMessage,
+            ) => {
+                this._messageListener.removeListener(messageType, callback);
+
+                if ('error' in message) {
+                    return reject(this._createPermissionDeniedError(message));
+                }
+
+                resolve(message);
             };
 
-            this._messageListener.addListener(ExtensionMessageType.GetConsignments, callback);
+            this._messageListener.addListener(messageType, callback);
 
-            this.post({ type: ExtensionQueryType.GetConsignments, payload: { useCache } });
+            this.post(query);
         });
     }
 
+    private _createPermissionDeniedError({
+        type,
+        error,
+    }: ExtensionPermissionDeniedMessage): ExtensionPermissionDeniedError {
+        const permissionError = new ExtensionPermissionDeniedError(
+            error.subtype as ExtensionPermissionDeniedErrorType,
+            this._extensionId ?? '',
+            type,
+        );
+
+        permissionError.message = error.message;
+
+        return permissionError;
+    }
+
     private _isExtensionFailedEvent(
         event: any,
     ): event is ExtensionInternalEventType.ExtensionFailed {
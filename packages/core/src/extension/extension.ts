@@ -1,9 +1,25 @@
+import { ExtensionPermissions } from './extension-permissions';
+
 export interface Extension {
     id: string;
     name: string;
     region: ExtensionRegion;
     url: string;
     type: ExtensionType;
+    /**
+     * The categories of checkout data the extension is allowed to receive,
+     * either through events or queries. Extensions that do not declare any
+     * categories can only receive consignments, which were the only data
+     * available to extensions before categories were introduced. Events and
+     * queries outside of the declared categories are denied and recorded in
+     * the audit log.
+     */
+    dataCategories?: ExtensionDataCategory[];
+    /**
+     * The commands, queries and events the extension is allowed to use.
+     * Extensions without a manifest are not restricted.
+     */
+    permissions?: ExtensionPermissions;
 }
 
 export interface ExtensionIframeConfig {
@@ -25,3 +41,13 @@ export const enum ExtensionType {
     Iframe = 'iframe',
     Worker = 'worker',
 }
+
+export const enum ExtensionDataCategory {
+    BillingAddress = 'billingAddress',
+    Cart = 'cart',
+    Checkout = 'checkout',
+    Consignments = 'consignments',
+    Coupons = 'coupons',
+    Order = 'order',
+    Payment = 'payment',
+}
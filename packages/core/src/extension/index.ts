@@ -1,14 +1,31 @@
-export { ExtensionRegion, Extension } from './extension';
+export { ExtensionRegion, Extension, ExtensionDataCategory } from './extension';
 export { getExtensions } from './extension.mock';
 export { ExtensionActionType } from './extension-actions';
 export { ExtensionActionCreator } from './extension-action-creator';
 export { ExtensionEventType } from './extension-events';
-export { ExtensionMessageType, ExtensionMessage } from './extension-message';
+export { canExtensionAccessData } from './extension-data-categories';
+export {
+    ExtensionMessageType,
+    ExtensionMessage,
+    ExtensionPermissionDeniedMessage,
+} from './extension-message';
 export { ExtensionEventBroadcaster } from './extension-event-broadcaster';
 export { createExtensionEventBroadcaster } from './create-extension-event-broadcaster';
 export { ExtensionIframe } from './extension-iframe';
 export { ExtensionMessenger } from './extension-messenger';
-export { ExtensionCommand, ExtensionCommandType, ExtensionCommandMap } from './extension-commands';
+export {
+    ExtensionAuditLog,
+    ExtensionAuditLogEntry,
+    ExtensionAuditLogOptions,
+} from './extension-audit-log';
+export { ExtensionPermissions } from './extension-permissions';
+export {
+    ExtensionCheckoutStep,
+    ExtensionCommand,
+    ExtensionCommandType,
+    ExtensionCommandMap,
+    ExtensionNotificationSeverity,
+} from './extension-commands';
 export { ExtensionQuery, ExtensionQueryType, ExtensionQueryMap } from './extension-queries';
 export { extensionReducer } from './extension-reducer';
 export { ExtensionRequestSender } from './extension-request-sender';
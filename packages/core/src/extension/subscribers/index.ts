@@ -2,4 +2,9 @@ export {
     ExtensionChangeSubscriber,
     ExtensionChangeUnsubscriber,
 } from './extension-change-subscriber';
+export { subscribeBillingAddressChange } from './subscribe-billing-address-change';
+export { subscribeCartChange } from './subscribe-cart-change';
 export { subscribeConsignmentsChange } from './subscribe-consignments-change';
+export { subscribeCouponsChange } from './subscribe-coupons-change';
+export { subscribeOrderPlacement } from './subscribe-order-placement';
+export { subscribePaymentMethodSelection } from './subscribe-payment-method-selection';
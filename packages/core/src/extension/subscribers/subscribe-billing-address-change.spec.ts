@@ -0,0 +1,61 @@
+import EventEmitter from 'events';
+
+import { getBillingAddress } from '../../billing/billing-addresses.mock';
+import { CheckoutSelectors } from '../../checkout';
+import { DataStoreProjection } from '../../common/data-store';
+import { ExtensionEventBroadcaster } from '../extension-event-broadcaster';
+import { ExtensionEventType } from '../extension-events';
+
+import { subscribeBillingAddressChange } from './subscribe-billing-address-change';
+
+describe('subscribeBillingAddressChange', () => {
+    let store: Pick<DataStoreProjection<CheckoutSelectors>, 'getState' | 'subscribe'>;
+    let broadcaster: Pick<ExtensionEventBroadcaster, 'broadcast'>;
+    let eventEmitter: EventEmitter;
+
+    const billingAddress = getBillingAddress();
+
+    beforeEach(() => {
+        eventEmitter = new EventEmitter();
+
+        store = {
+            // eslint-disable-next-line @typescript-eslint/ban-ts-comment
+            // @ts-ignore
+            getState: jest.fn(() => ({
+                data: {
+                    getBillingAddress: () => billingAddress,
+                },
+            })),
+            subscribe: jest.fn((listener) => {
+                eventEmitter.addListener('change', listener);
+
+                return () => {
+                    eventEmitter.removeListener('change', listener);
+                };
+            }),
+        };
+
+        broadcaster = {
+            broadcast: jest.fn(),
+        };
+    });
+
+    it('broadcasts event when billing address changes', () => {
+        subscribeBillingAddressChange(
+            store as DataStoreProjection<CheckoutSelectors>,
+            broadcaster as ExtensionEventBroadcaster,
+        );
+
+        const newBillingAddress = { ...billingAddress, city: 'Sydney' };
+
+        eventEmitter.emit('change', { data: { getBillingAddress: () => newBillingAddress } });
+
+        expect(broadcaster.broadcast).toHaveBeenCalledWith({
+            type: ExtensionEventType.BillingAddressChanged,
+            payload: {
+                billingAddress: newBillingAddress,
+                previousBillingAddress: billingAddress,
+            },
+        });
+    });
+});
@@ -0,0 +1,38 @@
+import { CheckoutSelectors } from '../../checkout';
+import { DataStoreProjection } from '../../common/data-store';
+import { ExtensionEventBroadcaster } from '../extension-event-broadcaster';
+import { ExtensionEventType } from '../extension-events';
+
+import { ExtensionChangeSubscriber } from './extension-change-subscriber';
+
+export const subscribeBillingAddressChange: ExtensionChangeSubscriber = (
+    store: DataStoreProjection<CheckoutSelectors>,
+    broadcaster: ExtensionEventBroadcaster,
+) => {
+    const {
+        data: { getBillingAddress: getInitialBillingAddress },
+    } = store.getState();
+
+    let billingAddress = getInitialBillingAddress();
+
+    return store.subscribe(
+        ({ data: { getBillingAddress } }) => {
+            const currentBillingAddress = getBillingAddress();
+
+            if (currentBillingAddress === billingAddress) {
+                return;
+            }
+
+            broadcaster.broadcast({
+                type: ExtensionEventType.BillingAddressChanged,
+                payload: {
+                    billingAddress: currentBillingAddress,
+                    previousBillingAddress: billingAddress,
+                },
+            });
+
+            billingAddress = currentBillingAddress;
+        },
+        ({ data: { getBillingAddress } }) => getBillingAddress(),
+    );
+};
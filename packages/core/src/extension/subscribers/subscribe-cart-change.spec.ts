@@ -0,0 +1,72 @@
+import EventEmitter from 'events';
+
+import { getCart } from '../../cart/carts.mock';
+import { CheckoutSelectors } from '../../checkout';
+import { DataStoreProjection } from '../../common/data-store';
+import { ExtensionEventBroadcaster } from '../extension-event-broadcaster';
+import { ExtensionEventType } from '../extension-events';
+
+import { subscribeCartChange } from './subscribe-cart-change';
+
+describe('subscribeCartChange', () => {
+    let store: Pick<DataStoreProjection<CheckoutSelectors>, 'getState' | 'subscribe'>;
+    let broadcaster: Pick<ExtensionEventBroadcaster, 'broadcast'>;
+    let eventEmitter: EventEmitter;
+
+    const cart = getCart();
+
+    beforeEach(() => {
+        eventEmitter = new EventEmitter();
+
+        store = {
+            // eslint-disable-next-line @typescript-eslint/ban-ts-comment
+            // @ts-ignore
+            getState: jest.fn(() => ({
+                data: {
+                    getCart: () => cart,
+                },
+            })),
+            subscribe: jest.fn((listener) => {
+                eventEmitter.addListener('change', listener);
+
+                return () => {
+                    eventEmitter.removeListener('change', listener);
+                };
+            }),
+        };
+
+        broadcaster = {
+            broadcast: jest.fn(),
+        };
+    });
+
+    it('broadcasts event when cart changes', () => {
+        subscribeCartChange(
+            store as DataStoreProjection<CheckoutSelectors>,
+            broadcaster as ExtensionEventBroadcaster,
+        );
+
+        const newCart = { ...cart, cartAmount: 300 };
+
+        eventEmitter.emit('change', { data: { getCart: () => newCart } });
+
+        expect(broadcaster.broadcast).toHaveBeenCalledWith({
+            type: ExtensionEventType.CartChanged,
+            payload: {
+                cart: newCart,
+                previousCart: cart,
+            },
+        });
+    });
+
+    it('does not broadcast event if cart is unchanged', () => {
+        subscribeCartChange(
+            store as DataStoreProjection<CheckoutSelectors>,
+            broadcaster as ExtensionEventBroadcaster,
+        );
+
+        eventEmitter.emit('change', { data: { getCart: () => cart } });
+
+        expect(broadcaster.broadcast).not.toHaveBeenCalled();
+    });
+});
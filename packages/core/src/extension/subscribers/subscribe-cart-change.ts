@@ -0,0 +1,38 @@
+import { CheckoutSelectors } from '../../checkout';
+import { DataStoreProjection } from '../../common/data-store';
+import { ExtensionEventBroadcaster } from '../extension-event-broadcaster';
+import { ExtensionEventType } from '../extension-events';
+
+import { ExtensionChangeSubscriber } from './extension-change-subscriber';
+
+export const subscribeCartChange: ExtensionChangeSubscriber = (
+    store: DataStoreProjection<CheckoutSelectors>,
+    broadcaster: ExtensionEventBroadcaster,
+) => {
+    const {
+        data: { getCart: getInitialCart },
+    } = store.getState();
+
+    let cart = getInitialCart();
+
+    return store.subscribe(
+        ({ data: { getCart } }) => {
+            const currentCart = getCart();
+
+            if (currentCart === cart) {
+                return;
+            }
+
+            broadcaster.broadcast({
+                type: ExtensionEventType.CartChanged,
+                payload: {
+                    cart: currentCart,
+                    previousCart: cart,
+                },
+            });
+
+            cart = currentCart;
+        },
+        ({ data: { getCart } }) => getCart(),
+    );
+};
@@ -0,0 +1,59 @@
+import EventEmitter from 'events';
+
+import { CheckoutSelectors } from '../../checkout';
+import { DataStoreProjection } from '../../common/data-store';
+import { getCoupon } from '../../coupon/coupons.mock';
+import { ExtensionEventBroadcaster } from '../extension-event-broadcaster';
+import { ExtensionEventType } from '../extension-events';
+
+import { subscribeCouponsChange } from './subscribe-coupons-change';
+
+describe('subscribeCouponsChange', () => {
+    let store: Pick<DataStoreProjection<CheckoutSelectors>, 'getState' | 'subscribe'>;
+    let broadcaster: Pick<ExtensionEventBroadcaster, 'broadcast'>;
+    let eventEmitter: EventEmitter;
+
+    const coupons = [getCoupon()];
+
+    beforeEach(() => {
+        eventEmitter = new EventEmitter();
+
+        store = {
+            // eslint-disable-next-line @typescript-eslint/ban-ts-comment
+            // @ts-ignore
+            getState: jest.fn(() => ({
+                data: {
+                    getCoupons: () => coupons,
+                },
+            })),
+            subscribe: jest.fn((listener) => {
+                eventEmitter.addListener('change', listener);
+
+                return () => {
+                    eventEmitter.removeListener('change', listener);
+                };
+            }),
+        };
+
+        broadcaster = {
+            broadcast: jest.fn(),
+        };
+    });
+
+    it('broadcasts event when coupons change', () => {
+        subscribeCouponsChange(
+            store as DataStoreProjection<CheckoutSelectors>,
+            broadcaster as ExtensionEventBroadcaster,
+        );
+
+        eventEmitter.emit('change', { data: { getCoupons: () => [] } });
+
+        expect(broadcaster.broadcast).toHaveBeenCalledWith({
+            type: ExtensionEventType.CouponsChanged,
+            payload: {
+                coupons: [],
+                previousCoupons: coupons,
+            },
+        });
+    });
+});
@@ -0,0 +1,38 @@
+import { CheckoutSelectors } from '../../checkout';
+import { DataStoreProjection } from '../../common/data-store';
+import { ExtensionEventBroadcaster } from '../extension-event-broadcaster';
+import { ExtensionEventType } from '../extension-events';
+
+import { ExtensionChangeSubscriber } from './extension-change-subscriber';
+
+export const subscribeCouponsChange: ExtensionChangeSubscriber = (
+    store: DataStoreProjection<CheckoutSelectors>,
+    broadcaster: ExtensionEventBroadcaster,
+) => {
+    const {
+        data: { getCoupons: getInitialCoupons },
+    } = store.getState();
+
+    let coupons = getInitialCoupons() ?? [];
+
+    return store.subscribe(
+        ({ data: { getCoupons } }) => {
+            const currentCoupons = getCoupons() ?? [];
+
+            if (currentCoupons === coupons) {
+                return;
+            }
+
+            broadcaster.broadcast({
+                type: ExtensionEventType.CouponsChanged,
+                payload: {
+                    coupons: currentCoupons,
+                    previousCoupons: coupons,
+                },
+            });
+
+            coupons = currentCoupons;
+        },
+        ({ data: { getCoupons } }) => getCoupons(),
+    );
+};
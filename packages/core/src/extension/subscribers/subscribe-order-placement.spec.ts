@@ -0,0 +1,66 @@
+import EventEmitter from 'events';
+
+import { CheckoutSelectors } from '../../checkout';
+import { DataStoreProjection } from '../../common/data-store';
+import { getOrder } from '../../order/orders.mock';
+import { ExtensionEventBroadcaster } from '../extension-event-broadcaster';
+import { ExtensionEventType } from '../extension-events';
+
+import { subscribeOrderPlacement } from './subscribe-order-placement';
+
+describe('subscribeOrderPlacement', () => {
+    let store: Pick<DataStoreProjection<CheckoutSelectors>, 'getState' | 'subscribe'>;
+    let broadcaster: Pick<ExtensionEventBroadcaster, 'broadcast'>;
+    let eventEmitter: EventEmitter;
+
+    beforeEach(() => {
+        eventEmitter = new EventEmitter();
+
+        store = {
+            // eslint-disable-next-line @typescript-eslint/ban-ts-comment
+            // @ts-ignore
+            getState: jest.fn(() => ({
+                data: {
+                    getOrder: () => undefined,
+                },
+            })),
+            subscribe: jest.fn((listener) => {
+                eventEmitter.addListener('change', listener);
+
+                return () => {
+                    eventEmitter.removeListener('change', listener);
+                };
+            }),
+        };
+
+        broadcaster = {
+            broadcast: jest.fn(),
+        };
+    });
+
+    it('broadcasts event when order is placed', () => {
+        subscribeOrderPlacement(
+            store as DataStoreProjection<CheckoutSelectors>,
+            broadcaster as ExtensionEventBroadcaster,
+        );
+
+        eventEmitter.emit('change', { data: { getOrder } });
+
+        expect(broadcaster.broadcast).toHaveBeenCalledWith({
+            type: ExtensionEventType.OrderPlaced,
+            payload: { order: getOrder() },
+        });
+    });
+
+    it('does not broadcast event again if same order is reloaded', () => {
+        subscribeOrderPlacement(
+            store as DataStoreProjection<CheckoutSelectors>,
+            broadcaster as ExtensionEventBroadcaster,
+        );
+
+        eventEmitter.emit('change', { data: { getOrder } });
+        eventEmitter.emit('change', { data: { getOrder } });
+
+        expect(broadcaster.broadcast).toHaveBeenCalledTimes(1);
+    });
+});
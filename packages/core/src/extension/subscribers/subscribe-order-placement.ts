@@ -0,0 +1,35 @@
+import { CheckoutSelectors } from '../../checkout';
+import { DataStoreProjection } from '../../common/data-store';
+import { ExtensionEventBroadcaster } from '../extension-event-broadcaster';
+import { ExtensionEventType } from '../extension-events';
+
+import { ExtensionChangeSubscriber } from './extension-change-subscriber';
+
+export const subscribeOrderPlacement: ExtensionChangeSubscriber = (
+    store: DataStoreProjection<CheckoutSelectors>,
+    broadcaster: ExtensionEventBroadcaster,
+) => {
+    const {
+        data: { getOrder: getInitialOrder },
+    } = store.getState();
+
+    let orderId = getInitialOrder()?.orderId;
+
+    return store.subscribe(
+        ({ data: { getOrder } }) => {
+            const order = getOrder();
+
+            if (!order || order.orderId === orderId) {
+                return;
+            }
+
+            broadcaster.broadcast({
+                type: ExtensionEventType.OrderPlaced,
+                payload: { order },
+            });
+
+            orderId = order.orderId;
+        },
+        ({ data: { getOrder } }) => getOrder()?.orderId,
+    );
+};
@@ -0,0 +1,70 @@
+import EventEmitter from 'events';
+
+import { CheckoutSelectors } from '../../checkout';
+import { DataStoreProjection } from '../../common/data-store';
+import { getBraintree, getPaypalExpress } from '../../payment/payment-methods.mock';
+import { ExtensionEventBroadcaster } from '../extension-event-broadcaster';
+import { ExtensionEventType } from '../extension-events';
+
+import { subscribePaymentMethodSelection } from './subscribe-payment-method-selection';
+
+describe('subscribePaymentMethodSelection', () => {
+    let store: Pick<DataStoreProjection<CheckoutSelectors>, 'getState' | 'subscribe'>;
+    let broadcaster: Pick<ExtensionEventBroadcaster, 'broadcast'>;
+    let eventEmitter: EventEmitter;
+
+    const paymentMethod = getBraintree();
+
+    beforeEach(() => {
+        eventEmitter = new EventEmitter();
+
+        store = {
+            // eslint-disable-next-line @typescript-eslint/ban-ts-comment
+            // @ts-ignore
+            getState: jest.fn(() => ({
+                data: {
+                    getSelectedPaymentMethod: () => paymentMethod,
+                },
+            })),
+            subscribe: jest.fn((listener) => {
+                eventEmitter.addListener('change', listener);
+
+                return () => {
+                    eventEmitter.removeListener('change', listener);
+                };
+            }),
+        };
+
+        broadcaster = {
+            broadcast: jest.fn(),
+        };
+    });
+
+    it('broadcasts event when another payment method is selected', () => {
+        subscribePaymentMethodSelection(
+            store as DataStoreProjection<CheckoutSelectors>,
+            broadcaster as ExtensionEventBroadcaster,
+        );
+
+        eventEmitter.emit('change', { data: { getSelectedPaymentMethod: getPaypalExpress } });
+
+        expect(broadcaster.broadcast).toHaveBeenCalledWith({
+            type: ExtensionEventType.PaymentMethodSelected,
+            payload: {
+                paymentMethod: getPaypalExpress(),
+                previousPaymentMethod: paymentMethod,
+            },
+        });
+    });
+
+    it('does not broadcast event if same payment method is reloaded', () => {
+        subscribePaymentMethodSelection(
+            store as DataStoreProjection<CheckoutSelectors>,
+            broadcaster as ExtensionEventBroadcaster,
+        );
+
+        eventEmitter.emit('change', { data: { getSelectedPaymentMethod: getBraintree } });
+
+        expect(broadcaster.broadcast).not.toHaveBeenCalled();
+    });
+});
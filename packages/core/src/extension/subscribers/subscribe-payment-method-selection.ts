@@ -0,0 +1,44 @@
+import { CheckoutSelectors } from '../../checkout';
+import { DataStoreProjection } from '../../common/data-store';
+import { ExtensionEventBroadcaster } from '../extension-event-broadcaster';
+import { ExtensionEventType } from '../extension-events';
+
+import { ExtensionChangeSubscriber } from './extension-change-subscriber';
+
+export const subscribePaymentMethodSelection: ExtensionChangeSubscriber = (
+    store: DataStoreProjection<CheckoutSelectors>,
+    broadcaster: ExtensionEventBroadcaster,
+) => {
+    const {
+        data: { getSelectedPaymentMethod: getInitialPaymentMethod },
+    } = store.getState();
+
+    let paymentMethod = getInitialPaymentMethod();
+
+    return store.subscribe(
+        ({ data: { getSelectedPaymentMethod } }) => {
+            const currentPaymentMethod = getSelectedPaymentMethod();
+
+            // The payment method is reloaded along with the checkout, so it is
+            // compared by its identifier rather than by reference.
+            if (
+                currentPaymentMethod?.id === paymentMethod?.id &&
+                currentPaymentMethod?.gateway === paymentMethod?.gateway
+            ) {
+                return;
+            }
+
+            broadcaster.broadcast({
+                type: ExtensionEventType.PaymentMethodSelected,
+                payload: {
+                    paymentMethod: currentPaymentMethod,
+                    previousPaymentMethod: paymentMethod,
+                },
+            });
+
+            paymentMethod = currentPaymentMethod;
+        },
+        ({ data: { getSelectedPaymentMethod } }) => getSelectedPaymentMethod()?.id,
+        ({ data: { getSelectedPaymentMethod } }) => getSelectedPaymentMethod()?.gateway,
+    );
+};
@@ -1,12 +1,14 @@
 import EventEmitter from 'events';
 
-import { WorkerEventListener } from '../common/worker';
+import { WorkerEventListener, WorkerEventPoster } from '../common/worker';
 
 import {
     ExtensionNotFoundError,
+    ExtensionPermissionDeniedErrorType,
     UnsupportedExtensionCommandError,
     UnsupportedExtensionQueryError,
 } from './errors';
+import { ExtensionAuditLog } from './extension-audit-log';
 import { ExtensionCommandMap, ExtensionCommandType } from './extension-commands';
 import { ExtensionQueryMap, ExtensionQueryType } from './extension-queries';
 import { WorkerExtensionMessenger } from './worker-extension-messenger';
@@ -37,6 +39,12 @@ describe('WorkerExtensionMessenger', () => {
         worker = {} as Worker;
     });
 
+    function getLastWorkerPoster(): { post: jest.Mock } {
+        const { results } = (WorkerEventPoster as jest.Mock).mock;
+
+        return results[results.length - 1].value;
+    }
+
     describe('#listenForCommand', () => {
         let listener: WorkerEventListener<ExtensionCommandMap>;
 
@@ -97,6 +105,75 @@ describe('WorkerExtensionMessenger', () => {
             );
         });
 
+        it('should pass payload of command to handler', () => {
+            const eventEmitter = new EventEmitter();
+            const command = {
+                type: ExtensionCommandType.BlockOrderSubmission,
+                payload: { block: true, reason: 'Please accept the terms.' },
+            };
+
+            jest.spyOn(listener, 'addListener').mockImplementation((type, listener) => {
+                eventEmitter.addListener(type, ({ data, context }) => listener(data, context));
+            });
+
+            messenger.listenForCommand(
+                extensionId,
+                ExtensionCommandType.BlockOrderSubmission,
+                extensionCommandHandler,
+            );
+
+            eventEmitter.emit(ExtensionCommandType.BlockOrderSubmission, {
+                data: command,
+                context: { extensionId },
+            });
+
+            expect(extensionCommandHandler).toHaveBeenCalledWith(command, { extensionId });
+        });
+
+        it('should reject commands not allowed by permissions manifest', () => {
+            const eventEmitter = new EventEmitter();
+            const auditLog = new ExtensionAuditLog();
+
+            jest.spyOn(listener, 'addListener').mockImplementation((type, listener) => {
+                eventEmitter.addListener(type, ({ data, context }) => listener(data, context));
+            });
+
+            messenger = new WorkerExtensionMessenger({}, { [extensionId]: listener }, {}, auditLog);
+            messenger.add(extensionId, worker, {
+                iframeStyleProperties: ['height'],
+            });
+
+            messenger.listenForCommand(
+                extensionId,
+                ExtensionCommandType.SetIframeStyle,
+                extensionCommandHandler,
+            );
+
+            eventEmitter.emit(ExtensionCommandType.SetIframeStyle, {
+                data: {
+                    type: ExtensionCommandType.SetIframeStyle,
+                    payload: { style: { position: 'fixed' } },
+                },
+                context: { extensionId },
+            });
+
+            expect(extensionCommandHandler).not.toHaveBeenCalled();
+            expect(WorkerEventPoster).toHaveBeenLastCalledWith(worker, extensionId);
+            expect(getLastWorkerPoster().post).toHaveBeenCalledWith({
+                type: ExtensionCommandType.SetIframeStyle,
+                error: expect.objectContaining({
+                    type: 'extension_permission_denied',
+                    subtype: ExtensionPermissionDeniedErrorType.IframeStylePropertyNotAllowed,
+                }),
+            });
+            expect(auditLog.getEntries()).toEqual([
+                expect.objectContaining({
+                    extensionId,
+                    reason: ExtensionPermissionDeniedErrorType.IframeStylePropertyNotAllowed,
+                }),
+            ]);
+        });
+
         it('should listen to commands emitted by the same extension', () => {
             const eventEmitter = new EventEmitter();
 
@@ -230,6 +307,47 @@ describe('WorkerExtensionMessenger', () => {
             );
         });
 
+        it('should reject queries not allowed by permissions manifest', () => {
+            const eventEmitter = new EventEmitter();
+            const auditLog = new ExtensionAuditLog();
+
+            jest.spyOn(listener, 'addListener').mockImplementation((type, listener) => {
+                eventEmitter.addListener(type, ({ data, context }) => listener(data, context));
+            });
+
+            messenger = new WorkerExtensionMessenger({}, {}, { [extensionId]: listener }, auditLog);
+            messenger.add(extensionId, worker, {
+                queries: [ExtensionQueryType.GetCart],
+            });
+
+            messenger.listenForQuery(
+                extensionId,
+                ExtensionQueryType.GetConsignments,
+                extensionQueryHandler,
+            );
+
+            eventEmitter.emit(ExtensionQueryType.GetConsignments, {
+                data: { type: ExtensionQueryType.GetConsignments },
+                context: { extensionId },
+            });
+
+            expect(extensionQueryHandler).not.toHaveBeenCalled();
+            expect(getLastWorkerPoster().post).toHaveBeenCalledWith({
+                type: ExtensionQueryType.GetConsignments,
+                error: expect.objectContaining({
+                    type: 'extension_permission_denied',
+                    subtype: ExtensionPermissionDeniedErrorType.QueryNotAllowed,
+                }),
+            });
+            expect(auditLog.getEntries()).toEqual([
+                expect.objectContaining({
+                    extensionId,
+                    messageType: ExtensionQueryType.GetConsignments,
+                    reason: ExtensionPermissionDeniedErrorType.QueryNotAllowed,
+                }),
+            ]);
+        });
+
         it('should listen to queries emitted by the same extension', () => {
             const eventEmitter = new EventEmitter();
 
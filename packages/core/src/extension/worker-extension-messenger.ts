@@ -2,14 +2,29 @@ import { WorkerEventListener, WorkerEventPoster } from '../common/worker';
 
 import {
     ExtensionNotFoundError,
+    ExtensionPermissionDeniedError,
     UnsupportedExtensionCommandError,
     UnsupportedExtensionQueryError,
 } from './errors';
+import { ExtensionAuditLog } from './extension-audit-log';
 import { ExtensionCommandMap, ExtensionCommandType } from './extension-commands';
-import { ExtensionCommandOrQueryContext, ExtensionMessage } from './extension-message';
+import {
+    ExtensionCommandOrQueryContext,
+    ExtensionMessage,
+    ExtensionPermissionDeniedMessage,
+} from './extension-message';
+import {
+    createPermissionDeniedMessage,
+    ExtensionPermissions,
+    getCommandPermissionError,
+    getMessagePermissionError,
+    getQueryPermissionError,
+} from './extension-permissions';
 import { ExtensionQueryMap, ExtensionQueryType } from './extension-queries';
 
 export class WorkerExtensionMessenger {
+    private _permissions: { [extensionId: string]: ExtensionPermissions | undefined } = {};
+
     constructor(
         private _workers: { [extensionId: string]: Worker } = {},
         private _commandListeners: {
@@ -18,10 +33,12 @@ export class WorkerExtensionMessenger {
         private _queryListeners: {
             [extensionId: string]: WorkerEventListener<ExtensionQueryMap>;
         } = {},
+        private _auditLog: ExtensionAuditLog = new ExtensionAuditLog(),
     ) {}
 
-    add(extensionId: string, worker: Worker): void {
+    add(extensionId: string, worker: Worker, permissions?: ExtensionPermissions): void {
         this._workers[extensionId] = worker;
+        this._permissions[extensionId] = permissions;
     }
 
     listenForCommand<T extends keyof ExtensionCommandMap>(
@@ -48,9 +65,23 @@ export class WorkerExtensionMessenger {
             command: ExtensionCommandMap[T],
             context?: ExtensionCommandOrQueryContext,
         ) => {
-            if (context?.extensionId === extensionId) {
-                commandHandler(command, context);
+            if (context?.extensionId !== extensionId) {
+                return;
             }
+
+            const error = getCommandPermissionError(
+                extensionId,
+                this._permissions[extensionId],
+                command,
+            );
+
+            if (error) {
+                this.rejectCommandOrQuery(extensionId, command.type, error);
+
+                return;
+            }
+
+            commandHandler(command, context);
         };
 
         listener.addListener(validCommandType, commandHandlerProxy);
@@ -84,9 +115,23 @@ export class WorkerExtensionMessenger {
             query: ExtensionQueryMap[T],
             context?: ExtensionCommandOrQueryContext,
         ) => {
-            if (context?.extensionId === extensionId) {
-                queryHandler(query, context);
+            if (context?.extensionId !== extensionId) {
+                return;
+            }
+
+            const error = getQueryPermissionError(
+                extensionId,
+                this._permissions[extensionId],
+                query,
+            );
+
+            if (error) {
+                this.rejectCommandOrQuery(extensionId, query.type, error);
+
+                return;
             }
+
+            queryHandler(query, context);
         };
 
         listener.addListener(validQueryType, queryHandlerProxy);
@@ -111,6 +156,18 @@ export class WorkerExtensionMessenger {
             throw new Error(`Worker with extensionId ${extensionId} not found`);
         }
 
+        const error = getMessagePermissionError(
+            extensionId,
+            this._permissions[extensionId],
+            message,
+        );
+
+        if (error) {
+            this._auditLog.record(error);
+
+            return;
+        }
+
         const workerPoster = new WorkerEventPoster(this._workers[extensionId], extensionId);
 
         workerPoster.post(message);
@@ -118,6 +175,22 @@ export class WorkerExtensionMessenger {
 
     clearCacheById(extensionId: string): void {
         delete this._workers[extensionId];
+        delete this._permissions[extensionId];
+    }
+
+    rejectCommandOrQuery(
+        extensionId: string,
+        type: ExtensionCommandType | ExtensionQueryType,
+        error: ExtensionPermissionDeniedError,
+    ): void {
+        const workerPoster = new WorkerEventPoster<ExtensionPermissionDeniedMessage, string>(
+            this._getWorkerById(extensionId),
+            extensionId,
+        );
+
+        workerPoster.post(createPermissionDeniedMessage(type, error));
+
+        this._auditLog.record(error);
     }
 
     private _getWorkerById(extensionId: string): Worker {
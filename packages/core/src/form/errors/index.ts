@@ -0,0 +1 @@
+export { default as InvalidFormFieldsError } from './invalid-form-fields-error';
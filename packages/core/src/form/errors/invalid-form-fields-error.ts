@@ -0,0 +1,19 @@
+import { StandardError } from '../../common/error/errors';
+import FormFieldError from '../form-field-error';
+
+/**
+ * This error is thrown when a request is not sent because the values of some
+ * of the form fields it contains are invalid.
+ */
+export default class InvalidFormFieldsError extends StandardError {
+    constructor(public errors: FormFieldError[]) {
+        super(
+            `Unable to proceed because the following fields are invalid: ${errors
+                .map(({ fieldName }) => fieldName)
+                .join(', ')}.`,
+        );
+
+        this.name = 'InvalidFormFieldsError';
+        this.type = 'invalid_form_fields';
+    }
+}
@@ -0,0 +1,33 @@
+export type FormFieldErrorCode =
+    | 'invalid_date'
+    | 'invalid_integer'
+    | 'invalid_option'
+    | 'max'
+    | 'max_length'
+    | 'min'
+    | 'password_missing_alpha'
+    | 'password_missing_numeric'
+    | 'password_too_short'
+    | 'required';
+
+/**
+ * Describes why the value of a form field is invalid. The error does not
+ * contain a message. Instead, it provides the key of the language string that
+ * describes it, and the parameters required to format the string, so it can be
+ * translated using `LanguageService#translate`.
+ */
+export default interface FormFieldError {
+    fieldId: string;
+    fieldName: string;
+    code: FormFieldErrorCode;
+    translationKey: string;
+    params: FormFieldErrorParams;
+}
+
+export interface FormFieldErrorParams {
+    label: string;
+    max?: string | number;
+    maxLength?: number;
+    min?: string | number;
+    minLength?: number;
+}
@@ -1,7 +1,8 @@
-import { RequestSender, Response } from '@bigcommerce/request-sender';
+import { Response } from '@bigcommerce/request-sender';
 
 import {
     ContentType,
+    HttpRequestSender,
     INTERNAL_USE_ONLY,
     RequestOptions,
     SDK_VERSION_HEADERS,
@@ -10,7 +11,7 @@ import {
 import { FormFields } from './form-field';
 
 export default class FormFieldsRequestSender {
-    constructor(private _requestSender: RequestSender) {}
+    constructor(private _requestSender: HttpRequestSender) {}
 
     loadFields({ timeout }: RequestOptions = {}): Promise<Response<FormFields>> {
         const url = '/api/storefront/form-fields';
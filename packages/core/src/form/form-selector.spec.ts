@@ -285,4 +285,23 @@ describe('FormSelector', () => {
             expect(formSelector.getOrderExtraFields()).toEqual([]);
         });
     });
+
+    describe('#getFormValidator()', () => {
+        it('returns validator for the configured form fields', () => {
+            const formSelector = createFormSelector(state.formFields);
+            const errors = formSelector
+                .getFormValidator()
+                .validateBillingAddress({ countryCode: 'US' }, getCountries());
+
+            expect(errors.map(({ fieldName }) => fieldName)).toContain('firstName');
+        });
+
+        it('returns same validator instance if form fields have not changed', () => {
+            const formSelector = createFormSelector(state.formFields);
+
+            expect(formSelector.getFormValidator()).toBe(
+                createFormSelector(state.formFields).getFormValidator(),
+            );
+        });
+    });
 });
@@ -6,6 +6,7 @@ import { Country } from '../geography';
 
 import FormField from './form-field';
 import FormFieldsState, { DEFAULT_STATE } from './form-fields-state';
+import FormValidator from './form-validator';
 import mapExtraFieldToFormField from './map-extra-field-to-form-field';
 
 export default interface FormSelector {
@@ -14,6 +15,7 @@ export default interface FormSelector {
     getCustomerAccountFields(): FormField[];
     getAddressExtraFields(): FormField[];
     getOrderExtraFields(): FormField[];
+    getFormValidator(): FormValidator;
     getLoadError(): Error | undefined;
     isLoading(): boolean;
 }
@@ -70,6 +72,28 @@ export function createFormSelectorFactory(): FormSelectorFactory {
         },
     );
 
+    const getFormValidator = createSelector(
+        getShippingAddressFields,
+        getBillingAddressFields,
+        getCustomerAccountFields,
+        getAddressExtraFields,
+        (
+            getShippingAddressFields,
+            getBillingAddressFields,
+            getCustomerAccountFields,
+            getAddressExtraFields,
+        ) => {
+            const validator = new FormValidator({
+                getShippingAddressFields,
+                getBillingAddressFields,
+                getCustomerAccountFields,
+                getAddressExtraFields,
+            });
+
+            return () => validator;
+        },
+    );
+
     const getLoadError = createSelector(
         (state: FormFieldsState) => state.errors.loadError,
         (error) => () => error,
@@ -168,6 +192,7 @@ export function createFormSelectorFactory(): FormSelectorFactory {
             getCustomerAccountFields: getCustomerAccountFields(state),
             getAddressExtraFields: getAddressExtraFields(state),
             getOrderExtraFields: getOrderExtraFields(state),
+            getFormValidator: getFormValidator(state),
             getLoadError: getLoadError(state),
             isLoading: isLoading(state),
         };
@@ -0,0 +1,225 @@
+import { getBillingAddress } from '../billing/billing-addresses.mock';
+import { getShippingAddress } from '../shipping/shipping-addresses.mock';
+
+import FormField from './form-field';
+import FormValidator from './form-validator';
+import { getAccountFormFields, getAddressExtraFields, getAddressFormFields } from './form.mock';
+import mapExtraFieldToFormField from './map-extra-field-to-form-field';
+
+describe('FormValidator', () => {
+    let validator: FormValidator;
+
+    beforeEach(() => {
+        validator = new FormValidator({
+            getShippingAddressFields: () => getAddressFormFields(),
+            getBillingAddressFields: () => getAddressFormFields(),
+            getCustomerAccountFields: () => getAccountFormFields(),
+            getAddressExtraFields: () => [],
+        });
+    });
+
+    describe('#validateShippingAddress()', () => {
+        it('returns no errors if address is valid', () => {
+            expect(validator.validateShippingAddress(getShippingAddress())).toEqual([]);
+        });
+
+        it('returns error for missing required fields', () => {
+            expect(
+                validator.validateShippingAddress({ ...getShippingAddress(), firstName: '' }),
+            ).toEqual([
+                {
+                    fieldId: 'field_4',
+                    fieldName: 'firstName',
+                    code: 'required',
+                    translationKey: 'form.required_error',
+                    params: { label: 'First Name' },
+                },
+            ]);
+        });
+
+        it('returns error if custom field value is not one of its options', () => {
+            const errors = validator.validateShippingAddress({
+                ...getShippingAddress(),
+                customFields: [{ fieldId: 'field_25', fieldValue: '5' }],
+            });
+
+            expect(errors).toEqual([expect.objectContaining({ code: 'invalid_option' })]);
+            expect(errors[0].fieldName).toBe('field_25');
+        });
+
+        it('validates address extra fields', () => {
+            validator = new FormValidator({
+                getShippingAddressFields: () => getAddressFormFields(),
+                getBillingAddressFields: () => getAddressFormFields(),
+                getCustomerAccountFields: () => getAccountFormFields(),
+                getAddressExtraFields: () => getAddressExtraFields().map(mapExtraFieldToFormField),
+            });
+
+            const errors = validator.validateShippingAddress({
+                ...getShippingAddress(),
+                extraFields: [
+                    { fieldId: '13449', fieldValue: 'longer than ten characters' },
+                    { fieldId: '13457', fieldValue: 1001 },
+                ],
+            });
+
+            expect(errors).toEqual([
+                expect.objectContaining({
+                    fieldName: 'b2bExtraField_13449',
+                    code: 'max_length',
+                    params: { label: 'textRequired', maxLength: 10 },
+                }),
+                expect.objectContaining({
+                    fieldName: 'b2bExtraField_13457',
+                    code: 'max',
+                    params: { label: 'number', max: 1000 },
+                }),
+                expect.objectContaining({
+                    fieldName: 'b2bExtraField_13530',
+                    code: 'required',
+                }),
+            ]);
+        });
+    });
+
+    describe('#validateBillingAddress()', () => {
+        it('returns no errors if address is valid', () => {
+            expect(validator.validateBillingAddress(getBillingAddress())).toEqual([]);
+        });
+
+        it('returns errors for each missing required field', () => {
+            const { firstName, lastName, ...address } = getBillingAddress();
+
+            expect(
+                validator.validateBillingAddress(address).map(({ fieldName }) => fieldName),
+            ).toEqual(['firstName', 'lastName']);
+        });
+    });
+
+    describe('#validateCustomerAccount()', () => {
+        it('returns errors for missing required fields', () => {
+            expect(
+                validator
+                    .validateCustomerAccount({ firstName: 'Foo' })
+                    .map(({ fieldName }) => fieldName),
+            ).toEqual(['lastName']);
+        });
+    });
+
+    describe('#validateField()', () => {
+        it('ignores empty optional fields', () => {
+            expect(
+                validator.validateField({ ...getAddressFormFields()[2], maxLength: 5 }, ''),
+            ).toBeUndefined();
+        });
+
+        it('returns error if integer is out of range', () => {
+            const field: FormField = {
+                id: 'field_30',
+                name: 'field_30',
+                custom: true,
+                label: 'Quantity',
+                required: false,
+                type: 'integer',
+                min: 1,
+                max: 10,
+            };
+
+            expect(validator.validateField(field, 0)).toEqual(
+                expect.objectContaining({ code: 'min', params: { label: 'Quantity', min: 1 } }),
+            );
+            expect(validator.validateField(field, 11)).toEqual(
+                expect.objectContaining({ code: 'max', params: { label: 'Quantity', max: 10 } }),
+            );
+            expect(validator.validateField(field, 1.5)).toEqual(
+                expect.objectContaining({ code: 'invalid_integer' }),
+            );
+            expect(validator.validateField(field, 5)).toBeUndefined();
+        });
+
+        it('returns error if date is invalid', () => {
+            const field: FormField = {
+                id: 'field_31',
+                name: 'field_31',
+                custom: true,
+                label: 'Delivery date',
+                required: false,
+                type: 'date',
+                min: '2020-01-01',
+            };
+
+            expect(validator.validateField(field, 'foo')).toEqual(
+                expect.objectContaining({ code: 'invalid_date' }),
+            );
+            expect(validator.validateField(field, '2019-12-31')).toEqual(
+                expect.objectContaining({ code: 'min' }),
+            );
+            expect(validator.validateField(field, '2020-06-01')).toBeUndefined();
+        });
+
+        it('parses date using input date format of field', () => {
+            const field: FormField = {
+                id: 'field_31',
+                name: 'field_31',
+                custom: true,
+                label: 'Delivery date',
+                required: false,
+                type: 'date',
+                inputDateFormat: 'dd/MM/yyyy',
+                min: '2020-01-01',
+                max: '2020-12-31',
+            };
+
+            expect(validator.validateField(field, '31/12/2020')).toBeUndefined();
+            expect(validator.validateField(field, '31/12/2019')).toEqual(
+                expect.objectContaining({ code: 'min' }),
+            );
+            expect(validator.validateField(field, '01/01/2021')).toEqual(
+                expect.objectContaining({ code: 'max' }),
+            );
+            expect(validator.validateField(field, '31/02/2020')).toEqual(
+                expect.objectContaining({ code: 'invalid_date' }),
+            );
+            expect(validator.validateField(field, '2020-06-01')).toEqual(
+                expect.objectContaining({ code: 'invalid_date' }),
+            );
+        });
+
+        it('returns error if password does not meet requirements', () => {
+            const field: FormField = {
+                id: 'field_2',
+                name: 'password',
+                custom: false,
+                label: 'Password',
+                required: true,
+                fieldType: 'password',
+                requirements: {
+                    alpha: '[A-Za-z]',
+                    numeric: '[0-9]',
+                    minlength: 7,
+                    description: 'Passwords must be at least 7 characters',
+                },
+            };
+
+            expect(validator.validateField(field, 'abc1')).toEqual(
+                expect.objectContaining({
+                    code: 'password_too_short',
+                    params: { label: 'Password', minLength: 7 },
+                }),
+            );
+            expect(validator.validateField(field, '1234567')).toEqual(
+                expect.objectContaining({ code: 'password_missing_alpha' }),
+            );
+            expect(validator.validateField(field, 'abcdefg')).toEqual(
+                expect.objectContaining({ code: 'password_missing_numeric' }),
+            );
+            expect(validator.validateField(field, 'abcdef1')).toBeUndefined();
+        });
+
+        it('skips hidden fields', () => {
+            expect(
+                validator.validate([{ ...getAddressFormFields()[0], hidden: true }], {}),
+            ).toEqual([]);
+        });
+    });
+});
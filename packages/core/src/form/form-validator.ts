@@ -0,0 +1,260 @@
+import { escapeRegExp, isNil } from 'lodash';
+
+import { AddressRequestBody } from '../address';
+import { BillingAddressRequestBody } from '../billing';
+import { CustomerAccountRequestBody } from '../customer';
+import { Country } from '../geography';
+
+import FormField from './form-field';
+import FormFieldError, { FormFieldErrorCode, FormFieldErrorParams } from './form-field-error';
+import FormSelector from './form-selector';
+import { B2B_EXTRA_FIELD_PREFIX, isExtraField } from './map-extra-field-to-form-field';
+
+const DATE_PATTERN_TOKENS: { [token: string]: { part: string; expression: string } } = {
+    yyyy: { part: 'year', expression: '(\\d{4})' },
+    yy: { part: 'shortYear', expression: '(\\d{2})' },
+    MM: { part: 'month', expression: '(\\d{2})' },
+    M: { part: 'month', expression: '(\\d{1,2})' },
+    dd: { part: 'day', expression: '(\\d{2})' },
+    d: { part: 'day', expression: '(\\d{1,2})' },
+};
+
+type FormValue = string | number | boolean | string[] | undefined | null;
+
+interface FormValues {
+    [key: string]: unknown;
+    customFields?: Array<{ fieldId: string; fieldValue: string | number | string[] }>;
+    extraFields?: Array<{ fieldId: string; fieldValue: string | number }>;
+}
+
+export type FormValidatorFieldsSelector = Pick<
+    FormSelector,
+    | 'getAddressExtraFields'
+    | 'getBillingAddressFields'
+    | 'getCustomerAccountFields'
+    | 'getShippingAddressFields'
+>;
+
+/**
+ * Validates the values of the checkout forms against the form fields
+ * configured for the store, so invalid values can be flagged before they are
+ * sent to the server.
+ */
+export default class FormValidator {
+    constructor(private _fields: FormValidatorFieldsSelector) {}
+
+    validateShippingAddress(
+        address: Partial<AddressRequestBody>,
+        countries?: Country[],
+    ): FormFieldError[] {
+        return this.validate(
+            [
+                ...this._fields.getShippingAddressFields(countries, address.countryCode ?? ''),
+                ...this._fields.getAddressExtraFields(),
+            ],
+            address,
+        );
+    }
+
+    validateBillingAddress(
+        address: Partial<BillingAddressRequestBody>,
+        countries?: Country[],
+    ): FormFieldError[] {
+        return this.validate(
+            [
+                ...this._fields.getBillingAddressFields(countries, address.countryCode ?? ''),
+                ...this._fields.getAddressExtraFields(),
+            ],
+            address,
+        );
+    }
+
+    validateCustomerAccount(account: Partial<CustomerAccountRequestBody>): FormFieldError[] {
+        return this.validate(this._fields.getCustomerAccountFields(), account);
+    }
+
+    validate(fields: FormField[], values: FormValues): FormFieldError[] {
+        return fields.reduce<FormFieldError[]>((errors, field) => {
+            const error = field.hidden
+                ? undefined
+                : this.validateField(field, getFieldValue(field, values));
+
+            return error ? [...errors, error] : errors;
+        }, []);
+    }
+
+    validateField(field: FormField, value: FormValue): FormFieldError | undefined {
+        if (isEmptyValue(value)) {
+            return field.required ? createError(field, 'required') : undefined;
+        }
+
+        if (field.fieldType === 'password' && field.requirements) {
+            return validatePassword(field, String(value));
+        }
+
+        if (field.options?.items?.length && isChoiceField(field)) {
+            const allowedValues = field.options.items.map((item) => item.value);
+            const selectedValues = Array.isArray(value) ? value : [String(value)];
+
+            return selectedValues.every((selectedValue) => allowedValues.includes(selectedValue))
+                ? undefined
+                : createError(field, 'invalid_option');
+        }
+
+        if (field.type === 'integer') {
+            return validateNumber(field, Number(value));
+        }
+
+        if (field.type === 'date') {
+            return validateDate(field, String(value));
+        }
+
+        if (field.maxLength && String(value).length > field.maxLength) {
+            return createError(field, 'max_length', { maxLength: field.maxLength });
+        }
+    }
+}
+
+function getFieldValue(field: FormField, values: FormValues): FormValue {
+    if (isExtraField(field)) {
+        return values.extraFields?.find(
+            ({ fieldId }) => `${B2B_EXTRA_FIELD_PREFIX}${fieldId}` === field.name,
+        )?.fieldValue;
+    }
+
+    if (field.custom) {
+        return values.customFields?.find(({ fieldId }) => fieldId === field.name)?.fieldValue;
+    }
+
+    return values[field.name] as FormValue;
+}
+
+function isEmptyValue(value: FormValue): boolean {
+    if (isNil(value) || value === false) {
+        return true;
+    }
+
+    if (typeof value === 'string' || Array.isArray(value)) {
+        return value.length === 0;
+    }
+
+    return false;
+}
+
+function isChoiceField(field: FormField): boolean {
+    return (
+        field.fieldType === 'dropdown' ||
+        field.fieldType === 'radio' ||
+        field.fieldType === 'checkbox'
+    );
+}
+
+function validatePassword(field: FormField, value: string): FormFieldError | undefined {
+    const { alpha, numeric, minlength } = field.requirements || {};
+
+    if (minlength && value.length < minlength) {
+        return createError(field, 'password_too_short', { minLength: minlength });
+    }
+
+    if (alpha && !new RegExp(alpha).test(value)) {
+        return createError(field, 'password_missing_alpha');
+    }
+
+    if (numeric && !new RegExp(numeric).test(value)) {
+        return createError(field, 'password_missing_numeric');
+    }
+}
+
+function validateNumber(field: FormField, value: number): FormFieldError | undefined {
+    if (!Number.isInteger(value)) {
+        return createError(field, 'invalid_integer');
+    }
+
+    if (!isNil(field.min) && field.min !== '' && value < Number(field.min)) {
+        return createError(field, 'min', { min: field.min });
+    }
+
+    if (!isNil(field.max) && field.max !== '' && value > Number(field.max)) {
+        return createError(field, 'max', { max: field.max });
+    }
+}
+
+function validateDate(field: FormField, value: string): FormFieldError | undefined {
+    const date = field.inputDateFormat
+        ? parseDatePattern(value, field.inputDateFormat)
+        : Date.parse(value);
+
+    if (Number.isNaN(date)) {
+        return createError(field, 'invalid_date');
+    }
+
+    if (field.min && date < Date.parse(String(field.min))) {
+        return createError(field, 'min', { min: field.min });
+    }
+
+    if (field.max && date > Date.parse(String(field.max))) {
+        return createError(field, 'max', { max: field.max });
+    }
+}
+
+/**
+ * Parses a date entered using a pattern such as `dd/MM/yyyy`, the notation
+ * used by `FormField.inputDateFormat`. The date is returned in milliseconds
+ * since epoch at midnight UTC, so it can be compared with the ISO dates that
+ * `min` and `max` are expressed in, or `NaN` if it does not match the pattern.
+ */
+function parseDatePattern(value: string, pattern: string): number {
+    const tokens: string[] = [];
+    const source = pattern.replace(/yyyy|yy|MM|M|dd|d|[^yMd]+/g, (token) => {
+        const definition = DATE_PATTERN_TOKENS[token];
+
+        if (!definition) {
+            return escapeRegExp(token);
+        }
+
+        tokens.push(definition.part);
+
+        return definition.expression;
+    });
+    const matches = new RegExp(`^${source}$`).exec(value.trim());
+
+    if (!matches) {
+        return NaN;
+    }
+
+    const parts: { [key: string]: number } = {};
+
+    tokens.forEach((token, index) => {
+        parts[token] = Number(matches[index + 1]);
+    });
+
+    const year = parts.year ?? 2000 + (parts.shortYear ?? NaN);
+    const month = (parts.month ?? NaN) - 1;
+    const day = parts.day ?? NaN;
+    const date = new Date(Date.UTC(year, month, day));
+
+    // Reject dates that overflow into the next month, i.e.: 31/02/2020
+    if (
+        date.getUTCFullYear() !== year ||
+        date.getUTCMonth() !== month ||
+        date.getUTCDate() !== day
+    ) {
+        return NaN;
+    }
+
+    return date.getTime();
+}
+
+function createError(
+    field: FormField,
+    code: FormFieldErrorCode,
+    params: Omit<FormFieldErrorParams, 'label'> = {},
+): FormFieldError {
+    return {
+        fieldId: field.id,
+        fieldName: field.name,
+        code,
+        translationKey: `form.${code}_error`,
+        params: { label: field.label, ...params },
+    };
+}
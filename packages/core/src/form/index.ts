@@ -1,3 +1,4 @@
+export * from './errors';
 export * from './form-fields-actions';
 
 export {
@@ -13,6 +14,12 @@ export {
     createFormSelectorFactory,
 } from './form-selector';
 export { default as FormField, FormFields } from './form-field';
+export {
+    default as FormFieldError,
+    FormFieldErrorCode,
+    FormFieldErrorParams,
+} from './form-field-error';
+export { default as FormValidator } from './form-validator';
 export { default as FormFieldsRequestSender } from './form-fields-request-sender';
 
 export { default as FormFieldsActionCreator } from './form-fields-action-creator';
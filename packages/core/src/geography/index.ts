@@ -2,7 +2,7 @@ export * from './country-responses';
 
 export { default as CountryActionCreator } from './country-action-creator';
 export { default as CountryRequestSender } from './country-request-sender';
-export { default as Country } from './country';
+export { default as Country, Region } from './country';
 export {
     default as CountrySelector,
     CountrySelectorFactory,
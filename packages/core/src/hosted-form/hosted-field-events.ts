@@ -5,6 +5,7 @@ import { HostedFieldStylesMap } from './hosted-form-options';
 import HostedFormOrderData from './hosted-form-order-data';
 import {
     StoredCardHostedFormData,
+    StoredCardHostedFormExpiryPayload,
     StoredCardHostedFormInstrumentFields,
 } from './stored-card-hosted-form-type';
 
@@ -13,6 +14,7 @@ export enum HostedFieldEventType {
     SubmitRequested = 'HOSTED_FIELD:SUBMITTED_REQUESTED',
     ValidateRequested = 'HOSTED_FIELD:VALIDATE_REQUESTED',
     StoredCardRequested = 'HOSTED_FIELD:STORED_CARD_REQUESTED',
+    StoredCardExpiryRequested = 'HOSTED_FIELD:STORED_CARD_EXPIRY_REQUESTED',
 }
 
 export interface HostedFieldEventMap {
@@ -20,13 +22,15 @@ export interface HostedFieldEventMap {
     [HostedFieldEventType.SubmitRequested]: HostedFieldSubmitRequestEvent;
     [HostedFieldEventType.ValidateRequested]: HostedFieldValidateRequestEvent;
     [HostedFieldEventType.StoredCardRequested]: HostedFieldStoredCardRequestEvent;
+    [HostedFieldEventType.StoredCardExpiryRequested]: HostedFieldStoredCardExpiryRequestEvent;
 }
 
 export type HostedFieldEvent =
     | HostedFieldAttachEvent
     | HostedFieldSubmitRequestEvent
     | HostedFieldValidateRequestEvent
-    | HostedFieldStoredCardRequestEvent;
+    | HostedFieldStoredCardRequestEvent
+    | HostedFieldStoredCardExpiryRequestEvent;
 
 export interface HostedFieldAttachEvent {
     type: HostedFieldEventType.AttachRequested;
@@ -60,3 +64,8 @@ export interface HostedFieldStoredCardRequestEvent {
         fields: StoredCardHostedFormInstrumentFields;
     };
 }
+
+export interface HostedFieldStoredCardExpiryRequestEvent {
+    type: HostedFieldEventType.StoredCardExpiryRequested;
+    payload: StoredCardHostedFormExpiryPayload;
+}
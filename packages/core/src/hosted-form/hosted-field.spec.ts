@@ -209,6 +209,28 @@ describe('HostedField', () => {
         );
     });
 
+    it('sends request to update expiry date of stored card', async () => {
+        jest.spyOn(eventPoster, 'post').mockResolvedValue({
+            type: HostedInputEventType.StoredCardSucceeded,
+        });
+
+        await field.submitStoredCardExpiryForm('123', StoredCardHostedFormDataMock);
+
+        expect(eventPoster.post).toHaveBeenCalledWith(
+            {
+                type: HostedFieldEventType.StoredCardExpiryRequested,
+                payload: {
+                    instrumentId: '123',
+                    data: StoredCardHostedFormDataMock,
+                },
+            },
+            {
+                successType: HostedInputEventType.StoredCardSucceeded,
+                errorType: HostedInputEventType.StoredCardFailed,
+            },
+        );
+    });
+
     it('ensures presence of iframe during submission', async () => {
         field.attach();
 
@@ -175,6 +175,24 @@ export default class HostedField {
         return this._detachmentObserver.ensurePresence([this._iframe], promise);
     }
 
+    async submitStoredCardExpiryForm(
+        instrumentId: string,
+        data: StoredCardHostedFormData,
+    ): Promise<HostedInputStoredCardSucceededEvent> {
+        const promise = this._eventPoster.post<HostedInputStoredCardSucceededEvent>(
+            {
+                type: HostedFieldEventType.StoredCardExpiryRequested,
+                payload: { instrumentId, data },
+            },
+            {
+                successType: HostedInputEventType.StoredCardSucceeded,
+                errorType: HostedInputEventType.StoredCardFailed,
+            },
+        );
+
+        return this._detachmentObserver.ensurePresence([this._iframe], promise);
+    }
+
     async validateForm(): Promise<void> {
         const promise = this._eventPoster.post<HostedInputValidateEvent>(
             {
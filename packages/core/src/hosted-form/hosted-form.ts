@@ -20,6 +20,7 @@ import {
 } from './iframe-content';
 import {
     StoredCardHostedFormData,
+    StoredCardHostedFormExpiryPayload,
     StoredCardHostedFormInstrumentFields,
 } from './stored-card-hosted-form-type';
 
@@ -122,6 +123,12 @@ export default class HostedForm implements HostedFormInterface {
         return this._getFirstField().submitStoredCardForm(payload.fields, payload.data);
     }
 
+    async submitStoredCardExpiry(
+        payload: StoredCardHostedFormExpiryPayload,
+    ): Promise<HostedInputStoredCardSucceededEvent | void> {
+        return this._getFirstField().submitStoredCardExpiryForm(payload.instrumentId, payload.data);
+    }
+
     async validate(): Promise<void> {
         return this._getFirstField().validateForm();
     }
@@ -23,7 +23,7 @@ describe('HostedCardExpiryInput', () => {
     let inputAggregator: Pick<HostedInputAggregator, 'getInputValues'>;
     let inputValidator: Pick<HostedInputValidator, 'validate'>;
     let paymentHandler: Pick<HostedInputPaymentHandler, 'handle'>;
-    let storedCardHandler: Pick<HostedInputStoredCardHandler, 'handle'>;
+    let storedCardHandler: Pick<HostedInputStoredCardHandler, 'handle' | 'handleExpiry'>;
     let styles: HostedInputStylesMap;
 
     beforeEach(() => {
@@ -47,7 +47,7 @@ describe('HostedCardExpiryInput', () => {
             ),
         };
         paymentHandler = { handle: jest.fn() };
-        storedCardHandler = { handle: jest.fn() };
+        storedCardHandler = { handle: jest.fn(), handleExpiry: jest.fn() };
         styles = { default: { color: 'rgb(255, 255, 255)' } };
 
         container = document.createElement('form');
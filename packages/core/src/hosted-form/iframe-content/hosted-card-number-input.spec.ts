@@ -26,7 +26,7 @@ describe('HostedCardNumberInput', () => {
     let inputValidator: Pick<HostedInputValidator, 'validate'>;
     let numberFormatter: Pick<CardNumberFormatter, 'format' | 'unformat'>;
     let paymentHandler: Pick<HostedInputPaymentHandler, 'handle'>;
-    let storedCardHandler: Pick<HostedInputStoredCardHandler, 'handle'>;
+    let storedCardHandler: Pick<HostedInputStoredCardHandler, 'handle' | 'handleExpiry'>;
     let styles: HostedInputStylesMap;
 
     beforeEach(() => {
@@ -58,7 +58,7 @@ describe('HostedCardNumberInput', () => {
         };
         numberFormatter = { format: jest.fn(), unformat: (value) => value.replace(/ /g, '') };
         paymentHandler = { handle: jest.fn() };
-        storedCardHandler = { handle: jest.fn() };
+        storedCardHandler = { handle: jest.fn(), handleExpiry: jest.fn() };
         styles = { default: { color: 'rgb(255, 255, 255)' } };
 
         input = new HostedCardNumberInput(
@@ -28,7 +28,10 @@ describe('HostedInputStoredCardHandler', () => {
     let handler: HostedInputStoredCardHandler;
     let inputAggregator: Pick<HostedInputAggregator, 'getInputValues'>;
     let inputValidator: Pick<HostedInputValidator, 'validate'>;
-    let requestSender: Pick<StorefrontStoredCardRequestSender, 'submitPaymentInstrument'>;
+    let requestSender: Pick<
+        StorefrontStoredCardRequestSender,
+        'submitPaymentInstrument' | 'updatePaymentInstrumentExpiry'
+    >;
     let values: HostedInputValues;
     let validationResults: HostedInputValidateResults;
 
@@ -39,7 +42,10 @@ describe('HostedInputStoredCardHandler', () => {
         // @ts-ignore
         inputValidator = { validate: jest.fn(() => []) };
         eventPoster = { post: jest.fn() };
-        requestSender = { submitPaymentInstrument: jest.fn() };
+        requestSender = {
+            submitPaymentInstrument: jest.fn(),
+            updatePaymentInstrumentExpiry: jest.fn(() => Promise.resolve()),
+        };
 
         handler = new HostedInputStoredCardHandler(
             inputAggregator as HostedInputAggregator,
@@ -164,4 +170,64 @@ describe('HostedInputStoredCardHandler', () => {
             type: HostedInputEventType.StoredCardFailed,
         });
     });
+
+    describe('#handleExpiry()', () => {
+        it('makes request to update expiry date of stored card', async () => {
+            await handler.handleExpiry({
+                type: HostedFieldEventType.StoredCardExpiryRequested,
+                payload: { data, instrumentId: '123' },
+            });
+
+            expect(requestSender.updatePaymentInstrumentExpiry).toHaveBeenCalledWith(data, '123', {
+                expiryMonth: 3,
+                expiryYear: 2030,
+            });
+        });
+
+        it('posts event if expiry date is updated', async () => {
+            await handler.handleExpiry({
+                type: HostedFieldEventType.StoredCardExpiryRequested,
+                payload: { data, instrumentId: '123' },
+            });
+
+            expect(eventPoster.post).toHaveBeenCalledWith({
+                type: HostedInputEventType.StoredCardSucceeded,
+            });
+        });
+
+        it('does not make request if expiry date is invalid', async () => {
+            // TODO: remove ts-ignore and update test with related type (PAYPAL-4383)
+            // eslint-disable-next-line @typescript-eslint/ban-ts-comment
+            // @ts-ignore
+            jest.spyOn(inputValidator, 'validate').mockResolvedValue({
+                ...validationResults,
+                isValid: false,
+            });
+
+            await handler.handleExpiry({
+                type: HostedFieldEventType.StoredCardExpiryRequested,
+                payload: { data, instrumentId: '123' },
+            });
+
+            expect(requestSender.updatePaymentInstrumentExpiry).not.toHaveBeenCalled();
+            expect(eventPoster.post).toHaveBeenCalledWith({
+                type: HostedInputEventType.StoredCardFailed,
+            });
+        });
+
+        it('posts event if expiry date cannot be updated', async () => {
+            jest.spyOn(requestSender, 'updatePaymentInstrumentExpiry').mockRejectedValue(
+                getResponse(getErrorPaymentResponseBody()),
+            );
+
+            await handler.handleExpiry({
+                type: HostedFieldEventType.StoredCardExpiryRequested,
+                payload: { data, instrumentId: '123' },
+            });
+
+            expect(eventPoster.post).toHaveBeenCalledWith({
+                type: HostedInputEventType.StoredCardFailed,
+            });
+        });
+    });
 });
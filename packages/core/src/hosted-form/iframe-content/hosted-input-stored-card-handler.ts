@@ -1,6 +1,9 @@
 import { IframeEventPoster } from '../../common/iframe';
 import { StorefrontStoredCardRequestSender } from '../../payment';
-import { HostedFieldStoredCardRequestEvent } from '../hosted-field-events';
+import {
+    HostedFieldStoredCardExpiryRequestEvent,
+    HostedFieldStoredCardRequestEvent,
+} from '../hosted-field-events';
 
 import HostedInputAggregator from './hosted-input-aggregator';
 import { HostedInputEvent, HostedInputEventType } from './hosted-input-events';
@@ -59,4 +62,42 @@ export default class HostedInputStoredCardHandler {
             });
         }
     };
+
+    handleExpiry: (event: HostedFieldStoredCardExpiryRequestEvent) => Promise<void> = async (
+        event,
+    ) => {
+        const {
+            payload: { data, instrumentId },
+        } = event;
+        const values = this._inputAggregator.getInputValues();
+        const results = await this._inputValidator.validate(values);
+
+        this._eventPoster.post({
+            type: HostedInputEventType.Validated,
+            payload: results,
+        });
+
+        if (!results.isValid || !values.cardExpiry) {
+            return this._eventPoster.post({
+                type: HostedInputEventType.StoredCardFailed,
+            });
+        }
+
+        const [expiryMonth, expiryYear] = values.cardExpiry.split('/');
+
+        try {
+            await this._storedCardRequestSender.updatePaymentInstrumentExpiry(data, instrumentId, {
+                expiryMonth: Number(expiryMonth.trim()),
+                expiryYear: Number(`20${expiryYear.trim()}`),
+            });
+
+            this._eventPoster.post({
+                type: HostedInputEventType.StoredCardSucceeded,
+            });
+        } catch (error) {
+            this._eventPoster.post({
+                type: HostedInputEventType.StoredCardFailed,
+            });
+        }
+    };
 }
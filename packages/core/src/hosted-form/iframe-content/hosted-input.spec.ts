@@ -30,7 +30,7 @@ describe('HostedInput', () => {
     let inputAggregator: Pick<HostedInputAggregator, 'getInputValues'>;
     let inputValidator: Pick<HostedInputValidator, 'validate'>;
     let paymentHandler: Pick<HostedInputPaymentHandler, 'handle'>;
-    let storedCardHandler: Pick<HostedInputStoredCardHandler, 'handle'>;
+    let storedCardHandler: Pick<HostedInputStoredCardHandler, 'handle' | 'handleExpiry'>;
     let styles: HostedInputStylesMap;
     let values: HostedInputValues;
 
@@ -67,7 +67,7 @@ describe('HostedInput', () => {
         fontUrls = ['https://fonts.googleapis.com/css?family=Open+Sans&display=swap'];
 
         paymentHandler = { handle: jest.fn() };
-        storedCardHandler = { handle: jest.fn() };
+        storedCardHandler = { handle: jest.fn(), handleExpiry: jest.fn() };
 
         inputAggregator = {
             getInputValues: jest.fn(() => values),
@@ -58,6 +58,10 @@ export default class HostedInput {
             HostedFieldEventType.StoredCardRequested,
             this._storedCardHandler.handle,
         );
+        this._eventListener.addListener(
+            HostedFieldEventType.StoredCardExpiryRequested,
+            this._storedCardHandler.handleExpiry,
+        );
 
         this._configureInput();
     }
@@ -25,7 +25,10 @@ describe('StoredCardHostedFormService', () => {
     });
 
     describe('when hosted form is enabled', () => {
-        let form: Pick<HostedForm, 'attach' | 'submit' | 'validate' | 'submitStoredCard'>;
+        let form: Pick<
+            HostedForm,
+            'attach' | 'submit' | 'validate' | 'submitStoredCard' | 'submitStoredCardExpiry'
+        >;
 
         beforeEach(() => {
             form = {
@@ -36,6 +39,7 @@ describe('StoredCardHostedFormService', () => {
                 submit: jest.fn(() => Promise.resolve()),
                 validate: jest.fn(() => Promise.resolve()),
                 submitStoredCard: jest.fn(() => Promise.resolve()),
+                submitStoredCardExpiry: jest.fn(() => Promise.resolve()),
             };
             initializeOptions = {
                 fields: {
@@ -111,6 +115,28 @@ describe('StoredCardHostedFormService', () => {
                 expect(form.submit).not.toHaveBeenCalled();
             }
         });
+
+        it('submits updated expiry date of stored card with hosted form', async () => {
+            await service.initialize(initializeOptions);
+            await service.submitStoredCardExpiry('123', StoredCardHostedFormDataMock);
+
+            expect(form.validate).toHaveBeenCalled();
+            expect(form.submitStoredCardExpiry).toHaveBeenCalledWith({
+                instrumentId: '123',
+                data: StoredCardHostedFormDataMock,
+            });
+        });
+
+        it('does not submit updated expiry date if validation fails', async () => {
+            jest.spyOn(form, 'validate').mockRejectedValue(new Error());
+
+            await service.initialize(initializeOptions);
+
+            await expect(
+                service.submitStoredCardExpiry('123', StoredCardHostedFormDataMock),
+            ).rejects.toThrow();
+            expect(form.submitStoredCardExpiry).not.toHaveBeenCalled();
+        });
     });
 
     describe('when hosted form is enabled but hosted fields are not present for rendering', () => {
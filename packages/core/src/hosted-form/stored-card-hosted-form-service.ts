@@ -25,6 +25,19 @@ export default class StoredCardHostedFormService {
         await form.validate().then(() => form.submitStoredCard({ fields, data }));
     }
 
+    async submitStoredCardExpiry(
+        instrumentId: string,
+        data: StoredCardHostedFormData,
+    ): Promise<void> {
+        const form = this._hostedForm;
+
+        if (!form) {
+            throw new NotInitializedError(NotInitializedErrorType.PaymentNotInitialized);
+        }
+
+        await form.validate().then(() => form.submitStoredCardExpiry({ instrumentId, data }));
+    }
+
     initialize(options: LegacyHostedFormOptions): Promise<void> {
         const form = this._hostedFormFactory.create(this._host, options);
 
@@ -16,6 +16,11 @@ export interface StoredCardHostedFormPaymentInstrument {
     verificationValue: string;
 }
 
+export interface StoredCardHostedFormInstrumentExpiry {
+    expiryMonth: number;
+    expiryYear: number;
+}
+
 export interface StoredCardHostedFormBillingAddress {
     address1: string;
     address2?: string;
@@ -44,3 +49,8 @@ export interface StoredCardHostedFormPayload {
     fields: StoredCardHostedFormInstrumentFields;
     data: StoredCardHostedFormData;
 }
+
+export interface StoredCardHostedFormExpiryPayload {
+    instrumentId: string;
+    data: StoredCardHostedFormData;
+}
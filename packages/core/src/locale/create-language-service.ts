@@ -2,6 +2,7 @@ import { getDefaultLogger } from '../common/log';
 
 import LanguageConfig from './language-config';
 import LanguageService from './language-service';
+import TranslationLoader from './translation-loader';
 
 /**
  * Creates an instance of `LanguageService`.
@@ -14,11 +15,32 @@ import LanguageService from './language-service';
  * console.log(service.translate('address.city_label'));
  * ```
  *
+ * To be able to change the locale at runtime, provide a loader for fetching
+ * the translation bundle of a locale.
+ *
+ * ```js
+ * const service = createLanguageService(language, {
+ *     loader: locale => fetch(`/translations/${locale}.json`).then(res => res.json()),
+ * });
+ *
+ * await service.setLocale('fr');
+ * ```
+ *
  * @param config - A configuration object.
+ * @param options - Options for creating the service.
  * @returns An instance of `LanguageService`.
  */
 export default function createLanguageService(
     config: Partial<LanguageConfig> = {},
+    options: LanguageServiceOptions = {},
 ): LanguageService {
-    return new LanguageService(config, getDefaultLogger());
+    return new LanguageService(config, getDefaultLogger(), options.loader);
+}
+
+export interface LanguageServiceOptions {
+    /**
+     * A function for fetching the translation bundle of a locale. It is
+     * required for changing the locale using `LanguageService#setLocale`.
+     */
+    loader?: TranslationLoader;
 }
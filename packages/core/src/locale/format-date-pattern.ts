@@ -0,0 +1,32 @@
+/**
+ * Formats a date using a pattern such as `dd/MM/yyyy`, which is the notation
+ * used by `FormField.inputDateFormat`. Supported tokens are `yyyy`, `yy`,
+ * `MM`, `M`, `dd` and `d`; any other character is output as is.
+ */
+export default function formatDatePattern(date: Date, pattern: string): string {
+    return pattern.replace(/yyyy|yy|MM|M|dd|d/g, (token) => {
+        switch (token) {
+            case 'yyyy':
+                return String(date.getFullYear());
+
+            case 'yy':
+                return String(date.getFullYear()).slice(-2);
+
+            case 'MM':
+                return padNumber(date.getMonth() + 1);
+
+            case 'M':
+                return String(date.getMonth() + 1);
+
+            case 'dd':
+                return padNumber(date.getDate());
+
+            default:
+                return String(date.getDate());
+        }
+    });
+}
+
+function padNumber(value: number): string {
+    return value < 10 ? `0${value}` : String(value);
+}
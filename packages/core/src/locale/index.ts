@@ -1,2 +1,4 @@
 export { default as createLanguageService } from './create-language-service';
 export { default as LanguageService } from './language-service';
+export { default as TranslationCoverage } from './translation-coverage';
+export { default as TranslationLoader } from './translation-loader';
@@ -1,6 +1,7 @@
+import { InvalidArgumentError } from '../common/error/errors';
 import { Logger, NoopLogger } from '../common/log';
 
-import LanguageConfig from './language-config';
+import LanguageConfig, { Translations } from './language-config';
 import LanguageService from './language-service';
 
 describe('LanguageService', () => {
@@ -279,4 +280,287 @@ describe('LanguageService', () => {
             expect(result).toContain(name);
         });
     });
+
+    describe('#translatePlural()', () => {
+        beforeEach(() => {
+            langService = new LanguageService(
+                {
+                    locale: 'en',
+                    translations: {
+                        'optimized_checkout.cart.item_count.one': '{count} item',
+                        'optimized_checkout.cart.item_count.other': '{count} items',
+                    },
+                },
+                logger,
+            );
+        });
+
+        it('returns language string matching plural category of count', () => {
+            expect(langService.translatePlural('cart.item_count', 1)).toBe('1 item');
+            expect(langService.translatePlural('cart.item_count', 1200)).toBe('1,200 items');
+        });
+
+        it('falls back to `other` category if category is not translated', () => {
+            langService = new LanguageService(
+                {
+                    locale: 'ru',
+                    translations: {
+                        'optimized_checkout.cart.item_count.one': '{count} товар',
+                        'optimized_checkout.cart.item_count.other': '{count} товара',
+                    },
+                },
+                logger,
+            );
+
+            expect(langService.getPluralCategory(5)).toBe('many');
+            expect(langService.translatePlural('cart.item_count', 5)).toBe('5 товара');
+        });
+    });
+
+    describe('#formatNumber()', () => {
+        it('formats number according to locale', () => {
+            expect(langService.formatNumber(1234.5)).toBe('1,234.5');
+
+            langService = new LanguageService(
+                { locale: 'de', translations: { 'optimized_checkout.foo': 'Foo' } },
+                logger,
+            );
+
+            expect(langService.formatNumber(1234.5)).toBe('1.234,5');
+            expect(langService.formatNumber(0.25, { style: 'percent' })).toBe('25\u00a0%');
+        });
+
+        it('falls back to default locale if locale is not supported', () => {
+            langService = new LanguageService(
+                { locale: 'invalid locale', translations: { 'optimized_checkout.foo': 'Foo' } },
+                logger,
+            );
+
+            expect(langService.formatNumber(1234.5)).toBe('1,234.5');
+        });
+    });
+
+    describe('#formatDate()', () => {
+        it('formats date according to locale', () => {
+            expect(langService.formatDate('2020-12-31')).toBe('12/31/2020');
+            expect(langService.formatDate(new Date(2020, 11, 31), { dateStyle: 'long' })).toBe(
+                'December 31, 2020',
+            );
+        });
+
+        it('formats date using input date format of form field', () => {
+            expect(langService.formatDate('2020-01-05', 'dd/MM/yyyy')).toBe('05/01/2020');
+            expect(langService.formatDate('2020-01-05', 'M/d/yy')).toBe('1/5/20');
+        });
+
+        it('returns original value if date is invalid', () => {
+            expect(langService.formatDate('foobar')).toBe('foobar');
+            expect(logger.warn).toHaveBeenCalled();
+        });
+    });
+
+    describe('#formatAddress()', () => {
+        const address = {
+            firstName: 'Test',
+            lastName: 'Tester',
+            company: '',
+            address1: '12345 Testing Way',
+            address2: '',
+            city: 'Some City',
+            stateOrProvince: 'California',
+            stateOrProvinceCode: 'CA',
+            country: 'United States',
+            countryCode: 'US',
+            postalCode: '95555',
+        };
+
+        it('formats address into lines following conventions of its country', () => {
+            expect(langService.formatAddress(address)).toEqual([
+                'Test Tester',
+                '12345 Testing Way',
+                'Some City, CA 95555',
+                'United States',
+            ]);
+
+            expect(
+                langService.formatAddress({
+                    ...address,
+                    city: 'Berlin',
+                    postalCode: '10115',
+                    countryCode: 'DE',
+                }),
+            ).toEqual(['Test Tester', '12345 Testing Way', '10115 Berlin', 'Germany']);
+        });
+
+        it('omits separators of empty fields', () => {
+            expect(
+                langService.formatAddress({ ...address, city: '', stateOrProvinceCode: '' }),
+            ).toContain('95555');
+        });
+
+        it('displays country name in current locale', () => {
+            langService = new LanguageService(
+                { locale: 'fr', translations: { 'optimized_checkout.foo': 'Foo' } },
+                logger,
+            );
+
+            expect(langService.formatAddress(address)).toContain('États-Unis');
+        });
+    });
+
+    describe('#setLocale()', () => {
+        let loader: jest.Mock<Promise<Translations>, [string]>;
+
+        beforeEach(() => {
+            const bundles: { [locale: string]: Translations } = {
+                en: {
+                    optimized_checkout: {
+                        test: {
+                            customer_heading: 'Customer',
+                            email_label: 'Email Address',
+                            shipping_heading: 'Shipping',
+                        },
+                    },
+                },
+                fr: {
+                    optimized_checkout: {
+                        test: { customer_heading: 'Client', email_label: 'Adresse e-mail' },
+                    },
+                },
+                'fr-CA': {
+                    optimized_checkout: { test: { email_label: 'Adresse courriel' } },
+                },
+            };
+
+            loader = jest.fn((locale: string) =>
+                bundles[locale]
+                    ? Promise.resolve(bundles[locale])
+                    : Promise.reject(new Error('Not found')),
+            );
+
+            langService = new LanguageService(config, logger, loader);
+        });
+
+        it('merges translations of locale with those of its fallback locales', async () => {
+            await langService.setLocale('fr-CA');
+
+            expect(loader).toHaveBeenCalledWith('en');
+            expect(loader).toHaveBeenCalledWith('fr');
+            expect(loader).toHaveBeenCalledWith('fr-CA');
+            expect(langService.getLocale()).toBe('fr-CA');
+            expect(langService.translate('test.email_label')).toBe('Adresse courriel');
+            expect(langService.translate('test.customer_heading')).toBe('Client');
+            expect(langService.translate('test.shipping_heading')).toBe('Shipping');
+        });
+
+        it('clears cached formatters', async () => {
+            expect(langService.translate('test.customer_heading')).toBe('Customer');
+
+            await langService.setLocale('fr');
+
+            expect(langService.translate('test.customer_heading')).toBe('Client');
+        });
+
+        it('only loads each bundle once', async () => {
+            await langService.setLocale('fr');
+            await langService.setLocale('fr-CA');
+            await langService.setLocale('fr');
+
+            expect(loader).toHaveBeenCalledTimes(3);
+        });
+
+        it('keeps remapped keys', async () => {
+            langService.mapKeys({ 'test.heading': 'test.customer_heading' });
+
+            await langService.setLocale('fr');
+
+            expect(langService.translate('test.heading')).toBe('Client');
+        });
+
+        it('notifies subscribers', async () => {
+            const subscriber = jest.fn();
+            const unsubscribe = langService.subscribe(subscriber);
+
+            await langService.setLocale('fr');
+
+            unsubscribe();
+
+            await langService.setLocale('fr-CA');
+
+            expect(subscriber).toHaveBeenCalledTimes(1);
+            expect(subscriber).toHaveBeenCalledWith('fr');
+        });
+
+        it('only applies locale requested last', async () => {
+            const firstRequest = langService.setLocale('fr-CA');
+            const secondRequest = langService.setLocale('fr');
+
+            await Promise.all([firstRequest, secondRequest]);
+
+            expect(langService.getLocale()).toBe('fr');
+            expect(langService.translate('test.email_label')).toBe('Adresse e-mail');
+        });
+
+        it('ignores bundles of fallback locales that fail to load', async () => {
+            loader.mockImplementation((locale) =>
+                locale === 'es'
+                    ? Promise.reject(new Error('Not found'))
+                    : Promise.resolve({ 'optimized_checkout.test.customer_heading': 'Cliente' }),
+            );
+
+            await langService.setLocale('es-MX');
+
+            expect(langService.translate('test.customer_heading')).toBe('Cliente');
+            expect(logger.warn).toHaveBeenCalled();
+        });
+
+        it('rejects and keeps current locale if bundle of locale fails to load', async () => {
+            await expect(langService.setLocale('de')).rejects.toThrow('Not found');
+
+            expect(langService.getLocale()).toBe('en');
+            expect(langService.translate('test.customer_heading')).toBe('Customer');
+        });
+
+        it('rejects if loader is not provided', async () => {
+            langService = new LanguageService(config, logger);
+
+            await expect(langService.setLocale('fr')).rejects.toThrow(InvalidArgumentError);
+        });
+    });
+
+    describe('#getTranslationCoverage()', () => {
+        it('reports keys that are only available in fallback locale', async () => {
+            langService = new LanguageService(config, logger, () =>
+                Promise.resolve({ 'optimized_checkout.test.customer_heading': 'Client' }),
+            );
+
+            await langService.setLocale('fr');
+
+            expect(langService.getTranslationCoverage()).toEqual({
+                locale: 'fr',
+                totalKeys: 1,
+                translatedKeys: 1,
+                fallbackKeys: [],
+                missingKeys: [],
+            });
+
+            langService = new LanguageService({ ...config, locale: 'fr' }, logger);
+
+            const { fallbackKeys, translatedKeys } = langService.getTranslationCoverage();
+
+            expect(translatedKeys).toBe(7);
+            expect(fallbackKeys).toEqual([
+                'optimized_checkout.test.customer_heading',
+                'optimized_checkout.test.greeting_text',
+            ]);
+        });
+
+        it('reports keys that are requested but missing', () => {
+            langService.translate('test.missing_text');
+
+            expect(langService.getTranslationCoverage().missingKeys).toEqual([
+                'optimized_checkout.test.missing_text',
+            ]);
+        });
+    });
 });
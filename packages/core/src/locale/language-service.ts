@@ -1,16 +1,21 @@
 import { FormatError, IntlMessageFormat } from 'intl-messageformat';
-import { isObject, union } from 'lodash';
+import { isObject, union, uniq } from 'lodash';
 
 import { bindDecorator as bind } from '@bigcommerce/checkout-sdk/utility';
 
+import { Address, formatAddress } from '../address';
+import { InvalidArgumentError } from '../common/error/errors';
 import { Logger } from '../common/log';
 
+import formatDatePattern from './format-date-pattern';
 import LanguageConfig, {
     Locales,
     TransformedLanguageConfig,
     TransformedTranslations,
     Translations,
 } from './language-config';
+import TranslationCoverage from './translation-coverage';
+import TranslationLoader from './translation-loader';
 
 const DEFAULT_LOCALE = 'en';
 const KEY_PREFIX = 'optimized_checkout';
@@ -30,11 +35,20 @@ export default class LanguageService {
     private _locales: Locales;
     private _translations: TransformedTranslations;
     private _formatters: { [key: string]: any };
+    private _keyMaps: { [key: string]: string } = {};
+    private _bundles: { [locale: string]: Promise<Translations> } = {};
+    private _missingKeys = new Set<string>();
+    private _subscribers: LocaleSubscriber[] = [];
+    private _pendingLocale?: string;
 
     /**
      * @internal
      */
-    constructor(config: Partial<LanguageConfig>, private _logger: Logger) {
+    constructor(
+        config: Partial<LanguageConfig>,
+        private _logger: Logger,
+        private _loader?: TranslationLoader,
+    ) {
         const { locale, locales, translations } = this._transformConfig(config);
 
         this._locale = locale;
@@ -57,11 +71,8 @@ export default class LanguageService {
      * @param maps - The set of language strings.
      */
     mapKeys(maps: { [key: string]: string }): void {
-        Object.keys(maps).forEach((key) => {
-            const translationKey = `${KEY_PREFIX}.${maps[key]}`;
-
-            this._translations[`${KEY_PREFIX}.${key}`] = this._translations[translationKey];
-        });
+        this._keyMaps = { ...this._keyMaps, ...maps };
+        this._applyKeyMaps(maps);
     }
 
     /**
@@ -73,6 +84,114 @@ export default class LanguageService {
         return this._hasTranslations() ? this._locale : DEFAULT_LOCALE;
     }
 
+    /**
+     * Changes the locale of the service without reloading the page.
+     *
+     * The translation bundles of the locale are fetched using the loader
+     * provided when creating the service, and merged with the bundles of its
+     * fallback locales, i.e.: `en` → `fr` → `fr-CA`. Bundles are only
+     * fetched once per locale. Subscribers are notified once the new language
+     * strings are in use.
+     *
+     * ```js
+     * await service.setLocale('fr-CA');
+     *
+     * console.log(service.translate('address.city_label'));
+     * ```
+     *
+     * If the service is asked to change its locale again before the bundles
+     * are loaded, only the locale requested last is applied.
+     *
+     * @param locale - The locale code.
+     * @returns A promise that resolves once the locale has changed.
+     */
+    async setLocale(locale: string): Promise<void> {
+        const loader = this._loader;
+
+        if (!loader) {
+            throw new InvalidArgumentError(
+                'Unable to change the locale because a translation loader has not been provided.',
+            );
+        }
+
+        const locales = this._getFallbackLocales(locale);
+
+        this._pendingLocale = locale;
+
+        try {
+            const bundles = await Promise.all(
+                locales.map((code) => this._loadBundle(loader, code, code === locale)),
+            );
+
+            if (this._pendingLocale !== locale) {
+                return;
+            }
+
+            const { translations, locales: translationLocales } = this._mergeBundles(
+                locales,
+                bundles,
+            );
+
+            this._locale = locale;
+            this._locales = translationLocales;
+            this._translations = translations;
+            this._formatters = {};
+            this._missingKeys.clear();
+            this._applyKeyMaps(this._keyMaps);
+
+            this._subscribers.forEach((subscriber) => subscriber(locale));
+        } finally {
+            if (this._pendingLocale === locale) {
+                this._pendingLocale = undefined;
+            }
+        }
+    }
+
+    /**
+     * Subscribes to changes of the locale.
+     *
+     * ```js
+     * const unsubscribe = service.subscribe(locale => {
+     *     console.log(locale);
+     * });
+     * ```
+     *
+     * @param subscriber - The function to call when the locale changes.
+     * @returns A function that can be called to unsubscribe.
+     */
+    subscribe(subscriber: LocaleSubscriber): () => void {
+        this._subscribers.push(subscriber);
+
+        return () => {
+            this._subscribers = this._subscribers.filter((item) => item !== subscriber);
+        };
+    }
+
+    /**
+     * Gets the translation coverage of the current locale.
+     *
+     * The coverage lists the language keys that are only available in a
+     * fallback locale, as well as those that have been requested but are not
+     * available at all.
+     *
+     * @returns The translation coverage.
+     */
+    getTranslationCoverage(): TranslationCoverage {
+        const language = this._getLanguage(this._locale);
+        const keys = Object.keys(this._translations);
+        const fallbackKeys = keys.filter(
+            (key) => !this._locales[key] || this._getLanguage(this._locales[key]) !== language,
+        );
+
+        return {
+            locale: this._locale,
+            totalKeys: keys.length,
+            translatedKeys: keys.length - fallbackKeys.length,
+            fallbackKeys,
+            missingKeys: Array.from(this._missingKeys),
+        };
+    }
+
     /**
      * Gets a language string by a key.
      *
@@ -95,6 +214,7 @@ export default class LanguageService {
         const prefixedKey = `${KEY_PREFIX}.${key}`;
 
         if (typeof this._translations[prefixedKey] !== 'string') {
+            this._missingKeys.add(prefixedKey);
             this._logger.warn(`Translation key "${prefixedKey}" is missing`);
 
             return prefixedKey;
@@ -120,6 +240,219 @@ export default class LanguageService {
         }
     }
 
+    /**
+     * Gets a language string that varies by quantity.
+     *
+     * The language string is looked up using the plural category of the count
+     * in the current locale as a suffix, i.e.: `cart.item_count.one`, and
+     * falls back to the `other` category if there is no string specific to
+     * the category. The count is available as the `count` placeholder.
+     *
+     * ```js
+     * service.translatePlural('cart.item_count', 2);
+     * ```
+     *
+     * @param key - The language key without the plural category.
+     * @param count - The quantity that determines the plural category.
+     * @param data - Data for replacing placeholders in the language string.
+     * @returns The translated language string.
+     */
+    translatePlural(key: string, count: number, data: TranslationData = {}): string {
+        const category = this.getPluralCategory(count);
+        const pluralKey =
+            typeof this._translations[`${KEY_PREFIX}.${key}.${category}`] === 'string'
+                ? `${key}.${category}`
+                : `${key}.other`;
+
+        return this.translate(pluralKey, { count: this.formatNumber(count), ...data });
+    }
+
+    /**
+     * Gets the plural category of a quantity in the current locale, i.e.:
+     * `one`, `few` or `other`.
+     *
+     * @param count - The quantity.
+     * @returns The plural category.
+     */
+    getPluralCategory(count: number): Intl.LDMLPluralRule {
+        return this._withIntlLocale(
+            (locale) => new Intl.PluralRules(locale).select(count),
+            () => (count === 1 ? 'one' : 'other'),
+        );
+    }
+
+    /**
+     * Formats a number according to the current locale.
+     *
+     * ```js
+     * service.formatNumber(1234.5); // 1,234.5
+     * service.formatNumber(0.25, { style: 'percent' }); // 25%
+     * ```
+     *
+     * @param value - The number to format.
+     * @param options - Options for `Intl.NumberFormat`.
+     * @returns The formatted number.
+     */
+    formatNumber(value: number, options?: Intl.NumberFormatOptions): string {
+        return this._withIntlLocale(
+            (locale) => new Intl.NumberFormat(locale, options).format(value),
+            () => String(value),
+        );
+    }
+
+    /**
+     * Formats a date according to the current locale, or according to a
+     * pattern if one is provided, i.e.: the `inputDateFormat` of a form field.
+     *
+     * ```js
+     * service.formatDate('2020-12-31'); // 12/31/2020
+     * service.formatDate('2020-12-31', { dateStyle: 'long' }); // December 31, 2020
+     * service.formatDate('2020-12-31', formField.inputDateFormat); // 31/12/2020
+     * ```
+     *
+     * Dates passed as strings in `yyyy-MM-dd` format are treated as local
+     * dates. If the date is invalid, it is returned as is.
+     *
+     * @param date - The date to format.
+     * @param format - A date pattern or options for `Intl.DateTimeFormat`.
+     * @returns The formatted date.
+     */
+    formatDate(date: Date | string | number, format?: string | Intl.DateTimeFormatOptions): string {
+        const value = this._parseDate(date);
+
+        if (!value) {
+            this._logger.warn(`Unable to format invalid date "${String(date)}"`);
+
+            return String(date);
+        }
+
+        if (typeof format === 'string' && format) {
+            return formatDatePattern(value, format);
+        }
+
+        return this._withIntlLocale(
+            (locale) =>
+                new Intl.DateTimeFormat(
+                    locale,
+                    typeof format === 'object' ? format : undefined,
+                ).format(value),
+            () => formatDatePattern(value, 'yyyy-MM-dd'),
+        );
+    }
+
+    /**
+     * Formats an address into lines for display, following the conventions of
+     * the country of the address. The name of the country is displayed in the
+     * current locale if it is supported by the browser.
+     *
+     * ```js
+     * service.formatAddress(address).join('\n');
+     * ```
+     *
+     * @param address - The address to format.
+     * @returns The lines of the formatted address.
+     */
+    formatAddress(address: Partial<Address>): string[] {
+        const country = address.countryCode
+            ? this._withIntlLocale(
+                  (locale) =>
+                      new Intl.DisplayNames(locale, { type: 'region' }).of(
+                          address.countryCode || '',
+                      ),
+                  () => undefined,
+              )
+            : undefined;
+
+        return formatAddress({ ...address, country: country || address.country });
+    }
+
+    private _applyKeyMaps(maps: { [key: string]: string }): void {
+        Object.keys(maps).forEach((key) => {
+            const translationKey = `${KEY_PREFIX}.${maps[key]}`;
+
+            this._translations[`${KEY_PREFIX}.${key}`] = this._translations[translationKey];
+        });
+    }
+
+    private _getLanguage(locale: string): string {
+        return locale.split(/[-_]/)[0];
+    }
+
+    private _getFallbackLocales(locale: string): string[] {
+        return uniq([DEFAULT_LOCALE, this._getLanguage(locale), locale]);
+    }
+
+    private async _loadBundle(
+        loader: TranslationLoader,
+        locale: string,
+        isRequired: boolean,
+    ): Promise<Translations> {
+        if (!this._bundles[locale]) {
+            this._bundles[locale] = loader(locale);
+        }
+
+        try {
+            return await this._bundles[locale];
+        } catch (error) {
+            delete this._bundles[locale];
+
+            if (isRequired) {
+                throw error;
+            }
+
+            this._logger.warn(`Unable to load translations for "${locale}": ${String(error)}`);
+
+            return {};
+        }
+    }
+
+    private _mergeBundles(
+        locales: string[],
+        bundles: Translations[],
+    ): { translations: TransformedTranslations; locales: Locales } {
+        return bundles.reduce<{ translations: TransformedTranslations; locales: Locales }>(
+            (result, bundle, index) => {
+                const translations = this._flattenObject(bundle);
+
+                Object.keys(translations).forEach((key) => {
+                    if (translations[key]) {
+                        result.translations[key] = translations[key];
+                        result.locales[key] = locales[index];
+                    }
+                });
+
+                return result;
+            },
+            { translations: {}, locales: {} },
+        );
+    }
+
+    private _withIntlLocale<T>(format: (locale: string) => T, fallback: () => T): T {
+        const locale = this.getLocale().replace('_', '-');
+
+        try {
+            return format(locale);
+        } catch {
+            // The locale may not be supported by the browser, or the `Intl`
+            // API itself may be unavailable.
+        }
+
+        try {
+            return format(DEFAULT_LOCALE);
+        } catch {
+            return fallback();
+        }
+    }
+
+    private _parseDate(date: Date | string | number): Date | undefined {
+        const match = typeof date === 'string' && /^(\d{4})-(\d{2})-(\d{2})$/.exec(date);
+        const value = match
+            ? new Date(Number(match[1]), Number(match[2]) - 1, Number(match[3]))
+            : new Date(date);
+
+        return isNaN(value.getTime()) ? undefined : value;
+    }
+
     private _transformConfig(config: Partial<LanguageConfig> = {}): TransformedLanguageConfig {
         const output: TransformedLanguageConfig = {
             defaultLocale: '',
@@ -205,6 +538,8 @@ export default class LanguageService {
     }
 }
 
+export type LocaleSubscriber = (locale: string) => void;
+
 export interface TranslationData {
     [key: string]: string | number;
 }
@@ -0,0 +1,27 @@
+export default interface TranslationCoverage {
+    /**
+     * The locale that the coverage is reported for.
+     */
+    locale: string;
+
+    /**
+     * The total number of language strings that are available.
+     */
+    totalKeys: number;
+
+    /**
+     * The number of language strings that are available in the locale.
+     */
+    translatedKeys: number;
+
+    /**
+     * The language keys that are only available in a fallback locale.
+     */
+    fallbackKeys: string[];
+
+    /**
+     * The language keys that have been requested but are not available in
+     * any locale.
+     */
+    missingKeys: string[];
+}
@@ -0,0 +1,9 @@
+import { Translations } from './language-config';
+
+/**
+ * A function responsible for fetching the translation bundle of a locale,
+ * i.e.: from a CDN or from the storefront.
+ */
+type TranslationLoader = (locale: string) => Promise<Translations>;
+
+export default TranslationLoader;
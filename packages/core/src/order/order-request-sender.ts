@@ -1,4 +1,4 @@
-import { RequestSender, Response } from '@bigcommerce/request-sender';
+import { Response } from '@bigcommerce/request-sender';
 import { isNil, omitBy } from 'lodash';
 
 import {
@@ -8,6 +8,7 @@ import {
 } from '../cart/errors';
 import {
     ContentType,
+    HttpRequestSender,
     joinIncludes,
     RequestOptions,
     SDK_VERSION_HEADERS,
@@ -26,7 +27,7 @@ export interface SubmitOrderRequestOptions extends RequestOptions {
 }
 
 export default class OrderRequestSender {
-    constructor(private _requestSender: RequestSender) {}
+    constructor(private _requestSender: HttpRequestSender) {}
 
     loadOrder(orderId: number, { timeout }: RequestOptions = {}): Promise<Response<Order>> {
         const url = `/api/storefront/orders/${orderId}`;
@@ -1,4 +1,4 @@
-import { createRequestSender, RequestSender } from '@bigcommerce/request-sender';
+import { createRequestSender } from '@bigcommerce/request-sender';
 import { createScriptLoader } from '@bigcommerce/script-loader';
 
 import { PaymentIntegrationService } from '@bigcommerce/checkout-sdk/payment-integration-api';
@@ -11,6 +11,8 @@ import {
     CheckoutStore,
     CheckoutValidator,
 } from '../checkout';
+import { HttpRequestSender } from '../common/http-request';
+import { Logger } from '../common/log';
 import { ConfigActionCreator, ConfigRequestSender } from '../config';
 import CouponActionCreator from '../coupon/coupon-action-creator';
 import CouponRequestSender from '../coupon/coupon-request-sender';
@@ -27,7 +29,9 @@ import {
     PaymentRequestSender,
     PaymentRequestTransformer,
 } from '../payment';
+import PaymentStrategyPhaseActionCreator from '../payment/payment-strategy-phase-action-creator';
 import PaymentStrategyWidgetActionCreator from '../payment/payment-strategy-widget-action-creator';
+import PendingPaymentStorage from '../payment/pending-payment-storage';
 import { PaymentProviderCustomerActionCreator } from '../payment-provider-customer';
 import { RemoteCheckoutActionCreator, RemoteCheckoutRequestSender } from '../remote-checkout';
 import {
@@ -51,7 +55,8 @@ import PaymentIntegrationStoreProjectionFactory from './payment-integration-stor
 
 export default function createPaymentIntegrationService(
     store: CheckoutStore,
-    requestSender?: RequestSender,
+    requestSender?: HttpRequestSender,
+    logger?: Logger,
 ): PaymentIntegrationService {
     const {
         config: { getHost, getLocale },
@@ -146,6 +151,10 @@ export default function createPaymentIntegrationService(
 
     const paymentStrategyWidgetActionCreator = new PaymentStrategyWidgetActionCreator();
 
+    const paymentStrategyPhaseActionCreator = new PaymentStrategyPhaseActionCreator(
+        new PendingPaymentStorage(),
+    );
+
     return new DefaultPaymentIntegrationService(
         store,
         storeProjectionFactory,
@@ -167,5 +176,7 @@ export default function createPaymentIntegrationService(
         shippingCountryActionCreator,
         remoteCheckoutActionCreator,
         paymentStrategyWidgetActionCreator,
+        paymentStrategyPhaseActionCreator,
+        logger,
     );
 }
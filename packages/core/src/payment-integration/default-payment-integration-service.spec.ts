@@ -1,11 +1,13 @@
 import { createAction } from '@bigcommerce/data-store';
 import { createRequestSender, RequestSender } from '@bigcommerce/request-sender';
 import { noop } from 'lodash';
+import { of } from 'rxjs';
 
 import {
     HostedFieldType,
     PaymentIntegrationSelectors,
     PaymentIntegrationService,
+    PaymentLifecyclePhase,
 } from '@bigcommerce/checkout-sdk/payment-integration-api';
 import {
     getBuyNowCart,
@@ -24,6 +26,7 @@ import {
 } from '../checkout';
 import { DataStoreProjection } from '../common/data-store';
 import { getResponse } from '../common/http-request/responses.mock';
+import { Logger, NoopLogger } from '../common/log';
 import { CouponActionCreator } from '../coupon';
 import { CustomerActionCreator } from '../customer';
 import { HostedForm, HostedFormFactory } from '../hosted-form';
@@ -31,8 +34,11 @@ import { OrderActionCreator } from '../order';
 import { getOrder } from '../order/orders.mock';
 import PaymentActionCreator from '../payment/payment-action-creator';
 import PaymentMethodActionCreator from '../payment/payment-method-action-creator';
+import { PaymentStrategyActionType } from '../payment/payment-strategy-actions';
+import PaymentStrategyPhaseActionCreator from '../payment/payment-strategy-phase-action-creator';
 import PaymentStrategyWidgetActionCreator from '../payment/payment-strategy-widget-action-creator';
 import { getPayment } from '../payment/payments.mock';
+import PendingPaymentStorage from '../payment/pending-payment-storage';
 import { PaymentProviderCustomerActionCreator } from '../payment-provider-customer';
 import { RemoteCheckoutActionCreator } from '../remote-checkout';
 import { ConsignmentActionCreator, ShippingCountryActionCreator } from '../shipping';
@@ -93,6 +99,8 @@ describe('DefaultPaymentIntegrationService', () => {
         'initializePayment' | 'forgetCheckout' | 'signOut'
     >;
     let paymentStrategyWidgetActionCreator: PaymentStrategyWidgetActionCreator;
+    let paymentStrategyPhaseActionCreator: PaymentStrategyPhaseActionCreator;
+    let logger: Logger;
 
     beforeEach(() => {
         requestSender = createRequestSender();
@@ -295,6 +303,12 @@ describe('DefaultPaymentIntegrationService', () => {
             widgetInteraction: jest.fn(),
         };
 
+        paymentStrategyPhaseActionCreator = new PaymentStrategyPhaseActionCreator(
+            new PendingPaymentStorage(),
+        );
+
+        logger = new NoopLogger();
+
         subject = new DefaultPaymentIntegrationService(
             store as CheckoutStore,
             storeProjectionFactory as PaymentIntegrationStoreProjectionFactory,
@@ -316,6 +330,8 @@ describe('DefaultPaymentIntegrationService', () => {
             shippingCountryActionCreator as ShippingCountryActionCreator,
             remoteCheckoutActionCreator as RemoteCheckoutActionCreator,
             paymentStrategyWidgetActionCreator,
+            paymentStrategyPhaseActionCreator,
+            logger,
         );
     });
 
@@ -727,4 +743,35 @@ describe('DefaultPaymentIntegrationService', () => {
             expect(output).toEqual(paymentIntegrationSelectors);
         });
     });
+
+    describe('#reportPaymentPhase', () => {
+        it('dispatches action to change payment phase', async () => {
+            const action = of(
+                createAction(
+                    PaymentStrategyActionType.PhaseChanged,
+                    { phase: PaymentLifecyclePhase.Challenge },
+                    { methodId: 'braintree' },
+                ),
+            );
+
+            jest.spyOn(paymentStrategyPhaseActionCreator, 'changePhase').mockReturnValue(action);
+
+            const output = await subject.reportPaymentPhase(PaymentLifecyclePhase.Challenge, {
+                methodId: 'braintree',
+            });
+
+            expect(paymentStrategyPhaseActionCreator.changePhase).toHaveBeenCalledWith(
+                PaymentLifecyclePhase.Challenge,
+                { methodId: 'braintree' },
+            );
+            expect(store.dispatch).toHaveBeenCalledWith(action);
+            expect(output).toEqual(paymentIntegrationSelectors);
+        });
+    });
+
+    describe('#getLogger', () => {
+        it('returns logger of checkout', () => {
+            expect(subject.getLogger()).toBe(logger);
+        });
+    });
 });
@@ -9,6 +9,8 @@ import {
     Payment,
     PaymentIntegrationSelectors,
     PaymentIntegrationService,
+    PaymentLifecyclePhase,
+    PaymentRequestOptions,
     RequestOptions,
     ShippingAddressRequestBody,
 } from '@bigcommerce/checkout-sdk/payment-integration-api';
@@ -17,6 +19,7 @@ import { BillingAddressActionCreator } from '../billing';
 import { CartRequestSender } from '../cart';
 import { Checkout, CheckoutActionCreator, CheckoutStore, CheckoutValidator } from '../checkout';
 import { DataStoreProjection } from '../common/data-store';
+import { getDefaultLogger, Logger } from '../common/log';
 import CouponActionCreator from '../coupon/coupon-action-creator';
 import { CustomerActionCreator, CustomerCredentials } from '../customer';
 import { HostedFormFactory } from '../hosted-form';
@@ -24,6 +27,7 @@ import { OrderActionCreator } from '../order';
 import { PaymentAdditionalAction } from '../payment';
 import PaymentActionCreator from '../payment/payment-action-creator';
 import PaymentMethodActionCreator from '../payment/payment-method-action-creator';
+import PaymentStrategyPhaseActionCreator from '../payment/payment-strategy-phase-action-creator';
 import PaymentStrategyWidgetActionCreator from '../payment/payment-strategy-widget-action-creator';
 import {
     PaymentProviderCustomer,
@@ -61,6 +65,8 @@ export default class DefaultPaymentIntegrationService implements PaymentIntegrat
         private _shippingCountryActionCreator: ShippingCountryActionCreator,
         private _remoteCheckoutActionCreator: RemoteCheckoutActionCreator,
         private _paymentStrategyWidgetActionCreator: PaymentStrategyWidgetActionCreator,
+        private _paymentStrategyPhaseActionCreator: PaymentStrategyPhaseActionCreator,
+        private _logger: Logger = getDefaultLogger(),
     ) {
         this._storeProjection = this._storeProjectionFactory.create(this._store);
     }
@@ -342,4 +348,19 @@ export default class DefaultPaymentIntegrationService implements PaymentIntegrat
 
         return this._storeProjection.getState();
     }
+
+    async reportPaymentPhase(
+        phase: PaymentLifecyclePhase,
+        options: PaymentRequestOptions,
+    ): Promise<PaymentIntegrationSelectors> {
+        await this._store.dispatch(
+            this._paymentStrategyPhaseActionCreator.changePhase(phase, options),
+        );
+
+        return this._storeProjection.getState();
+    }
+
+    getLogger(): Logger {
+        return this._logger;
+    }
 }
@@ -1,6 +1,6 @@
-import { RequestSender, Response } from '@bigcommerce/request-sender';
+import { Response } from '@bigcommerce/request-sender';
 
-import { RequestOptions } from '../common/http-request';
+import { HttpRequestSender, RequestOptions } from '../common/http-request';
 
 export interface B2BCompanyPaymentMethodsResponseBody {
     data: Array<{
@@ -12,7 +12,7 @@ export interface B2BCompanyPaymentMethodsResponseBody {
 }
 
 export default class B2BCompanyPaymentMethodRequestSender {
-    constructor(private _requestSender: RequestSender) {}
+    constructor(private _requestSender: HttpRequestSender) {}
 
     async getB2BCompanyPaymentMethods(
         companyId: number,
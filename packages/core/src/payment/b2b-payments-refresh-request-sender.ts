@@ -1,6 +1,6 @@
-import { RequestSender, Response } from '@bigcommerce/request-sender';
+import { Response } from '@bigcommerce/request-sender';
 
-import { RequestOptions } from '../common/http-request';
+import { HttpRequestSender, RequestOptions } from '../common/http-request';
 
 export interface B2BPaymentsRefreshPayment {
     code: string;
@@ -8,7 +8,7 @@ export interface B2BPaymentsRefreshPayment {
 }
 
 export default class B2BPaymentsRefreshRequestSender {
-    constructor(private _requestSender: RequestSender) {}
+    constructor(private _requestSender: HttpRequestSender) {}
 
     async refresh(
         payments: B2BPaymentsRefreshPayment[],
@@ -1,6 +1,6 @@
-import { RequestSender, Response } from '@bigcommerce/request-sender';
+import { Response } from '@bigcommerce/request-sender';
 
-import { RequestOptions } from '../common/http-request';
+import { HttpRequestSender, RequestOptions } from '../common/http-request';
 import { ShippingOption } from '../shipping';
 
 export interface CloseInvoicePayload {
@@ -85,7 +85,7 @@ interface CreateCompanyAddressResponseBody {
 }
 
 export default class B2BPostOrderRequestSender {
-    constructor(private _requestSender: RequestSender) {}
+    constructor(private _requestSender: HttpRequestSender) {}
 
     // To be deleted
     // invoiceComment will be sent to the Order API
@@ -0,0 +1,44 @@
+import { PaymentLifecyclePhase } from '@bigcommerce/checkout-sdk/payment-integration-api';
+
+import canTransitionPaymentPhase from './can-transition-payment-phase';
+
+describe('canTransitionPaymentPhase()', () => {
+    it('returns true if transition is allowed', () => {
+        expect(
+            canTransitionPaymentPhase(
+                PaymentLifecyclePhase.Ready,
+                PaymentLifecyclePhase.Submitting,
+            ),
+        ).toBe(true);
+        expect(
+            canTransitionPaymentPhase(
+                PaymentLifecyclePhase.Submitting,
+                PaymentLifecyclePhase.Challenge,
+            ),
+        ).toBe(true);
+        expect(
+            canTransitionPaymentPhase(
+                PaymentLifecyclePhase.Failed,
+                PaymentLifecyclePhase.Submitting,
+            ),
+        ).toBe(true);
+    });
+
+    it('returns false if transition is not allowed', () => {
+        expect(
+            canTransitionPaymentPhase(
+                PaymentLifecyclePhase.Completed,
+                PaymentLifecyclePhase.Submitting,
+            ),
+        ).toBe(false);
+        expect(
+            canTransitionPaymentPhase(
+                PaymentLifecyclePhase.Initializing,
+                PaymentLifecyclePhase.Redirecting,
+            ),
+        ).toBe(false);
+        expect(
+            canTransitionPaymentPhase(PaymentLifecyclePhase.Ready, PaymentLifecyclePhase.Idle),
+        ).toBe(false);
+    });
+});
@@ -0,0 +1,82 @@
+import { PaymentLifecyclePhase } from '@bigcommerce/checkout-sdk/payment-integration-api';
+
+const PAYMENT_PHASE_TRANSITIONS: { [key in PaymentLifecyclePhase]: PaymentLifecyclePhase[] } = {
+    [PaymentLifecyclePhase.Idle]: [
+        PaymentLifecyclePhase.Initializing,
+        PaymentLifecyclePhase.Submitting,
+        PaymentLifecyclePhase.Completed,
+        PaymentLifecyclePhase.Failed,
+        PaymentLifecyclePhase.Cancelled,
+    ],
+    [PaymentLifecyclePhase.Initializing]: [
+        PaymentLifecyclePhase.Ready,
+        PaymentLifecyclePhase.Failed,
+        PaymentLifecyclePhase.Cancelled,
+    ],
+    [PaymentLifecyclePhase.Ready]: [
+        PaymentLifecyclePhase.Submitting,
+        PaymentLifecyclePhase.AwaitingApproval,
+        PaymentLifecyclePhase.Cancelled,
+    ],
+    [PaymentLifecyclePhase.Submitting]: [
+        PaymentLifecyclePhase.Challenge,
+        PaymentLifecyclePhase.AwaitingApproval,
+        PaymentLifecyclePhase.Redirecting,
+        PaymentLifecyclePhase.Polling,
+        PaymentLifecyclePhase.Completed,
+        PaymentLifecyclePhase.Failed,
+        PaymentLifecyclePhase.Cancelled,
+    ],
+    [PaymentLifecyclePhase.Challenge]: [
+        PaymentLifecyclePhase.Submitting,
+        PaymentLifecyclePhase.Redirecting,
+        PaymentLifecyclePhase.Polling,
+        PaymentLifecyclePhase.Completed,
+        PaymentLifecyclePhase.Failed,
+        PaymentLifecyclePhase.Cancelled,
+    ],
+    [PaymentLifecyclePhase.AwaitingApproval]: [
+        PaymentLifecyclePhase.Submitting,
+        PaymentLifecyclePhase.Redirecting,
+        PaymentLifecyclePhase.Polling,
+        PaymentLifecyclePhase.Completed,
+        PaymentLifecyclePhase.Failed,
+        PaymentLifecyclePhase.Cancelled,
+    ],
+    [PaymentLifecyclePhase.Redirecting]: [
+        PaymentLifecyclePhase.Polling,
+        PaymentLifecyclePhase.Completed,
+        PaymentLifecyclePhase.Failed,
+        PaymentLifecyclePhase.Cancelled,
+    ],
+    [PaymentLifecyclePhase.Polling]: [
+        PaymentLifecyclePhase.Challenge,
+        PaymentLifecyclePhase.Redirecting,
+        PaymentLifecyclePhase.Completed,
+        PaymentLifecyclePhase.Failed,
+        PaymentLifecyclePhase.Cancelled,
+    ],
+    [PaymentLifecyclePhase.Completed]: [],
+    [PaymentLifecyclePhase.Failed]: [
+        PaymentLifecyclePhase.Initializing,
+        PaymentLifecyclePhase.Submitting,
+        PaymentLifecyclePhase.AwaitingApproval,
+    ],
+    [PaymentLifecyclePhase.Cancelled]: [
+        PaymentLifecyclePhase.Initializing,
+        PaymentLifecyclePhase.Submitting,
+        PaymentLifecyclePhase.AwaitingApproval,
+    ],
+};
+
+/**
+ * Checks whether a payment is allowed to move from one phase of its lifecycle
+ * to another. A payment can only be reset to `idle` by deinitializing its
+ * payment strategy, therefore the transition is not listed here.
+ */
+export default function canTransitionPaymentPhase(
+    from: PaymentLifecyclePhase,
+    to: PaymentLifecyclePhase,
+): boolean {
+    return PAYMENT_PHASE_TRANSITIONS[from].includes(to);
+}
@@ -1,8 +1,8 @@
 import { createFormPoster } from '@bigcommerce/form-poster';
-import { RequestSender } from '@bigcommerce/request-sender';
 import { createScriptLoader } from '@bigcommerce/script-loader';
 
 import { CheckoutRequestSender, CheckoutStore, CheckoutValidator } from '../checkout';
+import { HttpRequestSender } from '../common/http-request';
 import { BrowserStorage } from '../common/storage';
 import { HostedFormFactory } from '../hosted-form';
 import { OrderActionCreator, OrderRequestSender } from '../order';
@@ -24,7 +24,7 @@ import {
 export default function createPaymentStrategyRegistry(
     store: CheckoutStore,
     paymentClient: any,
-    requestSender: RequestSender,
+    requestSender: HttpRequestSender,
 ) {
     const registry = new PaymentStrategyRegistry({
         defaultToken: PaymentStrategyType.CREDIT_CARD,
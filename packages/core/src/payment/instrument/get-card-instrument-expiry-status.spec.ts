@@ -0,0 +1,61 @@
+import { getCardInstrumentExpiryStatus } from './get-card-instrument-expiry-status';
+import { InstrumentExpiryStatus } from './instrument';
+import { getCardInstrument } from './instrument.mock';
+
+describe('getCardInstrumentExpiryStatus()', () => {
+    const now = new Date(2026, 9, 19);
+
+    it('returns expired status if expiry month has passed', () => {
+        expect(
+            getCardInstrumentExpiryStatus(
+                { ...getCardInstrument(), expiryMonth: '09', expiryYear: '2026' },
+                now,
+            ),
+        ).toBe(InstrumentExpiryStatus.Expired);
+    });
+
+    it('returns expiring soon status if card expires this month', () => {
+        expect(
+            getCardInstrumentExpiryStatus(
+                { ...getCardInstrument(), expiryMonth: '10', expiryYear: '2026' },
+                now,
+            ),
+        ).toBe(InstrumentExpiryStatus.ExpiringSoon);
+    });
+
+    it('returns expiring soon status if card expires next month', () => {
+        expect(
+            getCardInstrumentExpiryStatus(
+                { ...getCardInstrument(), expiryMonth: '11', expiryYear: '2026' },
+                now,
+            ),
+        ).toBe(InstrumentExpiryStatus.ExpiringSoon);
+    });
+
+    it('returns valid status if card does not expire soon', () => {
+        expect(
+            getCardInstrumentExpiryStatus(
+                { ...getCardInstrument(), expiryMonth: '01', expiryYear: '2027' },
+                now,
+            ),
+        ).toBe(InstrumentExpiryStatus.Valid);
+    });
+
+    it('handles two digit expiry years', () => {
+        expect(
+            getCardInstrumentExpiryStatus(
+                { ...getCardInstrument(), expiryMonth: '12', expiryYear: '25' },
+                now,
+            ),
+        ).toBe(InstrumentExpiryStatus.Expired);
+    });
+
+    it('returns valid status if expiry date is unknown', () => {
+        expect(
+            getCardInstrumentExpiryStatus(
+                { ...getCardInstrument(), expiryMonth: '', expiryYear: '' },
+                now,
+            ),
+        ).toBe(InstrumentExpiryStatus.Valid);
+    });
+});
@@ -0,0 +1,32 @@
+import { CardInstrument, InstrumentExpiryStatus } from './instrument';
+
+// Number of months, including the current month, in which a card is
+// considered to be expiring soon.
+const EXPIRING_SOON_MONTHS = 2;
+
+export function getCardInstrumentExpiryStatus(
+    { expiryMonth, expiryYear }: CardInstrument,
+    now: Date = new Date(),
+): InstrumentExpiryStatus {
+    const month = Number(expiryMonth);
+    const year = Number(expiryYear) < 100 ? Number(expiryYear) + 2000 : Number(expiryYear);
+
+    // Treat instruments with unknown expiry as valid so they are not hidden
+    // from the shopper. The gateway is the source of truth in that case.
+    if (!month || !year) {
+        return InstrumentExpiryStatus.Valid;
+    }
+
+    // Cards remain valid until the last day of their expiry month.
+    const remainingMonths = (year - now.getFullYear()) * 12 + (month - (now.getMonth() + 1));
+
+    if (remainingMonths < 0) {
+        return InstrumentExpiryStatus.Expired;
+    }
+
+    if (remainingMonths < EXPIRING_SOON_MONTHS) {
+        return InstrumentExpiryStatus.ExpiringSoon;
+    }
+
+    return InstrumentExpiryStatus.Valid;
+}
@@ -2,7 +2,9 @@ export {
     default as PaymentInstrument,
     AccountInstrument,
     CardInstrument,
+    CardInstrumentFilter,
     AchInstrument,
+    InstrumentExpiryStatus,
 } from './instrument';
 export { default as InstrumentActionCreator } from './instrument-action-creator';
 export { default as InstrumentRequestSender } from './instrument-request-sender';
@@ -9,8 +9,11 @@ import { ErrorResponseBody } from '@bigcommerce/checkout-sdk/payment-integration
 import { Address } from '../../address';
 import { CheckoutStore, CheckoutStoreState, createCheckoutStore } from '../../checkout';
 import { getCheckoutStoreState } from '../../checkout/checkouts.mock';
+import { MissingDataError } from '../../common/error/errors';
 import { getErrorResponse, getResponse } from '../../common/http-request/responses.mock';
 import { getConfig, getConfigState } from '../../config/configs.mock';
+import StoredCardHostedFormService from '../../hosted-form/stored-card-hosted-form-service';
+import { StoredCardHostedFormInstrumentFields } from '../../hosted-form/stored-card-hosted-form-type';
 import { getShippingAddress } from '../../shipping/shipping-addresses.mock';
 
 import { VaultAccessToken } from './instrument';
@@ -61,6 +64,9 @@ describe('InstrumentActionCreator', () => {
         jest.spyOn(instrumentRequestSender, 'deleteInstrument').mockResolvedValue(
             deleteInstrumentResponse,
         );
+        jest.spyOn(instrumentRequestSender, 'updateInstrument').mockResolvedValue(
+            loadInstrumentsResponse,
+        );
 
         instrumentActionCreator = new InstrumentActionCreator(instrumentRequestSender);
 
@@ -285,4 +291,319 @@ describe('InstrumentActionCreator', () => {
             }
         });
     });
+
+    describe('#updateInstrument()', () => {
+        const bigpayBaseUrl = 'https://bigpay.integration.zone';
+
+        it('updates an instrument', async () => {
+            await from(
+                instrumentActionCreator.updateInstrument(instrumentId, {
+                    defaultInstrument: true,
+                })(store),
+            ).toPromise();
+
+            expect(instrumentRequestSender.getVaultAccessToken).toHaveBeenCalled();
+            expect(instrumentRequestSender.updateInstrument).toHaveBeenCalledWith(
+                bigpayBaseUrl,
+                {
+                    storeId,
+                    customerId,
+                    currencyCode,
+                    authToken: vaultAccessToken,
+                },
+                instrumentId,
+                { defaultInstrument: true },
+            );
+        });
+
+        it('refreshes vault access token if it is about to expire', async () => {
+            store = createCheckoutStore({
+                ...state,
+                instruments: {
+                    ...getInstrumentsState(),
+                    meta: {
+                        ...getInstrumentsMeta(),
+                        vaultAccessExpiry: Date.now() + 60 * 1000,
+                    },
+                },
+            });
+
+            await from(
+                instrumentActionCreator.updateInstrument(instrumentId, { nickname: 'Work card' })(
+                    store,
+                ),
+            ).toPromise();
+
+            expect(instrumentRequestSender.getVaultAccessToken).toHaveBeenCalled();
+        });
+
+        it('emits actions if able to update an instrument', async () => {
+            const actions = await from(
+                instrumentActionCreator.updateInstrument(instrumentId, { nickname: 'Work card' })(
+                    store,
+                ),
+            )
+                .pipe(toArray())
+                .toPromise();
+
+            expect(actions).toEqual([
+                {
+                    type: InstrumentActionType.UpdateInstrumentRequested,
+                    meta: { instrumentId },
+                },
+                {
+                    type: InstrumentActionType.UpdateInstrumentSucceeded,
+                    meta: { instrumentId, vaultAccessExpiry, vaultAccessToken },
+                    payload: loadInstrumentsResponse.body,
+                },
+            ]);
+        });
+
+        it('emits error actions if unable to update an instrument', async () => {
+            jest.spyOn(instrumentRequestSender, 'updateInstrument').mockRejectedValue(
+                errorResponse,
+            );
+
+            const errorHandler = jest.fn((action) => of(action));
+            const actions = await from(
+                instrumentActionCreator.updateInstrument(instrumentId, { nickname: 'Work card' })(
+                    store,
+                ),
+            )
+                .pipe(catchError(errorHandler), toArray())
+                .toPromise();
+
+            expect(errorHandler).toHaveBeenCalled();
+            expect(actions).toEqual([
+                {
+                    type: InstrumentActionType.UpdateInstrumentRequested,
+                    meta: { instrumentId },
+                },
+                {
+                    type: InstrumentActionType.UpdateInstrumentFailed,
+                    meta: { instrumentId },
+                    payload: errorResponse,
+                    error: true,
+                },
+            ]);
+        });
+    });
+
+    describe('#vaultInstrument()', () => {
+        let storedCardHostedFormService: StoredCardHostedFormService;
+        let fields: StoredCardHostedFormInstrumentFields;
+
+        beforeEach(() => {
+            storedCardHostedFormService = {
+                submitStoredCard: jest.fn(() => Promise.resolve()),
+            } as unknown as StoredCardHostedFormService;
+
+            fields = {
+                address1: '12345 Testing Way',
+                city: 'Some City',
+                postalCode: '95555',
+                countryCode: 'US',
+                firstName: 'Test',
+                lastName: 'Tester',
+                email: 'test@bigcommerce.com',
+                defaultInstrument: true,
+            };
+        });
+
+        it('submits card details of hosted form with vault access token', async () => {
+            await from(
+                instrumentActionCreator.vaultInstrument(
+                    storedCardHostedFormService,
+                    'braintree',
+                    fields,
+                )(store),
+            ).toPromise();
+
+            expect(storedCardHostedFormService.submitStoredCard).toHaveBeenCalledWith(fields, {
+                currencyCode,
+                paymentsUrl: 'https://bigpay.integration.zone',
+                providerId: 'braintree',
+                shopperId: String(customerId),
+                storeHash: 'k1drp8k8',
+                vaultToken: vaultAccessToken,
+            });
+        });
+
+        it('emits actions if able to vault an instrument', async () => {
+            const actions = await from(
+                instrumentActionCreator.vaultInstrument(
+                    storedCardHostedFormService,
+                    'braintree',
+                    fields,
+                )(store),
+            )
+                .pipe(toArray())
+                .toPromise();
+
+            expect(actions).toEqual([
+                { type: InstrumentActionType.VaultInstrumentRequested },
+                {
+                    type: InstrumentActionType.VaultInstrumentSucceeded,
+                    meta: { vaultAccessExpiry, vaultAccessToken },
+                },
+            ]);
+        });
+
+        it('emits error actions if unable to vault an instrument', async () => {
+            const error = new Error();
+
+            jest.spyOn(storedCardHostedFormService, 'submitStoredCard').mockRejectedValue(error);
+
+            const errorHandler = jest.fn((action) => of(action));
+            const actions = await from(
+                instrumentActionCreator.vaultInstrument(
+                    storedCardHostedFormService,
+                    'braintree',
+                    fields,
+                )(store),
+            )
+                .pipe(catchError(errorHandler), toArray())
+                .toPromise();
+
+            expect(errorHandler).toHaveBeenCalled();
+            expect(actions).toEqual([
+                { type: InstrumentActionType.VaultInstrumentRequested },
+                {
+                    type: InstrumentActionType.VaultInstrumentFailed,
+                    payload: error,
+                    error: true,
+                },
+            ]);
+        });
+
+        it('emits error actions without vaulting an instrument if the shopper is a guest', async () => {
+            store = createCheckoutStore({
+                ...state,
+                cart: merge({}, state.cart, { data: { customerId: 0 } }),
+            });
+
+            const errorHandler = jest.fn((action) => of(action));
+            const actions = await from(
+                instrumentActionCreator.vaultInstrument(
+                    storedCardHostedFormService,
+                    'braintree',
+                    fields,
+                )(store),
+            )
+                .pipe(catchError(errorHandler), toArray())
+                .toPromise();
+
+            expect(storedCardHostedFormService.submitStoredCard).not.toHaveBeenCalled();
+            expect(actions).toEqual([
+                { type: InstrumentActionType.VaultInstrumentRequested },
+                {
+                    type: InstrumentActionType.VaultInstrumentFailed,
+                    payload: expect.any(MissingDataError),
+                    error: true,
+                },
+            ]);
+        });
+    });
+
+    describe('#updateInstrumentExpiry()', () => {
+        let storedCardHostedFormService: StoredCardHostedFormService;
+
+        beforeEach(() => {
+            storedCardHostedFormService = {
+                submitStoredCardExpiry: jest.fn(() => Promise.resolve()),
+            } as unknown as StoredCardHostedFormService;
+
+            store = createCheckoutStore({
+                ...state,
+                instruments: getInstrumentsState(),
+            });
+        });
+
+        it('submits expiry date of hosted form with provider of instrument', async () => {
+            await from(
+                instrumentActionCreator.updateInstrumentExpiry(
+                    storedCardHostedFormService,
+                    instrumentId,
+                )(store),
+            ).toPromise();
+
+            expect(storedCardHostedFormService.submitStoredCardExpiry).toHaveBeenCalledWith(
+                instrumentId,
+                {
+                    currencyCode,
+                    paymentsUrl: 'https://bigpay.integration.zone',
+                    providerId: 'braintree',
+                    shopperId: String(customerId),
+                    storeHash: 'k1drp8k8',
+                    vaultToken: vaultAccessToken,
+                },
+            );
+        });
+
+        it('emits actions if able to update expiry date', async () => {
+            const actions = await from(
+                instrumentActionCreator.updateInstrumentExpiry(
+                    storedCardHostedFormService,
+                    instrumentId,
+                )(store),
+            )
+                .pipe(toArray())
+                .toPromise();
+
+            expect(actions).toEqual([
+                {
+                    type: InstrumentActionType.UpdateInstrumentRequested,
+                    meta: { instrumentId },
+                },
+                {
+                    type: InstrumentActionType.UpdateInstrumentSucceeded,
+                    meta: { instrumentId, vaultAccessExpiry, vaultAccessToken },
+                },
+            ]);
+        });
+
+        it('emits error actions if unable to update expiry date', async () => {
+            const error = new Error();
+
+            jest.spyOn(storedCardHostedFormService, 'submitStoredCardExpiry').mockRejectedValue(
+                error,
+            );
+
+            const errorHandler = jest.fn((action) => of(action));
+            const actions = await from(
+                instrumentActionCreator.updateInstrumentExpiry(
+                    storedCardHostedFormService,
+                    instrumentId,
+                )(store),
+            )
+                .pipe(catchError(errorHandler), toArray())
+                .toPromise();
+
+            expect(errorHandler).toHaveBeenCalled();
+            expect(actions).toEqual([
+                {
+                    type: InstrumentActionType.UpdateInstrumentRequested,
+                    meta: { instrumentId },
+                },
+                {
+                    type: InstrumentActionType.UpdateInstrumentFailed,
+                    meta: { instrumentId },
+                    payload: error,
+                    error: true,
+                },
+            ]);
+        });
+
+        it('throws error if card instrument is not found', async () => {
+            await expect(
+                from(
+                    instrumentActionCreator.updateInstrumentExpiry(
+                        storedCardHostedFormService,
+                        '999',
+                    )(store),
+                ).toPromise(),
+            ).rejects.toBeInstanceOf(MissingDataError);
+            expect(storedCardHostedFormService.submitStoredCardExpiry).not.toHaveBeenCalled();
+        });
+    });
 });
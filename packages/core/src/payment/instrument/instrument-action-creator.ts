@@ -5,12 +5,20 @@ import { Address } from '../../address';
 import { InternalCheckoutSelectors, ReadableCheckoutStore } from '../../checkout';
 import { addMinutes, isFuture } from '../../common/date-time';
 import { MissingDataError, MissingDataErrorType } from '../../common/error/errors';
+import { StoreConfig } from '../../config';
+import StoredCardHostedFormService from '../../hosted-form/stored-card-hosted-form-service';
+import {
+    StoredCardHostedFormData,
+    StoredCardHostedFormInstrumentFields,
+} from '../../hosted-form/stored-card-hosted-form-type';
 
-import { SessionContext, VaultAccessToken } from './instrument';
+import { InstrumentUpdateRequestBody, SessionContext, VaultAccessToken } from './instrument';
 import {
     DeleteInstrumentAction,
     InstrumentActionType,
     LoadInstrumentsAction,
+    UpdateInstrumentAction,
+    VaultInstrumentAction,
 } from './instrument-actions';
 import InstrumentRequestSender from './instrument-request-sender';
 
@@ -105,13 +113,171 @@ export default class InstrumentActionCreator {
             });
     }
 
+    updateInstrument(
+        instrumentId: string,
+        requestBody: InstrumentUpdateRequestBody,
+    ): ThunkAction<UpdateInstrumentAction, InternalCheckoutSelectors> {
+        return (store) =>
+            Observable.create((observer: Observer<UpdateInstrumentAction>) => {
+                observer.next(
+                    createAction(InstrumentActionType.UpdateInstrumentRequested, undefined, {
+                        instrumentId,
+                    }),
+                );
+
+                const { bigpayBaseUrl } = this._getStoreConfig(store).paymentSettings;
+                const session = this._getSessionContext(store);
+                const token = this._getCurrentAccessToken(store);
+
+                return this._getValidAccessToken(token)
+                    .then((currentToken) =>
+                        this._instrumentRequestSender
+                            .updateInstrument(
+                                bigpayBaseUrl,
+                                {
+                                    ...session,
+                                    authToken: currentToken.vaultAccessToken,
+                                },
+                                instrumentId,
+                                requestBody,
+                            )
+                            .then(({ body }) => {
+                                observer.next(
+                                    createAction(
+                                        InstrumentActionType.UpdateInstrumentSucceeded,
+                                        body,
+                                        {
+                                            instrumentId,
+                                            ...currentToken,
+                                        },
+                                    ),
+                                );
+                                observer.complete();
+                            }),
+                    )
+                    .catch((response) => {
+                        observer.error(
+                            createErrorAction(
+                                InstrumentActionType.UpdateInstrumentFailed,
+                                response,
+                                { instrumentId },
+                            ),
+                        );
+                    });
+            });
+    }
+
+    vaultInstrument(
+        storedCardHostedFormService: StoredCardHostedFormService,
+        providerId: string,
+        fields: StoredCardHostedFormInstrumentFields,
+    ): ThunkAction<VaultInstrumentAction, InternalCheckoutSelectors> {
+        return (store) =>
+            Observable.create((observer: Observer<VaultInstrumentAction>) => {
+                observer.next(createAction(InstrumentActionType.VaultInstrumentRequested));
+
+                const { customerId } = this._getSessionContext(store);
+
+                if (!customerId) {
+                    return observer.error(
+                        createErrorAction(
+                            InstrumentActionType.VaultInstrumentFailed,
+                            new MissingDataError(MissingDataErrorType.MissingCustomer),
+                        ),
+                    );
+                }
+
+                const token = this._getCurrentAccessToken(store);
+
+                return this._getValidAccessToken(token)
+                    .then((currentToken) =>
+                        storedCardHostedFormService
+                            .submitStoredCard(
+                                fields,
+                                this._getStoredCardHostedFormData(
+                                    store,
+                                    providerId,
+                                    currentToken.vaultAccessToken,
+                                ),
+                            )
+                            .then(() => {
+                                observer.next(
+                                    createAction(
+                                        InstrumentActionType.VaultInstrumentSucceeded,
+                                        undefined,
+                                        currentToken,
+                                    ),
+                                );
+                                observer.complete();
+                            }),
+                    )
+                    .catch((error) => {
+                        observer.error(
+                            createErrorAction(InstrumentActionType.VaultInstrumentFailed, error),
+                        );
+                    });
+            });
+    }
+
+    updateInstrumentExpiry(
+        storedCardHostedFormService: StoredCardHostedFormService,
+        instrumentId: string,
+    ): ThunkAction<UpdateInstrumentAction, InternalCheckoutSelectors> {
+        return (store) =>
+            Observable.create((observer: Observer<UpdateInstrumentAction>) => {
+                observer.next(
+                    createAction(InstrumentActionType.UpdateInstrumentRequested, undefined, {
+                        instrumentId,
+                    }),
+                );
+
+                const { provider } = store
+                    .getState()
+                    .instruments.getCardInstrumentOrThrow(instrumentId);
+                const token = this._getCurrentAccessToken(store);
+
+                return this._getValidAccessToken(token)
+                    .then((currentToken) =>
+                        storedCardHostedFormService
+                            .submitStoredCardExpiry(
+                                instrumentId,
+                                this._getStoredCardHostedFormData(
+                                    store,
+                                    provider,
+                                    currentToken.vaultAccessToken,
+                                ),
+                            )
+                            .then(() => {
+                                observer.next(
+                                    createAction(
+                                        InstrumentActionType.UpdateInstrumentSucceeded,
+                                        undefined,
+                                        {
+                                            instrumentId,
+                                            ...currentToken,
+                                        },
+                                    ),
+                                );
+                                observer.complete();
+                            }),
+                    )
+                    .catch((error) => {
+                        observer.error(
+                            createErrorAction(InstrumentActionType.UpdateInstrumentFailed, error, {
+                                instrumentId,
+                            }),
+                        );
+                    });
+            });
+    }
+
     private _isValidVaultAccessToken(token: VaultAccessToken): boolean {
         if (!token || !token.vaultAccessToken) {
             return false;
         }
 
         const expiryBuffer = 2;
-        const expiry = addMinutes(new Date(token.vaultAccessExpiry), expiryBuffer);
+        const expiry = addMinutes(new Date(token.vaultAccessExpiry), -expiryBuffer);
 
         return isFuture(expiry);
     }
@@ -143,29 +309,55 @@ export default class InstrumentActionCreator {
         return addresses.length > 1 ? addresses : state.shippingAddress.getShippingAddress();
     }
 
-    private _getSessionContext(store: ReadableCheckoutStore): SessionContext {
-        const state = store.getState();
-        const config = state.config.getStoreConfig();
-        const cart = state.cart.getCart();
+    private _getStoreConfig(store: ReadableCheckoutStore): StoreConfig {
+        const config = store.getState().config.getStoreConfig();
 
         if (!config) {
             throw new MissingDataError(MissingDataErrorType.MissingCheckoutConfig);
         }
 
+        return config;
+    }
+
+    private _getCurrencyCode(config: StoreConfig): string {
+        return config.shopperCurrency.isTransactional
+            ? config.shopperCurrency.code
+            : config.currency.code;
+    }
+
+    private _getStoredCardHostedFormData(
+        store: ReadableCheckoutStore,
+        providerId: string,
+        vaultToken: string,
+    ): StoredCardHostedFormData {
+        const config = this._getStoreConfig(store);
+        const { customerId } = this._getSessionContext(store);
+
+        return {
+            currencyCode: this._getCurrencyCode(config),
+            paymentsUrl: config.paymentSettings.bigpayBaseUrl,
+            providerId,
+            shopperId: String(customerId),
+            storeHash: config.storeProfile.storeHash,
+            vaultToken,
+        };
+    }
+
+    private _getSessionContext(store: ReadableCheckoutStore): SessionContext {
+        const config = this._getStoreConfig(store);
+        const cart = store.getState().cart.getCart();
+
         if (!cart) {
             throw new MissingDataError(MissingDataErrorType.MissingCart);
         }
 
         const { customerId } = cart;
         const { storeId } = config.storeProfile;
-        const { code } = config.shopperCurrency.isTransactional
-            ? config.shopperCurrency
-            : config.currency;
 
         return {
             customerId,
             storeId,
-            currencyCode: code,
+            currencyCode: this._getCurrencyCode(config),
         };
     }
 }
@@ -11,9 +11,21 @@ export enum InstrumentActionType {
     DeleteInstrumentRequested = 'DELETE_INSTRUMENT_REQUESTED',
     DeleteInstrumentSucceeded = 'DELETE_INSTRUMENT_SUCCEEDED',
     DeleteInstrumentFailed = 'DELETE_INSTRUMENT_FAILED',
+
+    UpdateInstrumentRequested = 'UPDATE_INSTRUMENT_REQUESTED',
+    UpdateInstrumentSucceeded = 'UPDATE_INSTRUMENT_SUCCEEDED',
+    UpdateInstrumentFailed = 'UPDATE_INSTRUMENT_FAILED',
+
+    VaultInstrumentRequested = 'VAULT_INSTRUMENT_REQUESTED',
+    VaultInstrumentSucceeded = 'VAULT_INSTRUMENT_SUCCEEDED',
+    VaultInstrumentFailed = 'VAULT_INSTRUMENT_FAILED',
 }
 
-export type InstrumentAction = LoadInstrumentsAction | DeleteInstrumentAction;
+export type InstrumentAction =
+    | LoadInstrumentsAction
+    | DeleteInstrumentAction
+    | UpdateInstrumentAction
+    | VaultInstrumentAction;
 
 export type LoadInstrumentsAction =
     | LoadInstrumentsRequestedAction
@@ -25,6 +37,16 @@ export type DeleteInstrumentAction =
     | DeleteInstrumentSucceededAction
     | DeleteInstrumentFailedAction;
 
+export type UpdateInstrumentAction =
+    | UpdateInstrumentRequestedAction
+    | UpdateInstrumentSucceededAction
+    | UpdateInstrumentFailedAction;
+
+export type VaultInstrumentAction =
+    | VaultInstrumentRequestedAction
+    | VaultInstrumentSucceededAction
+    | VaultInstrumentFailedAction;
+
 export interface LoadInstrumentsRequestedAction extends Action {
     type: InstrumentActionType.LoadInstrumentsRequested;
 }
@@ -50,3 +72,31 @@ export interface DeleteInstrumentSucceededAction
 export interface DeleteInstrumentFailedAction extends Action<Error> {
     type: InstrumentActionType.DeleteInstrumentFailed;
 }
+
+export interface UpdateInstrumentRequestedAction extends Action {
+    type: InstrumentActionType.UpdateInstrumentRequested;
+}
+
+export interface UpdateInstrumentSucceededAction
+    extends Action<
+        InstrumentsResponseBody | undefined,
+        VaultAccessToken & { instrumentId: string }
+    > {
+    type: InstrumentActionType.UpdateInstrumentSucceeded;
+}
+
+export interface UpdateInstrumentFailedAction extends Action<Error> {
+    type: InstrumentActionType.UpdateInstrumentFailed;
+}
+
+export interface VaultInstrumentRequestedAction extends Action {
+    type: InstrumentActionType.VaultInstrumentRequested;
+}
+
+export interface VaultInstrumentSucceededAction extends Action<undefined, VaultAccessToken> {
+    type: InstrumentActionType.VaultInstrumentSucceeded;
+}
+
+export interface VaultInstrumentFailedAction extends Action<Error> {
+    type: InstrumentActionType.VaultInstrumentFailed;
+}
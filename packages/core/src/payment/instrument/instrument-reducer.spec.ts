@@ -125,4 +125,106 @@ describe('instrumentReducer()', () => {
             },
         });
     });
+
+    it('returns new state when updating instrument', () => {
+        const action: InstrumentAction = {
+            type: InstrumentActionType.UpdateInstrumentRequested,
+            meta: { instrumentId: '123' },
+        };
+
+        expect(instrumentReducer(initialState, action)).toEqual({
+            ...initialState,
+            errors: {
+                updateError: undefined,
+                updateFailedInstrument: undefined,
+            },
+            statuses: {
+                isUpdating: true,
+                updatingInstrument: '123',
+            },
+        });
+    });
+
+    it('returns new state when instrument is updated', () => {
+        const action: InstrumentAction = {
+            type: InstrumentActionType.UpdateInstrumentSucceeded,
+            meta: {
+                ...getInstrumentsMeta(),
+                instrumentId: '123',
+            },
+            payload: getLoadInstrumentsResponseBody(),
+        };
+
+        expect(instrumentReducer(initialState, action)).toEqual({
+            ...initialState,
+            meta: action.meta,
+            errors: {
+                updateError: undefined,
+                updateFailedInstrument: undefined,
+            },
+            statuses: {
+                isUpdating: false,
+                updatingInstrument: undefined,
+            },
+        });
+    });
+
+    it('returns new state when instrument cannot be updated', () => {
+        const action: InstrumentAction = {
+            type: InstrumentActionType.UpdateInstrumentFailed,
+            meta: { instrumentId: '123' },
+            payload: createRequestErrorFactory().createError(getErrorResponse()),
+        };
+
+        expect(instrumentReducer(initialState, action)).toEqual({
+            ...initialState,
+            errors: {
+                updateError: action.payload,
+                updateFailedInstrument: '123',
+            },
+            statuses: {
+                isUpdating: false,
+                updatingInstrument: undefined,
+            },
+        });
+    });
+
+    it('returns new state when vaulting instrument', () => {
+        const action: InstrumentAction = {
+            type: InstrumentActionType.VaultInstrumentRequested,
+        };
+
+        expect(instrumentReducer(initialState, action)).toEqual({
+            ...initialState,
+            errors: { vaultError: undefined },
+            statuses: { isVaulting: true },
+        });
+    });
+
+    it('returns new state when instrument is vaulted', () => {
+        const action: InstrumentAction = {
+            type: InstrumentActionType.VaultInstrumentSucceeded,
+            meta: getInstrumentsMeta(),
+        };
+
+        expect(instrumentReducer(initialState, action)).toEqual({
+            ...initialState,
+            meta: action.meta,
+            errors: { vaultError: undefined },
+            statuses: { isVaulting: false },
+        });
+    });
+
+    it('returns new state when instrument cannot be vaulted', () => {
+        const action: InstrumentAction = {
+            type: InstrumentActionType.VaultInstrumentFailed,
+            payload: new Error(),
+        };
+
+        expect(instrumentReducer(initialState, action)).toEqual({
+            ...initialState,
+            errors: { vaultError: action.payload },
+            statuses: { isVaulting: false },
+        });
+    });
 });
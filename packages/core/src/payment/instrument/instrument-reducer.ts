@@ -46,6 +46,8 @@ function metaReducer(
     switch (action.type) {
         case InstrumentActionType.LoadInstrumentsSucceeded:
         case InstrumentActionType.DeleteInstrumentSucceeded:
+        case InstrumentActionType.UpdateInstrumentSucceeded:
+        case InstrumentActionType.VaultInstrumentSucceeded:
             return objectMerge(meta, action.meta);
 
         default:
@@ -69,6 +71,17 @@ function errorsReducer(
                 failedInstrument: undefined,
             });
 
+        case InstrumentActionType.UpdateInstrumentRequested:
+        case InstrumentActionType.UpdateInstrumentSucceeded:
+            return objectMerge(errors, {
+                updateError: undefined,
+                updateFailedInstrument: undefined,
+            });
+
+        case InstrumentActionType.VaultInstrumentRequested:
+        case InstrumentActionType.VaultInstrumentSucceeded:
+            return objectSet(errors, 'vaultError', undefined);
+
         case InstrumentActionType.LoadInstrumentsFailed:
             return objectSet(errors, 'loadError', action.payload);
 
@@ -78,6 +91,15 @@ function errorsReducer(
                 failedInstrument: action.meta.instrumentId,
             });
 
+        case InstrumentActionType.UpdateInstrumentFailed:
+            return objectMerge(errors, {
+                updateError: action.payload,
+                updateFailedInstrument: action.meta.instrumentId,
+            });
+
+        case InstrumentActionType.VaultInstrumentFailed:
+            return objectSet(errors, 'vaultError', action.payload);
+
         default:
             return errors;
     }
@@ -97,6 +119,15 @@ function statusesReducer(
                 deletingInstrument: action.meta.instrumentId,
             });
 
+        case InstrumentActionType.UpdateInstrumentRequested:
+            return objectMerge(statuses, {
+                isUpdating: true,
+                updatingInstrument: action.meta.instrumentId,
+            });
+
+        case InstrumentActionType.VaultInstrumentRequested:
+            return objectSet(statuses, 'isVaulting', true);
+
         case InstrumentActionType.LoadInstrumentsSucceeded:
         case InstrumentActionType.LoadInstrumentsFailed:
             return objectSet(statuses, 'isLoading', false);
@@ -108,6 +139,17 @@ function statusesReducer(
                 deletingInstrument: undefined,
             });
 
+        case InstrumentActionType.UpdateInstrumentSucceeded:
+        case InstrumentActionType.UpdateInstrumentFailed:
+            return objectMerge(statuses, {
+                isUpdating: false,
+                updatingInstrument: undefined,
+            });
+
+        case InstrumentActionType.VaultInstrumentSucceeded:
+        case InstrumentActionType.VaultInstrumentFailed:
+            return objectSet(statuses, 'isVaulting', false);
+
         default:
             return statuses;
     }
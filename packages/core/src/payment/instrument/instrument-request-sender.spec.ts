@@ -14,6 +14,7 @@ import { getShippingAddress } from '../../shipping/shipping-addresses.mock';
 import { InstrumentRequestContext } from './instrument';
 import InstrumentRequestSender from './instrument-request-sender';
 import { InternalVaultAccessTokenResponseBody } from './instrument-response-body';
+import InstrumentResponseTransformer from './instrument-response-transformer';
 import {
     deleteInstrumentResponseBody,
     getErrorInstrumentResponseBody,
@@ -201,4 +202,80 @@ describe('InstrumentRequestSender', () => {
             }
         });
     });
+
+    describe('#updateInstrument()', () => {
+        const bigpayBaseUrl = 'https://bigpay.integration.zone';
+        const instrumentId = '123';
+
+        beforeEach(() => {
+            jest.spyOn(requestSender, 'patch').mockResolvedValue(
+                getResponse(getInternalInstrumentsResponseBody()),
+            );
+        });
+
+        it('updates an instrument if request is successful', async () => {
+            const response = await instrumentRequestSender.updateInstrument(
+                bigpayBaseUrl,
+                requestContext,
+                instrumentId,
+                { defaultInstrument: true, nickname: 'Work card' },
+            );
+
+            expect(response).toEqual(getResponse({ vaultedInstruments: getInstruments() }));
+            expect(requestSender.patch).toHaveBeenCalledWith(
+                `${bigpayBaseUrl}/api/v2/stores/${requestContext.storeId}/shoppers/${requestContext.customerId}/instruments/${instrumentId}`,
+                {
+                    credentials: false,
+                    headers: {
+                        Authorization: requestContext.authToken,
+                        'X-XSRF-TOKEN': null,
+                    },
+                    params: { currency_code: requestContext.currencyCode },
+                    body: { default_instrument: true, nickname: 'Work card' },
+                },
+            );
+        });
+
+        it('only sends fields that are being updated', async () => {
+            await instrumentRequestSender.updateInstrument(
+                bigpayBaseUrl,
+                requestContext,
+                instrumentId,
+                { nickname: 'Work card' },
+            );
+
+            expect(requestSender.patch).toHaveBeenCalledWith(
+                expect.any(String),
+                expect.objectContaining({ body: { nickname: 'Work card' } }),
+            );
+        });
+
+        it('returns error response if request is unsuccessful', async () => {
+            const errorResponse = getResponse(
+                getErrorInstrumentResponseBody(),
+                {},
+                400,
+                'Bad Request',
+            );
+
+            jest.spyOn(requestSender, 'patch').mockRejectedValue(errorResponse);
+            jest.spyOn(InstrumentResponseTransformer.prototype, 'transformErrorResponse');
+
+            await expect(
+                instrumentRequestSender.updateInstrument(
+                    bigpayBaseUrl,
+                    requestContext,
+                    instrumentId,
+                    {
+                        defaultInstrument: true,
+                    },
+                ),
+            ).rejects.toEqual(errorResponse);
+            expect(
+                InstrumentResponseTransformer.prototype.transformErrorResponse,
+            ).toHaveBeenCalledWith(
+                getPaymentResponse(getErrorInstrumentResponseBody(), {}, 400, 'Bad Request'),
+            );
+        });
+    });
 });
@@ -1,10 +1,15 @@
-import { RequestSender, Response } from '@bigcommerce/request-sender';
+import { Response } from '@bigcommerce/request-sender';
+import { isUndefined, omitBy } from 'lodash';
 
 import { Address, mapToInternalAddress } from '../../address';
-import { RequestOptions } from '../../common/http-request';
+import { HttpRequestSender, RequestOptions } from '../../common/http-request';
 import PaymentResponse from '../payment-response';
 
-import { InstrumentRequestContext, VaultAccessToken } from './instrument';
+import {
+    InstrumentRequestContext,
+    InstrumentUpdateRequestBody,
+    VaultAccessToken,
+} from './instrument';
 import {
     InstrumentsResponseBody,
     InternalInstrumentErrorResponseBody,
@@ -16,7 +21,7 @@ import InstrumentResponseTransformer from './instrument-response-transformer';
 export default class InstrumentRequestSender {
     private _transformer: InstrumentResponseTransformer;
 
-    constructor(private _client: any, private _requestSender: RequestSender) {
+    constructor(private _client: any, private _requestSender: HttpRequestSender) {
         this._transformer = new InstrumentResponseTransformer();
     }
 
@@ -66,6 +71,55 @@ export default class InstrumentRequestSender {
         });
     }
 
+    updateInstrument(
+        bigpayBaseUrl: string,
+        { storeId, customerId, currencyCode, authToken }: InstrumentRequestContext,
+        instrumentId: string,
+        { defaultInstrument, nickname }: InstrumentUpdateRequestBody,
+    ): Promise<Response<InstrumentsResponseBody>> {
+        const url = `${bigpayBaseUrl}/api/v2/stores/${storeId}/shoppers/${customerId}/instruments/${instrumentId}`;
+
+        return this._requestSender
+            .patch<InternalInstrumentsResponseBody>(url, {
+                credentials: false,
+                headers: {
+                    Authorization: authToken,
+                    'X-XSRF-TOKEN': null,
+                },
+                params: { currency_code: currencyCode },
+                body: omitBy(
+                    {
+                        default_instrument: defaultInstrument,
+                        nickname,
+                    },
+                    isUndefined,
+                ),
+            })
+            .then(
+                ({ body, headers, status, statusText }) =>
+                    this._transformer.transformResponse({
+                        data: body,
+                        headers,
+                        status,
+                        statusText,
+                    }),
+                ({
+                    body,
+                    headers,
+                    status,
+                    statusText,
+                }: Response<InternalInstrumentErrorResponseBody>) =>
+                    Promise.reject(
+                        this._transformer.transformErrorResponse({
+                            data: body,
+                            headers,
+                            status,
+                            statusText,
+                        }),
+                    ),
+            );
+    }
+
     private _loadInstruments(
         requestContext: InstrumentRequestContext,
     ): Promise<Response<InstrumentsResponseBody>> {
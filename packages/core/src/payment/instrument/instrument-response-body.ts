@@ -13,6 +13,7 @@ export type InternalInstrument =
 export interface BaseInternalInstrument {
     bigpay_token: string;
     default_instrument: boolean;
+    nickname?: string;
     provider: string;
     trusted_shipping_address: boolean;
     method: string;
@@ -22,6 +23,7 @@ export interface BaseInternalAccountInstrument {
     external_id: string;
     bigpay_token: string;
     default_instrument: boolean;
+    nickname?: string;
     provider: string;
     trusted_shipping_address: boolean;
     method: string;
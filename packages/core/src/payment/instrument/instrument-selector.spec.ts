@@ -4,11 +4,12 @@ import { CheckoutStoreState } from '../../checkout';
 import { getCheckoutStoreState } from '../../checkout/checkouts.mock';
 import { getBraintree } from '../payment-methods.mock';
 
+import { InstrumentExpiryStatus } from './instrument';
 import InstrumentSelector, {
     createInstrumentSelectorFactory,
     InstrumentSelectorFactory,
 } from './instrument-selector';
-import { getInstruments, getInstrumentsMeta } from './instrument.mock';
+import { getCardInstrument, getInstruments, getInstrumentsMeta } from './instrument.mock';
 
 describe('InstrumentSelector', () => {
     let createInstrumentSelector: InstrumentSelectorFactory;
@@ -69,6 +70,78 @@ describe('InstrumentSelector', () => {
         });
     });
 
+    describe('#getCardInstruments()', () => {
+        const now = new Date();
+        const card = { ...getCardInstrument(), method: 'credit_card' };
+        const expiredCard = { ...card, bigpayToken: '1', expiryYear: '2020' };
+        const expiringCard = {
+            ...card,
+            bigpayToken: '2',
+            expiryMonth: String(now.getMonth() + 1),
+            expiryYear: String(now.getFullYear()),
+        };
+        const validCard = {
+            ...card,
+            bigpayToken: '3',
+            expiryYear: String(now.getFullYear() + 5),
+        };
+
+        beforeEach(() => {
+            instrumentSelector = createInstrumentSelector({
+                data: [...getInstruments(), expiredCard, expiringCard, validCard],
+                errors: {},
+                statuses: {},
+            });
+        });
+
+        it('returns only supported card instruments', () => {
+            const result = instrumentSelector.getCardInstruments();
+
+            expect(result).toContainEqual(expiredCard);
+            expect(result).not.toContainEqual(expect.objectContaining({ method: 'paypal' }));
+            expect(result).not.toContainEqual(expect.objectContaining({ type: 'bank' }));
+        });
+
+        it('returns card instruments with given expiry status', () => {
+            expect(
+                instrumentSelector.getCardInstruments({
+                    expiryStatus: InstrumentExpiryStatus.ExpiringSoon,
+                }),
+            ).toEqual([expiringCard]);
+
+            expect(
+                instrumentSelector.getCardInstruments({
+                    expiryStatus: [
+                        InstrumentExpiryStatus.Valid,
+                        InstrumentExpiryStatus.ExpiringSoon,
+                    ],
+                }),
+            ).toEqual([expiringCard, validCard]);
+        });
+
+        it('returns undefined if instruments are not loaded', () => {
+            instrumentSelector = createInstrumentSelector({ errors: {}, statuses: {} });
+
+            expect(instrumentSelector.getCardInstruments()).toBeUndefined();
+        });
+    });
+
+    describe('#getCardInstrumentExpiryStatus()', () => {
+        it('returns expiry status of card instrument', () => {
+            instrumentSelector = createInstrumentSelector(state.instruments);
+
+            expect(instrumentSelector.getCardInstrumentExpiryStatus('123')).toBe(
+                InstrumentExpiryStatus.Expired,
+            );
+        });
+
+        it('returns nothing if card instrument is not found', () => {
+            instrumentSelector = createInstrumentSelector(state.instruments);
+
+            expect(instrumentSelector.getCardInstrumentExpiryStatus('31415')).toBeUndefined();
+        });
+    });
+
     describe('#getInstrumentsByPaymentMethod()', () => {
         it('returns the instruments for a particular method', () => {
             instrumentSelector = createInstrumentSelector(state.instruments);
@@ -242,4 +315,88 @@ describe('InstrumentSelector', () => {
             expect(instrumentSelector.isDeleting()).toBe(true);
         });
     });
+
+    describe('#getUpdateError()', () => {
+        const mockInstrumentId = '123';
+
+        it('returns error if unable to update', () => {
+            const updateError = new Error();
+
+            instrumentSelector = createInstrumentSelector({
+                ...state.instruments,
+                errors: { updateError, updateFailedInstrument: mockInstrumentId },
+            });
+
+            expect(instrumentSelector.getUpdateError(mockInstrumentId)).toEqual(updateError);
+            expect(instrumentSelector.getUpdateError()).toEqual(updateError);
+        });
+
+        it('does not return error if unable to update irrelevant instrument', () => {
+            instrumentSelector = createInstrumentSelector({
+                ...state.instruments,
+                errors: { updateError: new Error(), updateFailedInstrument: mockInstrumentId },
+            });
+
+            expect(instrumentSelector.getUpdateError('321')).toBeUndefined();
+        });
+    });
+
+    describe('#getVaultError()', () => {
+        it('returns error if unable to vault', () => {
+            const vaultError = new Error();
+
+            instrumentSelector = createInstrumentSelector({
+                ...state.instruments,
+                errors: { vaultError },
+            });
+
+            expect(instrumentSelector.getVaultError()).toEqual(vaultError);
+        });
+
+        it('does not return error if able to vault', () => {
+            instrumentSelector = createInstrumentSelector(state.instruments);
+
+            expect(instrumentSelector.getVaultError()).toBeUndefined();
+        });
+    });
+
+    describe('#isUpdating()', () => {
+        const mockInstrumentId = '123';
+
+        it('returns true if updating an instrument', () => {
+            instrumentSelector = createInstrumentSelector({
+                ...state.instruments,
+                statuses: { isUpdating: true, updatingInstrument: mockInstrumentId },
+            });
+
+            expect(instrumentSelector.isUpdating(mockInstrumentId)).toBe(true);
+            expect(instrumentSelector.isUpdating()).toBe(true);
+        });
+
+        it('returns false if not updating specific instrument', () => {
+            instrumentSelector = createInstrumentSelector({
+                ...state.instruments,
+                statuses: { isUpdating: true, updatingInstrument: '321' },
+            });
+
+            expect(instrumentSelector.isUpdating(mockInstrumentId)).toBe(false);
+        });
+    });
+
+    describe('#isVaulting()', () => {
+        it('returns true if vaulting an instrument', () => {
+            instrumentSelector = createInstrumentSelector({
+                ...state.instruments,
+                statuses: { isVaulting: true },
+            });
+
+            expect(instrumentSelector.isVaulting()).toBe(true);
+        });
+
+        it('returns false if not vaulting an instrument', () => {
+            instrumentSelector = createInstrumentSelector(state.instruments);
+
+            expect(instrumentSelector.isVaulting()).toBe(false);
+        });
+    });
 });
@@ -1,25 +1,36 @@
 import { memoizeOne } from '@bigcommerce/memoize';
-import { filter, flatMap, isMatch, values } from 'lodash';
+import { castArray, filter, flatMap, isMatch, values } from 'lodash';
 
 import { MissingDataError, MissingDataErrorType } from '../../common/error/errors';
 import { createSelector } from '../../common/selector';
 import { guard } from '../../common/utility';
 import PaymentMethod from '../payment-method';
 
-import PaymentInstrument, { CardInstrument } from './instrument';
+import { getCardInstrumentExpiryStatus as getExpiryStatus } from './get-card-instrument-expiry-status';
+import PaymentInstrument, {
+    CardInstrument,
+    CardInstrumentFilter,
+    InstrumentExpiryStatus,
+} from './instrument';
 import InstrumentState, { DEFAULT_STATE, InstrumentMeta } from './instrument-state';
 import supportedInstruments from './supported-payment-instruments';
 
 export default interface InstrumentSelector {
     getCardInstrument(instrumentId: string): CardInstrument | undefined;
     getCardInstrumentOrThrow(instrumentId: string): CardInstrument;
+    getCardInstruments(filter?: CardInstrumentFilter): CardInstrument[] | undefined;
+    getCardInstrumentExpiryStatus(instrumentId: string): InstrumentExpiryStatus | undefined;
     getInstruments(): PaymentInstrument[] | undefined;
     getInstrumentsByPaymentMethod(paymentMethod: PaymentMethod): PaymentInstrument[] | undefined;
     getInstrumentsMeta(): InstrumentMeta | undefined;
     getLoadError(): Error | undefined;
     getDeleteError(instrumentId?: string): Error | undefined;
+    getUpdateError(instrumentId?: string): Error | undefined;
+    getVaultError(): Error | undefined;
     isLoading(): boolean;
     isDeleting(instrumentId?: string): boolean;
+    isUpdating(instrumentId?: string): boolean;
+    isVaulting(): boolean;
 }
 
 export type InstrumentSelectorFactory = (state: InstrumentState) => InstrumentSelector;
@@ -50,17 +61,45 @@ export function createInstrumentSelectorFactory(): InstrumentSelectorFactory {
         (state: InstrumentState) => state.data,
         (instruments = []) =>
             (instrumentId: string) => {
-                const cards = values(supportedInstruments);
-
                 return instruments.find(
                     (instrument): instrument is CardInstrument =>
                         instrument.bigpayToken === instrumentId &&
-                        instrument.type === 'card' &&
-                        cards.some((card) => isMatch(instrument, card)),
+                        isSupportedCardInstrument(instrument),
+                );
+            },
+    );
+
+    const getCardInstruments = createSelector(
+        (state: InstrumentState) => state.data,
+        (instruments) =>
+            ({ expiryStatus }: CardInstrumentFilter = {}) => {
+                if (!instruments) {
+                    return;
+                }
+
+                const cardInstruments = instruments.filter(isSupportedCardInstrument);
+
+                if (!expiryStatus) {
+                    return cardInstruments;
+                }
+
+                const expiryStatuses = castArray(expiryStatus);
+
+                return cardInstruments.filter((instrument) =>
+                    expiryStatuses.includes(getExpiryStatus(instrument)),
                 );
             },
     );
 
+    const getCardInstrumentExpiryStatus = createSelector(
+        getCardInstrument,
+        (getCardInstrument) => (instrumentId: string) => {
+            const instrument = getCardInstrument(instrumentId);
+
+            return instrument && getExpiryStatus(instrument);
+        },
+    );
+
     const getCardInstrumentOrThrow = createSelector(
         getCardInstrument,
         (getCardInstrument) => (instrumentId: string) => {
@@ -113,6 +152,23 @@ export function createInstrumentSelectorFactory(): InstrumentSelectorFactory {
         },
     );
 
+    const getUpdateError = createSelector(
+        (state: InstrumentState) => state.errors.updateFailedInstrument,
+        (state: InstrumentState) => state.errors.updateError,
+        (updateFailedInstrument, updateError) => (instrumentId?: string) => {
+            if (instrumentId && updateFailedInstrument !== instrumentId) {
+                return;
+            }
+
+            return updateError;
+        },
+    );
+
+    const getVaultError = createSelector(
+        (state: InstrumentState) => state.errors.vaultError,
+        (vaultError) => () => vaultError,
+    );
+
     const isLoading = createSelector(
         (state: InstrumentState) => state.statuses.isLoading,
         (isLoading) => () => !!isLoading,
@@ -130,17 +186,47 @@ export function createInstrumentSelectorFactory(): InstrumentSelectorFactory {
         },
     );
 
+    const isUpdating = createSelector(
+        (state: InstrumentState) => state.statuses.updatingInstrument,
+        (state: InstrumentState) => state.statuses.isUpdating,
+        (updatingInstrument, isUpdating) => (instrumentId?: string) => {
+            if (instrumentId && updatingInstrument !== instrumentId) {
+                return false;
+            }
+
+            return !!isUpdating;
+        },
+    );
+
+    const isVaulting = createSelector(
+        (state: InstrumentState) => state.statuses.isVaulting,
+        (isVaulting) => () => !!isVaulting,
+    );
+
     return memoizeOne((state: InstrumentState = DEFAULT_STATE): InstrumentSelector => {
         return {
             getCardInstrument: getCardInstrument(state),
             getCardInstrumentOrThrow: getCardInstrumentOrThrow(state),
+            getCardInstruments: getCardInstruments(state),
+            getCardInstrumentExpiryStatus: getCardInstrumentExpiryStatus(state),
             getInstruments: getInstruments(state),
             getInstrumentsByPaymentMethod: getInstrumentsByPaymentMethod(state),
             getInstrumentsMeta: getInstrumentsMeta(state),
             getLoadError: getLoadError(state),
             getDeleteError: getDeleteError(state),
+            getUpdateError: getUpdateError(state),
+            getVaultError: getVaultError(state),
             isLoading: isLoading(state),
             isDeleting: isDeleting(state),
+            isUpdating: isUpdating(state),
+            isVaulting: isVaulting(state),
         };
     });
 }
+
+function isSupportedCardInstrument(instrument: PaymentInstrument): instrument is CardInstrument {
+    return (
+        instrument.type === 'card' &&
+        values(supportedInstruments).some((card) => isMatch(instrument, card))
+    );
+}
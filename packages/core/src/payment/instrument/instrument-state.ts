@@ -11,14 +11,18 @@ export interface InstrumentErrorState {
     deleteError?: Error;
     failedInstrument?: string;
     loadError?: Error;
+    updateError?: Error;
+    updateFailedInstrument?: string;
     vaultError?: Error;
 }
 
 export interface InstrumentStatusState {
     isDeleting?: boolean;
     isLoading?: boolean;
+    isUpdating?: boolean;
     isVaulting?: boolean;
     deletingInstrument?: string;
+    updatingInstrument?: string;
 }
 
 export type InstrumentMeta = VaultAccessToken;
@@ -5,6 +5,7 @@ export default PaymentInstrument;
 interface BaseInstrument {
     bigpayToken: string;
     defaultInstrument: boolean;
+    nickname?: string;
     provider: string;
     trustedShippingAddress: boolean;
     method: string;
@@ -16,6 +17,12 @@ export enum UntrustedShippingCardVerificationType {
     PAN = 'pan',
 }
 
+export enum InstrumentExpiryStatus {
+    Expired = 'expired',
+    ExpiringSoon = 'expiring_soon',
+    Valid = 'valid',
+}
+
 export interface CardInstrument extends BaseInstrument {
     brand: string;
     expiryMonth: string;
@@ -67,3 +74,12 @@ export interface SessionContext {
 export interface InstrumentRequestContext extends SessionContext {
     authToken: string;
 }
+
+export interface InstrumentUpdateRequestBody {
+    defaultInstrument?: boolean;
+    nickname?: string;
+}
+
+export interface CardInstrumentFilter {
+    expiryStatus?: InstrumentExpiryStatus | InstrumentExpiryStatus[];
+}
@@ -5,6 +5,7 @@ export function mapToBankInstrument(instrument: BankInternalInstrument): BankIns
     return {
         bigpayToken: instrument.bigpay_token,
         defaultInstrument: instrument.default_instrument,
+        ...(instrument.nickname && { nickname: instrument.nickname }),
         provider: instrument.provider,
         trustedShippingAddress: instrument.trusted_shipping_address,
         accountNumber: instrument.account_number,
@@ -34,4 +34,25 @@ describe('mapToCardInstrument', () => {
             type: 'card',
         });
     });
+
+    it('returns nickname of CardInstrument if available', () => {
+        const result = mapToCardInstrument({
+            bigpay_token: 'my-bigpay-token',
+            trusted_shipping_address: true,
+            provider: 'braintree',
+            method: 'credit_card',
+            method_type: 'card',
+            last_4: '4111',
+            iin: '4242',
+            expiry_year: '2020',
+            expiry_month: '12',
+            default_instrument: false,
+            nickname: 'Work card',
+            untrusted_shipping_address_card_verification_mode:
+                UntrustedShippingCardVerificationType.PAN,
+            brand: 'VISA',
+        });
+
+        expect(result.nickname).toBe('Work card');
+    });
 });
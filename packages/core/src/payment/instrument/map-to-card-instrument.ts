@@ -5,6 +5,7 @@ export function mapToCardInstrument(instrument: CardInternalInstrument): CardIns
     return {
         bigpayToken: instrument.bigpay_token,
         defaultInstrument: instrument.default_instrument,
+        ...(instrument.nickname && { nickname: instrument.nickname }),
         provider: instrument.provider,
         iin: instrument.iin,
         last4: instrument.last_4,
@@ -5,6 +5,7 @@ export function mapToPayPalInstrument(instrument: PayPalInternalInstrument): Pay
     return {
         bigpayToken: instrument.bigpay_token,
         defaultInstrument: instrument.default_instrument,
+        ...(instrument.nickname && { nickname: instrument.nickname }),
         provider: instrument.provider,
         externalId: instrument.external_id,
         trustedShippingAddress: instrument.trusted_shipping_address,
@@ -1,7 +1,8 @@
-import { RequestSender, Response } from '@bigcommerce/request-sender';
+import { Response } from '@bigcommerce/request-sender';
 
 import {
     ContentType,
+    HttpRequestSender,
     INTERNAL_USE_ONLY,
     RequestOptions,
     SDK_VERSION_HEADERS,
@@ -10,7 +11,7 @@ import {
 import PaymentMethod from './payment-method';
 
 export default class PaymentMethodRequestSender {
-    constructor(private _requestSender: RequestSender) {}
+    constructor(private _requestSender: HttpRequestSender) {}
 
     loadPaymentMethods({ timeout, params }: RequestOptions = {}): Promise<
         Response<PaymentMethod[]>
@@ -33,6 +33,7 @@ import {
     getCheckoutStoreStateWithOrder,
 } from '../checkout/checkouts.mock';
 import { MissingDataError } from '../common/error/errors';
+import { Logger, NoopLogger } from '../common/log';
 import { ResolveIdRegistry } from '../common/registry';
 import { getCustomerState } from '../customer/customers.mock';
 import * as paymentStrategyFactories from '../generated/payment-strategies';
@@ -52,6 +53,7 @@ import {
 
 import createPaymentStrategyRegistry from './create-payment-strategy-registry';
 import createPaymentStrategyRegistryV2 from './create-payment-strategy-registry-v2';
+import { PaymentMethodCancelledError } from './errors';
 import PaymentActionCreator from './payment-action-creator';
 import { getPaymentMethod } from './payment-methods.mock';
 import PaymentRequestSender from './payment-request-sender';
@@ -59,6 +61,7 @@ import PaymentRequestTransformer from './payment-request-transformer';
 import PaymentStrategyActionCreator from './payment-strategy-action-creator';
 import { PaymentStrategyActionType } from './payment-strategy-actions';
 import PaymentStrategyRegistry from './payment-strategy-registry';
+import PendingPaymentStorage from './pending-payment-storage';
 import { PaymentStrategy } from './strategies';
 import { CreditCardPaymentStrategy } from './strategies/credit-card';
 
@@ -78,8 +81,10 @@ describe('PaymentStrategyActionCreator', () => {
     let paymentHumanVerificationHandler: PaymentHumanVerificationHandler;
     let actionCreator: PaymentStrategyActionCreator;
     let paymentIntegrationService: PaymentIntegrationService;
+    let logger: Logger;
 
     beforeEach(() => {
+        logger = new NoopLogger();
         state = getCheckoutStoreState();
         store = createCheckoutStore(state);
         requestSender = createRequestSender();
@@ -126,6 +131,7 @@ describe('PaymentStrategyActionCreator', () => {
             orderActionCreator,
             spamProtectionActionCreator,
             paymentIntegrationService,
+            logger,
         );
 
         jest.spyOn(registry, 'getByMethod').mockReturnValue(strategy);
@@ -239,6 +245,29 @@ describe('PaymentStrategyActionCreator', () => {
             ]);
         });
 
+        it('logs error if unable to initialize', async () => {
+            const method = getPaymentMethod();
+            const initializeError = new Error();
+
+            jest.spyOn(logger, 'error');
+            jest.spyOn(strategy, 'initialize').mockReturnValue(Promise.reject(initializeError));
+
+            await from(
+                actionCreator.initialize({
+                    methodId: method.id,
+                    gatewayId: method.gateway,
+                })(store),
+            )
+                .pipe(catchError((action) => of(action)))
+                .toPromise();
+
+            expect(logger.error).toHaveBeenCalledWith(
+                'Unable to initialize payment strategy',
+                { methodId: method.id, gatewayId: method.gateway },
+                initializeError,
+            );
+        });
+
         it('throws error if payment method has not been loaded', async () => {
             try {
                 await from(actionCreator.initialize({ methodId: 'unknown' })(store)).toPromise();
@@ -565,6 +594,27 @@ describe('PaymentStrategyActionCreator', () => {
             ]);
         });
 
+        it('logs error if unable to execute', async () => {
+            const payload = getOrderRequestBody();
+            const executeError = new Error();
+
+            jest.spyOn(logger, 'error');
+            jest.spyOn(strategy, 'execute').mockReturnValue(Promise.reject(executeError));
+
+            await from(actionCreator.execute(payload)(store))
+                .pipe(catchError((action) => of(action)))
+                .toPromise();
+
+            expect(logger.error).toHaveBeenCalledWith(
+                'Unable to execute payment strategy',
+                {
+                    methodId: payload.payment?.methodId,
+                    gatewayId: payload.payment?.gatewayId,
+                },
+                executeError,
+            );
+        });
+
         it('throws error if payment method is not found or loaded', async () => {
             store = createCheckoutStore({
                 ...state,
@@ -762,6 +812,146 @@ describe('PaymentStrategyActionCreator', () => {
         });
     });
 
+    describe('#resume()', () => {
+        let pendingPaymentStorage: PendingPaymentStorage;
+
+        beforeEach(() => {
+            state = getCheckoutStoreStateWithOrder();
+            store = createCheckoutStore(state);
+            pendingPaymentStorage = new PendingPaymentStorage();
+            actionCreator = new PaymentStrategyActionCreator(
+                registry,
+                registryV2,
+                orderActionCreator,
+                spamProtectionActionCreator,
+                paymentIntegrationService,
+                logger,
+                pendingPaymentStorage,
+            );
+
+            pendingPaymentStorage.setPendingPayment({
+                methodId: getPaymentMethod().id,
+                createdAt: Date.now(),
+            });
+
+            jest.spyOn(strategy, 'finalize').mockReturnValue(Promise.resolve(store.getState()));
+
+            jest.spyOn(orderActionCreator, 'loadOrderPayments').mockReturnValue(
+                of(createAction(OrderActionType.LoadOrderPaymentsRequested)),
+            );
+        });
+
+        afterEach(() => {
+            pendingPaymentStorage.removePendingPayment();
+        });
+
+        it('resumes payment using resume hook of payment strategy', async () => {
+            const pendingPayment = pendingPaymentStorage.getPendingPayment();
+            const resume = jest.fn(() => Promise.resolve(store.getState()));
+
+            jest.spyOn(registry, 'getByMethod').mockReturnValue({ ...strategy, resume });
+
+            await from(actionCreator.resume()(store)).toPromise();
+
+            expect(resume).toHaveBeenCalledWith(pendingPayment, undefined);
+            expect(strategy.finalize).not.toHaveBeenCalled();
+        });
+
+        it('finalizes payment if payment strategy does not have resume hook', async () => {
+            await from(actionCreator.resume()(store)).toPromise();
+
+            expect(strategy.finalize).toHaveBeenCalledWith({
+                methodId: getPaymentMethod().id,
+                gatewayId: undefined,
+            });
+        });
+
+        it('emits actions to notify resumption progress', async () => {
+            const method = getPaymentMethod();
+            const actions = await from(actionCreator.resume()(store)).pipe(toArray()).toPromise();
+
+            expect(actions).toEqual([
+                { type: PaymentStrategyActionType.ResumeRequested, meta: { methodId: method.id } },
+                { type: OrderActionType.LoadOrderPaymentsRequested },
+                { type: PaymentStrategyActionType.ResumeSucceeded, meta: { methodId: method.id } },
+            ]);
+        });
+
+        it('removes pending payment once it is resumed', async () => {
+            await from(actionCreator.resume()(store)).toPromise();
+
+            expect(pendingPaymentStorage.getPendingPayment()).toBeUndefined();
+        });
+
+        it('emits error action with cancellation error if shopper has not completed payment', async () => {
+            const errorHandler = jest.fn((action) => of(action));
+
+            jest.spyOn(strategy, 'finalize').mockReturnValue(
+                Promise.reject(new OrderFinalizationNotRequiredError()),
+            );
+
+            const actions = await from(actionCreator.resume()(store))
+                .pipe(catchError(errorHandler), toArray())
+                .toPromise();
+
+            expect(actions[actions.length - 1]).toEqual(
+                expect.objectContaining({
+                    type: PaymentStrategyActionType.ResumeFailed,
+                    payload: expect.any(PaymentMethodCancelledError),
+                }),
+            );
+        });
+
+        it('removes pending payment if shopper has not completed payment', async () => {
+            jest.spyOn(strategy, 'finalize').mockReturnValue(
+                Promise.reject(new OrderFinalizationNotRequiredError()),
+            );
+
+            await expect(from(actionCreator.resume()(store)).toPromise()).rejects.toEqual(
+                expect.objectContaining({ payload: expect.any(PaymentMethodCancelledError) }),
+            );
+            expect(pendingPaymentStorage.getPendingPayment()).toBeUndefined();
+        });
+
+        it('keeps pending payment if payment strategy fails to resume payment', async () => {
+            jest.spyOn(strategy, 'finalize').mockReturnValue(
+                Promise.reject(new Error('Unable to load order')),
+            );
+
+            await expect(from(actionCreator.resume()(store)).toPromise()).rejects.toEqual(
+                expect.objectContaining({ type: PaymentStrategyActionType.ResumeFailed }),
+            );
+            expect(pendingPaymentStorage.getPendingPayment()).toBeDefined();
+        });
+
+        it('emits error action if there is no pending payment', async () => {
+            pendingPaymentStorage.removePendingPayment();
+
+            await expect(from(actionCreator.resume()(store)).toPromise()).rejects.toEqual(
+                expect.objectContaining({
+                    type: PaymentStrategyActionType.ResumeFailed,
+                    payload: expect.any(OrderFinalizationNotRequiredError),
+                }),
+            );
+            expect(strategy.finalize).not.toHaveBeenCalled();
+        });
+
+        it('keeps pending payment if payment method is not loaded', async () => {
+            store = createCheckoutStore({
+                ...state,
+                paymentMethods: {
+                    ...state.paymentMethods,
+                    data: [],
+                },
+            });
+
+            await expect(from(actionCreator.resume()(store)).toPromise()).rejects.toEqual(
+                expect.objectContaining({ payload: expect.any(MissingDataError) }),
+            );
+            expect(pendingPaymentStorage.getPendingPayment()).toBeDefined();
+        });
+    });
+
     describe('#widgetInteraction()', () => {
         it('executes widget interaction callback', async () => {
             const options = { methodId: 'default' };
@@ -11,7 +11,7 @@ import { InternalCheckoutSelectors, ReadableCheckoutStore } from '../checkout';
 import { throwErrorAction } from '../common/error';
 import { MissingDataError, MissingDataErrorType } from '../common/error/errors';
 import { RequestOptions } from '../common/http-request';
-import { getDefaultLogger } from '../common/log';
+import { getDefaultLogger, Logger } from '../common/log';
 import {
     LoadOrderPaymentsAction,
     OrderActionCreator,
@@ -22,6 +22,7 @@ import { OrderFinalizationNotRequiredError } from '../order/errors';
 import { registerIntegrations } from '../payment-integration';
 import { SpamProtectionAction, SpamProtectionActionCreator } from '../spam-protection';
 
+import { PaymentMethodCancelledError } from './errors';
 import PaymentMethod from './payment-method';
 import {
     OrderFinalizeOptions,
@@ -34,12 +35,14 @@ import {
     PaymentStrategyExecuteAction,
     PaymentStrategyFinalizeAction,
     PaymentStrategyInitializeAction,
+    PaymentStrategyResumeAction,
     PaymentStrategyWidgetAction,
 } from './payment-strategy-actions';
 import PaymentStrategyRegistry from './payment-strategy-registry';
 import PaymentStrategyRegistryV2 from './payment-strategy-registry-v2';
 import PaymentStrategyType from './payment-strategy-type';
 import PaymentStrategyWidgetActionCreator from './payment-strategy-widget-action-creator';
+import PendingPaymentStorage from './pending-payment-storage';
 import { PaymentStrategy } from './strategies';
 
 export default class PaymentStrategyActionCreator {
@@ -51,6 +54,8 @@ export default class PaymentStrategyActionCreator {
         private _orderActionCreator: OrderActionCreator,
         private _spamProtectionActionCreator: SpamProtectionActionCreator,
         private _paymentIntegrationService: PaymentIntegrationService,
+        private _logger: Logger = getDefaultLogger(),
+        private _pendingPaymentStorage: PendingPaymentStorage = new PendingPaymentStorage(),
     ) {
         this._paymentStrategyWidgetActionCreator = new PaymentStrategyWidgetActionCreator();
     }
@@ -60,7 +65,7 @@ export default class PaymentStrategyActionCreator {
         options?: RequestOptions,
     ): ThunkAction<PaymentStrategyExecuteAction | SpamProtectionAction, InternalCheckoutSelectors> {
         const { payment = {} as OrderPaymentRequestBody, useStoreCredit } = payload;
-        const meta = { methodId: payment.methodId };
+        const meta = { methodId: payment.methodId, gatewayId: payment.gatewayId };
 
         return (store) => {
             const { checkout } = store.getState();
@@ -107,9 +112,15 @@ export default class PaymentStrategyActionCreator {
                     );
                 }),
             ).pipe(
-                catchError((error) =>
-                    throwErrorAction(PaymentStrategyActionType.ExecuteFailed, error, meta),
-                ),
+                catchError((error) => {
+                    this._logger.error(
+                        'Unable to execute payment strategy',
+                        { methodId: payment.methodId, gatewayId: payment.gatewayId },
+                        error,
+                    );
+
+                    return throwErrorAction(PaymentStrategyActionType.ExecuteFailed, error, meta);
+                }),
             );
         };
     }
@@ -154,6 +165,7 @@ export default class PaymentStrategyActionCreator {
 
                     return createAction(PaymentStrategyActionType.FinalizeSucceeded, undefined, {
                         methodId: method.id,
+                        gatewayId: method.gateway,
                     });
                 }),
             ).pipe(
@@ -161,13 +173,100 @@ export default class PaymentStrategyActionCreator {
                     const state = store.getState();
                     const payment = state.payment.getPaymentId();
 
+                    if (!(error instanceof OrderFinalizationNotRequiredError)) {
+                        this._logger.error(
+                            'Unable to finalize payment strategy',
+                            { methodId: payment?.providerId, gatewayId: payment?.gatewayId },
+                            error,
+                        );
+                    }
+
                     return throwErrorAction(PaymentStrategyActionType.FinalizeFailed, error, {
                         methodId: payment && payment.providerId,
+                        gatewayId: payment && payment.gatewayId,
                     });
                 }),
             );
     }
 
+    resume(
+        options?: OrderFinalizeOptions,
+    ): ThunkAction<PaymentStrategyResumeAction, InternalCheckoutSelectors> {
+        const { integrations } = options ?? {};
+
+        return (store) => {
+            const pendingPayment = this._pendingPaymentStorage.getPendingPayment();
+
+            if (!pendingPayment) {
+                return throwErrorAction(
+                    PaymentStrategyActionType.ResumeFailed,
+                    new OrderFinalizationNotRequiredError(),
+                );
+            }
+
+            const { methodId, gatewayId } = pendingPayment;
+            const meta = { methodId, gatewayId };
+
+            return concat(
+                of(createAction(PaymentStrategyActionType.ResumeRequested, undefined, meta)),
+                this._loadOrderPaymentsIfNeeded(store, options),
+                defer(async () => {
+                    const method = store
+                        .getState()
+                        .paymentMethods.getPaymentMethod(methodId, gatewayId);
+
+                    if (!method) {
+                        throw new MissingDataError(MissingDataErrorType.MissingPaymentMethod);
+                    }
+
+                    registerIntegrations(
+                        this._strategyRegistryV2,
+                        integrations ?? [],
+                        this._paymentIntegrationService,
+                    );
+
+                    const strategy = this._getStrategy(method);
+
+                    try {
+                        if (strategy.resume) {
+                            await strategy.resume(pendingPayment, options);
+                        } else {
+                            await strategy.finalize({ ...options, methodId, gatewayId });
+                        }
+                    } catch (error) {
+                        // The shopper has returned without completing the
+                        // payment, i.e.: by using the back button of their
+                        // browser.
+                        if (
+                            error instanceof PaymentMethodCancelledError ||
+                            this._isFinalizationNotRequiredError(error)
+                        ) {
+                            this._pendingPaymentStorage.removePendingPayment();
+
+                            throw new PaymentMethodCancelledError();
+                        }
+
+                        // Keep the record so that the payment can be resumed
+                        // again if the failure is transient.
+                        throw error;
+                    }
+
+                    this._pendingPaymentStorage.removePendingPayment();
+
+                    return createAction(PaymentStrategyActionType.ResumeSucceeded, undefined, meta);
+                }),
+            ).pipe(
+                catchError((error) => {
+                    if (!(error instanceof PaymentMethodCancelledError)) {
+                        this._logger.error('Unable to resume payment', meta, error);
+                    }
+
+                    return throwErrorAction(PaymentStrategyActionType.ResumeFailed, error, meta);
+                }),
+            );
+        };
+    }
+
     initialize(
         options: PaymentInitializeOptions,
     ): ThunkAction<PaymentStrategyInitializeAction, InternalCheckoutSelectors> {
@@ -215,12 +314,18 @@ export default class PaymentStrategyActionCreator {
                     ),
                 );
             }).pipe(
-                catchError((error) =>
-                    throwErrorAction(PaymentStrategyActionType.InitializeFailed, error, {
+                catchError((error) => {
+                    this._logger.error(
+                        'Unable to initialize payment strategy',
+                        { methodId, gatewayId },
+                        error,
+                    );
+
+                    return throwErrorAction(PaymentStrategyActionType.InitializeFailed, error, {
                         methodId,
                         gatewayId,
-                    }),
-                ),
+                    });
+                }),
             );
     }
 
@@ -294,9 +399,11 @@ export default class PaymentStrategyActionCreator {
                     type: method.type,
                 });
             } catch (error) {
-                getDefaultLogger().error(
-                    `[PaymentStrategyActionCreator] Unable to resolve V2 strategy for id: ${method.id}, gateway: ${method.gateway}, type: ${method.type}`,
-                );
+                this._logger.error('Unable to resolve payment strategy', {
+                    methodId: method.id,
+                    gatewayId: method.gateway,
+                    type: method.type,
+                });
                 throw error;
             }
         }
@@ -304,6 +411,15 @@ export default class PaymentStrategyActionCreator {
         return strategy;
     }
 
+    private _isFinalizationNotRequiredError(error: unknown): boolean {
+        return (
+            error instanceof OrderFinalizationNotRequiredError ||
+            (typeof error === 'object' &&
+                error !== null &&
+                (error as { type?: unknown }).type === 'order_finalization_not_required')
+        );
+    }
+
     private _loadOrderPaymentsIfNeeded(
         store: ReadableCheckoutStore,
         options?: RequestOptions,
@@ -1,5 +1,7 @@
 import { Action } from '@bigcommerce/data-store';
 
+import { PaymentLifecyclePhase } from '@bigcommerce/checkout-sdk/payment-integration-api';
+
 import { LoadOrderPaymentsAction } from '../order';
 
 export enum PaymentStrategyActionType {
@@ -12,6 +14,10 @@ export enum PaymentStrategyActionType {
     InitializeFailed = 'PAYMENT_STRATEGY_INITIALIZE_FAILED',
     InitializeRequested = 'PAYMENT_STRATEGY_INITIALIZE_REQUESTED',
     InitializeSucceeded = 'PAYMENT_STRATEGY_INITIALIZE_SUCCEEDED',
+    PhaseChanged = 'PAYMENT_STRATEGY_PHASE_CHANGED',
+    ResumeFailed = 'PAYMENT_STRATEGY_RESUME_FAILED',
+    ResumeRequested = 'PAYMENT_STRATEGY_RESUME_REQUESTED',
+    ResumeSucceeded = 'PAYMENT_STRATEGY_RESUME_SUCCEEDED',
     DeinitializeFailed = 'PAYMENT_STRATEGY_DEINITIALIZE_FAILED',
     DeinitializeRequested = 'PAYMENT_STRATEGY_DEINITIALIZE_REQUESTED',
     DeinitializeSucceeded = 'PAYMENT_STRATEGY_DEINITIALIZE_SUCCEEDED',
@@ -25,7 +31,9 @@ export type PaymentStrategyAction =
     | PaymentStrategyFinalizeAction
     | PaymentStrategyInitializeAction
     | PaymentStrategyDeinitializeAction
-    | PaymentStrategyWidgetAction;
+    | PaymentStrategyWidgetAction
+    | PaymentStrategyPhaseAction
+    | PaymentStrategyResumeAction;
 
 export type PaymentStrategyExecuteAction =
     | ExecuteRequestedAction
@@ -54,6 +62,14 @@ export type PaymentStrategyWidgetAction =
     | WidgetInteractionFinishedAction
     | WidgetInteractionFailedAction;
 
+export type PaymentStrategyPhaseAction = PhaseChangedAction;
+
+export type PaymentStrategyResumeAction =
+    | ResumeRequestedAction
+    | ResumeSucceededAction
+    | ResumeFailedAction
+    | LoadOrderPaymentsAction;
+
 export interface ExecuteRequestedAction extends Action {
     type: PaymentStrategyActionType.ExecuteRequested;
 }
@@ -113,3 +129,20 @@ export interface WidgetInteractionFinishedAction extends Action {
 export interface WidgetInteractionFailedAction extends Action<Error> {
     type: PaymentStrategyActionType.WidgetInteractionFailed;
 }
+
+export interface PhaseChangedAction
+    extends Action<{ phase: PaymentLifecyclePhase }, { methodId: string; gatewayId?: string }> {
+    type: PaymentStrategyActionType.PhaseChanged;
+}
+
+export interface ResumeRequestedAction extends Action {
+    type: PaymentStrategyActionType.ResumeRequested;
+}
+
+export interface ResumeSucceededAction extends Action {
+    type: PaymentStrategyActionType.ResumeSucceeded;
+}
+
+export interface ResumeFailedAction extends Action<Error> {
+    type: PaymentStrategyActionType.ResumeFailed;
+}
@@ -0,0 +1,68 @@
+import { from } from 'rxjs';
+import { toArray } from 'rxjs/operators';
+
+import { PaymentLifecyclePhase } from '@bigcommerce/checkout-sdk/payment-integration-api';
+
+import { PaymentStrategyActionType } from './payment-strategy-actions';
+import PaymentStrategyPhaseActionCreator from './payment-strategy-phase-action-creator';
+import PendingPaymentStorage from './pending-payment-storage';
+
+describe('PaymentStrategyPhaseActionCreator', () => {
+    let actionCreator: PaymentStrategyPhaseActionCreator;
+    let pendingPaymentStorage: PendingPaymentStorage;
+
+    beforeEach(() => {
+        pendingPaymentStorage = new PendingPaymentStorage();
+        actionCreator = new PaymentStrategyPhaseActionCreator(pendingPaymentStorage);
+
+        jest.spyOn(pendingPaymentStorage, 'setPendingPayment');
+    });
+
+    afterEach(() => {
+        pendingPaymentStorage.removePendingPayment();
+    });
+
+    describe('#changePhase()', () => {
+        it('emits action to change payment phase', async () => {
+            const actions = await from(
+                actionCreator.changePhase(PaymentLifecyclePhase.Redirecting, {
+                    methodId: 'foobar',
+                    gatewayId: 'bar',
+                }),
+            )
+                .pipe(toArray())
+                .toPromise();
+
+            expect(actions).toEqual([
+                {
+                    type: PaymentStrategyActionType.PhaseChanged,
+                    payload: { phase: PaymentLifecyclePhase.Redirecting },
+                    meta: { methodId: 'foobar', gatewayId: 'bar' },
+                },
+            ]);
+        });
+
+        it('persists pending payment if shopper is redirected', async () => {
+            await from(
+                actionCreator.changePhase(PaymentLifecyclePhase.Redirecting, {
+                    methodId: 'foobar',
+                    gatewayId: 'bar',
+                }),
+            ).toPromise();
+
+            expect(pendingPaymentStorage.getPendingPayment()).toEqual({
+                methodId: 'foobar',
+                gatewayId: 'bar',
+                createdAt: expect.any(Number),
+            });
+        });
+
+        it('does not persist pending payment for other phases', async () => {
+            await from(
+                actionCreator.changePhase(PaymentLifecyclePhase.Challenge, { methodId: 'foobar' }),
+            ).toPromise();
+
+            expect(pendingPaymentStorage.setPendingPayment).not.toHaveBeenCalled();
+        });
+    });
+});
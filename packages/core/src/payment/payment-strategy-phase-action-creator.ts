@@ -0,0 +1,37 @@
+import { createAction } from '@bigcommerce/data-store';
+import { defer, Observable, of } from 'rxjs';
+
+import { PaymentLifecyclePhase } from '@bigcommerce/checkout-sdk/payment-integration-api';
+
+import { PaymentRequestOptions } from './payment-request-options';
+import { PaymentStrategyActionType, PaymentStrategyPhaseAction } from './payment-strategy-actions';
+import PendingPaymentStorage from './pending-payment-storage';
+
+export default class PaymentStrategyPhaseActionCreator {
+    constructor(private _pendingPaymentStorage: PendingPaymentStorage) {}
+
+    changePhase(
+        phase: PaymentLifecyclePhase,
+        options: PaymentRequestOptions,
+    ): Observable<PaymentStrategyPhaseAction> {
+        const { methodId, gatewayId } = options;
+
+        return defer(() => {
+            if (phase === PaymentLifecyclePhase.Redirecting) {
+                this._pendingPaymentStorage.setPendingPayment({
+                    methodId,
+                    gatewayId,
+                    createdAt: Date.now(),
+                });
+            }
+
+            return of(
+                createAction(
+                    PaymentStrategyActionType.PhaseChanged,
+                    { phase },
+                    { methodId, gatewayId },
+                ),
+            );
+        });
+    }
+}
@@ -1,5 +1,10 @@
 import { createAction, createErrorAction } from '@bigcommerce/data-store';
 
+import { PaymentLifecyclePhase } from '@bigcommerce/checkout-sdk/payment-integration-api';
+
+import { OrderFinalizationNotRequiredError } from '../order/errors';
+
+import { PaymentMethodCancelledError } from './errors';
 import { PaymentStrategyActionType } from './payment-strategy-actions';
 import paymentStrategyReducer from './payment-strategy-reducer';
 import PaymentStrategyState, { DEFAULT_STATE } from './payment-strategy-state';
@@ -144,4 +149,155 @@ describe('paymentStrategyReducer()', () => {
             finalizeError: action.payload,
         });
     });
+
+    it('returns pending flag as true if resuming payment', () => {
+        const action = createAction(PaymentStrategyActionType.ResumeRequested, undefined, {
+            methodId: 'foobar',
+        });
+
+        expect(paymentStrategyReducer(initialState, action).statuses).toEqual({
+            resumeMethodId: 'foobar',
+            isResuming: true,
+        });
+    });
+
+    it('returns pending flag as false if payment has resumed successfully', () => {
+        const action = createAction(PaymentStrategyActionType.ResumeSucceeded, undefined, {
+            methodId: 'foobar',
+        });
+
+        expect(paymentStrategyReducer(initialState, action).statuses).toEqual({
+            resumeMethodId: undefined,
+            isResuming: false,
+        });
+    });
+
+    it('returns error if payment has failed to resume', () => {
+        const action = createErrorAction(PaymentStrategyActionType.ResumeFailed, new Error(), {
+            methodId: 'foobar',
+        });
+
+        expect(paymentStrategyReducer(initialState, action).errors).toEqual({
+            resumeMethodId: 'foobar',
+            resumeError: action.payload,
+        });
+    });
+
+    describe('payment phases', () => {
+        const meta = { methodId: 'foobar', gatewayId: 'bar' };
+
+        it('moves through payment phases as payment strategy is initialized and executed', () => {
+            const state = [
+                createAction(PaymentStrategyActionType.InitializeRequested, undefined, meta),
+                createAction(PaymentStrategyActionType.InitializeSucceeded, undefined, meta),
+                createAction(PaymentStrategyActionType.ExecuteRequested, undefined, meta),
+            ].reduce(paymentStrategyReducer, initialState);
+
+            expect(state.phases).toEqual({ 'foobar.bar': PaymentLifecyclePhase.Submitting });
+
+            expect(
+                paymentStrategyReducer(
+                    state,
+                    createAction(PaymentStrategyActionType.ExecuteSucceeded, undefined, meta),
+                ).phases,
+            ).toEqual({ 'foobar.bar': PaymentLifecyclePhase.Completed });
+        });
+
+        it('changes to phase reported by payment strategy', () => {
+            const state = paymentStrategyReducer(
+                { ...initialState, phases: { 'foobar.bar': PaymentLifecyclePhase.Submitting } },
+                createAction(
+                    PaymentStrategyActionType.PhaseChanged,
+                    { phase: PaymentLifecyclePhase.Challenge },
+                    meta,
+                ),
+            );
+
+            expect(state.phases).toEqual({ 'foobar.bar': PaymentLifecyclePhase.Challenge });
+        });
+
+        it('ignores transitions that are not allowed', () => {
+            const state = {
+                ...initialState,
+                phases: { 'foobar.bar': PaymentLifecyclePhase.Completed },
+            };
+
+            expect(
+                paymentStrategyReducer(
+                    state,
+                    createAction(
+                        PaymentStrategyActionType.PhaseChanged,
+                        { phase: PaymentLifecyclePhase.Redirecting },
+                        meta,
+                    ),
+                ),
+            ).toBe(state);
+        });
+
+        it('changes to cancelled phase if payment is cancelled by shopper', () => {
+            const state = paymentStrategyReducer(
+                { ...initialState, phases: { 'foobar.bar': PaymentLifecyclePhase.Submitting } },
+                createErrorAction(
+                    PaymentStrategyActionType.ExecuteFailed,
+                    new PaymentMethodCancelledError(),
+                    meta,
+                ),
+            );
+
+            expect(state.phases).toEqual({ 'foobar.bar': PaymentLifecyclePhase.Cancelled });
+        });
+
+        it('changes to failed phase if payment fails', () => {
+            const state = paymentStrategyReducer(
+                { ...initialState, phases: { 'foobar.bar': PaymentLifecyclePhase.Redirecting } },
+                createErrorAction(PaymentStrategyActionType.FinalizeFailed, new Error(), meta),
+            );
+
+            expect(state.phases).toEqual({ 'foobar.bar': PaymentLifecyclePhase.Failed });
+        });
+
+        it('changes to completed phase if redirected payment is resumed', () => {
+            const state = paymentStrategyReducer(
+                { ...initialState, phases: { 'foobar.bar': PaymentLifecyclePhase.Redirecting } },
+                createAction(PaymentStrategyActionType.ResumeSucceeded, undefined, meta),
+            );
+
+            expect(state.phases).toEqual({ 'foobar.bar': PaymentLifecyclePhase.Completed });
+        });
+
+        it('changes to cancelled phase if shopper abandons redirected payment', () => {
+            const state = paymentStrategyReducer(
+                initialState,
+                createErrorAction(
+                    PaymentStrategyActionType.ResumeFailed,
+                    new PaymentMethodCancelledError(),
+                    meta,
+                ),
+            );
+
+            expect(state.phases).toEqual({ 'foobar.bar': PaymentLifecyclePhase.Cancelled });
+        });
+
+        it('does not change phase if order finalization is not required', () => {
+            const state = paymentStrategyReducer(
+                initialState,
+                createErrorAction(
+                    PaymentStrategyActionType.FinalizeFailed,
+                    new OrderFinalizationNotRequiredError(),
+                    meta,
+                ),
+            );
+
+            expect(state.phases).toEqual({});
+        });
+
+        it('resets phase if payment strategy is deinitialized', () => {
+            const state = paymentStrategyReducer(
+                { ...initialState, phases: { 'foobar.bar': PaymentLifecyclePhase.Completed } },
+                createAction(PaymentStrategyActionType.DeinitializeSucceeded, undefined, meta),
+            );
+
+            expect(state.phases).toEqual({ 'foobar.bar': PaymentLifecyclePhase.Idle });
+        });
+    });
 });
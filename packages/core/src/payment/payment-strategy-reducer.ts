@@ -1,13 +1,18 @@
 import { Action, combineReducers, composeReducers } from '@bigcommerce/data-store';
 
+import { PaymentLifecyclePhase } from '@bigcommerce/checkout-sdk/payment-integration-api';
+
 import { clearErrorReducer } from '../common/error';
 import { objectMerge } from '../common/utility';
+import { OrderFinalizationNotRequiredError } from '../order/errors';
 
+import canTransitionPaymentPhase from './can-transition-payment-phase';
 import { PaymentStrategyAction, PaymentStrategyActionType } from './payment-strategy-actions';
 import PaymentStrategyState, {
     DEFAULT_STATE,
     PaymentStrategyDataState,
     PaymentStrategyErrorsState,
+    PaymentStrategyPhasesState,
     PaymentStrategyStatusesState,
 } from './payment-strategy-state';
 
@@ -18,6 +23,7 @@ export default function paymentStrategyReducer(
     const reducer = combineReducers<PaymentStrategyState, PaymentStrategyAction>({
         data: dataReducer,
         errors: composeReducers(errorsReducer, clearErrorReducer),
+        phases: phasesReducer,
         statuses: statusesReducer,
     });
 
@@ -136,6 +142,19 @@ function errorsReducer(
                 finalizeMethodId: action.meta && action.meta.methodId,
             });
 
+        case PaymentStrategyActionType.ResumeRequested:
+        case PaymentStrategyActionType.ResumeSucceeded:
+            return objectMerge(errors, {
+                resumeError: undefined,
+                resumeMethodId: undefined,
+            });
+
+        case PaymentStrategyActionType.ResumeFailed:
+            return objectMerge(errors, {
+                resumeError: action.payload,
+                resumeMethodId: action.meta && action.meta.methodId,
+            });
+
         case PaymentStrategyActionType.WidgetInteractionStarted:
         case PaymentStrategyActionType.WidgetInteractionFinished:
             return objectMerge(errors, {
@@ -154,6 +173,95 @@ function errorsReducer(
     }
 }
 
+function phasesReducer(
+    phases: PaymentStrategyPhasesState = DEFAULT_STATE.phases,
+    action: PaymentStrategyAction,
+): PaymentStrategyPhasesState {
+    switch (action.type) {
+        case PaymentStrategyActionType.InitializeRequested:
+            return transitionPhase(phases, action.meta, PaymentLifecyclePhase.Initializing);
+
+        case PaymentStrategyActionType.InitializeSucceeded:
+            return transitionPhase(phases, action.meta, PaymentLifecyclePhase.Ready);
+
+        case PaymentStrategyActionType.InitializeFailed:
+            return transitionPhase(phases, action.meta, PaymentLifecyclePhase.Failed);
+
+        case PaymentStrategyActionType.ExecuteRequested:
+            return transitionPhase(phases, action.meta, PaymentLifecyclePhase.Submitting);
+
+        case PaymentStrategyActionType.ExecuteSucceeded:
+        case PaymentStrategyActionType.FinalizeSucceeded:
+        case PaymentStrategyActionType.ResumeSucceeded:
+            return transitionPhase(phases, action.meta, PaymentLifecyclePhase.Completed);
+
+        case PaymentStrategyActionType.ExecuteFailed:
+        case PaymentStrategyActionType.ResumeFailed:
+            return transitionPhase(
+                phases,
+                action.meta,
+                isCancellationError(action.payload)
+                    ? PaymentLifecyclePhase.Cancelled
+                    : PaymentLifecyclePhase.Failed,
+            );
+
+        case PaymentStrategyActionType.FinalizeFailed:
+            if (action.payload instanceof OrderFinalizationNotRequiredError) {
+                return phases;
+            }
+
+            return transitionPhase(phases, action.meta, PaymentLifecyclePhase.Failed);
+
+        case PaymentStrategyActionType.PhaseChanged:
+            return transitionPhase(phases, action.meta, action.payload?.phase);
+
+        case PaymentStrategyActionType.DeinitializeSucceeded: {
+            const key = getPhaseKey(action.meta);
+
+            return key ? objectMerge(phases, { [key]: PaymentLifecyclePhase.Idle }) : phases;
+        }
+
+        default:
+            return phases;
+    }
+}
+
+function transitionPhase(
+    phases: PaymentStrategyPhasesState,
+    meta: { methodId?: string; gatewayId?: string } | undefined,
+    phase: PaymentLifecyclePhase | undefined,
+): PaymentStrategyPhasesState {
+    const key = getPhaseKey(meta);
+
+    if (!key || !phase) {
+        return phases;
+    }
+
+    const currentPhase = phases[key] ?? PaymentLifecyclePhase.Idle;
+
+    if (!canTransitionPaymentPhase(currentPhase, phase)) {
+        return phases;
+    }
+
+    return objectMerge(phases, { [key]: phase });
+}
+
+function getPhaseKey(meta?: { methodId?: string; gatewayId?: string }): string | undefined {
+    if (!meta || !meta.methodId) {
+        return;
+    }
+
+    return meta.gatewayId ? `${meta.methodId}.${meta.gatewayId}` : meta.methodId;
+}
+
+function isCancellationError(error: unknown): boolean {
+    return (
+        typeof error === 'object' &&
+        error !== null &&
+        (error as { type?: unknown }).type === 'payment_cancelled'
+    );
+}
+
 function statusesReducer(
     statuses: PaymentStrategyStatusesState = DEFAULT_STATE.statuses,
     action: PaymentStrategyAction,
@@ -229,6 +337,19 @@ function statusesReducer(
                 finalizeMethodId: undefined,
             });
 
+        case PaymentStrategyActionType.ResumeRequested:
+            return objectMerge(statuses, {
+                isResuming: true,
+                resumeMethodId: action.meta && action.meta.methodId,
+            });
+
+        case PaymentStrategyActionType.ResumeFailed:
+        case PaymentStrategyActionType.ResumeSucceeded:
+            return objectMerge(statuses, {
+                isResuming: false,
+                resumeMethodId: undefined,
+            });
+
         case PaymentStrategyActionType.WidgetInteractionStarted:
             return objectMerge(statuses, {
                 isWidgetInteracting: true,
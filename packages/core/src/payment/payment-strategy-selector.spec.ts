@@ -1,3 +1,5 @@
+import { PaymentLifecyclePhase } from '@bigcommerce/checkout-sdk/payment-integration-api';
+
 import { getErrorResponse } from '../common/http-request/responses.mock';
 
 import PaymentStrategySelector, {
@@ -56,6 +58,27 @@ describe('PaymentStrategySelector', () => {
         });
     });
 
+    describe('#getResumeError()', () => {
+        it('returns error if unable to resume', () => {
+            const resumeError = getErrorResponse();
+
+            selector = createPaymentStrategySelector({
+                ...state.paymentStrategy,
+                errors: { resumeError, resumeMethodId: 'foobar' },
+            });
+
+            expect(selector.getResumeError()).toEqual(resumeError);
+            expect(selector.getResumeError('foobar')).toEqual(resumeError);
+            expect(selector.getResumeError('bar')).toBeUndefined();
+        });
+
+        it('does not returns error if able to resume', () => {
+            selector = createPaymentStrategySelector(state.paymentStrategy);
+
+            expect(selector.getResumeError()).toBeUndefined();
+        });
+    });
+
     describe('#getInitializeError()', () => {
         it('returns error if unable to initialize any method', () => {
             selector = createPaymentStrategySelector({
@@ -153,6 +176,25 @@ describe('PaymentStrategySelector', () => {
         });
     });
 
+    describe('#isResuming()', () => {
+        it('returns true if resuming payment', () => {
+            selector = createPaymentStrategySelector({
+                ...state.paymentStrategy,
+                statuses: { isResuming: true, resumeMethodId: 'foobar' },
+            });
+
+            expect(selector.isResuming()).toBe(true);
+            expect(selector.isResuming('foobar')).toBe(true);
+            expect(selector.isResuming('bar')).toBe(false);
+        });
+
+        it('returns false if not resuming payment', () => {
+            selector = createPaymentStrategySelector(state.paymentStrategy);
+
+            expect(selector.isResuming()).toBe(false);
+        });
+    });
+
     describe('#isInitializing()', () => {
         it('returns true if initializing any method', () => {
             selector = createPaymentStrategySelector({
@@ -212,4 +254,25 @@ describe('PaymentStrategySelector', () => {
             expect(selector.isWidgetInteracting()).toBe(false);
         });
     });
+
+    describe('#getPhase()', () => {
+        it('returns payment phase of method', () => {
+            selector = createPaymentStrategySelector({
+                ...state.paymentStrategy,
+                phases: {
+                    foobar: PaymentLifecyclePhase.Challenge,
+                    'foobar.bar': PaymentLifecyclePhase.Redirecting,
+                },
+            });
+
+            expect(selector.getPhase('foobar')).toBe(PaymentLifecyclePhase.Challenge);
+            expect(selector.getPhase('foobar', 'bar')).toBe(PaymentLifecyclePhase.Redirecting);
+        });
+
+        it('returns idle phase if payment strategy of method is not initialized', () => {
+            selector = createPaymentStrategySelector(state.paymentStrategy);
+
+            expect(selector.getPhase('foobar')).toBe(PaymentLifecyclePhase.Idle);
+        });
+    });
 });
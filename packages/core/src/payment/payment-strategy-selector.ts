@@ -1,5 +1,7 @@
 import { memoizeOne } from '@bigcommerce/memoize';
 
+import { PaymentLifecyclePhase } from '@bigcommerce/checkout-sdk/payment-integration-api';
+
 import { createSelector } from '../common/selector';
 
 import PaymentStrategyState, { DEFAULT_STATE } from './payment-strategy-state';
@@ -13,11 +15,14 @@ export default interface PaymentStrategySelector {
     getInitializeError(methodId?: string): Error | undefined;
     getExecuteError(methodId?: string): Error | undefined;
     getFinalizeError(methodId?: string): Error | undefined;
+    getResumeError(methodId?: string): Error | undefined;
     getWidgetInteractingError(methodId?: string): Error | undefined;
+    getPhase(methodId: string, gatewayId?: string): PaymentLifecyclePhase;
     isInitializing(methodId?: string): boolean;
     isInitialized(query: InitiaizedQuery): boolean;
     isExecuting(methodId?: string): boolean;
     isFinalizing(methodId?: string): boolean;
+    isResuming(methodId?: string): boolean;
     isWidgetInteracting(methodId?: string): boolean;
 }
 
@@ -62,6 +67,18 @@ export function createPaymentStrategySelectorFactory(): PaymentStrategySelectorF
         },
     );
 
+    const getResumeError = createSelector(
+        (state: PaymentStrategyState) => state.errors.resumeMethodId,
+        (state: PaymentStrategyState) => state.errors.resumeError,
+        (resumeMethodId, resumeError) => (methodId?: string) => {
+            if (methodId && resumeMethodId !== methodId) {
+                return;
+            }
+
+            return resumeError;
+        },
+    );
+
     const getWidgetInteractingError = createSelector(
         (state: PaymentStrategyState) => state.errors.widgetInteractionMethodId,
         (state: PaymentStrategyState) => state.errors.widgetInteractionError,
@@ -74,6 +91,15 @@ export function createPaymentStrategySelectorFactory(): PaymentStrategySelectorF
         },
     );
 
+    const getPhase = createSelector(
+        (state: PaymentStrategyState) => state.phases,
+        (phases) => (methodId: string, gatewayId?: string) => {
+            const key = gatewayId ? `${methodId}.${gatewayId}` : methodId;
+
+            return phases[key] ?? PaymentLifecyclePhase.Idle;
+        },
+    );
+
     const isInitializing = createSelector(
         (state: PaymentStrategyState) => state.statuses.initializeMethodId,
         (state: PaymentStrategyState) => state.statuses.isInitializing,
@@ -119,6 +145,18 @@ export function createPaymentStrategySelectorFactory(): PaymentStrategySelectorF
         },
     );
 
+    const isResuming = createSelector(
+        (state: PaymentStrategyState) => state.statuses.resumeMethodId,
+        (state: PaymentStrategyState) => state.statuses.isResuming,
+        (resumeMethodId, isResuming) => (methodId?: string) => {
+            if (methodId && resumeMethodId !== methodId) {
+                return false;
+            }
+
+            return !!isResuming;
+        },
+    );
+
     const isWidgetInteracting = createSelector(
         (state: PaymentStrategyState) => state.statuses.widgetInteractionMethodId,
         (state: PaymentStrategyState) => state.statuses.isWidgetInteracting,
@@ -136,11 +174,14 @@ export function createPaymentStrategySelectorFactory(): PaymentStrategySelectorF
             getInitializeError: getInitializeError(state),
             getExecuteError: getExecuteError(state),
             getFinalizeError: getFinalizeError(state),
+            getResumeError: getResumeError(state),
             getWidgetInteractingError: getWidgetInteractingError(state),
+            getPhase: getPhase(state),
             isInitializing: isInitializing(state),
             isInitialized: isInitialized(state),
             isExecuting: isExecuting(state),
             isFinalizing: isFinalizing(state),
+            isResuming: isResuming(state),
             isWidgetInteracting: isWidgetInteracting(state),
         };
     });
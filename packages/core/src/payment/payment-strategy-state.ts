@@ -1,6 +1,9 @@
+import { PaymentLifecyclePhase } from '@bigcommerce/checkout-sdk/payment-integration-api';
+
 export default interface PaymentStrategyState {
     data: PaymentStrategyDataState;
     errors: PaymentStrategyErrorsState;
+    phases: PaymentStrategyPhasesState;
     statuses: PaymentStrategyStatusesState;
 }
 
@@ -10,6 +13,10 @@ export interface PaymentStrategyDataState {
     };
 }
 
+export interface PaymentStrategyPhasesState {
+    [key: string]: PaymentLifecyclePhase;
+}
+
 export interface PaymentStrategyErrorsState {
     deinitializeError?: Error;
     deinitializeMethodId?: string;
@@ -19,6 +26,8 @@ export interface PaymentStrategyErrorsState {
     finalizeMethodId?: string;
     initializeError?: Error;
     initializeMethodId?: string;
+    resumeError?: Error;
+    resumeMethodId?: string;
     widgetInteractionError?: Error;
     widgetInteractionMethodId?: string;
 }
@@ -32,12 +41,15 @@ export interface PaymentStrategyStatusesState {
     isExecuting?: boolean;
     isFinalizing?: boolean;
     isInitializing?: boolean;
+    isResuming?: boolean;
     isWidgetInteracting?: boolean;
+    resumeMethodId?: string;
     widgetInteractionMethodId?: string;
 }
 
 export const DEFAULT_STATE: PaymentStrategyState = {
     data: {},
     errors: {},
+    phases: {},
     statuses: {},
 };
@@ -0,0 +1,45 @@
+import { BrowserStorage } from '../common/storage';
+
+import PendingPaymentStorage from './pending-payment-storage';
+
+describe('PendingPaymentStorage', () => {
+    let browserStorage: BrowserStorage;
+    let storage: PendingPaymentStorage;
+
+    beforeEach(() => {
+        browserStorage = new BrowserStorage('PaymentStrategy');
+        storage = new PendingPaymentStorage(browserStorage);
+    });
+
+    afterEach(() => {
+        storage.removePendingPayment();
+    });
+
+    it('persists pending payment', () => {
+        const pendingPayment = { methodId: 'adyen', gatewayId: 'ideal', createdAt: Date.now() };
+
+        storage.setPendingPayment(pendingPayment);
+
+        expect(storage.getPendingPayment()).toEqual(pendingPayment);
+        expect(new PendingPaymentStorage(browserStorage).getPendingPayment()).toEqual(
+            pendingPayment,
+        );
+    });
+
+    it('removes pending payment', () => {
+        storage.setPendingPayment({ methodId: 'adyen', createdAt: Date.now() });
+        storage.removePendingPayment();
+
+        expect(storage.getPendingPayment()).toBeUndefined();
+    });
+
+    it('discards pending payment that is stale', () => {
+        storage.setPendingPayment({
+            methodId: 'adyen',
+            createdAt: Date.now() - 2 * 60 * 60 * 1000,
+        });
+
+        expect(storage.getPendingPayment()).toBeUndefined();
+        expect(browserStorage.getItem('pending-payment')).toBeNull();
+    });
+});
@@ -0,0 +1,41 @@
+import { PendingPayment } from '@bigcommerce/checkout-sdk/payment-integration-api';
+
+import { BrowserStorage } from '../common/storage';
+
+const STORAGE_NAMESPACE = 'PaymentStrategy';
+const PENDING_PAYMENT_KEY = 'pending-payment';
+const PENDING_PAYMENT_MAX_AGE = 60 * 60 * 1000;
+
+/**
+ * Persists the payment that the shopper is completing on the website of its
+ * payment provider, so that it can be resumed once they are redirected back
+ * to checkout. Records that are older than an hour are considered stale and
+ * are discarded.
+ */
+export default class PendingPaymentStorage {
+    constructor(private _browserStorage: BrowserStorage = new BrowserStorage(STORAGE_NAMESPACE)) {}
+
+    getPendingPayment(): PendingPayment | undefined {
+        const pendingPayment = this._browserStorage.getItem<PendingPayment>(PENDING_PAYMENT_KEY);
+
+        if (!pendingPayment) {
+            return;
+        }
+
+        if (Date.now() - pendingPayment.createdAt > PENDING_PAYMENT_MAX_AGE) {
+            this.removePendingPayment();
+
+            return;
+        }
+
+        return pendingPayment;
+    }
+
+    setPendingPayment(pendingPayment: PendingPayment): void {
+        this._browserStorage.setItem<PendingPayment>(PENDING_PAYMENT_KEY, pendingPayment);
+    }
+
+    removePendingPayment(): void {
+        this._browserStorage.removeItem(PENDING_PAYMENT_KEY);
+    }
+}
@@ -53,4 +53,36 @@ describe('StorefrontStoredCardRequestSender', () => {
             );
         });
     });
+
+    describe('#updatePaymentInstrumentExpiry', () => {
+        it('updates expiry date of payment instrument', async () => {
+            jest.spyOn(requestSender, 'patch').mockResolvedValue(undefined as never);
+
+            await storefrontStoredCardRequestSender.updatePaymentInstrumentExpiry(
+                StoredCardHostedFormDataMock,
+                '123',
+                { expiryMonth: 3, expiryYear: 2030 },
+            );
+
+            expect(requestSender.patch).toHaveBeenCalledWith(
+                `${StoredCardHostedFormDataMock.paymentsUrl}/stores/${StoredCardHostedFormDataMock.storeHash}/customers/${StoredCardHostedFormDataMock.shopperId}/stored_instruments/123`,
+                {
+                    body: JSON.stringify({
+                        instrument: {
+                            type: 'card',
+                            expiry_month: 3,
+                            expiry_year: 2030,
+                        },
+                        provider_id: StoredCardHostedFormDataMock.providerId,
+                        currency_code: StoredCardHostedFormDataMock.currencyCode,
+                    }),
+                    headers: {
+                        Authorization: StoredCardHostedFormDataMock.vaultToken,
+                        Accept: 'application/vnd.bc.v1+json',
+                        'Content-Type': 'application/vnd.bc.v1+json',
+                    },
+                },
+            );
+        });
+    });
 });
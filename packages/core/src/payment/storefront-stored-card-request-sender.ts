@@ -2,6 +2,7 @@ import { RequestSender } from '@bigcommerce/request-sender';
 
 import {
     StoredCardHostedFormData,
+    StoredCardHostedFormInstrumentExpiry,
     StoredCardHostedFormInstrumentForm,
 } from '../hosted-form/stored-card-hosted-form-type';
 
@@ -18,11 +19,7 @@ export default class StorefrontStoredCardRequestSender {
         const { billingAddress, instrument, defaultInstrument } = storeInstrumentFormData;
         const url = `${paymentsUrl}/stores/${storeHash}/customers/${shopperId}/stored_instruments`;
         const options = {
-            headers: {
-                Authorization: vaultToken,
-                Accept: 'application/vnd.bc.v1+json',
-                'Content-Type': 'application/vnd.bc.v1+json',
-            },
+            headers: this._getHeaders(vaultToken),
             body: JSON.stringify({
                 instrument: {
                     type: instrument.type,
@@ -55,4 +52,37 @@ export default class StorefrontStoredCardRequestSender {
 
         await this._requestSender.post<void>(url, options);
     }
+
+    async updatePaymentInstrumentExpiry(
+        requestInitializationData: StoredCardHostedFormData,
+        instrumentId: string,
+        { expiryMonth, expiryYear }: StoredCardHostedFormInstrumentExpiry,
+    ): Promise<void> {
+        const { providerId, currencyCode, paymentsUrl, shopperId, storeHash, vaultToken } =
+            requestInitializationData;
+
+        const url = `${paymentsUrl}/stores/${storeHash}/customers/${shopperId}/stored_instruments/${instrumentId}`;
+        const options = {
+            headers: this._getHeaders(vaultToken),
+            body: JSON.stringify({
+                instrument: {
+                    type: 'card',
+                    expiry_month: expiryMonth,
+                    expiry_year: expiryYear,
+                },
+                provider_id: providerId,
+                currency_code: currencyCode,
+            }),
+        };
+
+        await this._requestSender.patch<void>(url, options);
+    }
+
+    private _getHeaders(vaultToken: string) {
+        return {
+            Authorization: vaultToken,
+            Accept: 'application/vnd.bc.v1+json',
+            'Content-Type': 'application/vnd.bc.v1+json',
+        };
+    }
 }
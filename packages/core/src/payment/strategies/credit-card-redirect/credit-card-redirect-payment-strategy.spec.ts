@@ -6,6 +6,8 @@ import { createScriptLoader } from '@bigcommerce/script-loader';
 import { merge, noop, omit } from 'lodash';
 import { Observable, of } from 'rxjs';
 
+import { PaymentLifecyclePhase } from '@bigcommerce/checkout-sdk/payment-integration-api';
+
 import {
     CheckoutRequestSender,
     CheckoutStore,
@@ -36,7 +38,10 @@ import { PaymentInitializeOptions } from '../../payment-request-options';
 import PaymentRequestSender from '../../payment-request-sender';
 import PaymentRequestTransformer from '../../payment-request-transformer';
 import * as paymentStatusTypes from '../../payment-status-types';
+import { PaymentStrategyActionType } from '../../payment-strategy-actions';
+import PaymentStrategyPhaseActionCreator from '../../payment-strategy-phase-action-creator';
 import { getErrorPaymentResponseBody } from '../../payments.mock';
+import PendingPaymentStorage from '../../pending-payment-storage';
 
 import CreditCardRedirectPaymentStrategy from './credit-card-redirect-payment-strategy';
 
@@ -46,6 +51,7 @@ describe('CreditCardRedirectPaymentStrategy', () => {
     let formPoster: FormPoster;
     let orderActionCreator: OrderActionCreator;
     let paymentActionCreator: PaymentActionCreator;
+    let paymentStrategyPhaseActionCreator: PaymentStrategyPhaseActionCreator;
     let requestSender: RequestSender;
     let store: CheckoutStore;
     let orderRequestSender: OrderRequestSender;
@@ -69,6 +75,9 @@ describe('CreditCardRedirectPaymentStrategy', () => {
         );
 
         formPoster = createFormPoster();
+        paymentStrategyPhaseActionCreator = new PaymentStrategyPhaseActionCreator(
+            new PendingPaymentStorage(),
+        );
         formFactory = new HostedFormFactory(store);
         store = createCheckoutStore(getCheckoutStoreState());
 
@@ -100,6 +109,7 @@ describe('CreditCardRedirectPaymentStrategy', () => {
             paymentActionCreator,
             formFactory,
             formPoster,
+            paymentStrategyPhaseActionCreator,
         );
     });
 
@@ -165,6 +175,55 @@ describe('CreditCardRedirectPaymentStrategy', () => {
         });
     });
 
+    it('reports redirecting phase before posting 3ds data', async () => {
+        const error = new RequestError(
+            getResponse({
+                ...getErrorPaymentResponseBody(),
+                errors: [{ code: 'three_d_secure_required' }],
+                three_ds_result: {
+                    acs_url: 'https://acs/url',
+                    callback_url: 'https://callback/url',
+                    payer_auth_request: 'payer_auth_request',
+                    merchant_data: 'merchant_data',
+                },
+                status: 'error',
+            }),
+        );
+        const phaseAction = of(
+            createAction(
+                PaymentStrategyActionType.PhaseChanged,
+                { phase: PaymentLifecyclePhase.Redirecting },
+                { methodId: 'foobar' },
+            ),
+        );
+
+        jest.spyOn(paymentStrategyPhaseActionCreator, 'changePhase').mockReturnValue(phaseAction);
+        jest.spyOn(paymentActionCreator, 'submitPayment').mockReturnValue(
+            // TODO: remove ts-ignore and update test with related type (PAYPAL-4383)
+            // eslint-disable-next-line @typescript-eslint/ban-ts-comment
+            // @ts-ignore
+            of(createErrorAction(PaymentActionType.SubmitPaymentFailed, error)),
+        );
+        jest.spyOn(orderActionCreator, 'loadCurrentOrder').mockReturnValue(
+            // TODO: remove ts-ignore and update test with related type (PAYPAL-4383)
+            // eslint-disable-next-line @typescript-eslint/ban-ts-comment
+            // @ts-ignore
+            of(createAction(OrderActionType.LoadOrderSucceeded, getOrder())),
+        );
+
+        await strategy.execute(getOrderRequestBody());
+
+        expect(paymentStrategyPhaseActionCreator.changePhase).toHaveBeenCalledWith(
+            PaymentLifecyclePhase.Redirecting,
+            {
+                methodId: getOrderRequestBody().payment?.methodId,
+                gatewayId: getOrderRequestBody().payment?.gatewayId,
+            },
+        );
+        expect(store.dispatch).toHaveBeenCalledWith(phaseAction);
+        expect(formPoster.postForm).toHaveBeenCalled();
+    });
+
     it('does not post 3ds data to the provided acs_url if 3ds is not enabled', async () => {
         const response = new RequestError(getResponse(getErrorPaymentResponseBody()));
 
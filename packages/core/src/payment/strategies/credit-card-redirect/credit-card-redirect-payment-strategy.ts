@@ -1,6 +1,8 @@
 import { FormPoster } from '@bigcommerce/form-poster';
 import { some } from 'lodash';
 
+import { PaymentLifecyclePhase } from '@bigcommerce/checkout-sdk/payment-integration-api';
+
 import { CheckoutStore, InternalCheckoutSelectors } from '../../../checkout';
 import {
     NotInitializedError,
@@ -8,12 +10,13 @@ import {
     RequestError,
 } from '../../../common/error/errors';
 import { HostedFormFactory } from '../../../hosted-form';
-import { OrderActionCreator, OrderRequestBody } from '../../../order';
+import { OrderActionCreator, OrderPaymentRequestBody, OrderRequestBody } from '../../../order';
 import { OrderFinalizationNotRequiredError } from '../../../order/errors';
 import { PaymentArgumentInvalidError } from '../../errors';
 import PaymentActionCreator from '../../payment-action-creator';
 import { PaymentRequestOptions } from '../../payment-request-options';
 import * as paymentStatusTypes from '../../payment-status-types';
+import PaymentStrategyPhaseActionCreator from '../../payment-strategy-phase-action-creator';
 import { CreditCardPaymentStrategy } from '../credit-card';
 
 export default class CreditCardRedirectPaymentStrategy extends CreditCardPaymentStrategy {
@@ -23,6 +26,7 @@ export default class CreditCardRedirectPaymentStrategy extends CreditCardPayment
         protected _paymentActionCreator: PaymentActionCreator,
         protected _hostedFormFactory: HostedFormFactory,
         protected _formPoster: FormPoster,
+        protected _paymentStrategyPhaseActionCreator: PaymentStrategyPhaseActionCreator,
     ) {
         super(_store, _orderActionCreator, _paymentActionCreator, _hostedFormFactory);
     }
@@ -65,11 +69,7 @@ export default class CreditCardRedirectPaymentStrategy extends CreditCardPayment
                 return Promise.reject(error);
             }
 
-            this._formPoster.postForm(error.body.three_ds_result.acs_url, {
-                PaReq: error.body.three_ds_result.payer_auth_request || null,
-                TermUrl: error.body.three_ds_result.callback_url || null,
-                MD: error.body.three_ds_result.merchant_data || null,
-            });
+            await this._redirectToThreeDSecure(error, payment);
         }
 
         return this._store.dispatch(this._orderActionCreator.loadCurrentOrder());
@@ -102,13 +102,27 @@ export default class CreditCardRedirectPaymentStrategy extends CreditCardPayment
                 return Promise.reject(error);
             }
 
-            this._formPoster.postForm(error.body.three_ds_result.acs_url, {
-                PaReq: error.body.three_ds_result.payer_auth_request || null,
-                TermUrl: error.body.three_ds_result.callback_url || null,
-                MD: error.body.three_ds_result.merchant_data || null,
-            });
+            await this._redirectToThreeDSecure(error, payment);
         }
 
         return this._store.dispatch(this._orderActionCreator.loadCurrentOrder());
     }
+
+    private async _redirectToThreeDSecure(
+        error: RequestError,
+        payment: OrderPaymentRequestBody,
+    ): Promise<void> {
+        await this._store.dispatch(
+            this._paymentStrategyPhaseActionCreator.changePhase(PaymentLifecyclePhase.Redirecting, {
+                methodId: payment.methodId,
+                gatewayId: payment.gatewayId,
+            }),
+        );
+
+        this._formPoster.postForm(error.body.three_ds_result.acs_url, {
+            PaReq: error.body.three_ds_result.payer_auth_request || null,
+            TermUrl: error.body.three_ds_result.callback_url || null,
+            MD: error.body.three_ds_result.merchant_data || null,
+        });
+    }
 }
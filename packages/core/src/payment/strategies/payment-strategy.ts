@@ -1,4 +1,7 @@
+import { PendingPayment } from '@bigcommerce/checkout-sdk/payment-integration-api';
+
 import { InternalCheckoutSelectors } from '../../checkout';
+import { RequestOptions } from '../../common/http-request';
 import { OrderRequestBody } from '../../order';
 import { PaymentInitializeOptions, PaymentRequestOptions } from '../payment-request-options';
 
@@ -13,4 +16,9 @@ export default interface PaymentStrategy {
     initialize(options?: PaymentInitializeOptions): Promise<InternalCheckoutSelectors>;
 
     deinitialize(options?: PaymentRequestOptions): Promise<InternalCheckoutSelectors>;
+
+    resume?(
+        pendingPayment: PendingPayment,
+        options?: RequestOptions,
+    ): Promise<InternalCheckoutSelectors>;
 }
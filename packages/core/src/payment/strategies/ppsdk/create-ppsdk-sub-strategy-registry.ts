@@ -1,6 +1,5 @@
-import { RequestSender } from '@bigcommerce/request-sender';
-
 import { CheckoutStore } from '../../../checkout';
+import { HttpRequestSender } from '../../../common/http-request';
 import { HostedFormFactory } from '../../../hosted-form';
 import { OrderActionCreator } from '../../../order';
 
@@ -12,7 +11,7 @@ import { CardSubStrategy, NoneSubStrategy } from './sub-strategies';
 export const createSubStrategyRegistry = (
     store: CheckoutStore,
     orderActionCreator: OrderActionCreator,
-    requestSender: RequestSender,
+    requestSender: HttpRequestSender,
     stepHandler: StepHandler,
     hostedFormFactory: HostedFormFactory,
 ) => {
@@ -1,5 +1,4 @@
-import { RequestSender } from '@bigcommerce/request-sender';
-
+import { HttpRequestSender } from '../../../common/http-request';
 import { OrderFinalizationNotRequiredError } from '../../../order/errors';
 
 import { PaymentsAPIResponse } from './ppsdk-payments-api-response';
@@ -12,7 +11,7 @@ interface ResumeSettings {
 }
 
 export class PaymentResumer {
-    constructor(private _requestSender: RequestSender, private _stepHandler: StepHandler) {}
+    constructor(private _requestSender: HttpRequestSender, private _stepHandler: StepHandler) {}
 
     async resume({ paymentId, bigpayBaseUrl, orderId }: ResumeSettings): Promise<void> {
         const token = await this._getToken(orderId).catch(() => {
@@ -0,0 +1,3 @@
+import { HumanVerificationStepCallbacks } from '@bigcommerce/checkout-sdk/payment-integration-api';
+
+export type ContinueCallbacks = HumanVerificationStepCallbacks;
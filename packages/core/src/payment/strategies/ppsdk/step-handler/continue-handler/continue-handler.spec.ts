@@ -6,16 +6,23 @@ import {
     PaymentHumanVerificationHandler,
 } from '../../../../../spam-protection';
 
-import { Continue, ContinueHandler } from './continue-handler';
+import { Continue, createContinueStepHandlers } from './continue-handler';
 
-describe('ContinueHandler', () => {
+describe('createContinueStepHandlers()', () => {
     const formPoster = createFormPoster();
-    const continueHandler = new ContinueHandler(
+    const continueStepHandlers = createContinueStepHandlers(
         formPoster,
         new PaymentHumanVerificationHandler(createSpamProtection(createScriptLoader())),
     );
 
-    describe('#handle', () => {
+    it('creates handlers for redirect and human verification steps', () => {
+        expect(continueStepHandlers.map(({ code }) => code)).toEqual([
+            'redirect',
+            'resubmit_with_human_verification',
+        ]);
+    });
+
+    describe('redirect step handler', () => {
         it('passes redirect parameters to the redirect handler', () => {
             Object.defineProperty(window, 'location', {
                 value: {
@@ -32,7 +39,11 @@ describe('ContinueHandler', () => {
                 },
             };
 
-            continueHandler.handle(redirectContinueResponse);
+            const redirectStepHandler = continueStepHandlers[0];
+
+            if (redirectStepHandler.isParameters(redirectContinueResponse.parameters)) {
+                void redirectStepHandler.handle(redirectContinueResponse.parameters);
+            }
 
             expect(window.location.assign).toHaveBeenCalledWith('http://some-url.com');
         });
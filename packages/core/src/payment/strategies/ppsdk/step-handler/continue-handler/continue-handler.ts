@@ -1,45 +1,26 @@
 import { FormPoster } from '@bigcommerce/form-poster';
-import { overSome } from 'lodash';
-
-import { PaymentHumanVerificationHandler } from '../../../../../spam-protection';
-import PaymentAdditionalAction from '../../../../payment-additional-action';
-import { PaymentsAPIResponse } from '../../ppsdk-payments-api-response';
 
 import {
-    handleHumanVerification,
-    HumanVerification,
-    isHumanVerification,
-} from './human-verification';
-import { handleRedirect, isRedirect, Redirect } from './redirect';
-
-export type Continue = Redirect | HumanVerification;
+    ContinueStep,
+    ContinueStepHandler,
+    createHumanVerificationStepHandler,
+    createRedirectStepHandler,
+    HumanVerificationStepParameters,
+    RedirectStepParameters,
+} from '@bigcommerce/checkout-sdk/payment-integration-api';
 
-const isAnyContinue = overSome([isRedirect, isHumanVerification]);
-
-export const isContinue = (body: PaymentsAPIResponse['body']): body is Continue =>
-    isAnyContinue(body);
-
-export interface ContinueCallbacks {
-    humanVerification?(additionalAction: PaymentAdditionalAction): Promise<void>;
-}
+import { PaymentHumanVerificationHandler } from '../../../../../spam-protection';
 
-export class ContinueHandler {
-    constructor(
-        private _formPoster: FormPoster,
-        private _humanVerificationHandler: PaymentHumanVerificationHandler,
-    ) {}
+import { ContinueCallbacks } from './continue-callbacks';
 
-    handle(body: Continue, callbacks?: ContinueCallbacks): Promise<void> {
-        switch (body.code) {
-            case 'redirect':
-                return handleRedirect(body.parameters, this._formPoster);
+export type Continue =
+    | ContinueStep<'redirect', RedirectStepParameters>
+    | ContinueStep<'resubmit_with_human_verification', HumanVerificationStepParameters>;
 
-            case 'resubmit_with_human_verification':
-                return handleHumanVerification(
-                    body.parameters,
-                    this._humanVerificationHandler,
-                    callbacks?.humanVerification,
-                );
-        }
-    }
-}
+export const createContinueStepHandlers = (
+    formPoster: FormPoster,
+    humanVerificationHandler: PaymentHumanVerificationHandler,
+): Array<ContinueStepHandler<unknown, ContinueCallbacks>> => [
+    createRedirectStepHandler(formPoster),
+    createHumanVerificationStepHandler(humanVerificationHandler),
+];
@@ -1,5 +0,0 @@
-export {
-    isHumanVerification,
-    handleHumanVerification,
-    HumanVerification,
-} from './human-verification';
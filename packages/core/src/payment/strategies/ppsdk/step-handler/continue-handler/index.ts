@@ -1 +1,2 @@
-export { isContinue, Continue, ContinueCallbacks, ContinueHandler } from './continue-handler';
+export { ContinueCallbacks } from './continue-callbacks';
+export { Continue, createContinueStepHandlers } from './continue-handler';
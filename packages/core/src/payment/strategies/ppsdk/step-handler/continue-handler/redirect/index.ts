@@ -1 +0,0 @@
-export { isRedirect, handleRedirect, Redirect } from './redirect';
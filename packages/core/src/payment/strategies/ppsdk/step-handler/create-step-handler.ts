@@ -1,11 +1,16 @@
 import { FormPoster } from '@bigcommerce/form-poster';
 
+import { PaymentStepEngine } from '@bigcommerce/checkout-sdk/payment-integration-api';
+
 import { PaymentHumanVerificationHandler } from '../../../../spam-protection';
 
-import { ContinueHandler } from './continue-handler';
+import { createContinueStepHandlers } from './continue-handler';
 import { StepHandler } from './step-handler';
 
 export const createStepHandler = (
     formPoster: FormPoster,
     humanVerificationHandler: PaymentHumanVerificationHandler,
-) => new StepHandler(new ContinueHandler(formPoster, humanVerificationHandler));
+) =>
+    new StepHandler(
+        new PaymentStepEngine(createContinueStepHandlers(formPoster, humanVerificationHandler)),
+    );
@@ -1,19 +1,21 @@
 import { createFormPoster } from '@bigcommerce/form-poster';
 import { createScriptLoader } from '@bigcommerce/script-loader';
 
-import { RequestError } from '../../../../common/error/errors';
+import { PaymentStepEngine, RequestError } from '@bigcommerce/checkout-sdk/payment-integration-api';
+
 import { createSpamProtection, PaymentHumanVerificationHandler } from '../../../../spam-protection';
 
-import { ContinueHandler } from './continue-handler';
+import { createContinueStepHandlers } from './continue-handler';
 import { StepHandler } from './step-handler';
 
 describe('StepHandler', () => {
     const formPoster = createFormPoster();
-    const continueHandler = new ContinueHandler(
+    const continueStepHandlers = createContinueStepHandlers(
         formPoster,
         new PaymentHumanVerificationHandler(createSpamProtection(createScriptLoader())),
     );
-    const handler = new StepHandler(continueHandler);
+    const [redirectStepHandler] = continueStepHandlers;
+    const handler = new StepHandler(new PaymentStepEngine(continueStepHandlers));
 
     describe('#handler', () => {
         describe('with a success body', () => {
@@ -32,13 +34,10 @@ describe('StepHandler', () => {
         });
 
         describe('with a continue body', () => {
-            it('passes the body to the continueHandler', async () => {
+            it('passes the parameters to the continue step handler', async () => {
                 const continueHandlerSpy = jest
-                    .spyOn(continueHandler, 'handle')
-                    // TODO: remove ts-ignore and update test with related type (PAYPAL-4383)
-                    // eslint-disable-next-line @typescript-eslint/ban-ts-comment
-                    // @ts-ignore
-                    .mockImplementation(jest.fn);
+                    .spyOn(redirectStepHandler, 'handle')
+                    .mockResolvedValue(undefined);
 
                 const body = {
                     type: 'continue',
@@ -57,7 +56,7 @@ describe('StepHandler', () => {
 
                 await handler.handle(redirectContinueResponse);
 
-                expect(continueHandlerSpy).toHaveBeenCalledWith(body, undefined);
+                expect(continueHandlerSpy).toHaveBeenCalledWith(body.parameters, undefined);
             });
         });
 
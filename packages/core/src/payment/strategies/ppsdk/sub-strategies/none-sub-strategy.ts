@@ -1,11 +1,10 @@
-import { RequestSender } from '@bigcommerce/request-sender';
-
+import { HttpRequestSender } from '../../../../common/http-request';
 import { PaymentsAPIResponse } from '../ppsdk-payments-api-response';
 import { SubStrategy, SubStrategySettings } from '../ppsdk-sub-strategy';
 import { StepHandler } from '../step-handler';
 
 export class NoneSubStrategy implements SubStrategy {
-    constructor(private _requestSender: RequestSender, private _stepHandler: StepHandler) {}
+    constructor(private _requestSender: HttpRequestSender, private _stepHandler: StepHandler) {}
 
     execute({ methodId, bigpayBaseUrl, token }: SubStrategySettings): Promise<void> {
         const body = { payment_method_id: methodId };
@@ -1,12 +1,12 @@
-import { RequestSender, Response } from '@bigcommerce/request-sender';
+import { Response } from '@bigcommerce/request-sender';
 
-import { RequestOptions, SDK_VERSION_HEADERS } from '../common/http-request';
+import { HttpRequestSender, RequestOptions, SDK_VERSION_HEADERS } from '../common/http-request';
 
 /**
  * @todo Convert this file into TypeScript properly
  */
 export default class RemoteCheckoutRequestSender {
-    constructor(private _requestSender: RequestSender) {}
+    constructor(private _requestSender: HttpRequestSender) {}
 
     initializeBilling(
         methodName: string,
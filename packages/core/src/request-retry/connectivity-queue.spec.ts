@@ -0,0 +1,58 @@
+import { defer, of } from 'rxjs';
+import { toArray } from 'rxjs/operators';
+
+import ConnectivityQueue from './connectivity-queue';
+
+describe('ConnectivityQueue', () => {
+    let queue: ConnectivityQueue;
+    let onLine: jest.SpyInstance;
+
+    beforeEach(() => {
+        queue = new ConnectivityQueue();
+        onLine = jest.spyOn(window.navigator, 'onLine', 'get').mockReturnValue(false);
+    });
+
+    afterEach(() => {
+        jest.restoreAllMocks();
+    });
+
+    it('returns connectivity status of device', () => {
+        expect(queue.isOnline()).toBe(false);
+
+        onLine.mockReturnValue(true);
+
+        expect(queue.isOnline()).toBe(true);
+    });
+
+    it('replays queued entries in order once device is online', async () => {
+        const calls: string[] = [];
+        const first = queue
+            .enqueue(() => defer(async () => calls.push('first')))
+            .pipe(toArray())
+            .toPromise();
+        const second = queue
+            .enqueue(() => defer(async () => calls.push('second')))
+            .pipe(toArray())
+            .toPromise();
+
+        expect(calls).toEqual([]);
+
+        onLine.mockReturnValue(true);
+        window.dispatchEvent(new Event('online'));
+
+        await Promise.all([first, second]);
+
+        expect(calls).toEqual(['first', 'second']);
+    });
+
+    it('does not replay entry if its subscription is cancelled', () => {
+        const replay = jest.fn(() => of('value'));
+
+        queue.enqueue(replay).subscribe().unsubscribe();
+
+        onLine.mockReturnValue(true);
+        window.dispatchEvent(new Event('online'));
+
+        expect(replay).not.toHaveBeenCalled();
+    });
+});
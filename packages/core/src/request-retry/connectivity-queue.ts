@@ -0,0 +1,88 @@
+import { pull } from 'lodash';
+import { Observable, Subscription } from 'rxjs';
+import { finalize } from 'rxjs/operators';
+
+import { bindDecorator as bind } from '@bigcommerce/checkout-sdk/utility';
+
+/**
+ * Holds requests that failed while the device was offline and replays them,
+ * one after another and in the order they were queued, once the device is
+ * back online.
+ */
+export default class ConnectivityQueue {
+    private _entries: Array<() => Promise<void>> = [];
+    private _isFlushing = false;
+    private _isListening = false;
+
+    constructor(private _window: Window = window) {}
+
+    isOnline(): boolean {
+        return this._window.navigator.onLine !== false;
+    }
+
+    enqueue<T>(replay: () => Observable<T>): Observable<T> {
+        return new Observable<T>((subscriber) => {
+            let subscription: Subscription | undefined;
+
+            const entry = () =>
+                new Promise<void>((resolve) => {
+                    subscription = replay().pipe(finalize(resolve)).subscribe(subscriber);
+                });
+
+            this._entries.push(entry);
+            this._listen();
+
+            return () => {
+                pull(this._entries, entry);
+                subscription?.unsubscribe();
+            };
+        });
+    }
+
+    private _listen(): void {
+        if (this._isListening) {
+            return;
+        }
+
+        this._isListening = true;
+        this._window.addEventListener('online', this._handleOnline);
+    }
+
+    private _stopListen(): void {
+        if (!this._isListening) {
+            return;
+        }
+
+        this._isListening = false;
+        this._window.removeEventListener('online', this._handleOnline);
+    }
+
+    @bind
+    private _handleOnline(): Promise<void> {
+        if (this._isFlushing) {
+            return Promise.resolve();
+        }
+
+        this._isFlushing = true;
+
+        return this._flush();
+    }
+
+    private async _flush(): Promise<void> {
+        const entry = this.isOnline() ? this._entries.shift() : undefined;
+
+        if (!entry) {
+            this._isFlushing = false;
+
+            if (!this._entries.length) {
+                this._stopListen();
+            }
+
+            return;
+        }
+
+        await entry();
+
+        return this._flush();
+    }
+}
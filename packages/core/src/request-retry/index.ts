@@ -0,0 +1,13 @@
+export * from './request-retry-actions';
+
+export { default as ConnectivityQueue } from './connectivity-queue';
+export { default as RequestRetrier } from './request-retrier';
+export { default as RequestRetryOptions } from './request-retry-options';
+export { default as RequestRetryState } from './request-retry-state';
+export { default as requestRetryReducer } from './request-retry-reducer';
+export {
+    default as RequestRetrySelector,
+    RequestRetrySelectorFactory,
+    createRequestRetrySelectorFactory,
+} from './request-retry-selector';
+export { default as RetryableMethod, DEFAULT_IDEMPOTENT_METHODS } from './retryable-method';
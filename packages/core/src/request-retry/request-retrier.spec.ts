@@ -0,0 +1,218 @@
+import { Action, createAction, ThunkAction } from '@bigcommerce/data-store';
+import { createTimeout } from '@bigcommerce/request-sender';
+import { concat, defer, from, Observable, of } from 'rxjs';
+import { catchError, toArray } from 'rxjs/operators';
+
+import { CheckoutStore, createCheckoutStore, InternalCheckoutSelectors } from '../checkout';
+import { getCheckoutStoreState } from '../checkout/checkouts.mock';
+import { throwErrorAction } from '../common/error';
+import { getErrorResponse, getTimeoutResponse } from '../common/http-request/responses.mock';
+
+import ConnectivityQueue from './connectivity-queue';
+import RequestRetrier from './request-retrier';
+import { RequestRetryActionType } from './request-retry-actions';
+
+describe('RequestRetrier', () => {
+    let connectivityQueue: ConnectivityQueue;
+    let sendRequest: jest.Mock;
+    let store: CheckoutStore;
+    let action: Observable<Action>;
+
+    function run(
+        thunk: Observable<Action> | ThunkAction<Action, InternalCheckoutSelectors>,
+    ): Promise<Action[]> {
+        const action$ = typeof thunk === 'function' ? from(thunk(store)) : thunk;
+
+        return action$.pipe(toArray()).toPromise();
+    }
+
+    beforeEach(() => {
+        connectivityQueue = new ConnectivityQueue();
+        sendRequest = jest.fn(() => Promise.resolve());
+        store = createCheckoutStore(getCheckoutStoreState());
+        action = concat(
+            of(createAction('UPDATE_REQUESTED')),
+            defer(async () => {
+                await sendRequest();
+
+                return createAction('UPDATE_SUCCEEDED');
+            }),
+        ).pipe(catchError((error) => throwErrorAction('UPDATE_FAILED', error)));
+    });
+
+    afterEach(() => {
+        jest.restoreAllMocks();
+    });
+
+    it('returns original action if retry is not enabled', () => {
+        const retrier = new RequestRetrier(connectivityQueue);
+
+        expect(retrier.isEnabled()).toBe(false);
+        expect(retrier.retry('updateBillingAddress', action)).toBe(action);
+    });
+
+    it('retries idempotent mutation if it fails because of network issue', async () => {
+        const retrier = new RequestRetrier(connectivityQueue, { initialDelay: 0 });
+
+        sendRequest.mockRejectedValueOnce(getTimeoutResponse());
+
+        const actions = await run(retrier.retry('updateBillingAddress', action));
+
+        expect(sendRequest).toHaveBeenCalledTimes(2);
+        expect(actions.map(({ type }) => type)).toEqual([
+            'UPDATE_REQUESTED',
+            RequestRetryActionType.RetryScheduled,
+            RequestRetryActionType.RetryAttempted,
+            'UPDATE_REQUESTED',
+            'UPDATE_SUCCEEDED',
+            RequestRetryActionType.RetryFinished,
+        ]);
+    });
+
+    it('calculates delay using exponential backoff and jitter', async () => {
+        const retrier = new RequestRetrier(connectivityQueue, {
+            initialDelay: 4,
+            backoffFactor: 3,
+            jitter: 0.5,
+        });
+
+        jest.spyOn(Math, 'random').mockReturnValue(0.5);
+        sendRequest
+            .mockRejectedValueOnce(getTimeoutResponse())
+            .mockRejectedValueOnce(getTimeoutResponse());
+
+        const actions = await run(retrier.retry('updateBillingAddress', action));
+
+        expect(
+            actions
+                .filter(({ type }) => type === RequestRetryActionType.RetryScheduled)
+                .map(({ payload }) => payload),
+        ).toEqual([
+            { attempt: 1, delay: 3 },
+            { attempt: 2, delay: 9 },
+        ]);
+    });
+
+    it('throws error once maximum number of attempts is reached', async () => {
+        const retrier = new RequestRetrier(connectivityQueue, { initialDelay: 0, maxAttempts: 2 });
+        const response = getErrorResponse(undefined, {}, 503, 'Service Unavailable');
+
+        sendRequest.mockRejectedValue(response);
+
+        await expect(run(retrier.retry('updateCheckout', action))).rejects.toEqual(
+            expect.objectContaining({ type: 'UPDATE_FAILED', payload: response }),
+        );
+        expect(sendRequest).toHaveBeenCalledTimes(2);
+    });
+
+    it('does not retry mutation if it fails because of client error', async () => {
+        const retrier = new RequestRetrier(connectivityQueue, { initialDelay: 0 });
+
+        sendRequest.mockRejectedValue(getErrorResponse());
+
+        await expect(run(retrier.retry('updateBillingAddress', action))).rejects.toEqual(
+            expect.objectContaining({ type: 'UPDATE_FAILED' }),
+        );
+        expect(sendRequest).toHaveBeenCalledTimes(1);
+    });
+
+    it('does not retry mutation that is not idempotent while online', async () => {
+        const retrier = new RequestRetrier(connectivityQueue, { initialDelay: 0 });
+
+        sendRequest.mockRejectedValue(getTimeoutResponse());
+
+        await expect(run(retrier.retry('applyCoupon', action))).rejects.toEqual(
+            expect.objectContaining({ type: 'UPDATE_FAILED' }),
+        );
+        expect(sendRequest).toHaveBeenCalledTimes(1);
+    });
+
+    it('retries mutation that is configured as idempotent', async () => {
+        const retrier = new RequestRetrier(connectivityQueue, {
+            initialDelay: 0,
+            idempotentMethods: { applyCoupon: true },
+        });
+
+        sendRequest.mockRejectedValueOnce(getTimeoutResponse());
+
+        await run(retrier.retry('applyCoupon', action));
+
+        expect(sendRequest).toHaveBeenCalledTimes(2);
+    });
+
+    it('stops retrying once request times out', async () => {
+        const retrier = new RequestRetrier(connectivityQueue, { initialDelay: 1000 });
+        const timeout = createTimeout();
+
+        sendRequest.mockRejectedValue(getTimeoutResponse());
+
+        const promise = run(retrier.retry('updateBillingAddress', action, timeout));
+
+        await new Promise((resolve) => process.nextTick(resolve));
+
+        timeout.complete();
+
+        await expect(promise).rejects.toEqual(expect.objectContaining({ type: 'UPDATE_FAILED' }));
+        expect(sendRequest).toHaveBeenCalledTimes(1);
+    });
+
+    it('queues mutations while offline and replays them in order once online', async () => {
+        const retrier = new RequestRetrier(connectivityQueue, { initialDelay: 0 });
+        const onLine = jest.spyOn(window.navigator, 'onLine', 'get').mockReturnValue(false);
+        const calls: string[] = [];
+
+        sendRequest.mockImplementation(() =>
+            window.navigator.onLine ? Promise.resolve() : Promise.reject(getTimeoutResponse()),
+        );
+
+        const createAction$ = (name: string) =>
+            defer(async () => {
+                calls.push(name);
+                await sendRequest();
+
+                return createAction(name);
+            }).pipe(catchError((error) => throwErrorAction(`${name}_FAILED`, error)));
+
+        const first = run(retrier.retry('applyCoupon', createAction$('FIRST')));
+        const second = run(retrier.retry('updateBillingAddress', createAction$('SECOND')));
+
+        await new Promise((resolve) => process.nextTick(resolve));
+
+        onLine.mockReturnValue(true);
+        window.dispatchEvent(new Event('online'));
+
+        expect((await first).map(({ type }) => type)).toEqual([
+            RequestRetryActionType.RetryQueued,
+            RequestRetryActionType.RetryAttempted,
+            'FIRST',
+            RequestRetryActionType.RetryFinished,
+        ]);
+        expect((await second).map(({ type }) => type)).toEqual([
+            RequestRetryActionType.RetryQueued,
+            RequestRetryActionType.RetryAttempted,
+            'SECOND',
+            RequestRetryActionType.RetryFinished,
+        ]);
+        expect(calls).toEqual(['FIRST', 'SECOND', 'FIRST', 'SECOND']);
+        expect((await first)[1]).toEqual(
+            expect.objectContaining({
+                type: RequestRetryActionType.RetryAttempted,
+                payload: { attempt: 2 },
+            }),
+        );
+    });
+
+    it('does not queue mutations while offline if queueing is disabled', async () => {
+        const retrier = new RequestRetrier(connectivityQueue, {
+            initialDelay: 0,
+            shouldQueueWhenOffline: false,
+        });
+
+        jest.spyOn(window.navigator, 'onLine', 'get').mockReturnValue(false);
+        sendRequest.mockRejectedValue(getTimeoutResponse());
+
+        await expect(run(retrier.retry('updateBillingAddress', action))).rejects.toEqual(
+            expect.objectContaining({ type: 'UPDATE_FAILED' }),
+        );
+    });
+});
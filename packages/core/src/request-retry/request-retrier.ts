@@ -0,0 +1,209 @@
+import { Action, createAction, ThunkAction } from '@bigcommerce/data-store';
+import { Timeout } from '@bigcommerce/request-sender';
+import { concat, defer, from, Observable, of, throwError } from 'rxjs';
+import { catchError } from 'rxjs/operators';
+
+import { InternalCheckoutSelectors } from '../checkout';
+
+import ConnectivityQueue from './connectivity-queue';
+import { RequestRetryAction, RequestRetryActionType } from './request-retry-actions';
+import RequestRetryOptions from './request-retry-options';
+import RetryableMethod, { DEFAULT_IDEMPOTENT_METHODS } from './retryable-method';
+
+const DEFAULT_OPTIONS: Required<Omit<RequestRetryOptions, 'idempotentMethods'>> = {
+    maxAttempts: 3,
+    initialDelay: 500,
+    maxDelay: 10000,
+    backoffFactor: 2,
+    jitter: 0.5,
+    shouldQueueWhenOffline: true,
+};
+
+const RETRYABLE_STATUSES = [0, 502, 503, 504];
+
+/**
+ * Wraps checkout mutations so that they get sent again, with an exponential
+ * backoff, if they fail because of a network issue.
+ *
+ * The retrier is disabled unless it is constructed with a set of options.
+ */
+export default class RequestRetrier {
+    constructor(
+        private _connectivityQueue: ConnectivityQueue,
+        private _options?: RequestRetryOptions,
+    ) {}
+
+    isEnabled(): boolean {
+        return !!this._options;
+    }
+
+    retry<TAction extends Action>(
+        method: RetryableMethod,
+        action: Observable<TAction> | ThunkAction<TAction, InternalCheckoutSelectors>,
+        timeout?: Timeout,
+    ): Observable<TAction> | ThunkAction<TAction | RequestRetryAction, InternalCheckoutSelectors> {
+        if (!this._options) {
+            return action;
+        }
+
+        const options = { ...DEFAULT_OPTIONS, ...this._options };
+
+        return (store) => {
+            let isAborted = false;
+
+            if (timeout) {
+                timeout.onComplete(() => {
+                    isAborted = true;
+                });
+            }
+
+            const createSource = () =>
+                defer(() => from(typeof action === 'function' ? action(store) : action));
+
+            const attempt = (
+                count: number,
+                isReplay = false,
+            ): Observable<TAction | RequestRetryAction> =>
+                (isReplay
+                    ? this._connectivityQueue.enqueue(() =>
+                          concat(
+                              of(
+                                  createAction(
+                                      RequestRetryActionType.RetryAttempted,
+                                      { attempt: count },
+                                      { method },
+                                  ),
+                              ),
+                              createSource(),
+                          ),
+                      )
+                    : createSource()
+                ).pipe(
+                    catchError((error) => {
+                        if (isAborted || !this._isRetryable(method, error)) {
+                            return throwError(error);
+                        }
+
+                        if (!this._connectivityQueue.isOnline()) {
+                            if (!options.shouldQueueWhenOffline) {
+                                return throwError(error);
+                            }
+
+                            return concat(
+                                of(
+                                    createAction(
+                                        RequestRetryActionType.RetryQueued,
+                                        { attempt: count },
+                                        { method },
+                                    ),
+                                ),
+                                attempt(count + 1, true),
+                            );
+                        }
+
+                        if (count >= options.maxAttempts) {
+                            return throwError(error);
+                        }
+
+                        const delay = this._getDelay(count, options);
+
+                        return concat(
+                            of(
+                                createAction(
+                                    RequestRetryActionType.RetryScheduled,
+                                    { attempt: count, delay },
+                                    { method },
+                                ),
+                            ),
+                            this._wait(delay, error, timeout),
+                            of(
+                                createAction(
+                                    RequestRetryActionType.RetryAttempted,
+                                    { attempt: count + 1 },
+                                    { method },
+                                ),
+                            ),
+                            attempt(count + 1),
+                        );
+                    }),
+                );
+
+            return concat(
+                attempt(1),
+                of(createAction(RequestRetryActionType.RetryFinished, undefined, { method })),
+            ).pipe(
+                catchError((error) =>
+                    concat(
+                        of(
+                            createAction(RequestRetryActionType.RetryFinished, undefined, {
+                                method,
+                            }),
+                        ),
+                        throwError(error),
+                    ),
+                ),
+            );
+        };
+    }
+
+    private _isRetryable(method: RetryableMethod, error: unknown): boolean {
+        const status = getResponseStatus(error);
+
+        if (status === undefined || RETRYABLE_STATUSES.indexOf(status) === -1) {
+            return false;
+        }
+
+        const isIdempotent =
+            this._options?.idempotentMethods?.[method] ?? DEFAULT_IDEMPOTENT_METHODS[method];
+
+        // A request that fails while the device is offline never reaches the
+        // server, therefore it is safe to send it again even if it is not
+        // idempotent.
+        return isIdempotent || (status === 0 && !this._connectivityQueue.isOnline());
+    }
+
+    private _getDelay(
+        attempt: number,
+        { initialDelay, maxDelay, backoffFactor, jitter }: typeof DEFAULT_OPTIONS,
+    ): number {
+        const delay = Math.min(maxDelay, initialDelay * Math.pow(backoffFactor, attempt - 1));
+        const spread = Math.min(Math.max(jitter, 0), 1);
+
+        return Math.round(delay * (1 - spread * Math.random()));
+    }
+
+    private _wait(delay: number, error: unknown, timeout?: Timeout): Observable<never> {
+        return new Observable<never>((subscriber) => {
+            const timer = setTimeout(() => subscriber.complete(), delay);
+
+            if (timeout) {
+                timeout.onComplete(() => {
+                    clearTimeout(timer);
+                    subscriber.error(error);
+                });
+            }
+
+            return () => clearTimeout(timer);
+        });
+    }
+}
+
+function isErrorAction(error: unknown): error is Action {
+    return typeof error === 'object' && error !== null && (error as Action).error === true;
+}
+
+function hasStatus(response: unknown): response is { status: number } {
+    return (
+        typeof response === 'object' &&
+        response !== null &&
+        typeof (response as { status?: unknown }).status === 'number'
+    );
+}
+
+function getResponseStatus(error: unknown): number | undefined {
+    const payload: unknown = isErrorAction(error) ? error.payload : error;
+
+    if (hasStatus(payload)) {
+        return payload.status;
+    }
+}
@@ -0,0 +1,37 @@
+import { Action } from '@bigcommerce/data-store';
+
+import RetryableMethod from './retryable-method';
+
+export enum RequestRetryActionType {
+    RetryScheduled = 'REQUEST_RETRY_SCHEDULED',
+    RetryQueued = 'REQUEST_RETRY_QUEUED',
+    RetryAttempted = 'REQUEST_RETRY_ATTEMPTED',
+    RetryFinished = 'REQUEST_RETRY_FINISHED',
+}
+
+export type RequestRetryAction =
+    | RequestRetryScheduledAction
+    | RequestRetryQueuedAction
+    | RequestRetryAttemptedAction
+    | RequestRetryFinishedAction;
+
+export interface RequestRetryScheduledAction
+    extends Action<{ attempt: number; delay: number }, RequestRetryMeta> {
+    type: RequestRetryActionType.RetryScheduled;
+}
+
+export interface RequestRetryQueuedAction extends Action<{ attempt: number }, RequestRetryMeta> {
+    type: RequestRetryActionType.RetryQueued;
+}
+
+export interface RequestRetryAttemptedAction extends Action<{ attempt: number }, RequestRetryMeta> {
+    type: RequestRetryActionType.RetryAttempted;
+}
+
+export interface RequestRetryFinishedAction extends Action<undefined, RequestRetryMeta> {
+    type: RequestRetryActionType.RetryFinished;
+}
+
+export interface RequestRetryMeta {
+    method: RetryableMethod;
+}
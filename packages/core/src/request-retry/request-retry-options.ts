@@ -0,0 +1,52 @@
+import RetryableMethod from './retryable-method';
+
+/**
+ * A set of options for retrying checkout mutations that fail because of a
+ * network issue.
+ */
+export default interface RequestRetryOptions {
+    /**
+     * The maximum number of attempts made for a mutation, including the first
+     * one. The default value is 3.
+     */
+    maxAttempts?: number;
+
+    /**
+     * The delay in milliseconds before the first retry. The default value is
+     * 500.
+     */
+    initialDelay?: number;
+
+    /**
+     * The maximum delay in milliseconds between two attempts. The default
+     * value is 10000.
+     */
+    maxDelay?: number;
+
+    /**
+     * The factor by which the delay grows after each attempt. The default
+     * value is 2.
+     */
+    backoffFactor?: number;
+
+    /**
+     * The fraction of the delay, between 0 and 1, that is randomised in order
+     * to spread out retries from different clients. The default value is 0.5.
+     */
+    jitter?: number;
+
+    /**
+     * Overrides whether a mutation is safe to be sent more than once. Only
+     * idempotent mutations are retried when a request fails after reaching the
+     * server. Mutations that are not idempotent are only replayed if the
+     * request failed while the device was offline.
+     */
+    idempotentMethods?: { [key in RetryableMethod]?: boolean };
+
+    /**
+     * Whether mutations that fail while the device is offline should be queued
+     * and replayed in order once connectivity returns. The default value is
+     * true.
+     */
+    shouldQueueWhenOffline?: boolean;
+}
@@ -0,0 +1,79 @@
+import { createAction } from '@bigcommerce/data-store';
+
+import { RequestRetryActionType } from './request-retry-actions';
+import requestRetryReducer from './request-retry-reducer';
+import RequestRetryState, { DEFAULT_STATE } from './request-retry-state';
+
+describe('requestRetryReducer()', () => {
+    let initialState: RequestRetryState;
+
+    beforeEach(() => {
+        initialState = DEFAULT_STATE;
+    });
+
+    it('returns retrying status when retry is scheduled', () => {
+        const action = createAction(
+            RequestRetryActionType.RetryScheduled,
+            { attempt: 1, delay: 500 },
+            { method: 'updateBillingAddress' as const },
+        );
+
+        expect(requestRetryReducer(initialState, action)).toEqual({
+            data: { updateBillingAddress: { attempt: 1, delay: 500, isQueued: false } },
+            statuses: { updateBillingAddress: true },
+        });
+    });
+
+    it('returns queued state when retry is queued', () => {
+        const action = createAction(
+            RequestRetryActionType.RetryQueued,
+            { attempt: 1 },
+            { method: 'applyCoupon' as const },
+        );
+
+        expect(requestRetryReducer(initialState, action)).toEqual({
+            data: { applyCoupon: { attempt: 1, isQueued: true } },
+            statuses: { applyCoupon: true },
+        });
+    });
+
+    it('returns non-retrying status and current attempt when retry is attempted', () => {
+        const state = requestRetryReducer(
+            initialState,
+            createAction(
+                RequestRetryActionType.RetryScheduled,
+                { attempt: 1, delay: 500 },
+                { method: 'updateBillingAddress' as const },
+            ),
+        );
+        const action = createAction(
+            RequestRetryActionType.RetryAttempted,
+            { attempt: 2 },
+            { method: 'updateBillingAddress' as const },
+        );
+
+        expect(requestRetryReducer(state, action)).toEqual({
+            data: { updateBillingAddress: { attempt: 2, isQueued: false } },
+            statuses: { updateBillingAddress: false },
+        });
+    });
+
+    it('clears retry data when retry is finished', () => {
+        const state = requestRetryReducer(
+            initialState,
+            createAction(
+                RequestRetryActionType.RetryScheduled,
+                { attempt: 1, delay: 500 },
+                { method: 'updateBillingAddress' as const },
+            ),
+        );
+        const action = createAction(RequestRetryActionType.RetryFinished, undefined, {
+            method: 'updateBillingAddress' as const,
+        });
+
+        expect(requestRetryReducer(state, action)).toEqual({
+            data: {},
+            statuses: { updateBillingAddress: false },
+        });
+    });
+});
@@ -0,0 +1,79 @@
+import { combineReducers } from '@bigcommerce/data-store';
+import { omit } from 'lodash';
+
+import { objectSet } from '../common/utility';
+
+import { RequestRetryAction, RequestRetryActionType } from './request-retry-actions';
+import RequestRetryState, {
+    DEFAULT_STATE,
+    RequestRetryDataState,
+    RequestRetryStatusesState,
+} from './request-retry-state';
+
+export default function requestRetryReducer(
+    state: RequestRetryState = DEFAULT_STATE,
+    action: RequestRetryAction,
+): RequestRetryState {
+    const reducer = combineReducers<RequestRetryState, RequestRetryAction>({
+        data: dataReducer,
+        statuses: statusesReducer,
+    });
+
+    return reducer(state, action);
+}
+
+function dataReducer(
+    data: RequestRetryDataState = DEFAULT_STATE.data,
+    action: RequestRetryAction,
+): RequestRetryDataState {
+    switch (action.type) {
+        case RequestRetryActionType.RetryScheduled:
+            return action.meta
+                ? objectSet(data, action.meta.method, {
+                      attempt: action.payload?.attempt ?? 0,
+                      delay: action.payload?.delay,
+                      isQueued: false,
+                  })
+                : data;
+
+        case RequestRetryActionType.RetryQueued:
+            return action.meta
+                ? objectSet(data, action.meta.method, {
+                      attempt: action.payload?.attempt ?? 0,
+                      isQueued: true,
+                  })
+                : data;
+
+        case RequestRetryActionType.RetryAttempted:
+            return action.meta
+                ? objectSet(data, action.meta.method, {
+                      attempt: action.payload?.attempt ?? 0,
+                      isQueued: false,
+                  })
+                : data;
+
+        case RequestRetryActionType.RetryFinished:
+            return action.meta && data[action.meta.method] ? omit(data, action.meta.method) : data;
+
+        default:
+            return data;
+    }
+}
+
+function statusesReducer(
+    statuses: RequestRetryStatusesState = DEFAULT_STATE.statuses,
+    action: RequestRetryAction,
+): RequestRetryStatusesState {
+    switch (action.type) {
+        case RequestRetryActionType.RetryScheduled:
+        case RequestRetryActionType.RetryQueued:
+            return action.meta ? objectSet(statuses, action.meta.method, true) : statuses;
+
+        case RequestRetryActionType.RetryAttempted:
+        case RequestRetryActionType.RetryFinished:
+            return action.meta ? objectSet(statuses, action.meta.method, false) : statuses;
+
+        default:
+            return statuses;
+    }
+}
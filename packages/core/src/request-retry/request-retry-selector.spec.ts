@@ -0,0 +1,67 @@
+import RequestRetrySelector, {
+    createRequestRetrySelectorFactory,
+    RequestRetrySelectorFactory,
+} from './request-retry-selector';
+import RequestRetryState, { DEFAULT_STATE } from './request-retry-state';
+
+describe('RequestRetrySelector', () => {
+    let createRequestRetrySelector: RequestRetrySelectorFactory;
+    let selector: RequestRetrySelector;
+    let state: RequestRetryState;
+
+    beforeEach(() => {
+        createRequestRetrySelector = createRequestRetrySelectorFactory();
+        state = {
+            data: {
+                applyCoupon: { attempt: 1, isQueued: true },
+                updateBillingAddress: { attempt: 2, delay: 1000, isQueued: false },
+            },
+            statuses: {
+                applyCoupon: true,
+                updateBillingAddress: true,
+                updateCheckout: false,
+            },
+        };
+    });
+
+    describe('#getAttempt()', () => {
+        it('returns current attempt of mutation', () => {
+            selector = createRequestRetrySelector(state);
+
+            expect(selector.getAttempt('updateBillingAddress')).toBe(2);
+            expect(selector.getAttempt('updateCheckout')).toBeUndefined();
+        });
+    });
+
+    describe('#isQueued()', () => {
+        it('returns true if mutation is waiting for connectivity', () => {
+            selector = createRequestRetrySelector(state);
+
+            expect(selector.isQueued('applyCoupon')).toBe(true);
+            expect(selector.isQueued('updateBillingAddress')).toBe(false);
+            expect(selector.isQueued()).toBe(true);
+        });
+
+        it('returns false if no mutation is waiting for connectivity', () => {
+            selector = createRequestRetrySelector(DEFAULT_STATE);
+
+            expect(selector.isQueued()).toBe(false);
+        });
+    });
+
+    describe('#isRetrying()', () => {
+        it('returns true if mutation is waiting to be retried', () => {
+            selector = createRequestRetrySelector(state);
+
+            expect(selector.isRetrying('updateBillingAddress')).toBe(true);
+            expect(selector.isRetrying('updateCheckout')).toBe(false);
+            expect(selector.isRetrying()).toBe(true);
+        });
+
+        it('returns false if no mutation is waiting to be retried', () => {
+            selector = createRequestRetrySelector(DEFAULT_STATE);
+
+            expect(selector.isRetrying()).toBe(false);
+        });
+    });
+});
@@ -0,0 +1,52 @@
+import { memoizeOne } from '@bigcommerce/memoize';
+import { some } from 'lodash';
+
+import { createSelector } from '../common/selector';
+
+import RequestRetryState, { DEFAULT_STATE } from './request-retry-state';
+import RetryableMethod from './retryable-method';
+
+export default interface RequestRetrySelector {
+    getAttempt(method: RetryableMethod): number | undefined;
+    isQueued(method?: RetryableMethod): boolean;
+    isRetrying(method?: RetryableMethod): boolean;
+}
+
+export type RequestRetrySelectorFactory = (state: RequestRetryState) => RequestRetrySelector;
+
+export function createRequestRetrySelectorFactory(): RequestRetrySelectorFactory {
+    const getAttempt = createSelector(
+        (state: RequestRetryState) => state.data,
+        (data) => (method: RetryableMethod) => data[method]?.attempt,
+    );
+
+    const isQueued = createSelector(
+        (state: RequestRetryState) => state.data,
+        (data) => (method?: RetryableMethod) => {
+            if (method) {
+                return !!data[method]?.isQueued;
+            }
+
+            return some(data, (retry) => !!retry?.isQueued);
+        },
+    );
+
+    const isRetrying = createSelector(
+        (state: RequestRetryState) => state.statuses,
+        (statuses) => (method?: RetryableMethod) => {
+            if (method) {
+                return !!statuses[method];
+            }
+
+            return some(statuses, (status) => !!status);
+        },
+    );
+
+    return memoizeOne((state: RequestRetryState = DEFAULT_STATE): RequestRetrySelector => {
+        return {
+            getAttempt: getAttempt(state),
+            isQueued: isQueued(state),
+            isRetrying: isRetrying(state),
+        };
+    });
+}
@@ -0,0 +1,23 @@
+import RetryableMethod from './retryable-method';
+
+export default interface RequestRetryState {
+    data: RequestRetryDataState;
+    statuses: RequestRetryStatusesState;
+}
+
+export type RequestRetryDataState = {
+    [key in RetryableMethod]?: {
+        attempt: number;
+        delay?: number;
+        isQueued: boolean;
+    };
+};
+
+export type RequestRetryStatusesState = {
+    [key in RetryableMethod]?: boolean;
+};
+
+export const DEFAULT_STATE: RequestRetryState = {
+    data: {},
+    statuses: {},
+};
@@ -0,0 +1,43 @@
+/**
+ * The `CheckoutService` mutations that can be retried automatically.
+ */
+type RetryableMethod =
+    | 'applyCoupon'
+    | 'applyGiftCertificate'
+    | 'applyStoreCredit'
+    | 'assignItemsToAddress'
+    | 'createConsignments'
+    | 'deleteConsignment'
+    | 'planConsignments'
+    | 'removeCoupon'
+    | 'removeGiftCertificate'
+    | 'selectConsignmentShippingOption'
+    | 'selectShippingOption'
+    | 'unassignItemsToAddress'
+    | 'updateBillingAddress'
+    | 'updateCheckout'
+    | 'updateConsignment'
+    | 'updateShippingAddress'
+    | 'updateSubscriptions';
+
+export default RetryableMethod;
+
+export const DEFAULT_IDEMPOTENT_METHODS: { [key in RetryableMethod]: boolean } = {
+    applyCoupon: false,
+    applyGiftCertificate: false,
+    applyStoreCredit: true,
+    assignItemsToAddress: false,
+    createConsignments: false,
+    deleteConsignment: false,
+    planConsignments: false,
+    removeCoupon: false,
+    removeGiftCertificate: false,
+    selectConsignmentShippingOption: true,
+    selectShippingOption: true,
+    unassignItemsToAddress: false,
+    updateBillingAddress: true,
+    updateCheckout: true,
+    updateConsignment: true,
+    updateShippingAddress: true,
+    updateSubscriptions: true,
+};
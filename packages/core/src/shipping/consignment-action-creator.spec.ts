@@ -4,8 +4,9 @@ import { omit } from 'lodash';
 import { from, of } from 'rxjs';
 import { catchError, toArray } from 'rxjs/operators';
 
-import { Address } from '../address';
+import { Address, InvalidAddressError } from '../address';
 import { getCart } from '../cart/carts.mock';
+import { getPhysicalItem } from '../cart/line-items.mock';
 import {
     Checkout,
     CheckoutRequestSender,
@@ -14,7 +15,11 @@ import {
     createCheckoutStore,
 } from '../checkout';
 import { getCheckout, getCheckoutState, getCheckoutStoreState } from '../checkout/checkouts.mock';
-import { InvalidArgumentError, MissingDataError } from '../common/error/errors';
+import {
+    InvalidArgumentError,
+    MissingDataError,
+    OptimisticUpdateRejectedError,
+} from '../common/error/errors';
 import { getErrorResponse, getResponse } from '../common/http-request/responses.mock';
 import { getConfigState } from '../config/configs.mock';
 
@@ -230,6 +235,119 @@ describe('consignmentActionCreator', () => {
                 options,
             );
         });
+
+        it('sends request with normalized addresses if validation is requested', async () => {
+            await from(
+                consignmentActionCreator.createConsignments(
+                    [
+                        {
+                            address: {
+                                ...getShippingAddress(),
+                                countryCode: 'au',
+                                stateOrProvince: ' new south wales ',
+                                stateOrProvinceCode: '',
+                                postalCode: '2000 ',
+                            },
+                            lineItems: [],
+                        },
+                    ],
+                    { ...options, shouldValidateAddress: true },
+                )(store),
+            ).toPromise();
+
+            expect(consignmentRequestSender.createConsignments).toHaveBeenCalledWith(
+                'b20deef40f9699e48671bbc3fef6ca44dc80e3c7',
+                [
+                    {
+                        address: {
+                            ...getShippingAddress(),
+                            countryCode: 'AU',
+                            stateOrProvince: 'New South Wales',
+                            stateOrProvinceCode: 'NSW',
+                            postalCode: '2000',
+                        },
+                        lineItems: [],
+                    },
+                ],
+                { ...options, shouldValidateAddress: true },
+            );
+        });
+
+        it('sends request with unchanged addresses unless validation is requested', async () => {
+            const payload = [
+                {
+                    address: {
+                        ...getShippingAddress(),
+                        countryCode: 'au',
+                        stateOrProvince: ' new south wales ',
+                        stateOrProvinceCode: '',
+                        postalCode: '2000 ',
+                    },
+                    lineItems: [],
+                },
+            ];
+
+            await from(
+                consignmentActionCreator.createConsignments(payload, options)(store),
+            ).toPromise();
+
+            expect(consignmentRequestSender.createConsignments).toHaveBeenCalledWith(
+                'b20deef40f9699e48671bbc3fef6ca44dc80e3c7',
+                payload,
+                options,
+            );
+        });
+
+        it('throws error without sending request if address does not match its country', async () => {
+            const errorHandler = jest.fn((action) => of(action));
+
+            await from(
+                consignmentActionCreator.createConsignments(
+                    [
+                        {
+                            address: {
+                                ...getShippingAddress(),
+                                countryCode: 'AU',
+                                stateOrProvince: 'Victoria',
+                                postalCode: '20000',
+                            },
+                            lineItems: [],
+                        },
+                    ],
+                    { ...options, shouldValidateAddress: true },
+                )(store),
+            )
+                .pipe(catchError(errorHandler), toArray())
+                .toPromise();
+
+            expect(errorHandler.mock.calls[0][0]).toBeInstanceOf(InvalidAddressError);
+            expect(errorHandler.mock.calls[0][0].mismatches).toEqual([
+                { field: 'postalCode', code: 'invalid_postal_code', countryCode: 'AU' },
+                { field: 'stateOrProvince', code: 'unknown_region', countryCode: 'AU' },
+            ]);
+            expect(consignmentRequestSender.createConsignments).not.toHaveBeenCalled();
+        });
+
+        it('does not check address against its country unless validation is requested', async () => {
+            await from(
+                consignmentActionCreator.createConsignments(
+                    [
+                        {
+                            address: {
+                                ...getShippingAddress(),
+                                countryCode: 'AU',
+                                stateOrProvince: 'Victoria',
+                                postalCode: '20000',
+                            },
+                            lineItems: [],
+                        },
+                    ],
+                    options,
+                )(store),
+            ).toPromise();
+
+            expect(consignmentRequestSender.createConsignments).toHaveBeenCalled();
+        });
     });
 
     describe('#unassignItemsByAddress()', () => {
@@ -707,6 +825,121 @@ describe('consignmentActionCreator', () => {
         });
     });
 
+    describe('#planConsignments()', () => {
+        const officeAddress = { ...getShippingAddress(), address1: '1 Office Way' };
+
+        it('runs operations required to match allocation and reports progress', async () => {
+            const onProgress = jest.fn();
+
+            store = createCheckoutStore({
+                ...state,
+                consignments: { ...getConsignmentsState(), data: [consignment] },
+            });
+
+            const actions = await from(
+                consignmentActionCreator.planConsignments(
+                    [{ address: officeAddress, lineItems: [{ itemId: '666', quantity: 1 }] }],
+                    { ...options, onProgress },
+                )(store),
+            )
+                .pipe(toArray())
+                .toPromise();
+
+            expect(actions.map(({ type }) => type)).toEqual([
+                ConsignmentActionType.DeleteConsignmentRequested,
+                ConsignmentActionType.DeleteConsignmentSucceeded,
+                ConsignmentActionType.CreateConsignmentsRequested,
+                ConsignmentActionType.CreateConsignmentsSucceeded,
+            ]);
+            expect(consignmentRequestSender.deleteConsignment).toHaveBeenCalledWith(
+                getCheckout().id,
+                consignment.id,
+                options,
+            );
+            expect(consignmentRequestSender.createConsignments).toHaveBeenCalledWith(
+                getCheckout().id,
+                [{ address: officeAddress, lineItems: [{ itemId: '666', quantity: 1 }] }],
+                options,
+            );
+            expect(onProgress).toHaveBeenCalledTimes(2);
+            expect(onProgress).toHaveBeenLastCalledWith({
+                operation: expect.objectContaining({ type: 'create' }),
+                completed: 2,
+                total: 2,
+            });
+        });
+
+        it('moves line items between existing consignments without overallocating them', async () => {
+            store = createCheckoutStore({
+                ...state,
+                consignments: {
+                    ...getConsignmentsState(),
+                    data: [
+                        {
+                            ...consignment,
+                            id: 'consignment-2',
+                            shippingAddress: { ...consignment.shippingAddress, ...officeAddress },
+                            lineItemIds: ['777'],
+                        },
+                        { ...consignment, lineItemIds: ['666'] },
+                    ],
+                },
+            });
+
+            jest.spyOn(store.getState().cart, 'getCart').mockReturnValue({
+                ...getCart(),
+                lineItems: {
+                    ...getCart().lineItems,
+                    physicalItems: [
+                        { ...getPhysicalItem(), quantity: 2 },
+                        { ...getPhysicalItem(), id: '777' },
+                    ],
+                },
+            });
+
+            await from(
+                consignmentActionCreator.planConsignments(
+                    [
+                        {
+                            address: consignment.shippingAddress,
+                            lineItems: [{ itemId: '666', quantity: 1 }],
+                        },
+                        {
+                            address: officeAddress,
+                            lineItems: [
+                                { itemId: '777', quantity: 1 },
+                                { itemId: '666', quantity: 1 },
+                            ],
+                        },
+                    ],
+                    options,
+                )(store),
+            ).toPromise();
+
+            expect(
+                (consignmentRequestSender.updateConsignment as jest.Mock).mock.calls.map(
+                    ([, { id }]) => id,
+                ),
+            ).toEqual([consignment.id, 'consignment-2']);
+        });
+
+        it('throws error without sending request if allocation is invalid', async () => {
+            const errorHandler = jest.fn((action) => of(action));
+
+            await from(
+                consignmentActionCreator.planConsignments([
+                    { address: officeAddress, lineItems: [{ itemId: '666', quantity: 2 }] },
+                ])(store),
+            )
+                .pipe(catchError(errorHandler), toArray())
+                .toPromise();
+
+            expect(errorHandler.mock.calls[0][0]).toBeInstanceOf(InvalidArgumentError);
+            expect(consignmentRequestSender.deleteConsignment).not.toHaveBeenCalled();
+            expect(consignmentRequestSender.createConsignments).not.toHaveBeenCalled();
+        });
+    });
+
     describe('#deleteConsignment()', () => {
         let thunkAction: ThunkAction<DeleteConsignmentAction>;
 
@@ -1022,6 +1255,82 @@ describe('consignmentActionCreator', () => {
         });
     });
 
+    describe('#updateShippingOption() with optimistic updates', () => {
+        let payload: ConsignmentShippingOptionRequestBody;
+
+        beforeEach(() => {
+            payload = { id: consignment.id, shippingOptionId: 'bar' };
+
+            consignmentActionCreator = new ConsignmentActionCreator(
+                consignmentRequestSender,
+                checkoutRequestSender,
+                true,
+            );
+        });
+
+        it('emits actions with previously selected shipping option', async () => {
+            const actions = await from(
+                consignmentActionCreator.updateShippingOption(payload, options)(store),
+            )
+                .pipe(toArray())
+                .toPromise();
+
+            expect(actions[0]).toEqual({
+                type: ConsignmentActionType.UpdateShippingOptionRequested,
+                payload: undefined,
+                meta: {
+                    id: consignment.id,
+                    optimisticUpdate: {
+                        shippingOptionId: 'bar',
+                        previousShippingOption: getShippingOption(),
+                    },
+                },
+            });
+        });
+
+        it('emits dedicated error if server rejects optimistic update', async () => {
+            jest.spyOn(consignmentRequestSender, 'updateConsignment').mockRejectedValue(
+                errorResponse,
+            );
+
+            const errorHandler = jest.fn((action) => of(action));
+            const actions = await from(
+                consignmentActionCreator.updateShippingOption(payload, options)(store),
+            )
+                .pipe(catchError(errorHandler), toArray())
+                .toPromise();
+
+            expect(actions[1]).toEqual(
+                expect.objectContaining({
+                    type: ConsignmentActionType.UpdateShippingOptionFailed,
+                    payload: expect.any(OptimisticUpdateRejectedError),
+                    error: true,
+                }),
+            );
+        });
+
+        it('sends request again if it is retried after shipping option is predicted', async () => {
+            const thunkAction = consignmentActionCreator.updateShippingOption(
+                { id: consignment.id, shippingOptionId: getShippingOption().id },
+                options,
+            );
+            const consignmentWithoutOption = {
+                ...getConsignment(),
+                selectedShippingOption: undefined,
+            };
+
+            store = createCheckoutStore({
+                ...state,
+                consignments: { ...getConsignmentsState(), data: [consignmentWithoutOption] },
+            });
+
+            await store.dispatch(thunkAction);
+            await store.dispatch(thunkAction);
+
+            expect(consignmentRequestSender.updateConsignment).toHaveBeenCalledTimes(2);
+        });
+    });
+
     describe('#selectShippingOption()', () => {
         const shippingOptionId = 'foo';
 
@@ -1,8 +1,15 @@
 import { createAction, createErrorAction, ThunkAction } from '@bigcommerce/data-store';
 import { find } from 'lodash';
-import { Observable, Observer } from 'rxjs';
+import { concat, defer, Observable, Observer } from 'rxjs';
+import { tap } from 'rxjs/operators';
 
-import { AddressRequestBody } from '../address';
+import {
+    AddressMismatch,
+    AddressRequestBody,
+    getAddressMismatches,
+    InvalidAddressError,
+    normalizeAddress,
+} from '../address';
 import { Cart } from '../cart';
 import {
     CheckoutIncludes,
@@ -15,8 +22,10 @@ import {
     InvalidArgumentError,
     MissingDataError,
     MissingDataErrorType,
+    OptimisticUpdateRejectedError,
 } from '../common/error/errors';
 import { RequestOptions } from '../common/http-request';
+import { Country } from '../geography';
 
 import Consignment, {
     ConsignmentAssignmentBaseRequestBodyWithAddress,
@@ -25,6 +34,7 @@ import Consignment, {
     ConsignmentCreateRequestBody,
     ConsignmentLineItem,
     ConsignmentRequestBody,
+    ConsignmentShippingOptionMeta,
     ConsignmentShippingOptionRequestBody,
     ConsignmentsRequestBody,
     ConsignmentUpdateRequestBody,
@@ -37,12 +47,21 @@ import {
     UpdateConsignmentAction,
     UpdateShippingOptionAction,
 } from './consignment-actions';
+import {
+    ConsignmentAllocation,
+    ConsignmentPlanOperation,
+    ConsignmentPlanOptions,
+} from './consignment-plan';
 import ConsignmentRequestSender from './consignment-request-sender';
+import createConsignmentPlan from './create-consignment-plan';
+import ShippingOption from './shipping-option';
+import { ConsignmentsRequestOptions } from './shipping-request-options';
 
 export default class ConsignmentActionCreator {
     constructor(
         private _consignmentRequestSender: ConsignmentRequestSender,
         private _checkoutRequestSender: CheckoutRequestSender,
+        private _shouldUseOptimisticUpdates = false,
     ) {}
 
     unassignItemsByAddress(
@@ -114,10 +133,52 @@ export default class ConsignmentActionCreator {
         };
     }
 
+    planConsignments(
+        allocations: ConsignmentAllocation[],
+        options: ConsignmentPlanOptions = {},
+    ): ThunkAction<
+        CreateConsignmentsAction | DeleteConsignmentAction | UpdateConsignmentAction,
+        InternalCheckoutSelectors
+    > {
+        return (store) =>
+            defer(() => {
+                const state = store.getState();
+                const cart = state.cart.getCart();
+
+                if (!cart) {
+                    throw new MissingDataError(MissingDataErrorType.MissingCart);
+                }
+
+                const { onProgress, ...requestOptions } = options;
+                const operations = createConsignmentPlan(
+                    allocations,
+                    state.consignments.getConsignments() || [],
+                    cart,
+                );
+
+                return concat(
+                    ...operations.map((operation, index) =>
+                        defer(() => this._runPlanOperation(operation, requestOptions)(store)).pipe(
+                            tap({
+                                complete: () =>
+                                    onProgress?.({
+                                        operation,
+                                        completed: index + 1,
+                                        total: operations.length,
+                                    }),
+                            }),
+                        ),
+                    ),
+                );
+            });
+    }
+
     selectShippingOption(
         id: string,
         options?: RequestOptions,
     ): ThunkAction<UpdateShippingOptionAction, InternalCheckoutSelectors> {
+        let consignmentMeta: ConsignmentShippingOptionMeta | undefined;
+
         return (store) =>
             Observable.create((observer: Observer<UpdateShippingOptionAction>) => {
                 const state = store.getState();
@@ -137,15 +198,24 @@ export default class ConsignmentActionCreator {
                     shippingOptionId: id,
                 };
 
-                const consignmentMeta = {
-                    id: consignments[0].id,
-                };
+                // The thunk is invoked again if the request is retried. By then
+                // the selected shipping option could have been predicted
+                // already, therefore the meta of the first attempt is reused.
+                consignmentMeta =
+                    consignmentMeta ||
+                    this._createShippingOptionMeta(
+                        consignments[0].id,
+                        id,
+                        consignments[0].selectedShippingOption,
+                    );
+
+                const meta = consignmentMeta;
 
                 observer.next(
                     createAction(
                         ConsignmentActionType.UpdateShippingOptionRequested,
                         undefined,
-                        consignmentMeta,
+                        meta,
                     ),
                 );
 
@@ -156,7 +226,7 @@ export default class ConsignmentActionCreator {
                             createAction(
                                 ConsignmentActionType.UpdateShippingOptionSucceeded,
                                 body,
-                                consignmentMeta,
+                                meta,
                             ),
                         );
 
@@ -166,8 +236,10 @@ export default class ConsignmentActionCreator {
                         observer.error(
                             createErrorAction(
                                 ConsignmentActionType.UpdateShippingOptionFailed,
-                                response,
-                                consignmentMeta,
+                                meta.optimisticUpdate
+                                    ? new OptimisticUpdateRejectedError(response)
+                                    : response,
+                                meta,
                             ),
                         );
                     });
@@ -229,20 +301,27 @@ export default class ConsignmentActionCreator {
 
     createConsignments(
         consignments: ConsignmentsRequestBody,
-        options?: RequestOptions<CheckoutParams>,
+        options?: ConsignmentsRequestOptions,
     ): ThunkAction<CreateConsignmentsAction, InternalCheckoutSelectors> {
         return (store) =>
             Observable.create((observer: Observer<CreateConsignmentsAction>) => {
-                const checkout = store.getState().checkout.getCheckout();
+                const state = store.getState();
+                const checkout = state.checkout.getCheckout();
 
                 if (!checkout || !checkout.id) {
                     throw new MissingDataError(MissingDataErrorType.MissingCheckout);
                 }
 
+                const normalizedConsignments = this._normalizeConsignmentAddresses(
+                    consignments,
+                    state.shippingCountries.getShippingCountries(),
+                    options?.shouldValidateAddress,
+                );
+
                 observer.next(createAction(ConsignmentActionType.CreateConsignmentsRequested));
 
                 this._consignmentRequestSender
-                    .createConsignments(checkout.id, consignments, options)
+                    .createConsignments(checkout.id, normalizedConsignments, options)
                     .then(({ body }) => {
                         observer.next(
                             createAction(ConsignmentActionType.CreateConsignmentsSucceeded, body),
@@ -355,6 +434,8 @@ export default class ConsignmentActionCreator {
         consignment: ConsignmentShippingOptionRequestBody,
         options?: RequestOptions,
     ): ThunkAction<UpdateShippingOptionAction, InternalCheckoutSelectors> {
+        let consignmentMeta: ConsignmentShippingOptionMeta | undefined;
+
         return (store) =>
             Observable.create((observer: Observer<UpdateShippingOptionAction>) => {
                 const checkout = store.getState().checkout.getCheckout();
@@ -363,7 +444,12 @@ export default class ConsignmentActionCreator {
                     .getState()
                     .consignments.getConsignmentById(consignment.id);
 
-                const alreadySelectedOptionId = consignmentInMemory?.selectedShippingOption?.id;
+                // If the request is retried after the selected shipping option
+                // has been predicted, it should be compared with the option
+                // that was selected before the prediction instead.
+                const alreadySelectedOptionId = consignmentMeta?.optimisticUpdate
+                    ? consignmentMeta.optimisticUpdate.previousShippingOption?.id
+                    : consignmentInMemory?.selectedShippingOption?.id;
 
                 if (alreadySelectedOptionId === consignment.shippingOptionId) {
                     observer.complete();
@@ -375,13 +461,21 @@ export default class ConsignmentActionCreator {
                     throw new MissingDataError(MissingDataErrorType.MissingCheckout);
                 }
 
-                const consignmentMeta = { id: consignment.id };
+                consignmentMeta =
+                    consignmentMeta ||
+                    this._createShippingOptionMeta(
+                        consignment.id,
+                        consignment.shippingOptionId,
+                        consignmentInMemory?.selectedShippingOption,
+                    );
+
+                const meta = consignmentMeta;
 
                 observer.next(
                     createAction(
                         ConsignmentActionType.UpdateShippingOptionRequested,
                         undefined,
-                        consignmentMeta,
+                        meta,
                     ),
                 );
 
@@ -392,7 +486,7 @@ export default class ConsignmentActionCreator {
                             createAction(
                                 ConsignmentActionType.UpdateShippingOptionSucceeded,
                                 body,
-                                consignmentMeta,
+                                meta,
                             ),
                         );
                         observer.complete();
@@ -401,14 +495,34 @@ export default class ConsignmentActionCreator {
                         observer.error(
                             createErrorAction(
                                 ConsignmentActionType.UpdateShippingOptionFailed,
-                                response,
-                                consignmentMeta,
+                                meta.optimisticUpdate
+                                    ? new OptimisticUpdateRejectedError(response)
+                                    : response,
+                                meta,
                             ),
                         );
                     });
             });
     }
 
+    private _createShippingOptionMeta(
+        id: string,
+        shippingOptionId: string,
+        previousShippingOption?: ShippingOption,
+    ): ConsignmentShippingOptionMeta {
+        if (!this._shouldUseOptimisticUpdates) {
+            return { id };
+        }
+
+        return {
+            id,
+            optimisticUpdate: {
+                shippingOptionId,
+                previousShippingOption,
+            },
+        };
+    }
+
     private _createOrUpdateConsignment(
         consignment: ConsignmentCreateRequestBody | ConsignmentUpdateRequestBody,
         options?: RequestOptions<CheckoutParams>,
@@ -428,6 +542,25 @@ export default class ConsignmentActionCreator {
         };
     }
 
+    private _runPlanOperation(
+        operation: ConsignmentPlanOperation,
+        options?: RequestOptions,
+    ): ThunkAction<
+        CreateConsignmentsAction | DeleteConsignmentAction | UpdateConsignmentAction,
+        InternalCheckoutSelectors
+    > {
+        switch (operation.type) {
+            case 'create':
+                return this.createConsignments(operation.consignments, options);
+
+            case 'update':
+                return this.updateConsignment(operation.consignment, options);
+
+            case 'delete':
+                return this.deleteConsignment(operation.consignmentId, options);
+        }
+    }
+
     private _getUpdateAddressRequestBody(
         address: AddressRequestBody,
         store: ReadableCheckoutStore,
@@ -450,6 +583,44 @@ export default class ConsignmentActionCreator {
         };
     }
 
+    private _normalizeConsignmentAddresses(
+        consignments: ConsignmentsRequestBody,
+        countries?: Country[],
+        shouldValidateAddress?: boolean,
+    ): ConsignmentsRequestBody {
+        if (!shouldValidateAddress) {
+            return consignments;
+        }
+
+        return consignments.map((consignment) => {
+            const { address, shippingAddress } = consignment;
+            const normalizedConsignment = {
+                ...consignment,
+                ...(address && { address: normalizeAddress(address, countries) }),
+                ...(shippingAddress && {
+                    shippingAddress: normalizeAddress(shippingAddress, countries),
+                }),
+            };
+
+            const mismatches = [
+                normalizedConsignment.address,
+                normalizedConsignment.shippingAddress,
+            ].reduce<AddressMismatch[]>(
+                (result, consignmentAddress) =>
+                    consignmentAddress
+                        ? [...result, ...getAddressMismatches(consignmentAddress, countries)]
+                        : result,
+                [],
+            );
+
+            if (mismatches.length) {
+                throw new InvalidAddressError(mismatches);
+            }
+
+            return normalizedConsignment;
+        });
+    }
+
     private _removeLineItems(
         lineItems: ConsignmentLineItem[],
         consignment: Consignment,
@@ -2,7 +2,7 @@ import { Action } from '@bigcommerce/data-store';
 
 import { Checkout } from '../checkout';
 
-import { ConsignmentMeta } from './consignment';
+import { ConsignmentMeta, ConsignmentShippingOptionMeta } from './consignment';
 
 export enum ConsignmentActionType {
     CreateConsignmentsRequested = 'CREATE_CONSIGNMENTS_REQUESTED',
@@ -94,15 +94,18 @@ export interface DeleteConsignmentFailedAction extends Action<Error, Consignment
     type: ConsignmentActionType.DeleteConsignmentFailed;
 }
 
-export interface UpdateShippingOptionRequestedAction extends Action<null, ConsignmentMeta> {
+export interface UpdateShippingOptionRequestedAction
+    extends Action<null, ConsignmentShippingOptionMeta> {
     type: ConsignmentActionType.UpdateShippingOptionRequested;
 }
 
-export interface UpdateShippingOptionSucceededAction extends Action<Checkout, ConsignmentMeta> {
+export interface UpdateShippingOptionSucceededAction
+    extends Action<Checkout, ConsignmentShippingOptionMeta> {
     type: ConsignmentActionType.UpdateShippingOptionSucceeded;
 }
 
-export interface UpdateShippingOptionFailedAction extends Action<Error, ConsignmentMeta> {
+export interface UpdateShippingOptionFailedAction
+    extends Action<Error, ConsignmentShippingOptionMeta> {
     type: ConsignmentActionType.UpdateShippingOptionFailed;
 }
 
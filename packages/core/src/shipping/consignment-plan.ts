@@ -0,0 +1,50 @@
+import { AddressRequestBody } from '../address';
+import { RequestOptions } from '../common/http-request';
+
+import {
+    ConsignmentCreateRequestBody,
+    ConsignmentLineItem,
+    ConsignmentUpdateRequestBody,
+} from './consignment';
+
+/**
+ * The line items, and their quantities, that should be shipped to an address.
+ */
+export interface ConsignmentAllocation {
+    address: AddressRequestBody;
+    lineItems: ConsignmentLineItem[];
+}
+
+export type ConsignmentPlanOperation =
+    | ConsignmentCreateOperation
+    | ConsignmentUpdateOperation
+    | ConsignmentDeleteOperation;
+
+export interface ConsignmentCreateOperation {
+    type: 'create';
+    consignments: ConsignmentCreateRequestBody[];
+}
+
+export interface ConsignmentUpdateOperation {
+    type: 'update';
+    consignment: ConsignmentUpdateRequestBody;
+}
+
+export interface ConsignmentDeleteOperation {
+    type: 'delete';
+    consignmentId: string;
+}
+
+export interface ConsignmentPlanProgress {
+    operation: ConsignmentPlanOperation;
+    completed: number;
+    total: number;
+}
+
+export interface ConsignmentPlanOptions extends RequestOptions {
+    /**
+     * A callback that gets called every time an operation of the plan is
+     * completed.
+     */
+    onProgress?(progress: ConsignmentPlanProgress): void;
+}
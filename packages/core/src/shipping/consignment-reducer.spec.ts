@@ -6,6 +6,8 @@ import { CouponActionType } from '../coupon';
 
 import { ConsignmentActionType } from './consignment-actions';
 import consignmentReducer from './consignment-reducer';
+import { getConsignment } from './consignments.mock';
+import { getShippingOption } from './shipping-options.mock';
 
 import { ConsignmentState } from '.';
 
@@ -263,6 +265,43 @@ describe('consignmentReducer', () => {
         });
     });
 
+    it('predicts selected shipping option when it is updated optimistically', () => {
+        const shippingOption = { ...getShippingOption(), id: 'bar' };
+        const consignment = {
+            ...getConsignment(),
+            availableShippingOptions: [getShippingOption(), shippingOption],
+        };
+        const action = createAction(ConsignmentActionType.UpdateShippingOptionRequested, null, {
+            id: consignment.id,
+            optimisticUpdate: {
+                shippingOptionId: 'bar',
+                previousShippingOption: getShippingOption(),
+            },
+        });
+
+        expect(consignmentReducer({ ...initialState, data: [consignment] }, action).data).toEqual([
+            { ...consignment, selectedShippingOption: shippingOption },
+        ]);
+    });
+
+    it('rolls back selected shipping option if server rejects optimistic update', () => {
+        const consignment = {
+            ...getConsignment(),
+            selectedShippingOption: { ...getShippingOption(), id: 'bar' },
+        };
+        const action = createAction(ConsignmentActionType.UpdateShippingOptionFailed, new Error(), {
+            id: consignment.id,
+            optimisticUpdate: {
+                shippingOptionId: 'bar',
+                previousShippingOption: getShippingOption(),
+            },
+        });
+
+        expect(consignmentReducer({ ...initialState, data: [consignment] }, action).data).toEqual([
+            { ...consignment, selectedShippingOption: getShippingOption() },
+        ]);
+    });
+
     it('returns new data when coupon is applied', () => {
         const action = createAction(CouponActionType.ApplyCouponSucceeded, getCheckout());
 
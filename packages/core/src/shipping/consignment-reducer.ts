@@ -11,13 +11,14 @@ import { arrayReplace, objectMerge, objectSet } from '../common/utility';
 import { CouponAction, CouponActionType } from '../coupon';
 import { CustomerAction, CustomerActionType } from '../customer';
 
-import Consignment from './consignment';
+import Consignment, { ConsignmentShippingOptionMeta } from './consignment';
 import { ConsignmentAction, ConsignmentActionType } from './consignment-actions';
 import ConsignmentState, {
     ConsignmentErrorsState,
     ConsignmentStatusesState,
     DEFAULT_STATE,
 } from './consignment-state';
+import ShippingOption from './shipping-option';
 
 export default function consignmentReducer(
     state: ConsignmentState = DEFAULT_STATE,
@@ -58,11 +59,66 @@ function dataReducer(
         case CheckoutHydrateActionType.HydrateInitialState:
             return arrayReplace(data, action.payload?.checkout?.consignments);
 
+        case ConsignmentActionType.UpdateShippingOptionRequested:
+            if (action.meta?.optimisticUpdate) {
+                return predictShippingOption(data, action.meta);
+            }
+
+            return data;
+
+        case ConsignmentActionType.UpdateShippingOptionFailed:
+            if (action.meta?.optimisticUpdate) {
+                return rollBackShippingOption(data, action.meta);
+            }
+
+            return data;
+
         default:
             return data;
     }
 }
 
+function predictShippingOption(
+    data: Consignment[] | undefined,
+    { id, optimisticUpdate }: ConsignmentShippingOptionMeta,
+): Consignment[] | undefined {
+    return replaceSelectedShippingOption(
+        data,
+        id,
+        (consignment) =>
+            consignment.availableShippingOptions?.find(
+                (option) => option.id === optimisticUpdate?.shippingOptionId,
+            ) || consignment.selectedShippingOption,
+    );
+}
+
+function rollBackShippingOption(
+    data: Consignment[] | undefined,
+    { id, optimisticUpdate }: ConsignmentShippingOptionMeta,
+): Consignment[] | undefined {
+    return replaceSelectedShippingOption(data, id, () => optimisticUpdate?.previousShippingOption);
+}
+
+function replaceSelectedShippingOption(
+    data: Consignment[] | undefined,
+    id: string,
+    getShippingOption: (consignment: Consignment) => ShippingOption | undefined,
+): Consignment[] | undefined {
+    const consignment = data?.find((item) => item.id === id);
+
+    if (!data || !consignment) {
+        return data;
+    }
+
+    const selectedShippingOption = getShippingOption(consignment);
+
+    if (selectedShippingOption === consignment.selectedShippingOption) {
+        return data;
+    }
+
+    return data.map((item) => (item === consignment ? { ...item, selectedShippingOption } : item));
+}
+
 function errorsReducer(
     errors: ConsignmentErrorsState = DEFAULT_STATE.errors,
     action: ConsignmentAction | CheckoutAction,
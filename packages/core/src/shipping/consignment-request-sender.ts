@@ -1,9 +1,10 @@
-import { RequestSender, Response } from '@bigcommerce/request-sender';
+import { Response } from '@bigcommerce/request-sender';
 
 import { EmptyCartError } from '../cart/errors';
 import { Checkout, CheckoutParams } from '../checkout';
 import {
     ContentType,
+    HttpRequestSender,
     joinIncludes,
     joinOrMergeIncludes,
     RequestOptions,
@@ -23,7 +24,7 @@ const DEFAULT_INCLUDES = [
 ];
 
 export default class ConsignmentRequestSender {
-    constructor(private _requestSender: RequestSender) {}
+    constructor(private _requestSender: HttpRequestSender) {}
 
     createConsignments(
         checkoutId: string,
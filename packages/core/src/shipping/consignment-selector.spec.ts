@@ -11,6 +11,7 @@ import ConsignmentSelector, {
 import ConsignmentState from './consignment-state';
 import { getConsignment, getConsignmentsState } from './consignments.mock';
 import { getShippingAddress } from './shipping-addresses.mock';
+import { getShippingOption } from './shipping-options.mock';
 
 describe('ConsignmentSelector', () => {
     const emptyState: ConsignmentState = {
@@ -100,6 +101,97 @@ describe('ConsignmentSelector', () => {
         });
     });
 
+    describe('#getShippingOptionRecommendations()', () => {
+        it('returns recommended shipping options of consignment', () => {
+            selector = createConsignmentSelector(state.consignments, cartSelector);
+
+            expect(selector.getShippingOptionRecommendations('55c96cda6f04c')).toEqual({
+                cheapest: getShippingOption(),
+                fastest: getShippingOption(),
+                recommended: getShippingOption(),
+            });
+        });
+
+        it('returns undefined if consignment is not found', () => {
+            selector = createConsignmentSelector(state.consignments, cartSelector);
+
+            expect(selector.getShippingOptionRecommendations('foobar')).toBeUndefined();
+        });
+    });
+
+    describe('#getShippingOptionByPolicy()', () => {
+        it('returns shipping option of consignment matching policy', () => {
+            const express = {
+                ...getShippingOption(),
+                id: 'express',
+                isRecommended: false,
+                costAfterDiscount: 20,
+                transitTime: '1 day',
+            };
+
+            selector = createConsignmentSelector(
+                {
+                    ...state.consignments,
+                    data: [
+                        {
+                            ...getConsignment(),
+                            availableShippingOptions: [getShippingOption(), express],
+                        },
+                    ],
+                },
+                cartSelector,
+            );
+
+            expect(selector.getShippingOptionByPolicy('55c96cda6f04c', 'fastest')).toEqual(express);
+            expect(selector.getShippingOptionByPolicy('55c96cda6f04c', 'cheapest')).toEqual(
+                getShippingOption(),
+            );
+        });
+    });
+
+    describe('#getShippingCostTotals()', () => {
+        it('returns shipping costs added up across consignments', () => {
+            selector = createConsignmentSelector(
+                {
+                    ...state.consignments,
+                    data: [
+                        {
+                            ...getConsignment(),
+                            shippingCost: 10,
+                            shippingCostBeforeDiscount: 15,
+                            comparisonShippingCost: 15,
+                            handlingCost: 1,
+                        },
+                        {
+                            ...getConsignment(),
+                            id: 'consignment-2',
+                            shippingCost: 20,
+                            shippingCostBeforeDiscount: 20,
+                            comparisonShippingCost: 20,
+                            handlingCost: 2,
+                            availableShippingOptions: [],
+                        },
+                    ],
+                },
+                cartSelector,
+            );
+
+            expect(selector.getShippingCostTotals()).toEqual({
+                shippingCost: 30,
+                shippingCostBeforeDiscount: 35,
+                comparisonShippingCost: 35,
+                handlingCost: 3,
+                cheapestShippingCost: 20,
+            });
+        });
+
+        it('returns undefined if there are no consignments', () => {
+            selector = createConsignmentSelector(emptyState, cartSelector);
+
+            expect(selector.getShippingCostTotals()).toBeUndefined();
+        });
+    });
+
     describe('#getLoadError()', () => {
         it('returns load error', () => {
             const loadError = new Error();
@@ -10,6 +10,13 @@ import { guard } from '../common/utility';
 import Consignment from './consignment';
 import ConsignmentState, { DEFAULT_STATE } from './consignment-state';
 import ShippingOption from './shipping-option';
+import {
+    ConsignmentShippingCostTotals,
+    getShippingOptionByPolicy as getShippingOptionByPolicyFromList,
+    getShippingOptionRecommendations as getShippingOptionRecommendationsFromList,
+    ShippingOptionPolicy,
+    ShippingOptionRecommendations,
+} from './shipping-option-recommendations';
 
 export default interface ConsignmentSelector {
     getConsignments(): Consignment[] | undefined;
@@ -17,6 +24,14 @@ export default interface ConsignmentSelector {
     getConsignmentById(id: string): Consignment | undefined;
     getConsignmentByAddress(address: AddressRequestBody): Consignment | undefined;
     getShippingOption(): ShippingOption | undefined;
+    getShippingOptionRecommendations(
+        consignmentId: string,
+    ): ShippingOptionRecommendations | undefined;
+    getShippingOptionByPolicy(
+        consignmentId: string,
+        policy: ShippingOptionPolicy,
+    ): ShippingOption | undefined;
+    getShippingCostTotals(): ConsignmentShippingCostTotals | undefined;
     getLoadError(): Error | undefined;
     getCreateError(): Error | undefined;
     getLoadShippingOptionsError(): Error | undefined;
@@ -89,6 +104,65 @@ export function createConsignmentSelectorFactory(): ConsignmentSelectorFactory {
         },
     );
 
+    const getShippingOptionRecommendations = createSelector(
+        getConsignmentById,
+        (getConsignmentById) => (consignmentId: string) => {
+            const consignment = getConsignmentById(consignmentId);
+
+            if (!consignment) {
+                return;
+            }
+
+            return getShippingOptionRecommendationsFromList(consignment.availableShippingOptions);
+        },
+    );
+
+    const getShippingOptionByPolicy = createSelector(
+        getConsignmentById,
+        (getConsignmentById) => (consignmentId: string, policy: ShippingOptionPolicy) => {
+            const consignment = getConsignmentById(consignmentId);
+
+            if (!consignment) {
+                return;
+            }
+
+            return getShippingOptionByPolicyFromList(consignment.availableShippingOptions, policy);
+        },
+    );
+
+    const getShippingCostTotals = createSelector(
+        (state: ConsignmentState) => state.data,
+        (consignments) => () => {
+            if (!consignments || !consignments.length) {
+                return;
+            }
+
+            return consignments.reduce<ConsignmentShippingCostTotals>(
+                (totals, consignment) => ({
+                    shippingCost: totals.shippingCost + consignment.shippingCost,
+                    shippingCostBeforeDiscount:
+                        totals.shippingCostBeforeDiscount + consignment.shippingCostBeforeDiscount,
+                    comparisonShippingCost:
+                        totals.comparisonShippingCost + consignment.comparisonShippingCost,
+                    handlingCost: totals.handlingCost + consignment.handlingCost,
+                    cheapestShippingCost:
+                        totals.cheapestShippingCost +
+                        (getShippingOptionByPolicyFromList(
+                            consignment.availableShippingOptions,
+                            'cheapest',
+                        )?.costAfterDiscount ?? consignment.shippingCost),
+                }),
+                {
+                    shippingCost: 0,
+                    shippingCostBeforeDiscount: 0,
+                    comparisonShippingCost: 0,
+                    handlingCost: 0,
+                    cheapestShippingCost: 0,
+                },
+            );
+        },
+    );
+
     const getLoadError = createSelector(
         (state: ConsignmentState) => state.errors.loadError,
         (error) => () => error,
@@ -237,6 +311,9 @@ export function createConsignmentSelectorFactory(): ConsignmentSelectorFactory {
                 getConsignmentById: getConsignmentById(state),
                 getConsignmentByAddress: getConsignmentByAddress(state),
                 getShippingOption: getShippingOption(state),
+                getShippingOptionRecommendations: getShippingOptionRecommendations(state),
+                getShippingOptionByPolicy: getShippingOptionByPolicy(state),
+                getShippingCostTotals: getShippingCostTotals(state),
                 getLoadError: getLoadError(state),
                 getCreateError: getCreateError(state),
                 getLoadShippingOptionsError: getLoadShippingOptionsError(state),
@@ -60,6 +60,13 @@ export interface ConsignmentMeta {
     id: string;
 }
 
+export interface ConsignmentShippingOptionMeta extends ConsignmentMeta {
+    optimisticUpdate?: {
+        shippingOptionId: string;
+        previousShippingOption?: ShippingOption;
+    };
+}
+
 export interface ConsignmentShippingOptionRequestBody {
     id: string;
     shippingOptionId: string;
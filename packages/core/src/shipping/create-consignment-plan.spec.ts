@@ -0,0 +1,215 @@
+import { Cart } from '../cart';
+import { getCart } from '../cart/carts.mock';
+import { getPhysicalItem } from '../cart/line-items.mock';
+import { InvalidArgumentError } from '../common/error/errors';
+
+import Consignment from './consignment';
+import { getConsignment } from './consignments.mock';
+import createConsignmentPlan from './create-consignment-plan';
+import { getShippingAddress } from './shipping-addresses.mock';
+
+describe('createConsignmentPlan()', () => {
+    const homeAddress = getShippingAddress();
+    const officeAddress = { ...getShippingAddress(), address1: '1 Office Way' };
+    let cart: Cart;
+    let consignments: Consignment[];
+
+    beforeEach(() => {
+        cart = {
+            ...getCart(),
+            lineItems: {
+                ...getCart().lineItems,
+                physicalItems: [
+                    { ...getPhysicalItem(), id: 'item-1', quantity: 2 },
+                    { ...getPhysicalItem(), id: 'item-2', quantity: 1 },
+                    { ...getPhysicalItem(), id: 'item-3', addedByPromotion: true },
+                ],
+            },
+        };
+
+        consignments = [
+            {
+                ...getConsignment(),
+                id: 'consignment-1',
+                shippingAddress: homeAddress,
+                lineItemIds: ['item-1', 'item-2'],
+            },
+        ];
+    });
+
+    it('returns no operations if consignments already match allocation', () => {
+        expect(
+            createConsignmentPlan(
+                [
+                    {
+                        address: { ...homeAddress, city: ' Some City ' },
+                        lineItems: [
+                            { itemId: 'item-2', quantity: 1 },
+                            { itemId: 'item-1', quantity: 2 },
+                        ],
+                    },
+                ],
+                consignments,
+                cart,
+            ),
+        ).toEqual([]);
+    });
+
+    it('returns operations to delete, update and create consignments', () => {
+        consignments = [
+            ...consignments,
+            {
+                ...getConsignment(),
+                id: 'consignment-2',
+                shippingAddress: { ...homeAddress, address1: '1 Old Way' },
+                lineItemIds: [],
+            },
+        ];
+
+        expect(
+            createConsignmentPlan(
+                [
+                    { address: homeAddress, lineItems: [{ itemId: 'item-1', quantity: 2 }] },
+                    { address: officeAddress, lineItems: [{ itemId: 'item-2', quantity: 1 }] },
+                ],
+                consignments,
+                cart,
+            ),
+        ).toEqual([
+            { type: 'delete', consignmentId: 'consignment-2' },
+            {
+                type: 'update',
+                consignment: {
+                    id: 'consignment-1',
+                    address: homeAddress,
+                    lineItems: [{ itemId: 'item-1', quantity: 2 }],
+                },
+            },
+            {
+                type: 'create',
+                consignments: [
+                    { address: officeAddress, lineItems: [{ itemId: 'item-2', quantity: 1 }] },
+                ],
+            },
+        ]);
+    });
+
+    it('updates consignments releasing line items before consignments receiving them', () => {
+        consignments = [
+            {
+                ...getConsignment(),
+                id: 'consignment-2',
+                shippingAddress: officeAddress,
+                lineItemIds: ['item-2'],
+            },
+            { ...consignments[0], lineItemIds: ['item-1'] },
+        ];
+
+        expect(
+            createConsignmentPlan(
+                [
+                    { address: homeAddress, lineItems: [{ itemId: 'item-1', quantity: 1 }] },
+                    {
+                        address: officeAddress,
+                        lineItems: [
+                            { itemId: 'item-2', quantity: 1 },
+                            { itemId: 'item-1', quantity: 1 },
+                        ],
+                    },
+                ],
+                consignments,
+                cart,
+            ).map((operation) => operation.type === 'update' && operation.consignment.id),
+        ).toEqual(['consignment-1', 'consignment-2']);
+    });
+
+    it('merges allocations of same address', () => {
+        expect(
+            createConsignmentPlan(
+                [
+                    { address: officeAddress, lineItems: [{ itemId: 'item-1', quantity: 1 }] },
+                    {
+                        address: officeAddress,
+                        lineItems: [
+                            { itemId: 'item-1', quantity: 1 },
+                            { itemId: 'item-2', quantity: 0 },
+                        ],
+                    },
+                ],
+                [],
+                cart,
+            ),
+        ).toEqual([
+            {
+                type: 'create',
+                consignments: [
+                    { address: officeAddress, lineItems: [{ itemId: 'item-1', quantity: 2 }] },
+                ],
+            },
+        ]);
+    });
+
+    it('updates consignments with line items split across multiple consignments', () => {
+        consignments = [
+            { ...consignments[0], lineItemIds: ['item-1'] },
+            {
+                ...getConsignment(),
+                id: 'consignment-2',
+                shippingAddress: officeAddress,
+                lineItemIds: ['item-1'],
+            },
+        ];
+
+        expect(
+            createConsignmentPlan(
+                [
+                    { address: homeAddress, lineItems: [{ itemId: 'item-1', quantity: 1 }] },
+                    { address: officeAddress, lineItems: [{ itemId: 'item-1', quantity: 1 }] },
+                ],
+                consignments,
+                cart,
+            ).map(({ type }) => type),
+        ).toEqual(['update', 'update']);
+    });
+
+    it('throws error if line item is not shippable item in cart', () => {
+        expect(() =>
+            createConsignmentPlan(
+                [{ address: homeAddress, lineItems: [{ itemId: 'item-3', quantity: 1 }] }],
+                consignments,
+                cart,
+            ),
+        ).toThrow(InvalidArgumentError);
+
+        expect(() =>
+            createConsignmentPlan(
+                [{ address: homeAddress, lineItems: [{ itemId: 'foobar', quantity: 1 }] }],
+                consignments,
+                cart,
+            ),
+        ).toThrow(InvalidArgumentError);
+    });
+
+    it('throws error if quantity is invalid', () => {
+        expect(() =>
+            createConsignmentPlan(
+                [{ address: homeAddress, lineItems: [{ itemId: 'item-1', quantity: 1.5 }] }],
+                consignments,
+                cart,
+            ),
+        ).toThrow(InvalidArgumentError);
+    });
+
+    it('throws error if more items are allocated than there are in cart', () => {
+        expect(() =>
+            createConsignmentPlan(
+                [
+                    { address: homeAddress, lineItems: [{ itemId: 'item-1', quantity: 2 }] },
+                    { address: officeAddress, lineItems: [{ itemId: 'item-1', quantity: 1 }] },
+                ],
+                consignments,
+                cart,
+            ),
+        ).toThrow(InvalidArgumentError);
+    });
+});
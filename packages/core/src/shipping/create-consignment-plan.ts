@@ -0,0 +1,196 @@
+import { isEqual, sortBy } from 'lodash';
+
+import { isAddressEqual } from '../address';
+import { Cart } from '../cart';
+import { InvalidArgumentError } from '../common/error/errors';
+
+import Consignment, { ConsignmentLineItem } from './consignment';
+import {
+    ConsignmentAllocation,
+    ConsignmentCreateOperation,
+    ConsignmentDeleteOperation,
+    ConsignmentPlanOperation,
+    ConsignmentUpdateOperation,
+} from './consignment-plan';
+
+/**
+ * Returns the operations required to turn the current consignments into the
+ * desired allocation of line items. Consignments that are no longer needed are
+ * deleted first, then the consignments whose line items change are updated and
+ * finally, the consignments for the new addresses are created in one request.
+ * The updates that release line items run before the ones that receive them,
+ * so items can be moved between consignments without allocating more items
+ * than there are in the cart at any point.
+ */
+export default function createConsignmentPlan(
+    allocations: ConsignmentAllocation[],
+    consignments: Consignment[],
+    cart: Cart,
+): ConsignmentPlanOperation[] {
+    const desiredAllocations = mergeAllocations(allocations);
+    const deleteOperations: ConsignmentDeleteOperation[] = [];
+    const releasingUpdateOperations: ConsignmentUpdateOperation[] = [];
+    const receivingUpdateOperations: ConsignmentUpdateOperation[] = [];
+    const matchedAllocations: ConsignmentAllocation[] = [];
+
+    validateAllocations(desiredAllocations, cart);
+
+    consignments.forEach((consignment) => {
+        const allocation = desiredAllocations.find(
+            (desiredAllocation) =>
+                !matchedAllocations.includes(desiredAllocation) &&
+                isAddressEqual(consignment.shippingAddress, desiredAllocation.address),
+        );
+
+        if (!allocation) {
+            deleteOperations.push({ type: 'delete', consignmentId: consignment.id });
+
+            return;
+        }
+
+        matchedAllocations.push(allocation);
+
+        const currentLineItems = getCurrentLineItems(consignment, consignments, cart);
+
+        if (isEqual(sortLineItems(currentLineItems), sortLineItems(allocation.lineItems))) {
+            return;
+        }
+
+        const updateOperations = isReleasingLineItems(currentLineItems, allocation.lineItems)
+            ? releasingUpdateOperations
+            : receivingUpdateOperations;
+
+        updateOperations.push({
+            type: 'update',
+            consignment: {
+                id: consignment.id,
+                address: allocation.address,
+                lineItems: allocation.lineItems,
+            },
+        });
+    });
+
+    const newAllocations = desiredAllocations.filter(
+        (allocation) => !matchedAllocations.includes(allocation),
+    );
+    const createOperations: ConsignmentCreateOperation[] = newAllocations.length
+        ? [{ type: 'create', consignments: newAllocations }]
+        : [];
+
+    return [
+        ...deleteOperations,
+        ...releasingUpdateOperations,
+        ...receivingUpdateOperations,
+        ...createOperations,
+    ];
+}
+
+function mergeAllocations(allocations: ConsignmentAllocation[]): ConsignmentAllocation[] {
+    return allocations.reduce<ConsignmentAllocation[]>((result, allocation) => {
+        const lineItems = allocation.lineItems.filter(({ quantity }) => quantity !== 0);
+        const existingAllocation = result.find(({ address }) =>
+            isAddressEqual(address, allocation.address),
+        );
+
+        if (!lineItems.length) {
+            return result;
+        }
+
+        if (!existingAllocation) {
+            return [...result, { address: allocation.address, lineItems }];
+        }
+
+        existingAllocation.lineItems = lineItems.reduce(
+            (mergedLineItems, lineItem) =>
+                mergedLineItems.some(({ itemId }) => itemId === lineItem.itemId)
+                    ? mergedLineItems.map((mergedLineItem) =>
+                          mergedLineItem.itemId === lineItem.itemId
+                              ? {
+                                    ...mergedLineItem,
+                                    quantity: mergedLineItem.quantity + lineItem.quantity,
+                                }
+                              : mergedLineItem,
+                      )
+                    : [...mergedLineItems, lineItem],
+            existingAllocation.lineItems,
+        );
+
+        return result;
+    }, []);
+}
+
+function validateAllocations(allocations: ConsignmentAllocation[], cart: Cart): void {
+    const allocatedQuantities: { [itemId: string]: number } = {};
+
+    allocations.forEach(({ lineItems }) =>
+        lineItems.forEach(({ itemId, quantity }) => {
+            const item = cart.lineItems.physicalItems.find(
+                ({ id }) => String(id) === String(itemId),
+            );
+
+            if (!item || item.addedByPromotion) {
+                throw new InvalidArgumentError(
+                    `Unable to allocate line item "${itemId}" because it is not a shippable item in the cart.`,
+                );
+            }
+
+            if (!Number.isInteger(quantity) || quantity < 0) {
+                throw new InvalidArgumentError(
+                    `Unable to allocate line item "${itemId}" because its quantity is invalid.`,
+                );
+            }
+
+            allocatedQuantities[itemId] = (allocatedQuantities[itemId] || 0) + quantity;
+
+            if (allocatedQuantities[itemId] > item.quantity) {
+                throw new InvalidArgumentError(
+                    `Unable to allocate line item "${itemId}" because more items are allocated than there are in the cart.`,
+                );
+            }
+        }),
+    );
+}
+
+// The quantities of the line items of a consignment are not stored in the
+// state. They can only be known if a line item is not split across multiple
+// consignments, in which case the whole quantity of the item is assigned.
+function getCurrentLineItems(
+    consignment: Consignment,
+    consignments: Consignment[],
+    cart: Cart,
+): Array<Partial<ConsignmentLineItem>> {
+    return consignment.lineItemIds.map((itemId) => {
+        const item = cart.lineItems.physicalItems.find(({ id }) => String(id) === String(itemId));
+        const isSplit =
+            consignments.filter(({ lineItemIds }) => lineItemIds.includes(itemId)).length > 1;
+
+        return {
+            itemId,
+            quantity: item && !isSplit ? item.quantity : undefined,
+        };
+    });
+}
+
+// A consignment releases line items if any of its items is removed, or its
+// quantity is known to decrease.
+function isReleasingLineItems(
+    currentLineItems: Array<Partial<ConsignmentLineItem>>,
+    desiredLineItems: ConsignmentLineItem[],
+): boolean {
+    return currentLineItems.some(({ itemId, quantity }) => {
+        const desiredLineItem = desiredLineItems.find(
+            (lineItem) => String(lineItem.itemId) === String(itemId),
+        );
+
+        return !desiredLineItem || (quantity !== undefined && desiredLineItem.quantity < quantity);
+    });
+}
+
+function sortLineItems(
+    lineItems: Array<Partial<ConsignmentLineItem>>,
+): Array<Partial<ConsignmentLineItem>> {
+    return sortBy(
+        lineItems.map(({ itemId, quantity }) => ({ itemId: String(itemId), quantity })),
+        'itemId',
+    );
+}
@@ -1,4 +1,3 @@
-import { RequestSender } from '@bigcommerce/request-sender';
 import { getScriptLoader } from '@bigcommerce/script-loader';
 
 import { createAmazonPayV2PaymentProcessor } from '@bigcommerce/checkout-sdk/amazon-pay-utils';
@@ -16,6 +15,7 @@ import { StripeScriptLoader } from '@bigcommerce/checkout-sdk/stripe-utils';
 
 import { BillingAddressActionCreator, BillingAddressRequestSender } from '../billing';
 import { CheckoutRequestSender, CheckoutStore } from '../checkout';
+import { HttpRequestSender } from '../common/http-request';
 import { Registry } from '../common/registry';
 import {
     B2BCompanyPaymentMethodRequestSender,
@@ -38,7 +38,7 @@ import { StripeUPEShippingStrategy } from './strategies/stripe-upe';
 
 export default function createShippingStrategyRegistry(
     store: CheckoutStore,
-    requestSender: RequestSender,
+    requestSender: HttpRequestSender,
 ): Registry<ShippingStrategy> {
     const registry = new Registry<ShippingStrategy>();
     const paymentIntegrationService = createPaymentIntegrationService(store);
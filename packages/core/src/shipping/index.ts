@@ -8,13 +8,21 @@ export {
     ConsignmentsRequestBody,
     ConsignmentRequestBody,
     ConsignmentAssignmentRequestBody,
+    ConsignmentLineItem,
     ConsignmentUpdateRequestBody,
+    ConsignmentShippingOptionMeta,
 } from './consignment';
 export {
     default as ConsignmentSelector,
     ConsignmentSelectorFactory,
     createConsignmentSelectorFactory,
 } from './consignment-selector';
+export {
+    ConsignmentAllocation,
+    ConsignmentPlanOperation,
+    ConsignmentPlanOptions,
+    ConsignmentPlanProgress,
+} from './consignment-plan';
 export { default as ConsignmentState } from './consignment-state';
 export { default as consignmentReducer } from './consignment-reducer';
 export { default as ConsignmentActionCreator } from './consignment-action-creator';
@@ -49,6 +57,11 @@ export { default as ShippingCountryState } from './shipping-country-state';
 export { default as shippingCountryReducer } from './shipping-country-reducer';
 
 export { default as ShippingOption } from './shipping-option';
+export {
+    ConsignmentShippingCostTotals,
+    ShippingOptionPolicy,
+    ShippingOptionRecommendations,
+} from './shipping-option-recommendations';
 export {
     default as InternalShippingOption,
     InternalShippingOptionList,
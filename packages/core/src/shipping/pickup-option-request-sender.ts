@@ -1,13 +1,13 @@
-import { RequestSender, Response } from '@bigcommerce/request-sender';
+import { Response } from '@bigcommerce/request-sender';
 
-import { ContentType, SDK_VERSION_HEADERS } from '../common/http-request';
+import { ContentType, HttpRequestSender, SDK_VERSION_HEADERS } from '../common/http-request';
 
 import { PickupOptionAPIRequestBody, PickupOptionResponse } from './pickup-option';
 
 const url = '/api/storefront/pickup-options';
 
 export default class PickupOptionRequestSender {
-    constructor(private _requestSender: RequestSender) {}
+    constructor(private _requestSender: HttpRequestSender) {}
 
     fetchPickupOptions(query: PickupOptionAPIRequestBody): Promise<Response<PickupOptionResponse>> {
         return this._requestSender.post(url, {
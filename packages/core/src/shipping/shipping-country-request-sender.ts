@@ -1,10 +1,10 @@
-import { RequestSender, Response } from '@bigcommerce/request-sender';
+import { Response } from '@bigcommerce/request-sender';
 
-import { RequestOptions, SDK_VERSION_HEADERS } from '../common/http-request';
+import { HttpRequestSender, RequestOptions, SDK_VERSION_HEADERS } from '../common/http-request';
 import { CountryResponseBody } from '../geography';
 
 export default class ShippingCountryRequestSender {
-    constructor(private _requestSender: RequestSender, private _config: { locale?: string }) {}
+    constructor(private _requestSender: HttpRequestSender, private _config: { locale?: string }) {}
 
     loadCountries(
         channelId: number | null,
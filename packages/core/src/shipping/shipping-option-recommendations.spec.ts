@@ -0,0 +1,99 @@
+import ShippingOption from './shipping-option';
+import {
+    getShippingOptionByPolicy,
+    getShippingOptionRecommendations,
+    getTransitDays,
+} from './shipping-option-recommendations';
+import { getShippingOption } from './shipping-options.mock';
+
+describe('shipping option recommendations', () => {
+    let standard: ShippingOption;
+    let express: ShippingOption;
+    let economy: ShippingOption;
+
+    beforeEach(() => {
+        standard = {
+            ...getShippingOption(),
+            id: 'standard',
+            isRecommended: false,
+            costAfterDiscount: 10,
+            transitTime: '3-5 business days',
+        };
+        express = {
+            ...getShippingOption(),
+            id: 'express',
+            isRecommended: false,
+            costAfterDiscount: 25,
+            transitTime: 'Next day',
+        };
+        economy = {
+            ...getShippingOption(),
+            id: 'economy',
+            isRecommended: false,
+            costAfterDiscount: 10,
+            transitTime: '',
+        };
+    });
+
+    describe('getShippingOptionRecommendations()', () => {
+        it('returns cheapest, fastest and recommended options', () => {
+            expect(getShippingOptionRecommendations([economy, standard, express])).toEqual({
+                cheapest: standard,
+                fastest: express,
+                recommended: standard,
+            });
+        });
+
+        it('returns option recommended by store', () => {
+            express.isRecommended = true;
+
+            expect(getShippingOptionRecommendations([standard, express]).recommended).toBe(express);
+        });
+
+        it('returns no options if list is empty', () => {
+            expect(getShippingOptionRecommendations()).toEqual({
+                cheapest: undefined,
+                fastest: undefined,
+                recommended: undefined,
+            });
+        });
+    });
+
+    describe('getShippingOptionByPolicy()', () => {
+        it('returns cheaper option if options are equally fast', () => {
+            const sameDay = { ...express, id: 'same-day', transitTime: '1 day' };
+
+            expect(getShippingOptionByPolicy([sameDay, express], 'fastest')).toBe(sameDay);
+        });
+
+        it('returns first option if options are equal', () => {
+            expect(getShippingOptionByPolicy([standard, { ...standard }], 'cheapest')).toBe(
+                standard,
+            );
+        });
+    });
+
+    describe('getTransitDays()', () => {
+        it('returns minimum number of days', () => {
+            expect(getTransitDays(standard)).toBe(3);
+            expect(getTransitDays(express)).toBe(1);
+            expect(getTransitDays({ ...standard, transitTime: 'Same day' })).toBe(0);
+        });
+
+        it('converts transit time in hours or weeks to days', () => {
+            expect(getTransitDays({ ...standard, transitTime: '24 hours' })).toBe(1);
+            expect(getTransitDays({ ...standard, transitTime: '48-72 hrs' })).toBe(2);
+            expect(getTransitDays({ ...standard, transitTime: '1-2 weeks' })).toBe(7);
+            expect(getTransitDays({ ...standard, transitTime: '3 to 5 working days' })).toBe(3);
+        });
+
+        it('returns infinity if transit time is unknown', () => {
+            expect(getTransitDays(economy)).toBe(Infinity);
+        });
+
+        it('returns infinity if transit time is not described in hours, days or weeks', () => {
+            expect(getTransitDays({ ...standard, transitTime: 'Ships in 2 boxes' })).toBe(Infinity);
+            expect(getTransitDays({ ...standard, transitTime: '1 month' })).toBe(Infinity);
+        });
+    });
+});
@@ -0,0 +1,114 @@
+import ShippingOption from './shipping-option';
+
+/**
+ * The rule used to pick a shipping option automatically, i.e.: always the
+ * cheapest option.
+ */
+export type ShippingOptionPolicy = 'cheapest' | 'fastest' | 'recommended';
+
+export interface ShippingOptionRecommendations {
+    cheapest?: ShippingOption;
+    fastest?: ShippingOption;
+    recommended?: ShippingOption;
+}
+
+export interface ConsignmentShippingCostTotals {
+    shippingCost: number;
+    shippingCostBeforeDiscount: number;
+    comparisonShippingCost: number;
+    handlingCost: number;
+    cheapestShippingCost: number;
+}
+
+export function getShippingOptionRecommendations(
+    options: ShippingOption[] = [],
+): ShippingOptionRecommendations {
+    return {
+        cheapest: getShippingOptionByPolicy(options, 'cheapest'),
+        fastest: getShippingOptionByPolicy(options, 'fastest'),
+        recommended: getShippingOptionByPolicy(options, 'recommended'),
+    };
+}
+
+export function getShippingOptionByPolicy(
+    options: ShippingOption[] = [],
+    policy: ShippingOptionPolicy,
+): ShippingOption | undefined {
+    switch (policy) {
+        case 'cheapest':
+            return findFirst(options, compareByCost, compareByTransitTime);
+
+        case 'fastest':
+            return findFirst(options, compareByTransitTime, compareByCost);
+
+        case 'recommended':
+            return (
+                options.find(({ isRecommended }) => isRecommended) ||
+                findFirst(options, compareByCost, compareByTransitTime)
+            );
+    }
+}
+
+const TRANSIT_TIME_PATTERN =
+    /(\d+(?:\.\d+)?)(?:\s*(?:-|to)\s*\d+(?:\.\d+)?)?\s*(?:business\s+|working\s+)?(hours?|hrs?|days?|weeks?|wks?)\b/i;
+
+const DAYS_PER_UNIT: { [unit: string]: number } = {
+    h: 1 / 24,
+    d: 1,
+    w: 7,
+};
+
+/**
+ * Returns the minimum number of days a shipping option takes to be delivered,
+ * based on its description, i.e.: "2-5 business days" or "1-2 weeks". Returns
+ * `Infinity` if the transit time of the option is unknown or is not described
+ * in hours, days or weeks.
+ */
+export function getTransitDays({ transitTime }: ShippingOption): number {
+    if (/same[ -]day/i.test(transitTime)) {
+        return 0;
+    }
+
+    if (/next[ -]day|overnight/i.test(transitTime)) {
+        return 1;
+    }
+
+    const match = TRANSIT_TIME_PATTERN.exec(transitTime);
+
+    if (!match) {
+        return Infinity;
+    }
+
+    return Number(match[1]) * DAYS_PER_UNIT[match[2].charAt(0).toLowerCase()];
+}
+
+type ShippingOptionComparator = (optionA: ShippingOption, optionB: ShippingOption) => number;
+
+function compareByCost(optionA: ShippingOption, optionB: ShippingOption): number {
+    return optionA.costAfterDiscount - optionB.costAfterDiscount;
+}
+
+function compareByTransitTime(optionA: ShippingOption, optionB: ShippingOption): number {
+    const daysA = getTransitDays(optionA);
+    const daysB = getTransitDays(optionB);
+
+    return daysA === daysB ? 0 : daysA < daysB ? -1 : 1;
+}
+
+function findFirst(
+    options: ShippingOption[],
+    ...comparators: ShippingOptionComparator[]
+): ShippingOption | undefined {
+    return options.reduce<ShippingOption | undefined>((result, option) => {
+        if (!result) {
+            return option;
+        }
+
+        const comparison = comparators.reduce(
+            (value, comparator) => value || comparator(option, result),
+            0,
+        );
+
+        return comparison < 0 ? option : result;
+    }, undefined);
+}
@@ -1,5 +1,7 @@
+import { CheckoutParams } from '../checkout';
 import { RequestOptions } from '../common/http-request';
 
+import { ShippingOptionPolicy } from './shipping-option-recommendations';
 import { AmazonPayV2ShippingInitializeOptions } from './strategies/amazon-pay-v2';
 import { BigCommercePaymentsFastlaneShippingInitializeOptions } from './strategies/bigcommerce-payments';
 import { BraintreeFastlaneInitializeOptions } from './strategies/braintree';
@@ -20,6 +22,46 @@ export interface ShippingRequestOptions<T = object> extends RequestOptions<T> {
     methodId?: string;
 }
 
+/**
+ * A set of options for updating the shipping address of the current checkout.
+ */
+export interface ShippingAddressRequestOptions<T = object> extends ShippingRequestOptions<T> {
+    /**
+     * Validates the address against the shipping address form fields of the
+     * store before sending it. If the address is invalid, it is not sent and
+     * the request is rejected with an `InvalidFormFieldsError`.
+     */
+    shouldValidateFields?: boolean;
+
+    /**
+     * Trims the values of the address and resolves its state to a region of
+     * its country, then checks its postal code and state against the data of
+     * the country before sending it. If they do not match, the address is not
+     * sent and the request is rejected with an `InvalidAddressError`.
+     */
+    shouldValidateAddress?: boolean;
+
+    /**
+     * Selects the shipping option matching the policy, i.e.: the cheapest
+     * option, for every consignment whose available shipping options change
+     * after the address is updated.
+     */
+    shippingOptionPolicy?: ShippingOptionPolicy;
+}
+
+/**
+ * A set of options for creating consignments for the current checkout.
+ */
+export interface ConsignmentsRequestOptions extends RequestOptions<CheckoutParams> {
+    /**
+     * Normalizes the consignment addresses, then checks their postal codes and
+     * states against the data of their countries before sending them. If they do not match,
+     * the consignments are not created and the request is rejected with an
+     * `InvalidAddressError`.
+     */
+    shouldValidateAddress?: boolean;
+}
+
 /**
  * A set of options that are required to initialize the shipping step of the
  * current checkout flow.
@@ -3,6 +3,7 @@ import { merge } from 'lodash';
 import { from, of } from 'rxjs';
 import { catchError, toArray } from 'rxjs/operators';
 
+import { InvalidAddressError } from '../address';
 import { CheckoutStore, CheckoutStoreState, createCheckoutStore } from '../checkout';
 import {
     getCheckoutState,
@@ -10,6 +11,7 @@ import {
     getCheckoutWithPayments,
 } from '../checkout/checkouts.mock';
 import { Registry } from '../common/registry';
+import { InvalidFormFieldsError } from '../form';
 import { getPaymentMethod } from '../payment/payment-methods.mock';
 
 import createShippingStrategyRegistry from './create-shipping-strategy-registry';
@@ -290,6 +292,89 @@ describe('ShippingStrategyActionCreator', () => {
                 },
             ]);
         });
+
+        it('throws error without executing strategy if fields are invalid and validation is requested', async () => {
+            const actionCreator = new ShippingStrategyActionCreator(registry);
+            const errorHandler = jest.fn((action) => of(action));
+
+            await from(
+                actionCreator.updateAddress(
+                    {
+                        ...getShippingAddress(),
+                        address1: '',
+                        countryCode: 'AU',
+                        stateOrProvinceCode: 'NSW',
+                    },
+                    { methodId: 'default', shouldValidateFields: true },
+                )(store),
+            )
+                .pipe(catchError(errorHandler), toArray())
+                .toPromise();
+
+            expect(errorHandler.mock.calls[0][0]).toBeInstanceOf(InvalidFormFieldsError);
+            expect(errorHandler.mock.calls[0][0].errors).toEqual([
+                expect.objectContaining({ fieldName: 'address1', code: 'required' }),
+            ]);
+            expect(strategy.updateAddress).not.toHaveBeenCalled();
+        });
+
+        it('executes shipping strategy with normalized address if validation is requested', async () => {
+            const actionCreator = new ShippingStrategyActionCreator(registry);
+            const options = { methodId: 'default', shouldValidateAddress: true };
+
+            await from(
+                actionCreator.updateAddress(
+                    { ...getShippingAddress(), city: '  Some   City ', postalCode: ' 95555' },
+                    options,
+                )(store),
+            ).toPromise();
+
+            expect(strategy.updateAddress).toHaveBeenCalledWith(getShippingAddress(), options);
+        });
+
+        it('executes shipping strategy with unchanged address unless validation is requested', async () => {
+            const actionCreator = new ShippingStrategyActionCreator(registry);
+            const options = { methodId: 'default' };
+            const address = {
+                ...getShippingAddress(),
+                city: '  Some   City ',
+                postalCode: ' 95555',
+            };
+
+            await from(actionCreator.updateAddress(address, options)(store)).toPromise();
+
+            expect(strategy.updateAddress).toHaveBeenCalledWith(address, options);
+        });
+
+        it('throws error without executing strategy if address does not match its country', async () => {
+            const actionCreator = new ShippingStrategyActionCreator(registry);
+            const errorHandler = jest.fn((action) => of(action));
+
+            await from(
+                actionCreator.updateAddress(
+                    { ...getShippingAddress(), countryCode: 'AU', postalCode: 'ABC' },
+                    { methodId: 'default', shouldValidateAddress: true },
+                )(store),
+            )
+                .pipe(catchError(errorHandler), toArray())
+                .toPromise();
+
+            expect(errorHandler.mock.calls[0][0]).toBeInstanceOf(InvalidAddressError);
+            expect(strategy.updateAddress).not.toHaveBeenCalled();
+        });
+
+        it('does not check address against its country unless validation is requested', async () => {
+            const actionCreator = new ShippingStrategyActionCreator(registry);
+
+            await from(
+                actionCreator.updateAddress(
+                    { ...getShippingAddress(), countryCode: 'AU', postalCode: 'ABC' },
+                    { methodId: 'default' },
+                )(store),
+            ).toPromise();
+
+            expect(strategy.updateAddress).toHaveBeenCalled();
+        });
     });
 
     describe('#selectOption()', () => {
@@ -1,11 +1,21 @@
 import { createAction, createErrorAction, ThunkAction } from '@bigcommerce/data-store';
 import { Observable, Observer } from 'rxjs';
 
-import { AddressRequestBody } from '../address';
+import {
+    AddressRequestBody,
+    getAddressMismatches,
+    InvalidAddressError,
+    normalizeAddress,
+} from '../address';
 import { InternalCheckoutSelectors } from '../checkout';
 import { Registry } from '../common/registry';
+import { InvalidFormFieldsError } from '../form';
 
-import { ShippingInitializeOptions, ShippingRequestOptions } from './shipping-request-options';
+import {
+    ShippingAddressRequestOptions,
+    ShippingInitializeOptions,
+    ShippingRequestOptions,
+} from './shipping-request-options';
 import {
     ShippingStrategyAction,
     ShippingStrategyActionType,
@@ -21,11 +31,35 @@ export default class ShippingStrategyActionCreator {
 
     updateAddress(
         address: Partial<AddressRequestBody>,
-        options?: ShippingRequestOptions,
+        options?: ShippingAddressRequestOptions,
     ): ThunkAction<ShippingStrategyUpdateAddressAction, InternalCheckoutSelectors> {
         return (store) =>
             Observable.create((observer: Observer<ShippingStrategyUpdateAddressAction>) => {
-                const payment = store.getState().payment.getPaymentId();
+                const state = store.getState();
+                const countries = state.shippingCountries.getShippingCountries();
+                const normalizedAddress = options?.shouldValidateAddress
+                    ? normalizeAddress(address, countries)
+                    : address;
+
+                if (options?.shouldValidateFields) {
+                    const errors = state.form
+                        .getFormValidator()
+                        .validateShippingAddress(normalizedAddress, countries);
+
+                    if (errors.length) {
+                        throw new InvalidFormFieldsError(errors);
+                    }
+                }
+
+                if (options?.shouldValidateAddress) {
+                    const mismatches = getAddressMismatches(normalizedAddress, countries);
+
+                    if (mismatches.length) {
+                        throw new InvalidAddressError(mismatches);
+                    }
+                }
+
+                const payment = state.payment.getPaymentId();
                 const methodId = (options && options.methodId) || (payment && payment.providerId);
 
                 observer.next(
@@ -36,7 +70,7 @@ export default class ShippingStrategyActionCreator {
 
                 this._strategyRegistry
                     .get(methodId)
-                    .updateAddress(address, { ...options, methodId })
+                    .updateAddress(normalizedAddress, { ...options, methodId })
                     .then(() => {
                         observer.next(
                             createAction(
@@ -1,12 +1,17 @@
-import { RequestSender, Response } from '@bigcommerce/request-sender';
+import { Response } from '@bigcommerce/request-sender';
 
-import { ContentType, RequestOptions, SDK_VERSION_HEADERS } from '../common/http-request';
+import {
+    ContentType,
+    HttpRequestSender,
+    RequestOptions,
+    SDK_VERSION_HEADERS,
+} from '../common/http-request';
 import { parseUrl } from '../common/url';
 
 import { SignInEmail, SignInEmailRequestBody } from './signin-email';
 
 export default class SignInEmailRequestSender {
-    constructor(private _requestSender: RequestSender) {}
+    constructor(private _requestSender: HttpRequestSender) {}
 
     sendSignInEmail(
         { email, redirectUrl }: SignInEmailRequestBody,
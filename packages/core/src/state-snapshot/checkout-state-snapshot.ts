@@ -0,0 +1,79 @@
+import { CheckoutStoreState } from '../checkout';
+
+/**
+ * The keys of the checkout store state that are included in a snapshot. Only
+ * the data returned by the server is included. Errors, statuses and the states
+ * of the payment, shipping and customer strategies only apply to the current
+ * page, therefore they are excluded.
+ */
+export const CHECKOUT_STATE_SNAPSHOT_KEYS = [
+    'billingAddress',
+    'cart',
+    'checkout',
+    'config',
+    'consignments',
+    'countries',
+    'coupons',
+    'customer',
+    'extensions',
+    'formFields',
+    'giftCertificates',
+    'instruments',
+    'order',
+    'orderBillingAddress',
+    'paymentMethods',
+    'pickupOptions',
+    'shippingCountries',
+] as const;
+
+/**
+ * The keys of the checkout store state whose meta is also included in a
+ * snapshot. The meta of other keys, i.e.: the vault access token of
+ * instruments, the session of payment methods and the token of orders, is
+ * excluded because a snapshot can be persisted by the client. It is
+ * requested again when it is needed after the snapshot is imported.
+ */
+export const CHECKOUT_STATE_SNAPSHOT_META_KEYS = ['config'] as const;
+
+export const CHECKOUT_STATE_SNAPSHOT_VERSION = 1;
+
+export type CheckoutStateSnapshotKey = (typeof CHECKOUT_STATE_SNAPSHOT_KEYS)[number];
+
+/**
+ * A serializable snapshot of the checkout state. It can be exported on the
+ * server or before the page unloads, and imported afterwards in order to
+ * render a fully populated checkout without loading the data again.
+ */
+export default interface CheckoutStateSnapshot {
+    /**
+     * The version of the snapshot schema. Snapshots created with an older
+     * version of the schema are migrated when they are imported.
+     */
+    version: number;
+
+    /**
+     * The time, in milliseconds since the epoch, at which the snapshot was
+     * created.
+     */
+    createdAt: number;
+
+    state: CheckoutStateSnapshotData;
+}
+
+export type CheckoutStateSnapshotMetaKey = (typeof CHECKOUT_STATE_SNAPSHOT_META_KEYS)[number];
+
+export type CheckoutStateSnapshotData = {
+    [Key in CheckoutStateSnapshotKey]?: Pick<
+        CheckoutStoreState[Key],
+        Extract<
+            keyof CheckoutStoreState[Key],
+            Key extends CheckoutStateSnapshotMetaKey ? 'data' | 'meta' : 'data'
+        >
+    >;
+};
+
+export function isCheckoutStateSnapshotMetaKey(
+    key: CheckoutStateSnapshotKey,
+): key is CheckoutStateSnapshotMetaKey {
+    return (CHECKOUT_STATE_SNAPSHOT_META_KEYS as readonly string[]).indexOf(key) !== -1;
+}
@@ -0,0 +1,17 @@
+export * from './state-snapshot-actions';
+
+export {
+    default as CheckoutStateSnapshot,
+    CheckoutStateSnapshotData,
+    CheckoutStateSnapshotKey,
+    CHECKOUT_STATE_SNAPSHOT_KEYS,
+    CHECKOUT_STATE_SNAPSHOT_VERSION,
+} from './checkout-state-snapshot';
+export { default as StateSnapshotActionCreator } from './state-snapshot-action-creator';
+export {
+    default as StateSnapshotMigrator,
+    StateSnapshotMigration,
+    STATE_SNAPSHOT_MIGRATIONS,
+} from './state-snapshot-migrator';
+export { default as stateSnapshotReducer } from './state-snapshot-reducer';
+export { default as StateSnapshotter } from './state-snapshotter';
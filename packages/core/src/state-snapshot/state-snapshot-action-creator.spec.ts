@@ -0,0 +1,45 @@
+import { InvalidArgumentError } from '../common/error/errors';
+
+import CheckoutStateSnapshot from './checkout-state-snapshot';
+import StateSnapshotActionCreator from './state-snapshot-action-creator';
+import { StateSnapshotActionType } from './state-snapshot-actions';
+import StateSnapshotMigrator from './state-snapshot-migrator';
+
+describe('StateSnapshotActionCreator', () => {
+    let actionCreator: StateSnapshotActionCreator;
+    let migrator: StateSnapshotMigrator;
+    let snapshot: CheckoutStateSnapshot;
+
+    beforeEach(() => {
+        migrator = new StateSnapshotMigrator();
+        actionCreator = new StateSnapshotActionCreator(migrator);
+        snapshot = { version: 1, createdAt: 1000, state: {} };
+    });
+
+    describe('#importSnapshot()', () => {
+        it('emits action with migrated snapshot', async () => {
+            const migratedSnapshot = { ...snapshot, createdAt: 2000 };
+
+            jest.spyOn(migrator, 'migrate').mockReturnValue(migratedSnapshot);
+
+            const actions = await actionCreator.importSnapshot(snapshot).toPromise();
+
+            expect(migrator.migrate).toHaveBeenCalledWith(snapshot);
+            expect(actions).toEqual({
+                type: StateSnapshotActionType.ImportStateSnapshot,
+                payload: migratedSnapshot,
+            });
+        });
+
+        it('emits error if snapshot cannot be migrated', async () => {
+            const errorHandler = jest.fn();
+
+            await actionCreator
+                .importSnapshot({ ...snapshot, version: 99 })
+                .toPromise()
+                .catch(errorHandler);
+
+            expect(errorHandler).toHaveBeenCalledWith(expect.any(InvalidArgumentError));
+        });
+    });
+});
@@ -0,0 +1,22 @@
+import { createAction } from '@bigcommerce/data-store';
+import { Observable, Observer } from 'rxjs';
+
+import CheckoutStateSnapshot from './checkout-state-snapshot';
+import { ImportStateSnapshotAction, StateSnapshotActionType } from './state-snapshot-actions';
+import StateSnapshotMigrator from './state-snapshot-migrator';
+
+export default class StateSnapshotActionCreator {
+    constructor(private _migrator: StateSnapshotMigrator) {}
+
+    importSnapshot(snapshot: CheckoutStateSnapshot): Observable<ImportStateSnapshotAction> {
+        return Observable.create((observer: Observer<ImportStateSnapshotAction>) => {
+            observer.next(
+                createAction(
+                    StateSnapshotActionType.ImportStateSnapshot,
+                    this._migrator.migrate(snapshot),
+                ),
+            );
+            observer.complete();
+        });
+    }
+}
@@ -0,0 +1,11 @@
+import { Action } from '@bigcommerce/data-store';
+
+import CheckoutStateSnapshot from './checkout-state-snapshot';
+
+export enum StateSnapshotActionType {
+    ImportStateSnapshot = 'IMPORT_STATE_SNAPSHOT',
+}
+
+export interface ImportStateSnapshotAction extends Action<CheckoutStateSnapshot> {
+    type: StateSnapshotActionType.ImportStateSnapshot;
+}
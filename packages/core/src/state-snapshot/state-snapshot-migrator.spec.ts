@@ -0,0 +1,69 @@
+import { InvalidArgumentError } from '../common/error/errors';
+
+import CheckoutStateSnapshot from './checkout-state-snapshot';
+import StateSnapshotMigrator from './state-snapshot-migrator';
+
+describe('StateSnapshotMigrator', () => {
+    let snapshot: CheckoutStateSnapshot;
+
+    beforeEach(() => {
+        snapshot = {
+            version: 1,
+            createdAt: 1000,
+            state: { cart: { data: undefined } },
+        };
+    });
+
+    it('returns snapshot if it is created with current version', () => {
+        const migrator = new StateSnapshotMigrator({}, 1);
+
+        expect(migrator.migrate(snapshot)).toBe(snapshot);
+    });
+
+    it('migrates snapshot created with older version in sequence', () => {
+        const migrateFromV1 = jest.fn((value: CheckoutStateSnapshot) => ({
+            ...value,
+            state: { ...value.state, countries: { data: [] } },
+        }));
+        const migrateFromV2 = jest.fn((value: CheckoutStateSnapshot) => ({
+            ...value,
+            state: { ...value.state, coupons: { data: [] } },
+        }));
+        const migrator = new StateSnapshotMigrator({ 1: migrateFromV1, 2: migrateFromV2 }, 3);
+
+        expect(migrator.migrate(snapshot)).toEqual({
+            version: 3,
+            createdAt: 1000,
+            state: {
+                cart: { data: undefined },
+                countries: { data: [] },
+                coupons: { data: [] },
+            },
+        });
+        expect(migrateFromV2).toHaveBeenCalledWith(expect.objectContaining({ version: 2 }));
+    });
+
+    it('throws error if migration is missing', () => {
+        const migrator = new StateSnapshotMigrator({}, 2);
+
+        expect(() => migrator.migrate(snapshot)).toThrow(InvalidArgumentError);
+    });
+
+    it('throws error if snapshot is created with newer version', () => {
+        const migrator = new StateSnapshotMigrator({}, 1);
+
+        expect(() => migrator.migrate({ ...snapshot, version: 2 })).toThrow(InvalidArgumentError);
+    });
+
+    it('throws error if snapshot is malformed', () => {
+        const migrator = new StateSnapshotMigrator({}, 1);
+
+        expect(() => migrator.migrate({} as CheckoutStateSnapshot)).toThrow(InvalidArgumentError);
+        expect(() => migrator.migrate({ version: 1 } as CheckoutStateSnapshot)).toThrow(
+            InvalidArgumentError,
+        );
+        expect(() => migrator.migrate(null as unknown as CheckoutStateSnapshot)).toThrow(
+            InvalidArgumentError,
+        );
+    });
+});
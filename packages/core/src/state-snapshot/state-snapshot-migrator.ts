@@ -0,0 +1,65 @@
+import { InvalidArgumentError } from '../common/error/errors';
+
+import CheckoutStateSnapshot, { CHECKOUT_STATE_SNAPSHOT_VERSION } from './checkout-state-snapshot';
+
+/**
+ * Converts a snapshot from one version of the schema to the next one.
+ */
+export type StateSnapshotMigration = (snapshot: CheckoutStateSnapshot) => CheckoutStateSnapshot;
+
+/**
+ * The migrations, keyed by the version they migrate from. A migration must be
+ * added here whenever `CHECKOUT_STATE_SNAPSHOT_VERSION` is incremented.
+ */
+export const STATE_SNAPSHOT_MIGRATIONS: { [version: number]: StateSnapshotMigration } = {};
+
+export default class StateSnapshotMigrator {
+    constructor(
+        private _migrations: {
+            [version: number]: StateSnapshotMigration;
+        } = STATE_SNAPSHOT_MIGRATIONS,
+        private _version: number = CHECKOUT_STATE_SNAPSHOT_VERSION,
+    ) {}
+
+    migrate(snapshot: CheckoutStateSnapshot): CheckoutStateSnapshot {
+        if (!this._isSnapshot(snapshot)) {
+            throw new InvalidArgumentError(
+                'Unable to import the checkout state because the snapshot is malformed.',
+            );
+        }
+
+        if (snapshot.version > this._version) {
+            throw new InvalidArgumentError(
+                `Unable to import the checkout state because version ${snapshot.version} of the snapshot is not supported.`,
+            );
+        }
+
+        let result = snapshot;
+
+        for (let version = snapshot.version; version < this._version; version++) {
+            const migration = this._migrations[version];
+
+            if (!migration) {
+                throw new InvalidArgumentError(
+                    `Unable to import the checkout state because version ${version} of the snapshot cannot be migrated.`,
+                );
+            }
+
+            result = { ...migration(result), version: version + 1 };
+        }
+
+        return result;
+    }
+
+    private _isSnapshot(snapshot: unknown): snapshot is CheckoutStateSnapshot {
+        const { version, state } = (snapshot || {}) as Partial<CheckoutStateSnapshot>;
+
+        return (
+            typeof version === 'number' &&
+            Number.isInteger(version) &&
+            version > 0 &&
+            typeof state === 'object' &&
+            state !== null
+        );
+    }
+}
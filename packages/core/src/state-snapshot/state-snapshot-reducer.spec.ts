@@ -0,0 +1,82 @@
+import { createAction } from '@bigcommerce/data-store';
+
+import { getCart } from '../cart/carts.mock';
+import { CheckoutStoreState } from '../checkout';
+import { getCheckoutStoreState } from '../checkout/checkouts.mock';
+
+import { StateSnapshotActionType } from './state-snapshot-actions';
+import stateSnapshotReducer from './state-snapshot-reducer';
+
+describe('stateSnapshotReducer()', () => {
+    let initialState: CheckoutStoreState;
+
+    beforeEach(() => {
+        initialState = getCheckoutStoreState();
+    });
+
+    it('replaces data with data of imported snapshot', () => {
+        const cart = { ...getCart(), id: 'foobar' };
+        const action = createAction(StateSnapshotActionType.ImportStateSnapshot, {
+            version: 1,
+            createdAt: 1000,
+            state: { cart: { data: cart } },
+        });
+
+        expect(stateSnapshotReducer(initialState, action).cart).toEqual({
+            ...initialState.cart,
+            data: cart,
+        });
+    });
+
+    it('replaces meta of config with meta of imported snapshot', () => {
+        const meta = { ...initialState.config.meta, variantIdentificationToken: 'foobar' };
+        const action = createAction(StateSnapshotActionType.ImportStateSnapshot, {
+            version: 1,
+            createdAt: 1000,
+            state: { config: { data: initialState.config.data, meta } },
+        });
+
+        expect(stateSnapshotReducer(initialState, action).config.meta).toEqual(meta);
+    });
+
+    it('ignores meta of instruments in imported snapshot', () => {
+        const meta = { ...initialState.instruments.meta, vaultAccessToken: 'foobar' };
+        const action = createAction(StateSnapshotActionType.ImportStateSnapshot, {
+            version: 1,
+            createdAt: 1000,
+            state: { instruments: { data: [], meta } },
+        });
+
+        expect(stateSnapshotReducer(initialState, action).instruments.meta).toEqual(
+            initialState.instruments.meta,
+        );
+    });
+
+    it('keeps errors and statuses of current state', () => {
+        const state = {
+            ...initialState,
+            cart: { ...initialState.cart, statuses: { isLoading: true } },
+        };
+        const action = createAction(StateSnapshotActionType.ImportStateSnapshot, {
+            version: 1,
+            createdAt: 1000,
+            state: { cart: { data: getCart() } },
+        });
+
+        expect(stateSnapshotReducer(state, action).cart.statuses).toEqual({ isLoading: true });
+    });
+
+    it('keeps keys that are not included in snapshot', () => {
+        const action = createAction(StateSnapshotActionType.ImportStateSnapshot, {
+            version: 1,
+            createdAt: 1000,
+            state: {},
+        });
+
+        expect(stateSnapshotReducer(initialState, action)).toEqual(initialState);
+    });
+
+    it('returns same state for other actions', () => {
+        expect(stateSnapshotReducer(initialState, createAction('UNKNOWN'))).toBe(initialState);
+    });
+});
@@ -0,0 +1,47 @@
+import { Action } from '@bigcommerce/data-store';
+
+import { CheckoutStoreState } from '../checkout';
+
+import {
+    CHECKOUT_STATE_SNAPSHOT_KEYS,
+    isCheckoutStateSnapshotMetaKey,
+} from './checkout-state-snapshot';
+import { ImportStateSnapshotAction, StateSnapshotActionType } from './state-snapshot-actions';
+
+/**
+ * Replaces the data of the checkout store, and the meta of the keys that are
+ * allowed to include it, with those of an imported snapshot. Unlike other reducers, it operates on the entire store state
+ * because a snapshot spans across all of its keys.
+ */
+export default function stateSnapshotReducer(
+    state: CheckoutStoreState,
+    action: Action,
+): CheckoutStoreState {
+    if (!isImportStateSnapshotAction(action) || !action.payload) {
+        return state;
+    }
+
+    const { state: snapshotState } = action.payload;
+
+    return CHECKOUT_STATE_SNAPSHOT_KEYS.reduce((result, key) => {
+        const snapshotSlice = snapshotState[key];
+
+        if (!snapshotSlice) {
+            return result;
+        }
+
+        return {
+            ...result,
+            [key]: {
+                ...result[key],
+                data: snapshotSlice.data,
+                ...(isCheckoutStateSnapshotMetaKey(key) &&
+                    'meta' in snapshotSlice && { meta: snapshotSlice.meta }),
+            },
+        };
+    }, state);
+}
+
+function isImportStateSnapshotAction(action: Action): action is ImportStateSnapshotAction {
+    return action.type === StateSnapshotActionType.ImportStateSnapshot;
+}
@@ -0,0 +1,85 @@
+import { createAction } from '@bigcommerce/data-store';
+
+import { getCart } from '../cart/carts.mock';
+import { CheckoutStore, createCheckoutStore } from '../checkout';
+import { getCheckoutStoreState } from '../checkout/checkouts.mock';
+import { getConfig, getConfigState } from '../config/configs.mock';
+import { CouponActionType } from '../coupon';
+
+import { CHECKOUT_STATE_SNAPSHOT_VERSION } from './checkout-state-snapshot';
+import { StateSnapshotActionType } from './state-snapshot-actions';
+import StateSnapshotter from './state-snapshotter';
+
+describe('StateSnapshotter', () => {
+    let snapshotter: StateSnapshotter;
+    let store: CheckoutStore;
+
+    beforeEach(() => {
+        snapshotter = new StateSnapshotter();
+        store = createCheckoutStore(getCheckoutStoreState(), { stateSnapshotter: snapshotter });
+    });
+
+    it('creates snapshot of current state', () => {
+        expect(snapshotter.createSnapshot()).toEqual({
+            version: CHECKOUT_STATE_SNAPSHOT_VERSION,
+            createdAt: expect.any(Number),
+            state: expect.objectContaining({
+                cart: { data: getCart() },
+                config: { data: getConfig(), meta: getConfigState().meta },
+            }),
+        });
+    });
+
+    it('excludes errors and statuses from snapshot', async () => {
+        await store.dispatch(createAction(CouponActionType.ApplyCouponRequested));
+
+        expect(snapshotter.createSnapshot().state.coupons).toEqual({
+            data: getCheckoutStoreState().coupons.data,
+        });
+    });
+
+    it('excludes credentials in meta of instruments and payment methods from snapshot', () => {
+        const { paymentMethods, instruments } = snapshotter.createSnapshot().state;
+
+        expect(instruments).not.toHaveProperty('meta');
+        expect(paymentMethods).not.toHaveProperty('meta');
+        expect(JSON.stringify(snapshotter.createSnapshot())).not.toContain(
+            // tslint:disable-next-line:no-non-null-assertion
+            store.getState().instruments.getInstrumentsMeta()!.vaultAccessToken,
+        );
+    });
+
+    it('restores data of exported snapshot when it is imported', async () => {
+        const snapshot = snapshotter.createSnapshot();
+        const importedStore = createCheckoutStore();
+
+        await importedStore.dispatch(
+            createAction(StateSnapshotActionType.ImportStateSnapshot, snapshot),
+        );
+
+        const { config, instruments } = importedStore.getState();
+
+        expect(config.getVariantIdentificationToken()).toEqual(
+            store.getState().config.getVariantIdentificationToken(),
+        );
+        expect(instruments.getInstrumentsMeta()).toBeUndefined();
+        expect(instruments.getInstruments()).toEqual(store.getState().instruments.getInstruments());
+    });
+
+    it('excludes keys without data from snapshot', () => {
+        snapshotter = new StateSnapshotter();
+        createCheckoutStore({}, { stateSnapshotter: snapshotter });
+
+        expect(snapshotter.createSnapshot().state).not.toHaveProperty('cart');
+    });
+
+    it('returns copy of state that is not affected by subsequent changes', () => {
+        const snapshot = snapshotter.createSnapshot();
+
+        expect(snapshot.state.cart?.data).not.toBe(store.getState().cart.getCart());
+    });
+
+    it('returns empty snapshot if store has not been initialized', () => {
+        expect(new StateSnapshotter().createSnapshot().state).toEqual({});
+    });
+});
@@ -0,0 +1,51 @@
+import { Action, Reducer } from '@bigcommerce/data-store';
+import { cloneDeep, isUndefined, omitBy, pick } from 'lodash';
+
+import { CheckoutStoreState } from '../checkout';
+
+import CheckoutStateSnapshot, {
+    CHECKOUT_STATE_SNAPSHOT_KEYS,
+    CHECKOUT_STATE_SNAPSHOT_VERSION,
+    CheckoutStateSnapshotData,
+    isCheckoutStateSnapshotMetaKey,
+} from './checkout-state-snapshot';
+
+/**
+ * Keeps track of the latest checkout store state so a serializable snapshot of
+ * it can be created on demand. The store only exposes its state through
+ * selectors, therefore the snapshotter decorates its reducer instead.
+ */
+export default class StateSnapshotter {
+    private _state?: CheckoutStoreState;
+
+    decorateReducer(
+        reducer: Reducer<CheckoutStoreState, Action>,
+    ): Reducer<CheckoutStoreState, Action> {
+        return (state, action) => {
+            this._state = reducer(state, action);
+
+            return this._state;
+        };
+    }
+
+    createSnapshot(): CheckoutStateSnapshot {
+        const state = this._state;
+
+        return {
+            version: CHECKOUT_STATE_SNAPSHOT_VERSION,
+            createdAt: Date.now(),
+            state: CHECKOUT_STATE_SNAPSHOT_KEYS.reduce<CheckoutStateSnapshotData>((result, key) => {
+                if (!state || !state[key] || state[key].data === undefined) {
+                    return result;
+                }
+
+                const sliceKeys = isCheckoutStateSnapshotMetaKey(key) ? ['data', 'meta'] : ['data'];
+
+                return {
+                    ...result,
+                    [key]: cloneDeep(omitBy(pick(state[key], sliceKeys), isUndefined)),
+                };
+            }, {}),
+        };
+    }
+}
@@ -1,15 +1,16 @@
-import { RequestSender, Response } from '@bigcommerce/request-sender';
+import { Response } from '@bigcommerce/request-sender';
 
 import { Checkout, CHECKOUT_DEFAULT_INCLUDES } from '../checkout';
 import {
     ContentType,
+    HttpRequestSender,
     joinIncludes,
     RequestOptions,
     SDK_VERSION_HEADERS,
 } from '../common/http-request';
 
 export default class StoreCreditRequestSender {
-    constructor(private _requestSender: RequestSender) {}
+    constructor(private _requestSender: HttpRequestSender) {}
 
     applyStoreCredit(
         checkoutId: string,
@@ -5,6 +5,7 @@ import {
     OrderRequestBody,
     PaymentArgumentInvalidError,
     PaymentIntegrationService,
+    PaymentLifecyclePhase,
     PaymentRequestOptions,
     PaymentStatusTypes,
 } from '@bigcommerce/checkout-sdk/payment-integration-api';
@@ -75,6 +76,23 @@ describe('OffsitePaymentStrategy', () => {
                 gatewayId: options.gatewayId,
             });
         });
+
+        it('reports redirecting phase before initializing offsite payment flow', async () => {
+            jest.spyOn(paymentIntegrationService, 'initializeOffsitePayment').mockImplementation(
+                () => {
+                    expect(paymentIntegrationService.reportPaymentPhase).toHaveBeenCalledWith(
+                        PaymentLifecyclePhase.Redirecting,
+                        { methodId: options.methodId, gatewayId: options.gatewayId },
+                    );
+
+                    return Promise.resolve(paymentIntegrationService.getState());
+                },
+            );
+
+            await strategy.execute(payload, options);
+
+            expect.assertions(1);
+        });
     });
 
     describe('#finalize()', () => {
@@ -6,6 +6,7 @@ import {
     OrderRequestBody,
     PaymentArgumentInvalidError,
     PaymentIntegrationService,
+    PaymentLifecyclePhase,
     PaymentRequestOptions,
     PaymentStatusTypes,
     PaymentStrategy,
@@ -39,6 +40,10 @@ export default class OffsitePaymentStrategy implements PaymentStrategy {
         const { methodId, gatewayId } = payment;
 
         await this._paymentIntegrationService.submitOrder(orderPayload, options);
+        await this._paymentIntegrationService.reportPaymentPhase(
+            PaymentLifecyclePhase.Redirecting,
+            { methodId, gatewayId },
+        );
         await this._paymentIntegrationService.initializeOffsitePayment({
             methodId,
             gatewayId,
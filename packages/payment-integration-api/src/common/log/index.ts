@@ -0,0 +1 @@
+export { default as Logger } from './logger';
@@ -0,0 +1,16 @@
+/**
+ * The logger made available to payment strategies. Besides the messages,
+ * the structured logger of the checkout accepts an object of context and an
+ * error, which are recorded alongside the checkout and correlation IDs.
+ */
+export default interface Logger {
+    log(...messages: unknown[]): void;
+
+    info(...messages: unknown[]): void;
+
+    warn(...messages: unknown[]): void;
+
+    error(...messages: unknown[]): void;
+
+    debug(...messages: unknown[]): void;
+}
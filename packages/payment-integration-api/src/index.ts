@@ -21,6 +21,7 @@ export {
 export { Checkout } from './checkout';
 export { BrowserInfo, getBrowserInfo } from './common/browser-info';
 export { CancellablePromise } from './common/cancellable-promise';
+export { Logger } from './common/log';
 export { ContentType, INTERNAL_USE_ONLY, SDK_VERSION_HEADERS } from './common/http-request';
 export { Omit, PartialDeep } from './common/types';
 export { objectWithKebabCaseKeys, AmountTransformer } from './common/utility';
@@ -152,6 +153,8 @@ export {
     SubmitPaymentAction,
     PaymentAdditionalAction,
     PaymentInitializeOptions,
+    PaymentLifecyclePhase,
+    PendingPayment,
     PaymentMethod,
     PaymentMethodMeta,
     PaymentRequestOptions,
@@ -179,6 +182,24 @@ export {
     InstrumentMeta,
     StorefrontPaymentRequestSender,
 } from './payment';
+export {
+    ContinueStep,
+    ContinueStepHandler,
+    FailureStep,
+    HumanVerificationHandler,
+    HumanVerificationStepCallbacks,
+    HumanVerificationStepParameters,
+    PaymentStepEngine,
+    PaymentStepEngineOptions,
+    PaymentStepResponse,
+    PollingStepHandlerOptions,
+    RedirectStepParameters,
+    SuccessStep,
+    createHumanVerificationStepHandler,
+    createPollingStepHandler,
+    createRedirectStepHandler,
+    isContinueStep,
+} from './payment-step';
 export { StoreCreditActionType } from './store-credit';
 
 export { default as PaymentIntegrationSelectors } from './payment-integration-selectors';
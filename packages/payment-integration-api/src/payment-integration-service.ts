@@ -1,10 +1,17 @@
 import { BillingAddressRequestBody } from './billing';
 import { BuyNowCartRequestBody, Cart } from './cart';
 import { Checkout } from './checkout';
+import { Logger } from './common/log';
 import { CustomerCredentials } from './customer';
 import { HostedForm, HostedFormOptions } from './hosted-form';
 import { OrderRequestBody } from './order';
-import { InitializeOffsitePaymentConfig, Payment, PaymentAdditionalAction } from './payment';
+import {
+    InitializeOffsitePaymentConfig,
+    Payment,
+    PaymentAdditionalAction,
+    PaymentLifecyclePhase,
+    PaymentRequestOptions,
+} from './payment';
 import { InitializePaymentOptions } from './payment/payment-initialize-options';
 import PaymentIntegrationSelectors from './payment-integration-selectors';
 import { PaymentProviderCustomer } from './payment-provider-customer';
@@ -113,4 +120,20 @@ export default interface PaymentIntegrationService {
     ): Promise<PaymentAdditionalAction>;
 
     widgetInteraction(method: () => Promise<unknown>): Promise<PaymentIntegrationSelectors>;
+
+    /**
+     * Reports the current phase of a payment. Reporting the `redirecting`
+     * phase also persists a pending payment, so that the payment can be
+     * resumed once the shopper returns from the website of the provider.
+     */
+    reportPaymentPhase(
+        phase: PaymentLifecyclePhase,
+        options: PaymentRequestOptions,
+    ): Promise<PaymentIntegrationSelectors>;
+
+    /**
+     * Returns the structured logger of the checkout, so that payment strategies
+     * can record their failures along with the context of the checkout.
+     */
+    getLogger(): Logger;
 }
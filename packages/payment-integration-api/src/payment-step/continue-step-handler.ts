@@ -0,0 +1,17 @@
+import { PaymentStepResponse } from './payment-step-response';
+
+/**
+ * Handles a `continue` step returned by a payments API, i.e.: redirecting the
+ * shopper, presenting a 3DS challenge or a QR code, or polling for the outcome
+ * of a payment.
+ *
+ * A handler resolves with the next response if the payment needs further
+ * steps, or with nothing once the step is completed.
+ */
+export default interface ContinueStepHandler<TParameters = unknown, TContext = unknown> {
+    code: string;
+
+    isParameters(parameters: unknown): parameters is TParameters;
+
+    handle(parameters: TParameters, context?: TContext): Promise<PaymentStepResponse | void>;
+}
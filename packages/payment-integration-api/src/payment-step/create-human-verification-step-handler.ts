@@ -0,0 +1,70 @@
+import { get, isArray } from 'lodash';
+
+import { PaymentAdditionalAction } from '../payment';
+
+import ContinueStepHandler from './continue-step-handler';
+
+interface VerificationMethod {
+    id: string;
+    parameters: Record<string, string>;
+}
+
+export interface HumanVerificationStepParameters {
+    available_methods: VerificationMethod[];
+}
+
+export interface HumanVerificationHandler {
+    handle(id: string, key: string): Promise<PaymentAdditionalAction>;
+}
+
+export interface HumanVerificationStepCallbacks {
+    humanVerification?(additionalAction: PaymentAdditionalAction): Promise<void>;
+}
+
+const isParameters = (x: unknown): x is HumanVerificationStepParameters => {
+    const availableMethods = get(x, 'available_methods');
+
+    return isArray(availableMethods);
+};
+
+const handleHumanVerification = async (
+    { available_methods }: HumanVerificationStepParameters,
+    humanVerificationHandler: HumanVerificationHandler,
+    callback?: (additionalAction: PaymentAdditionalAction) => Promise<void>,
+): Promise<void> => {
+    if (!callback) {
+        throw new Error('Human verification callback function is missing.');
+    }
+
+    if (available_methods.length === 0) {
+        throw Error('Human verification method is missing.');
+    }
+
+    // Only one method is expected because google recaptcha only is supported
+    const { id, parameters } = available_methods[0];
+
+    const additionalAction = await humanVerificationHandler.handle(id, parameters.key);
+
+    return callback(additionalAction);
+};
+
+/**
+ * Creates a handler for `continue` steps that require the shopper to complete
+ * a human verification challenge, i.e.: reCAPTCHA, before the payment is
+ * resubmitted. The outcome of the challenge is passed to the
+ * `humanVerification` callback provided when running the steps.
+ */
+export default function createHumanVerificationStepHandler(
+    humanVerificationHandler: HumanVerificationHandler,
+): ContinueStepHandler<HumanVerificationStepParameters, HumanVerificationStepCallbacks> {
+    return {
+        code: 'resubmit_with_human_verification',
+        isParameters,
+        handle: (parameters, callbacks) =>
+            handleHumanVerification(
+                parameters,
+                humanVerificationHandler,
+                callbacks?.humanVerification,
+            ),
+    };
+}
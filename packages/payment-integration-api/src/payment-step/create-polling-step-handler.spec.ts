@@ -0,0 +1,46 @@
+import createPollingStepHandler from './create-polling-step-handler';
+
+describe('createPollingStepHandler()', () => {
+    const isParameters = (parameters: unknown): parameters is { id: string } =>
+        typeof (parameters as { id?: unknown }).id === 'string';
+
+    beforeEach(() => {
+        jest.useFakeTimers();
+    });
+
+    afterEach(() => {
+        jest.useRealTimers();
+    });
+
+    it('polls for the next step once the interval has elapsed', async () => {
+        const response = { body: { type: 'success' }, status: 200, statusText: '', headers: {} };
+        const poll = jest.fn(() => Promise.resolve(response));
+        const handler = createPollingStepHandler({
+            code: 'polling',
+            interval: 1000,
+            isParameters,
+            poll,
+        });
+
+        const promise = handler.handle({ id: 'foo' });
+
+        expect(poll).not.toHaveBeenCalled();
+
+        jest.advanceTimersByTime(1000);
+
+        await expect(promise).resolves.toEqual(response);
+        expect(poll).toHaveBeenCalledWith({ id: 'foo' }, undefined);
+    });
+
+    it('validates parameters of polling step', () => {
+        const handler = createPollingStepHandler({
+            code: 'polling',
+            isParameters,
+            poll: jest.fn(),
+        });
+
+        expect(handler.code).toBe('polling');
+        expect(handler.isParameters({ id: 'foo' })).toBe(true);
+        expect(handler.isParameters({})).toBe(false);
+    });
+});
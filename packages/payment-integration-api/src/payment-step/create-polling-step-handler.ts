@@ -0,0 +1,33 @@
+import ContinueStepHandler from './continue-step-handler';
+import { PaymentStepResponse } from './payment-step-response';
+
+export const DEFAULT_POLLING_INTERVAL = 3000;
+
+export interface PollingStepHandlerOptions<TParameters, TContext> {
+    code: string;
+    interval?: number;
+    isParameters(parameters: unknown): parameters is TParameters;
+    poll(parameters: TParameters, context?: TContext): Promise<PaymentStepResponse>;
+}
+
+/**
+ * Creates a handler for `continue` steps that require the outcome of a payment
+ * to be polled, i.e.: while the shopper approves the payment using their
+ * banking app. The response of each poll is handled as the next step.
+ */
+export default function createPollingStepHandler<TParameters, TContext = unknown>({
+    code,
+    interval = DEFAULT_POLLING_INTERVAL,
+    isParameters,
+    poll,
+}: PollingStepHandlerOptions<TParameters, TContext>): ContinueStepHandler<TParameters, TContext> {
+    return {
+        code,
+        isParameters,
+        handle: async (parameters, context) => {
+            await new Promise((resolve) => setTimeout(resolve, interval));
+
+            return poll(parameters, context);
+        },
+    };
+}
@@ -1,11 +1,12 @@
 import { createFormPoster } from '@bigcommerce/form-poster';
 
-import { PaymentMethodCancelledError } from '../../../../../errors';
+import { PaymentMethodCancelledError } from '../errors';
 
-import { handleRedirect, isRedirect, Redirect } from './redirect';
+import createRedirectStepHandler from './create-redirect-step-handler';
 
-describe('handleRedirect', () => {
+describe('createRedirectStepHandler()', () => {
     const formPoster = createFormPoster();
+    const redirectStepHandler = createRedirectStepHandler(formPoster);
     let initialUrl: string;
 
     beforeAll(() => {
@@ -30,7 +31,8 @@ describe('handleRedirect', () => {
                     url: 'http://some-url.com',
                 };
 
-                handleRedirect(redirectContinueResponse, formPoster)
+                redirectStepHandler
+                    .handle(redirectContinueResponse)
                     .then(resolveMock)
                     .catch(rejectMock);
 
@@ -56,7 +58,8 @@ describe('handleRedirect', () => {
                     form_fields,
                 };
 
-                handleRedirect(redirectContinueResponse, formPoster)
+                redirectStepHandler
+                    .handle(redirectContinueResponse)
                     .then(resolveMock)
                     .catch(rejectMock);
 
@@ -73,46 +76,30 @@ describe('handleRedirect', () => {
                 url: 'http://some-url.com',
             };
 
-            handleRedirect(redirectContinueResponse, formPoster);
+            void redirectStepHandler.handle(redirectContinueResponse);
 
             await expect(
-                handleRedirect(redirectContinueResponse, formPoster),
+                redirectStepHandler.handle(redirectContinueResponse),
             ).rejects.toBeInstanceOf(PaymentMethodCancelledError);
         });
     });
-});
-
-describe('isRedirect', () => {
-    it('returns true when passed valid redirect responses', () => {
-        const redirectByGetResponse: Redirect = {
-            type: 'continue',
-            code: 'redirect',
-            parameters: {
-                url: 'http://some-url.com',
-            },
-        };
-
-        const redirectByPostResponse: Redirect = {
-            type: 'continue',
-            code: 'redirect',
-            parameters: {
-                url: 'http://some-url.com',
-                form_fields: {
-                    someField: 'some-value',
-                    anotherField: 'another-value',
-                },
-            },
-        };
-
-        expect(isRedirect(redirectByGetResponse)).toBe(true);
-        expect(isRedirect(redirectByPostResponse)).toBe(true);
-    });
 
-    it('returns false when passed an invalid redirect response', () => {
-        const invalidResponse = {
-            type: 'anything',
-        };
+    describe('#isParameters', () => {
+        it('returns true when passed valid redirect parameters', () => {
+            expect(redirectStepHandler.isParameters({ url: 'http://some-url.com' })).toBe(true);
+            expect(
+                redirectStepHandler.isParameters({
+                    url: 'http://some-url.com',
+                    form_fields: {
+                        someField: 'some-value',
+                        anotherField: 'another-value',
+                    },
+                }),
+            ).toBe(true);
+        });
 
-        expect(isRedirect(invalidResponse)).toBe(false);
+        it('returns false when passed invalid redirect parameters', () => {
+            expect(redirectStepHandler.isParameters({ type: 'anything' })).toBe(false);
+        });
     });
 });
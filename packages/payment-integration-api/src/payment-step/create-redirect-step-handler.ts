@@ -0,0 +1,58 @@
+import { FormPoster } from '@bigcommerce/form-poster';
+import { get, isObject, isString, isUndefined, noop } from 'lodash';
+
+import { PaymentMethodCancelledError } from '../errors';
+
+import ContinueStepHandler from './continue-step-handler';
+import RedirectionState from './redirection-state';
+
+export interface RedirectStepParameters {
+    url: string;
+    form_fields?: Record<string, string | number | boolean>;
+}
+
+const isParameters = (x: unknown): x is RedirectStepParameters => {
+    const formFields = get(x, 'form_fields');
+
+    return isString(get(x, 'url')) && (isUndefined(formFields) || isObject(formFields));
+};
+
+const handleRedirect = (
+    { url, form_fields }: RedirectStepParameters,
+    formPoster: FormPoster,
+): Promise<never> => {
+    const redirectionState = new RedirectionState();
+
+    if (redirectionState.isRedirecting()) {
+        redirectionState.setRedirecting(false);
+
+        return Promise.reject(new PaymentMethodCancelledError());
+    }
+
+    redirectionState.setRedirecting(true);
+
+    if (form_fields) {
+        formPoster.postForm(url, form_fields);
+    } else {
+        window.location.assign(url);
+    }
+
+    return new Promise(noop);
+};
+
+/**
+ * Creates a handler for `continue` steps that redirect the shopper to another
+ * page, either by navigating to the URL or by posting a form to it. The
+ * returned promise never settles as the shopper leaves the page. If the
+ * shopper returns to the page without completing the redirect, the handler
+ * rejects with `PaymentMethodCancelledError`.
+ */
+export default function createRedirectStepHandler(
+    formPoster: FormPoster,
+): ContinueStepHandler<RedirectStepParameters> {
+    return {
+        code: 'redirect',
+        isParameters,
+        handle: (parameters) => handleRedirect(parameters, formPoster),
+    };
+}
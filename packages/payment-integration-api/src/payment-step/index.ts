@@ -0,0 +1,19 @@
+export { default as ContinueStepHandler } from './continue-step-handler';
+export {
+    default as createHumanVerificationStepHandler,
+    HumanVerificationHandler,
+    HumanVerificationStepCallbacks,
+    HumanVerificationStepParameters,
+} from './create-human-verification-step-handler';
+export {
+    default as createPollingStepHandler,
+    PollingStepHandlerOptions,
+} from './create-polling-step-handler';
+export {
+    default as createRedirectStepHandler,
+    RedirectStepParameters,
+} from './create-redirect-step-handler';
+export { ContinueStep, FailureStep, SuccessStep, isContinueStep } from './payment-step';
+export { default as PaymentStepEngine } from './payment-step-engine';
+export { default as PaymentStepEngineOptions } from './payment-step-engine-options';
+export { PaymentStepResponse } from './payment-step-response';
@@ -0,0 +1,12 @@
+export default interface PaymentStepEngineOptions {
+    /**
+     * The maximum number of steps to handle before giving up on a payment.
+     */
+    maxSteps?: number;
+
+    /**
+     * The number of milliseconds to wait for a payment to complete before
+     * giving up on it.
+     */
+    timeout?: number;
+}
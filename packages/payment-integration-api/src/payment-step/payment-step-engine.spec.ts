@@ -0,0 +1,185 @@
+import { RequestError, TimeoutError } from '../errors';
+
+import ContinueStepHandler from './continue-step-handler';
+import PaymentStepEngine from './payment-step-engine';
+import { PaymentStepResponse } from './payment-step-response';
+
+describe('PaymentStepEngine', () => {
+    const toResponse = (body: unknown): PaymentStepResponse => ({
+        body,
+        status: 200,
+        statusText: '',
+        headers: {},
+    });
+
+    let redirectHandler: ContinueStepHandler<{ url: string }, string>;
+    let engine: PaymentStepEngine<string>;
+
+    beforeEach(() => {
+        redirectHandler = {
+            code: 'redirect',
+            isParameters: (parameters: unknown): parameters is { url: string } =>
+                typeof (parameters as { url?: unknown }).url === 'string',
+            handle: jest.fn(() => Promise.resolve()),
+        };
+
+        engine = new PaymentStepEngine([redirectHandler]);
+    });
+
+    describe('with a success body', () => {
+        it('resolves to undefined', async () => {
+            await expect(engine.run(toResponse({ type: 'success' }))).resolves.toBeUndefined();
+        });
+    });
+
+    describe('with a continue body', () => {
+        it('passes the parameters and context to the handler declared for its code', async () => {
+            await engine.run(
+                toResponse({
+                    type: 'continue',
+                    code: 'redirect',
+                    parameters: { url: 'http://some-url.com' },
+                }),
+                'context',
+            );
+
+            expect(redirectHandler.handle).toHaveBeenCalledWith(
+                { url: 'http://some-url.com' },
+                'context',
+            );
+        });
+
+        it('handles the response returned by the handler as the next step', async () => {
+            const pollingHandler: ContinueStepHandler = {
+                code: 'polling',
+                isParameters: (parameters: unknown): parameters is unknown => !!parameters,
+                handle: jest.fn(() =>
+                    Promise.resolve(
+                        toResponse({
+                            type: 'continue',
+                            code: 'redirect',
+                            parameters: { url: 'http://some-url.com' },
+                        }),
+                    ),
+                ),
+            };
+
+            engine = new PaymentStepEngine([redirectHandler, pollingHandler]);
+
+            await engine.run(toResponse({ type: 'continue', code: 'polling', parameters: {} }));
+
+            expect(pollingHandler.handle).toHaveBeenCalledTimes(1);
+            expect(redirectHandler.handle).toHaveBeenCalledTimes(1);
+        });
+
+        it('rejects with RequestError if there is no handler for its code', async () => {
+            await expect(
+                engine.run(toResponse({ type: 'continue', code: 'not-supported', parameters: {} })),
+            ).rejects.toBeInstanceOf(RequestError);
+        });
+
+        it('rejects with RequestError if its parameters are invalid', async () => {
+            await expect(
+                engine.run(toResponse({ type: 'continue', code: 'redirect', parameters: {} })),
+            ).rejects.toBeInstanceOf(RequestError);
+            expect(redirectHandler.handle).not.toHaveBeenCalled();
+        });
+
+        it('rejects with TimeoutError if payment requires too many steps', async () => {
+            const response = toResponse({
+                type: 'continue',
+                code: 'redirect',
+                parameters: { url: 'http://some-url.com' },
+            });
+
+            jest.spyOn(redirectHandler, 'handle').mockResolvedValue(response);
+
+            engine = new PaymentStepEngine([redirectHandler], { maxSteps: 3 });
+
+            await expect(engine.run(response)).rejects.toBeInstanceOf(TimeoutError);
+            expect(redirectHandler.handle).toHaveBeenCalledTimes(3);
+        });
+
+        it('rejects with TimeoutError if payment takes longer than timeout', async () => {
+            jest.useFakeTimers();
+            jest.spyOn(redirectHandler, 'handle').mockReturnValue(new Promise(() => undefined));
+
+            engine = new PaymentStepEngine([redirectHandler], { timeout: 1000 });
+
+            const promise = engine.run(
+                toResponse({
+                    type: 'continue',
+                    code: 'redirect',
+                    parameters: { url: 'http://some-url.com' },
+                }),
+            );
+
+            jest.advanceTimersByTime(1000);
+
+            await expect(promise).rejects.toBeInstanceOf(TimeoutError);
+
+            jest.useRealTimers();
+        });
+
+        it('stops handling steps once payment takes longer than timeout', async () => {
+            const response = toResponse({
+                type: 'continue',
+                code: 'redirect',
+                parameters: { url: 'http://some-url.com' },
+            });
+            let resolveStep: (response: PaymentStepResponse) => void = () => undefined;
+
+            jest.useFakeTimers();
+            jest.spyOn(redirectHandler, 'handle').mockReturnValue(
+                new Promise((resolve) => {
+                    resolveStep = resolve;
+                }),
+            );
+
+            engine = new PaymentStepEngine([redirectHandler], { timeout: 1000 });
+
+            const promise = engine.run(response);
+
+            jest.advanceTimersByTime(1000);
+
+            await expect(promise).rejects.toBeInstanceOf(TimeoutError);
+
+            jest.useRealTimers();
+
+            resolveStep(response);
+
+            await new Promise((resolve) => process.nextTick(resolve));
+
+            expect(redirectHandler.handle).toHaveBeenCalledTimes(1);
+        });
+    });
+
+    describe('with a failure body', () => {
+        it('rejects with RequestError containing the failure code', async () => {
+            const promise = engine.run(toResponse({ type: 'failure', code: 'any-failure' }));
+
+            await expect(promise).rejects.toBeInstanceOf(RequestError);
+            await expect(promise).rejects.toStrictEqual(
+                expect.objectContaining({
+                    body: { errors: [{ code: 'any-failure' }] },
+                }),
+            );
+        });
+    });
+
+    describe('with an error body', () => {
+        it('rejects with RequestError', async () => {
+            await expect(engine.run(toResponse({ type: 'error' }))).rejects.toBeInstanceOf(
+                RequestError,
+            );
+        });
+    });
+
+    describe('with an unsupported body', () => {
+        it('rejects with RequestError', async () => {
+            await expect(engine.run(toResponse({ type: 'anything' }))).rejects.toBeInstanceOf(
+                RequestError,
+            );
+        });
+    });
+});
@@ -0,0 +1,115 @@
+import { RequestError, TimeoutError } from '../errors';
+
+import ContinueStepHandler from './continue-step-handler';
+import { FailureStep, isContinueStep, isFailureStep, isSuccessStep } from './payment-step';
+import PaymentStepEngineOptions from './payment-step-engine-options';
+import { PaymentStepResponse } from './payment-step-response';
+
+export const DEFAULT_MAX_STEPS = 10;
+
+interface PaymentStepCancellation {
+    isCancelled: boolean;
+}
+
+/**
+ * Runs a payment through the steps returned by a payments API until it either
+ * succeeds or fails.
+ *
+ * `success` steps resolve, `failure`, `error` and unsupported steps reject with
+ * `RequestError`, and `continue` steps are delegated to the handler declared
+ * for their code. If a handler resolves with another response, it is handled
+ * as the next step. The payment is rejected with `TimeoutError` if it takes
+ * longer than the configured timeout or number of steps. Once the timeout is
+ * reached, no further steps are handled.
+ */
+export default class PaymentStepEngine<TContext = unknown> {
+    constructor(
+        private _continueStepHandlers: Array<ContinueStepHandler<unknown, TContext>>,
+        private _options: PaymentStepEngineOptions = {},
+    ) {}
+
+    run(response: PaymentStepResponse, context?: TContext): Promise<void> {
+        const { timeout } = this._options;
+        const cancellation: PaymentStepCancellation = { isCancelled: false };
+        const steps = this._runSteps(response, cancellation, context);
+
+        if (timeout === undefined) {
+            return steps;
+        }
+
+        return new Promise((resolve, reject) => {
+            const timer = setTimeout(() => {
+                cancellation.isCancelled = true;
+                reject(new TimeoutError());
+            }, timeout);
+
+            steps.then(
+                () => {
+                    clearTimeout(timer);
+                    resolve();
+                },
+                (error) => {
+                    clearTimeout(timer);
+                    reject(error);
+                },
+            );
+        });
+    }
+
+    private async _runSteps(
+        response: PaymentStepResponse,
+        cancellation: PaymentStepCancellation,
+        context?: TContext,
+        step = 0,
+    ): Promise<void> {
+        const { maxSteps = DEFAULT_MAX_STEPS } = this._options;
+
+        if (cancellation.isCancelled || step >= maxSteps) {
+            throw new TimeoutError(response);
+        }
+
+        const nextResponse = await this._handleStep(response, context);
+
+        if (nextResponse) {
+            return this._runSteps(nextResponse, cancellation, context, step + 1);
+        }
+    }
+
+    private _handleStep(
+        response: PaymentStepResponse,
+        context?: TContext,
+    ): Promise<PaymentStepResponse | void> {
+        const { body } = response;
+
+        if (isSuccessStep(body)) {
+            return Promise.resolve();
+        }
+
+        if (isContinueStep(body)) {
+            const handler = this._continueStepHandlers.find(
+                (continueStepHandler) =>
+                    continueStepHandler.code === body.code &&
+                    continueStepHandler.isParameters(body.parameters),
+            );
+
+            if (handler) {
+                return handler.handle(body.parameters, context);
+            }
+        }
+
+        if (isFailureStep(body)) {
+            return Promise.reject(new RequestError(this._toRequestErrorFormat(response, body)));
+        }
+
+        return Promise.reject(new RequestError(response));
+    }
+
+    private _toRequestErrorFormat(response: PaymentStepResponse, { code }: FailureStep) {
+        return {
+            ...response,
+            body: {
+                errors: [{ code }],
+            },
+        };
+    }
+}
@@ -0,0 +1,3 @@
+import { Response } from '@bigcommerce/request-sender';
+
+export type PaymentStepResponse = Response<unknown>;
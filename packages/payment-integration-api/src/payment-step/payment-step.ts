@@ -0,0 +1,27 @@
+import { get, isString } from 'lodash';
+
+import { PaymentStepResponse } from './payment-step-response';
+
+export interface SuccessStep {
+    type: 'success';
+}
+
+export interface ContinueStep<TCode extends string = string, TParameters = unknown> {
+    type: 'continue';
+    code: TCode;
+    parameters: TParameters;
+}
+
+export interface FailureStep {
+    type: 'failure';
+    code: string;
+}
+
+export const isSuccessStep = (body: PaymentStepResponse['body']): body is SuccessStep =>
+    get(body, 'type') === 'success';
+
+export const isContinueStep = (body: PaymentStepResponse['body']): body is ContinueStep =>
+    get(body, 'type') === 'continue' && isString(get(body, 'code'));
+
+export const isFailureStep = (body: PaymentStepResponse['body']): body is FailureStep =>
+    get(body, 'type') === 'failure' && isString(get(body, 'code'));
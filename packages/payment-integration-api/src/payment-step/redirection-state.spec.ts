@@ -1,6 +1,6 @@
-import { parseUrl } from '../../../../../../common/url';
+import { parseUrl } from 'query-string';
 
-import { PENDING_REDIRECT_PARAM, RedirectionState } from './RedirectionState';
+import RedirectionState, { PENDING_REDIRECT_PARAM } from './redirection-state';
 
 describe('RedirectionState', () => {
     let initialUrl: string;
@@ -28,7 +28,7 @@ describe('RedirectionState', () => {
             it('sets a "redirecting" url param when set to true', () => {
                 redirectionState.setRedirecting(true);
 
-                expect(parseUrl(window.location.href).search).toContain(PENDING_REDIRECT_PARAM);
+                expect(parseUrl(window.location.href).query).toHaveProperty(PENDING_REDIRECT_PARAM);
             });
         });
 
@@ -45,7 +45,9 @@ describe('RedirectionState', () => {
             it('removes the "redirecting" url param when set to false', () => {
                 redirectionState.setRedirecting(false);
 
-                expect(parseUrl(window.location.href).search).not.toContain(PENDING_REDIRECT_PARAM);
+                expect(parseUrl(window.location.href).query).not.toHaveProperty(
+                    PENDING_REDIRECT_PARAM,
+                );
             });
         });
     });
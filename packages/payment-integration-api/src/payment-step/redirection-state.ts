@@ -2,7 +2,7 @@ import { exclude, ParsedUrl, parseUrl, stringifyUrl } from 'query-string';
 
 export const PENDING_REDIRECT_PARAM = 'redirecting';
 
-export class RedirectionState {
+export default class RedirectionState {
     private _isRedirecting: boolean;
 
     constructor() {
@@ -62,6 +62,8 @@ export { default as PaymentResponseBody, ThreeDsResult } from './payment-respons
 export { default as PaymentStrategy } from './payment-strategy';
 export { default as PaymentStrategyFactory } from './payment-strategy-factory';
 export { default as PaymentStrategyResolveId } from './payment-strategy-resolve-id';
+export { default as PaymentLifecyclePhase } from './payment-lifecycle-phase';
+export { default as PendingPayment } from './pending-payment';
 export { default as PaymentStatusTypes } from './payment-status-types';
 export { default as PaymentMethodMeta } from './payment-method-meta';
 export { default as StorefrontPaymentRequestSender } from './storefront-payment-request-sender';
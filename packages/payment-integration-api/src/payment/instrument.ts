@@ -7,6 +7,7 @@ export default PaymentInstrument;
 export interface BaseInstrument {
     bigpayToken: string;
     defaultInstrument: boolean;
+    nickname?: string;
     provider: string;
     trustedShippingAddress: boolean;
     method: string;
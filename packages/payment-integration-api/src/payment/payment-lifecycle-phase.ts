@@ -0,0 +1,19 @@
+/**
+ * The phases that a payment goes through, from the initialization of its
+ * payment strategy to the completion of the payment.
+ */
+enum PaymentLifecyclePhase {
+    Idle = 'idle',
+    Initializing = 'initializing',
+    Ready = 'ready',
+    Submitting = 'submitting',
+    Challenge = 'challenge',
+    AwaitingApproval = 'awaiting_approval',
+    Redirecting = 'redirecting',
+    Polling = 'polling',
+    Completed = 'completed',
+    Failed = 'failed',
+    Cancelled = 'cancelled',
+}
+
+export default PaymentLifecyclePhase;
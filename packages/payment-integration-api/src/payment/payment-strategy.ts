@@ -1,7 +1,9 @@
 import { OrderRequestBody } from '../order';
+import { RequestOptions } from '../util-types';
 
 import { PaymentInitializeOptions } from './payment-initialize-options';
 import { PaymentRequestOptions } from './payment-request-options';
+import PendingPayment from './pending-payment';
 
 export default interface PaymentStrategy {
     execute(payload: OrderRequestBody, options?: PaymentRequestOptions): Promise<void>;
@@ -11,4 +13,11 @@ export default interface PaymentStrategy {
     initialize(options?: PaymentInitializeOptions): Promise<void>;
 
     deinitialize(options?: PaymentRequestOptions): Promise<void>;
+
+    /**
+     * Completes a payment once the shopper returns from the website of its
+     * payment provider. If a strategy does not implement this method, the
+     * payment is resumed by finalizing it instead.
+     */
+    resume?(pendingPayment: PendingPayment, options?: RequestOptions): Promise<void>;
 }
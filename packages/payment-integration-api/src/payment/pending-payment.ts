@@ -0,0 +1,20 @@
+/**
+ * A record of a payment that is waiting for the shopper to return from the
+ * website of its payment provider.
+ */
+export default interface PendingPayment {
+    /**
+     * The identifier of the payment method.
+     */
+    methodId: string;
+
+    /**
+     * The identifier of the payment provider providing the payment method.
+     */
+    gatewayId?: string;
+
+    /**
+     * The time when the shopper was redirected, in milliseconds since epoch.
+     */
+    createdAt: number;
+}
@@ -93,6 +93,14 @@ const updatePaymentProviderCustomer = jest.fn();
 const initializePayment = jest.fn();
 const validateCheckout = jest.fn();
 const widgetInteraction = jest.fn();
+const reportPaymentPhase = jest.fn();
+const getLogger = jest.fn(() => ({
+    log: jest.fn(),
+    info: jest.fn(),
+    warn: jest.fn(),
+    error: jest.fn(),
+    debug: jest.fn(),
+}));
 const handle = jest.fn();
 const applyCoupon = jest.fn();
 const removeCoupon = jest.fn();
@@ -135,6 +143,8 @@ const PaymentIntegrationServiceMock = jest
             validateCheckout,
             handle,
             widgetInteraction,
+            reportPaymentPhase,
+            getLogger,
         };
     });
 
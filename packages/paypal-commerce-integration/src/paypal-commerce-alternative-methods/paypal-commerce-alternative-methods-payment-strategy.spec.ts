@@ -7,6 +7,7 @@ import {
     PaymentArgumentInvalidError,
     PaymentInitializeOptions,
     PaymentIntegrationService,
+    PaymentLifecyclePhase,
     PaymentMethod,
     PaymentMethodInvalidError,
 } from '@bigcommerce/checkout-sdk/payment-integration-api';
@@ -758,6 +759,30 @@ describe('PayPalCommerceAlternativeMethodsPaymentStrategy', () => {
             expect(paypalIntegrationService.getOrderStatus).toHaveBeenCalled();
         });
 
+        it('reports polling phase while waiting for order to be approved', async () => {
+            jest.spyOn(paypalIntegrationService, 'getOrderStatus').mockResolvedValue(
+                PayPalOrderStatus.Approved,
+            );
+
+            const payload = {
+                payment: {
+                    methodId: 'ideal',
+                    gatewayId: 'paypalcommercealternativemethods',
+                },
+            };
+
+            await strategy.initialize(initializationOptions);
+
+            eventEmitter.emit('onApprove');
+
+            await strategy.execute(payload);
+
+            expect(paymentIntegrationService.reportPaymentPhase).toHaveBeenCalledWith(
+                PaymentLifecyclePhase.Polling,
+                payload.payment,
+            );
+        });
+
         it('request order status with proper payload', async () => {
             jest.spyOn(paypalIntegrationService, 'getOrderStatus').mockResolvedValue(
                 PayPalOrderStatus.Approved,
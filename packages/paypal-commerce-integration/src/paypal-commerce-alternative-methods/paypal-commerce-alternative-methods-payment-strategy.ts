@@ -7,6 +7,7 @@ import {
     PaymentArgumentInvalidError,
     PaymentInitializeOptions,
     PaymentIntegrationService,
+    PaymentLifecyclePhase,
     PaymentMethodClientUnavailableError,
     PaymentMethodInvalidError,
     PaymentRequestOptions,
@@ -142,6 +143,10 @@ export default class PayPalCommerceAlternativeMethodsPaymentStrategy implements
         }
 
         if (!this.isOrderApprovedProcessing && methodId === 'ideal') {
+            await this.paymentIntegrationService.reportPaymentPhase(PaymentLifecyclePhase.Polling, {
+                methodId,
+                gatewayId,
+            });
             await new Promise((resolve, reject) => {
                 void this.initializePollingMechanism(methodId, resolve, reject, gatewayId);
             });
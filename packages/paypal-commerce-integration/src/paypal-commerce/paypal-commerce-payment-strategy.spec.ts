@@ -7,6 +7,7 @@ import {
     PaymentArgumentInvalidError,
     PaymentInitializeOptions,
     PaymentIntegrationService,
+    PaymentLifecyclePhase,
     PaymentMethod,
     PaymentMethodInvalidError,
 } from '@bigcommerce/checkout-sdk/payment-integration-api';
@@ -369,6 +370,19 @@ describe('PayPalCommercePaymentStrategy', () => {
                 { shouldSaveInstrument: true },
             );
         });
+
+        it('reports awaiting approval phase once paypal order is created', async () => {
+            await strategy.initialize(initializationOptions);
+
+            eventEmitter.emit('createOrder');
+
+            await new Promise((resolve) => process.nextTick(resolve));
+
+            expect(paymentIntegrationService.reportPaymentPhase).toHaveBeenCalledWith(
+                PaymentLifecyclePhase.AwaitingApproval,
+                { methodId: initializationOptions.methodId },
+            );
+        });
     });
 
     describe('#onClick button callback', () => {
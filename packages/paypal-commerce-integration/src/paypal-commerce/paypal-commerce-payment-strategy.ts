@@ -11,6 +11,7 @@ import {
     PaymentInitializeOptions,
     PaymentInstrumentPayload,
     PaymentIntegrationService,
+    PaymentLifecyclePhase,
     PaymentMethodInvalidError,
     PaymentRequestOptions,
     PaymentStrategy,
@@ -305,7 +306,7 @@ export default class PayPalCommercePaymentStrategy implements PaymentStrategy {
         const buttonOptions: PayPalButtonsOptions = {
             fundingSource: paypalSdk.FUNDING.PAYPAL,
             style: this.paypalIntegrationService.getValidButtonStyle(checkoutPaymentButtonStyles),
-            createOrder: () => this.createOrder(),
+            createOrder: () => this.handleCreateOrder(methodId),
             onClick: (_, actions) => this.handleClick(actions, onValidate),
             onApprove: (data) => this.handleApprove(data, submitForm),
             onError: (error) => this.handleError(error, onError),
@@ -340,6 +341,17 @@ export default class PayPalCommercePaymentStrategy implements PaymentStrategy {
         return onValidate?.(onValidationPassed, reject);
     }
 
+    private async handleCreateOrder(methodId: string): Promise<string> {
+        const orderId = await this.createOrder();
+
+        await this.paymentIntegrationService.reportPaymentPhase(
+            PaymentLifecyclePhase.AwaitingApproval,
+            { methodId },
+        );
+
+        return orderId;
+    }
+
     private handleApprove(
         { orderID }: ApproveCallbackPayload,
         submitForm: PayPalCommercePaymentInitializeOptions['submitForm'],
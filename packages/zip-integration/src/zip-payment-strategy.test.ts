@@ -8,6 +8,7 @@ import {
     PaymentArgumentInvalidError,
     PaymentInitializeOptions,
     PaymentIntegrationService,
+    PaymentLifecyclePhase,
     PaymentMethod,
     RequestError,
     StorefrontPaymentRequestSender,
@@ -159,6 +160,10 @@ describe('ZipPaymentStrategy', () => {
             void strategy.execute(payload);
             await new Promise((resolve) => process.nextTick(resolve));
 
+            expect(paymentIntegrationService.reportPaymentPhase).toHaveBeenCalledWith(
+                PaymentLifecyclePhase.Redirecting,
+                { methodId: 'zip', gatewayId: undefined },
+            );
             expect(window.location.replace).toHaveBeenCalledWith('http://some-url');
         });
 
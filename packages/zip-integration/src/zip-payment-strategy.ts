@@ -6,6 +6,7 @@ import {
     OrderRequestBody,
     PaymentArgumentInvalidError,
     PaymentIntegrationService,
+    PaymentLifecyclePhase,
     PaymentRequestOptions,
     PaymentStrategy,
     StorefrontPaymentRequestSender,
@@ -68,6 +69,11 @@ export default class ZipPaymentStrategy implements PaymentStrategy {
             });
         } catch (error) {
             if (isRequestError(error) && error.body.status === 'additional_action_required') {
+                await this.paymentIntegrationService.reportPaymentPhase(
+                    PaymentLifecyclePhase.Redirecting,
+                    { methodId, gatewayId: options?.gatewayId },
+                );
+
                 return new Promise(() => window.location.replace(redirectUrl));
             }
 